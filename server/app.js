@@ -2,7 +2,7 @@
  * @file server/app.js
  * @description Main entry point for CyberTaxi backend
  * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
- * @version 0.1.17
+ * @version 0.1.24
  * @note Initializes Express server, middleware, and routes
  * @see https://kdeangames.net/CyberTaxi/MockUp/Docs/GDD.html
  */
@@ -70,6 +70,20 @@ try {
     console.log("Tiles route mounted at /api");
     app.use("/api", require("./routes/vehicles/vehicles"));
     console.log("Vehicles route mounted at /api");
+    app.use("/api", require("./routes/garages/garages"));
+    console.log("Garages route mounted at /api");
+    app.use("/api", require("./routes/staff/staff"));
+    console.log("Staff route mounted at /api");
+    app.use("/api", require("./routes/orders/orders"));
+    console.log("Orders route mounted at /api");
+    app.use("/api", require("./routes/market/market"));
+    console.log("Market route mounted at /api");
+    app.use("/api", require("./routes/catalog/catalog"));
+    console.log("Catalog route mounted at /api");
+    app.use("/api", require("./routes/licenses/licenses"));
+    console.log("Licenses route mounted at /api");
+    app.use("/api", require("./routes/ledger/ledger"));
+    console.log("Ledger route mounted at /api");
     app.use("/api", require("./routes/health/health"));
     console.log("Health route mounted at /api");
     app.use("/api", require("./routes/main/main"));
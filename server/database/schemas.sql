@@ -63,6 +63,15 @@ ALTER TABLE vehicles
 -- No changes to battery DECIMAL(5,2) CHECK 0-100 (20-30% degradation triggers)
 -- No changes to mileage/tire_mileage DECIMAL(10,2) (30,000-50,000 tire lifespan with rotations)
 
+-- Vehicle status lifecycle (matches src/domain/Vehicle.ts): ordered -> delivering -> new -> parked/active/fare,
+-- with charging/maintenance/cleaning service states and sold as terminal. 'garage' kept for existing rows (read as parked).
+ALTER TABLE vehicles
+    MODIFY COLUMN status ENUM('ordered', 'delivering', 'new', 'parked', 'active', 'fare', 'charging', 'maintenance', 'cleaning', 'sold', 'garage') NOT NULL DEFAULT 'new';
+
+-- Vehicle type is a catalog model id (server/data/vehicle-catalog.json), so new models need no schema change
+ALTER TABLE vehicles
+    MODIFY COLUMN type VARCHAR(50) NOT NULL;
+
 -- Players Table Schema (Phase 1 sub-chunk 3, as of July 30, 2025)
 CREATE TABLE IF NOT EXISTS players (
     id BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
@@ -85,7 +94,7 @@ CREATE TABLE IF NOT EXISTS garages (
     id BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
     player_id BIGINT UNSIGNED,  -- FK to players(id) for ownership
     name VARCHAR(50) NOT NULL,  -- Garage name (e.g., 'Kevin-Dean Garage')
-    coords VARCHAR(50) AS (JSON_ARRAY(lat, lng)) STORED GENERATED ALWAYS,  -- JSON [lat,lng] for location
+    coords VARCHAR(50) DEFAULT NULL,  -- JSON [lat,lng] for location, written by POST /api/garages
     capacity INT UNSIGNED NOT NULL DEFAULT 5,  -- Default capacity (e.g., 5 vehicles)
     type ENUM('garage', 'lot') NOT NULL DEFAULT 'garage',  -- Type per GDD
     cost_monthly DECIMAL(10,2) NOT NULL,  -- Monthly lease cost (e.g., $1,500)
@@ -106,4 +115,142 @@ ALTER TABLE players
 ALTER TABLE players
     MODIFY COLUMN player_id BIGINT UNSIGNED NOT NULL,
     DROP INDEX idx_score,
-    ADD INDEX idx_score (score);
\ No newline at end of file
+    ADD INDEX idx_score (score);
+
+    -- Password reset codes (Phase 2, as of August 21, 2025)
+CREATE TABLE IF NOT EXISTS password_resets (
+    id BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+    player_id BIGINT UNSIGNED NOT NULL,  -- FK to players(id)
+    code_hash CHAR(64) NOT NULL,  -- SHA-256 of the emailed code; plain codes are never stored
+    expires_at DATETIME NOT NULL,  -- 15 minutes after request
+    used_at DATETIME DEFAULT NULL,  -- Set on successful confirm, on every outstanding code of the player
+    attempts TINYINT UNSIGNED NOT NULL DEFAULT 0,  -- Wrong codes entered for the player while this one was outstanding; dead at 5
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    INDEX idx_code_hash (code_hash),
+    FOREIGN KEY (player_id) REFERENCES players(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+    -- Refresh tokens in force, so rotation, logout and password reset can revoke them (Phase 2, as of August 21, 2025)
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+    jti CHAR(32) PRIMARY KEY,  -- Random id carried in the refresh JWT
+    player_id BIGINT UNSIGNED NOT NULL,  -- FK to players(id)
+    expires_at DATETIME NOT NULL,  -- 7 days after issue, as the JWT
+    revoked_at DATETIME DEFAULT NULL,  -- Set on rotation, logout or password reset; the token is refused after
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    INDEX idx_player_revoked (player_id, revoked_at),
+    FOREIGN KEY (player_id) REFERENCES players(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+    -- Vehicle status history for the Vehicle Details window (Phase 2, as of August 21, 2025)
+CREATE TABLE IF NOT EXISTS vehicle_events (
+    id BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+    vehicle_id VARCHAR(10) NOT NULL,  -- FK to vehicles(id)
+    from_status VARCHAR(20) NOT NULL,
+    to_status VARCHAR(20) NOT NULL,
+    lat DECIMAL(9,6) DEFAULT NULL,  -- Position when the change happened
+    lng DECIMAL(9,6) DEFAULT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    INDEX idx_vehicle_created (vehicle_id, created_at),
+    FOREIGN KEY (vehicle_id) REFERENCES vehicles(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+    -- Lifetime fare earnings per vehicle for the Fleet window (Phase 2, as of August 21, 2025)
+ALTER TABLE vehicles
+    ADD COLUMN earnings DECIMAL(10,2) NOT NULL DEFAULT 0.00;
+
+    -- Property leases and purchases for the garage listings (Phase 2, as of August 21, 2025)
+ALTER TABLE garages
+    ADD COLUMN listing_id VARCHAR(20) DEFAULT NULL,  -- Listing id from src/domain/Properties.ts; one holder per listing
+    ADD COLUMN tenure ENUM('lease', 'own') NOT NULL DEFAULT 'lease',
+    ADD COLUMN lease_term ENUM('monthly', 'quarterly', 'yearly') DEFAULT NULL,  -- NULL when owned
+    ADD COLUMN lease_ends_at DATETIME DEFAULT NULL,  -- Paid up to; renewed by GET /api/garages, no slots once past; NULL when owned
+    ADD COLUMN price_paid DECIMAL(12,2) NOT NULL DEFAULT 0.00,  -- Up-front lease payment or purchase price
+    ADD UNIQUE INDEX idx_listing_id (listing_id);
+
+    -- Garage staff hired through the Employment Agency page (Phase 2, as of August 21, 2025)
+CREATE TABLE IF NOT EXISTS staff (
+    id BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+    player_id BIGINT UNSIGNED NOT NULL,  -- FK to players(id)
+    garage_id BIGINT UNSIGNED DEFAULT NULL,  -- FK to garages(id); NULL once their garage is sold, until reassigned
+    applicant_id VARCHAR(20) NOT NULL,  -- Applicant id from src/domain/Staff.ts; hired once per player
+    name VARCHAR(50) NOT NULL,
+    role ENUM('mechanic', 'cleaner') NOT NULL,
+    salary_monthly DECIMAL(10,2) NOT NULL,
+    jobs_done INT UNSIGNED NOT NULL DEFAULT 0,  -- Sets the level (LEVEL_JOBS)
+    schedule VARCHAR(255) NOT NULL,  -- JSON, seven days from Sunday of {start, hours} or null
+    paid_until DATETIME NOT NULL,  -- Salary paid up to; POST /api/staff/payroll bills the months after it
+    hired_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE INDEX idx_player_applicant (player_id, applicant_id),
+    FOREIGN KEY (player_id) REFERENCES players(id) ON DELETE CASCADE,
+    FOREIGN KEY (garage_id) REFERENCES garages(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+    -- New vehicle orders from the Tesla page, delivered to a garage (Phase 2, as of August 21, 2025)
+CREATE TABLE IF NOT EXISTS vehicle_orders (
+    id BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+    player_id BIGINT UNSIGNED NOT NULL,  -- FK to players(id)
+    vehicle_id VARCHAR(10) NOT NULL,  -- Vehicle created as 'ordered' when the order is placed
+    type VARCHAR(50) NOT NULL,  -- Catalog model id, as vehicles.type
+    cost DECIMAL(10,2) NOT NULL,
+    garage_id BIGINT UNSIGNED DEFAULT NULL,  -- FK to garages(id); delivery garage, NULL if it was given up
+    from_stock BOOLEAN NOT NULL DEFAULT FALSE,  -- Took one of the day's service center vehicles
+    status ENUM('placed', 'awaiting_stock', 'in_transit', 'delivered') NOT NULL DEFAULT 'placed',
+    placed_at DATETIME NOT NULL,
+    ships_at DATETIME NOT NULL,  -- Leaves the service center (in_transit)
+    deliver_at DATETIME NOT NULL,  -- Due at the garage
+    delivered_at DATETIME DEFAULT NULL,
+    INDEX idx_player_status (player_id, status),
+    INDEX idx_placed_at (placed_at),
+    FOREIGN KEY (player_id) REFERENCES players(id) ON DELETE CASCADE,
+    FOREIGN KEY (garage_id) REFERENCES garages(id) ON DELETE SET NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Order type matches vehicles.type for tables created before it was widened
+ALTER TABLE vehicle_orders
+    MODIFY COLUMN type VARCHAR(50) NOT NULL;
+
+    -- Used market listings already bought; a listing sells once (Phase 2, as of August 21, 2025)
+CREATE TABLE IF NOT EXISTS used_vehicle_sales (
+    listing_id VARCHAR(20) PRIMARY KEY,  -- U<rotation>-<n>, generated by server/routes/market/market.js
+    player_id BIGINT UNSIGNED NOT NULL,  -- FK to players(id); the buyer
+    vehicle_id VARCHAR(10) NOT NULL,  -- Vehicle created for the buyer
+    price DECIMAL(10,2) NOT NULL,
+    sold_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (player_id) REFERENCES players(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+    -- Austin operating license tier; the free license covers 10 vehicles (Phase 2, as of August 21, 2025)
+ALTER TABLE players
+    ADD COLUMN license_tier ENUM('free', 'taxi_license') NOT NULL DEFAULT 'free';  -- 'taxi_license' is the subscriber license, unlimited vehicles
+
+    -- Yearly taxi permit per vehicle, issued with the purchase and renewed from City Hall (Phase 2, as of August 21, 2025)
+CREATE TABLE IF NOT EXISTS vehicle_permits (
+    vehicle_id VARCHAR(10) PRIMARY KEY,  -- One permit per vehicle, extended on renewal
+    player_id BIGINT UNSIGNED NOT NULL,  -- FK to players(id)
+    fee DECIMAL(10,2) NOT NULL,  -- Last yearly fee paid
+    issued_at DATETIME NOT NULL,
+    expires_at DATETIME NOT NULL,  -- The vehicle cannot take fares after this
+    renewed_at DATETIME DEFAULT NULL,
+    INDEX idx_player_expires (player_id, expires_at),
+    FOREIGN KEY (player_id) REFERENCES players(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+    -- Permits for vehicles bought before licensing, free for their first year (Phase 2, as of August 21, 2025)
+INSERT IGNORE INTO vehicle_permits (vehicle_id, player_id, fee, issued_at, expires_at)
+    SELECT id, player_id, 0.00, NOW(), DATE_ADD(NOW(), INTERVAL 365 DAY) FROM vehicles WHERE status != 'sold';
+
+    -- Money the client fare simulation earns and spends, priced by the server (Phase 2, as of August 21, 2025)
+CREATE TABLE IF NOT EXISTS ledger_entries (
+    id BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+    player_id BIGINT UNSIGNED NOT NULL,  -- FK to players(id)
+    vehicle_id VARCHAR(10) NOT NULL,
+    kind VARCHAR(20) NOT NULL,  -- A PRICERS key in server/routes/ledger/ledger.js: 'fare', 'charge', 'maintenance'
+    ref VARCHAR(64) NOT NULL,  -- Client reference, e.g. the ride id; a retried report is recorded once
+    amount DECIMAL(10,2) NOT NULL,  -- Credited to bank_balance; negative for costs
+    score DECIMAL(10,2) NOT NULL DEFAULT 0.00,  -- Added to players.score
+    quantity DECIMAL(10,2) DEFAULT NULL,  -- Fare miles or charged kWh; NULL for maintenance
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE INDEX uniq_ledger_ref (player_id, kind, ref),
+    INDEX idx_vehicle_kind_created (vehicle_id, kind, created_at),
+    FOREIGN KEY (player_id) REFERENCES players(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
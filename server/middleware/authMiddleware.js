@@ -2,12 +2,17 @@
  * @file server/middleware/authMiddleware.js
  * @description JWT authentication middleware for CyberTaxi protected routes.
  * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
- * @version 0.1.0
- * @note Verifies JWT tokens and generates new ones for authenticated routes.
+ * @version 0.1.3
+ * @note Verifies JWT tokens and generates access and refresh tokens for authenticated routes.
+ *       authenticateStream also accepts ?token= because EventSource cannot send an Authorization header. A refresh
+ *       token carries a jti recorded in refresh_tokens; the auth routes revoke it on rotation, logout and password
+ *       reset, so a valid signature alone does not make it usable.
  * @see https://kdeangames.net/CyberTaxi/MockUp/Docs/GDD.html
  */
 const jwt = require("jsonwebtoken");
 
+const REFRESH_TOKEN_TTL_DAYS = 7; // Also refresh_tokens.expires_at
+
 /**
  * JWT authentication middleware for protected routes
  * @function
@@ -29,8 +34,7 @@ function authenticateJWT(req, res, next) {
         });
     }
     try {
-        const decoded = jwt.verify(token, process.env.JWT_SECRET || "your_jwt_secret");
-        req.user = decoded; // Attach user data (player_id) for filtering
+        req.user = verifyAccessToken(token); // Attach user data (player_id) for filtering
         next();
     } catch (error) {
         console.error("JWT verification failed:", error.message);
@@ -42,6 +46,53 @@ function authenticateJWT(req, res, next) {
     }
 }
 
+/**
+ * JWT authentication for streaming routes (Server-Sent Events)
+ * @function
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ * @param {Function} next - Express next middleware function
+ * @returns {void}
+ * @note Reads the access token from the Authorization header or the token query parameter
+ */
+function authenticateStream(req, res, next) {
+    const token = req.header("Authorization")?.replace("Bearer ", "") || req.query.token;
+    if (!token) {
+        console.log("Stream authentication failed: No token provided");
+        return res.status(401).json({
+            status: "Error",
+            message: "No token provided",
+            details: "JWT token required in Authorization header or token query parameter"
+        });
+    }
+    try {
+        req.user = verifyAccessToken(token);
+        next();
+    } catch (error) {
+        console.error("Stream JWT verification failed:", error.message);
+        return res.status(403).json({
+            status: "Error",
+            message: "Invalid token",
+            details: error.message
+        });
+    }
+}
+
+/**
+ * Verify an access token and return its payload
+ * @function
+ * @param {string} token - Access JWT
+ * @returns {Object} Decoded payload (player_id)
+ * @throws {Error} If the token is invalid, expired, or a refresh token
+ */
+function verifyAccessToken(token) {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET || "your_jwt_secret");
+    if (decoded.token_type === "refresh") {
+        throw new Error("Refresh token cannot be used for API access");
+    }
+    return decoded;
+}
+
 /**
  * Generate JWT token for a player
  * @function
@@ -52,4 +103,47 @@ function generateToken(payload) {
     return jwt.sign(payload, process.env.JWT_SECRET || "your_jwt_secret", { expiresIn: "1h" });
 }
 
-module.exports = { authenticateJWT, generateToken };
\ No newline at end of file
+/**
+ * Generate a long-lived refresh token for a player
+ * @function
+ * @param {Object} payload - Token payload ({ player_id, jti }); jti is the refresh_tokens row that keeps it usable
+ * @returns {string} Refresh JWT, valid for REFRESH_TOKEN_TTL_DAYS
+ */
+function generateRefreshToken(payload) {
+    return jwt.sign(
+        { ...payload, token_type: "refresh" },
+        process.env.JWT_REFRESH_SECRET || process.env.JWT_SECRET || "your_jwt_secret",
+        { expiresIn: `${REFRESH_TOKEN_TTL_DAYS}d` }
+    );
+}
+
+/**
+ * Verify a refresh token and return its payload
+ * @function
+ * @param {string} token - Refresh JWT
+ * @returns {Object} Decoded payload (player_id, jti)
+ * @throws {Error} If the token is invalid, expired, or not a refresh token
+ * @note Only checks the signature; the caller checks refresh_tokens for revocation.
+ */
+function verifyRefreshToken(token) {
+    const decoded = jwt.verify(
+        token,
+        process.env.JWT_REFRESH_SECRET || process.env.JWT_SECRET || "your_jwt_secret"
+    );
+    if (decoded.token_type !== "refresh") {
+        throw new Error("Not a refresh token");
+    }
+    if (typeof decoded.jti !== "string") {
+        throw new Error("Refresh token has no jti");
+    }
+    return decoded;
+}
+
+module.exports = {
+    REFRESH_TOKEN_TTL_DAYS,
+    authenticateJWT,
+    authenticateStream,
+    generateToken,
+    generateRefreshToken,
+    verifyRefreshToken,
+};
\ No newline at end of file
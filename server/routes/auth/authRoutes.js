@@ -1,16 +1,73 @@
 /**
  * @file server/routes/auth/authRoutes.js
- * @description API routes for authentication in CyberTaxi, handling player signup, login, and password reset.
+ * @description API routes for authentication in CyberTaxi, handling player signup, login, token refresh, and password reset.
  * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
- * @version 0.4.1
+ * @version 0.5.2
  * @note Uses JWT for secure authentication and bcrypt for password hashing. All endpoints are PWA-friendly with lightweight JSON responses.
  * @see https://kdeangames.net/CyberTaxi/MockUp/Docs/GDD.html
  */
 const express = require("express");
 const router = express.Router();
 const bcrypt = require("bcrypt");
+const crypto = require("crypto");
 const pool = require("../../models/db");
-const { authenticateJWT, generateToken } = require("../../middleware/authMiddleware");
+const {
+    REFRESH_TOKEN_TTL_DAYS,
+    authenticateJWT,
+    generateToken,
+    generateRefreshToken,
+    verifyRefreshToken,
+} = require("../../middleware/authMiddleware");
+
+// Password reset codes are short-lived and single-use
+const RESET_CODE_TTL_MINUTES = 15;
+const RESET_CODE_BYTES = 8; // 16 hex characters
+const RESET_CODE_MAX_ATTEMPTS = 5; // Wrong codes a player's outstanding codes survive
+
+/**
+ * Hashes a reset code for storage; codes are never stored in plain text.
+ * @param {string} code - Reset code sent to the player
+ * @returns {string} Hex-encoded SHA-256 digest
+ */
+const hashResetCode = (code) => crypto.createHash("sha256").update(code.trim().toUpperCase()).digest("hex");
+
+/**
+ * Issues a refresh token and records its jti, which rotation, logout and password reset revoke.
+ * @param {Object} db - Pool or transaction connection
+ * @param {number} playerTableId - players.id
+ * @param {number} player_id - Public player_id carried in the token
+ * @returns {Promise<string>} Refresh JWT
+ */
+const issueRefreshToken = async (db, playerTableId, player_id) => {
+    const jti = crypto.randomBytes(16).toString("hex");
+    await db.execute(
+        "INSERT INTO refresh_tokens (jti, player_id, expires_at) VALUES (?, ?, DATE_ADD(NOW(), INTERVAL ? DAY))",
+        [jti, playerTableId, REFRESH_TOKEN_TTL_DAYS]
+    );
+    return generateRefreshToken({ player_id, jti });
+};
+
+/**
+ * Revokes every refresh token of a player still in force, ending their other sessions.
+ * @param {Object} db - Pool or transaction connection
+ * @param {number} playerTableId - players.id
+ * @returns {Promise<void>}
+ */
+const revokeRefreshTokens = async (db, playerTableId) => {
+    await db.execute("UPDATE refresh_tokens SET revoked_at = NOW() WHERE player_id = ? AND revoked_at IS NULL", [playerTableId]);
+};
+
+/**
+ * Checks the password strength policy shared with the frontend (src/utils/validation/passwordPolicy.ts).
+ * @param {string} password - Candidate password
+ * @returns {string|null} Reason the password is too weak, or null if it passes
+ */
+const checkPasswordStrength = (password) => {
+    if (typeof password !== "string" || password.length < 8) return "Password must be at least 8 characters";
+    if (!/[A-Za-z]/.test(password)) return "Password must contain a letter";
+    if (!/[0-9]/.test(password)) return "Password must contain a number";
+    return null;
+};
 
 /**
  * Register a new player
@@ -20,7 +77,7 @@ const { authenticateJWT, generateToken } = require("../../middleware/authMiddlew
  * @param {string} req.body.email - Unique email address (required)
  * @param {string} req.body.password - Password (required)
  * @param {number} [req.body.bank_balance=60000.0] - Initial bank balance
- * @returns {Object} JSON response with JWT token or error
+ * @returns {Object} JSON response with JWT token, refresh token, or error
  * @throws {Error} If username/email exists, email format is invalid, or database query fails
  */
 router.post("/signup", async (req, res) => {
@@ -75,7 +132,7 @@ router.post("/signup", async (req, res) => {
             throw new Error(`Password hashing failed: ${err.message}`);
         });
         // Insert new player with score default
-        await pool.execute(
+        const [inserted] = await pool.execute(
             "INSERT INTO players (player_id, username, email, password_hash, bank_balance, score, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, NOW(), NOW())",
             [player_id, username, email, password_hash, parseFloat(bank_balance), 0.0]
         ).catch((err) => {
@@ -84,8 +141,9 @@ router.post("/signup", async (req, res) => {
         });
         // Generate JWT token
         const token = generateToken({ player_id });
+        const refresh_token = await issueRefreshToken(pool, inserted.insertId, player_id);
         console.log("User registered:", username); // Success log
-        res.status(201).json({ status: "Success", token });
+        res.status(201).json({ status: "Success", token, refresh_token, player_id });
     } catch (error) {
         console.error("Signup failed:", error.message);
         res.status(500).json({
@@ -102,7 +160,7 @@ router.post("/signup", async (req, res) => {
  * @param {Object} req.body - Player credentials
  * @param {number} req.body.player_id - Player ID (required)
  * @param {string} req.body.password - Password (required)
- * @returns {Object} JSON response with JWT token or error
+ * @returns {Object} JSON response with JWT token, refresh token, or error
  * @throws {Error} If credentials are invalid, database query fails, or bcrypt comparison fails
  */
 router.post("/login", async (req, res) => {
@@ -127,7 +185,7 @@ router.post("/login", async (req, res) => {
         // Verify credentials against players table
         const startQuery = Date.now();
         const [rows] = await pool.execute(
-            "SELECT player_id, password_hash FROM players WHERE player_id = ?",
+            "SELECT id, player_id, password_hash FROM players WHERE player_id = ?",
             [player_id]
         ).catch((err) => {
             console.error("Database query failed:", err.message);
@@ -162,8 +220,9 @@ router.post("/login", async (req, res) => {
         }
         // Generate JWT token
         const token = generateToken({ player_id });
+        const refresh_token = await issueRefreshToken(pool, player.id, player_id);
         console.log("User authenticated"); // Success log
-        res.status(200).json({ status: "Success", token });
+        res.status(200).json({ status: "Success", token, refresh_token });
     } catch (error) {
         console.error("Auth failed:", error.message);
         res.status(500).json({
@@ -180,7 +239,7 @@ router.post("/login", async (req, res) => {
  * @param {Object} req.body - Player credentials
  * @param {string} req.body.username - Username (required)
  * @param {string} req.body.password - Password (required)
- * @returns {Object} JSON response with JWT token, player_id, or error
+ * @returns {Object} JSON response with JWT token, refresh token, player_id, or error
  * @throws {Error} If credentials are invalid, database query fails, or bcrypt comparison fails
  */
 router.post("/login/username", async (req, res) => {
@@ -205,7 +264,7 @@ router.post("/login/username", async (req, res) => {
         // Verify credentials against players table
         const startQuery = Date.now();
         const [rows] = await pool.execute(
-            "SELECT player_id, password_hash FROM players WHERE username = ?",
+            "SELECT id, player_id, password_hash FROM players WHERE username = ?",
             [username]
         ).catch((err) => {
             console.error("Database query failed:", err.message);
@@ -240,8 +299,9 @@ router.post("/login/username", async (req, res) => {
         }
         // Generate JWT token
         const token = generateToken({ player_id: player.player_id });
+        const refresh_token = await issueRefreshToken(pool, player.id, player.player_id);
         console.log("User authenticated"); // Success log
-        res.status(200).json({ status: "Success", token, player_id: player.player_id });
+        res.status(200).json({ status: "Success", token, refresh_token, player_id: player.player_id });
     } catch (error) {
         console.error("Auth failed:", error.message);
         res.status(500).json({
@@ -252,6 +312,274 @@ router.post("/login/username", async (req, res) => {
     }
 });
 
+/**
+ * Exchange a refresh token for a new access token
+ * @route POST /api/auth/refresh
+ * @param {Object} req.body - Refresh request
+ * @param {string} req.body.refresh_token - Refresh token from login or signup (required)
+ * @returns {Object} JSON response with new JWT token, rotated refresh token, player_id, or error
+ * @throws {Error} If the refresh token is invalid, expired or revoked, or the player no longer exists
+ * @note Rotation revokes the presented token, so each refresh token works once.
+ */
+router.post("/refresh", async (req, res) => {
+    try {
+        const { refresh_token } = req.body;
+        if (!refresh_token) {
+            console.log("Token refresh failed: Missing refresh_token");
+            return res.status(400).json({
+                status: "Error",
+                message: "Missing refresh_token",
+                details: "refresh_token is required"
+            });
+        }
+        let decoded;
+        try {
+            decoded = verifyRefreshToken(refresh_token);
+        } catch (err) {
+            console.log("Token refresh failed:", err.message);
+            return res.status(401).json({
+                status: "Error",
+                message: "Invalid refresh token",
+                details: err.message
+            });
+        }
+        // Confirm the player still exists
+        const [rows] = await pool.execute(
+            "SELECT id, player_id FROM players WHERE player_id = ?",
+            [decoded.player_id]
+        ).catch((err) => {
+            console.error("Database query failed:", err.message);
+            throw new Error(`Database query failed: ${err.message}`);
+        });
+        if (rows.length === 0) {
+            console.log(`Token refresh failed: No player found for player_id: ${decoded.player_id}`);
+            return res.status(401).json({
+                status: "Error",
+                message: "Invalid refresh token",
+                details: "Player not found"
+            });
+        }
+        // Revoke the presented token; none left in force means it was rotated, logged out or reset
+        const [revoked] = await pool.execute(
+            "UPDATE refresh_tokens SET revoked_at = NOW() WHERE jti = ? AND player_id = ? AND revoked_at IS NULL AND expires_at > NOW()",
+            [decoded.jti, rows[0].id]
+        ).catch((err) => {
+            console.error("Database update failed:", err.message);
+            throw new Error(`Database update failed: ${err.message}`);
+        });
+        if (revoked.affectedRows === 0) {
+            console.log(`Token refresh failed: Revoked refresh token for player_id: ${decoded.player_id}`);
+            return res.status(401).json({
+                status: "Error",
+                message: "Invalid refresh token",
+                details: "Refresh token revoked"
+            });
+        }
+        const player_id = rows[0].player_id;
+        const token = generateToken({ player_id });
+        const new_refresh_token = await issueRefreshToken(pool, rows[0].id, player_id);
+        console.log(`Token refreshed for player_id: ${player_id}`); // Success log
+        res.status(200).json({ status: "Success", token, refresh_token: new_refresh_token, player_id });
+    } catch (error) {
+        console.error("Token refresh failed:", error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to refresh token",
+            details: error.message
+        });
+    }
+});
+
+/**
+ * Revoke a refresh token when the player logs out
+ * @route POST /api/auth/logout
+ * @param {Object} req.body - Logout request
+ * @param {string} req.body.refresh_token - Refresh token to revoke (required)
+ * @returns {Object} JSON response with success message or error
+ * @throws {Error} If database update fails
+ * @note The access token stays valid until it expires (1 hour); the refresh token cannot renew it.
+ */
+router.post("/logout", async (req, res) => {
+    try {
+        const { refresh_token } = req.body;
+        if (!refresh_token) {
+            console.log("Logout failed: Missing refresh_token");
+            return res.status(400).json({
+                status: "Error",
+                message: "Missing refresh_token",
+                details: "refresh_token is required"
+            });
+        }
+        let decoded;
+        try {
+            decoded = verifyRefreshToken(refresh_token);
+        } catch (err) {
+            console.log("Logout failed:", err.message);
+            return res.status(401).json({
+                status: "Error",
+                message: "Invalid refresh token",
+                details: err.message
+            });
+        }
+        await pool.execute("UPDATE refresh_tokens SET revoked_at = NOW() WHERE jti = ? AND revoked_at IS NULL", [decoded.jti]).catch((err) => {
+            console.error("Database update failed:", err.message);
+            throw new Error(`Database update failed: ${err.message}`);
+        });
+        console.log(`Logged out player_id: ${decoded.player_id}`); // Success log
+        res.status(200).json({ status: "Success", message: "Logged out" });
+    } catch (error) {
+        console.error("Logout failed:", error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to log out",
+            details: error.message
+        });
+    }
+});
+
+/**
+ * Request a password reset code by email
+ * @route POST /api/auth/reset-password/request
+ * @param {Object} req.body - Reset request
+ * @param {string} req.body.email - Account email (required)
+ * @returns {Object} JSON response with a generic success message (does not reveal whether the email exists)
+ * @throws {Error} If database query fails
+ */
+router.post("/reset-password/request", async (req, res) => {
+    try {
+        const { email } = req.body;
+        if (!email) {
+            console.log("Password reset request failed: Missing email");
+            return res.status(400).json({
+                status: "Error",
+                message: "Missing email",
+                details: "email is required"
+            });
+        }
+        const [rows] = await pool.execute(
+            "SELECT id, username FROM players WHERE email = ?",
+            [email]
+        ).catch((err) => {
+            console.error("Database query failed:", err.message);
+            throw new Error(`Database query failed: ${err.message}`);
+        });
+        if (rows.length > 0) {
+            const code = crypto.randomBytes(RESET_CODE_BYTES).toString("hex").toUpperCase();
+            await pool.execute(
+                "INSERT INTO password_resets (player_id, code_hash, expires_at) VALUES (?, ?, DATE_ADD(NOW(), INTERVAL ? MINUTE))",
+                [rows[0].id, hashResetCode(code), RESET_CODE_TTL_MINUTES]
+            ).catch((err) => {
+                console.error("Database insert failed:", err.message);
+                throw new Error(`Database insert failed: ${err.message}`);
+            });
+            // No mail transport is configured yet; the server log stands in for the email
+            console.log(`Password reset code for ${rows[0].username} <${email}>: ${code} (expires in ${RESET_CODE_TTL_MINUTES} min)`);
+        } else {
+            console.log(`Password reset requested for unknown email: ${email}`);
+        }
+        res.status(200).json({
+            status: "Success",
+            message: "If that email is registered, a reset code has been sent"
+        });
+    } catch (error) {
+        console.error("Password reset request failed:", error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to request password reset",
+            details: error.message
+        });
+    }
+});
+
+/**
+ * Set a new password using a reset code
+ * @route POST /api/auth/reset-password/confirm
+ * @param {Object} req.body - Reset confirmation
+ * @param {string} req.body.email - Account email the code was sent to (required)
+ * @param {string} req.body.token - Reset code from the email (required)
+ * @param {string} req.body.new_password - New password meeting the strength policy (required)
+ * @returns {Object} JSON response with success message or error
+ * @throws {Error} If the code is invalid, expired, used, or out of attempts, or database query fails
+ * @note The code must be one of that player's outstanding codes. A wrong code counts against every outstanding code
+ *       of the player, which stop working after RESET_CODE_MAX_ATTEMPTS; a used code ends all of them and revokes the
+ *       player's refresh tokens.
+ */
+router.post("/reset-password/confirm", async (req, res) => {
+    try {
+        const { email, token, new_password } = req.body;
+        if (!email || !token || !new_password) {
+            console.log("Password reset confirm failed: Missing email, token or new_password");
+            return res.status(400).json({
+                status: "Error",
+                message: "Missing email, token or new_password",
+                details: "email, token and new_password are all required"
+            });
+        }
+        const weakness = checkPasswordStrength(new_password);
+        if (weakness) {
+            return res.status(400).json({
+                status: "Error",
+                message: "Password too weak",
+                details: weakness
+            });
+        }
+        const password_hash = await bcrypt.hash(new_password, 10).catch((err) => {
+            console.error("Password hashing failed:", err.message);
+            throw new Error(`Password hashing failed: ${err.message}`);
+        });
+        const connection = await pool.getConnection();
+        try {
+            await connection.beginTransaction();
+            const [codes] = await connection.execute(
+                `SELECT r.id, r.player_id, r.code_hash FROM password_resets r JOIN players p ON p.id = r.player_id
+                 WHERE p.email = ? AND r.used_at IS NULL AND r.expires_at > NOW() AND r.attempts < ? FOR UPDATE`,
+                [email, RESET_CODE_MAX_ATTEMPTS]
+            );
+            const tokenHash = Buffer.from(hashResetCode(token), "hex");
+            const match = codes.find((code) => crypto.timingSafeEqual(Buffer.from(code.code_hash, "hex"), tokenHash));
+            if (!match) {
+                if (codes.length > 0) {
+                    await connection.execute(
+                        `UPDATE password_resets SET attempts = attempts + 1 WHERE id IN (${codes.map(() => "?").join(", ")})`,
+                        codes.map((code) => code.id)
+                    );
+                }
+                await connection.commit();
+                console.log("Password reset confirm failed: Invalid or expired code");
+                return res.status(400).json({
+                    status: "Error",
+                    message: "Invalid or expired reset code",
+                    details: "Request a new code and try again"
+                });
+            }
+            await connection.execute("UPDATE players SET password_hash = ?, updated_at = NOW() WHERE id = ?", [
+                password_hash,
+                match.player_id,
+            ]);
+            await connection.execute("UPDATE password_resets SET used_at = NOW() WHERE player_id = ? AND used_at IS NULL", [
+                match.player_id,
+            ]);
+            await revokeRefreshTokens(connection, match.player_id);
+            await connection.commit();
+            console.log(`Password reset via code for players.id: ${match.player_id}`); // Success log
+        } catch (err) {
+            await connection.rollback();
+            console.error("Database update failed:", err.message);
+            throw new Error(`Database update failed: ${err.message}`);
+        } finally {
+            connection.release();
+        }
+        res.status(200).json({ status: "Success", message: "Password updated" });
+    } catch (error) {
+        console.error("Password reset confirm failed:", error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to reset password",
+            details: error.message
+        });
+    }
+});
+
 /**
  * Reset a player's password
  * @route POST /api/auth/reset-password
@@ -281,7 +609,7 @@ router.post("/reset-password", authenticateJWT, async (req, res) => {
         });
         // Verify player exists and matches JWT
         const [playerRows] = await pool.execute(
-            "SELECT player_id FROM players WHERE username = ?",
+            "SELECT id, player_id FROM players WHERE username = ?",
             [username]
         ).catch((err) => {
             console.error("Database query failed:", err.message);
@@ -317,6 +645,11 @@ router.post("/reset-password", authenticateJWT, async (req, res) => {
             console.error("Database update failed:", err.message);
             throw new Error(`Database update failed: ${err.message}`);
         });
+        // End every session that could outlive the old password
+        await revokeRefreshTokens(pool, player.id).catch((err) => {
+            console.error("Database update failed:", err.message);
+            throw new Error(`Database update failed: ${err.message}`);
+        });
         console.log(`Password reset successful for username: ${username}`); // Success log
         res.status(200).json({ status: "Success", message: "Password updated" });
     } catch (error) {
@@ -0,0 +1,23 @@
+/**
+ * @file server/routes/catalog/catalog.js
+ * @description API route for the CyberTaxi vehicle catalog
+ * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
+ * @version 0.1.0
+ * @note Serves server/data/vehicle-catalog.json (through catalog-utils.js) to the Tesla page and the fare simulation.
+ *       Public: the catalog holds no player data, and the showroom is browsable before login.
+ * @see https://kdeangames.net/CyberTaxi/MockUp/Docs/GDD.html
+ */
+const express = require("express");
+const router = express.Router();
+const { VEHICLE_CATALOG } = require("../../utils/catalog-utils");
+
+/**
+ * Fetch every vehicle model with its price, specs and availability
+ * @route GET /api/catalog/vehicles
+ * @returns {Object} JSON response with the models
+ */
+router.get("/catalog/vehicles", (req, res) => {
+    res.status(200).json({ status: "Success", models: VEHICLE_CATALOG });
+});
+
+module.exports = router;
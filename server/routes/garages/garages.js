@@ -2,68 +2,138 @@
  * @file server/routes/garages/garages.js
  * @description API routes for garage and lot management in CyberTaxi
  * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
- * @version 0.2.2
- * @note Handles garage creation and retrieval. Uses JWT for authentication.
+ * @version 0.3.3
+ * @note Handles garage leases, purchases, sales and retrieval, and lists which property listings are taken. Uses JWT for authentication.
+ * @detail Leases renew when the player's garages are fetched: each lease past lease_ends_at is charged another term,
+ *         and one the bank cannot pay ends and frees its listing. Until then a lapsed lease adds no slots and its
+ *         listing shows as free (HELD_PROPERTY_SQL).
  * @see https://kdeangames.net/CyberTaxi/MockUp/Docs/GDD.html
  */
 const express = require("express");
 const router = express.Router();
 const pool = require("../../models/db");
 const { authenticateJWT } = require("../../middleware/authMiddleware");
-const { getUserBalance } = require("../../utils/query-utils");
+const { LEASE_TERMS, PURCHASE_MONTHS, RESALE_RATE, HELD_PROPERTY_SQL, toCents, findListing, monthlyRent, leaseCost } = require("../../utils/property-utils");
+
+const VALID_TENURES = ["lease", "own"];
+
+/**
+ * Serialize a garages row for the client
+ * @param {Object} row - Row with the garages columns
+ * @returns {Object} Garage with coords as [lat, lng], DECIMAL fields as numbers and lease_ends_at as ISO
+ */
+function serializeGarage(row) {
+    return {
+        id: row.id,
+        player_id: row.player_id,
+        name: row.name,
+        coords: row.coords ? JSON.parse(row.coords) : null,
+        capacity: row.capacity,
+        type: row.type,
+        cost_monthly: parseFloat(row.cost_monthly) || 0.0,
+        listing_id: row.listing_id || null,
+        tenure: row.tenure || "lease",
+        lease_term: row.lease_term || null,
+        lease_ends_at: row.lease_ends_at ? new Date(row.lease_ends_at).toISOString() : null,
+        price_paid: parseFloat(row.price_paid) || 0.0,
+    };
+}
+
+const GARAGE_COLUMNS =
+    "g.id, g.player_id, g.name, g.coords, g.capacity, g.type, g.cost_monthly, g.listing_id, g.tenure, g.lease_term, g.lease_ends_at, g.price_paid";
+
+/**
+ * Renew a player's lapsed leases
+ * @param {number} playerTableId - players.id
+ * @param {Date} now - Current time
+ * @returns {Promise<{charged: number, released: number[]}>} Amount charged and the ids of leases that ended unpaid
+ * @note Each lease past lease_ends_at is charged its term (at the rent it was taken on) for every term started since,
+ *       earliest due first, like POST /api/staff/payroll. A lease the bank cannot pay ends.
+ */
+async function renewLeases(playerTableId, now) {
+    const connection = await pool.getConnection();
+    let charged = 0;
+    const released = [];
+    try {
+        await connection.beginTransaction();
+        const [[player]] = await connection.execute("SELECT bank_balance FROM players WHERE id = ? FOR UPDATE", [playerTableId]);
+        let balance = parseFloat(player.bank_balance);
+        const [rows] = await connection.execute(
+            "SELECT id, cost_monthly, lease_term, lease_ends_at FROM garages WHERE player_id = ? AND tenure = 'lease' AND lease_ends_at <= ? ORDER BY lease_ends_at, id FOR UPDATE",
+            [playerTableId, now]
+        );
+        for (const row of rows) {
+            const term = LEASE_TERMS[row.lease_term] ? row.lease_term : "monthly";
+            const endsAt = new Date(row.lease_ends_at);
+            let terms = 0;
+            while (endsAt <= now) {
+                endsAt.setMonth(endsAt.getMonth() + LEASE_TERMS[term].months);
+                terms += 1;
+            }
+            const due = toCents(leaseCost(parseFloat(row.cost_monthly), term) * terms);
+            if (balance < due) {
+                await connection.execute("DELETE FROM garages WHERE id = ?", [row.id]);
+                released.push(row.id);
+                continue;
+            }
+            await connection.execute("UPDATE garages SET lease_ends_at = ? WHERE id = ?", [endsAt, row.id]);
+            balance = toCents(balance - due);
+            charged = toCents(charged + due);
+        }
+        if (charged > 0) {
+            await connection.execute("UPDATE players SET bank_balance = bank_balance - ? WHERE id = ?", [charged, playerTableId]);
+        }
+        await connection.commit();
+    } catch (err) {
+        await connection.rollback();
+        throw err;
+    } finally {
+        connection.release();
+    }
+    if (charged > 0 || released.length > 0) {
+        console.log(`Leases renewed for players.id ${playerTableId}: charged ${charged}, ${released.length} ended unpaid`);
+    }
+    return { charged, released };
+}
 
 /**
- * Create a new garage or lot for a player
+ * Lease or buy a garage or lot for a player
  * @route POST /api/garages
- * @param {Object} req.body - Garage data (player_id, name, coords, capacity, type, cost_monthly)
- * @returns {Object} JSON response with inserted garage ID or error
+ * @param {Object} req.body - player_id and listing_id, plus optional tenure ("lease" by default, or "own") and
+ *        lease_term ("monthly" by default, "quarterly", "yearly")
+ * @returns {Object} JSON response with the inserted garage ID, the amount charged and lease_ends_at, or error
+ * @note The name, coords, capacity, type and rent come from the listing (utils/property-utils.js); the body cannot set
+ *       them. A lease is paid up front for its term with the term's discount; buying costs PURCHASE_MONTHS of rent.
+ *       Capacity adds to the player's slots (GET /api/player/:username/slots). A listing has one holder (409 if taken);
+ *       a lapsed lease on it is ended first.
  */
 router.post("/garages", authenticateJWT, async (req, res) => {
     try {
-        const { player_id, name, coords, capacity, type, cost_monthly } =
-            req.body;
+        const { player_id, listing_id, tenure = "lease", lease_term = "monthly" } = req.body;
         console.log(
             `Received create garage request for player_id: ${player_id}`
         ); // Debug log
-        if (
-            !player_id ||
-            !name ||
-            !coords ||
-            !capacity ||
-            !type ||
-            !cost_monthly
-        ) {
+        if (!player_id || !listing_id) {
             return res
                 .status(400)
                 .json({ status: "Error", message: "Missing required fields" });
         }
-        // Validate coords format
-        if (
-            !Array.isArray(coords) ||
-            coords.length !== 2 ||
-            typeof coords[0] !== "number" ||
-            typeof coords[1] !== "number"
-        ) {
-            return res
-                .status(400)
-                .json({
-                    status: "Error",
-                    message: "Invalid coords format, must be [lat, lng]",
-                });
+        const listing = findListing(listing_id);
+        if (!listing) {
+            return res.status(404).json({ status: "Error", message: `Listing ${listing_id} not found` });
         }
-        // Validate type
-        const validTypes = ["garage", "lot"];
-        if (!validTypes.includes(type)) {
-            return res
-                .status(400)
-                .json({
-                    status: "Error",
-                    message: "Invalid type, must be garage or lot",
-                });
+        if (!VALID_TENURES.includes(tenure)) {
+            return res.status(400).json({ status: "Error", message: "Invalid tenure, must be lease or own" });
+        }
+        if (tenure === "lease" && !LEASE_TERMS[lease_term]) {
+            return res.status(400).json({
+                status: "Error",
+                message: `Invalid lease_term, must be one of: ${Object.keys(LEASE_TERMS).join(", ")}`,
+            });
         }
         // Verify player exists and get players.id
         const [playerRows] = await pool.execute(
-            "SELECT id FROM players WHERE player_id = ?",
+            "SELECT id, player_id FROM players WHERE player_id = ?",
             [player_id]
         );
         if (playerRows.length === 0) {
@@ -71,41 +141,74 @@ router.post("/garages", authenticateJWT, async (req, res) => {
                 .status(404)
                 .json({ status: "Error", message: "Player not found" });
         }
+        if (req.user.player_id !== playerRows[0].player_id) {
+            return res.status(403).json({ status: "Error", message: "Unauthorized access to player data" });
+        }
         const playerTableId = playerRows[0].id;
-        // Check sufficient funds
-        const balance = await getUserBalance(player_id);
-        if (balance < parseFloat(cost_monthly)) {
-            return res
-                .status(400)
-                .json({
-                    status: "Error",
-                    message: "Insufficient funds for monthly cost",
-                });
+        const monthly = monthlyRent(listing);
+        const owned = tenure === "own";
+        const charged = owned ? toCents(monthly * PURCHASE_MONTHS) : leaseCost(monthly, lease_term);
+        let leaseEndsAt = null;
+        if (!owned) {
+            leaseEndsAt = new Date();
+            leaseEndsAt.setMonth(leaseEndsAt.getMonth() + LEASE_TERMS[lease_term].months);
         }
-        // Insert new garage
-        const [result] = await pool
-            .execute(
-                "INSERT INTO garages (player_id, name, coords, capacity, type, cost_monthly) VALUES (?, ?, ?, ?, ?, ?)",
+        const connection = await pool.getConnection();
+        let garageId;
+        try {
+            await connection.beginTransaction();
+            const [[player]] = await connection.execute("SELECT bank_balance FROM players WHERE id = ? FOR UPDATE", [playerTableId]);
+            if (parseFloat(player.bank_balance) < charged) {
+                await connection.rollback();
+                return res
+                    .status(400)
+                    .json({
+                        status: "Error",
+                        message: owned ? "Insufficient funds for purchase" : "Insufficient funds for lease",
+                    });
+            }
+            await connection.execute(
+                "DELETE FROM garages WHERE listing_id = ? AND tenure = 'lease' AND lease_ends_at <= NOW()",
+                [listing.id]
+            );
+            const [result] = await connection.execute(
+                "INSERT INTO garages (player_id, name, coords, capacity, type, cost_monthly, listing_id, tenure, lease_term, lease_ends_at, price_paid) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
                 [
                     playerTableId,
-                    name,
-                    JSON.stringify(coords),
-                    capacity,
-                    type,
-                    parseFloat(cost_monthly),
+                    listing.name,
+                    JSON.stringify(listing.coords),
+                    listing.slots,
+                    listing.type,
+                    monthly,
+                    listing.id,
+                    tenure,
+                    owned ? null : lease_term,
+                    leaseEndsAt,
+                    charged,
                 ]
-            )
-            .catch((err) => {
-                console.error("Insert failed:", err.message);
-                throw err;
-            });
-        // Update player balance
-        await pool.execute(
-            "UPDATE players SET bank_balance = bank_balance - ? WHERE player_id = ?",
-            [parseFloat(cost_monthly), player_id]
-        );
-        console.log("Garage created:", name); // Success log
-        res.status(201).json({ status: "Success", garage_id: result.insertId });
+            );
+            garageId = result.insertId;
+            await connection.execute(
+                "UPDATE players SET bank_balance = bank_balance - ? WHERE id = ?",
+                [charged, playerTableId]
+            );
+            await connection.commit();
+        } catch (err) {
+            await connection.rollback();
+            if (err.code === "ER_DUP_ENTRY") {
+                return res.status(409).json({ status: "Error", message: `Listing ${listing.id} is already taken` });
+            }
+            throw err;
+        } finally {
+            connection.release();
+        }
+        console.log(`Garage ${owned ? "bought" : `leased (${lease_term})`}: ${listing.name}, charged ${charged}`); // Success log
+        res.status(201).json({
+            status: "Success",
+            garage_id: garageId,
+            charged,
+            lease_ends_at: leaseEndsAt ? leaseEndsAt.toISOString() : null,
+        });
     } catch (error) {
         console.error("Garage creation failed:", error.message);
         res.status(500).json({
@@ -117,10 +220,98 @@ router.post("/garages", authenticateJWT, async (req, res) => {
 });
 
 /**
- * Fetch garages for a specific player
+ * Sell an owned garage or end a lease
+ * @route POST /api/garages/:garage_id/sell
+ * @param {number} req.params.garage_id - Garage ID
+ * @returns {Object} JSON response with the garage ID and sale_price (0 for a lease), or error
+ * @note Owned properties refund price_paid * RESALE_RATE; leases end without a refund. Rejected with 409 if the
+ *       remaining slots would not hold the player's vehicles.
+ */
+router.post("/garages/:garage_id(\\d+)/sell", authenticateJWT, async (req, res) => {
+    const { garage_id } = req.params;
+    try {
+        const [rows] = await pool.execute(
+            `SELECT ${GARAGE_COLUMNS}, p.player_id AS owner_player_id FROM garages g JOIN players p ON g.player_id = p.id WHERE g.id = ?`,
+            [garage_id]
+        );
+        if (rows.length === 0 || rows[0].owner_player_id !== req.user.player_id) {
+            console.log(`Garage ${garage_id} not found for player_id: ${req.user.player_id}`);
+            return res.status(404).json({ status: "Error", message: "Garage not found" });
+        }
+        const garage = rows[0];
+        const [[slots]] = await pool.execute(
+            `SELECT COALESCE(SUM(capacity), 0) AS total_slots, (SELECT COUNT(*) FROM vehicles WHERE player_id = ? AND status != 'sold') AS used_slots FROM garages WHERE player_id = ? AND ${HELD_PROPERTY_SQL}`,
+            [garage.player_id, garage.player_id]
+        );
+        const held = garage.tenure === "own" || new Date(garage.lease_ends_at) > new Date();
+        const remaining = parseInt(slots.total_slots) - (held ? garage.capacity : 0);
+        if (parseInt(slots.used_slots) > remaining) {
+            return res.status(409).json({
+                status: "Error",
+                message: `${slots.used_slots} vehicles would not fit in the remaining ${remaining} slots`,
+            });
+        }
+        const salePrice = garage.tenure === "own" ? toCents(parseFloat(garage.price_paid) * RESALE_RATE) : 0;
+        const connection = await pool.getConnection();
+        try {
+            await connection.beginTransaction();
+            await connection.execute("DELETE FROM garages WHERE id = ?", [garage_id]);
+            if (salePrice > 0) {
+                await connection.execute(
+                    "UPDATE players SET bank_balance = bank_balance + ? WHERE player_id = ?",
+                    [salePrice, req.user.player_id]
+                );
+            }
+            await connection.commit();
+        } catch (err) {
+            await connection.rollback();
+            throw err;
+        } finally {
+            connection.release();
+        }
+        console.log(`Garage ${garage_id} ${garage.tenure === "own" ? `sold for ${salePrice}` : "lease ended"}`);
+        res.status(200).json({ status: "Success", garage_id: garage.id, sale_price: salePrice });
+    } catch (error) {
+        console.error(`Garage sale failed for ${garage_id}:`, error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to sell garage",
+            details: error.message,
+        });
+    }
+});
+
+/**
+ * List the property listings held by any player
+ * @route GET /api/garages/listings
+ * @returns {Object} JSON response with the taken listing_ids, or error
+ * @note Registered before GET /api/garages/:player_id so "listings" is not read as a player ID. The Realtor page hides
+ *       taken listings from the market; a lapsed lease does not hold its listing.
+ */
+router.get("/garages/listings", authenticateJWT, async (req, res) => {
+    try {
+        const [rows] = await pool.execute(
+            `SELECT listing_id FROM garages WHERE listing_id IS NOT NULL AND ${HELD_PROPERTY_SQL} ORDER BY listing_id`
+        );
+        res.status(200).json({
+            status: "Success",
+            listing_ids: rows.map((row) => row.listing_id),
+        });
+    } catch (error) {
+        console.error("Taken listings fetch failed:", error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to fetch taken listings",
+            details: error.message,
+        });
+    }
+});
+
+/**
+ * Fetch garages for a specific player, renewing lapsed leases
  * @route GET /api/garages/:player_id
  * @param {number} req.params.player_id - The player's ID
- * @returns {Object} JSON response with array of garages or error
+ * @returns {Object} JSON response with array of garages, lease_charged and leases_ended (from renewLeases), or error
  */
 router.get("/garages/:player_id", authenticateJWT, async (req, res) => {
     try {
@@ -143,8 +334,9 @@ router.get("/garages/:player_id", authenticateJWT, async (req, res) => {
                 .status(404)
                 .json({ status: "Error", message: "Player not found" });
         }
+        const renewal = await renewLeases(playerRows[0].id, new Date());
         const query =
-            "SELECT g.id, g.player_id, g.name, g.coords, g.capacity, g.type, g.cost_monthly FROM garages g JOIN players p ON g.player_id = p.id WHERE p.player_id = ?";
+            `SELECT ${GARAGE_COLUMNS} FROM garages g JOIN players p ON g.player_id = p.id WHERE p.player_id = ?`;
         const params = [player_id];
         console.log("Executing query:", query, "with params:", params); // Debug log
         const startQuery = Date.now();
@@ -153,18 +345,15 @@ router.get("/garages/:player_id", authenticateJWT, async (req, res) => {
             throw err;
         });
         console.log(`Garage query took ${Date.now() - startQuery}ms`); // Timing log
-        // Serialize coords as array, convert DECIMAL fields to numbers
-        const serializedRows = rows.map((row) => ({
-            id: row.id,
-            player_id: row.player_id,
-            name: row.name,
-            coords: row.coords ? JSON.parse(row.coords) : null,
-            capacity: row.capacity,
-            type: row.type,
-            cost_monthly: parseFloat(row.cost_monthly) || 0.0,
-        }));
+        // Serialize coords as array, convert DECIMAL fields to numbers (serializeGarage)
+        const serializedRows = rows.map(serializeGarage);
         console.log("Garage fetch successful, rows:", serializedRows.length); // Debug log
-        res.status(200).json({ status: "Success", garages: serializedRows });
+        res.status(200).json({
+            status: "Success",
+            garages: serializedRows,
+            lease_charged: renewal.charged,
+            leases_ended: renewal.released,
+        });
     } catch (error) {
         console.error("Garage fetch failed:", error.message);
         res.status(500).json({
@@ -176,10 +365,10 @@ router.get("/garages/:player_id", authenticateJWT, async (req, res) => {
 });
 
 /**
- * Fetch garages for a specific player by username
+ * Fetch garages for a specific player by username, renewing lapsed leases
  * @route GET /api/player/:username/garages
  * @param {string} req.params.username - The player's username
- * @returns {Object} JSON response with array of garages or error
+ * @returns {Object} JSON response with array of garages, lease_charged and leases_ended (from renewLeases), or error
  */
 router.get("/player/:username/garages", authenticateJWT, async (req, res) => {
     try {
@@ -206,8 +395,9 @@ router.get("/player/:username/garages", authenticateJWT, async (req, res) => {
                     message: "Unauthorized access to player data",
                 });
         }
+        const renewal = await renewLeases(playerTableId, new Date());
         const query =
-            "SELECT id, player_id, name, coords, capacity, type, cost_monthly FROM garages WHERE player_id = ?";
+            `SELECT ${GARAGE_COLUMNS} FROM garages g WHERE g.player_id = ?`;
         const params = [playerTableId];
         console.log("Executing query:", query, "with params:", params); // Debug log
         const startQuery = Date.now();
@@ -216,18 +406,15 @@ router.get("/player/:username/garages", authenticateJWT, async (req, res) => {
             throw err;
         });
         console.log(`Garage query took ${Date.now() - startQuery}ms`); // Timing log
-        // Serialize coords as array, convert DECIMAL fields to numbers
-        const serializedRows = rows.map((row) => ({
-            id: row.id,
-            player_id: row.player_id,
-            name: row.name,
-            coords: row.coords ? JSON.parse(row.coords) : null,
-            capacity: row.capacity,
-            type: row.type,
-            cost_monthly: parseFloat(row.cost_monthly) || 0.0,
-        }));
+        // Serialize coords as array, convert DECIMAL fields to numbers (serializeGarage)
+        const serializedRows = rows.map(serializeGarage);
         console.log("Garage fetch successful, rows:", serializedRows.length); // Debug log
-        res.status(200).json({ status: "Success", garages: serializedRows });
+        res.status(200).json({
+            status: "Success",
+            garages: serializedRows,
+            lease_charged: renewal.charged,
+            leases_ended: renewal.released,
+        });
     } catch (error) {
         console.error("Garage fetch failed:", error.message);
         res.status(500).json({
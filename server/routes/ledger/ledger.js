@@ -0,0 +1,264 @@
+/**
+ * @file server/routes/ledger/ledger.js
+ * @description API routes for the money the CyberTaxi fare simulation earns and spends
+ * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
+ * @version 0.1.5
+ * @note The fare simulation runs in the browser; it reports what happened (a completed ride, a finished charge, a
+ *       maintenance job) and the server prices it with utils/ledger-utils.js, credits or debits the player and answers
+ *       with the new bank_balance and score. A maintenance job also repairs the vehicle here: a service takes its wear
+ *       down to SERVICE_WEAR_KEPT of what it was and new tires clear its tire_mileage. Uses JWT for authentication;
+ *       every entry acts on the authenticated player's own vehicles.
+ * @detail Each entry carries a client reference that is unique per player and kind (ledger_entries.uniq_ledger_ref),
+ *         so a report retried after a lost response is recorded once. Entries that fail their checks are returned as
+ *         rejected with a message and leave the rest of the report to go through.
+ * @see https://kdeangames.net/CyberTaxi/MockUp/Docs/GDD.html
+ */
+const express = require("express");
+const router = express.Router();
+const pool = require("../../models/db");
+const { authenticateJWT } = require("../../middleware/authMiddleware");
+const { findModel } = require("../../utils/catalog-utils");
+const { SERVICE_WEAR_KEPT } = require("../../utils/wear-utils");
+const {
+    MAX_FARE_MILES,
+    MAX_FARE_MILES_PER_HOUR,
+    toCents,
+    computeFare,
+    chargePricePerKwh,
+    maintenanceCostRange,
+} = require("../../utils/ledger-utils");
+
+const MAX_ENTRIES_PER_REPORT = 50; // Most entries one POST /ledger may carry
+const MAX_REF_LENGTH = 64; // ledger_entries.ref
+const DEFAULT_BATTERY_KWH = 75; // Model Y pack, for a vehicle whose model left the catalog
+const COST_TOLERANCE = 0.01; // Dollars of rounding slack on a client-drawn cost
+const UNPLACED_STATUSES = ["ordered", "delivering"]; // Not yet handed over, so not on the map to take a fare
+
+/**
+ * Price a completed ride
+ * @param {Object} connection - Connection inside the report's transaction
+ * @param {Object} entry - { miles }
+ * @param {Object} vehicle - The vehicle's row ({ id, player_id, type, status, permitted })
+ * @returns {Promise<Object>} { amount, score, quantity } to record, or { error } to reject it
+ * @note The vehicle must have been delivered and hold a taxi permit that has not expired (licenses.js). The hourly sum
+ *       sees the entries already recorded from the same report, inside its transaction.
+ */
+async function priceFare(connection, entry, vehicle) {
+    const { miles } = entry;
+    if (UNPLACED_STATUSES.includes(vehicle.status)) {
+        return { error: `Vehicle ${vehicle.id} has not been delivered yet` };
+    }
+    if (!vehicle.permitted) {
+        return { error: `Vehicle ${vehicle.id} has no current taxi permit` };
+    }
+    if (typeof miles !== "number" || !(miles > 0) || miles > MAX_FARE_MILES) {
+        return { error: `Invalid miles, must be a number above 0 and at most ${MAX_FARE_MILES}` };
+    }
+    const [[recent]] = await connection.execute(
+        "SELECT COALESCE(SUM(quantity), 0) AS miles FROM ledger_entries WHERE vehicle_id = ? AND kind = 'fare' AND created_at > NOW() - INTERVAL 1 HOUR",
+        [vehicle.id]
+    );
+    const lastHour = parseFloat(recent.miles) + miles;
+    if (lastHour > MAX_FARE_MILES_PER_HOUR) {
+        return { error: `Vehicle ${vehicle.id} cannot have driven ${Math.round(lastHour)} fare miles in the last hour` };
+    }
+    const fare = computeFare(miles);
+    return { amount: fare.net, score: fare.score, quantity: miles };
+}
+
+/**
+ * Price a finished charge
+ * @param {Object} connection - Connection inside the report's transaction
+ * @param {Object} entry - { charger, site_id, kwh }
+ * @param {Object} vehicle - The vehicle's row ({ id, player_id, type, status, permitted })
+ * @returns {Promise<Object>} { amount, score, quantity } to record, or { error } to reject it
+ * @note One session fills at most the model's pack; the amount is negative, a cost.
+ */
+async function priceCharge(connection, entry, vehicle) {
+    const { charger, site_id = null, kwh } = entry;
+    const pricePerKwh = chargePricePerKwh(charger, site_id);
+    if (pricePerKwh === null) {
+        return { error: `Unknown charger ${charger}${site_id ? ` at ${site_id}` : ""}` };
+    }
+    const capacityKwh = findModel(vehicle.type)?.battery_kwh ?? DEFAULT_BATTERY_KWH;
+    if (typeof kwh !== "number" || !(kwh > 0) || kwh > capacityKwh) {
+        return { error: `Invalid kwh, must be a number above 0 and at most ${capacityKwh} for a ${vehicle.type}` };
+    }
+    return { amount: -toCents(kwh * pricePerKwh), score: 0, quantity: kwh };
+}
+
+/**
+ * Price a finished maintenance job
+ * @param {Object} connection - Connection inside the report's transaction
+ * @param {Object} entry - { kinds, cost, staff_id }
+ * @param {Object} vehicle - The vehicle's row ({ id, player_id, type, status, permitted })
+ * @returns {Promise<Object>} { amount, score, quantity } to record, or { error } to reject it
+ * @note staff_id names the player's mechanic who did the job, which puts the cost in the mechanic's range. A mechanic
+ *       past paid_until gives no discount until payroll (POST /api/staff/payroll) has paid them.
+ */
+async function priceMaintenance(connection, entry, vehicle) {
+    const { kinds, cost, staff_id = null } = entry;
+    if (staff_id !== null) {
+        const [[mechanic]] = await connection.execute(
+            "SELECT id, paid_until > NOW() AS paid FROM staff WHERE id = ? AND player_id = ? AND role = 'mechanic'",
+            [staff_id, vehicle.player_id]
+        );
+        if (!mechanic) {
+            return { error: `Mechanic ${staff_id} not found` };
+        }
+        if (!mechanic.paid) {
+            return { error: `Mechanic ${staff_id} is owed salary; run payroll first` };
+        }
+    }
+    const range = Array.isArray(kinds) ? maintenanceCostRange(kinds, staff_id !== null) : null;
+    if (!range) {
+        return { error: "Invalid kinds, must name service, tires or battery, each once" };
+    }
+    const [min, max] = range;
+    if (typeof cost !== "number" || cost < min - COST_TOLERANCE || cost > max + COST_TOLERANCE) {
+        return { error: `Invalid cost, must be from ${min} to ${max} for ${kinds.join(", ")}` };
+    }
+    return { amount: -toCents(cost), score: 0, quantity: null };
+}
+
+/**
+ * Apply a finished maintenance job to the vehicle's row
+ * @param {Object} connection - Connection inside the report's transaction
+ * @param {string} vehicleId - Vehicle serviced
+ * @param {string[]} kinds - Work done
+ * @note A service keeps SERVICE_WEAR_KEPT of the wear (wear-utils.js wearAfterService), so it cannot restore a worn
+ *       vehicle's sale price in full. Battery health is estimated from the odometer and has no column to restore.
+ */
+async function repairVehicle(connection, vehicleId, kinds) {
+    if (kinds.includes("service")) {
+        await connection.execute("UPDATE vehicles SET wear = ROUND(wear * ?, 2), updated_at = NOW() WHERE id = ?", [SERVICE_WEAR_KEPT, vehicleId]);
+    }
+    if (kinds.includes("tires")) {
+        await connection.execute("UPDATE vehicles SET tire_mileage = 0, updated_at = NOW() WHERE id = ?", [vehicleId]);
+    }
+}
+
+// Pricing of each entry kind; the key is the ledger_entries.kind
+const PRICERS = { fare: priceFare, charge: priceCharge, maintenance: priceMaintenance };
+
+/**
+ * Record what the fare simulation earned and spent
+ * @route POST /api/ledger
+ * @param {Object[]} req.body.entries - { kind: "fare", ref, vehicle_id, miles } or
+ *        { kind: "charge", ref, vehicle_id, charger, site_id, kwh } or
+ *        { kind: "maintenance", ref, vehicle_id, kinds, cost, staff_id }, 1 to MAX_ENTRIES_PER_REPORT
+ * @returns {Object} JSON response with recorded (refs, including ones recorded before), rejected ({ ref, message }),
+ *          bank_balance and score, or error
+ * @note The player row is locked for the report, so concurrent reports and purchases see each other's balance.
+ */
+router.post("/ledger", authenticateJWT, async (req, res) => {
+    const { entries } = req.body;
+    try {
+        if (!Array.isArray(entries) || entries.length < 1 || entries.length > MAX_ENTRIES_PER_REPORT) {
+            return res.status(400).json({ status: "Error", message: `Invalid entries, must be 1 to ${MAX_ENTRIES_PER_REPORT}` });
+        }
+        const malformed = entries.find(
+            (entry) =>
+                !entry ||
+                typeof entry.ref !== "string" ||
+                entry.ref.length < 1 ||
+                entry.ref.length > MAX_REF_LENGTH ||
+                typeof entry.vehicle_id !== "string"
+        );
+        if (malformed) {
+            return res.status(400).json({ status: "Error", message: "Every entry needs a ref (1-64 characters) and a vehicle_id" });
+        }
+        const connection = await pool.getConnection();
+        const recorded = [];
+        const rejected = [];
+        let player;
+        try {
+            await connection.beginTransaction();
+            [[player]] = await connection.execute("SELECT id, bank_balance, score FROM players WHERE player_id = ? FOR UPDATE", [
+                req.user.player_id,
+            ]);
+            if (!player) {
+                await connection.rollback();
+                return res.status(404).json({ status: "Error", message: "Player not found" });
+            }
+            const [vehicles] = await connection.execute(
+                `SELECT v.id, v.player_id, v.type, v.status, p.expires_at > NOW() AS permitted
+                 FROM vehicles v LEFT JOIN vehicle_permits p ON p.vehicle_id = v.id
+                 WHERE v.player_id = ? AND v.status != 'sold'`,
+                [player.id]
+            );
+            const owned = new Map(vehicles.map((vehicle) => [vehicle.id, vehicle]));
+            let bank = 0;
+            let score = 0;
+            for (const entry of entries) {
+                if (!PRICERS[entry.kind]) {
+                    rejected.push({ ref: entry.ref, message: `Unknown kind ${entry.kind}` });
+                    continue;
+                }
+                if (!owned.has(entry.vehicle_id)) {
+                    rejected.push({ ref: entry.ref, message: `Vehicle ${entry.vehicle_id} not found` });
+                    continue;
+                }
+                const [[existing]] = await connection.execute(
+                    "SELECT id FROM ledger_entries WHERE player_id = ? AND kind = ? AND ref = ?",
+                    [player.id, entry.kind, entry.ref]
+                );
+                if (existing) {
+                    recorded.push(entry.ref); // A retry of a report whose response was lost
+                    continue;
+                }
+                const priced = await PRICERS[entry.kind](connection, entry, owned.get(entry.vehicle_id));
+                if (priced.error) {
+                    rejected.push({ ref: entry.ref, message: priced.error });
+                    continue;
+                }
+                await connection.execute(
+                    "INSERT INTO ledger_entries (player_id, vehicle_id, kind, ref, amount, score, quantity) VALUES (?, ?, ?, ?, ?, ?, ?)",
+                    [player.id, entry.vehicle_id, entry.kind, entry.ref, priced.amount, priced.score, priced.quantity]
+                );
+                if (entry.kind === "fare") {
+                    await connection.execute("UPDATE vehicles SET earnings = earnings + ? WHERE id = ?", [priced.amount, entry.vehicle_id]);
+                }
+                if (entry.kind === "maintenance") {
+                    await repairVehicle(connection, entry.vehicle_id, entry.kinds);
+                }
+                bank += priced.amount;
+                score += priced.score;
+                recorded.push(entry.ref);
+            }
+            if (bank !== 0 || score !== 0) {
+                await connection.execute("UPDATE players SET bank_balance = bank_balance + ?, score = score + ? WHERE id = ?", [
+                    toCents(bank),
+                    score,
+                    player.id,
+                ]);
+            }
+            [[player]] = await connection.execute("SELECT bank_balance, score FROM players WHERE id = ?", [player.id]);
+            await connection.commit();
+        } catch (err) {
+            await connection.rollback();
+            throw err;
+        } finally {
+            connection.release();
+        }
+        if (rejected.length > 0) {
+            console.log(`Ledger: Rejected ${rejected.length} entries for player_id ${req.user.player_id}:`, rejected);
+        }
+        res.status(200).json({
+            status: "Success",
+            recorded,
+            rejected,
+            bank_balance: parseFloat(player.bank_balance),
+            score: parseFloat(player.score),
+        });
+    } catch (error) {
+        console.error("Ledger report failed:", error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to record the ledger report",
+            details: error.message,
+        });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,190 @@
+/**
+ * @file server/routes/licenses/licenses.js
+ * @description API routes for the Austin operating license and taxi permits in CyberTaxi
+ * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
+ * @version 0.1.1
+ * @note Handles the player's license tier (free, up to 10 vehicles, or the subscriber "Taxi License") and the yearly
+ *       permit of each vehicle. Uses JWT for authentication; every route acts on the authenticated player's own license.
+ * @detail Permits are issued with each purchase by the orders, market and vehicles routes (utils/license-utils.js);
+ *         these routes list them and renew them. The Taxi License is a subscription and there is no billing for it yet,
+ *         so the tier route only returns players to the free license; taxi_license is granted outside the game server.
+ * @see https://kdeangames.net/CyberTaxi/MockUp/Docs/GDD.html
+ */
+const express = require("express");
+const router = express.Router();
+const pool = require("../../models/db");
+const { authenticateJWT } = require("../../middleware/authMiddleware");
+const { PERMIT_FEE, PERMIT_TERM_DAYS, LICENSE_TIERS, DAY_MS, vehicleCap, licenseStatus } = require("../../utils/license-utils");
+
+/**
+ * Serialize a vehicle row joined with its permit
+ * @param {Object} row - Row with vehicle_id, type, vehicle_status and the permit columns (NULL without a permit)
+ * @returns {Object} Permit with dates as ISO (null when the vehicle has none) and fee as a number
+ */
+function serializePermit(row) {
+    return {
+        vehicle_id: row.vehicle_id,
+        type: row.type,
+        vehicle_status: row.vehicle_status,
+        fee: row.fee !== null ? parseFloat(row.fee) : null,
+        issued_at: row.issued_at ? new Date(row.issued_at).toISOString() : null,
+        expires_at: row.expires_at ? new Date(row.expires_at).toISOString() : null,
+        renewed_at: row.renewed_at ? new Date(row.renewed_at).toISOString() : null,
+    };
+}
+
+/**
+ * Look up the authenticated player's players.id
+ * @param {Object} req - Request with req.user from authenticateJWT
+ * @returns {Promise<number|null>} players.id, or null if the player is gone
+ */
+async function playerTableId(req) {
+    const [rows] = await pool.execute("SELECT id FROM players WHERE player_id = ?", [req.user.player_id]);
+    return rows.length > 0 ? rows[0].id : null;
+}
+
+/**
+ * Fetch the player's license and the permit of every vehicle they hold
+ * @route GET /api/licenses
+ * @returns {Object} JSON response with tier, vehicle_cap (null for unlimited), vehicles, permit_fee, term_days and
+ *          permits (soonest expiry first, vehicles without one first of all), or error
+ */
+router.get("/licenses", authenticateJWT, async (req, res) => {
+    try {
+        const playerId = await playerTableId(req);
+        if (playerId === null) {
+            return res.status(404).json({ status: "Error", message: "Player not found" });
+        }
+        const license = await licenseStatus(pool, playerId);
+        const [rows] = await pool.execute(
+            `SELECT v.id AS vehicle_id, v.type, v.status AS vehicle_status, p.fee, p.issued_at, p.expires_at, p.renewed_at
+             FROM vehicles v LEFT JOIN vehicle_permits p ON p.vehicle_id = v.id
+             WHERE v.player_id = ? AND v.status != 'sold' ORDER BY p.expires_at IS NOT NULL, p.expires_at, v.id`,
+            [playerId]
+        );
+        res.status(200).json({
+            status: "Success",
+            ...license,
+            permit_fee: PERMIT_FEE,
+            term_days: PERMIT_TERM_DAYS,
+            permits: rows.map(serializePermit),
+        });
+    } catch (error) {
+        console.error("License fetch failed:", error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to fetch licenses",
+            details: error.message,
+        });
+    }
+});
+
+/**
+ * Return the player to the free license
+ * @route POST /api/licenses/tier
+ * @param {Object} req.body - tier ("free"; "taxi_license" is refused with 403 until the subscription can be billed)
+ * @returns {Object} JSON response with tier, vehicle_cap and vehicles, or error
+ * @note Going back to the free license is refused with 409 while the player holds more vehicles than it covers.
+ */
+router.post("/licenses/tier", authenticateJWT, async (req, res) => {
+    try {
+        const { tier } = req.body;
+        if (!LICENSE_TIERS.includes(tier)) {
+            return res.status(400).json({ status: "Error", message: `Invalid tier, must be one of: ${LICENSE_TIERS.join(", ")}` });
+        }
+        if (tier !== "free") {
+            return res.status(403).json({ status: "Error", message: "The Taxi License is a subscription and cannot be bought in game" });
+        }
+        const playerId = await playerTableId(req);
+        if (playerId === null) {
+            return res.status(404).json({ status: "Error", message: "Player not found" });
+        }
+        const current = await licenseStatus(pool, playerId);
+        const cap = vehicleCap(tier);
+        if (cap !== null && current.vehicles > cap) {
+            return res.status(409).json({
+                status: "Error",
+                message: `The free license covers ${cap} vehicles; sell ${current.vehicles - cap} first`,
+            });
+        }
+        await pool.execute("UPDATE players SET license_tier = ? WHERE id = ?", [tier, playerId]);
+        console.log(`License tier for player_id ${req.user.player_id} set to ${tier}`); // Success log
+        res.status(200).json({ status: "Success", ...current, tier, vehicle_cap: cap });
+    } catch (error) {
+        console.error("License tier change failed:", error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to change license",
+            details: error.message,
+        });
+    }
+});
+
+/**
+ * Renew a vehicle's permit for another year, or issue one for a vehicle without
+ * @route POST /api/licenses/permits/:vehicle_id/renew
+ * @param {string} req.params.vehicle_id - Vehicle ID (e.g., CT-001)
+ * @returns {Object} JSON response with the permit and the amount charged, or error
+ * @note The new year starts at the current expiry, or now if it has passed, so renewing early loses nothing.
+ */
+router.post("/licenses/permits/:vehicle_id/renew", authenticateJWT, async (req, res) => {
+    const { vehicle_id } = req.params;
+    try {
+        const playerId = await playerTableId(req);
+        if (playerId === null) {
+            return res.status(404).json({ status: "Error", message: "Player not found" });
+        }
+        const now = new Date();
+        const connection = await pool.getConnection();
+        let permit;
+        try {
+            await connection.beginTransaction();
+            const [vehicles] = await connection.execute(
+                `SELECT v.id AS vehicle_id, v.type, v.status AS vehicle_status, p.expires_at
+                 FROM vehicles v LEFT JOIN vehicle_permits p ON p.vehicle_id = v.id
+                 WHERE v.id = ? AND v.player_id = ? AND v.status != 'sold' FOR UPDATE`,
+                [vehicle_id, playerId]
+            );
+            if (vehicles.length === 0) {
+                await connection.rollback();
+                return res.status(404).json({ status: "Error", message: "Vehicle not found" });
+            }
+            const [[player]] = await connection.execute("SELECT bank_balance FROM players WHERE id = ? FOR UPDATE", [playerId]);
+            if (parseFloat(player.bank_balance) < PERMIT_FEE) {
+                await connection.rollback();
+                return res.status(400).json({ status: "Error", message: "Insufficient funds" });
+            }
+            const current = vehicles[0].expires_at ? new Date(vehicles[0].expires_at) : null;
+            const expiresAt = new Date(Math.max(now.getTime(), current ? current.getTime() : 0) + PERMIT_TERM_DAYS * DAY_MS);
+            await connection.execute(
+                `INSERT INTO vehicle_permits (vehicle_id, player_id, fee, issued_at, expires_at) VALUES (?, ?, ?, ?, ?)
+                 ON DUPLICATE KEY UPDATE fee = VALUES(fee), expires_at = VALUES(expires_at), renewed_at = ?`,
+                [vehicle_id, playerId, PERMIT_FEE, now, expiresAt, now]
+            );
+            await connection.execute("UPDATE players SET bank_balance = bank_balance - ? WHERE id = ?", [PERMIT_FEE, playerId]);
+            const [rows] = await connection.execute(
+                `SELECT v.id AS vehicle_id, v.type, v.status AS vehicle_status, p.fee, p.issued_at, p.expires_at, p.renewed_at
+                 FROM vehicles v JOIN vehicle_permits p ON p.vehicle_id = v.id WHERE v.id = ?`,
+                [vehicle_id]
+            );
+            permit = serializePermit(rows[0]);
+            await connection.commit();
+        } catch (err) {
+            await connection.rollback();
+            throw err;
+        } finally {
+            connection.release();
+        }
+        console.log(`Permit for ${vehicle_id} renewed to ${permit.expires_at} by player_id: ${req.user.player_id}`); // Success log
+        res.status(200).json({ status: "Success", permit, charged: PERMIT_FEE });
+    } catch (error) {
+        console.error(`Permit renewal failed for ${vehicle_id}:`, error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to renew permit",
+            details: error.message,
+        });
+    }
+});
+
+module.exports = router;
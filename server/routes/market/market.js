@@ -0,0 +1,210 @@
+/**
+ * @file server/routes/market/market.js
+ * @description API routes for the used vehicle market in CyberTaxi
+ * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
+ * @version 0.1.5
+ * @note Handles the used inventory on the Tesla page and buying from it. Uses JWT for authentication. Selling a vehicle
+ *       goes through POST /api/vehicles/:vehicle_id/status (vehicles.js), priced by the same rule.
+ * @detail The market lists USED_INVENTORY_SIZE vehicles per USED_ROTATION_MS window, drawn from a generator seeded by
+ *         the window so every player sees the same stock. Each is priced with usedVehiclePrice (new price minus 10%
+ *         minus its wear); a listing can be bought once (used_vehicle_sales), and the vehicle arrives 'new' at the
+ *         buyer's garage or lot with the listing's wear and mileage. Models and new prices come from the vehicle
+ *         catalog (catalog-utils.js usedModels: available and discontinued ones). The buyer also pays the vehicle's first
+ *         taxi permit (license-utils.js). The garage, slot, license cap and balance checks run inside the purchase's
+ *         transaction with the player and garage rows locked, as POST /api/orders does.
+ * @see https://kdeangames.net/CyberTaxi/MockUp/Docs/GDD.html
+ */
+const express = require("express");
+const router = express.Router();
+const pool = require("../../models/db");
+const { authenticateJWT } = require("../../middleware/authMiddleware");
+const { HELD_PROPERTY_SQL } = require("../../utils/property-utils");
+const { usedVehiclePrice } = require("../../utils/pricing-utils");
+const { createRandom } = require("../../utils/random-utils");
+const { usedModels } = require("../../utils/catalog-utils");
+const { PERMIT_FEE, FREE_VEHICLE_CAP, licenseStatus, hasRoom, issuePermit } = require("../../utils/license-utils");
+
+// Inventory; USED_ROTATION_MS mirrors src/domain/UsedMarket.ts
+const USED_ROTATION_MS = 6 * 60 * 60 * 1000; // Stock is replaced every 6 hours
+const USED_INVENTORY_SIZE = 6;
+const WEAR_RANGE = [5, 60]; // Percent
+const EXTRA_MILES = 40000; // Serviced miles on top of those the current wear implies
+const MILES_PER_WEAR = 100; // Inverse of WEAR_PER_MILE in src/simulation/Wear.ts
+const TIRE_MILES_MAX = 30000;
+const BATTERY_RANGE = [50, 100]; // Charge, percent
+
+/**
+ * The used inventory of one rotation window
+ * @param {number} rotation - Window index, floor(time / USED_ROTATION_MS)
+ * @returns {Object[]} Listings with listing_id, type, wear, mileage, tire_mileage, battery, new_price and price
+ */
+function usedInventory(rotation) {
+    const random = createRandom(rotation);
+    const models = usedModels();
+    return Array.from({ length: USED_INVENTORY_SIZE }, (_, index) => {
+        const model = models[Math.floor(random() * models.length)];
+        const wear = Math.round(WEAR_RANGE[0] + random() * (WEAR_RANGE[1] - WEAR_RANGE[0]));
+        const mileage = Math.round(wear * MILES_PER_WEAR + random() * EXTRA_MILES);
+        return {
+            listing_id: `U${rotation}-${index + 1}`,
+            type: model.id,
+            wear,
+            mileage,
+            tire_mileage: Math.round(random() * Math.min(mileage, TIRE_MILES_MAX)),
+            battery: Math.round(BATTERY_RANGE[0] + random() * (BATTERY_RANGE[1] - BATTERY_RANGE[0])),
+            new_price: model.price,
+            price: usedVehiclePrice(model.price, wear),
+        };
+    });
+}
+
+/**
+ * Fetch the used vehicles for sale now
+ * @route GET /api/market/used
+ * @returns {Object} JSON response with the unsold listings and when the stock rotates, or error
+ */
+router.get("/market/used", authenticateJWT, async (req, res) => {
+    try {
+        const rotation = Math.floor(Date.now() / USED_ROTATION_MS);
+        const listings = usedInventory(rotation);
+        const [sold] = await pool.execute("SELECT listing_id FROM used_vehicle_sales WHERE listing_id LIKE ?", [`U${rotation}-%`]);
+        const soldIds = new Set(sold.map((row) => row.listing_id));
+        res.status(200).json({
+            status: "Success",
+            listings: listings.filter((listing) => !soldIds.has(listing.listing_id)),
+            rotates_at: new Date((rotation + 1) * USED_ROTATION_MS).toISOString(),
+        });
+    } catch (error) {
+        console.error("Used market fetch failed:", error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to fetch used vehicles",
+            details: error.message,
+        });
+    }
+});
+
+/**
+ * Whether a duplicate-key error came from the listing having been sold
+ * @param {Error} err - mysql2 error with code ER_DUP_ENTRY
+ * @param {string} listingId - Listing being bought
+ * @returns {boolean} True when the used_vehicle_sales key collided; servers before MySQL 8.0.19 name only the index
+ *          (PRIMARY, shared with vehicles), so there the duplicate entry must be the listing id
+ */
+function isListingSold(err, listingId) {
+    const message = err.sqlMessage || "";
+    const key = (message.match(/for key '([^']+)'/) || [])[1];
+    return key === "used_vehicle_sales.PRIMARY" || (key === "PRIMARY" && message.startsWith(`Duplicate entry '${listingId}'`));
+}
+
+/**
+ * Buy a used vehicle, handed over at one of the player's garages or lots
+ * @route POST /api/market/used/:listing_id/buy
+ * @param {string} req.params.listing_id - Listing in the current rotation (e.g., U80123-4)
+ * @param {number} req.body.garage_id - Where the vehicle is handed over
+ * @returns {Object} JSON response with the new vehicle_id and the amount charged (price plus permit), or error
+ * @note 404 once the stock has rotated; 409 when another player bought it first, every slot is taken, the free
+ *       license's vehicle cap is reached, or another vehicle took the same id at the same moment (try again).
+ */
+router.post("/market/used/:listing_id/buy", authenticateJWT, async (req, res) => {
+    const { listing_id } = req.params;
+    try {
+        const { garage_id } = req.body;
+        if (!garage_id) {
+            return res.status(400).json({ status: "Error", message: "Missing required fields" });
+        }
+        const rotation = Math.floor(Date.now() / USED_ROTATION_MS);
+        const listing = usedInventory(rotation).find((item) => item.listing_id === listing_id);
+        if (!listing) {
+            return res.status(404).json({ status: "Error", message: "Listing is no longer for sale" });
+        }
+        const [players] = await pool.execute("SELECT id FROM players WHERE player_id = ?", [req.user.player_id]);
+        if (players.length === 0) {
+            return res.status(404).json({ status: "Error", message: "Player not found" });
+        }
+        const playerId = players[0].id;
+        const charged = listing.price + PERMIT_FEE;
+        const connection = await pool.getConnection();
+        let vehicleId;
+        try {
+            await connection.beginTransaction();
+            // Lock the player and the garage so concurrent purchases check slots, the license cap and the balance in turn
+            const [[player]] = await connection.execute("SELECT bank_balance FROM players WHERE id = ? FOR UPDATE", [playerId]);
+            const [garages] = await connection.execute("SELECT id, coords FROM garages WHERE id = ? AND player_id = ? FOR UPDATE", [
+                garage_id,
+                playerId,
+            ]);
+            if (garages.length === 0 || !garages[0].coords) {
+                await connection.rollback();
+                return res.status(404).json({ status: "Error", message: "Garage not found" });
+            }
+            const coords = JSON.parse(garages[0].coords);
+            const [[slots]] = await connection.execute(
+                `SELECT COALESCE(SUM(capacity), 0) AS total_slots, (SELECT COUNT(*) FROM vehicles WHERE player_id = ? AND status != 'sold') AS used_slots FROM garages WHERE player_id = ? AND ${HELD_PROPERTY_SQL}`,
+                [playerId, playerId]
+            );
+            if (parseInt(slots.used_slots) >= parseInt(slots.total_slots)) {
+                await connection.rollback();
+                return res.status(409).json({ status: "Error", message: "No free slots; lease more garage space first" });
+            }
+            if (!hasRoom(await licenseStatus(connection, playerId))) {
+                await connection.rollback();
+                return res.status(409).json({
+                    status: "Error",
+                    message: `The free license covers ${FREE_VEHICLE_CAP} vehicles; get a Taxi License for more`,
+                });
+            }
+            if (parseFloat(player.bank_balance) < charged) {
+                await connection.rollback();
+                return res.status(400).json({ status: "Error", message: "Insufficient funds" });
+            }
+            const [maxIdRows] = await connection.execute(
+                "SELECT MAX(CAST(SUBSTRING(id, 4) AS UNSIGNED)) AS max_id FROM vehicles WHERE id LIKE 'CT-%'"
+            );
+            const maxId = maxIdRows[0].max_id ? parseInt(maxIdRows[0].max_id) : 0;
+            vehicleId = `CT-${String(maxId + 1).padStart(3, "0")}`;
+            // Claim the listing first; a second buyer fails here with ER_DUP_ENTRY
+            await connection.execute(
+                "INSERT INTO used_vehicle_sales (listing_id, player_id, vehicle_id, price) VALUES (?, ?, ?, ?)",
+                [listing_id, playerId, vehicleId, listing.price]
+            );
+            await connection.execute(
+                "INSERT INTO vehicles (id, player_id, type, status, wear, battery, mileage, tire_mileage, cost, lat, lng, purchase_date, delivery_timestamp, created_at, updated_at) VALUES (?, ?, ?, 'new', ?, ?, ?, ?, ?, ?, ?, NOW(), NOW(), NOW(), NOW())",
+                [vehicleId, playerId, listing.type, listing.wear, listing.battery, listing.mileage, listing.tire_mileage, listing.price, coords[0], coords[1]]
+            );
+            await connection.execute(
+                "INSERT INTO vehicle_events (vehicle_id, from_status, to_status, lat, lng) VALUES (?, 'ordered', 'new', ?, ?)",
+                [vehicleId, coords[0], coords[1]]
+            );
+            await issuePermit(connection, playerId, vehicleId, new Date());
+            await connection.execute("UPDATE players SET bank_balance = bank_balance - ? WHERE id = ?", [charged, playerId]);
+            await connection.commit();
+        } catch (err) {
+            await connection.rollback();
+            if (err.code === "ER_DUP_ENTRY" && isListingSold(err, listing_id)) {
+                return res.status(409).json({ status: "Error", message: "Another player bought this vehicle first" });
+            }
+            if (err.code === "ER_DUP_ENTRY") {
+                // Another purchase or order took the same vehicle id
+                return res.status(409).json({ status: "Error", message: "Another vehicle was registered at the same time; try again" });
+            }
+            if (err.code === "ER_LOCK_DEADLOCK") {
+                return res.status(409).json({ status: "Error", message: "Another purchase was made at the same time; try again" });
+            }
+            throw err;
+        } finally {
+            connection.release();
+        }
+        console.log(`Used listing ${listing_id} bought as ${vehicleId} for $${listing.price} by player_id: ${req.user.player_id}`); // Success log
+        res.status(201).json({ status: "Success", vehicle_id: vehicleId, charged });
+    } catch (error) {
+        console.error(`Used purchase failed for ${listing_id}:`, error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to buy used vehicle",
+            details: error.message,
+        });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,372 @@
+/**
+ * @file server/routes/orders/orders.js
+ * @description API routes for new vehicle orders in CyberTaxi
+ * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
+ * @version 0.1.7
+ * @note Handles ordering new vehicles from the Tesla Service Center, its daily stock, and delivery to a player's garage.
+ *       Uses JWT for authentication; every route acts on the authenticated player's own orders.
+ * @detail The service center gets DAILY_STOCK (3–8) vehicles a day at random times, the same for every player (seeded
+ *         by the UTC date). An order that finds one in stock is prepared for PREP_MS, otherwise it waits for stock and
+ *         arrives in BACKORDER_DAYS (2–3 days); either way it spends the last TRANSIT_MS in transit. The vehicle is
+ *         created as 'ordered' when the order is placed and paid, so it holds a slot; fetching orders moves due ones
+ *         along (vehicle 'delivering', then 'new' at the garage). Models and prices come from the vehicle catalog
+ *         (catalog-utils.js); only "available" models can be ordered. The vehicle's taxi permit is paid with the order and
+ *         starts on its delivery date (license-utils.js); free-license players are held to FREE_VEHICLE_CAP vehicles.
+ *         Placing an order checks the garage, slots, license cap, balance and stock inside its transaction, with the
+ *         player and garage rows and today's stock orders locked, so concurrent orders cannot overdraw the balance or
+ *         share the last vehicle.
+ * @see https://kdeangames.net/CyberTaxi/MockUp/Docs/GDD.html
+ */
+const express = require("express");
+const router = express.Router();
+const pool = require("../../models/db");
+const { authenticateJWT } = require("../../middleware/authMiddleware");
+const { createRandom } = require("../../utils/random-utils");
+const { findModel, orderableModels } = require("../../utils/catalog-utils");
+const { PERMIT_FEE, FREE_VEHICLE_CAP, licenseStatus, hasRoom, issuePermit } = require("../../utils/license-utils");
+const { HELD_PROPERTY_SQL } = require("../../utils/property-utils");
+
+// Delivery times; mirror PREP_MS, TRANSIT_MS and BACKORDER_DAYS in src/domain/Orders.ts
+const DAILY_STOCK = [3, 8]; // Vehicles the service center receives per day
+const PREP_MS = 60 * 60 * 1000; // In-stock vehicle prepared for handover
+const TRANSIT_MS = 2 * 60 * 60 * 1000; // Drive from the service center to the garage
+const BACKORDER_DAYS = [2, 3];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ORDER_HISTORY = 50; // Orders returned by GET /api/orders
+
+const ORDER_COLUMNS =
+    "o.id, o.vehicle_id, o.type, o.cost, o.garage_id, g.name AS garage_name, o.from_stock, o.status, o.placed_at, o.ships_at, o.deliver_at, o.delivered_at";
+
+/**
+ * When the service center's vehicles arrive on a day
+ * @param {Date} now - Any moment of the day (UTC)
+ * @returns {{dayStart: Date, arrivals: Date[]}} Start of the UTC day and the sorted arrival times
+ */
+function stockArrivals(now) {
+    const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const random = createRandom(now.getUTCFullYear() * 10000 + (now.getUTCMonth() + 1) * 100 + now.getUTCDate());
+    const count = DAILY_STOCK[0] + Math.floor(random() * (DAILY_STOCK[1] - DAILY_STOCK[0] + 1));
+    const arrivals = Array.from({ length: count }, () => new Date(dayStart.getTime() + random() * DAY_MS));
+    return { dayStart, arrivals: arrivals.sort((a, b) => a - b) };
+}
+
+/**
+ * Service center stock right now
+ * @param {Object} db - Pool or connection
+ * @param {Date} now - Current time
+ * @param {boolean} [lock=false] - Lock today's stock orders, so an order in a transaction takes the last vehicle alone
+ * @returns {Promise<Object>} daily_limit, arrived, taken, in_stock and next_arrival (ISO or null)
+ */
+async function stockStatus(db, now, lock = false) {
+    const { dayStart, arrivals } = stockArrivals(now);
+    const arrived = arrivals.filter((arrival) => arrival <= now).length;
+    const [[row]] = await db.execute(
+        `SELECT COUNT(*) AS taken FROM vehicle_orders WHERE from_stock = TRUE AND placed_at >= ?${lock ? " FOR UPDATE" : ""}`,
+        [dayStart]
+    );
+    const taken = parseInt(row.taken);
+    const next = arrivals.find((arrival) => arrival > now);
+    return {
+        daily_limit: arrivals.length,
+        arrived,
+        taken,
+        in_stock: Math.max(0, arrived - taken),
+        next_arrival: next ? next.toISOString() : null,
+    };
+}
+
+/**
+ * Status an order should have at a moment
+ * @param {Object} order - Row with from_stock, ships_at and deliver_at
+ * @param {Date} now - Current time
+ * @returns {string} placed, awaiting_stock, in_transit or delivered
+ */
+function orderStatusAt(order, now) {
+    if (now >= new Date(order.deliver_at)) return "delivered";
+    if (now >= new Date(order.ships_at)) return "in_transit";
+    return order.from_stock ? "placed" : "awaiting_stock";
+}
+
+/**
+ * Serialize an order row for the client
+ * @param {Object} row - Row with the ORDER_COLUMNS
+ * @returns {Object} Order with cost as a number and dates as ISO
+ */
+function serializeOrder(row) {
+    return {
+        id: row.id,
+        vehicle_id: row.vehicle_id,
+        type: row.type,
+        cost: parseFloat(row.cost) || 0.0,
+        garage_id: row.garage_id,
+        garage_name: row.garage_name || null,
+        from_stock: Boolean(row.from_stock),
+        status: row.status,
+        placed_at: new Date(row.placed_at).toISOString(),
+        ships_at: new Date(row.ships_at).toISOString(),
+        deliver_at: new Date(row.deliver_at).toISOString(),
+        delivered_at: row.delivered_at ? new Date(row.delivered_at).toISOString() : null,
+    };
+}
+
+/**
+ * Move a player's due orders along and update their vehicles
+ * @param {Object} connection - Connection inside a transaction
+ * @param {number} playerTableId - players.id
+ * @param {Date} now - Current time
+ * @returns {Promise<number>} Orders changed
+ * @note A vehicle whose garage was given up goes to the player's first other garage; with none it waits in transit.
+ *       Only a vehicle still ordered or delivering is moved, so a delivered one that is already on the road keeps its
+ *       status and position.
+ */
+async function advanceOrders(connection, playerTableId, now) {
+    const [rows] = await connection.execute(
+        `SELECT o.id, o.vehicle_id, o.garage_id, o.from_stock, o.status, o.ships_at, o.deliver_at, g.coords, v.status AS vehicle_status
+         FROM vehicle_orders o LEFT JOIN garages g ON o.garage_id = g.id JOIN vehicles v ON v.id = o.vehicle_id
+         WHERE o.player_id = ? AND o.status != 'delivered' FOR UPDATE`,
+        [playerTableId]
+    );
+    let changed = 0;
+    for (const order of rows) {
+        let target = orderStatusAt(order, now);
+        let garageId = order.garage_id;
+        let coords = order.coords ? JSON.parse(order.coords) : null;
+        if (target === "delivered" && !coords) {
+            const [fallback] = await connection.execute(
+                "SELECT id, coords FROM garages WHERE player_id = ? AND type = 'garage' AND coords IS NOT NULL ORDER BY id LIMIT 1",
+                [playerTableId]
+            );
+            if (fallback.length > 0) {
+                garageId = fallback[0].id;
+                coords = JSON.parse(fallback[0].coords);
+            } else {
+                target = "in_transit"; // Nowhere to deliver to yet
+            }
+        }
+        if (target === order.status) {
+            continue;
+        }
+        // Walk the vehicle lifecycle one step at a time so its history reads ordered -> delivering -> new
+        const steps = [];
+        if (target !== "placed" && target !== "awaiting_stock" && order.vehicle_status === "ordered") steps.push("delivering");
+        if (target === "delivered" && ["ordered", "delivering"].includes(order.vehicle_status)) steps.push("new");
+        let from = order.vehicle_status;
+        for (const to of steps) {
+            const position = to === "new" ? coords : [null, null];
+            await connection.execute(
+                "UPDATE vehicles SET status = ?, lat = ?, lng = ?, delivery_timestamp = IF(? = 'new', NOW(), delivery_timestamp) WHERE id = ?",
+                [to, position[0], position[1], to, order.vehicle_id]
+            );
+            await connection.execute(
+                "INSERT INTO vehicle_events (vehicle_id, from_status, to_status, lat, lng) VALUES (?, ?, ?, ?, ?)",
+                [order.vehicle_id, from, to, position[0], position[1]]
+            );
+            from = to;
+        }
+        await connection.execute(
+            "UPDATE vehicle_orders SET status = ?, garage_id = ?, delivered_at = IF(? = 'delivered', NOW(), NULL) WHERE id = ?",
+            [target, garageId, target, order.id]
+        );
+        changed += 1;
+    }
+    return changed;
+}
+
+/**
+ * Look up the authenticated player's players.id
+ * @param {Object} req - Request with req.user from authenticateJWT
+ * @returns {Promise<number|null>} players.id, or null if the player is gone
+ */
+async function playerTableId(req) {
+    const [rows] = await pool.execute("SELECT id FROM players WHERE player_id = ?", [req.user.player_id]);
+    return rows.length > 0 ? rows[0].id : null;
+}
+
+/**
+ * Fetch the service center's stock
+ * @route GET /api/orders/stock
+ * @returns {Object} JSON response with daily_limit, arrived, taken, in_stock and next_arrival, or error
+ */
+router.get("/orders/stock", authenticateJWT, async (req, res) => {
+    try {
+        const stock = await stockStatus(pool, new Date());
+        res.status(200).json({ status: "Success", ...stock });
+    } catch (error) {
+        console.error("Stock fetch failed:", error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to fetch service center stock",
+            details: error.message,
+        });
+    }
+});
+
+/**
+ * Fetch the authenticated player's orders, delivering those that are due
+ * @route GET /api/orders
+ * @returns {Object} JSON response with the latest orders (newest first), or error
+ */
+router.get("/orders", authenticateJWT, async (req, res) => {
+    try {
+        const playerId = await playerTableId(req);
+        if (playerId === null) {
+            return res.status(404).json({ status: "Error", message: "Player not found" });
+        }
+        const connection = await pool.getConnection();
+        try {
+            await connection.beginTransaction();
+            const changed = await advanceOrders(connection, playerId, new Date());
+            await connection.commit();
+            if (changed > 0) {
+                console.log(`Advanced ${changed} order(s) for player_id: ${req.user.player_id}`);
+            }
+        } catch (err) {
+            await connection.rollback();
+            throw err;
+        } finally {
+            connection.release();
+        }
+        const [rows] = await pool.execute(
+            `SELECT ${ORDER_COLUMNS} FROM vehicle_orders o LEFT JOIN garages g ON o.garage_id = g.id
+             WHERE o.player_id = ? ORDER BY o.placed_at DESC, o.id DESC LIMIT ${ORDER_HISTORY}`,
+            [playerId]
+        );
+        res.status(200).json({ status: "Success", orders: rows.map(serializeOrder) });
+    } catch (error) {
+        console.error("Orders fetch failed:", error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to fetch orders",
+            details: error.message,
+        });
+    }
+});
+
+/**
+ * Order a new vehicle for delivery to one of the player's garages
+ * @route POST /api/orders
+ * @param {Object} req.body - type (an available catalog model id, e.g. "Model Y") and garage_id
+ * @returns {Object} JSON response with the order and the amount charged (price plus permit), or error
+ * @note Vehicles are delivered only to garages, not lots (400). Refused with 409 when every slot is taken or the free
+ *       license's vehicle cap is reached, or when an order placed at the same moment took the last vehicle in stock
+ *       (try again). The price and the first year's permit are paid when ordering.
+ */
+router.post("/orders", authenticateJWT, async (req, res) => {
+    try {
+        const { type, garage_id } = req.body;
+        console.log(`Received order for ${type} from player_id: ${req.user.player_id}`); // Debug log
+        if (!type || !garage_id) {
+            return res.status(400).json({ status: "Error", message: "Missing required fields" });
+        }
+        const model = findModel(type);
+        if (!model || model.availability !== "available") {
+            return res.status(400).json({
+                status: "Error",
+                message: `Invalid vehicle type, must be one of: ${orderableModels()
+                    .map((item) => item.id)
+                    .join(", ")}`,
+            });
+        }
+        const playerId = await playerTableId(req);
+        if (playerId === null) {
+            return res.status(404).json({ status: "Error", message: "Player not found" });
+        }
+        const cost = model.price;
+        const now = new Date();
+        const connection = await pool.getConnection();
+        let orderId;
+        let vehicleId;
+        try {
+            await connection.beginTransaction();
+            // Lock the player and the garage so concurrent orders check slots, the license cap and the balance in turn
+            const [[player]] = await connection.execute("SELECT bank_balance FROM players WHERE id = ? FOR UPDATE", [playerId]);
+            const [garages] = await connection.execute("SELECT id, type FROM garages WHERE id = ? AND player_id = ? FOR UPDATE", [
+                garage_id,
+                playerId,
+            ]);
+            if (garages.length === 0) {
+                await connection.rollback();
+                return res.status(404).json({ status: "Error", message: "Garage not found" });
+            }
+            if (garages[0].type !== "garage") {
+                await connection.rollback();
+                return res.status(400).json({ status: "Error", message: "Vehicles are delivered only to garages, not lots" });
+            }
+            const [[slots]] = await connection.execute(
+                `SELECT COALESCE(SUM(capacity), 0) AS total_slots, (SELECT COUNT(*) FROM vehicles WHERE player_id = ? AND status != 'sold') AS used_slots FROM garages WHERE player_id = ? AND ${HELD_PROPERTY_SQL}`,
+                [playerId, playerId]
+            );
+            if (parseInt(slots.used_slots) >= parseInt(slots.total_slots)) {
+                await connection.rollback();
+                return res.status(409).json({ status: "Error", message: "No free slots; lease more garage space first" });
+            }
+            if (!hasRoom(await licenseStatus(connection, playerId))) {
+                await connection.rollback();
+                return res.status(409).json({
+                    status: "Error",
+                    message: `The free license covers ${FREE_VEHICLE_CAP} vehicles; get a Taxi License for more`,
+                });
+            }
+            if (parseFloat(player.bank_balance) < cost + PERMIT_FEE) {
+                await connection.rollback();
+                return res.status(400).json({ status: "Error", message: "Insufficient funds" });
+            }
+            const stock = await stockStatus(connection, now, true);
+            const fromStock = stock.in_stock > 0;
+            const shipsAt = fromStock
+                ? new Date(now.getTime() + PREP_MS)
+                : new Date(
+                      now.getTime() +
+                          (BACKORDER_DAYS[0] + Math.random() * (BACKORDER_DAYS[1] - BACKORDER_DAYS[0])) * DAY_MS -
+                          TRANSIT_MS
+                  );
+            const deliverAt = new Date(shipsAt.getTime() + TRANSIT_MS);
+            const [maxIdRows] = await connection.execute(
+                "SELECT MAX(CAST(SUBSTRING(id, 4) AS UNSIGNED)) AS max_id FROM vehicles WHERE id LIKE 'CT-%'"
+            );
+            const maxId = maxIdRows[0].max_id ? parseInt(maxIdRows[0].max_id) : 0;
+            vehicleId = `CT-${String(maxId + 1).padStart(3, "0")}`;
+            await connection.execute(
+                "INSERT INTO vehicles (id, player_id, type, status, cost, delivery_timestamp, purchase_date, created_at, updated_at) VALUES (?, ?, ?, 'ordered', ?, ?, NOW(), NOW(), NOW())",
+                [vehicleId, playerId, type, cost, deliverAt]
+            );
+            const [result] = await connection.execute(
+                "INSERT INTO vehicle_orders (player_id, vehicle_id, type, cost, garage_id, from_stock, status, placed_at, ships_at, deliver_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+                [playerId, vehicleId, type, cost, garage_id, fromStock, fromStock ? "placed" : "awaiting_stock", now, shipsAt, deliverAt]
+            );
+            orderId = result.insertId;
+            await issuePermit(connection, playerId, vehicleId, deliverAt);
+            await connection.execute("UPDATE players SET bank_balance = bank_balance - ? WHERE id = ?", [cost + PERMIT_FEE, playerId]);
+            await connection.commit();
+        } catch (err) {
+            await connection.rollback();
+            // Two players' orders both reached the last stock vehicle; MySQL rolled this one back
+            if (err.code === "ER_LOCK_DEADLOCK") {
+                return res.status(409).json({ status: "Error", message: "Another order was placed at the same time; try again" });
+            }
+            if (err.code === "ER_DUP_ENTRY") {
+                // Another order or used purchase took the same vehicle id
+                return res.status(409).json({ status: "Error", message: "Another vehicle was registered at the same time; try again" });
+            }
+            throw err;
+        } finally {
+            connection.release();
+        }
+        const [rows] = await pool.execute(
+            `SELECT ${ORDER_COLUMNS} FROM vehicle_orders o LEFT JOIN garages g ON o.garage_id = g.id WHERE o.id = ?`,
+            [orderId]
+        );
+        const order = serializeOrder(rows[0]);
+        console.log(`Order ${orderId} placed: ${type} as ${vehicleId}, ${order.status}, due ${order.deliver_at}`); // Success log
+        res.status(201).json({ status: "Success", order, charged: cost + PERMIT_FEE });
+    } catch (error) {
+        console.error("Order failed:", error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to place order",
+            details: error.message,
+        });
+    }
+});
+
+module.exports = router;
@@ -2,7 +2,7 @@
  * @file server/routes/player/player.js
  * @description API routes for player management in CyberTaxi
  * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
- * @version 0.4.2
+ * @version 0.4.4
  * @note Handles player data retrieval and balance/slot/score queries. Uses JWT for authentication.
  * @see https://kdeangames.net/CyberTaxi/MockUp/Docs/GDD.html
  */
@@ -11,6 +11,7 @@ const router = express.Router();
 const pool = require("../../models/db");
 const { authenticateJWT } = require("../../middleware/authMiddleware");
 const { getUserBalance } = require("../../utils/query-utils");
+const { HELD_PROPERTY_SQL } = require("../../utils/property-utils");
 
 /**
  * Fetch a player's details
@@ -141,19 +142,27 @@ router.get("/player/:username([a-zA-Z0-9_-]+)/score", authenticateJWT, async (re
 });
 
 /**
- * Fetch a player's available parking slots by username
+ * Fetch a player's available parking slots by username or player_id
  * @route GET /api/player/:username/slots
- * @param {string} req.params.username - The player's username
+ * @param {string} req.params.username - The player's username, or their numeric player_id
  * @returns {Object} JSON response with total, used, and available slots or error
+ * @note Total is the capacity of every leased or owned garage and lot; sold vehicles do not use a slot
  */
 router.get("/player/:username([a-zA-Z0-9_-]+)/slots", authenticateJWT, async (req, res) => {
+    const { username } = req.params;
     try {
-        const { username } = req.params;
         console.log(`Fetching slots for username: ${username}`); // Debug log
-        const [playerRows] = await pool.execute(
+        let [playerRows] = await pool.execute(
             "SELECT id, player_id FROM players WHERE username = ?",
             [username]
         );
+        // TeslaPage passes the numeric player_id; usernames win when both match
+        if (playerRows.length === 0 && /^\d+$/.test(username)) {
+            [playerRows] = await pool.execute(
+                "SELECT id, player_id FROM players WHERE player_id = ?",
+                [parseInt(username)]
+            );
+        }
         if (playerRows.length === 0) {
             console.log(`Player not found for username: ${username}`);
             return res
@@ -170,13 +179,13 @@ router.get("/player/:username([a-zA-Z0-9_-]+)/slots", authenticateJWT, async (re
             });
         }
         const [garageRows] = await pool.execute(
-            "SELECT SUM(capacity) AS total_slots FROM garages WHERE player_id = ?",
+            `SELECT SUM(capacity) AS total_slots FROM garages WHERE player_id = ? AND ${HELD_PROPERTY_SQL}`,
             [playerTableId]
         );
         console.log(`Garage query result for username: ${username}: ${JSON.stringify(garageRows)}`);
         const total_slots = parseInt(garageRows[0].total_slots) || 0;
         const [vehicleRows] = await pool.execute(
-            "SELECT COUNT(*) AS used_slots FROM vehicles WHERE player_id = ?",
+            "SELECT COUNT(*) AS used_slots FROM vehicles WHERE player_id = ? AND status != 'sold'",
             [playerTableId]
         );
         console.log(`Vehicle query result for username: ${username}: ${JSON.stringify(vehicleRows)}`);
@@ -0,0 +1,385 @@
+/**
+ * @file server/routes/staff/staff.js
+ * @description API routes for garage staff in CyberTaxi
+ * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
+ * @version 0.1.1
+ * @note Handles hiring, shift schedules, job counts, firing and monthly payroll for mechanics and cleaning staff. Uses
+ *       JWT for authentication; every route acts on the authenticated player's own staff.
+ * @see https://kdeangames.net/CyberTaxi/MockUp/Docs/GDD.html
+ */
+const express = require("express");
+const router = express.Router();
+const pool = require("../../models/db");
+const { authenticateJWT } = require("../../middleware/authMiddleware");
+const { getUserBalance } = require("../../utils/query-utils");
+
+// Pay, levels and shifts; mirror STAFF_ROLES, LEVEL_RAISE, LEVEL_JOBS and SHIFT_HOURS_RANGE in src/domain/Staff.ts
+const ROLE_SALARIES = { mechanic: 4000, cleaner: 2500 };
+const LEVEL_RAISE = 0.1; // Higher salary per starting level past 1
+const LEVEL_JOBS = [0, 10, 25, 50, 100]; // Jobs done to reach levels 1–5
+const SHIFT_HOURS = [8, 12];
+const MAX_JOBS_PER_REPORT = 50; // Most jobs one POST /staff/:staff_id/jobs may add
+
+const STAFF_COLUMNS =
+    "s.id, s.garage_id, s.applicant_id, s.name, s.role, s.salary_monthly, s.jobs_done, s.schedule, s.paid_until, s.hired_at";
+
+/**
+ * Round a dollar amount to cents
+ * @param {number} value - Dollars
+ * @returns {number} Rounded dollars
+ */
+function toCents(value) {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Check a weekly schedule from a request body
+ * @param {*} schedule - Candidate schedule
+ * @returns {boolean} True for seven days (Sunday first) of null or whole-hour {start 0–23, hours within SHIFT_HOURS}
+ */
+function isValidSchedule(schedule) {
+    return (
+        Array.isArray(schedule) &&
+        schedule.length === 7 &&
+        schedule.every(
+            (day) =>
+                day === null ||
+                (typeof day === "object" &&
+                    Number.isInteger(day.start) &&
+                    Number.isInteger(day.hours) &&
+                    day.start >= 0 &&
+                    day.start <= 23 &&
+                    day.hours >= SHIFT_HOURS[0] &&
+                    day.hours <= SHIFT_HOURS[1])
+        )
+    );
+}
+
+/**
+ * Add whole months to a date
+ * @param {Date} date - Start
+ * @param {number} months - Months to add
+ * @returns {Date} New date
+ */
+function addMonths(date, months) {
+    const next = new Date(date);
+    next.setMonth(next.getMonth() + months);
+    return next;
+}
+
+/**
+ * Serialize a staff row for the client
+ * @param {Object} row - Row with the staff columns
+ * @returns {Object} Staff member with salary as a number, schedule parsed and dates as ISO
+ */
+function serializeStaff(row) {
+    return {
+        id: row.id,
+        garage_id: row.garage_id,
+        applicant_id: row.applicant_id,
+        name: row.name,
+        role: row.role,
+        salary_monthly: parseFloat(row.salary_monthly) || 0.0,
+        jobs_done: row.jobs_done,
+        schedule: JSON.parse(row.schedule),
+        paid_until: new Date(row.paid_until).toISOString(),
+        hired_at: new Date(row.hired_at).toISOString(),
+    };
+}
+
+/**
+ * Look up the authenticated player's players.id
+ * @param {Object} req - Request with req.user from authenticateJWT
+ * @returns {Promise<number|null>} players.id, or null if the player is gone
+ */
+async function playerTableId(req) {
+    const [rows] = await pool.execute("SELECT id FROM players WHERE player_id = ?", [req.user.player_id]);
+    return rows.length > 0 ? rows[0].id : null;
+}
+
+/**
+ * Check a garage belongs to a player
+ * @param {number|null} garageId - garages.id, or null for no garage
+ * @param {number} playerId - players.id
+ * @returns {Promise<boolean>} True if the garage is the player's (or no garage was given)
+ */
+async function ownsGarage(garageId, playerId) {
+    if (garageId === null) {
+        return true;
+    }
+    const [rows] = await pool.execute("SELECT id FROM garages WHERE id = ? AND player_id = ?", [garageId, playerId]);
+    return rows.length > 0;
+}
+
+/**
+ * Fetch the authenticated player's staff
+ * @route GET /api/staff
+ * @returns {Object} JSON response with array of staff or error
+ */
+router.get("/staff", authenticateJWT, async (req, res) => {
+    try {
+        const playerId = await playerTableId(req);
+        if (playerId === null) {
+            return res.status(404).json({ status: "Error", message: "Player not found" });
+        }
+        const [rows] = await pool.execute(
+            `SELECT ${STAFF_COLUMNS} FROM staff s WHERE s.player_id = ? ORDER BY s.hired_at, s.id`,
+            [playerId]
+        );
+        res.status(200).json({ status: "Success", staff: rows.map(serializeStaff) });
+    } catch (error) {
+        console.error("Staff fetch failed:", error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to fetch staff",
+            details: error.message,
+        });
+    }
+});
+
+/**
+ * Hire an applicant
+ * @route POST /api/staff
+ * @param {Object} req.body - applicant_id, name, role ("mechanic" or "cleaner"), level (1–5), garage_id and schedule
+ * @returns {Object} JSON response with the new staff member and the amount charged, or error
+ * @note The salary is the role's plus LEVEL_RAISE per level past 1, and the first month is paid on hiring. A hire
+ *       starts with the jobs done for their level. An applicant works for a player once (409 otherwise).
+ */
+router.post("/staff", authenticateJWT, async (req, res) => {
+    try {
+        const { applicant_id, name, role, level, garage_id = null, schedule } = req.body;
+        console.log(`Received hire request for applicant ${applicant_id} from player_id: ${req.user.player_id}`); // Debug log
+        if (!applicant_id || !name || !role || !level || !schedule) {
+            return res.status(400).json({ status: "Error", message: "Missing required fields" });
+        }
+        if (!ROLE_SALARIES[role]) {
+            return res.status(400).json({ status: "Error", message: "Invalid role, must be mechanic or cleaner" });
+        }
+        if (!Number.isInteger(level) || level < 1 || level > LEVEL_JOBS.length) {
+            return res.status(400).json({ status: "Error", message: `Invalid level, must be 1 to ${LEVEL_JOBS.length}` });
+        }
+        if (!isValidSchedule(schedule)) {
+            return res.status(400).json({ status: "Error", message: "Invalid schedule" });
+        }
+        const playerId = await playerTableId(req);
+        if (playerId === null) {
+            return res.status(404).json({ status: "Error", message: "Player not found" });
+        }
+        if (!(await ownsGarage(garage_id, playerId))) {
+            return res.status(404).json({ status: "Error", message: "Garage not found" });
+        }
+        const salary = toCents(ROLE_SALARIES[role] * (1 + LEVEL_RAISE * (level - 1)));
+        const balance = await getUserBalance(req.user.player_id);
+        if (balance < salary) {
+            return res.status(400).json({ status: "Error", message: "Insufficient funds for the first month's salary" });
+        }
+        const paidUntil = addMonths(new Date(), 1);
+        const connection = await pool.getConnection();
+        let staffId;
+        try {
+            await connection.beginTransaction();
+            const [result] = await connection.execute(
+                "INSERT INTO staff (player_id, garage_id, applicant_id, name, role, salary_monthly, jobs_done, schedule, paid_until) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
+                [playerId, garage_id, applicant_id, name, role, salary, LEVEL_JOBS[level - 1], JSON.stringify(schedule), paidUntil]
+            );
+            staffId = result.insertId;
+            await connection.execute("UPDATE players SET bank_balance = bank_balance - ? WHERE id = ?", [salary, playerId]);
+            await connection.commit();
+        } catch (err) {
+            await connection.rollback();
+            if (err.code === "ER_DUP_ENTRY") {
+                return res.status(409).json({ status: "Error", message: `${name} already works for you` });
+            }
+            throw err;
+        } finally {
+            connection.release();
+        }
+        const [rows] = await pool.execute(`SELECT ${STAFF_COLUMNS} FROM staff s WHERE s.id = ?`, [staffId]);
+        console.log(`Staff hired: ${name} (${role}), charged ${salary}`); // Success log
+        res.status(201).json({ status: "Success", staff: serializeStaff(rows[0]), charged: salary });
+    } catch (error) {
+        console.error("Staff hire failed:", error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to hire staff",
+            details: error.message,
+        });
+    }
+});
+
+/**
+ * Bill the salaries that are due
+ * @route POST /api/staff/payroll
+ * @returns {Object} JSON response with the amount charged and the ids of staff who left unpaid, or error
+ * @note Each member past paid_until is charged a salary for every month started since, oldest hire first. A member the
+ *       bank cannot pay leaves. Registered before the /staff/:staff_id routes.
+ */
+router.post("/staff/payroll", authenticateJWT, async (req, res) => {
+    try {
+        const playerId = await playerTableId(req);
+        if (playerId === null) {
+            return res.status(404).json({ status: "Error", message: "Player not found" });
+        }
+        const now = new Date();
+        const connection = await pool.getConnection();
+        let charged = 0;
+        const departed = [];
+        try {
+            await connection.beginTransaction();
+            const [[player]] = await connection.execute("SELECT bank_balance FROM players WHERE id = ? FOR UPDATE", [playerId]);
+            let balance = parseFloat(player.bank_balance);
+            const [rows] = await connection.execute(
+                "SELECT id, salary_monthly, paid_until FROM staff WHERE player_id = ? AND paid_until <= ? ORDER BY hired_at, id",
+                [playerId, now]
+            );
+            for (const row of rows) {
+                let months = 0;
+                let paidUntil = new Date(row.paid_until);
+                while (paidUntil <= now) {
+                    paidUntil = addMonths(paidUntil, 1);
+                    months += 1;
+                }
+                const due = toCents(parseFloat(row.salary_monthly) * months);
+                if (balance < due) {
+                    await connection.execute("DELETE FROM staff WHERE id = ?", [row.id]);
+                    departed.push(row.id);
+                    continue;
+                }
+                await connection.execute("UPDATE staff SET paid_until = ? WHERE id = ?", [paidUntil, row.id]);
+                balance = toCents(balance - due);
+                charged = toCents(charged + due);
+            }
+            if (charged > 0) {
+                await connection.execute("UPDATE players SET bank_balance = bank_balance - ? WHERE id = ?", [charged, playerId]);
+            }
+            await connection.commit();
+        } catch (err) {
+            await connection.rollback();
+            throw err;
+        } finally {
+            connection.release();
+        }
+        console.log(`Payroll for player_id ${req.user.player_id}: charged ${charged}, ${departed.length} left unpaid`);
+        res.status(200).json({ status: "Success", charged, departed });
+    } catch (error) {
+        console.error("Payroll failed:", error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to run payroll",
+            details: error.message,
+        });
+    }
+});
+
+/**
+ * Reassign a staff member or change their shifts
+ * @route POST /api/staff/:staff_id/update
+ * @param {number} req.params.staff_id - Staff ID
+ * @param {Object} req.body - garage_id (null for none) and/or schedule
+ * @returns {Object} JSON response with the updated staff member, or error
+ */
+router.post("/staff/:staff_id(\\d+)/update", authenticateJWT, async (req, res) => {
+    const { staff_id } = req.params;
+    try {
+        const { garage_id, schedule } = req.body;
+        if (garage_id === undefined && schedule === undefined) {
+            return res.status(400).json({ status: "Error", message: "Nothing to update" });
+        }
+        if (schedule !== undefined && !isValidSchedule(schedule)) {
+            return res.status(400).json({ status: "Error", message: "Invalid schedule" });
+        }
+        const playerId = await playerTableId(req);
+        const [rows] = await pool.execute("SELECT id FROM staff WHERE id = ? AND player_id = ?", [staff_id, playerId]);
+        if (rows.length === 0) {
+            return res.status(404).json({ status: "Error", message: "Staff member not found" });
+        }
+        if (garage_id !== undefined && !(await ownsGarage(garage_id, playerId))) {
+            return res.status(404).json({ status: "Error", message: "Garage not found" });
+        }
+        if (garage_id !== undefined) {
+            await pool.execute("UPDATE staff SET garage_id = ? WHERE id = ?", [garage_id, staff_id]);
+        }
+        if (schedule !== undefined) {
+            await pool.execute("UPDATE staff SET schedule = ? WHERE id = ?", [JSON.stringify(schedule), staff_id]);
+        }
+        const [updated] = await pool.execute(`SELECT ${STAFF_COLUMNS} FROM staff s WHERE s.id = ?`, [staff_id]);
+        console.log(`Staff ${staff_id} updated`); // Success log
+        res.status(200).json({ status: "Success", staff: serializeStaff(updated[0]) });
+    } catch (error) {
+        console.error(`Staff update failed for ${staff_id}:`, error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to update staff",
+            details: error.message,
+        });
+    }
+});
+
+/**
+ * Add finished jobs to a staff member's count
+ * @route POST /api/staff/:staff_id/jobs
+ * @param {number} req.params.staff_id - Staff ID
+ * @param {Object} req.body - count, 1 to MAX_JOBS_PER_REPORT
+ * @returns {Object} JSON response with the new jobs_done, or error
+ * @note Reported by the client simulation as staff finish maintenance and cleaning jobs; the count sets the level. A
+ *       member past paid_until is not working, so their jobs are refused until payroll has paid them.
+ */
+router.post("/staff/:staff_id(\\d+)/jobs", authenticateJWT, async (req, res) => {
+    const { staff_id } = req.params;
+    try {
+        const { count } = req.body;
+        if (!Number.isInteger(count) || count < 1 || count > MAX_JOBS_PER_REPORT) {
+            return res.status(400).json({ status: "Error", message: `Invalid count, must be 1 to ${MAX_JOBS_PER_REPORT}` });
+        }
+        const playerId = await playerTableId(req);
+        const [[member]] = await pool.execute("SELECT paid_until > NOW() AS paid FROM staff WHERE id = ? AND player_id = ?", [
+            staff_id,
+            playerId,
+        ]);
+        if (!member) {
+            return res.status(404).json({ status: "Error", message: "Staff member not found" });
+        }
+        if (!member.paid) {
+            return res.status(409).json({ status: "Error", message: `Staff member ${staff_id} is owed salary; run payroll first` });
+        }
+        await pool.execute("UPDATE staff SET jobs_done = jobs_done + ? WHERE id = ? AND player_id = ?", [count, staff_id, playerId]);
+        const [[row]] = await pool.execute("SELECT jobs_done FROM staff WHERE id = ?", [staff_id]);
+        res.status(200).json({ status: "Success", staff_id: Number(staff_id), jobs_done: row.jobs_done });
+    } catch (error) {
+        console.error(`Staff job report failed for ${staff_id}:`, error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to record staff jobs",
+            details: error.message,
+        });
+    }
+});
+
+/**
+ * Let a staff member go
+ * @route POST /api/staff/:staff_id/fire
+ * @param {number} req.params.staff_id - Staff ID
+ * @returns {Object} JSON response with the staff ID, or error
+ * @note Salary already paid is not refunded.
+ */
+router.post("/staff/:staff_id(\\d+)/fire", authenticateJWT, async (req, res) => {
+    const { staff_id } = req.params;
+    try {
+        const playerId = await playerTableId(req);
+        const [result] = await pool.execute("DELETE FROM staff WHERE id = ? AND player_id = ?", [staff_id, playerId]);
+        if (result.affectedRows === 0) {
+            return res.status(404).json({ status: "Error", message: "Staff member not found" });
+        }
+        console.log(`Staff ${staff_id} let go`); // Success log
+        res.status(200).json({ status: "Success", staff_id: Number(staff_id) });
+    } catch (error) {
+        console.error(`Staff firing failed for ${staff_id}:`, error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to let staff go",
+            details: error.message,
+        });
+    }
+});
+
+module.exports = router;
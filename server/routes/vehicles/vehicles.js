@@ -2,15 +2,181 @@
  * @file server/routes/vehicles/vehicles.js
  * @description API routes for vehicle management in CyberTaxi
  * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
- * @version 0.3.4
+ * @version 0.6.7
  * @note Handles vehicle creation and retrieval for frontend mapping. Uses JWT for authentication.
+ * @detail Statuses follow the client lifecycle in src/domain/Vehicle.ts (plus legacy 'garage'). Live position/status/battery
+ *         deltas are served as Server-Sent Events (/vehicles/stream) and as a polling fallback (/vehicles/updates).
  * @see https://kdeangames.net/CyberTaxi/MockUp/Docs/GDD.html
  */
 const express = require("express");
 const router = express.Router();
 const pool = require("../../models/db");
-const { authenticateJWT } = require("../../middleware/authMiddleware");
+const { authenticateJWT, authenticateStream } = require("../../middleware/authMiddleware");
 const { getUserBalance } = require("../../utils/query-utils");
+const { usedVehiclePrice } = require("../../utils/pricing-utils");
+const { VEHICLE_CATALOG, findModel } = require("../../utils/catalog-utils");
+const { PERMIT_FEE, FREE_VEHICLE_CAP, licenseStatus, hasRoom, issuePermit } = require("../../utils/license-utils");
+const { maxWearGain, maxTireGain } = require("../../utils/wear-utils");
+
+// Vehicle lifecycle statuses; keep in sync with src/domain/Vehicle.ts and the vehicles.status ENUM
+const VEHICLE_STATUSES = [
+    "ordered",
+    "delivering",
+    "new",
+    "parked",
+    "active",
+    "fare",
+    "charging",
+    "maintenance",
+    "cleaning",
+    "sold",
+    "garage", // Legacy, read as parked by the client
+];
+
+// Allowed status changes; mirrors VEHICLE_TRANSITIONS in src/domain/Vehicle.ts ('garage' behaves as parked)
+const VEHICLE_TRANSITIONS = {
+    ordered: ["delivering"],
+    delivering: ["new"],
+    new: ["parked", "active", "sold"],
+    parked: ["active", "charging", "maintenance", "cleaning", "sold"],
+    garage: ["active", "charging", "maintenance", "cleaning", "sold"],
+    active: ["fare", "parked", "charging", "maintenance", "cleaning"],
+    fare: ["active"],
+    charging: ["parked", "active"],
+    maintenance: ["parked", "active"],
+    cleaning: ["parked", "active"],
+    sold: [],
+};
+// Delivery steps set by orders.js as an order moves along; POST /vehicles/:vehicle_id/status refuses them
+const ORDER_STATUSES = ["ordered", "delivering", "new"];
+const HISTORY_LIMIT = 100; // Events returned by /vehicles/:vehicle_id/history
+
+// Realtime delta settings
+const STREAM_INTERVAL_MS = 2000; // How often the stream checks for changed vehicles
+const STREAM_HEARTBEAT_MS = 15000; // Comment line that keeps proxies from closing idle streams
+const MAX_UPDATES = 500; // Rows per batch
+
+/**
+ * Parse the since cursor of a realtime request
+ * @param {string} [value] - ISO timestamp from the client
+ * @returns {Date} Parsed cursor, or now if missing or invalid, floored to the second like updated_at
+ */
+function parseSince(value) {
+    const since = value ? new Date(value) : new Date();
+    const time = Number.isNaN(since.getTime()) ? Date.now() : since.getTime();
+    return new Date(Math.floor(time / 1000) * 1000);
+}
+
+/**
+ * Key that tells a delta already sent from a new change to the same vehicle
+ * @param {Object} update - Serialized delta
+ * @returns {string} The whole delta, so a second change within the same second gets a new key
+ */
+function deltaKey(update) {
+    return JSON.stringify(update);
+}
+
+/**
+ * Fetch position/status/battery deltas for vehicles changed at or after a cursor
+ * @param {Date} since - Inclusive lower bound on updated_at, on a whole second
+ * @param {Set<string>} [seen] - deltaKey of the deltas already sent for the cursor's second
+ * @returns {Promise<{updates: Object[], cursor: Date, seen: Set<string>}>} Deltas not in seen, the next cursor and the
+ *          keys sent for its second
+ * @note updated_at has one-second precision, so a row can change in the cursor's second after the last fetch. The
+ *       cursor's second is fetched again in full (no LIMIT, so a busy second cannot stall the cursor) and what was
+ *       already sent is dropped by key; later seconds come MAX_UPDATES at a time.
+ */
+async function fetchVehicleUpdates(since, seen = new Set()) {
+    const columns = "id, status, battery, lat, lng, dest_lat, dest_lng, updated_at";
+    const [rows] = await pool.execute(
+        `(SELECT ${columns} FROM vehicles WHERE updated_at = ?)
+         UNION ALL
+         (SELECT ${columns} FROM vehicles WHERE updated_at > ? ORDER BY updated_at LIMIT ${MAX_UPDATES})
+         ORDER BY updated_at, id`,
+        [since, since]
+    );
+    const deltas = rows.map((row) => ({
+        id: row.id.toString(),
+        status: row.status,
+        battery: parseFloat(row.battery) || 0.0,
+        coords: row.lat !== null && row.lng !== null ? [parseFloat(row.lat), parseFloat(row.lng)] : null,
+        dest:
+            row.dest_lat !== null && row.dest_lng !== null
+                ? [parseFloat(row.dest_lat), parseFloat(row.dest_lng)]
+                : null,
+        updated_at: new Date(row.updated_at).toISOString(),
+    }));
+    const cursor = rows.length > 0 ? new Date(rows[rows.length - 1].updated_at) : since;
+    const updates = deltas.filter((update) => !seen.has(deltaKey(update)));
+    const sent = new Set(deltas.filter((update) => update.updated_at === cursor.toISOString()).map(deltaKey));
+    return { updates, cursor, seen: sent };
+}
+
+/**
+ * Fetch vehicle deltas since a cursor (polling fallback for the stream)
+ * @route GET /api/vehicles/updates
+ * @param {string} [req.query.since] - ISO timestamp of the last update seen (default: now)
+ * @returns {Object} JSON response with server_time (next cursor) and updates, or error
+ * @note Stateless: the deltas of the since second come back on every poll until a later one arrives, and the client
+ *       drops the ones it has already applied (RealtimeService).
+ */
+router.get("/vehicles/updates", authenticateJWT, async (req, res) => {
+    try {
+        const { updates, cursor } = await fetchVehicleUpdates(parseSince(req.query.since));
+        res.status(200).json({ status: "Success", server_time: cursor.toISOString(), updates });
+    } catch (error) {
+        console.error("Vehicle updates fetch failed:", error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to fetch vehicle updates",
+            details: error.message,
+        });
+    }
+});
+
+/**
+ * Stream vehicle deltas as Server-Sent Events
+ * @route GET /api/vehicles/stream
+ * @param {string} req.query.token - Access JWT (EventSource cannot set headers)
+ * @param {string} [req.query.since] - ISO timestamp to resume from (default: now)
+ * @returns {void} text/event-stream with "ready" and "vehicles" events ({ server_time, updates })
+ */
+router.get("/vehicles/stream", authenticateStream, (req, res) => {
+    let since = parseSince(req.query.since);
+    let seen = new Set();
+    let busy = false;
+    console.log(`Vehicle stream opened for player_id: ${req.user.player_id}`);
+    res.set({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+    });
+    res.flushHeaders();
+    const send = (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    send("ready", { server_time: since.toISOString() });
+    const poll = setInterval(async () => {
+        if (busy) return;
+        busy = true;
+        try {
+            const { updates, cursor, seen: sent } = await fetchVehicleUpdates(since, seen);
+            since = cursor;
+            seen = sent;
+            if (updates.length > 0) {
+                send("vehicles", { server_time: cursor.toISOString(), updates });
+            }
+        } catch (error) {
+            console.error("Vehicle stream query failed:", error.message);
+        } finally {
+            busy = false;
+        }
+    }, STREAM_INTERVAL_MS);
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), STREAM_HEARTBEAT_MS);
+    req.on("close", () => {
+        clearInterval(poll);
+        clearInterval(heartbeat);
+        console.log(`Vehicle stream closed for player_id: ${req.user.player_id}`);
+    });
+});
 
 /**
  * Fetch all vehicles except those of the authenticated player
@@ -95,7 +261,8 @@ router.get("/vehicles/others", authenticateJWT, async (req, res) => {
  * @route POST /api/vehicles
  * @param {Object} req.body - Vehicle data (player_id, type, cost, status, coords, wear, battery, mileage, dest)
  * @returns {Object} JSON response with vehicle ID or error
- * @note Combines purchase and creation logic, validates balance and input
+ * @note Combines purchase and creation logic, validates balance and input; type must be a vehicle catalog model.
+ *       Issues the vehicle's taxi permit, charged on top of cost; 409 once the free license's vehicle cap is reached.
  */
 router.post("/vehicles", authenticateJWT, async (req, res) => {
     try {
@@ -145,21 +312,19 @@ router.post("/vehicles", authenticateJWT, async (req, res) => {
             });
         }
         // Validate status
-        const validStatuses = ["active", "inactive"];
-        if (!validStatuses.includes(status)) {
+        if (!VEHICLE_STATUSES.includes(status)) {
             console.error(`Invalid status: ${status}`);
             return res.status(400).json({
                 status: "Error",
-                message: "Invalid status, must be active or inactive",
+                message: `Invalid status, must be one of: ${VEHICLE_STATUSES.join(", ")}`,
             });
         }
         // Validate type
-        const validTypes = ["Model Y", "Model X", "Model S", "Cybertruck"];
-        if (!validTypes.includes(type)) {
+        if (!findModel(type)) {
             console.error(`Invalid vehicle type: ${type}`);
             return res.status(400).json({
                 status: "Error",
-                message: "Invalid vehicle type, must be Model Y, Model X, Model S, or Cybertruck",
+                message: `Invalid vehicle type, must be one of: ${VEHICLE_CATALOG.map((model) => model.id).join(", ")}`,
             });
         }
         // Verify player exists and get players.id
@@ -179,9 +344,17 @@ router.post("/vehicles", authenticateJWT, async (req, res) => {
         }
         const playerTableId = playerRows[0].id;
         console.log(`Using playerTableId: ${playerTableId}`); // Debug log
-        // Check sufficient funds
+        // Check the license has room
+        if (!hasRoom(await licenseStatus(pool, playerTableId))) {
+            console.log(`Vehicle cap reached for player_id: ${player_id}`);
+            return res.status(409).json({
+                status: "Error",
+                message: `The free license covers ${FREE_VEHICLE_CAP} vehicles; get a Taxi License for more`,
+            });
+        }
+        // Check sufficient funds, permit included
         const balance = await getUserBalance(player_id);
-        if (balance < parseFloat(cost)) {
+        if (balance < parseFloat(cost) + PERMIT_FEE) {
             console.log(`Insufficient funds for player_id: ${player_id}, balance: ${balance}, cost: ${cost}`);
             return res
                 .status(400)
@@ -223,10 +396,11 @@ router.post("/vehicles", authenticateJWT, async (req, res) => {
             throw err;
         });
         console.log(`Vehicle insert took ${Date.now() - startQuery}ms, result: ${JSON.stringify(result)}`); // Debug log
+        await issuePermit(pool, playerTableId, vehicle_id, new Date());
         // Update player balance
         await pool.execute(
             "UPDATE players SET bank_balance = bank_balance - ? WHERE player_id = ?",
-            [parseFloat(cost), player_id]
+            [parseFloat(cost) + PERMIT_FEE, player_id]
         ).catch((err) => {
             console.error(`Balance update failed for player_id: ${player_id}:`, err.message);
             throw err;
@@ -302,16 +476,15 @@ router.get("/vehicles/:player_id(\\d+)", authenticateJWT, async (req, res) => {
         });
         // Fetch vehicles with optional status filter
         let query =
-            "SELECT id, player_id, type, status, wear, battery, mileage, tire_mileage, purchase_date, delivery_timestamp, cost, created_at, updated_at, lat, lng, dest_lat, dest_lng FROM vehicles WHERE player_id = ?";
+            "SELECT id, player_id, type, status, wear, battery, mileage, tire_mileage, purchase_date, delivery_timestamp, cost, earnings, created_at, updated_at, lat, lng, dest_lat, dest_lng FROM vehicles WHERE player_id = ?";
         const params = [playerTableId];
         if (status) {
             // Validate status
-            const validStatuses = ["active", "inactive"];
-            if (!validStatuses.includes(status)) {
+            if (!VEHICLE_STATUSES.includes(status)) {
                 console.error(`Invalid status filter: ${status}`);
                 return res.status(400).json({
                     status: "Error",
-                    message: "Invalid status, must be active or inactive",
+                    message: `Invalid status, must be one of: ${VEHICLE_STATUSES.join(", ")}`,
                 });
             }
             query += " AND status = ?";
@@ -338,6 +511,7 @@ router.get("/vehicles/:player_id(\\d+)", authenticateJWT, async (req, res) => {
             purchase_date: row.purchase_date,
             delivery_timestamp: row.delivery_timestamp,
             cost: parseFloat(row.cost) || 0.0,
+            earnings: parseFloat(row.earnings) || 0.0,
             created_at: row.created_at,
             updated_at: row.updated_at,
             coords:
@@ -397,7 +571,7 @@ router.get("/player/:username/vehicles", authenticateJWT, async (req, res) => {
             });
         }
         let query =
-            "SELECT id, player_id, type, status, wear, battery, mileage, tire_mileage, purchase_date, delivery_timestamp, cost, created_at, updated_at, lat, lng, dest_lat, dest_lng FROM vehicles WHERE player_id = ?";
+            "SELECT id, player_id, type, status, wear, battery, mileage, tire_mileage, purchase_date, delivery_timestamp, cost, earnings, created_at, updated_at, lat, lng, dest_lat, dest_lng FROM vehicles WHERE player_id = ?";
         const params = [playerTableId];
         if (status) {
             query += " AND status = ?";
@@ -424,6 +598,7 @@ router.get("/player/:username/vehicles", authenticateJWT, async (req, res) => {
             purchase_date: row.purchase_date,
             delivery_timestamp: row.delivery_timestamp,
             cost: parseFloat(row.cost) || 0.0,
+            earnings: parseFloat(row.earnings) || 0.0,
             created_at: row.created_at,
             updated_at: row.updated_at,
             coords:
@@ -447,4 +622,270 @@ router.get("/player/:username/vehicles", authenticateJWT, async (req, res) => {
     }
 });
 
+/**
+ * Resolve a vehicle owned by the authenticated player
+ * @param {string} vehicleId - Vehicle ID (e.g., CT-001)
+ * @param {number} playerId - players.player_id from the JWT
+ * @param {Object} [db=pool] - Pool, or a connection inside a transaction
+ * @param {boolean} [lock=false] - Lock the vehicle row (SELECT ... FOR UPDATE) until the transaction ends
+ * @returns {Promise<Object|null>} Vehicle row, or null if missing or owned by someone else
+ */
+async function findOwnedVehicle(vehicleId, playerId, db = pool, lock = false) {
+    const [rows] = await db.execute(
+        `SELECT v.id, v.type, v.status, v.wear, v.mileage, v.tire_mileage, v.cost, v.lat, v.lng
+         FROM vehicles v JOIN players p ON v.player_id = p.id
+         WHERE v.id = ? AND p.player_id = ?${lock ? " FOR UPDATE" : ""}`,
+        [vehicleId, playerId]
+    );
+    return rows[0] || null;
+}
+
+/**
+ * Change the status of one of the player's vehicles
+ * @route POST /api/vehicles/:vehicle_id/status
+ * @param {string} req.params.vehicle_id - Vehicle ID (e.g., CT-001)
+ * @param {string} req.body.status - Requested status
+ * @returns {Object} JSON response with the new status (and sale_price when sold) or error
+ * @note Rejects the delivery steps (ORDER_STATUSES, driven by orders.js) with 400 and transitions the lifecycle does
+ *       not allow with 409; selling credits the used-market price
+ *       (usedVehiclePrice: cost minus 10% minus the stored wear percentage), so a vehicle serviced first sells for more.
+ *       The client saves simulated wear through POST /api/vehicles/:vehicle_id/wear before selling. The vehicle row is
+ *       read and locked inside the transaction, so two requests selling the same vehicle credit it once.
+ */
+router.post("/vehicles/:vehicle_id/status", authenticateJWT, async (req, res) => {
+    const { vehicle_id } = req.params;
+    const { status } = req.body;
+    try {
+        if (!VEHICLE_STATUSES.includes(status) || status === "garage" || ORDER_STATUSES.includes(status)) {
+            return res.status(400).json({
+                status: "Error",
+                message: `Invalid status, must be one of: ${VEHICLE_STATUSES.filter((s) => s !== "garage" && !ORDER_STATUSES.includes(s)).join(", ")}`,
+            });
+        }
+        const connection = await pool.getConnection();
+        let vehicle;
+        let salePrice = null;
+        try {
+            await connection.beginTransaction();
+            vehicle = await findOwnedVehicle(vehicle_id, req.user.player_id, connection, true);
+            if (!vehicle) {
+                await connection.rollback();
+                console.log(`Vehicle ${vehicle_id} not found for player_id: ${req.user.player_id}`);
+                return res.status(404).json({ status: "Error", message: "Vehicle not found" });
+            }
+            if (!VEHICLE_TRANSITIONS[vehicle.status]?.includes(status)) {
+                await connection.rollback();
+                return res.status(409).json({
+                    status: "Error",
+                    message: `Vehicle ${vehicle_id} cannot go from ${vehicle.status} to ${status}`,
+                });
+            }
+            // Only moving vehicles keep a destination
+            const clearDest = status !== "active" && status !== "fare" ? ", dest_lat = NULL, dest_lng = NULL" : "";
+            await connection.execute(
+                `UPDATE vehicles SET status = ?${clearDest}, updated_at = NOW() WHERE id = ?`,
+                [status, vehicle_id]
+            );
+            await connection.execute(
+                "INSERT INTO vehicle_events (vehicle_id, from_status, to_status, lat, lng) VALUES (?, ?, ?, ?, ?)",
+                [vehicle_id, vehicle.status, status, vehicle.lat, vehicle.lng]
+            );
+            if (status === "sold") {
+                salePrice = usedVehiclePrice(parseFloat(vehicle.cost), parseFloat(vehicle.wear) || 0);
+                await connection.execute(
+                    "UPDATE players SET bank_balance = bank_balance + ? WHERE player_id = ?",
+                    [salePrice, req.user.player_id]
+                );
+            }
+            await connection.commit();
+        } catch (err) {
+            await connection.rollback();
+            throw err;
+        } finally {
+            connection.release();
+        }
+        console.log(`Vehicle ${vehicle_id}: ${vehicle.status} -> ${status}`);
+        res.status(200).json({
+            status: "Success",
+            vehicle_id,
+            vehicle_status: status,
+            ...(salePrice !== null && { sale_price: salePrice }),
+        });
+    } catch (error) {
+        console.error(`Vehicle status update failed for ${vehicle_id}:`, error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to update vehicle status",
+            details: error.message,
+        });
+    }
+});
+
+/**
+ * Save the simulated wear of one of the player's vehicles
+ * @route POST /api/vehicles/:vehicle_id/wear
+ * @param {string} req.params.vehicle_id - Vehicle ID (e.g., CT-001)
+ * @param {number} req.body.wear - Wear percentage (0-100)
+ * @param {number} req.body.mileage - Odometer in miles
+ * @param {number} req.body.tire_mileage - Miles on the current tires
+ * @returns {Object} JSON response with the stored wear, mileage and tire_mileage, or error
+ * @note The odometer may not go back (409). Wear and tire miles only go up, by at most what the new miles could cause
+ *       (wear-utils.js); a lower value keeps the stored one, since only server-side maintenance clears wear.
+ */
+router.post("/vehicles/:vehicle_id/wear", authenticateJWT, async (req, res) => {
+    const { vehicle_id } = req.params;
+    const { wear, mileage, tire_mileage } = req.body;
+    try {
+        if (typeof wear !== "number" || wear < 0 || wear > 100) {
+            return res.status(400).json({ status: "Error", message: "Invalid wear, must be a number from 0 to 100" });
+        }
+        if (typeof mileage !== "number" || mileage < 0 || typeof tire_mileage !== "number" || tire_mileage < 0) {
+            return res.status(400).json({ status: "Error", message: "Invalid mileage or tire_mileage, must be non-negative numbers" });
+        }
+        const vehicle = await findOwnedVehicle(vehicle_id, req.user.player_id);
+        if (!vehicle || vehicle.status === "sold") {
+            return res.status(404).json({ status: "Error", message: "Vehicle not found" });
+        }
+        const stored = {
+            wear: parseFloat(vehicle.wear) || 0,
+            mileage: parseFloat(vehicle.mileage) || 0,
+            tire_mileage: parseFloat(vehicle.tire_mileage) || 0,
+        };
+        if (mileage < stored.mileage) {
+            return res.status(409).json({
+                status: "Error",
+                message: `Mileage of ${vehicle_id} cannot go back from ${stored.mileage} to ${mileage}`,
+            });
+        }
+        const miles = mileage - stored.mileage;
+        const wearFactor = findModel(vehicle.type)?.wear_factor ?? 1;
+        if (wear - stored.wear > maxWearGain(miles, wearFactor) || tire_mileage - stored.tire_mileage > maxTireGain(miles)) {
+            return res.status(409).json({
+                status: "Error",
+                message: `Wear of ${vehicle_id} cannot rise that much over ${miles.toFixed(1)} miles`,
+            });
+        }
+        const saved = {
+            wear: Math.max(stored.wear, wear),
+            mileage,
+            tire_mileage: Math.max(stored.tire_mileage, tire_mileage),
+        };
+        await pool.execute(
+            "UPDATE vehicles SET wear = ?, mileage = ?, tire_mileage = ?, updated_at = NOW() WHERE id = ?",
+            [saved.wear, saved.mileage, saved.tire_mileage, vehicle_id]
+        );
+        res.status(200).json({ status: "Success", vehicle_id, ...saved });
+    } catch (error) {
+        console.error(`Vehicle wear update failed for ${vehicle_id}:`, error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to save vehicle wear",
+            details: error.message,
+        });
+    }
+});
+
+/**
+ * Check a [lat, lng] pair from a request body
+ * @param {*} value - Candidate coordinates
+ * @returns {boolean} True for two in-range numbers
+ */
+function isLatLng(value) {
+    return (
+        Array.isArray(value) &&
+        value.length === 2 &&
+        typeof value[0] === "number" &&
+        typeof value[1] === "number" &&
+        Math.abs(value[0]) <= 90 &&
+        Math.abs(value[1]) <= 180
+    );
+}
+
+/**
+ * Send one of the player's vehicles to a destination, activating it if needed
+ * @route POST /api/vehicles/:vehicle_id/dispatch
+ * @param {string} req.params.vehicle_id - Vehicle ID (e.g., CT-001)
+ * @param {number[]} req.body.dest - [lat, lng] destination
+ * @returns {Object} JSON response with the vehicle's status and dest, or error
+ * @note Allowed from active (new dest) and from any status that may transition to active; fares cannot be redirected
+ */
+router.post("/vehicles/:vehicle_id/dispatch", authenticateJWT, async (req, res) => {
+    const { vehicle_id } = req.params;
+    const { dest } = req.body;
+    try {
+        if (!isLatLng(dest)) {
+            return res.status(400).json({
+                status: "Error",
+                message: "Invalid dest format, must be [lat, lng]",
+            });
+        }
+        const vehicle = await findOwnedVehicle(vehicle_id, req.user.player_id);
+        if (!vehicle) {
+            return res.status(404).json({ status: "Error", message: "Vehicle not found" });
+        }
+        const canDispatch =
+            vehicle.status === "active" || (vehicle.status !== "fare" && VEHICLE_TRANSITIONS[vehicle.status]?.includes("active"));
+        if (!canDispatch) {
+            return res.status(409).json({
+                status: "Error",
+                message: `Vehicle ${vehicle_id} cannot be dispatched while ${vehicle.status}`,
+            });
+        }
+        await pool.execute(
+            "UPDATE vehicles SET status = 'active', dest_lat = ?, dest_lng = ?, updated_at = NOW() WHERE id = ?",
+            [dest[0], dest[1], vehicle_id]
+        );
+        if (vehicle.status !== "active") {
+            await pool.execute(
+                "INSERT INTO vehicle_events (vehicle_id, from_status, to_status, lat, lng) VALUES (?, ?, 'active', ?, ?)",
+                [vehicle_id, vehicle.status, vehicle.lat, vehicle.lng]
+            );
+        }
+        console.log(`Vehicle ${vehicle_id} dispatched to ${dest.join(", ")}`);
+        res.status(200).json({ status: "Success", vehicle_id, vehicle_status: "active", dest });
+    } catch (error) {
+        console.error(`Vehicle dispatch failed for ${vehicle_id}:`, error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to dispatch vehicle",
+            details: error.message,
+        });
+    }
+});
+
+/**
+ * Fetch the status history of one of the player's vehicles, newest first
+ * @route GET /api/vehicles/:vehicle_id/history
+ * @param {string} req.params.vehicle_id - Vehicle ID (e.g., CT-001)
+ * @returns {Object} JSON response with events ({ from_status, to_status, coords, created_at }) or error
+ */
+router.get("/vehicles/:vehicle_id/history", authenticateJWT, async (req, res) => {
+    const { vehicle_id } = req.params;
+    try {
+        const vehicle = await findOwnedVehicle(vehicle_id, req.user.player_id);
+        if (!vehicle) {
+            return res.status(404).json({ status: "Error", message: "Vehicle not found" });
+        }
+        const [rows] = await pool.execute(
+            `SELECT from_status, to_status, lat, lng, created_at FROM vehicle_events
+             WHERE vehicle_id = ? ORDER BY created_at DESC, id DESC LIMIT ${HISTORY_LIMIT}`,
+            [vehicle_id]
+        );
+        const events = rows.map((row) => ({
+            from_status: row.from_status,
+            to_status: row.to_status,
+            coords: row.lat !== null && row.lng !== null ? [parseFloat(row.lat), parseFloat(row.lng)] : null,
+            created_at: new Date(row.created_at).toISOString(),
+        }));
+        res.status(200).json({ status: "Success", events });
+    } catch (error) {
+        console.error(`Vehicle history fetch failed for ${vehicle_id}:`, error.message);
+        res.status(500).json({
+            status: "Error",
+            message: "Failed to fetch vehicle history",
+            details: error.message,
+        });
+    }
+});
+
 module.exports = router;
\ No newline at end of file
@@ -0,0 +1,47 @@
+/**
+ * @file catalog-utils.js
+ * @description Vehicle catalog lookups for CyberTaxi
+ * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
+ * @version 0.1.0
+ * @note Loads server/data/vehicle-catalog.json once at startup. It is the single source of models, prices and specs:
+ *       orders, the used market and vehicle creation validate against it, and GET /api/catalog/vehicles serves it to
+ *       the client (src/domain/VehicleCatalog.ts). Adding a model only takes a new entry there.
+ * @detail availability is "available" (orderable new), "coming_soon" (shown, not orderable) or "discontinued" (no
+ *         longer sold new, still traded used).
+ */
+const VEHICLE_CATALOG = require("../data/vehicle-catalog.json");
+
+const AVAILABILITIES = ["available", "coming_soon", "discontinued"];
+
+VEHICLE_CATALOG.forEach((model) => {
+    if (!model.id || !(model.price > 0) || !AVAILABILITIES.includes(model.availability)) {
+        throw new Error(`Invalid vehicle catalog entry: ${JSON.stringify(model)}`);
+    }
+});
+
+/**
+ * Find a model by id (the type stored on vehicles)
+ * @param {string} id - Model id, e.g. "Model Y"
+ * @returns {Object|null} Catalog entry, or null if unknown
+ */
+function findModel(id) {
+    return VEHICLE_CATALOG.find((model) => model.id === id) ?? null;
+}
+
+/**
+ * Models the service center sells new
+ * @returns {Object[]} Catalog entries with availability "available"
+ */
+function orderableModels() {
+    return VEHICLE_CATALOG.filter((model) => model.availability === "available");
+}
+
+/**
+ * Models that turn up on the used market
+ * @returns {Object[]} Catalog entries already on the road (available or discontinued)
+ */
+function usedModels() {
+    return VEHICLE_CATALOG.filter((model) => model.availability !== "coming_soon");
+}
+
+module.exports = { VEHICLE_CATALOG, AVAILABILITIES, findModel, orderableModels, usedModels };
@@ -0,0 +1,99 @@
+/**
+ * @file ledger-utils.js
+ * @description Shared money rules for what the CyberTaxi fare simulation earns and spends
+ * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
+ * @version 0.1.2
+ * @note Mirrors DEFAULT_FARE_CONFIG and computeFare in src/simulation/FareEngine.ts, the charger and site prices in
+ *       src/simulation/Charging.ts and src/domain/ChargingSites.ts, the MAINTENANCE cost ranges in src/simulation/Wear.ts
+ *       and MECHANIC_SAVING in src/domain/Staff.ts; change both together.
+ * @detail The client reports what happened (a ride of so many miles, a charge of so many kWh); the server prices it
+ *         here, so a report cannot name its own amount. A maintenance job's cost is drawn by the client when the job
+ *         starts, so the server only accepts one inside the job's range. MAX_FARE_MILES and MAX_FARE_MILES_PER_HOUR bound what one
+ *         vehicle may report.
+ */
+
+const FARE = {
+    baseFare: 4.2, // Flag fall, dollars
+    perMile: 0.69, // Dollars per trip mile
+    teslaShare: 0.3, // Fraction of the gross kept by Tesla
+    scorePerRide: 10,
+};
+const MAX_FARE_MILES = 60; // Longest trip across the dispatch zones, with room for detours
+const TIME_SCALE = 5; // Simulated seconds per real second (src/simulation/useFareSimulation.ts)
+const MAX_FARE_MILES_PER_HOUR = 90 * TIME_SCALE; // Real hour at 90 mph of simulated driving
+const CHARGER_PRICE_PER_KWH = { home: 0.12, v2: 0.25, v3: 0.35, v4: 0.5 }; // Garage charger and SuperCharger defaults
+const SITE_PRICE_PER_KWH = {
+    "SC-DOMAIN": 0.38,
+    "SC-ANDERSON": 0.28,
+    "SC-MUELLER": 0.36,
+    "SC-BARTON": 0.4,
+    "SC-SOUTHPARK": 0.25,
+    "SC-GIGA": 0.48,
+};
+const MAINTENANCE_COST_RANGES = {
+    service: [400, 600],
+    tires: [800, 1200],
+    battery: [10000, 20000],
+};
+const MECHANIC_SAVING = 0.5; // Share of the cost an in-house mechanic saves
+
+/** Rounds to cents. */
+const toCents = (value) => Math.round(value * 100) / 100;
+
+/**
+ * Net fare of a ride, per the GDD: $4.20 + $0.69/mile, less the Tesla share
+ * @param {number} miles - Road trip length
+ * @returns {{ gross: number, teslaCut: number, net: number, score: number }} Dollars and the score it earns
+ */
+function computeFare(miles) {
+    const gross = toCents(FARE.baseFare + FARE.perMile * miles);
+    const teslaCut = toCents(gross * FARE.teslaShare);
+    return { gross, teslaCut, net: toCents(gross - teslaCut), score: FARE.scorePerRide };
+}
+
+/**
+ * Price per kWh of a charge
+ * @param {string} charger - "home" for the garage charger, or the SuperCharger type
+ * @param {string|null} siteId - SuperCharger site, or null when the vehicle charged where it stood
+ * @returns {number|null} Dollars per kWh, or null for an unknown charger or site
+ * @note A site charges its own price; without a site the charger's default applies.
+ */
+function chargePricePerKwh(charger, siteId) {
+    if (!Object.hasOwn(CHARGER_PRICE_PER_KWH, charger)) {
+        return null;
+    }
+    if (siteId === null) {
+        return CHARGER_PRICE_PER_KWH[charger];
+    }
+    return charger !== "home" && Object.hasOwn(SITE_PRICE_PER_KWH, siteId) ? SITE_PRICE_PER_KWH[siteId] : null;
+}
+
+/**
+ * Cost range of a maintenance job
+ * @param {string[]} kinds - MAINTENANCE_COST_RANGES keys, each once
+ * @param {boolean} byMechanic - Done by one of the player's mechanics rather than a service center
+ * @returns {number[]|null} [min, max] dollars, or null for an unknown or repeated kind
+ */
+function maintenanceCostRange(kinds, byMechanic) {
+    if (kinds.length === 0 || new Set(kinds).size !== kinds.length || !kinds.every((kind) => Object.hasOwn(MAINTENANCE_COST_RANGES, kind))) {
+        return null;
+    }
+    const share = byMechanic ? 1 - MECHANIC_SAVING : 1;
+    const min = kinds.reduce((sum, kind) => sum + MAINTENANCE_COST_RANGES[kind][0], 0);
+    const max = kinds.reduce((sum, kind) => sum + MAINTENANCE_COST_RANGES[kind][1], 0);
+    return [toCents(min * share), toCents(max * share)];
+}
+
+module.exports = {
+    FARE,
+    MAX_FARE_MILES,
+    MAX_FARE_MILES_PER_HOUR,
+    CHARGER_PRICE_PER_KWH,
+    SITE_PRICE_PER_KWH,
+    MAINTENANCE_COST_RANGES,
+    MECHANIC_SAVING,
+    toCents,
+    computeFare,
+    chargePricePerKwh,
+    maintenanceCostRange,
+};
@@ -0,0 +1,71 @@
+/**
+ * @file license-utils.js
+ * @description Austin operating license rules for CyberTaxi: the player's license tier, its vehicle cap and per-vehicle taxi permits
+ * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
+ * @version 0.1.0
+ * @note Rules from the GDD ("License System"): every vehicle needs a permit at PERMIT_FEE a year; the free license covers
+ *       at most FREE_VEHICLE_CAP vehicles, the subscriber "Taxi License" any number. Mirrors src/domain/Licensing.ts;
+ *       change both together.
+ * @detail Permits are issued (and paid) with every vehicle bought: POST /orders, POST /market/used/:listing_id/buy and
+ *         POST /vehicles. A permit bought with an order starts on its delivery date. Renewing adds PERMIT_TERM_DAYS to
+ *         the later of now and the current expiry.
+ */
+
+const PERMIT_FEE = 1000; // Dollars per vehicle per year
+const PERMIT_TERM_DAYS = 365;
+const FREE_VEHICLE_CAP = 10; // Vehicles the free City of Austin license covers
+const LICENSE_TIERS = ["free", "taxi_license"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Vehicles a license tier allows
+ * @param {string} tier - One of LICENSE_TIERS
+ * @returns {number|null} The cap, or null for unlimited
+ */
+function vehicleCap(tier) {
+    return tier === "taxi_license" ? null : FREE_VEHICLE_CAP;
+}
+
+/**
+ * A player's license tier and how many vehicles count against it
+ * @param {Object} db - Pool or connection
+ * @param {number} playerTableId - players.id
+ * @returns {Promise<{tier: string, vehicle_cap: number|null, vehicles: number}>} Tier, cap and vehicles not sold
+ *          (ordered ones included)
+ */
+async function licenseStatus(db, playerTableId) {
+    const [[row]] = await db.execute(
+        "SELECT license_tier, (SELECT COUNT(*) FROM vehicles WHERE player_id = ? AND status != 'sold') AS vehicles FROM players WHERE id = ?",
+        [playerTableId, playerTableId]
+    );
+    const tier = row && LICENSE_TIERS.includes(row.license_tier) ? row.license_tier : "free";
+    return { tier, vehicle_cap: vehicleCap(tier), vehicles: row ? parseInt(row.vehicles) : 0 };
+}
+
+/**
+ * Whether a license has room for one more vehicle
+ * @param {{vehicle_cap: number|null, vehicles: number}} status - From licenseStatus
+ * @returns {boolean} True when the tier is unlimited or under its cap
+ */
+function hasRoom(status) {
+    return status.vehicle_cap === null || status.vehicles < status.vehicle_cap;
+}
+
+/**
+ * Issue a vehicle's first permit; the caller charges PERMIT_FEE in the same transaction
+ * @param {Object} db - Connection inside the purchase's transaction, or the pool
+ * @param {number} playerTableId - players.id
+ * @param {string} vehicleId - Vehicle the permit covers
+ * @param {Date} startsAt - When the permit year begins (now, or an order's delivery)
+ * @returns {Promise<Date>} Expiry
+ */
+async function issuePermit(db, playerTableId, vehicleId, startsAt) {
+    const expiresAt = new Date(startsAt.getTime() + PERMIT_TERM_DAYS * DAY_MS);
+    await db.execute(
+        "INSERT INTO vehicle_permits (vehicle_id, player_id, fee, issued_at, expires_at) VALUES (?, ?, ?, NOW(), ?)",
+        [vehicleId, playerTableId, PERMIT_FEE, expiresAt]
+    );
+    return expiresAt;
+}
+
+module.exports = { PERMIT_FEE, PERMIT_TERM_DAYS, FREE_VEHICLE_CAP, LICENSE_TIERS, DAY_MS, vehicleCap, licenseStatus, hasRoom, issuePermit };
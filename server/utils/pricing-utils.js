@@ -0,0 +1,23 @@
+/**
+ * @file pricing-utils.js
+ * @description Shared price rules for CyberTaxi vehicle sales
+ * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
+ * @version 0.1.0
+ * @note Mirrors src/domain/UsedMarket.ts (USED_DISCOUNT, SCRAP_RATE, usedPrice); change both together.
+ */
+
+const USED_DISCOUNT = 0.1; // A used vehicle is worth 10% less than new before wear
+const SCRAP_RATE = 0.05; // Floor: share of the purchase price a worn-out vehicle still fetches
+
+/**
+ * Used-market value of a vehicle, per the GDD: purchase price minus 10% minus the wear percentage
+ * @param {number} cost - Purchase price in dollars
+ * @param {number} wear - Wear percentage, clamped to 0-100
+ * @returns {number} Whole dollars, never below cost * SCRAP_RATE
+ */
+function usedVehiclePrice(cost, wear) {
+    const clampedWear = Math.min(Math.max(Number(wear) || 0, 0), 100);
+    return Math.round(cost * Math.max(SCRAP_RATE, 1 - USED_DISCOUNT - clampedWear / 100));
+}
+
+module.exports = { USED_DISCOUNT, SCRAP_RATE, usedVehiclePrice };
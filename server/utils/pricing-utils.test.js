@@ -0,0 +1,57 @@
+/**
+ * @file pricing-utils.test.js
+ * @description Unit tests for the CyberTaxi used vehicle price rule
+ * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
+ * @version 0.1.1
+ * @note Runs with node:test (npm test in server/); no database needed. The same cases hold for src/domain/UsedMarket.ts.
+ */
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { SCRAP_RATE, USED_DISCOUNT, usedVehiclePrice } = require("./pricing-utils");
+const { MAINTENANCE_COST_RANGES, MECHANIC_SAVING } = require("./ledger-utils");
+const { SERVICE_WEAR_KEPT, wearAfterService } = require("./wear-utils");
+
+test("a new vehicle sells for the price less the used discount", () => {
+    assert.equal(usedVehiclePrice(50000, 0), 50000 * (1 - USED_DISCOUNT));
+});
+
+test("each percent of wear takes a percent of the price", () => {
+    assert.equal(usedVehiclePrice(50000, 25), 32500);
+    assert.equal(usedVehiclePrice(41990, 12.5), 32542);
+});
+
+test("a worn-out vehicle still fetches the scrap rate", () => {
+    assert.equal(usedVehiclePrice(50000, 90), 50000 * SCRAP_RATE);
+    assert.equal(usedVehiclePrice(50000, 100), 50000 * SCRAP_RATE);
+});
+
+test("wear outside 0-100 is clamped and missing wear counts as none", () => {
+    assert.equal(usedVehiclePrice(50000, -10), usedVehiclePrice(50000, 0));
+    assert.equal(usedVehiclePrice(50000, 250), usedVehiclePrice(50000, 100));
+    assert.equal(usedVehiclePrice(50000, undefined), usedVehiclePrice(50000, 0));
+    assert.equal(usedVehiclePrice(50000, "20"), usedVehiclePrice(50000, 20));
+});
+
+test("buying a used vehicle, servicing it and selling it loses money", () => {
+    const cheapestService = MAINTENANCE_COST_RANGES.service[0] * (1 - MECHANIC_SAVING);
+    for (const modelPrice of [41990, 79990, 99990]) {
+        for (let wear = 0; wear <= 100; wear += 5) {
+            const paid = usedVehiclePrice(modelPrice, wear); // Stored as the vehicle's cost
+            const sale = usedVehiclePrice(paid, wearAfterService(wear));
+            assert.ok(sale - cheapestService < paid, `model ${modelPrice} at ${wear}% wear: paid ${paid}, sold for ${sale}`);
+        }
+    }
+});
+
+test("a service restores at most three quarters of the wear's share of the price", () => {
+    assert.equal(wearAfterService(60), 15);
+    assert.equal(wearAfterService(0), 0);
+    for (let wear = 0; wear <= 100; wear += 5) {
+        const gain = usedVehiclePrice(50000, wearAfterService(wear)) - usedVehiclePrice(50000, wear);
+        assert.ok(gain <= 50000 * (wear / 100) * (1 - SERVICE_WEAR_KEPT), `${wear}% wear: service adds ${gain}`);
+    }
+});
+
+test("prices are whole dollars", () => {
+    assert.ok(Number.isInteger(usedVehiclePrice(41990, 33.3)));
+});
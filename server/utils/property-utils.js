@@ -0,0 +1,95 @@
+/**
+ * @file property-utils.js
+ * @description Garage and lot listings and their prices for CyberTaxi
+ * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
+ * @version 0.1.2
+ * @note Mirrors PROPERTY_LISTINGS, LEASE_TERMS, PURCHASE_MONTHS, PROPERTY_RESALE_RATE and monthlyRent in
+ *       src/domain/Properties.ts and the zone centers in src/domain/Zones.ts; change both together.
+ * @detail The client names a listing; the server prices it here and takes its slots, type and coords from it, so a
+ *         request cannot set its own rent or capacity. A lease past lease_ends_at stops counting (HELD_PROPERTY_SQL)
+ *         until GET /api/garages renews it.
+ */
+
+const { toCents } = require("./ledger-utils");
+
+const LEASE_TERMS = {
+    monthly: { months: 1, discount: 0 },
+    quarterly: { months: 3, discount: 0.05 },
+    yearly: { months: 12, discount: 0.1 },
+};
+const PURCHASE_MONTHS = 100; // Purchase price in months of rent
+const RESALE_RATE = 0.9; // Share of the purchase price refunded on sale
+const SLOT_RATE = { garage: 260, lot: 120 }; // Dollars per slot per month
+const SPACE_RATE = 40; // Per staff/visitor space
+const CHARGER_RATE = 30; // Per Home Wall Connector
+const DEMAND_FLOOR = 0.7;
+const DEMAND_SPAN = 0.8;
+const DEMAND_FALLOFF_KM = 2; // Demand falls to 37% this far from a zone center
+const HELD_PROPERTY_SQL = "(tenure = 'own' OR lease_ends_at > NOW())"; // Owned, or leased and paid up: still holds its slots and listing
+const ZONE_CENTERS = [
+    [30.2672, -97.7431], // Downtown
+    [30.2849, -97.7341], // University
+    [30.2497, -97.7494], // South Congress
+    [30.4021, -97.7253], // The Domain
+    [30.1975, -97.6664], // Airport
+];
+
+const PROPERTY_LISTINGS = [
+    { id: "P-CONGRESS", name: "Congress Avenue Garage", coords: [30.2682, -97.7427], type: "garage", slots: 5, parkingSpaces: 4, chargers: 5 },
+    { id: "P-RAINEY", name: "Rainey Street Lot", coords: [30.2586, -97.7387], type: "lot", slots: 12, parkingSpaces: 6, chargers: 0 },
+    { id: "P-DRAG", name: "The Drag Garage", coords: [30.2866, -97.7421], type: "garage", slots: 4, parkingSpaces: 2, chargers: 4 },
+    { id: "P-SOCO", name: "South Congress Garage", coords: [30.2494, -97.7497], type: "garage", slots: 6, parkingSpaces: 4, chargers: 4 },
+    { id: "P-EAST6", name: "East Sixth Lot", coords: [30.2627, -97.7227], type: "lot", slots: 15, parkingSpaces: 5, chargers: 2 },
+    { id: "P-MUELLER", name: "Mueller Depot", coords: [30.2985, -97.7068], type: "garage", slots: 10, parkingSpaces: 8, chargers: 10 },
+    { id: "P-DOMAIN", name: "Domain Parking Deck", coords: [30.4036, -97.7223], type: "garage", slots: 8, parkingSpaces: 6, chargers: 8 },
+    { id: "P-LAMAR", name: "North Lamar Lot", coords: [30.3521, -97.7131], type: "lot", slots: 20, parkingSpaces: 6, chargers: 0 },
+    { id: "P-AIRPORT", name: "Airport Boulevard Lot", coords: [30.2041, -97.6712], type: "lot", slots: 24, parkingSpaces: 8, chargers: 4 },
+    { id: "P-SOUTHPARK", name: "Slaughter Lane Garage", coords: [30.1652, -97.7872], type: "garage", slots: 8, parkingSpaces: 4, chargers: 6 },
+];
+
+/**
+ * Great-circle distance between two points
+ * @param {number[]} a - [lat, lng]
+ * @param {number[]} b - [lat, lng]
+ * @returns {number} Kilometres
+ */
+function distanceKm(a, b) {
+    const toRad = Math.PI / 180;
+    const dLat = (b[0] - a[0]) * toRad;
+    const dLng = (b[1] - a[1]) * toRad;
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(a[0] * toRad) * Math.cos(b[0] * toRad) * Math.sin(dLng / 2) ** 2;
+    return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Look up a listing
+ * @param {string} id - Listing id, e.g. "P-CONGRESS"
+ * @returns {Object|null} Listing, or null if unknown
+ */
+function findListing(id) {
+    return PROPERTY_LISTINGS.find((listing) => listing.id === id) ?? null;
+}
+
+/**
+ * Monthly rent of a listing before any term discount
+ * @param {Object} listing - From PROPERTY_LISTINGS
+ * @returns {number} Dollars, rounded to $10
+ */
+function monthlyRent(listing) {
+    const demand = ZONE_CENTERS.reduce((best, center) => Math.max(best, Math.exp(-distanceKm(listing.coords, center) / DEMAND_FALLOFF_KM)), 0);
+    const base = listing.slots * SLOT_RATE[listing.type] + listing.parkingSpaces * SPACE_RATE + listing.chargers * CHARGER_RATE;
+    return Math.round((base * (DEMAND_FLOOR + DEMAND_SPAN * demand)) / 10) * 10;
+}
+
+/**
+ * Up-front cost of one lease term
+ * @param {number} monthly - Monthly rent
+ * @param {string} term - LEASE_TERMS key
+ * @returns {number} Dollars for the whole term, discounted
+ */
+function leaseCost(monthly, term) {
+    const { months, discount } = LEASE_TERMS[term];
+    return toCents(monthly * months * (1 - discount));
+}
+
+module.exports = { LEASE_TERMS, PURCHASE_MONTHS, RESALE_RATE, HELD_PROPERTY_SQL, PROPERTY_LISTINGS, toCents, findListing, monthlyRent, leaseCost };
@@ -0,0 +1,25 @@
+/**
+ * @file random-utils.js
+ * @description Seedable random numbers for CyberTaxi's shared, reproducible server state
+ * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
+ * @version 0.1.0
+ * @note Used where every player must see the same draw (service center stock, used vehicle inventory).
+ */
+
+/**
+ * Seedable mulberry32 generator, as src/simulation/random.ts
+ * @param {number} seed - Seed
+ * @returns {function(): number} Generator of [0, 1) values
+ */
+function createRandom(seed) {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+module.exports = { createRandom };
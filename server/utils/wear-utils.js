@@ -0,0 +1,49 @@
+/**
+ * @file wear-utils.js
+ * @description Shared wear rules for CyberTaxi vehicles
+ * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
+ * @version 0.1.2
+ * @note Mirrors src/simulation/Wear.ts (WEAR_PER_MILE, ROTATION_PENALTY, SERVICE_WEAR_KEPT and the condition
+ *       multipliers); change both together.
+ * @detail The client simulates wear and saves it through POST /api/vehicles/:vehicle_id/wear. The server only lets it
+ *         go up by what the miles driven since the last save could cause in the worst conditions, so a save cannot
+ *         lower wear (a repair does that server-side) or invent it.
+ */
+
+const WEAR_PER_MILE = 0.01; // Percentage points per mile in calm conditions
+const ROTATION_PENALTY = 0.25; // Extra tire miles while a rotation is overdue
+const MAX_CONDITIONS_MULTIPLIER = 1.5 * 1.1 * 1.2; // Full congestion, rain and a protest at once
+const WEAR_TOLERANCE = 0.5; // Percentage points of rounding slack between client and server
+const SERVICE_WEAR_KEPT = 0.25; // Share of the wear a service leaves: what the miles have done for good
+
+/**
+ * Most wear a vehicle can pick up over a distance
+ * @param {number} miles - Miles driven
+ * @param {number} [wearFactor=1] - Model wear factor from the vehicle catalog
+ * @returns {number} Percentage points
+ */
+function maxWearGain(miles, wearFactor = 1) {
+    return Math.max(0, miles) * WEAR_PER_MILE * wearFactor * MAX_CONDITIONS_MULTIPLIER + WEAR_TOLERANCE;
+}
+
+/**
+ * Most tire miles a vehicle can pick up over a distance
+ * @param {number} miles - Miles driven
+ * @returns {number} Tire miles
+ */
+function maxTireGain(miles) {
+    return Math.max(0, miles) * (1 + ROTATION_PENALTY) + WEAR_TOLERANCE;
+}
+
+/**
+ * Wear left after a service
+ * @param {number} wear - Wear percentage before it
+ * @returns {number} SERVICE_WEAR_KEPT of it, to two decimals like vehicles.wear
+ * @note A service restores at most (1 - SERVICE_WEAR_KEPT) of the wear's share of the sale price, so servicing a
+ *       worn vehicle before selling it cannot return more than the vehicle and the service cost.
+ */
+function wearAfterService(wear) {
+    return Math.round((parseFloat(wear) || 0) * SERVICE_WEAR_KEPT * 100) / 100;
+}
+
+module.exports = { WEAR_PER_MILE, ROTATION_PENALTY, MAX_CONDITIONS_MULTIPLIER, SERVICE_WEAR_KEPT, maxWearGain, maxTireGain, wearAfterService };
@@ -3,50 +3,100 @@
  * @file CyberMain.tsx
  * @description Main entry point for CyberTaxi, defining the UI/UX layout with MenuBar, MapArea, and BottomMenu.
  * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
- * @version 0.2.27
- * @note Defines a three-row structure: MenuBar, MapArea, BottomMenu, with TaxiMenu and AboutPortal integration.
- * @detail Persists login state via localStorage, passes onTaxiClick and isLoggedIn to MenuBar and MapArea.
+ * @version 0.2.46
+ * @note Defines a three-row structure: MenuBar, MapArea, BottomMenu, with TaxiMenu, AboutPortal, FleetWindow, DispatchWindow, VehicleDetailsWindow, PropertyWindow, CyberBrowser (Tesla, Realtor, Employment Agency, City Hall and Weather pages), NotificationToasts and (dev-only) DiagnosticsWindow integration.
+ * @detail Wraps the app in CyberProvider; children read login state from CyberContext, and logout goes through its logout action.
+ *         Player and other vehicles are loaded here and shared by MapArea, FleetWindow and the fare simulation (useFareSimulation);
+ *         FleetWindow focuses vehicles through the MapArea ref; DispatchWindow edits the simulation's dispatch settings;
+ *         VehicleDetailsWindow starts and stops charge sessions, SuperCharger trips and maintenance jobs through the
+ *         simulation's controls, whose site occupancy feeds MapArea's charger layer and wear states the Fleet window.
+ *         The player's garages and lots (usePlayerProperties) mark MapArea's property layer; clicking a listing opens
+ *         PropertyWindow to lease, buy or sell it. The Realtor page in CyberBrowser gets the same property state, so
+ *         its checkouts and sales restyle the map. Garage staff (usePlayerStaff) are hired on the Employment Agency page;
+ *         who is on shift goes to the fare simulation, which reports their finished jobs back for leveling. Vehicles
+ *         ordered on the Tesla page (usePlayerOrders) reload the fleet as they ship and arrive; arrivals show as toasts.
+ *         The operating license (usePlayerLicenses) caps the Tesla page's purchases, is managed on the City Hall page,
+ *         and keeps vehicles without a valid permit out of the fare simulation. Austin's weather (useWeather) tints
+ *         MapArea's weather layer, fills the Weather page and slows, wears and busies the fare simulation while it rains.
+ *         Rush hours and protests (useCityEvents) are drawn on MapArea's hazard layer and slow and wear the fare
+ *         simulation's vehicles; protests the player reroutes around from their toast are kept out of dispatch.
  */
-import React, { useState, useEffect } from 'react';
+import React, { useRef, useState } from 'react';
 import ReactDOM from 'react-dom/client';
 import { CyberError } from './utils/errorhandling/CyberError';
 import './CyberGlobal.css'; // Base layout stylesheet
 import MenuBar from './components/ui/controls/MenuBar'; // Default import
 import { TaxiMenu } from './components/ui/controls/TaxiMenu';
+import { NotificationToasts } from './components/ui/controls/NotificationToasts';
 import { AboutPortal } from './components/ui/Windows/AboutPortal';
 import { LoginForm } from './components/ui/Windows/LoginForm';
 import { BaseWindow } from './components/ui/Windows/baseWindow';
+import { DiagnosticsWindow } from './components/ui/Windows/DiagnosticsWindow';
+import { VehicleDetailsWindow } from './components/ui/Windows/VehicleDetailsWindow';
+import { FleetWindow } from './components/ui/Windows/FleetWindow';
+import { DispatchWindow } from './components/ui/Windows/DispatchWindow';
+import { PropertyWindow } from './components/ui/Windows/PropertyWindow';
+import { CyberBrowser } from './components/ui/CyberBrowser';
 import { MapArea } from './components/mapping/MapArea';
+import type { MapAreaHandle } from './components/mapping/MapArea';
+import { usePlayerVehicles } from './components/mapping/usePlayerVehicles';
+import { useOtherPlayerVehicles } from './components/mapping/useOtherPlayerVehicles';
+import { usePlayerProperties } from './components/mapping/usePlayerProperties';
+import { usePlayerStaff } from './components/mapping/usePlayerStaff';
+import { usePlayerOrders } from './components/mapping/usePlayerOrders';
+import { useVehicleCatalog } from './components/mapping/useVehicleCatalog';
+import { usePlayerLicenses } from './components/mapping/usePlayerLicenses';
+import { useWeather } from './components/mapping/useWeather';
+import { useCityEvents } from './components/mapping/useCityEvents';
+import { useFareSimulation } from './simulation/useFareSimulation';
+import { DEFAULT_DISPATCH_SETTINGS } from './simulation/Dispatcher';
+import type { DispatchSettings } from './simulation/Dispatcher';
+import { API_CONFIG } from './config/apiConfig';
+import { CyberProvider, useCyber } from './context/CyberContext';
+import type { Vehicle } from './domain/Vehicle';
+import { modelFor } from './domain/VehicleCatalog';
+import type { PropertyListing } from './domain/Properties';
 const BottomMenu = () => <div className="bottom-menu">Bottom Menu Placeholder</div>;
 
 const CyberMain = () => {
     const [isOpen, setIsOpen] = useState(false);
     const [position, setPosition] = useState({ x: 0, y: 0 });
-    const [isLoggedIn, setIsLoggedIn] = useState(false); // Initialize false
+    const { logout, isLoggedIn, username, playerId } = useCyber();
     const [showLogin, setShowLogin] = useState(false);
     const [showTestWindow, setShowTestWindow] = useState(false);
+    const [showDiagnostics, setShowDiagnostics] = useState(false);
+    const [showFleet, setShowFleet] = useState(false);
+    const [showDispatch, setShowDispatch] = useState(false);
+    const [browserPage, setBrowserPage] = useState<"tesla" | "realtor" | "agency" | "cityhall" | "weather" | null>(null); // CyberBrowser page, when open
+    const [dispatchSettings, setDispatchSettings] = useState<DispatchSettings>(DEFAULT_DISPATCH_SETTINGS);
+    const [selectedVehicle, setSelectedVehicle] = useState<Vehicle | null>(null); // Shown in VehicleDetailsWindow
+    const [selectedListing, setSelectedListing] = useState<PropertyListing | null>(null); // Shown in PropertyWindow
     const [formMode, setFormMode] = useState<"login" | "register" | "reset">("login");
-
-    // Sync isLoggedIn with localStorage on mount and storage changes
-    useEffect(() => {
-        const syncLoginState = () => {
-            try {
-                const token = localStorage.getItem("jwt_token");
-                const username = localStorage.getItem("username");
-                const newIsLoggedIn = !!(token && username);
-                console.log("CyberMain: Syncing isLoggedIn, token:", newIsLoggedIn, "username:", username || "none");
-                setIsLoggedIn(newIsLoggedIn);
-            } catch (error) {
-                const cyberError = new CyberError("Failed to sync login state", 500);
-                cyberError.log();
-            }
-        };
-        syncLoginState();
-        window.addEventListener("storage", syncLoginState);
-        return () => {
-            window.removeEventListener("storage", syncLoginState);
-        };
-    }, []);
+    const mapRef = useRef<MapAreaHandle>(null);
+    const { vehicles, fleet, errorMessage: vehicleError, reload: reloadVehicles } = usePlayerVehicles(isLoggedIn, username);
+    const { vehicles: otherVehicles, errorMessage: otherError } = useOtherPlayerVehicles(isLoggedIn, playerId);
+    const [fareSeed] = useState(() => API_CONFIG.FARE_SEED ?? Date.now()); // Fixed per session unless VITE_FARE_SEED is set
+    const propertyState = usePlayerProperties(isLoggedIn, username);
+    const staffState = usePlayerStaff(isLoggedIn, propertyState.properties);
+    const orderState = usePlayerOrders(isLoggedIn, reloadVehicles);
+    const catalog = useVehicleCatalog(isLoggedIn);
+    const licenseState = usePlayerLicenses(isLoggedIn, fleet);
+    const weatherState = useWeather(isLoggedIn);
+    const cityEventState = useCityEvents(isLoggedIn);
+    const simulation = useFareSimulation(
+        isLoggedIn && API_CONFIG.FARE_SIMULATION,
+        fleet,
+        otherVehicles,
+        fareSeed,
+        dispatchSettings,
+        staffState.staffing,
+        catalog.models,
+        licenseState.unlicensed,
+        weatherState.modifiers,
+        cityEventState.active,
+        cityEventState.avoided,
+        staffState.recordWork
+    );
 
     const handleTaxiClick = (e: React.MouseEvent) => {
         e.stopPropagation();
@@ -58,13 +108,9 @@ const CyberMain = () => {
         try {
             console.log(`CyberMain: Action selected: ${action}`);
             if (action === 'logout') {
-                localStorage.removeItem("jwt_token");
-                localStorage.removeItem("player_id");
-                localStorage.removeItem("username");
-                localStorage.removeItem("registerData");
-                setIsLoggedIn(false);
+                logout();
                 setShowLogin(false);
-                console.log("CyberMain: Logged out, cleared localStorage");
+                console.log("CyberMain: Logged out");
             } else if (action === 'login') {
                 setShowLogin(true);
                 setFormMode('login');
@@ -76,6 +122,14 @@ const CyberMain = () => {
                 setFormMode('reset');
             } else if (action === 'test') {
                 setShowTestWindow(true);
+            } else if (action === 'fleet') {
+                setShowFleet(true);
+            } else if (action === 'dispatch') {
+                setShowDispatch(true);
+            } else if (action === 'tesla' || action === 'realtor' || action === 'agency' || action === 'cityhall' || action === 'weather') {
+                setBrowserPage(action);
+            } else if (action === 'diagnostics') {
+                setShowDiagnostics(true);
             }
         } catch (error) {
             const cyberError = new CyberError(`Failed to handle action: ${action}`, 500);
@@ -85,34 +139,35 @@ const CyberMain = () => {
     };
 
     const handleLoginSuccess = () => {
-        try {
-            const token = localStorage.getItem("jwt_token");
-            const username = localStorage.getItem("username");
-            if (token && username) {
-                setIsLoggedIn(true);
-                console.log("CyberMain: Login successful, isLoggedIn set to true for", username);
-            } else {
-                console.error("CyberMain: Login failed, missing token or username");
-            }
-        } catch (error) {
-            const cyberError = new CyberError("Failed to handle login success", 500);
-            cyberError.log();
-        }
+        console.log("CyberMain: Login successful, closing login window");
     };
 
     return (
         <div id="app" onClick={() => setIsOpen(false)}>
-            <MenuBar onTaxiClick={handleTaxiClick} isLoggedIn={isLoggedIn} />
-            <MapArea isLoggedIn={isLoggedIn} />
+            <MenuBar onTaxiClick={handleTaxiClick} />
+            <MapArea
+                ref={mapRef}
+                playerVehicles={vehicles}
+                playerError={vehicleError}
+                otherVehicles={otherVehicles}
+                otherError={otherError}
+                onVehicleSelect={setSelectedVehicle}
+                chargingSites={simulation.chargingSites}
+                properties={propertyState.properties}
+                onPropertySelect={setSelectedListing}
+                weather={weatherState.current}
+                cityEvents={cityEventState.events}
+                avoidedEvents={cityEventState.avoided}
+            />
             <BottomMenu />
             <TaxiMenu
                 isOpen={isOpen}
                 onClose={() => setIsOpen(false)}
                 position={position}
-                isLoggedIn={isLoggedIn}
                 onItemSelect={handleItemSelect}
             />
             <AboutPortal />
+            <NotificationToasts />
             {showLogin && (
                 <LoginForm
                     onClose={() => setShowLogin(false)}
@@ -139,9 +194,107 @@ const CyberMain = () => {
                     <div>Test Content</div>
                 </BaseWindow>
             )}
+            {isLoggedIn && showFleet && (
+                <FleetWindow
+                    id="fleet-window"
+                    fleet={fleet}
+                    onReload={reloadVehicles}
+                    onFocusVehicle={(vehicleId) => mapRef.current?.focusVehicle(vehicleId) ?? false}
+                    onOpenDetails={setSelectedVehicle}
+                    wearStates={simulation.wearStates}
+                    onClose={() => setShowFleet(false)}
+                    initialPosition={{ top: 60, left: 400 }}
+                    defaultWidth={620}
+                    defaultHeight={420}
+                    minWidth={420}
+                />
+            )}
+            {isLoggedIn && showDispatch && (
+                <DispatchWindow
+                    id="dispatch-window"
+                    settings={dispatchSettings}
+                    onSettingsChange={setDispatchSettings}
+                    onClose={() => setShowDispatch(false)}
+                    initialPosition={{ top: 100, left: 440 }}
+                    defaultWidth={520}
+                    defaultHeight={380}
+                    minWidth={380}
+                />
+            )}
+            {isLoggedIn && selectedVehicle && (
+                <VehicleDetailsWindow
+                    key={selectedVehicle.id} // Fresh state when another vehicle is clicked
+                    id="vehicle-details-window"
+                    vehicle={selectedVehicle}
+                    model={modelFor(catalog.models, selectedVehicle.type)}
+                    chargeSession={simulation.chargeSessions.find((session) => session.vehicleId === selectedVehicle.id) ?? null}
+                    onStartCharging={simulation.startCharging}
+                    onStopCharging={simulation.stopCharging}
+                    chargerTrip={simulation.chargerTrips.find((trip) => trip.vehicleId === selectedVehicle.id) ?? null}
+                    chargingSites={simulation.chargingSites}
+                    onSendToCharger={simulation.sendToNearestCharger}
+                    maintenanceJob={simulation.maintenanceJobs.find((job) => job.vehicleId === selectedVehicle.id) ?? null}
+                    wearState={simulation.wearStates.find((state) => state.vehicleId === selectedVehicle.id) ?? null}
+                    onStartMaintenance={simulation.startMaintenance}
+                    onCancelMaintenance={simulation.cancelMaintenance}
+                    onClose={() => setSelectedVehicle(null)}
+                    initialPosition={{ top: 60, left: 60 }}
+                    defaultWidth={320}
+                    defaultHeight={520}
+                    minWidth={260}
+                />
+            )}
+            {isLoggedIn && selectedListing && (
+                <PropertyWindow
+                    key={selectedListing.id} // Fresh state when another listing is clicked
+                    id="property-window"
+                    listing={selectedListing}
+                    held={propertyState.properties.find((property) => property.listing_id === selectedListing.id) ?? null}
+                    onLease={propertyState.lease}
+                    onBuy={propertyState.buy}
+                    onSell={propertyState.sell}
+                    onClose={() => setSelectedListing(null)}
+                    initialPosition={{ top: 60, left: 400 }}
+                    defaultWidth={320}
+                    defaultHeight={480}
+                    minWidth={260}
+                />
+            )}
+            {isLoggedIn && username && browserPage && (
+                <CyberBrowser
+                    key={browserPage} // Reopens on the page picked from the menu
+                    username={username}
+                    activePage={browserPage}
+                    catalog={catalog.models}
+                    propertyState={propertyState}
+                    staffState={staffState}
+                    orderState={orderState}
+                    licenseState={licenseState}
+                    weatherState={weatherState}
+                    fleet={fleet}
+                    wearStates={simulation.wearStates}
+                    onFleetChanged={reloadVehicles}
+                    onClose={() => setBrowserPage(null)}
+                />
+            )}
+            {showDiagnostics && (
+                <DiagnosticsWindow
+                    id="diagnostics-window"
+                    title="Response Diagnostics"
+                    onClose={() => setShowDiagnostics(false)}
+                    initialPosition={{ top: 60, left: 200 }}
+                    defaultWidth={480}
+                    defaultHeight={360}
+                    minWidth={300}
+                />
+            )}
         </div>
     );
 };
 
-ReactDOM.createRoot(document.getElementById('app')!).render(<CyberMain />);
+ReactDOM.createRoot(document.getElementById('app')!).render(
+    <CyberProvider>
+        <CyberMain />
+    </CyberProvider>
+);
 console.log('CyberMain: App rendering initiated with new layout, LoginForm, and BaseWindow test');
\ No newline at end of file
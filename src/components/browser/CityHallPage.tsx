@@ -0,0 +1,204 @@
+/**
+ * CityHallPage.tsx - Austin City Hall in CyberBrowser for CyberTaxi.
+ * Shows the player's operating license (the free City of Austin permit for up to 10 vehicles, or the subscriber Taxi
+ * License for unlimited vehicles) and lists every vehicle's yearly taxi permit with its expiry and a renew button, per
+ * GDD v1.1.
+ * @module CityHallPage
+ * @version 0.1.1
+ * @note Fees, the cap and permit states come from domain/Licensing.ts. Pass CyberMain's usePlayerLicenses state as
+ *       licenseState so renewals put vehicles back on fares at once; without it (legacy main.tsx) the page loads its
+ *       own copy.
+ */
+import React, { useEffect, useState } from "react";
+import { useCyber } from "../../context/CyberContext";
+import { usePlayerLicenses } from "../mapping/usePlayerLicenses";
+import type { LicenseState } from "../mapping/usePlayerLicenses";
+import { usePlayerVehicles } from "../mapping/usePlayerVehicles";
+import {
+    FREE_VEHICLE_CAP,
+    LICENSE_TIER_LABELS,
+    PERMIT_FEE,
+    PERMIT_STATE_LABELS,
+    PERMIT_TERM_DAYS,
+    daysUntil,
+    permitState,
+} from "../../domain/Licensing";
+import { formatDollars } from "../../domain/Properties";
+import type { ApiPermit } from "../../services/apiTypes";
+import "../../styles/browser.css";
+import "../../styles/ui/Property.css";
+import "../../styles/ui/CityHall.css";
+
+/**
+ * Props for the CityHallPage component.
+ * @interface CityHallPageProps
+ */
+interface CityHallPageProps {
+    username: string; // Player username for API calls
+    licenseState?: LicenseState; // Shared with the fare simulation when opened from CyberMain
+}
+
+const EXPIRY_TICK_MS = 60000;
+
+/**
+ * Renders City Hall: the license tier and the permit of every vehicle.
+ * @param props - Component props.
+ * @returns JSX.Element - City Hall page UI.
+ */
+export const CityHallPage: React.FC<CityHallPageProps> = ({ username, licenseState }) => {
+    const { isLoggedIn, bankBalance } = useCyber();
+    const ownVehicles = usePlayerVehicles(isLoggedIn && !licenseState, username); // Idle when CyberMain shares its state
+    const ownLicenses = usePlayerLicenses(isLoggedIn && !licenseState, ownVehicles.fleet);
+    const { tier, vehicleCap, vehicleCount, permits, errorMessage: loadError, renew, setTier } = licenseState ?? ownLicenses;
+    const [pending, setPending] = useState<string | null>(null); // Vehicle being renewed, or "tier"
+    const [error, setError] = useState<string | null>(null);
+    const [success, setSuccess] = useState<string | null>(null);
+    const [now, setNow] = useState(() => new Date());
+
+    /**
+     * Keeps the days left current while the page is open.
+     */
+    useEffect(() => {
+        const interval = window.setInterval(() => setNow(new Date()), EXPIRY_TICK_MS);
+        return () => window.clearInterval(interval);
+    }, []);
+
+    /**
+     * Runs a renewal or tier change and reports its result.
+     * @param key - Vehicle or "tier", for the pending button.
+     * @param run - The call; resolves to the success message.
+     */
+    const handleAction = async (key: string, run: () => Promise<string>) => {
+        setPending(key);
+        setError(null);
+        setSuccess(null);
+        try {
+            setSuccess(await run());
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : "Unknown error";
+            console.error(`CityHallPage: Failed on ${key}:`, errorMessage);
+            setError(errorMessage);
+        } finally {
+            setPending(null);
+        }
+    };
+
+    /**
+     * Renders one permit row.
+     * @param permit - A vehicle and its permit.
+     * @returns JSX.Element - Vehicle, state, expiry and renew button.
+     */
+    const renderPermit = (permit: ApiPermit) => {
+        const state = permitState(permit.expires_at, now);
+        return (
+            <tr key={permit.vehicle_id}>
+                <td>
+                    {permit.vehicle_id}
+                    <div className="cityhall-muted">
+                        {permit.type}, {permit.vehicle_status}
+                    </div>
+                </td>
+                <td>
+                    <span className={`cityhall-permit ${state}`}>{PERMIT_STATE_LABELS[state]}</span>
+                </td>
+                <td>
+                    {permit.expires_at ? new Date(permit.expires_at).toLocaleDateString() : "—"}
+                    {permit.expires_at && state !== "expired" && (
+                        <div className="cityhall-muted">{daysUntil(permit.expires_at, now)} days left</div>
+                    )}
+                </td>
+                <td>
+                    <button
+                        className="purchase-btn"
+                        onClick={() =>
+                            handleAction(permit.vehicle_id, async () => {
+                                const expiresAt = await renew(permit.vehicle_id);
+                                return `${permit.vehicle_id}'s permit renewed to ${new Date(expiresAt).toLocaleDateString()}`;
+                            })
+                        }
+                        disabled={pending !== null || bankBalance < PERMIT_FEE}
+                        aria-label={`Renew permit for ${permit.vehicle_id}`}
+                    >
+                        {pending === permit.vehicle_id ? "Renewing..." : state === "missing" ? "Apply" : "Renew"}
+                    </button>
+                </td>
+            </tr>
+        );
+    };
+
+    if (!isLoggedIn) {
+        return (
+            <div className="cityhall-page">
+                <h3>City Hall</h3>
+                <p>Log in to manage your operating license and taxi permits.</p>
+            </div>
+        );
+    }
+
+    const atCap = vehicleCap !== null && vehicleCount >= vehicleCap;
+
+    return (
+        <div className="cityhall-page" role="main" aria-label="City Hall">
+            <div className="cityhall-header">
+                <h3>CityHall.ct — Austin Operating License</h3>
+                <span>Balance: {formatDollars(bankBalance)}</span>
+            </div>
+            {loadError && <div className="property-details-error">{loadError}</div>}
+            {error && <div className="property-details-error">{error}</div>}
+            {success && <div className="property-details-notice">{success}</div>}
+            <div className="cityhall-license">
+                <div className="property-details-row">
+                    <span>License</span>
+                    <strong>{LICENSE_TIER_LABELS[tier]}</strong>
+                </div>
+                <div className="property-details-row">
+                    <span>Vehicles</span>
+                    <span className={`cityhall-cap ${atCap ? "full" : ""}`}>
+                        {vehicleCap === null ? `${vehicleCount}, unlimited` : `${vehicleCount} of ${vehicleCap}`}
+                    </span>
+                </div>
+                <div className="property-details-row">
+                    <span>Taxi permit</span>
+                    <span>
+                        {formatDollars(PERMIT_FEE)} per vehicle every {PERMIT_TERM_DAYS} days
+                    </span>
+                </div>
+                <p className="cityhall-muted">
+                    A permit is bought with every vehicle. Vehicles whose permit has expired cannot take fares.
+                    {tier === "free"
+                        ? ` The free license covers ${FREE_VEHICLE_CAP} vehicles; the Taxi License subscription removes the cap and is not sold in game.`
+                        : ""}
+                </p>
+                {tier === "taxi_license" && (
+                    <button
+                        className="purchase-btn"
+                        onClick={() =>
+                            handleAction("tier", async () => {
+                                await setTier("free");
+                                return `Switched to the ${LICENSE_TIER_LABELS.free}`;
+                            })
+                        }
+                        disabled={pending !== null || vehicleCount > FREE_VEHICLE_CAP}
+                    >
+                        {pending === "tier" ? "Switching..." : "Return to the Free License"}
+                    </button>
+                )}
+            </div>
+            {permits.length === 0 ? (
+                <p className="cityhall-muted">No vehicles to license yet.</p>
+            ) : (
+                <table className="cityhall-permits">
+                    <thead>
+                        <tr>
+                            <th>Vehicle</th>
+                            <th>Permit</th>
+                            <th>Expires</th>
+                            <th></th>
+                        </tr>
+                    </thead>
+                    <tbody>{permits.map(renderPermit)}</tbody>
+                </table>
+            )}
+        </div>
+    );
+};
@@ -1,21 +1,441 @@
 /**
- * EmploymentAgencyPage.tsx - Placeholder for employment agency page in CyberBrowser.
- * Displays a placeholder message until employment functionality is implemented, per GDD v1.1.
+ * EmploymentAgencyPage.tsx - Staff hiring in CyberBrowser for CyberTaxi.
+ * Lists mechanics and cleaning staff looking for work, hires them to one of the player's garages with a weekly shift
+ * schedule, and shows the roster by garage with levels, shifts, reassignment, firing and the monthly payroll, per GDD v1.1.
  * @module EmploymentAgencyPage
- * @version 0.1.0
+ * @version 0.2.0
+ * @note Applicants, salaries and shift rules come from domain/Staff.ts. Pass CyberMain's usePlayerStaff and
+ *       usePlayerProperties state as staffState and propertyState so hires start working in the fare simulation at
+ *       once; without them (legacy main.tsx) the page loads its own copies.
  */
-import React from "react";
+import React, { useState } from "react";
+import { useCyber } from "../../context/CyberContext";
+import { usePlayerProperties } from "../mapping/usePlayerProperties";
+import type { PropertyState } from "../mapping/usePlayerProperties";
+import { usePlayerStaff } from "../mapping/usePlayerStaff";
+import type { StaffState } from "../mapping/usePlayerStaff";
+import { formatDollars } from "../../domain/Properties";
+import {
+    DAY_LABELS,
+    DEFAULT_SCHEDULE,
+    SHIFT_HOURS_RANGE,
+    STAFF_APPLICANTS,
+    STAFF_ROLES,
+    applicantSalary,
+    isOnShift,
+    nextLevelJobs,
+    staffLevel,
+    weeklyHours,
+} from "../../domain/Staff";
+import type { StaffApplicant, WeeklySchedule } from "../../domain/Staff";
+import type { ApiStaff } from "../../services/apiTypes";
 import "../../styles/browser.css";
+import "../../styles/ui/Property.css";
+import "../../styles/ui/Staff.css";
 
 /**
- * Renders a placeholder for the Employment Agency page.
- * @returns JSX.Element - Placeholder content.
+ * Props for the EmploymentAgencyPage component.
+ * @interface EmploymentAgencyPageProps
  */
-export const EmploymentAgencyPage: React.FC = () => {
+interface EmploymentAgencyPageProps {
+    username: string; // Player username for API calls
+    staffState?: StaffState; // Shared with the fare simulation when opened from CyberMain
+    propertyState?: PropertyState; // The garages staff work at
+}
+
+type AgencyTab = "applicants" | "roster";
+type PendingAction = "hire" | "update" | "fire";
+
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0]; // Monday first; schedules are indexed like Date.getDay()
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const SHIFT_LENGTHS = Array.from(
+    { length: SHIFT_HOURS_RANGE[1] - SHIFT_HOURS_RANGE[0] + 1 },
+    (_, index) => SHIFT_HOURS_RANGE[0] + index
+);
+
+/**
+ * Formats an hour of the day, wrapping past midnight.
+ * @param hour - Hour, may exceed 23 for a shift's end.
+ * @returns "HH:00".
+ */
+const formatHour = (hour: number): string => `${String(hour % 24).padStart(2, "0")}:00`;
+
+/**
+ * Edits a weekly shift schedule: each day on or off, its start hour and length.
+ * @param props - Schedule and change handler.
+ * @returns JSX.Element - One row per day and the weekly total.
+ */
+const ScheduleEditor: React.FC<{ schedule: WeeklySchedule; onChange: (schedule: WeeklySchedule) => void }> = ({
+    schedule,
+    onChange,
+}) => {
+    const setDay = (day: number, shift: WeeklySchedule[number]) =>
+        onChange(schedule.map((current, index) => (index === day ? shift : current)));
+    return (
+        <table className="agency-schedule">
+            <tbody>
+                {WEEK_ORDER.map((day) => {
+                    const shift = schedule[day];
+                    return (
+                        <tr key={day}>
+                            <td>
+                                <label>
+                                    <input
+                                        type="checkbox"
+                                        checked={shift !== null}
+                                        onChange={(e) => setDay(day, e.target.checked ? { start: 8, hours: SHIFT_HOURS_RANGE[0] } : null)}
+                                    />{" "}
+                                    {DAY_LABELS[day]}
+                                </label>
+                            </td>
+                            {shift ? (
+                                <>
+                                    <td>
+                                        <select
+                                            value={shift.start}
+                                            onChange={(e) => setDay(day, { ...shift, start: Number(e.target.value) })}
+                                            aria-label={`${DAY_LABELS[day]} start`}
+                                        >
+                                            {HOURS.map((hour) => (
+                                                <option key={hour} value={hour}>
+                                                    {formatHour(hour)}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </td>
+                                    <td>
+                                        <select
+                                            value={shift.hours}
+                                            onChange={(e) => setDay(day, { ...shift, hours: Number(e.target.value) })}
+                                            aria-label={`${DAY_LABELS[day]} hours`}
+                                        >
+                                            {SHIFT_LENGTHS.map((hours) => (
+                                                <option key={hours} value={hours}>
+                                                    {hours} h
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </td>
+                                    <td className="agency-muted">to {formatHour(shift.start + shift.hours)}</td>
+                                </>
+                            ) : (
+                                <td colSpan={3} className="agency-muted">
+                                    Off
+                                </td>
+                            )}
+                        </tr>
+                    );
+                })}
+                <tr>
+                    <td colSpan={4} className="agency-muted">
+                        {weeklyHours(schedule)} hours a week
+                    </td>
+                </tr>
+            </tbody>
+        </table>
+    );
+};
+
+/**
+ * Renders the Employment Agency with applicants and roster tabs.
+ * @param props - Component props.
+ * @returns JSX.Element - Employment Agency page UI.
+ */
+export const EmploymentAgencyPage: React.FC<EmploymentAgencyPageProps> = ({ username, staffState, propertyState }) => {
+    const { isLoggedIn, bankBalance } = useCyber();
+    const ownProperties = usePlayerProperties(isLoggedIn && !propertyState, username); // Idle when CyberMain shares its state
+    const { properties } = propertyState ?? ownProperties;
+    const ownStaff = usePlayerStaff(isLoggedIn && !staffState, properties);
+    const { staff, payrollMonthly, errorMessage: loadError, notice, hire, update, fire } = staffState ?? ownStaff;
+    const [tab, setTab] = useState<AgencyTab>("applicants");
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [garageId, setGarageId] = useState<number | null>(null);
+    const [schedule, setSchedule] = useState<WeeklySchedule>(DEFAULT_SCHEDULE);
+    const [editing, setEditing] = useState<{ staffId: number; schedule: WeeklySchedule } | null>(null);
+    const [confirming, setConfirming] = useState<number | null>(null); // Staff id awaiting a firing confirmation
+    const [pending, setPending] = useState<PendingAction | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [success, setSuccess] = useState<string | null>(null);
+
+    const applicants = STAFF_APPLICANTS.filter((applicant) => !staff.some((member) => member.applicant_id === applicant.id));
+    const selected = applicants.find((applicant) => applicant.id === selectedId) ?? null;
+    const hireGarageId = garageId ?? properties[0]?.id ?? null; // The first garage until one is picked
+
+    /**
+     * Runs a staff action and reports its result.
+     * @param action - Hire, update or fire.
+     * @param run - The call; resolves to the success message.
+     */
+    const handleAction = async (action: PendingAction, run: () => Promise<string>) => {
+        setConfirming(null);
+        setPending(action);
+        setError(null);
+        setSuccess(null);
+        try {
+            setSuccess(await run());
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : "Unknown error";
+            console.error(`EmploymentAgencyPage: Failed to ${action}:`, errorMessage);
+            setError(errorMessage);
+        } finally {
+            setPending(null);
+        }
+    };
+
+    /**
+     * Renders the hiring form for the selected applicant.
+     * @param applicant - Selected applicant.
+     * @returns JSX.Element - Garage choice, schedule, cost and hire button.
+     */
+    const renderHire = (applicant: StaffApplicant) => {
+        const salary = applicantSalary(applicant);
+        return (
+            <div className="agency-hire">
+                <h4>
+                    Hire {applicant.name}, {STAFF_ROLES[applicant.role].label}
+                </h4>
+                <div className="property-details-row">
+                    <span>Garage</span>
+                    <select value={hireGarageId ?? ""} onChange={(e) => setGarageId(Number(e.target.value))}>
+                        {properties.map((property) => (
+                            <option key={property.id} value={property.id}>
+                                {property.name}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <ScheduleEditor schedule={schedule} onChange={setSchedule} />
+                <div className="property-details-row">
+                    <span>First month, due now</span>
+                    <span>{formatDollars(salary)}</span>
+                </div>
+                {bankBalance < salary && (
+                    <p className="insufficient-message">Short {formatDollars(salary - bankBalance)} for the first month</p>
+                )}
+                <div className="property-details-actions">
+                    <button
+                        onClick={() =>
+                            handleAction("hire", async () => {
+                                await hire(applicant, hireGarageId, schedule);
+                                setSelectedId(null);
+                                return `Hired ${applicant.name} for ${formatDollars(salary)}/month`;
+                            })
+                        }
+                        disabled={pending !== null || bankBalance < salary || hireGarageId === null || weeklyHours(schedule) === 0}
+                    >
+                        <i className="fas fa-user-plus" />
+                        Hire
+                    </button>
+                </div>
+            </div>
+        );
+    };
+
+    /**
+     * Renders one staff member of the roster.
+     * @param member - Staff record.
+     * @returns JSX.Element - Row with level, shift state, pay, garage and actions, plus the schedule editor when open.
+     */
+    const renderMember = (member: ApiStaff) => {
+        const role = STAFF_ROLES[member.role];
+        const level = staffLevel(member.jobs_done);
+        const nextJobs = nextLevelJobs(member.jobs_done);
+        const onShift = isOnShift(member.schedule, new Date());
+        const isEditing = editing?.staffId === member.id;
+        return (
+            <React.Fragment key={member.id}>
+                <tr>
+                    <td>
+                        <i className={`fas ${role.icon}`} aria-hidden="true" /> {member.name}
+                        <div className="agency-muted">{role.label}</div>
+                    </td>
+                    <td>
+                        Lv {level}
+                        <div className="agency-muted">{nextJobs === null ? `${member.jobs_done} jobs, max` : `${member.jobs_done}/${nextJobs} jobs`}</div>
+                    </td>
+                    <td>
+                        <span className={`agency-shift ${onShift ? "on" : "off"}`}>{onShift ? "On shift" : "Off"}</span>
+                        <div className="agency-muted">{weeklyHours(member.schedule)} h/week</div>
+                    </td>
+                    <td>
+                        {formatDollars(member.salary_monthly)}
+                        <div className="agency-muted">Paid to {new Date(member.paid_until).toLocaleDateString()}</div>
+                    </td>
+                    <td>
+                        <select
+                            value={member.garage_id ?? ""}
+                            onChange={(e) => {
+                                const target = e.target.value === "" ? null : Number(e.target.value);
+                                handleAction("update", async () => {
+                                    await update(member.id, { garageId: target });
+                                    return `${member.name} moved to ${properties.find((property) => property.id === target)?.name ?? "no garage"}`;
+                                });
+                            }}
+                            disabled={pending !== null}
+                            aria-label={`${member.name} garage`}
+                        >
+                            <option value="">Unassigned</option>
+                            {properties.map((property) => (
+                                <option key={property.id} value={property.id}>
+                                    {property.name}
+                                </option>
+                            ))}
+                        </select>
+                    </td>
+                    <td className="property-details-actions">
+                        <button
+                            onClick={() => setEditing(isEditing ? null : { staffId: member.id, schedule: member.schedule })}
+                            disabled={pending !== null}
+                        >
+                            <i className="fas fa-calendar-alt" />
+                            Shifts
+                        </button>
+                        <button
+                            onClick={() => {
+                                if (confirming !== member.id) {
+                                    setConfirming(member.id);
+                                    return;
+                                }
+                                handleAction("fire", async () => {
+                                    await fire(member.id);
+                                    return `${member.name} let go`;
+                                });
+                            }}
+                            disabled={pending !== null}
+                            className={confirming === member.id ? "confirm" : ""}
+                        >
+                            <i className="fas fa-user-minus" />
+                            {confirming === member.id ? "Confirm" : "Let Go"}
+                        </button>
+                    </td>
+                </tr>
+                {isEditing && editing && (
+                    <tr>
+                        <td colSpan={6}>
+                            <ScheduleEditor schedule={editing.schedule} onChange={(next) => setEditing({ staffId: member.id, schedule: next })} />
+                            <div className="property-details-actions">
+                                <button
+                                    onClick={() =>
+                                        handleAction("update", async () => {
+                                            await update(member.id, { schedule: editing.schedule });
+                                            setEditing(null);
+                                            return `${member.name}'s shifts saved`;
+                                        })
+                                    }
+                                    disabled={pending !== null || weeklyHours(editing.schedule) === 0}
+                                >
+                                    <i className="fas fa-save" />
+                                    Save Shifts
+                                </button>
+                            </div>
+                        </td>
+                    </tr>
+                )}
+            </React.Fragment>
+        );
+    };
+
+    if (!isLoggedIn) {
+        return (
+            <div className="agency-page">
+                <h3>Employment Agency</h3>
+                <p>Log in to hire mechanics and cleaning staff.</p>
+            </div>
+        );
+    }
+
+    const groups = [
+        ...properties.map((property) => ({ key: String(property.id), name: property.name, garageId: property.id as number | null })),
+        { key: "none", name: "Unassigned", garageId: null },
+    ]
+        .map((group) => ({ ...group, members: staff.filter((member) => member.garage_id === group.garageId) }))
+        .filter((group) => group.members.length > 0);
+
     return (
-        <div className="content-area">
-            <h3>Employment Agency</h3>
-            <p>Coming soon: Hire drivers and staff for your CyberTaxi fleet!</p>
+        <div className="agency-page" role="main" aria-label="Employment Agency">
+            <div className="agency-header">
+                <h3>EmploymentAgency.ct — Garage Staff</h3>
+                <span>Balance: {formatDollars(bankBalance)}</span>
+            </div>
+            <div className="agency-tabs" role="tablist">
+                <button className={`menu-btn ${tab === "applicants" ? "active" : ""}`} role="tab" onClick={() => setTab("applicants")}>
+                    <i className="fas fa-id-badge" aria-hidden="true"></i> Applicants ({applicants.length})
+                </button>
+                <button className={`menu-btn ${tab === "roster" ? "active" : ""}`} role="tab" onClick={() => setTab("roster")}>
+                    <i className="fas fa-users" aria-hidden="true"></i> My Staff ({staff.length})
+                </button>
+            </div>
+            {loadError && <p className="property-details-error">{loadError}</p>}
+            {error && <p className="property-details-error">{error}</p>}
+            {success && <p className="property-details-notice">{success}</p>}
+            {notice && <p className="property-details-notice">{notice}</p>}
+
+            {tab === "applicants" ? (
+                <div className="agency-market">
+                    <ul className="agency-applicants">
+                        {applicants.length === 0 && <li className="agency-muted">Everyone on the books already works for you.</li>}
+                        {applicants.map((applicant) => {
+                            const role = STAFF_ROLES[applicant.role];
+                            return (
+                                <li
+                                    key={applicant.id}
+                                    className={`agency-applicant ${applicant.id === selectedId ? "selected" : ""}`}
+                                    onClick={() => setSelectedId(applicant.id)}
+                                >
+                                    <div className="property-details-row">
+                                        <strong>
+                                            <i className={`fas ${role.icon}`} aria-hidden="true" /> {applicant.name}
+                                        </strong>
+                                        <span>{formatDollars(applicantSalary(applicant))}/mo</span>
+                                    </div>
+                                    <div className="property-details-row agency-muted">
+                                        <span>
+                                            {role.label} · Lv {applicant.level}
+                                        </span>
+                                        <span>{role.duty}</span>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                    <div className="agency-detail">
+                        {properties.length === 0 ? (
+                            <p className="agency-muted">Lease or buy a garage on Realtor.ct first; staff work at your garages.</p>
+                        ) : selected ? (
+                            renderHire(selected)
+                        ) : (
+                            <p className="agency-muted">Select an applicant to hire them.</p>
+                        )}
+                    </div>
+                </div>
+            ) : staff.length === 0 ? (
+                <p className="agency-muted">You have no staff yet.</p>
+            ) : (
+                <table className="agency-roster">
+                    <thead>
+                        <tr>
+                            <th>Staff</th>
+                            <th>Level</th>
+                            <th>Shift</th>
+                            <th>Salary</th>
+                            <th>Garage</th>
+                            <th></th>
+                        </tr>
+                    </thead>
+                    {groups.map((group) => (
+                        <tbody key={group.key}>
+                            <tr className="agency-group">
+                                <td colSpan={6}>{group.name}</td>
+                            </tr>
+                            {group.members.map(renderMember)}
+                        </tbody>
+                    ))}
+                </table>
+            )}
+            <div className="agency-payroll">
+                Monthly payroll: <strong>{formatDollars(payrollMonthly)}</strong>
+                <span className="agency-muted"> · billed when each member's paid-up month ends</span>
+            </div>
         </div>
     );
 };
@@ -1,24 +1,406 @@
 /**
- * RealtorPage.tsx - Placeholder for real estate page in CyberBrowser.
- * Displays a placeholder message until real estate functionality is implemented, per GDD v1.1.
+ * RealtorPage.tsx - Property marketplace in CyberBrowser for CyberTaxi.
+ * Lists the garages and lots on the market with filters, a map preview and demand heat, handles lease/buy checkout,
+ * and shows the player's properties with renewal dates and sell buttons, per GDD v1.1.
  * @module RealtorPage
- * @version 0.1.0
+ * @version 0.2.0
+ * @note Listings and prices come from domain/Properties.ts, the data behind MapArea's property markers. Pass CyberMain's
+ *       usePlayerProperties state as propertyState so a lease or sale here restyles the map at once; without it (legacy
+ *       main.tsx) the page loads its own copy.
  */
-import React from "react";
+import React, { useMemo, useState } from "react";
+import { useCyber } from "../../context/CyberContext";
+import { usePlayerProperties } from "../mapping/usePlayerProperties";
+import type { PropertyState } from "../mapping/usePlayerProperties";
+import { PropertyPreviewMap } from "../mapping/PropertyPreviewMap";
+import {
+    LEASE_TERMS,
+    PROPERTY_LISTINGS,
+    demandLevel,
+    findListing,
+    formatDollars,
+    leaseCost,
+    monthlyRent,
+    propertyDemand,
+    purchasePrice,
+    resaleValue,
+} from "../../domain/Properties";
+import type { LeaseTerm, PropertyListing } from "../../domain/Properties";
+import type { ApiGarage } from "../../services/apiTypes";
 import "../../styles/browser.css";
+import "../../styles/ui/Property.css";
+import "../../styles/ui/Realtor.css";
 
 /**
- * Renders a placeholder for the Realtor page.
- * @returns JSX.Element - Placeholder content.
+ * Props for the RealtorPage component.
+ * @interface RealtorPageProps
  */
-export const RealtorPage: React.FC = () => {
+interface RealtorPageProps {
+    username: string; // Player username for API calls
+    propertyState?: PropertyState; // Shared with the map when opened from CyberMain
+}
+
+/**
+ * Listing filters.
+ * @interface ListingFilters
+ */
+interface ListingFilters {
+    area: string; // "" for every area
+    maxRent: number | null; // Monthly rent cap
+    minSlots: number; // Fleet slots
+    chargersOnly: boolean;
+}
+
+type RealtorTab = "market" | "mine";
+type PendingAction = "lease" | "buy" | "sell";
+
+const DEFAULT_FILTERS: ListingFilters = { area: "", maxRent: null, minSlots: 0, chargersOnly: false };
+const AREAS = [...new Set(PROPERTY_LISTINGS.map((listing) => listing.area))].sort();
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const HEAT_BAR_PX = 50; // Demand bar width at 100%
+
+/**
+ * Describes when a lease is next due.
+ * @param leaseEndsAt - ISO date the lease is paid up to.
+ * @returns Date with the days left, or marked overdue.
+ */
+const renewalLabel = (leaseEndsAt: string): string => {
+    const daysLeft = Math.ceil((new Date(leaseEndsAt).getTime() - Date.now()) / MS_PER_DAY);
+    const date = new Date(leaseEndsAt).toLocaleDateString();
+    return daysLeft < 0 ? `${date} (overdue)` : `${date} (${daysLeft} day${daysLeft === 1 ? "" : "s"})`;
+};
+
+/**
+ * Renders a listing's demand as a heat bar.
+ * @param props - Listing to rate.
+ * @returns JSX.Element - Bar filled to the demand share, coloured by band.
+ */
+const DemandHeat: React.FC<{ listing: PropertyListing }> = ({ listing }) => {
+    const demand = propertyDemand(listing.coords);
+    const level = demandLevel(demand);
     return (
-        <div className="content-area">
-            <h3>Real Estate</h3>
-            <p>
-                Coming soon: Browse and purchase properties for your CyberTaxi
-                empire!
-            </p>
+        <span className="realtor-heat" title={`Demand ${Math.round(demand * 100)}%`}>
+            <span className={`realtor-heat-bar demand-${level}`} style={{ width: Math.round(Math.max(demand, 0.05) * HEAT_BAR_PX) }} />
+            <span className={`property-demand demand-${level}`}>{level}</span>
+        </span>
+    );
+};
+
+/**
+ * Renders the Realtor marketplace with market and My Properties tabs.
+ * @param props - Component props.
+ * @returns JSX.Element - Realtor page UI.
+ */
+export const RealtorPage: React.FC<RealtorPageProps> = ({ username, propertyState }) => {
+    const { isLoggedIn, bankBalance } = useCyber();
+    const ownState = usePlayerProperties(isLoggedIn && !propertyState, username); // Idle when CyberMain shares its state
+    const { properties, takenListingIds, errorMessage: loadError, lease, buy, sell } = propertyState ?? ownState;
+    const [tab, setTab] = useState<RealtorTab>("market");
+    const [filters, setFilters] = useState<ListingFilters>(DEFAULT_FILTERS);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [term, setTerm] = useState<LeaseTerm>("monthly");
+    const [confirming, setConfirming] = useState<string | null>(null); // `${action}:${id}` awaiting confirmation
+    const [pending, setPending] = useState<PendingAction | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [success, setSuccess] = useState<string | null>(null);
+
+    /** Listings nobody holds that pass the filters, cheapest first. */
+    const available = useMemo(
+        () =>
+            PROPERTY_LISTINGS.filter(
+                (listing) =>
+                    !takenListingIds.includes(listing.id) &&
+                    !properties.some((property) => property.listing_id === listing.id) &&
+                    (filters.area === "" || listing.area === filters.area) &&
+                    (filters.maxRent === null || monthlyRent(listing) <= filters.maxRent) &&
+                    listing.slots >= filters.minSlots &&
+                    (!filters.chargersOnly || listing.chargers > 0)
+            ).sort((a, b) => monthlyRent(a) - monthlyRent(b)),
+        [takenListingIds, properties, filters]
+    );
+    const selected = available.find((listing) => listing.id === selectedId) ?? null;
+
+    /**
+     * Updates the filters and cancels a pending confirmation; a selection the filters hide leaves the checkout.
+     * @param change - Filters to change.
+     */
+    const updateFilters = (change: Partial<ListingFilters>) => {
+        setFilters((current) => ({ ...current, ...change }));
+        setConfirming(null);
+    };
+
+    /**
+     * Runs a checkout or sale, asking for confirmation first for buying and selling.
+     * @param action - Lease, buy or sell.
+     * @param key - Listing or garage the action is for.
+     * @param run - The call; resolves to the success message.
+     */
+    const handleAction = async (action: PendingAction, key: string, run: () => Promise<string>) => {
+        const confirmKey = `${action}:${key}`;
+        if (action !== "lease" && confirming !== confirmKey) {
+            setConfirming(confirmKey);
+            return;
+        }
+        setConfirming(null);
+        setPending(action);
+        setError(null);
+        setSuccess(null);
+        try {
+            setSuccess(await run());
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : "Unknown error";
+            console.error(`RealtorPage: Failed to ${action} ${key}:`, errorMessage);
+            setError(errorMessage);
+        } finally {
+            setPending(null);
+        }
+    };
+
+    /**
+     * Renders the checkout for the selected listing.
+     * @param listing - Selected listing.
+     * @returns JSX.Element - Term choice, costs and actions.
+     */
+    const renderCheckout = (listing: PropertyListing) => {
+        const cost = leaseCost(listing, term);
+        const price = purchasePrice(listing);
+        return (
+            <div className="realtor-checkout">
+                <h4>{listing.name}</h4>
+                <div className="property-details-row">
+                    <span>{listing.address}</span>
+                    <span>{listing.type === "garage" ? "Garage" : "Lot"}, {listing.sizeSqft.toLocaleString()} sq ft</span>
+                </div>
+                <div className="property-details-row">
+                    <span>Rent</span>
+                    <span>{formatDollars(monthlyRent(listing))}/month</span>
+                </div>
+                {Object.values(LEASE_TERMS).map((spec) => (
+                    <label key={spec.id} className="property-details-row">
+                        <span>
+                            <input
+                                type="radio"
+                                name="realtor-term"
+                                checked={term === spec.id}
+                                onChange={() => setTerm(spec.id)}
+                            />{" "}
+                            {spec.label}
+                            {spec.discount > 0 && ` (−${Math.round(spec.discount * 100)}%)`}
+                        </span>
+                        <span>{formatDollars(leaseCost(listing, spec.id))}</span>
+                    </label>
+                ))}
+                <div className="property-details-row">
+                    <span>Buy outright</span>
+                    <span>{formatDollars(price)}</span>
+                </div>
+                {bankBalance < cost && (
+                    <p className="insufficient-message">Short {formatDollars(cost - bankBalance)} for this lease</p>
+                )}
+                <div className="property-details-actions">
+                    <button
+                        onClick={() =>
+                            handleAction("lease", listing.id, async () => {
+                                await lease(listing, term);
+                                setSelectedId(null);
+                                return `Leased ${listing.name} (${LEASE_TERMS[term].label.toLowerCase()}) for ${formatDollars(cost)}`;
+                            })
+                        }
+                        disabled={pending !== null || bankBalance < cost}
+                    >
+                        <i className="fas fa-file-signature" />
+                        Lease
+                    </button>
+                    <button
+                        onClick={() =>
+                            handleAction("buy", listing.id, async () => {
+                                await buy(listing);
+                                setSelectedId(null);
+                                return `Bought ${listing.name} for ${formatDollars(price)}`;
+                            })
+                        }
+                        disabled={pending !== null || bankBalance < price}
+                        className={confirming === `buy:${listing.id}` ? "confirm" : ""}
+                    >
+                        <i className="fas fa-key" />
+                        {confirming === `buy:${listing.id}` ? "Confirm Purchase" : "Buy"}
+                    </button>
+                </div>
+            </div>
+        );
+    };
+
+    /**
+     * Renders one of the player's properties.
+     * @param property - Garage record.
+     * @returns JSX.Element - Row with tenure, renewal date and sell button.
+     */
+    const renderProperty = (property: ApiGarage) => {
+        const listing = property.listing_id ? findListing(property.listing_id) : null;
+        const owned = property.tenure === "own";
+        const confirmKey = `sell:${property.id}`;
+        return (
+            <tr key={property.id}>
+                <td>
+                    {property.name}
+                    {listing && <div className="realtor-muted">{listing.area}</div>}
+                </td>
+                <td>{owned ? "Owned" : `Leased (${LEASE_TERMS[property.lease_term ?? "monthly"].label})`}</td>
+                <td>{property.capacity}</td>
+                <td>{formatDollars(property.price_paid)}</td>
+                <td>{!owned && property.lease_ends_at ? renewalLabel(property.lease_ends_at) : "—"}</td>
+                <td>{owned ? formatDollars(resaleValue(property.price_paid)) : "—"}</td>
+                <td className="property-details-actions">
+                    <button
+                        onClick={() =>
+                            handleAction("sell", String(property.id), async () => {
+                                const credited = await sell(property.id);
+                                return owned ? `Sold ${property.name} for ${formatDollars(credited)}` : `Ended lease on ${property.name}`;
+                            })
+                        }
+                        disabled={pending !== null}
+                        className={confirming === confirmKey ? "confirm" : ""}
+                    >
+                        <i className="fas fa-sign-out-alt" />
+                        {confirming === confirmKey ? "Confirm" : owned ? "Sell" : "End Lease"}
+                    </button>
+                </td>
+            </tr>
+        );
+    };
+
+    if (!isLoggedIn) {
+        return (
+            <div className="realtor-page">
+                <h3>Real Estate</h3>
+                <p>Log in to lease or buy garages and lots.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="realtor-page" role="main" aria-label="Realtor marketplace">
+            <div className="realtor-header">
+                <h3>Realtor.ct — Garages &amp; Lots</h3>
+                <span>Balance: {formatDollars(bankBalance)}</span>
+            </div>
+            <div className="realtor-tabs" role="tablist">
+                <button className={`menu-btn ${tab === "market" ? "active" : ""}`} role="tab" onClick={() => setTab("market")}>
+                    <i className="fas fa-warehouse" aria-hidden="true"></i> For Lease or Sale ({available.length})
+                </button>
+                <button className={`menu-btn ${tab === "mine" ? "active" : ""}`} role="tab" onClick={() => setTab("mine")}>
+                    <i className="fas fa-key" aria-hidden="true"></i> My Properties ({properties.length})
+                </button>
+            </div>
+            {loadError && <p className="property-details-error">{loadError}</p>}
+            {error && <p className="property-details-error">{error}</p>}
+            {success && <p className="property-details-notice">{success}</p>}
+
+            {tab === "market" ? (
+                <>
+                    <div className="realtor-filters">
+                        <label>
+                            Area
+                            <select value={filters.area} onChange={(e) => updateFilters({ area: e.target.value })}>
+                                <option value="">All areas</option>
+                                {AREAS.map((area) => (
+                                    <option key={area} value={area}>
+                                        {area}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <label>
+                            Max rent
+                            <input
+                                type="number"
+                                min={0}
+                                step={100}
+                                placeholder="Any"
+                                value={filters.maxRent ?? ""}
+                                onChange={(e) => updateFilters({ maxRent: e.target.value === "" ? null : Number(e.target.value) })}
+                            />
+                        </label>
+                        <label>
+                            Min slots
+                            <input
+                                type="number"
+                                min={0}
+                                value={filters.minSlots}
+                                onChange={(e) => updateFilters({ minSlots: Math.max(0, Number(e.target.value) || 0) })}
+                            />
+                        </label>
+                        <label>
+                            <input
+                                type="checkbox"
+                                checked={filters.chargersOnly}
+                                onChange={(e) => updateFilters({ chargersOnly: e.target.checked })}
+                            />{" "}
+                            With chargers
+                        </label>
+                    </div>
+                    <div className="realtor-market">
+                        <ul className="realtor-listings">
+                            {available.length === 0 && <li className="realtor-muted">No listings match these filters.</li>}
+                            {available.map((listing) => (
+                                <li
+                                    key={listing.id}
+                                    className={`realtor-listing ${listing.id === selectedId ? "selected" : ""}`}
+                                    onClick={() => {
+                                        setSelectedId(listing.id);
+                                        setConfirming(null);
+                                    }}
+                                >
+                                    <div className="property-details-row">
+                                        <strong>{listing.name}</strong>
+                                        <span>{formatDollars(monthlyRent(listing))}/mo</span>
+                                    </div>
+                                    <div className="property-details-row realtor-muted">
+                                        <span>
+                                            {listing.area} · {listing.type === "garage" ? "Garage" : "Lot"} · {listing.slots} slots
+                                            {listing.chargers > 0 && ` · ${listing.chargers} chargers`}
+                                        </span>
+                                        <DemandHeat listing={listing} />
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                        <div className="realtor-detail">
+                            <PropertyPreviewMap
+                                listings={available}
+                                properties={properties}
+                                selectedId={selectedId}
+                                onSelect={(listing) => {
+                                    setSelectedId(listing.id);
+                                    setConfirming(null);
+                                }}
+                            />
+                            {selected ? (
+                                renderCheckout(selected)
+                            ) : (
+                                <p className="realtor-muted">Select a listing to lease or buy it.</p>
+                            )}
+                        </div>
+                    </div>
+                </>
+            ) : properties.length === 0 ? (
+                <p className="realtor-muted">You have no garages or lots yet.</p>
+            ) : (
+                <table className="realtor-properties">
+                    <thead>
+                        <tr>
+                            <th>Property</th>
+                            <th>Tenure</th>
+                            <th>Slots</th>
+                            <th>Paid</th>
+                            <th>Renews</th>
+                            <th>Sale value</th>
+                            <th></th>
+                        </tr>
+                    </thead>
+                    <tbody>{properties.map(renderProperty)}</tbody>
+                </table>
+            )}
         </div>
     );
 };
@@ -1,11 +1,45 @@
 /**
- * TeslaPage.tsx - Renders the Tesla purchase page in CyberBrowser for CyberTaxi.
- * Displays vehicle options (Model Y, RoboCab) with images, checks player funds and slots, and handles purchases, per GDD v1.1.
+ * TeslaPage.tsx - Renders the Tesla Service Center page in CyberBrowser for CyberTaxi.
+ * New tab: the vehicle catalog's models with images and specs and the service center's stock, ordering a vehicle for
+ * delivery to a chosen garage, and the player's orders with a delivery countdown. Used tab: the rotating used
+ * inventory with wear, mileage and price. Sell tab: a quote for each of the player's vehicles, with what a service
+ * first would add, per GDD v1.1. Every purchase also pays the vehicle's first taxi permit, and a free license stops
+ * purchases at its vehicle cap.
  * @module TeslaPage
- * @version 0.2.6
+ * @version 0.6.2
+ * @note Models come from the vehicle catalog (domain/VehicleCatalog.ts), rendered as data: a new catalog entry shows up
+ *       here without changes. Order states come from domain/Orders.ts, used prices from domain/UsedMarket.ts. Pass
+ *       CyberMain's catalog as catalog, its usePlayerOrders, usePlayerProperties and usePlayerLicenses state as
+ *       orderState, propertyState and licenseState, and its fleet, wear states and reload as fleet, wearStates and
+ *       onFleetChanged, so bought, delivered and sold vehicles update the map at once; without them (legacy main.tsx)
+ *       the page loads its own copies. The cap and permit fee come from domain/Licensing.ts.
  */
 import React, { useEffect, useState } from "react";
+import { useCyber } from "../../context/CyberContext";
+import { ApiClient } from "../../services/ApiClient";
+import type { ApiGarage, ApiOrder, ApiUsedListing } from "../../services/apiTypes";
+import { usePlayerLicenses } from "../mapping/usePlayerLicenses";
+import type { LicenseState } from "../mapping/usePlayerLicenses";
+import { usePlayerOrders } from "../mapping/usePlayerOrders";
+import type { OrderState } from "../mapping/usePlayerOrders";
+import { usePlayerProperties } from "../mapping/usePlayerProperties";
+import type { PropertyState } from "../mapping/usePlayerProperties";
+import { usePlayerVehicles } from "../mapping/usePlayerVehicles";
+import { useUsedMarket } from "../mapping/useUsedMarket";
+import { useVehicleCatalog } from "../mapping/useVehicleCatalog";
+import { PERMIT_FEE } from "../../domain/Licensing";
+import { BACKORDER_DAYS, ORDER_STATUS_LABELS, PREP_MS, TRANSIT_MS, formatCountdown, orderStatus } from "../../domain/Orders";
+import { formatDollars } from "../../domain/Properties";
+import { USED_ROTATION_MS, repairQuote } from "../../domain/UsedMarket";
+import { canTransition } from "../../domain/Vehicle";
+import type { Vehicle } from "../../domain/Vehicle";
+import { AVAILABILITY_LABELS, isOrderable, modelFor, showroomModels } from "../../domain/VehicleCatalog";
+import type { VehicleModel } from "../../domain/VehicleCatalog";
+import { MAINTENANCE, wearAfterService } from "../../simulation/Wear";
+import type { WearState } from "../../simulation/Wear";
 import "../../styles/browser.css";
+import "../../styles/ui/Property.css";
+import "../../styles/ui/Tesla.css";
 
 /**
  * Props for the TeslaPage component.
@@ -13,525 +47,449 @@ import "../../styles/browser.css";
  */
 interface TeslaPageProps {
     username: string; // Player username for API calls
+    catalog?: VehicleModel[]; // Vehicle models shared with the simulation (CyberMain)
+    orderState?: OrderState; // Shared with the fleet and notifications when opened from CyberMain
+    licenseState?: LicenseState; // Vehicle cap, shared with City Hall (CyberMain)
+    propertyState?: PropertyState; // Shared with the map when opened from CyberMain
+    fleet?: Vehicle[]; // The player's vehicles, for the Sell tab (CyberMain)
+    wearStates?: readonly WearState[]; // Simulated wear, which prices a sale (CyberMain)
+    onFleetChanged?: () => void; // Reloads the fleet after a purchase, delivery or sale (CyberMain)
 }
 
+type TeslaTab = "new" | "used" | "sell";
+
+const COUNTDOWN_TICK_MS = 1000;
+const IN_STOCK_HOURS = (PREP_MS + TRANSIT_MS) / 3600000; // Order to garage for a vehicle in stock
+const SERVICE_COST = (MAINTENANCE.service.costRange[0] + MAINTENANCE.service.costRange[1]) / 2; // Expected, for the repair quote
+
 /**
- * Renders the Tesla purchase page with vehicle options and purchase controls.
+ * Renders the Tesla Service Center: new models and orders, used listings, and sale quotes for the fleet.
  * @param props - Component props.
  * @returns JSX.Element - Tesla page UI.
  */
-export const TeslaPage: React.FC<TeslaPageProps> = ({ username }) => {
-    const [balance, setBalance] = useState<number | null>(null);
+export const TeslaPage: React.FC<TeslaPageProps> = ({
+    username,
+    catalog,
+    orderState,
+    licenseState,
+    propertyState,
+    fleet,
+    wearStates,
+    onFleetChanged,
+}) => {
+    const { isLoggedIn, bankBalance } = useCyber();
+    const ownCatalog = useVehicleCatalog(isLoggedIn && !catalog);
+    const models = catalog ?? ownCatalog.models;
+    const ownProperties = usePlayerProperties(isLoggedIn && !propertyState, username); // Idle when CyberMain shares its state
+    const { properties } = propertyState ?? ownProperties;
+    const ownVehicles = usePlayerVehicles(isLoggedIn && !fleet, username);
+    const vehicles = fleet ?? ownVehicles.fleet;
+    const reloadFleet = onFleetChanged ?? ownVehicles.reload;
+    const ownOrders = usePlayerOrders(isLoggedIn && !orderState, reloadFleet);
+    const { orders, stock, errorMessage: loadError, placeOrder } = orderState ?? ownOrders;
+    const market = useUsedMarket(isLoggedIn, reloadFleet);
+    const ownLicenses = usePlayerLicenses(isLoggedIn && !licenseState, vehicles);
+    const { vehicleCap, canAddVehicle } = licenseState ?? ownLicenses;
+    const [tab, setTab] = useState<TeslaTab>("new");
+    const [confirmSell, setConfirmSell] = useState<string | null>(null); // Vehicle awaiting a sale confirmation
     const [availableSlots, setAvailableSlots] = useState<number | null>(null);
+    const [slotReloads, setSlotReloads] = useState(0);
+    const [garageId, setGarageId] = useState<number | null>(null);
+    const [pending, setPending] = useState<string | null>(null); // Model, listing or vehicle being traded
     const [error, setError] = useState<string | null>(null);
     const [success, setSuccess] = useState<string | null>(null);
-    const [token, setToken] = useState<string | null>(
-        localStorage.getItem("jwt_token")
-    );
-    const [playerId, setPlayerId] = useState<string | null>(
-        localStorage.getItem("player_id")
-    );
+    const [now, setNow] = useState(() => new Date());
+
+    const garages = properties.filter((property) => property.type === "garage"); // Lots cannot take deliveries
+    const destination: ApiGarage | null = garages.find((garage) => garage.id === garageId) ?? garages[0] ?? null;
+    const handover: ApiGarage | null = properties.find((property) => property.id === garageId) ?? properties[0] ?? null; // Used vehicles: any property
+    const sellable = vehicles.filter((vehicle) => vehicle.status !== "sold" && vehicle.status !== "ordered" && vehicle.status !== "delivering");
+    const hasPending = orders.some((order) => order.status !== "delivered");
+    const capMessage = `Your free license covers ${vehicleCap ?? 0} vehicles; get a Taxi License at City Hall for more`;
 
     /**
-     * Refreshes JWT token if invalid, using /api/auth/login/username.
+     * Fetches the player's free slots on mount and after each order.
      */
-    const refreshToken = async (): Promise<string | null> => {
-        try {
-            console.log(
-                `Attempting to refresh token for username: ${username}`
-            );
-            const response = await fetch(
-                "http://localhost:3000/api/auth/login/username",
-                {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({ username, password: "test123" }),
-                }
-            );
-            const result = await response.json();
-            console.log("Token refresh response:", result);
-            if (result.status === "Success" && result.token) {
-                console.log(
-                    "Token refresh successful, new token:",
-                    result.token.slice(0, 10) + "..."
-                );
-                localStorage.setItem("jwt_token", result.token);
-                setToken(result.token);
-                if (result.player_id) {
-                    localStorage.setItem("player_id", String(result.player_id));
-                    setPlayerId(String(result.player_id));
-                }
-                localStorage.setItem("username", username);
-                return result.token;
-            } else {
-                throw new Error(result.message || "Token refresh failed");
-            }
-        } catch (error) {
-            const errorMessage =
-                error instanceof Error ? error.message : "Unknown error";
-            console.error("Token refresh error:", errorMessage);
-            setError("Failed to refresh token: " + errorMessage);
-            return null;
-        }
-    };
+    useEffect(() => {
+        if (!username) return;
+        let cancelled = false;
+        ApiClient.getSlots(username) // Schema-validated by ApiClient
+            .then((data) => {
+                if (cancelled) return;
+                setAvailableSlots(data.total_slots - data.used_slots);
+                console.log(`TeslaPage: Slots ${data.used_slots}/${data.total_slots}`);
+            })
+            .catch((err) => {
+                if (cancelled) return;
+                const errorMessage = err instanceof Error ? err.message : "Unknown error";
+                console.error("TeslaPage: Slots fetch error:", errorMessage);
+                setError(`Failed to fetch slots: ${errorMessage}`);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [username, slotReloads]);
 
     /**
-     * Fetches player slots from /api/player/:player_id/slots.
+     * Ticks the delivery countdown while an order is on its way.
      */
-    const fetchSlots = async () => {
-        let currentToken = token || localStorage.getItem("jwt_token");
-        if (!currentToken || !playerId || isNaN(parseInt(playerId))) {
-            setError("No valid authentication token or player ID found");
-            console.log("Invalid playerId:", playerId);
-            return;
-        }
+    useEffect(() => {
+        if (!hasPending) return;
+        const interval = window.setInterval(() => setNow(new Date()), COUNTDOWN_TICK_MS);
+        return () => window.clearInterval(interval);
+    }, [hasPending]);
+
+    /**
+     * Runs an order, purchase or sale and reports its result.
+     * @param key - Model, listing or vehicle being traded, for the pending button.
+     * @param run - The call; resolves to the success message.
+     */
+    const handleAction = async (key: string, run: () => Promise<string>) => {
+        setConfirmSell(null);
+        setPending(key);
+        setError(null);
+        setSuccess(null);
         try {
-            console.log(`Fetching slots from /api/player/${playerId}/slots`, {
-                token: currentToken.slice(0, 10) + "...",
-            });
-            const response = await fetch(
-                `http://localhost:3000/api/player/${playerId}/slots`,
-                {
-                    method: "GET",
-                    headers: {
-                        Authorization: `Bearer ${currentToken}`,
-                        "Content-Type": "application/json",
-                    },
-                }
-            );
-            if (!response.ok) {
-                const errorText = await response.text();
-                console.log("API error response:", errorText);
-                if (response.status === 401 || response.status === 403) {
-                    console.error("Token invalid or unauthorized:", errorText);
-                    setError("Session expired. Attempting to refresh token...");
-                    const newToken = await refreshToken();
-                    if (!newToken) {
-                        return;
-                    }
-                    console.log(
-                        `Retrying fetch with new token: ${newToken.slice(
-                            0,
-                            10
-                        )}...`
-                    );
-                    const retryResponse = await fetch(
-                        `http://localhost:3000/api/player/${playerId}/slots`,
-                        {
-                            method: "GET",
-                            headers: {
-                                Authorization: `Bearer ${newToken}`,
-                                "Content-Type": "application/json",
-                            },
-                        }
-                    );
-                    if (!retryResponse.ok) {
-                        const retryErrorText = await retryResponse.text();
-                        console.log(
-                            "Retry API error response:",
-                            retryErrorText
-                        );
-                        throw new Error(
-                            `HTTP ${retryResponse.status}: Failed to fetch slots after token refresh - ${retryErrorText}`
-                        );
-                    }
-                    const retryData = await retryResponse.json();
-                    console.log(
-                        "Slots retry response:",
-                        JSON.stringify(retryData, null, 2)
-                    );
-                    if (
-                        retryData.status === "Success" &&
-                        typeof retryData.total_slots === "number" &&
-                        typeof retryData.used_slots === "number"
-                    ) {
-                        setAvailableSlots(
-                            retryData.total_slots - retryData.used_slots
-                        );
-                        console.log(
-                            `Rendering slots: ${retryData.used_slots}/${retryData.total_slots}`
-                        );
-                    } else {
-                        console.warn("Invalid slots retry data:", retryData);
-                        setError("No valid slot data found");
-                    }
-                } else {
-                    throw new Error(errorText);
-                }
-            } else {
-                const data = await response.json();
-                console.log("Slots response:", JSON.stringify(data, null, 2));
-                if (
-                    data.status === "Success" &&
-                    typeof data.total_slots === "number" &&
-                    typeof data.used_slots === "number"
-                ) {
-                    setAvailableSlots(data.total_slots - data.used_slots);
-                } else {
-                    throw new Error(data.message || "Failed to fetch slots");
-                }
-            }
-        } catch (error) {
-            const errorMessage =
-                error instanceof Error ? error.message : "Unknown error";
-            console.error("Slots fetch error:", errorMessage);
-            setError("Failed to fetch slots: " + errorMessage);
+            setSuccess(await run());
+            setSlotReloads((count) => count + 1);
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : "Unknown error";
+            console.error(`TeslaPage: Failed on ${key}:`, errorMessage);
+            setError(errorMessage);
+        } finally {
+            setPending(null);
         }
     };
 
     /**
-     * Fetches player balance from /api/player/:player_id/balance.
+     * Orders a model for the chosen garage.
+     * @param model - Model to order.
      */
-    const fetchBalance = async () => {
-        let currentToken = token || localStorage.getItem("jwt_token");
-        if (!currentToken || !playerId || isNaN(parseInt(playerId))) {
-            setError("No valid authentication token or player ID found");
-            console.log("Invalid playerId:", playerId);
+    const handleOrder = (model: VehicleModel) => {
+        if (!canAddVehicle) {
+            setError(capMessage);
             return;
         }
-        try {
-            console.log(
-                `Fetching balance from /api/player/${playerId}/balance`,
-                {
-                    token: currentToken.slice(0, 10) + "...",
-                }
-            );
-            const response = await fetch(
-                `http://localhost:3000/api/player/${playerId}/balance`,
-                {
-                    method: "GET",
-                    headers: {
-                        Authorization: `Bearer ${currentToken}`,
-                        "Content-Type": "application/json",
-                    },
-                }
-            );
-            if (!response.ok) {
-                const errorText = await response.text();
-                console.log("API error response:", errorText);
-                if (response.status === 401 || response.status === 403) {
-                    console.error("Token invalid or unauthorized:", errorText);
-                    setError("Session expired. Attempting to refresh token...");
-                    const newToken = await refreshToken();
-                    if (!newToken) {
-                        return;
-                    }
-                    console.log(
-                        `Retrying fetch with new token: ${newToken.slice(
-                            0,
-                            10
-                        )}...`
-                    );
-                    const retryResponse = await fetch(
-                        `http://localhost:3000/api/player/${playerId}/balance`,
-                        {
-                            method: "GET",
-                            headers: {
-                                Authorization: `Bearer ${newToken}`,
-                                "Content-Type": "application/json",
-                            },
-                        }
-                    );
-                    if (!retryResponse.ok) {
-                        const retryErrorText = await retryResponse.text();
-                        console.log(
-                            "Retry API error response:",
-                            retryErrorText
-                        );
-                        throw new Error(
-                            `HTTP ${retryResponse.status}: Failed to fetch balance after token refresh - ${retryErrorText}`
-                        );
-                    }
-                    const retryData = await retryResponse.json();
-                    console.log(
-                        "Balance retry response:",
-                        JSON.stringify(retryData, null, 2)
-                    );
-                    if (
-                        retryData.status === "Success" &&
-                        typeof retryData.bank_balance === "number"
-                    ) {
-                        setBalance(retryData.bank_balance);
-                    } else {
-                        console.warn("Invalid balance retry data:", retryData);
-                        setError("No valid balance data found");
-                    }
-                } else {
-                    throw new Error(errorText);
-                }
-            } else {
-                const data = await response.json();
-                console.log("Balance response:", JSON.stringify(data, null, 2));
-                if (data.status === "Success") {
-                    setBalance(data.bank_balance);
-                } else {
-                    throw new Error(data.message || "Failed to fetch balance");
-                }
-            }
-        } catch (error) {
-            const errorMessage =
-                error instanceof Error ? error.message : "Unknown error";
-            console.error("Balance fetch error:", errorMessage);
-            setError("Failed to fetch balance: " + errorMessage);
+        if (!destination) {
+            setError("Lease or buy a garage first; vehicles are not delivered to lots");
+            return;
         }
+        handleAction(model.id, async () => {
+            const order = await placeOrder(model, destination);
+            return order.from_stock
+                ? `Ordered ${model.name} (${order.vehicle_id}) from stock for ${destination.name}`
+                : `Ordered ${model.name} (${order.vehicle_id}); out of stock, arriving ${new Date(order.deliver_at).toLocaleString()}`;
+        });
     };
 
     /**
-     * Handles vehicle purchase via POST /api/vehicles/purchase.
+     * Buys a used listing, handed over at the chosen property.
+     * @param listing - Listing to buy.
      */
-    const handlePurchase = async (type: "Model Y" | "RoboCab") => {
-        const cost = type === "Model Y" ? 50000 : 35000;
-        console.log(
-            `Purchase ${type} clicked, slots: ${availableSlots}, balance: ${balance}`
-        );
-        if (!playerId) {
-            setError("Player ID not found");
-            return;
-        }
-        if (availableSlots === null || availableSlots <= 0) {
-            setError("No available slots for vehicle purchase");
+    const handleBuy = (listing: ApiUsedListing) => {
+        if (!canAddVehicle) {
+            setError(capMessage);
             return;
         }
-        if (!canPurchase(cost)) {
-            setError(`Insufficient funds for ${type} purchase`);
+        if (!handover) {
+            setError("Lease or buy a garage or lot first");
             return;
         }
-        let currentToken = token || localStorage.getItem("jwt_token");
-        if (!currentToken) {
-            setError("No authentication token found");
+        handleAction(listing.listing_id, async () => {
+            const vehicleId = await market.buy(listing, handover);
+            return `Bought a used ${listing.type} (${vehicleId}) for ${formatDollars(listing.price)} plus its permit, waiting at ${handover.name}`;
+        });
+    };
+
+    /**
+     * Sells a vehicle at its current wear; the first click asks for confirmation.
+     * @param vehicle - Vehicle to sell.
+     * @param wear - Its simulated wear, saved before the sale, if the simulation has driven it.
+     */
+    const handleSell = (vehicle: Vehicle, wear: WearState | null) => {
+        if (confirmSell !== vehicle.id) {
+            setConfirmSell(vehicle.id);
             return;
         }
-        try {
-            const response = await fetch(
-                "http://localhost:3000/api/vehicles/purchase",
-                {
-                    method: "POST",
-                    headers: {
-                        "Content-Type": "application/json",
-                        Authorization: `Bearer ${currentToken}`,
-                    },
-                    body: JSON.stringify({
-                        player_id: parseInt(playerId),
-                        type,
-                        cost,
-                        status: "active",
-                        coords: [30.2672, -97.7431], // Default Austin coords
-                    }),
-                }
-            );
-            if (!response.ok) {
-                if (response.status === 403) {
-                    console.log(
-                        "Token invalid or unauthorized, attempting refresh"
-                    );
-                    currentToken = await refreshToken();
-                    if (currentToken) {
-                        const retryResponse = await fetch(
-                            "http://localhost:3000/api/vehicles/purchase",
-                            {
-                                method: "POST",
-                                headers: {
-                                    "Content-Type": "application/json",
-                                    Authorization: `Bearer ${currentToken}`,
-                                },
-                                body: JSON.stringify({
-                                    player_id: parseInt(playerId),
-                                    type,
-                                    cost,
-                                    status: "active",
-                                    coords: [30.2672, -97.7431],
-                                }),
-                            }
-                        );
-                        if (!retryResponse.ok) {
-                            throw new Error(
-                                "Retry failed: " + (await retryResponse.text())
-                            );
-                        }
-                        const retryData = await retryResponse.json();
-                        if (retryData.success) {
-                            setSuccess(
-                                `Successfully purchased ${type} (ID: ${retryData.vehicle_id})`
-                            );
-                            setError(null);
-                            fetchSlots(); // Refresh slots
-                            fetchBalance(); // Refresh balance
-                        } else {
-                            throw new Error(
-                                retryData.message ||
-                                    "Failed to purchase vehicle"
-                            );
-                        }
-                    } else {
-                        throw new Error("Token refresh failed");
-                    }
-                } else {
-                    throw new Error(await response.text());
-                }
-            } else {
-                const data = await response.json();
-                if (data.success) {
-                    setSuccess(
-                        `Successfully purchased ${type} (ID: ${data.vehicle_id})`
-                    );
-                    setError(null);
-                    fetchSlots(); // Refresh slots
-                    fetchBalance(); // Refresh balance
-                } else {
-                    throw new Error(
-                        data.message || "Failed to purchase vehicle"
-                    );
-                }
-            }
-        } catch (error) {
-            const errorMessage =
-                error instanceof Error ? error.message : "Unknown error";
-            console.error("Purchase error:", errorMessage);
-            setError(`Failed to purchase ${type}: ${errorMessage}`);
-        }
+        handleAction(vehicle.id, async () => {
+            const salePrice = await market.sell(vehicle, wear);
+            return `Sold ${vehicle.id} for ${formatDollars(salePrice)}`;
+        });
     };
 
     /**
-     * Checks if player has enough funds to purchase a vehicle.
+     * Renders one model card.
+     * @param model - Catalog model.
+     * @returns JSX.Element - Picture, price, specs and order button.
      */
-    const canPurchase = (cost: number): boolean => {
-        console.log(
-            `Checking funds for ${
-                cost === 50000 ? "Model Y" : "RoboCab"
-            }: ${balance} vs ${cost}`
+    const renderModel = (model: VehicleModel) => {
+        const orderable = isOrderable(model);
+        const total = model.price + PERMIT_FEE;
+        const affordable = bankBalance >= total;
+        const blocked =
+            pending !== null ||
+            !orderable ||
+            !affordable ||
+            !canAddVehicle ||
+            !destination ||
+            availableSlots === null ||
+            availableSlots <= 0;
+        return (
+            <div key={model.id} className="vehicle-card">
+                <h3>{model.name}</h3>
+                <p>{formatDollars(model.price)}</p>
+                <p className="tesla-muted">+ {formatDollars(PERMIT_FEE)} taxi permit</p>
+                <img src={model.image} alt={`${model.name} Vehicle`} className="vehicle-image" />
+                <p className="tesla-specs">
+                    {model.seats} seats · {model.range_miles} mi range · {model.battery_kwh} kWh · {model.kwh_per_mile} kWh/mi
+                </p>
+                <p className="tesla-muted">{model.description}</p>
+                {!orderable && <p className={`tesla-availability ${model.availability}`}>{AVAILABILITY_LABELS[model.availability]}</p>}
+                {orderable && !affordable && <p className="insufficient-message">Short {formatDollars(total - bankBalance)}</p>}
+                <button className="purchase-btn" onClick={() => handleOrder(model)} disabled={blocked} aria-label={`Order ${model.name}`}>
+                    {pending === model.id ? "Ordering..." : "Order"}
+                </button>
+            </div>
         );
-        return balance !== null && balance >= cost;
     };
 
     /**
-     * Fetches slots and balance on mount or username/token change.
+     * Renders one used listing row.
+     * @param listing - Listing for sale.
+     * @returns JSX.Element - Vehicle, condition, price and buy button.
      */
-    useEffect(() => {
-        if (username && token) {
-            fetchSlots();
-            fetchBalance();
-        }
-    }, [username, token]);
-
-    return (
-        <div
-            className="tesla-page"
-            role="main"
-            aria-label="Tesla purchase interface"
-            style={{
-                padding: "20px",
-                fontFamily: '"Orbitron", sans-serif',
-                color: "#f5f5f5",
-            }}
-        >
-            {error && (
-                <div
-                    className="error-message"
-                    style={{
-                        color: "#ff4d4f",
-                        textAlign: "center",
-                        marginBottom: "10px",
-                    }}
-                >
-                    {error}
-                </div>
-            )}
-            {success && (
-                <div
-                    className="success-message"
-                    style={{
-                        color: "#4caf50",
-                        textAlign: "center",
-                        marginBottom: "10px",
-                    }}
-                >
-                    {success}
-                </div>
-            )}
-            <h2>Tesla Vehicle Purchase</h2>
-            <p>
-                Available Slots:{" "}
-                {availableSlots !== null ? availableSlots : "Loading..."}
-            </p>
-            <p>Balance: {balance !== null ? `$${balance}` : "Loading..."}</p>
-            <div className="vehicle-options">
-                <div className="vehicle-card">
-                    <h3>Model Y</h3>
-                    <p>Cost: $50,000</p>
-                    <img
-                        src="src/assets/showroom/ModelY-Showroom.png"
-                        alt="Model Y Vehicle"
-                        className="vehicle-image"
-                    />
-                    <button
-                        onClick={() => handlePurchase("Model Y")}
-                        disabled={
-                            !canPurchase(50000) ||
-                            availableSlots === null ||
-                            availableSlots <= 0
-                        }
-                        aria-label="Purchase Model Y"
-                        style={{
-                            padding: "8px",
-                            background:
-                                canPurchase(50000) &&
-                                availableSlots &&
-                                availableSlots > 0
-                                    ? "#d4a017"
-                                    : "#4a4a4a",
-                            border: "none",
-                            borderRadius: "4px",
-                            color: "#1a1a1a",
-                            cursor:
-                                canPurchase(50000) &&
-                                availableSlots &&
-                                availableSlots > 0
-                                    ? "pointer"
-                                    : "not-allowed",
-                        }}
-                    >
-                        Purchase
+    const renderListing = (listing: ApiUsedListing) => {
+        const affordable = bankBalance >= listing.price + PERMIT_FEE;
+        const blocked =
+            pending !== null || !affordable || !canAddVehicle || !handover || availableSlots === null || availableSlots <= 0;
+        return (
+            <tr key={listing.listing_id}>
+                <td>
+                    {modelFor(models, listing.type).name}
+                    <div className="tesla-muted">{listing.listing_id}</div>
+                </td>
+                <td>
+                    {listing.wear}% wear
+                    <div className="tesla-muted">
+                        {listing.mileage.toLocaleString()} mi, battery {listing.battery}%
+                    </div>
+                </td>
+                <td>
+                    {formatDollars(listing.price)}
+                    <div className="tesla-muted">New {formatDollars(listing.new_price)}</div>
+                </td>
+                <td>
+                    <button className="purchase-btn" onClick={() => handleBuy(listing)} disabled={blocked} aria-label={`Buy ${listing.type} ${listing.listing_id}`}>
+                        {pending === listing.listing_id ? "Buying..." : affordable ? "Buy" : "Short funds"}
                     </button>
-                </div>
-                <div className="vehicle-card">
-                    <h3>RoboCab</h3>
-                    <p>Cost: $35,000</p>
-                    <img
-                        src="src/assets/showroom/RoboCab-Showroom.jpg"
-                        alt="RoboCab Vehicle"
-                        className="vehicle-image"
-                    />
+                </td>
+            </tr>
+        );
+    };
+
+    /**
+     * Renders one row of the Sell tab.
+     * @param vehicle - One of the player's vehicles.
+     * @returns JSX.Element - Vehicle, wear, quotes and sell button.
+     */
+    const renderSale = (vehicle: Vehicle) => {
+        const wearState = wearStates?.find((state) => state.vehicleId === vehicle.id) ?? null;
+        const wear = wearState?.wear ?? vehicle.wear;
+        const quote = repairQuote(vehicle.cost, wear, SERVICE_COST, wearAfterService(wear));
+        const canSell = canTransition(vehicle.status, "sold");
+        return (
+            <tr key={vehicle.id}>
+                <td>
+                    {modelFor(models, vehicle.type).name}
+                    <div className="tesla-muted">
+                        {vehicle.id}, paid {formatDollars(vehicle.cost)}
+                    </div>
+                </td>
+                <td>{Math.round(wear)}%</td>
+                <td>
+                    {formatDollars(quote.asIs)}
+                    <div className="tesla-muted">
+                        {quote.gain > 0
+                            ? `Service first: +${formatDollars(quote.gain)} after ~${formatDollars(quote.serviceCost)}`
+                            : "A service would not pay off"}
+                    </div>
+                </td>
+                <td>
                     <button
-                        onClick={() => handlePurchase("RoboCab")}
-                        disabled={
-                            !canPurchase(35000) ||
-                            availableSlots === null ||
-                            availableSlots <= 0
-                        }
-                        aria-label="Purchase RoboCab"
-                        style={{
-                            padding: "8px",
-                            background:
-                                canPurchase(35000) &&
-                                availableSlots &&
-                                availableSlots > 0
-                                    ? "#d4a017"
-                                    : "#4a4a4a",
-                            border: "none",
-                            borderRadius: "4px",
-                            color: "#1a1a1a",
-                            cursor:
-                                canPurchase(35000) &&
-                                availableSlots &&
-                                availableSlots > 0
-                                    ? "pointer"
-                                    : "not-allowed",
-                        }}
+                        className="purchase-btn"
+                        onClick={() => handleSell(vehicle, wearState)}
+                        disabled={pending !== null || !canSell}
+                        title={canSell ? undefined : `Cannot sell while ${vehicle.status}; park it first`}
+                        aria-label={`Sell ${vehicle.id}`}
                     >
-                        Purchase
+                        {pending === vehicle.id ? "Selling..." : confirmSell === vehicle.id ? `Confirm (${formatDollars(quote.asIs)})` : "Sell"}
                     </button>
-                </div>
+                </td>
+            </tr>
+        );
+    };
+
+    /**
+     * Renders one order row.
+     * @param order - Order record.
+     * @returns JSX.Element - Vehicle, destination, state and countdown.
+     */
+    const renderOrder = (order: ApiOrder) => {
+        const status = order.status === "delivered" ? "delivered" : orderStatus(order, now);
+        return (
+            <tr key={order.id}>
+                <td>
+                    {modelFor(models, order.type).name}
+                    <div className="tesla-muted">{order.vehicle_id}</div>
+                </td>
+                <td>{order.garage_name ?? "No garage"}</td>
+                <td>
+                    <span className={`tesla-order-status status-${status}`}>{ORDER_STATUS_LABELS[status]}</span>
+                </td>
+                <td>
+                    {order.status === "delivered"
+                        ? new Date(order.delivered_at ?? order.deliver_at).toLocaleString()
+                        : formatCountdown(order.deliver_at, now)}
+                </td>
+            </tr>
+        );
+    };
+
+    return (
+        <div className="tesla-page" role="main" aria-label="Tesla purchase interface">
+            <div className="tesla-header">
+                <h3>Tesla Service Center</h3>
+                <span>Balance: {formatDollars(bankBalance)}</span>
+            </div>
+            <div className="tesla-tabs" role="tablist">
+                <button className={`menu-btn ${tab === "new" ? "active" : ""}`} role="tab" onClick={() => setTab("new")}>
+                    <i className="fas fa-car" aria-hidden="true"></i> New
+                </button>
+                <button className={`menu-btn ${tab === "used" ? "active" : ""}`} role="tab" onClick={() => setTab("used")}>
+                    <i className="fas fa-tags" aria-hidden="true"></i> Used ({market.listings.length})
+                </button>
+                <button className={`menu-btn ${tab === "sell" ? "active" : ""}`} role="tab" onClick={() => setTab("sell")}>
+                    <i className="fas fa-hand-holding-usd" aria-hidden="true"></i> Sell ({sellable.length})
+                </button>
             </div>
+            {loadError && <div className="property-details-error">{loadError}</div>}
+            {!catalog && ownCatalog.errorMessage && <div className="property-details-error">{ownCatalog.errorMessage}</div>}
+            {market.errorMessage && <div className="property-details-error">{market.errorMessage}</div>}
+            {error && <div className="property-details-error">{error}</div>}
+            {success && <div className="property-details-notice">{success}</div>}
+            {!canAddVehicle && tab !== "sell" && <div className="property-details-error">{capMessage}</div>}
+            {tab === "new" && (
+                <>
+                    <div className="tesla-stock">
+                        {stock === null
+                            ? "Checking stock..."
+                            : stock.in_stock > 0
+                              ? `In stock: ${stock.in_stock} of ${stock.daily_limit} arriving today. Delivery in about ${IN_STOCK_HOURS} hours.`
+                              : `Out of stock${stock.next_arrival ? ` until ${new Date(stock.next_arrival).toLocaleTimeString()}` : " today"}. Orders now arrive in ${BACKORDER_DAYS[0]}–${BACKORDER_DAYS[1]} days.`}
+                    </div>
+                    <div className="property-details-row">
+                        <span>Deliver to</span>
+                        {garages.length > 0 ? (
+                            <select value={destination?.id ?? ""} onChange={(e) => setGarageId(Number(e.target.value))}>
+                                {garages.map((garage) => (
+                                    <option key={garage.id} value={garage.id}>
+                                        {garage.name}
+                                    </option>
+                                ))}
+                            </select>
+                        ) : (
+                            <span className="tesla-muted">No garage yet; lots cannot take deliveries</span>
+                        )}
+                    </div>
+                    <div className="property-details-row">
+                        <span>Available slots</span>
+                        <span>{availableSlots !== null ? availableSlots : "Loading..."}</span>
+                    </div>
+                    <div className="vehicle-options">
+                        {models.length > 0 ? showroomModels(models).map(renderModel) : <p className="tesla-muted">Loading models...</p>}
+                    </div>
+                    <h4 className="tesla-orders-title">Your Orders</h4>
+                    {orders.length === 0 ? (
+                        <p className="tesla-muted">No orders yet.</p>
+                    ) : (
+                        <table className="tesla-orders">
+                            <thead>
+                                <tr>
+                                    <th>Vehicle</th>
+                                    <th>Garage</th>
+                                    <th>Status</th>
+                                    <th>Arrives</th>
+                                </tr>
+                            </thead>
+                            <tbody>{orders.map(renderOrder)}</tbody>
+                        </table>
+                    )}
+                </>
+            )}
+            {tab === "used" && (
+                <>
+                    <div className="tesla-stock">
+                        Pre-owned stock is replaced every {USED_ROTATION_MS / 3600000} hours
+                        {market.rotatesAt ? `; next at ${new Date(market.rotatesAt).toLocaleTimeString()}` : ""}. Priced at the new price
+                        less 10% and the wear, plus the {formatDollars(PERMIT_FEE)} taxi permit.
+                    </div>
+                    <div className="property-details-row">
+                        <span>Hand over at</span>
+                        {properties.length > 0 ? (
+                            <select value={handover?.id ?? ""} onChange={(e) => setGarageId(Number(e.target.value))}>
+                                {properties.map((property) => (
+                                    <option key={property.id} value={property.id}>
+                                        {property.name}
+                                    </option>
+                                ))}
+                            </select>
+                        ) : (
+                            <span className="tesla-muted">No garage or lot yet</span>
+                        )}
+                    </div>
+                    <div className="property-details-row">
+                        <span>Available slots</span>
+                        <span>{availableSlots !== null ? availableSlots : "Loading..."}</span>
+                    </div>
+                    {market.listings.length === 0 ? (
+                        <p className="tesla-muted">Sold out until the next rotation.</p>
+                    ) : (
+                        <table className="tesla-orders">
+                            <thead>
+                                <tr>
+                                    <th>Vehicle</th>
+                                    <th>Condition</th>
+                                    <th>Price</th>
+                                    <th></th>
+                                </tr>
+                            </thead>
+                            <tbody>{market.listings.map(renderListing)}</tbody>
+                        </table>
+                    )}
+                </>
+            )}
+            {tab === "sell" && (
+                <>
+                    <div className="tesla-stock">
+                        Sale price: what you paid less 10% and the current wear. Servicing a vehicle first clears three quarters of its wear.
+                    </div>
+                    {sellable.length === 0 ? (
+                        <p className="tesla-muted">No vehicles to sell.</p>
+                    ) : (
+                        <table className="tesla-orders">
+                            <thead>
+                                <tr>
+                                    <th>Vehicle</th>
+                                    <th>Wear</th>
+                                    <th>Sale price</th>
+                                    <th></th>
+                                </tr>
+                            </thead>
+                            <tbody>{sellable.map(renderSale)}</tbody>
+                        </table>
+                    )}
+                </>
+            )}
         </div>
     );
 };
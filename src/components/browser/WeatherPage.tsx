@@ -0,0 +1,122 @@
+/**
+ * WeatherPage.tsx - Weather Forecast in CyberBrowser for CyberTaxi.
+ * Shows Austin's current weather, what it does to trips (speed, wear and ride demand) and the next 24 hours, per the
+ * GDD's "Weather Forecast" section.
+ * @module WeatherPage
+ * @version 0.1.0
+ * @note Conditions and their effects come from domain/Weather.ts. Pass CyberMain's useWeather state as weatherState so
+ *       the page shows the forecast the map and fare simulation use; without it (legacy main.tsx) the page loads its
+ *       own copy through the same WeatherService cache.
+ */
+import React from "react";
+import { useWeather } from "../mapping/useWeather";
+import type { WeatherState } from "../mapping/useWeather";
+import { WEATHER_KINDS, toFahrenheit } from "../../domain/Weather";
+import type { WeatherSample } from "../../domain/Weather";
+import "../../styles/browser.css";
+import "../../styles/ui/Property.css";
+import "../../styles/ui/Weather.css";
+
+/**
+ * Props for the WeatherPage component.
+ * @interface WeatherPageProps
+ */
+interface WeatherPageProps {
+    weatherState?: WeatherState; // Shared with the map and fare simulation when opened from CyberMain
+}
+
+/**
+ * Renders the Weather Forecast: current conditions, their effect and the hourly forecast.
+ * @param props - Component props.
+ * @returns JSX.Element - Weather page UI.
+ */
+export const WeatherPage: React.FC<WeatherPageProps> = ({ weatherState }) => {
+    const ownWeather = useWeather(!weatherState); // Idle when CyberMain shares its state
+    const { forecast, current, modifiers, errorMessage, reload } = weatherState ?? ownWeather;
+
+    /**
+     * Renders one forecast hour.
+     * @param sample - The hour's weather.
+     * @returns JSX.Element - Time, conditions, temperature and rain.
+     */
+    const renderHour = (sample: WeatherSample) => (
+        <tr key={sample.time}>
+            <td>{new Date(sample.time).toLocaleTimeString([], { hour: "numeric" })}</td>
+            <td>
+                <i className={`fas ${WEATHER_KINDS[sample.kind].icon} weather-icon ${sample.kind}`} aria-hidden="true"></i>{" "}
+                {WEATHER_KINDS[sample.kind].label}
+            </td>
+            <td>{toFahrenheit(sample.temperatureC)}°F</td>
+            <td>{sample.precipitationChance !== null ? `${sample.precipitationChance}%` : "—"}</td>
+            <td>{sample.precipitationMm > 0 ? `${sample.precipitationMm} mm` : "—"}</td>
+        </tr>
+    );
+
+    return (
+        <div className="weather-page" role="main" aria-label="Weather Forecast">
+            <div className="weather-header">
+                <h3>Weather.ct — Austin Forecast</h3>
+                <button className="purchase-btn" onClick={reload} aria-label="Refresh forecast">
+                    <i className="fas fa-sync-alt" aria-hidden="true"></i> Refresh
+                </button>
+            </div>
+            {errorMessage && <div className="property-details-error">{errorMessage}</div>}
+            {!current ? (
+                <p className="weather-muted">{errorMessage ? "No forecast available." : "Loading forecast..."}</p>
+            ) : (
+                <>
+                    <div className="weather-now">
+                        <i className={`fas ${WEATHER_KINDS[current.kind].icon} weather-icon ${current.kind}`} aria-hidden="true"></i>
+                        <div>
+                            <strong>{WEATHER_KINDS[current.kind].label}</strong>
+                            <div>
+                                {toFahrenheit(current.temperatureC)}°F ({Math.round(current.temperatureC)}°C), wind{" "}
+                                {Math.round(current.windKph)} km/h
+                            </div>
+                            <div className="weather-muted">Precipitation: {current.precipitationMm} mm</div>
+                        </div>
+                    </div>
+                    <div className="weather-effects">
+                        <div className="property-details-row">
+                            <span>Trip speed</span>
+                            <span className={modifiers.speed < 1 ? "weather-worse" : ""}>
+                                {modifiers.speed < 1 ? `−${Math.round((1 - modifiers.speed) * 100)}%` : "Normal"}
+                            </span>
+                        </div>
+                        <div className="property-details-row">
+                            <span>Vehicle wear</span>
+                            <span className={modifiers.wear > 1 ? "weather-worse" : ""}>
+                                {modifiers.wear > 1 ? `+${Math.round((modifiers.wear - 1) * 100)}%` : "Normal"}
+                            </span>
+                        </div>
+                        <div className="property-details-row">
+                            <span>Ride demand</span>
+                            <span className={modifiers.demand > 1 ? "weather-better" : ""}>
+                                {modifiers.demand > 1 ? `+${Math.round((modifiers.demand - 1) * 100)}%` : "Normal"}
+                            </span>
+                        </div>
+                    </div>
+                </>
+            )}
+            {forecast && forecast.hourly.length > 0 && (
+                <table className="weather-hours">
+                    <thead>
+                        <tr>
+                            <th>Hour</th>
+                            <th>Conditions</th>
+                            <th>Temp</th>
+                            <th>Chance</th>
+                            <th>Rain</th>
+                        </tr>
+                    </thead>
+                    <tbody>{forecast.hourly.map(renderHour)}</tbody>
+                </table>
+            )}
+            {forecast && (
+                <p className="weather-muted">
+                    Source: {forecast.source}, updated {new Date(forecast.fetchedAt).toLocaleTimeString()}
+                </p>
+            )}
+        </div>
+    );
+};
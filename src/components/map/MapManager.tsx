@@ -3,21 +3,23 @@
  * Integrates with Leaflet map initialized in main.tsx, rendering player and non-player vehicles in a single cluster, per GDD v1.1.
  * Uses /api/player/:username/vehicles for player vehicles and /api/vehicles/others for non-player vehicles.
  * @module MapManager
- * @version 0.3.10
+ * @version 0.3.13
  */
 import React, { useEffect, useRef, useState } from "react";
 import L from "leaflet";
 import type { LatLngTuple, Map, MarkerClusterGroup } from "leaflet";
 import "leaflet.markercluster";
+import { ApiClient } from "../../services/ApiClient";
 import { createVehicleMarker } from "./vehicle-markers";
-import type { Vehicle } from "./vehicle-markers";
+import { isPlaced } from "../../domain/Vehicle";
+import type { PlacedVehicle } from "../../domain/Vehicle";
 
 /**
  * Props for the MapManager component.
  * @interface MapManagerProps
  */
 interface MapManagerProps {
-    vehicles: Vehicle[]; // Player vehicles
+    vehicles: PlacedVehicle[]; // Player vehicles
     setErrorMessage: (message: string | null) => void; // Sets error messages in UI
     mapRef: React.MutableRefObject<Map | null>; // Reference to Leaflet map
 }
@@ -33,7 +35,7 @@ export const MapManager: React.FC<MapManagerProps> = ({
     mapRef,
 }) => {
     const clusterRef = useRef<MarkerClusterGroup | null>(null);
-    const [otherVehicles, setOtherVehicles] = useState<Vehicle[]>([]);
+    const [otherVehicles, setOtherVehicles] = useState<PlacedVehicle[]>([]);
     const [hasZoomed, setHasZoomed] = useState(false); // Track initial zoom
     const [renderKey, setRenderKey] = useState(0); // Force re-render on key change
 
@@ -78,8 +80,7 @@ export const MapManager: React.FC<MapManagerProps> = ({
      */
     useEffect(() => {
         const fetchOtherVehicles = async () => {
-            const token = localStorage.getItem("jwt_token");
-            if (!token) {
+            if (!localStorage.getItem("jwt_token")) {
                 console.error("No JWT token found for other vehicles");
                 setErrorMessage(
                     "Authentication required to fetch other vehicles"
@@ -87,48 +88,17 @@ export const MapManager: React.FC<MapManagerProps> = ({
                 return;
             }
             try {
-                const response = await fetch(
-                    "http://localhost:3000/api/vehicles/others",
-                    {
-                        method: "GET",
-                        headers: { Authorization: `Bearer ${token}` },
-                    }
-                );
-                if (!response.ok) {
-                    const errorText = await response.text();
-                    throw new Error(
-                        `Other vehicles fetch failed: ${errorText}`
-                    );
-                }
-                const data = await response.json();
+                const data = await ApiClient.getOtherVehicles();
                 console.log(
                     "Other vehicles API response:",
                     JSON.stringify(data, null, 2)
                 );
-                if (data.status === "Success") {
-                    const validVehicles = data.vehicles.filter(
-                        (vehicle: Vehicle) =>
-                            vehicle.coords &&
-                            Array.isArray(vehicle.coords) &&
-                            vehicle.coords.length === 2 &&
-                            typeof vehicle.coords[0] === "number" &&
-                            typeof vehicle.coords[1] === "number" &&
-                            vehicle.coords[0] >= -90 &&
-                            vehicle.coords[0] <= 90 &&
-                            vehicle.coords[1] >= -180 &&
-                            vehicle.coords[1] <= 180
-                    );
-                    setOtherVehicles(validVehicles);
-                    console.log(
-                        `Fetched ${validVehicles.length} valid non-player vehicles`
-                    );
-                    setRenderKey((prev) => prev + 1); // Force re-render on new data
-                } else {
-                    console.error("Other vehicles fetch failed:", data.message);
-                    setErrorMessage(
-                        data.message || "Failed to fetch other vehicles"
-                    );
-                }
+                const validVehicles = data.vehicles.filter(isPlaced); // Schema already dropped invalid records
+                setOtherVehicles(validVehicles);
+                console.log(
+                    `Fetched ${validVehicles.length} valid non-player vehicles`
+                );
+                setRenderKey((prev) => prev + 1); // Force re-render on new data
             } catch (error) {
                 const errorMessage =
                     error instanceof Error
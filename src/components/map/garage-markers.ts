@@ -1,5 +1,6 @@
 // src/components/map/garage-markers.ts
 import L from "leaflet";
+import { PROPERTY_LISTINGS } from "../../domain/Properties";
 
 export interface Garage {
     id: string;
@@ -9,15 +10,14 @@ export interface Garage {
     type: "garage" | "lot";
 }
 
-const mockGarages: Garage[] = [
-    {
-        id: "G-001",
-        name: "Kevin-Dean Garage",
-        coords: [30.2673, -97.7431],
-        capacity: 5,
-        type: "garage",
-    }, // Offset lat by 0.0001
-];
+// Deprecated: listings now live in src/domain/Properties.ts and are drawn by components/mapping/PropertyMarkers.ts
+const mockGarages: Garage[] = PROPERTY_LISTINGS.map((listing) => ({
+    id: listing.id,
+    name: listing.name,
+    coords: listing.coords,
+    capacity: listing.slots,
+    type: listing.type,
+}));
 
 export function createGarageMarker(garage: Garage): L.Marker {
     const iconHtml = `<div style="background: #00A3E0; width: 20px; height: 20px; border: 2px solid #005566; box-shadow: 0 2px 4px rgba(0, 0, 0, 0.3);"></div>`;
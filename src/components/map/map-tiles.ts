@@ -1,8 +1,9 @@
 // src/components/map/map-tiles.ts - Modular Tile Layer with Error Handling
 import L from "leaflet";
+import { API_CONFIG } from "../../config/apiConfig";
 
 export function createTileLayer(style = "dark"): L.TileLayer {
-    const customUrl = `http://localhost:3000/api/tiles/${style}/{z}/{x}/{y}.png`; // Updated backend endpoint
+    const customUrl = `${API_CONFIG.BASE_URL}/tiles/${style}/{z}/{x}/{y}.png`; // Backend tile endpoint
     const fallbackUrl = "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"; // Fallback if custom fails
 
     try {
@@ -1,33 +1,15 @@
 /**
  * vehicle-markers.ts - Creates vehicle markers for CyberTaxi map.
  * Applies styles for player and non-player vehicles, per GDD v1.1.
- * Uses .custom-marker, .active-marker, .new-marker, .parked-marker, .vehicle-marker-others from vehicles.css.
+ * Uses .custom-marker, .<status>-marker, .vehicle-marker-others from vehicles.css; Vehicle comes from domain/Vehicle.ts.
  * @module VehicleMarkers
- * @version 0.3.1
+ * @version 0.4.0
  */
 import L from "leaflet";
+import { VEHICLE_STATUS_LABELS } from "../../domain/Vehicle";
+import type { PlacedVehicle } from "../../domain/Vehicle";
 
-/**
- * Vehicle data structure.
- * @interface Vehicle
- */
-export interface Vehicle {
-    id: string;
-    player_id: number;
-    type: string;
-    status: "active" | "parked" | "garage" | "new";
-    coords: [number, number];
-    dest?: [number, number] | null;
-    wear: number;
-    battery: number;
-    mileage?: number;
-    tire_mileage?: number;
-    purchase_date?: string;
-    delivery_timestamp?: string | null;
-    cost?: number;
-    created_at?: string;
-    updated_at?: string;
-}
+export type { Vehicle } from "../../domain/Vehicle"; // Kept for older importers (main.ts)
 
 /**
  * Extended MarkerOptions interface to include vehicleId.
@@ -45,7 +27,7 @@ interface CustomMarkerOptions extends L.MarkerOptions {
  * @returns L.Marker - Configured marker.
  */
 export function createVehicleMarker(
-    vehicle: Vehicle,
+    vehicle: PlacedVehicle,
     type: "player" | "other"
 ): L.Marker {
     console.log(`Applying ${type} filter to vehicle ${vehicle.id}`);
@@ -69,9 +51,9 @@ export function createVehicleMarker(
             type === "player" ? "Your Vehicle" : "Other Player"
         })</b><br>
         ID: ${vehicle.id}<br>
-        Status: ${vehicle.status}<br>
+        Status: ${VEHICLE_STATUS_LABELS[vehicle.status]}<br>
         Battery: ${vehicle.battery}%<br>
-        Mileage: ${vehicle.mileage || 0}`,
+        Mileage: ${vehicle.mileage}`,
         { className: "custom-popup" }
     );
     console.log(
@@ -0,0 +1,85 @@
+// src/components/mapping/ChargerMarkers.ts
+/**
+ * @file ChargerMarkers.ts
+ * @description Creates SuperCharger site markers for the CyberTaxi map.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note One marker per site in domain/ChargingSites.ts, drawn on MapArea's toggleable charger layer, per the GDD's
+ *       "SuperCharger Setup" section.
+ * @detail Uses .charger-marker (bolt icon) from ChargerMarkers.css, with .charger-marker-full when no stall is free.
+ *         The popup shows the charger type, price per kWh, stalls in use and the queue of player vehicles;
+ *         updateChargerMarker() refreshes both as the fare simulation reports occupancy. Without a status (simulation
+ *         off) only the site details are shown.
+ */
+import L from "leaflet";
+import type { ChargingSite } from "../../domain/ChargingSites";
+import { CHARGERS } from "../../simulation/Charging";
+import type { ChargingSiteStatus } from "../../simulation/Charging";
+import "../../styles/mapping/ChargerMarkers.css";
+
+/**
+ * Stalls in use at a site.
+ * @returns {number} Public and player stalls taken.
+ */
+const stallsInUse = (status: ChargingSiteStatus): number => status.publicInUse + status.playerInUse.length;
+
+/**
+ * Builds the marker icon for a site.
+ * @param status - Occupancy, if known.
+ * @returns {L.DivIcon} Bolt icon, dimmed when full.
+ */
+const createChargerIcon = (status: ChargingSiteStatus | null): L.DivIcon => {
+    const full = status !== null && stallsInUse(status) >= status.stalls;
+    return L.divIcon({
+        html: `<div class="charger-marker${full ? " charger-marker-full" : ""}"><i class="fas fa-bolt"></i></div>`,
+        iconSize: [22, 22],
+        iconAnchor: [11, 11],
+        popupAnchor: [0, -11],
+        className: "",
+    });
+};
+
+/**
+ * Builds the popup HTML for a site.
+ * @param site - Site data.
+ * @param status - Occupancy, if known.
+ * @returns {string} Popup content.
+ */
+const createChargerPopup = (site: ChargingSite, status: ChargingSiteStatus | null): string =>
+    `<b>${site.name} SuperCharger</b><br>
+        ${site.address}<br>
+        ${CHARGERS[site.charger].label}<br>
+        Price: $${site.pricePerKwh.toFixed(2)}/kWh<br>
+        ${
+            status
+                ? `Stalls: ${stallsInUse(status)} / ${status.stalls} in use<br>
+        Your vehicles: ${status.playerInUse.length} charging, ${status.queue.length} queued`
+                : `Stalls: ${site.stalls}`
+        }`;
+
+/**
+ * Creates a marker for a SuperCharger site.
+ * @param site - Site data.
+ * @param status - Occupancy, if known.
+ * @returns {L.Marker} Marker with popup.
+ */
+export function createChargerMarker(site: ChargingSite, status: ChargingSiteStatus | null): L.Marker {
+    const marker = L.marker(site.coords, {
+        icon: createChargerIcon(status),
+        zIndexOffset: 500, // Below vehicles
+        title: `${site.name} SuperCharger`,
+    });
+    marker.bindPopup(createChargerPopup(site, status));
+    return marker;
+}
+
+/**
+ * Refreshes a site marker's icon and popup for new occupancy.
+ * @param marker - Marker from createChargerMarker.
+ * @param site - Site data.
+ * @param status - Occupancy, if known.
+ */
+export function updateChargerMarker(marker: L.Marker, site: ChargingSite, status: ChargingSiteStatus | null): void {
+    marker.setIcon(createChargerIcon(status));
+    marker.setPopupContent(createChargerPopup(site, status));
+}
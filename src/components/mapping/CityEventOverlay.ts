@@ -0,0 +1,112 @@
+// src/components/mapping/CityEventOverlay.ts
+/**
+ * @file CityEventOverlay.ts
+ * @description Creates the traffic and protest hazard overlay for the CyberTaxi map.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Drawn on MapArea's toggleable hazard layer from the events useCityEvents shares through CyberMain, per the
+ *       GDD's "Weather/Traffic: Overlay indicators".
+ * @detail Each event is its polygon (orange for rush hour, red for a protest) with a hazard marker at its centre
+ *         (.city-event-marker in CityEventOverlay.css). Events still to come are drawn dashed and faint; a protest the
+ *         player rerouted around is marked "Avoided". The marker's popup gives the times and the effect on trips.
+ *         updateCityEventOverlay() redraws the layer when the events or the player's choices change.
+ */
+import L from "leaflet";
+import { CITY_EVENT_LABELS, PROTEST_SPEED, PROTEST_WEAR, RUSH_ROUTE_TIME, RUSH_WEAR } from "../../domain/CityEvents";
+import type { CityEvent, CityEventKind } from "../../domain/CityEvents";
+import "../../styles/mapping/CityEventOverlay.css";
+
+const COLORS: Readonly<Record<CityEventKind, string>> = {
+    rush_hour: "#fa8c16",
+    protest: "#ff4d4f",
+};
+
+/** Percentage change a multiplier makes, for popups. */
+const percent = (multiplier: number): number => Math.round((multiplier - 1) * 100);
+
+/** Local time of day, for popups. */
+const timeOf = (at: number): string => new Date(at).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+
+/**
+ * Builds an event's hazard marker icon.
+ * @param event - Event.
+ * @param avoided - Whether player vehicles avoid it.
+ * @returns {L.DivIcon} Warning icon in the event's colour.
+ */
+const createHazardIcon = (event: CityEvent, avoided: boolean): L.DivIcon =>
+    L.divIcon({
+        html: `<div class="city-event-marker city-event-${event.kind}${avoided ? " city-event-avoided" : ""}"><i class="fas ${CITY_EVENT_LABELS[event.kind].icon}"></i></div>`,
+        iconSize: [24, 24],
+        iconAnchor: [12, 12],
+        popupAnchor: [0, -12],
+        className: "",
+    });
+
+/**
+ * Builds an event's popup.
+ * @param event - Event.
+ * @param now - Epoch ms.
+ * @param avoided - Whether player vehicles avoid it.
+ * @returns {string} Popup content.
+ */
+const createHazardPopup = (event: CityEvent, now: number, avoided: boolean): string => {
+    const effect =
+        event.kind === "rush_hour"
+            ? `Trips ${percent(RUSH_ROUTE_TIME)}% longer, wear +${percent(RUSH_WEAR)}%`
+            : `Streets blocked: no pickups or drop-offs, taxis crawl at ${Math.round(PROTEST_SPEED * 100)}% speed, wear +${percent(PROTEST_WEAR)}%`;
+    return `<b>${CITY_EVENT_LABELS[event.kind].label}: ${event.area}</b><br>
+        ${event.startsAt > now ? "From" : "Since"} ${timeOf(event.startsAt)} until ${timeOf(event.endsAt)}<br>
+        ${effect}${avoided ? "<br>Avoided by your fleet" : ""}`;
+};
+
+/**
+ * Averages a polygon's vertices.
+ * @returns {[number, number]} Marker position.
+ */
+const centreOf = (polygon: readonly [number, number][]): [number, number] => [
+    polygon.reduce((sum, vertex) => sum + vertex[0], 0) / polygon.length,
+    polygon.reduce((sum, vertex) => sum + vertex[1], 0) / polygon.length,
+];
+
+/**
+ * Creates the overlay.
+ * @param events - Events under way and coming up.
+ * @param avoided - Ids of the protests player vehicles avoid.
+ * @returns {L.LayerGroup} Layer group with a polygon and marker per event.
+ */
+export function createCityEventOverlay(events: readonly CityEvent[], avoided: ReadonlySet<string>): L.LayerGroup {
+    const layer = L.layerGroup();
+    updateCityEventOverlay(layer, events, avoided);
+    return layer;
+}
+
+/**
+ * Redraws the overlay.
+ * @param layer - Layer from createCityEventOverlay.
+ * @param events - Events under way and coming up.
+ * @param avoided - Ids of the protests player vehicles avoid.
+ */
+export function updateCityEventOverlay(layer: L.LayerGroup, events: readonly CityEvent[], avoided: ReadonlySet<string>): void {
+    const now = Date.now();
+    layer.clearLayers();
+    events.forEach((event) => {
+        const upcoming = event.startsAt > now;
+        const isAvoided = avoided.has(event.id);
+        L.polygon(event.polygon, {
+            color: COLORS[event.kind],
+            weight: 2,
+            dashArray: upcoming ? "6 6" : undefined,
+            fillColor: COLORS[event.kind],
+            fillOpacity: upcoming ? 0.05 : 0.18,
+            interactive: false,
+        }).addTo(layer);
+        L.marker(centreOf(event.polygon), {
+            icon: createHazardIcon(event, isAvoided),
+            zIndexOffset: 450, // Above the weather badge, below chargers and vehicles
+            opacity: upcoming ? 0.6 : 1,
+            title: `${CITY_EVENT_LABELS[event.kind].label}: ${event.area}`,
+        })
+            .bindPopup(createHazardPopup(event, now, isAvoided))
+            .addTo(layer);
+    });
+}
@@ -3,49 +3,185 @@
  * @file MapArea.tsx
  * @description Leaflet map component for CyberTaxi, displaying a map or splash screen based on login state.
  * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
- * @version 0.1.8
+ * @version 0.2.6
  * @note Renders a splash screen when logged out, or a Leaflet map with player and other vehicle markers when logged in, per GDD v1.1.
- * @detail Centers on Austin (lat: 30.2672, lng: -97.7431, zoom: 12), uses mapping-tiles.ts, VehicleMarkers.ts, usePlayerVehicles, and useOtherPlayerVehicles.
+ * @detail Reads login state from CyberContext. Centers on Austin (lat: 30.2672, lng: -97.7431, zoom: 12), uses mapping-tiles.ts and VehicleMarkers.ts;
+ *         player and other vehicles come from CyberMain (usePlayerVehicles, useOtherPlayerVehicles) so FleetWindow and the
+ *         fare simulation share them.
+ *         Markers are kept by vehicle and diffed on every update, so realtime deltas move existing markers instead of rebuilding the cluster.
+ *         Active/fare vehicles live in a separate unclustered layer and are animated by VehicleAnimator; the rest stay clustered.
+ *         Route lines to a vehicle's dest follow the offline road graph through RoutingService.
+ *         Clicking a player marker reports the vehicle through onVehicleSelect (CyberMain opens VehicleDetailsWindow).
+ *         The forwarded MapAreaHandle lets other windows focus a vehicle on the map.
+ *         SuperCharger sites (domain/ChargingSites.ts) sit on their own layer, shown by default and toggled with a map
+ *         control; their popups follow the occupancy the fare simulation reports through the chargingSites prop.
+ *         Garage and lot listings (domain/Properties.ts) sit on a property layer with its own toggle; the properties prop
+ *         (usePlayerProperties) marks the player's leases and purchases, and clicking a listing calls onPropertySelect.
+ *         The weather overlay (WeatherOverlay.ts) tints Austin by the current conditions on a layer with its own toggle;
+ *         the weather prop (useWeather) restyles it as forecasts arrive.
+ *         Rush hours and protests (CityEventOverlay.ts) are drawn as hazard areas on a layer with its own toggle from the
+ *         cityEvents prop (useCityEvents); avoidedEvents marks the protests the player rerouted around.
  */
-import React, { useEffect, useRef } from "react";
+import React, { forwardRef, useEffect, useImperativeHandle, useRef } from "react";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
 import "leaflet.markercluster/dist/MarkerCluster.css";
 import "leaflet.markercluster";
 import { createTileLayer } from "./mapping-tiles";
-import { usePlayerVehicles } from "./usePlayerVehicles";
-import { useOtherPlayerVehicles } from "./useOtherPlayerVehicles";
-import { createVehicleMarker } from "./VehicleMarkers";
+import { createVehicleMarker, updateVehicleMarker } from "./VehicleMarkers";
+import { createVehicleAnimator } from "./VehicleAnimator";
+import { createChargerMarker, updateChargerMarker } from "./ChargerMarkers";
+import { createLegacyGarageMarker, createPropertyMarker, updatePropertyMarker } from "./PropertyMarkers";
+import { createWeatherOverlay, updateWeatherOverlay } from "./WeatherOverlay";
+import type { WeatherOverlay } from "./WeatherOverlay";
+import { createCityEventOverlay, updateCityEventOverlay } from "./CityEventOverlay";
+import { CHARGING_SITES } from "../../domain/ChargingSites";
+import type { CityEvent } from "../../domain/CityEvents";
+import { PROPERTY_LISTINGS } from "../../domain/Properties";
+import type { PropertyListing } from "../../domain/Properties";
+import type { WeatherSample } from "../../domain/Weather";
+import type { ApiGarage } from "../../services/apiTypes";
+import type { ChargingSiteStatus } from "../../simulation/Charging";
+import type { VehicleAnimator } from "./VehicleAnimator";
+import { isEarning } from "../../domain/Vehicle";
+import type { PlacedVehicle } from "../../domain/Vehicle";
+import { useCyber } from "../../context/CyberContext";
+import { RoutingService } from "../../services/RoutingService";
 import "../../styles/mapping/MapArea.css";
 import "../../styles/mapping/SplashScreen.css";
 
+/**
+ * Marker currently on the map and the vehicle data it shows.
+ * @interface MarkerEntry
+ */
+interface MarkerEntry {
+    marker: L.Marker;
+    vehicle: PlacedVehicle;
+    layer: L.LayerGroup; // Cluster for parked/service vehicles, moving layer for active/fare
+}
+
 /**
  * Props for MapArea component.
  * @interface MapAreaProps
  */
 interface MapAreaProps {
-    isLoggedIn: boolean; // Login state to trigger zoom and vehicle fetch
+    playerVehicles: PlacedVehicle[]; // From usePlayerVehicles in CyberMain
+    playerError?: string | null;
+    otherVehicles: PlacedVehicle[]; // From useOtherPlayerVehicles in CyberMain
+    otherError?: string | null;
+    onVehicleSelect?: (vehicle: PlacedVehicle) => void; // Player marker clicked
+    chargingSites?: readonly ChargingSiteStatus[]; // SuperCharger occupancy from the fare simulation
+    properties?: readonly ApiGarage[]; // Player's leased and owned garages/lots from usePlayerProperties
+    onPropertySelect?: (listing: PropertyListing) => void; // Listing marker clicked
+    weather?: WeatherSample | null; // Current conditions from useWeather in CyberMain
+    cityEvents?: readonly CityEvent[]; // Rush hours and protests under way and coming up, from useCityEvents
+    avoidedEvents?: ReadonlySet<string>; // Protests the player rerouted around
 }
 
+/**
+ * Imperative map controls exposed through the MapArea ref.
+ * @interface MapAreaHandle
+ */
+export interface MapAreaHandle {
+    /** Pans/zooms to one of the player's vehicles and highlights it; false if it is not on the map. */
+    focusVehicle(vehicleId: string): boolean;
+}
+
+const FOCUS_ZOOM = 15;
+const FOCUS_HIGHLIGHT_MS = 2000;
+const NO_SITES: readonly ChargingSiteStatus[] = []; // Stable default, so the occupancy effect only runs on changes
+const NO_PROPERTIES: readonly ApiGarage[] = [];
+const NO_EVENTS: readonly CityEvent[] = [];
+const NO_AVOIDED: ReadonlySet<string> = new Set();
+
+/**
+ * Map button that shows or hides a layer.
+ * @param layer - Layer to toggle; starts visible.
+ * @param icon - Font Awesome icon class.
+ * @param label - Tooltip and accessible name.
+ * @returns {L.Control} Top-right control.
+ */
+const createLayerToggle = (layer: L.LayerGroup, icon: string, label: string): L.Control => {
+    const control = new L.Control({ position: "topright" });
+    control.onAdd = (map: L.Map) => {
+        const button = L.DomUtil.create("button", "charger-layer-toggle on");
+        button.type = "button";
+        button.title = label;
+        button.setAttribute("aria-label", label);
+        button.setAttribute("aria-pressed", "true");
+        button.innerHTML = `<i class="fas ${icon}"></i>`;
+        L.DomEvent.disableClickPropagation(button);
+        L.DomEvent.on(button, "click", () => {
+            const visible = map.hasLayer(layer);
+            if (visible) {
+                map.removeLayer(layer);
+            } else {
+                map.addLayer(layer);
+            }
+            button.classList.toggle("on", !visible);
+            button.setAttribute("aria-pressed", String(!visible));
+            console.log(`MapArea: ${visible ? "Hid" : "Showed"} ${label.toLowerCase()}`);
+        });
+        return button;
+    };
+    return control;
+};
+
+/**
+ * Briefly highlights a marker's icon.
+ * @param marker - Marker to highlight (must be on the map).
+ */
+const highlightMarker = (marker: L.Marker): void => {
+    const icon = marker.getElement()?.querySelector(".custom-marker");
+    icon?.classList.add("focused-marker");
+    setTimeout(() => icon?.classList.remove("focused-marker"), FOCUS_HIGHLIGHT_MS);
+};
+
 /**
  * Renders a splash screen or Leaflet map based on login state.
  * @param {MapAreaProps} props - Component props.
  * @returns {JSX.Element} Splash screen or map container element.
  */
-export const MapArea: React.FC<MapAreaProps> = ({ isLoggedIn }) => {
+export const MapArea = forwardRef<MapAreaHandle, MapAreaProps>(({ playerVehicles, playerError = null, otherVehicles, otherError = null, onVehicleSelect, chargingSites = NO_SITES, properties = NO_PROPERTIES, onPropertySelect, weather = null, cityEvents = NO_EVENTS, avoidedEvents = NO_AVOIDED }, ref) => {
+    const { isLoggedIn } = useCyber(); // Login state triggers zoom and marker sync
     const mapRef = useRef<L.Map | null>(null);
     const mapContainerRef = useRef<HTMLDivElement>(null);
     const clusterRef = useRef<L.MarkerClusterGroup | null>(null);
-    const { vehicles: playerVehicles, errorMessage: playerError } = usePlayerVehicles(isLoggedIn);
-    const { vehicles: otherVehicles, errorMessage: otherError } = useOtherPlayerVehicles(isLoggedIn);
+    const movingLayerRef = useRef<L.LayerGroup | null>(null);
+    const animatorRef = useRef<VehicleAnimator | null>(null);
+    const markersRef = useRef<Map<string, MarkerEntry>>(new Map()); // Keyed by "player:<id>" / "other:<id>"
+    const chargerMarkersRef = useRef<Map<string, L.Marker>>(new Map()); // Keyed by site id
+    const propertyLayerRef = useRef<L.LayerGroup | null>(null);
+    const propertyMarkersRef = useRef<Map<string, L.Marker>>(new Map()); // Keyed by listing id
+    const legacyGarageMarkersRef = useRef<L.Marker[]>([]); // Player garages without a listing
+    const weatherOverlayRef = useRef<WeatherOverlay | null>(null);
+    const weatherRef = useRef(weather); // Latest conditions for a freshly created map
+    weatherRef.current = weather;
+    const cityEventLayerRef = useRef<L.LayerGroup | null>(null);
+    const cityEventsRef = useRef({ cityEvents, avoidedEvents }); // Latest events for a freshly created map
+    cityEventsRef.current = { cityEvents, avoidedEvents };
+    const onVehicleSelectRef = useRef(onVehicleSelect); // Markers outlive renders; read the latest handler on click
+    onVehicleSelectRef.current = onVehicleSelect;
+    const onPropertySelectRef = useRef(onPropertySelect);
+    onPropertySelectRef.current = onPropertySelect;
 
     useEffect(() => {
         if (!isLoggedIn) {
             console.log("MapArea: Skipping map initialization, user not logged in");
             if (mapRef.current) {
+                animatorRef.current?.dispose();
                 mapRef.current.remove();
                 mapRef.current = null;
                 clusterRef.current = null;
+                movingLayerRef.current = null;
+                animatorRef.current = null;
+                markersRef.current.clear();
+                chargerMarkersRef.current.clear();
+                propertyLayerRef.current = null;
+                propertyMarkersRef.current.clear();
+                legacyGarageMarkersRef.current = [];
+                weatherOverlayRef.current = null;
+                cityEventLayerRef.current = null;
                 console.log("MapArea: Cleared map and cluster on logout");
             }
             return;
@@ -84,10 +220,48 @@ export const MapArea: React.FC<MapAreaProps> = ({ isLoggedIn }) => {
                     });
                     mapRef.current.addLayer(clusterRef.current);
                     console.log("MapArea: Initialized marker cluster group");
+
+                    // Moving vehicles stay out of the cluster, which re-adds a marker on every move
+                    movingLayerRef.current = L.layerGroup().addTo(mapRef.current);
+                    animatorRef.current = createVehicleAnimator(mapRef.current, { trail: true, router: RoutingService });
                 } else {
                     console.warn("MapArea: leaflet.markercluster not available, skipping clustering");
                 }
 
+                // SuperCharger sites, refreshed by the occupancy effect below
+                const chargerLayer = L.layerGroup().addTo(mapRef.current);
+                CHARGING_SITES.forEach((site) => {
+                    const marker = createChargerMarker(site, null);
+                    chargerLayer.addLayer(marker);
+                    chargerMarkersRef.current.set(site.id, marker);
+                });
+                createLayerToggle(chargerLayer, "fa-charging-station", "SuperCharger sites").addTo(mapRef.current);
+                console.log(`MapArea: Added ${CHARGING_SITES.length} SuperCharger sites`);
+
+                // Garage and lot listings, restyled by the properties effect below
+                const propertyLayer = L.layerGroup().addTo(mapRef.current);
+                PROPERTY_LISTINGS.forEach((listing) => {
+                    const marker = createPropertyMarker(listing, null);
+                    marker.on("click", () => onPropertySelectRef.current?.(listing));
+                    propertyLayer.addLayer(marker);
+                    propertyMarkersRef.current.set(listing.id, marker);
+                });
+                propertyLayerRef.current = propertyLayer;
+                createLayerToggle(propertyLayer, "fa-warehouse", "Garages and lots").addTo(mapRef.current);
+                console.log(`MapArea: Added ${PROPERTY_LISTINGS.length} property listings`);
+
+                // Weather tint and badge, restyled by the weather effect below
+                const weatherOverlay = createWeatherOverlay(weatherRef.current);
+                weatherOverlay.layer.addTo(mapRef.current);
+                weatherOverlayRef.current = weatherOverlay;
+                createLayerToggle(weatherOverlay.layer, "fa-cloud-sun-rain", "Weather").addTo(mapRef.current);
+
+                // Rush hour and protest areas, redrawn by the city event effect below
+                const cityEventLayer = createCityEventOverlay(cityEventsRef.current.cityEvents, cityEventsRef.current.avoidedEvents);
+                cityEventLayer.addTo(mapRef.current);
+                cityEventLayerRef.current = cityEventLayer;
+                createLayerToggle(cityEventLayer, "fa-exclamation-triangle", "Traffic and protests").addTo(mapRef.current);
+
                 // Ensure map size is correct
                 mapRef.current.invalidateSize();
             } catch (error) {
@@ -97,14 +271,48 @@ export const MapArea: React.FC<MapAreaProps> = ({ isLoggedIn }) => {
 
         return () => {
             if (mapRef.current) {
+                animatorRef.current?.dispose();
                 mapRef.current.remove();
                 mapRef.current = null;
                 clusterRef.current = null;
+                movingLayerRef.current = null;
+                animatorRef.current = null;
+                markersRef.current.clear();
+                chargerMarkersRef.current.clear();
+                propertyLayerRef.current = null;
+                propertyMarkersRef.current.clear();
+                legacyGarageMarkersRef.current = [];
+                weatherOverlayRef.current = null;
+                cityEventLayerRef.current = null;
                 console.log("MapArea: Cleaned up map and cluster");
             }
         };
     }, [isLoggedIn]);
 
+    useImperativeHandle(
+        ref,
+        () => ({
+            focusVehicle(vehicleId) {
+                const map = mapRef.current;
+                const entry = markersRef.current.get(`player:${vehicleId}`);
+                if (!map || !entry) {
+                    console.warn(`MapArea: Cannot focus vehicle ${vehicleId}, not on the map`);
+                    return false;
+                }
+                const { marker, layer } = entry;
+                if (layer === clusterRef.current) {
+                    clusterRef.current.zoomToShowLayer(marker, () => highlightMarker(marker));
+                } else {
+                    map.flyTo(marker.getLatLng(), Math.max(map.getZoom(), FOCUS_ZOOM));
+                    highlightMarker(marker);
+                }
+                console.log(`MapArea: Focused vehicle ${vehicleId}`);
+                return true;
+            },
+        }),
+        []
+    );
+
     // Zoom to Austin on isLoggedIn change
     useEffect(() => {
         if (mapRef.current && isLoggedIn) {
@@ -117,56 +325,109 @@ export const MapArea: React.FC<MapAreaProps> = ({ isLoggedIn }) => {
         }
     }, [isLoggedIn]);
 
-    // Render player and other vehicle markers
+    // Refresh SuperCharger popups and icons as occupancy changes
+    useEffect(() => {
+        CHARGING_SITES.forEach((site) => {
+            const marker = chargerMarkersRef.current.get(site.id);
+            if (marker) {
+                updateChargerMarker(marker, site, chargingSites.find((status) => status.siteId === site.id) ?? null);
+            }
+        });
+    }, [chargingSites, isLoggedIn]);
+
+    // Restyle the weather overlay as conditions change
+    useEffect(() => {
+        if (weatherOverlayRef.current) {
+            updateWeatherOverlay(weatherOverlayRef.current, weather);
+        }
+    }, [weather, isLoggedIn]);
+
+    // Redraw the hazard areas as events start and end or the player reroutes
+    useEffect(() => {
+        if (cityEventLayerRef.current) {
+            updateCityEventOverlay(cityEventLayerRef.current, cityEvents, avoidedEvents);
+        }
+    }, [cityEvents, avoidedEvents, isLoggedIn]);
+
+    // Mark the player's properties; garages without a listing get their own markers
+    useEffect(() => {
+        const layer = propertyLayerRef.current;
+        if (!layer) {
+            return;
+        }
+        PROPERTY_LISTINGS.forEach((listing) => {
+            const marker = propertyMarkersRef.current.get(listing.id);
+            if (marker) {
+                updatePropertyMarker(marker, listing, properties.find((property) => property.listing_id === listing.id) ?? null);
+            }
+        });
+        legacyGarageMarkersRef.current.forEach((marker) => layer.removeLayer(marker));
+        legacyGarageMarkersRef.current = properties
+            .filter((property) => property.listing_id === null || !propertyMarkersRef.current.has(property.listing_id))
+            .map((property) => createLegacyGarageMarker(property).addTo(layer));
+        console.log(`MapArea: Marked ${properties.length} player properties`);
+    }, [properties, isLoggedIn]);
+
+    // Sync player and other vehicle markers: add new, animate/restyle changed, remove gone
     useEffect(() => {
-        if (!isLoggedIn || !mapRef.current || !clusterRef.current) {
+        if (!isLoggedIn || !mapRef.current || !clusterRef.current || !movingLayerRef.current || !animatorRef.current) {
             console.log("MapArea: Skipping vehicle render - not logged in or map/cluster not ready");
             return;
         }
-        clusterRef.current.clearLayers();
-        console.log("MapArea: Rendering player vehicles");
-        playerVehicles.forEach((vehicle) => {
-            if (
-                vehicle.coords &&
-                Array.isArray(vehicle.coords) &&
-                vehicle.coords.length === 2 &&
-                typeof vehicle.coords[0] === "number" &&
-                typeof vehicle.coords[1] === "number" &&
-                vehicle.coords[0] >= -90 &&
-                vehicle.coords[0] <= 90 &&
-                vehicle.coords[1] >= -180 &&
-                vehicle.coords[1] <= 180
-            ) {
-                const marker = createVehicleMarker(vehicle, "player");
-                clusterRef.current!.addLayer(marker);
-                console.log(`MapArea: Added marker for player vehicle ${vehicle.id}`);
-            } else {
-                console.warn(`MapArea: Invalid coordinates for player vehicle ${vehicle.id}:`, vehicle.coords);
+        const cluster = clusterRef.current;
+        const movingLayer = movingLayerRef.current;
+        const animator = animatorRef.current;
+        const markers = markersRef.current;
+        const seen = new Set<string>();
+        let added = 0;
+        let updated = 0;
+        const sync = (vehicles: PlacedVehicle[], type: "player" | "other") => {
+            vehicles.forEach((vehicle) => {
+                // Coordinates are range-checked by the response schema before the hooks see them
+                const key = `${type}:${vehicle.id}`;
+                const layer = isEarning(vehicle.status) ? movingLayer : cluster;
+                seen.add(key);
+                const entry = markers.get(key);
+                if (!entry) {
+                    const marker = createVehicleMarker(vehicle, type);
+                    if (type === "player") {
+                        marker.on("click", () => {
+                            const current = markers.get(key);
+                            if (current) onVehicleSelectRef.current?.(current.vehicle);
+                        });
+                    }
+                    layer.addLayer(marker);
+                    markers.set(key, { marker, vehicle, layer });
+                    animator.update(key, marker, vehicle, type === "player");
+                    added++;
+                } else if (entry.vehicle !== vehicle) {
+                    updateVehicleMarker(entry.marker, entry.vehicle, vehicle, type);
+                    if (entry.layer !== layer) {
+                        entry.layer.removeLayer(entry.marker);
+                        layer.addLayer(entry.marker);
+                        entry.layer = layer;
+                    }
+                    animator.update(key, entry.marker, vehicle, type === "player");
+                    entry.vehicle = vehicle;
+                    updated++;
+                }
+            });
+        };
+        sync(playerVehicles, "player");
+        sync(otherVehicles, "other");
+        let removed = 0;
+        markers.forEach((entry, key) => {
+            if (!seen.has(key)) {
+                animator.remove(key);
+                entry.layer.removeLayer(entry.marker);
+                markers.delete(key);
+                removed++;
             }
         });
+        console.log(`MapArea: Synced markers (${added} added, ${updated} updated, ${removed} removed)`);
         if (playerError && playerVehicles.length === 0) {
             console.error("MapArea: Player vehicle fetch error:", playerError);
         }
-        console.log("MapArea: Rendering other vehicles");
-        otherVehicles.forEach((vehicle) => {
-            if (
-                vehicle.coords &&
-                Array.isArray(vehicle.coords) &&
-                vehicle.coords.length === 2 &&
-                typeof vehicle.coords[0] === "number" &&
-                typeof vehicle.coords[1] === "number" &&
-                vehicle.coords[0] >= -90 &&
-                vehicle.coords[0] <= 90 &&
-                vehicle.coords[1] >= -180 &&
-                vehicle.coords[1] <= 180
-            ) {
-                const marker = createVehicleMarker(vehicle, "other");
-                clusterRef.current!.addLayer(marker);
-                console.log(`MapArea: Added marker for other vehicle ${vehicle.id}`);
-            } else {
-                console.warn(`MapArea: Invalid coordinates for other vehicle ${vehicle.id}:`, vehicle.coords);
-            }
-        });
         if (otherError && otherVehicles.length === 0) {
             console.error("MapArea: Other vehicle fetch error:", otherError);
         }
@@ -195,4 +456,4 @@ export const MapArea: React.FC<MapAreaProps> = ({ isLoggedIn }) => {
             )}
         </div>
     );
-};
\ No newline at end of file
+});
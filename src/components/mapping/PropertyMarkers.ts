@@ -0,0 +1,85 @@
+// src/components/mapping/PropertyMarkers.ts
+/**
+ * @file PropertyMarkers.ts
+ * @description Creates garage and lot markers for the CyberTaxi map: listings on the market and the player's properties.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note One marker per listing in domain/Properties.ts plus one per legacy garage without a listing, drawn on MapArea's
+ *       toggleable property layer. Replaces the single hardcoded garage of the deprecated map/garage-markers.ts.
+ * @detail Uses .property-marker from PropertyMarkers.css (warehouse icon for garages, parking sign for lots). Listings the
+ *         player holds add .property-marker-held (gold, with a key) and .property-marker-lease for leases (dashed), so
+ *         owned garages stand out from the market. Listing markers have no popup: MapArea opens the property window
+ *         on click. Legacy garages get a popup with their name and capacity.
+ */
+import L from "leaflet";
+import type { PropertyListing, PropertyType } from "../../domain/Properties";
+import type { ApiGarage } from "../../services/apiTypes";
+import "../../styles/mapping/PropertyMarkers.css";
+
+const TYPE_ICONS: Record<PropertyType, string> = { garage: "fa-warehouse", lot: "fa-parking" };
+
+/**
+ * Builds the marker icon for a property.
+ * @param type - Garage or lot.
+ * @param held - The player's lease or ownership, if any.
+ * @returns {L.DivIcon} Property icon, gold with a key when held.
+ */
+const createPropertyIcon = (type: PropertyType, held: ApiGarage | null): L.DivIcon => {
+    const classes = ["property-marker", held && "property-marker-held", held?.tenure === "lease" && "property-marker-lease"]
+        .filter(Boolean)
+        .join(" ");
+    return L.divIcon({
+        html: `<div class="${classes}"><i class="fas ${TYPE_ICONS[type]}"></i>${held ? '<i class="fas fa-key property-marker-key"></i>' : ""}</div>`,
+        iconSize: [24, 24],
+        iconAnchor: [12, 12],
+        popupAnchor: [0, -12],
+        className: "",
+    });
+};
+
+/**
+ * Tooltip title for a listing marker.
+ * @returns {string} Name and whether the player holds it.
+ */
+const listingTitle = (listing: PropertyListing, held: ApiGarage | null): string =>
+    `${listing.name}${held ? (held.tenure === "own" ? " (owned)" : " (leased)") : ""}`;
+
+/**
+ * Creates a marker for a listing.
+ * @param listing - Listing data.
+ * @param held - The player's lease or ownership, if any.
+ * @returns {L.Marker} Marker without popup; the caller handles clicks.
+ */
+export function createPropertyMarker(listing: PropertyListing, held: ApiGarage | null): L.Marker {
+    return L.marker(listing.coords, {
+        icon: createPropertyIcon(listing.type, held),
+        zIndexOffset: held ? 700 : 400, // Held properties above the market, both below vehicles
+        title: listingTitle(listing, held),
+        keyboard: true,
+    });
+}
+
+/**
+ * Restyles a listing marker after the player leases, buys or sells it.
+ * @param marker - Marker from createPropertyMarker.
+ * @param listing - Listing data.
+ * @param held - The player's lease or ownership, if any.
+ */
+export function updatePropertyMarker(marker: L.Marker, listing: PropertyListing, held: ApiGarage | null): void {
+    marker.setIcon(createPropertyIcon(listing.type, held));
+    marker.setZIndexOffset(held ? 700 : 400);
+    marker.getElement()?.setAttribute("title", listingTitle(listing, held));
+}
+
+/**
+ * Creates a marker for a garage that predates the listings.
+ * @param garage - Garage record with coordinates.
+ * @returns {L.Marker} Held-style marker with a popup.
+ */
+export function createLegacyGarageMarker(garage: ApiGarage): L.Marker {
+    return L.marker(garage.coords, {
+        icon: createPropertyIcon(garage.type, garage),
+        zIndexOffset: 700,
+        title: garage.name,
+    }).bindPopup(`<b>${garage.name}</b><br>${garage.type === "garage" ? "Garage" : "Lot"}, ${garage.capacity} slots`);
+}
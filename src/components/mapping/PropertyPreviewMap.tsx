@@ -0,0 +1,96 @@
+// src/components/mapping/PropertyPreviewMap.tsx
+/**
+ * @file PropertyPreviewMap.tsx
+ * @description Small Leaflet map previewing garage and lot listings, used by the Realtor page in CyberBrowser.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Draws the same markers as MapArea's property layer (PropertyMarkers.ts) on the same tiles (mapping-tiles.ts),
+ *       so a listing looks the same in the browser as on the main map.
+ * @detail Shows only the listings it is given. The selected listing gets .property-preview-selected and the view
+ *         centers on it; with no selection the view fits every listing. Clicking a marker calls onSelect.
+ */
+import React, { useEffect, useRef } from "react";
+import L from "leaflet";
+import "leaflet/dist/leaflet.css";
+import { createTileLayer } from "./mapping-tiles";
+import { createPropertyMarker } from "./PropertyMarkers";
+import type { PropertyListing } from "../../domain/Properties";
+import type { ApiGarage } from "../../services/apiTypes";
+
+/**
+ * Props for PropertyPreviewMap component.
+ * @interface PropertyPreviewMapProps
+ */
+interface PropertyPreviewMapProps {
+    listings: readonly PropertyListing[];
+    properties: ApiGarage[]; // The player's holdings, drawn gold
+    selectedId: string | null;
+    onSelect: (listing: PropertyListing) => void;
+}
+
+const PREVIEW_ZOOM = 14; // Zoom when a listing is selected
+const AUSTIN_CENTER: [number, number] = [30.2672, -97.7431];
+
+/**
+ * Renders the preview map.
+ * @param {PropertyPreviewMapProps} props - Component props.
+ * @returns {JSX.Element} Map container.
+ */
+export const PropertyPreviewMap: React.FC<PropertyPreviewMapProps> = ({ listings, properties, selectedId, onSelect }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const mapRef = useRef<L.Map | null>(null);
+    const layerRef = useRef<L.LayerGroup | null>(null);
+    const onSelectRef = useRef(onSelect);
+    onSelectRef.current = onSelect; // Markers call the latest handler without being rebuilt
+
+    /**
+     * Creates the map once and removes it on unmount.
+     */
+    useEffect(() => {
+        if (!containerRef.current) return;
+        const map = L.map(containerRef.current, {
+            center: AUSTIN_CENTER,
+            zoom: 11,
+            zoomControl: true,
+            attributionControl: false, // Too small for attribution; MapArea shows it
+        });
+        createTileLayer("dark").addTo(map);
+        layerRef.current = L.layerGroup().addTo(map);
+        mapRef.current = map;
+        const resize = window.setTimeout(() => map.invalidateSize(), 0); // The browser window may still be laying out
+        console.log("PropertyPreviewMap: Initialized preview map");
+        return () => {
+            window.clearTimeout(resize);
+            map.remove();
+            mapRef.current = null;
+            layerRef.current = null;
+        };
+    }, []);
+
+    /**
+     * Redraws the markers and moves the view when the listings or selection change.
+     */
+    useEffect(() => {
+        const map = mapRef.current;
+        const layer = layerRef.current;
+        if (!map || !layer) return;
+        layer.clearLayers();
+        listings.forEach((listing) => {
+            const held = properties.find((property) => property.listing_id === listing.id) ?? null;
+            const marker = createPropertyMarker(listing, held).on("click", () => onSelectRef.current(listing));
+            layer.addLayer(marker);
+            if (listing.id === selectedId) {
+                marker.getElement()?.classList.add("property-preview-selected");
+                marker.setZIndexOffset(1000);
+            }
+        });
+        const selected = listings.find((listing) => listing.id === selectedId);
+        if (selected) {
+            map.setView(selected.coords, PREVIEW_ZOOM);
+        } else if (listings.length > 0) {
+            map.fitBounds(L.latLngBounds(listings.map((listing) => listing.coords)), { padding: [20, 20], maxZoom: PREVIEW_ZOOM });
+        }
+    }, [listings, properties, selectedId]);
+
+    return <div ref={containerRef} className="property-preview-map" role="region" aria-label="Listing map preview" />;
+};
@@ -0,0 +1,301 @@
+// src/components/mapping/VehicleAnimator.ts
+/**
+ * @file VehicleAnimator.ts
+ * @description Animates CyberTaxi vehicle markers between position updates on the Leaflet map.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.2.0
+ * @note Used by MapArea for active/fare vehicles, which sit outside the marker cluster so per-frame moves stay cheap.
+ * @detail Each position update starts a tween from the marker's displayed position to the new coords, driven by a
+ *         single requestAnimationFrame loop that stops when no tween is running and while the tab is hidden. Icons are
+ *         rotated to the heading of travel (or towards dest when stationary); own vehicles can also show the route
+ *         polyline to dest and a trail of recent positions. With a router the route line follows the roads: the
+ *         route is fetched once per dest and trimmed to the part still ahead of the marker; until it arrives (or
+ *         without a router) the line is straight.
+ */
+import L from "leaflet";
+import { isEarning } from "../../domain/Vehicle";
+import type { PlacedVehicle } from "../../domain/Vehicle";
+import type { Router } from "../../routing/RoadGraph";
+
+/**
+ * Options for createVehicleAnimator.
+ * @interface VehicleAnimatorOptions
+ */
+export interface VehicleAnimatorOptions {
+    durationMs?: number; // Tween length; matches the realtime stream interval by default
+    trail?: boolean; // Draw a trail of recent positions for vehicles with paths enabled
+    trailLength?: number; // Positions kept per trail
+    router?: Router; // Road geometry for route lines; straight lines without one
+}
+
+/**
+ * Animator bound to one map.
+ * @interface VehicleAnimator
+ */
+export interface VehicleAnimator {
+    /** Tweens the marker to the vehicle's coords; non-earning vehicles jump and lose their route/trail. */
+    update(key: string, marker: L.Marker, vehicle: PlacedVehicle, showPath: boolean): void;
+    /** Stops animating a marker and removes its route/trail. */
+    remove(key: string): void;
+    /** Removes every route/trail and detaches listeners. */
+    dispose(): void;
+}
+
+/**
+ * Animation state for one marker.
+ * @interface Track
+ */
+interface Track {
+    marker: L.Marker;
+    from: L.LatLng;
+    to: L.LatLng;
+    start: number;
+    moving: boolean;
+    heading: number | null; // Degrees clockwise from north
+    dest: L.LatLng | null;
+    route: L.Polyline | null;
+    path: L.LatLng[]; // Road geometry to routedDest, empty until routed
+    routedDest: L.LatLng | null; // Dest the path was requested for
+    trail: L.Polyline | null;
+}
+
+const DEFAULT_DURATION_MS = 2000;
+const DEFAULT_TRAIL_LENGTH = 20;
+
+/**
+ * Initial compass bearing from one point to another.
+ * @param from - Start point.
+ * @param to - End point.
+ * @returns {number} Degrees clockwise from north.
+ */
+const bearing = (from: L.LatLng, to: L.LatLng): number => {
+    const toRad = Math.PI / 180;
+    const dLng = (to.lng - from.lng) * toRad;
+    const lat1 = from.lat * toRad;
+    const lat2 = to.lat * toRad;
+    const y = Math.sin(dLng) * Math.cos(lat2);
+    const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+    return (Math.atan2(y, x) / toRad + 360) % 360;
+};
+
+/** Ease-in-out so consecutive tweens blend without visible stops. */
+const ease = (t: number): number => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2);
+
+/**
+ * Part of a route still ahead of a position: the route from the end of its nearest segment on.
+ * @param path - Route geometry.
+ * @param position - Current marker position.
+ * @returns {L.LatLng[]} Remaining waypoints.
+ */
+const remainingPath = (path: L.LatLng[], position: L.LatLng): L.LatLng[] => {
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    for (let i = 0; i < path.length - 1; i++) {
+        const a = path[i];
+        const b = path[i + 1];
+        const dx = b.lng - a.lng;
+        const dy = b.lat - a.lat;
+        const lengthSq = dx * dx + dy * dy;
+        const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((position.lng - a.lng) * dx + (position.lat - a.lat) * dy) / lengthSq));
+        const distance = (a.lng + t * dx - position.lng) ** 2 + (a.lat + t * dy - position.lat) ** 2;
+        if (distance < nearestDistance) {
+            nearest = i;
+            nearestDistance = distance;
+        }
+    }
+    return path.slice(nearest + 1);
+};
+
+/**
+ * Rotates the marker's icon to a heading, or clears the rotation.
+ * @param marker - Marker whose .custom-marker element is rotated.
+ * @param heading - Degrees clockwise from north, or null.
+ */
+const applyHeading = (marker: L.Marker, heading: number | null): void => {
+    const icon = marker.getElement()?.querySelector<HTMLElement>(".custom-marker");
+    if (!icon) {
+        return;
+    }
+    icon.classList.toggle("has-heading", heading !== null);
+    icon.style.transform = heading === null ? "" : `rotate(${heading}deg)`;
+};
+
+/**
+ * Creates an animator for vehicle markers on a map.
+ * @param map - Leaflet map the routes and trails are drawn on.
+ * @param options - Animation options.
+ * @returns {VehicleAnimator} Animator; call dispose() before removing the map.
+ */
+export const createVehicleAnimator = (map: L.Map, options: VehicleAnimatorOptions = {}): VehicleAnimator => {
+    const durationMs = options.durationMs ?? DEFAULT_DURATION_MS;
+    const trailLength = options.trailLength ?? DEFAULT_TRAIL_LENGTH;
+    const tracks = new Map<string, Track>();
+    let frame: number | null = null;
+
+    const clearPaths = (track: Track) => {
+        track.route?.remove();
+        track.trail?.remove();
+        track.route = null;
+        track.trail = null;
+        track.path = [];
+        track.routedDest = null;
+    };
+
+    /** Route line points from a position to the track's dest. */
+    const routeLine = (track: Track, position: L.LatLng): L.LatLng[] =>
+        track.path.length > 0 ? [position, ...remainingPath(track.path, position)] : [position, track.dest as L.LatLng];
+
+    /** Requests road geometry for the track's dest once; a reply for an older dest is dropped. */
+    const requestPath = (key: string, track: Track, from: L.LatLng) => {
+        const dest = track.dest as L.LatLng;
+        if (!options.router || track.routedDest?.equals(dest)) {
+            return;
+        }
+        track.routedDest = dest;
+        track.path = [];
+        options.router
+            .route([from.lat, from.lng], [dest.lat, dest.lng])
+            .then((route) => {
+                if (tracks.get(key) !== track || track.routedDest !== dest || !track.route) {
+                    return;
+                }
+                track.path = route.geometry.map((point) => L.latLng(point));
+                track.route.setLatLngs(routeLine(track, track.marker.getLatLng()));
+            })
+            .catch((err: unknown) => console.warn(`VehicleAnimator: No route for ${key}`, err));
+    };
+
+    const step = (now: number) => {
+        frame = null;
+        let running = false;
+        tracks.forEach((track) => {
+            if (!track.moving) {
+                return;
+            }
+            const t = Math.min(1, (now - track.start) / durationMs);
+            const k = ease(t);
+            const position = L.latLng(
+                track.from.lat + (track.to.lat - track.from.lat) * k,
+                track.from.lng + (track.to.lng - track.from.lng) * k
+            );
+            track.marker.setLatLng(position);
+            applyHeading(track.marker, track.heading);
+            if (track.route && track.dest) {
+                track.route.setLatLngs(routeLine(track, position));
+            }
+            if (t < 1) {
+                running = true;
+                return;
+            }
+            track.moving = false;
+            if (track.trail) {
+                const points = (track.trail.getLatLngs() as L.LatLng[]).concat(track.to).slice(-trailLength);
+                track.trail.setLatLngs(points);
+            }
+        });
+        if (running) {
+            frame = requestAnimationFrame(step);
+        }
+    };
+
+    const ensureRunning = () => {
+        if (frame === null && !document.hidden) {
+            frame = requestAnimationFrame(step);
+        }
+    };
+
+    // Pause while hidden; on return, tweens that should have finished snap to their targets
+    const handleVisibility = () => {
+        if (document.hidden) {
+            if (frame !== null) {
+                cancelAnimationFrame(frame);
+                frame = null;
+            }
+            console.log("VehicleAnimator: Paused while tab is hidden");
+            return;
+        }
+        ensureRunning();
+    };
+    document.addEventListener("visibilitychange", handleVisibility);
+
+    return {
+        update(key, marker, vehicle, showPath) {
+            const to = L.latLng(vehicle.coords);
+            const dest = vehicle.dest ? L.latLng(vehicle.dest) : null;
+            let track = tracks.get(key);
+            if (!track || track.marker !== marker) {
+                if (track) {
+                    clearPaths(track);
+                }
+                track = {
+                    marker,
+                    from: to,
+                    to,
+                    start: 0,
+                    moving: false,
+                    heading: null,
+                    dest: null,
+                    route: null,
+                    path: [],
+                    routedDest: null,
+                    trail: null,
+                };
+                tracks.set(key, track);
+            }
+            if (!isEarning(vehicle.status)) {
+                clearPaths(track);
+                track.moving = false;
+                track.heading = null;
+                track.to = to;
+                marker.setLatLng(to);
+                applyHeading(marker, null);
+                return;
+            }
+            const from = marker.getLatLng();
+            if (!from.equals(to)) {
+                track.heading = bearing(from, to);
+                track.from = from;
+                track.to = to;
+                track.start = performance.now();
+                track.moving = true;
+            } else if (dest && !to.equals(dest)) {
+                track.heading = bearing(to, dest);
+            }
+            track.dest = dest;
+            if (showPath && dest) {
+                track.route = track.route ?? L.polyline([], { className: "vehicle-route", interactive: false }).addTo(map);
+                requestPath(key, track, from);
+                track.route.setLatLngs(routeLine(track, from));
+            } else {
+                track.route?.remove();
+                track.route = null;
+                track.path = [];
+                track.routedDest = null;
+            }
+            if (showPath && options.trail) {
+                track.trail = track.trail ?? L.polyline([from], { className: "vehicle-trail", interactive: false }).addTo(map);
+            }
+            applyHeading(marker, track.heading);
+            if (track.moving) {
+                ensureRunning();
+            }
+        },
+        remove(key) {
+            const track = tracks.get(key);
+            if (track) {
+                clearPaths(track);
+                tracks.delete(key);
+            }
+        },
+        dispose() {
+            if (frame !== null) {
+                cancelAnimationFrame(frame);
+                frame = null;
+            }
+            tracks.forEach(clearPaths);
+            tracks.clear();
+            document.removeEventListener("visibilitychange", handleVisibility);
+            console.log("VehicleAnimator: Disposed");
+        },
+    };
+};
@@ -3,34 +3,23 @@
  * @file VehicleMarkers.ts
  * @description Creates vehicle markers for CyberTaxi map.
  * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
- * @version 0.3.3
- * @note Applies styles for player vehicles based on status (active, fare, parked, maintenance, cleaning, new) and non-player vehicles when logged out, per GDD v1.1.
- * @detail Uses .custom-marker, .active-marker, .parked-marker, .new-marker, .vehicle-marker-others from VehicleMarkers.css.
+ * @version 0.4.3
+ * @note Applies one style per lifecycle status (domain/Vehicle.ts) for player vehicles and a uniform style for non-player vehicles, per GDD v1.1.
+ * @detail Uses .custom-marker, .<status>-marker (e.g. .fare-marker, .charging-marker) and .vehicle-marker-others from VehicleMarkers.css.
+ *         updateVehicleMarker() restyles an existing marker when realtime deltas arrive; VehicleAnimator owns its position.
+ *         Player markers have no popup; MapArea opens the Vehicle Details window on click instead.
  */
 import L from "leaflet";
+import { VEHICLE_STATUS_LABELS } from "../../domain/Vehicle";
+import type { PlacedVehicle, VehicleStatus } from "../../domain/Vehicle";
 import "../../styles/mapping/VehicleMarkers.css";
 
 /**
- * Vehicle data structure.
- * @interface Vehicle
+ * CSS class for a status marker.
+ * @param status - Vehicle status.
+ * @returns {string} Class name, e.g. "fare-marker".
  */
-export interface Vehicle {
-    id: string;
-    player_id: number;
-    type: string;
-    status: "active" | "fare" | "parked" | "maintenance" | "cleaning" | "new";
-    coords: [number, number];
-    dest?: [number, number] | null;
-    wear: number;
-    battery: number;
-    mileage?: number;
-    tire_mileage?: number;
-    purchase_date?: string;
-    delivery_timestamp?: string | null;
-    cost?: number;
-    created_at?: string;
-    updated_at?: string;
-}
+export const statusMarkerClass = (status: VehicleStatus): string => `${status}-marker`;
 
 /**
  * Extended MarkerOptions interface to include vehicleId.
@@ -40,6 +29,40 @@ interface CustomMarkerOptions extends L.MarkerOptions {
     vehicleId?: string;
 }
 
+type MarkerKind = "player" | "other";
+
+/**
+ * Builds the marker icon for a vehicle.
+ * @param vehicle - Vehicle data.
+ * @param type - Marker type ("player" or "other").
+ * @returns {L.DivIcon} Status-styled icon.
+ */
+const createVehicleIcon = (vehicle: PlacedVehicle, type: MarkerKind): L.DivIcon => {
+    const statusClass = type === "player" ? statusMarkerClass(vehicle.status) : "vehicle-marker-others";
+    return L.divIcon({
+        html: `<div class="custom-marker ${statusClass}"></div>`,
+        iconSize: [15, 15],
+        iconAnchor: [7.5, 7.5],
+        popupAnchor: [0, -7.5],
+        className: "",
+    });
+};
+
+/**
+ * Builds the popup HTML for a vehicle.
+ * @param vehicle - Vehicle data.
+ * @param type - Marker type ("player" or "other").
+ * @returns {string} Popup content.
+ */
+const createVehiclePopup = (vehicle: PlacedVehicle, type: MarkerKind): string =>
+    `<b>${vehicle.type} (${
+        type === "player" ? "Your Vehicle" : "Other Player"
+    })</b><br>
+        ID: ${vehicle.id}<br>
+        Status: ${VEHICLE_STATUS_LABELS[vehicle.status]}<br>
+        Battery: ${vehicle.battery}%<br>
+        Mileage: ${vehicle.mileage}`;
+
 /**
  * Creates a vehicle marker for player or non-player vehicles.
  * Applies grey filter (.vehicle-marker-others) when logged out, otherwise uses status-based styles.
@@ -47,39 +70,39 @@ interface CustomMarkerOptions extends L.MarkerOptions {
  * @param type - Marker type ("player" or "other").
  * @returns {L.Marker} Configured marker.
  */
-export function createVehicleMarker(
-    vehicle: Vehicle,
-    type: "player" | "other"
-): L.Marker {
+export function createVehicleMarker(vehicle: PlacedVehicle, type: MarkerKind): L.Marker {
     console.log(`VehicleMarkers: Applying ${type} filter to vehicle ${vehicle.id}`);
-    const statusClass = type === "player" ? 
-        (vehicle.status === "active" || vehicle.status === "fare" ? "active-marker" :
-         vehicle.status === "parked" || vehicle.status === "maintenance" || vehicle.status === "cleaning" ? "parked-marker" :
-         "new-marker") : "vehicle-marker-others";
-    const iconHtml = `<div class="custom-marker ${statusClass}"></div>`;
     const marker = L.marker(vehicle.coords, {
-        icon: L.divIcon({
-            html: iconHtml,
-            iconSize: [15, 15],
-            iconAnchor: [7.5, 7.5],
-            popupAnchor: [0, -7.5],
-            className: "",
-        }),
+        icon: createVehicleIcon(vehicle, type),
         zIndexOffset: 1000, // Above tiles
         pane: "markerPane", // Explicit marker pane
         vehicleId: vehicle.id, // Store vehicleId for click events
-    } as CustomMarkerOptions).bindPopup(
-        `<b>${vehicle.type} (${
-            type === "player" ? "Your Vehicle" : "Other Player"
-        })</b><br>
-        ID: ${vehicle.id}<br>
-        Status: ${vehicle.status}<br>
-        Battery: ${vehicle.battery}%<br>
-        Mileage: ${vehicle.mileage || 0}`,
-        { className: "custom-popup" }
-    );
-    console.log(
-        `VehicleMarkers: Created marker for ${vehicle.id} with classes: custom-marker ${statusClass}`
-    );
+    } as CustomMarkerOptions);
+    if (type === "other") {
+        marker.bindPopup(createVehiclePopup(vehicle, type), { className: "custom-popup" });
+    }
+    console.log(`VehicleMarkers: Created marker for ${vehicle.id} (${type}, ${vehicle.status})`);
     return marker;
-}
\ No newline at end of file
+}
+
+/**
+ * Updates an existing marker in place: restyles it when the status changed and refreshes the popup, if any.
+ * Position changes are left to VehicleAnimator so moves can be animated.
+ * @param marker - Marker created by createVehicleMarker.
+ * @param previous - Vehicle data the marker currently shows.
+ * @param vehicle - New vehicle data.
+ * @param type - Marker type ("player" or "other").
+ */
+export function updateVehicleMarker(
+    marker: L.Marker,
+    previous: PlacedVehicle,
+    vehicle: PlacedVehicle,
+    type: MarkerKind
+): void {
+    if (previous.status !== vehicle.status) {
+        marker.setIcon(createVehicleIcon(vehicle, type));
+    }
+    if (marker.getPopup()) {
+        marker.setPopupContent(createVehiclePopup(vehicle, type));
+    }
+}
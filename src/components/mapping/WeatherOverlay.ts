@@ -0,0 +1,106 @@
+// src/components/mapping/WeatherOverlay.ts
+/**
+ * @file WeatherOverlay.ts
+ * @description Creates the weather overlay for the CyberTaxi map: a tint over Austin and a conditions badge.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Drawn on MapArea's toggleable weather layer from the forecast useWeather shares through CyberMain, per the
+ *       GDD's "Weather/Traffic: Overlay indicators".
+ * @detail The tint covers WEATHER_RADIUS_M around WEATHER_COORDS, clear when dry and deepening from drizzle to storms.
+ *         The badge (.weather-badge in WeatherOverlay.css) sits on the tint's northern edge, clear of downtown
+ *         vehicles, with the icon and temperature; its popup lists the conditions and what they do to trips.
+ *         updateWeatherOverlay() restyles both when a new forecast arrives; without one the badge reads "Loading".
+ */
+import L from "leaflet";
+import { WEATHER_COORDS, WEATHER_KINDS, toFahrenheit, weatherModifiers } from "../../domain/Weather";
+import type { WeatherKind, WeatherSample } from "../../domain/Weather";
+import "../../styles/mapping/WeatherOverlay.css";
+
+/**
+ * The overlay's layers, kept for updates.
+ * @interface WeatherOverlay
+ */
+export interface WeatherOverlay {
+    layer: L.LayerGroup;
+    area: L.Circle;
+    badge: L.Marker;
+}
+
+const WEATHER_RADIUS_M = 14000;
+const BADGE_COORDS: [number, number] = [WEATHER_COORDS[0] + 0.126, WEATHER_COORDS[1]]; // The tint's northern edge
+
+const TINTS: Readonly<Record<WeatherKind, { color: string; opacity: number }>> = {
+    clear: { color: "#e8b923", opacity: 0 },
+    cloudy: { color: "#8c8c8c", opacity: 0.08 },
+    fog: { color: "#bfbfbf", opacity: 0.16 },
+    drizzle: { color: "#00bfff", opacity: 0.1 },
+    rain: { color: "#1e90ff", opacity: 0.18 },
+    storm: { color: "#9254de", opacity: 0.24 },
+    snow: { color: "#f5f5f5", opacity: 0.16 },
+};
+
+/**
+ * Builds the badge icon.
+ * @param current - Conditions, if known.
+ * @returns {L.DivIcon} Icon and temperature.
+ */
+const createBadgeIcon = (current: WeatherSample | null): L.DivIcon =>
+    L.divIcon({
+        html: current
+            ? `<div class="weather-badge weather-${current.kind}"><i class="fas ${WEATHER_KINDS[current.kind].icon}"></i> ${toFahrenheit(current.temperatureC)}°F</div>`
+            : `<div class="weather-badge"><i class="fas fa-cloud-sun"></i> Loading</div>`,
+        iconSize: [72, 22],
+        iconAnchor: [36, 11],
+        popupAnchor: [0, -11],
+        className: "",
+    });
+
+/**
+ * Builds the badge popup.
+ * @param current - Conditions, if known.
+ * @returns {string} Popup content.
+ */
+const createBadgePopup = (current: WeatherSample | null): string => {
+    if (!current) {
+        return "<b>Austin Weather</b><br>Forecast not loaded yet";
+    }
+    const modifiers = weatherModifiers(current);
+    return `<b>Austin Weather: ${WEATHER_KINDS[current.kind].label}</b><br>
+        ${toFahrenheit(current.temperatureC)}°F (${Math.round(current.temperatureC)}°C), wind ${Math.round(current.windKph)} km/h<br>
+        Precipitation: ${current.precipitationMm} mm<br>
+        ${
+            modifiers.wet
+                ? `Trips ${Math.round((1 - modifiers.speed) * 100)}% slower, wear +${Math.round((modifiers.wear - 1) * 100)}%, demand +${Math.round((modifiers.demand - 1) * 100)}%`
+                : "No effect on trips"
+        }`;
+};
+
+/**
+ * Creates the overlay.
+ * @param current - Conditions, if known.
+ * @returns {WeatherOverlay} Layer group with the tint and badge.
+ */
+export function createWeatherOverlay(current: WeatherSample | null): WeatherOverlay {
+    const area = L.circle(WEATHER_COORDS, { radius: WEATHER_RADIUS_M, weight: 0, interactive: false });
+    const badge = L.marker(BADGE_COORDS, {
+        icon: createBadgeIcon(current),
+        zIndexOffset: 400, // Below chargers and vehicles
+        title: "Austin weather",
+    });
+    badge.bindPopup(createBadgePopup(current));
+    const overlay = { layer: L.layerGroup([area, badge]), area, badge };
+    updateWeatherOverlay(overlay, current);
+    return overlay;
+}
+
+/**
+ * Restyles the overlay for new conditions.
+ * @param overlay - Overlay from createWeatherOverlay.
+ * @param current - Conditions, if known.
+ */
+export function updateWeatherOverlay(overlay: WeatherOverlay, current: WeatherSample | null): void {
+    const tint = TINTS[current?.kind ?? "clear"];
+    overlay.area.setStyle({ color: tint.color, fillColor: tint.color, fillOpacity: tint.opacity });
+    overlay.badge.setIcon(createBadgeIcon(current));
+    overlay.badge.setPopupContent(createBadgePopup(current));
+}
@@ -0,0 +1,124 @@
+// src/components/mapping/useCityEvents.ts
+/**
+ * @file useCityEvents.ts
+ * @description React hook for Austin's rush hours and protests: events under way and coming up, and the player's response.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.1
+ * @note Schedules with simulation/CityEventScheduler.ts, seeded by API_CONFIG.FARE_SEED when set so a run replays.
+ *       Called from CyberMain so the map's hazard layer and the fare simulation see the same events.
+ * @detail Re-checks the clock every CLOCK_MS and schedules LOOKAHEAD_MS ahead. When an event starts the player is told
+ *         once through NotificationService: rush hour for information, a protest with "Reroute" and "Keep driving"
+ *         actions. Rerouting adds the protest to avoided: FareEngine routes player vehicles around it, re-plans the trips
+ *         already heading through it and stops offering rides through it. Keeping on only steers routes away from the
+ *         slowdown; vehicles that still cross it crawl and wear faster.
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { API_CONFIG } from "../../config/apiConfig";
+import { NotificationService } from "../../services/NotificationService";
+import { activeCityEvents, PROTEST_SPEED, PROTEST_WEAR, RUSH_ROUTE_TIME, RUSH_WEAR } from "../../domain/CityEvents";
+import type { CityEvent } from "../../domain/CityEvents";
+import { scheduleCityEvents } from "../../simulation/CityEventScheduler";
+
+/**
+ * Events and the player's response to protests.
+ * @interface CityEventsState
+ */
+export interface CityEventsState {
+    events: readonly CityEvent[]; // Under way and starting within LOOKAHEAD_MS, by start time
+    active: readonly CityEvent[]; // Under way; for the fare simulation
+    avoided: ReadonlySet<string>; // Protest ids player vehicles avoid
+    reroute: (eventId: string) => void;
+    ignore: (eventId: string) => void;
+}
+
+const CITY_EVENT_SEED = 35; // Used when VITE_FARE_SEED is not set; I-35
+const CLOCK_MS = 60000;
+const LOOKAHEAD_MS = 6 * 3600000;
+
+/** Ids of a list of events, as a value that stays equal while the list does. */
+const idsOf = (events: readonly CityEvent[]): string => events.map((event) => event.id).join(",");
+
+/**
+ * Percentage change a multiplier makes, for messages.
+ * @returns {number} Whole percent; negative for a reduction.
+ */
+const percent = (multiplier: number): number => Math.round((multiplier - 1) * 100);
+
+/** Local time of day, for messages. */
+const timeOf = (at: number): string => new Date(at).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+
+/**
+ * Custom hook to follow the city's events.
+ * @param enabled - Whether to schedule and notify (CyberMain passes isLoggedIn).
+ * @returns {CityEventsState} Events, avoided protests and the response actions.
+ */
+export const useCityEvents = (enabled: boolean): CityEventsState => {
+    const [now, setNow] = useState(() => Date.now());
+    const [avoided, setAvoided] = useState<ReadonlySet<string>>(() => new Set());
+    const announced = useRef(new Set<string>());
+    const seed = API_CONFIG.FARE_SEED ?? CITY_EVENT_SEED;
+
+    useEffect(() => {
+        if (!enabled) {
+            announced.current.clear();
+            setAvoided(new Set());
+            return;
+        }
+        setNow(Date.now());
+        const interval = window.setInterval(() => setNow(Date.now()), CLOCK_MS);
+        return () => window.clearInterval(interval);
+    }, [enabled]);
+
+    // Scheduled by the hour; the lists below only change identity when an event starts or ends
+    const hour = Math.floor(now / 3600000) * 3600000;
+    const scheduled = useMemo(() => scheduleCityEvents(seed, hour, hour + LOOKAHEAD_MS), [seed, hour]);
+    const liveIds = idsOf(scheduled.filter((event) => event.endsAt > now));
+    const activeIds = idsOf(activeCityEvents(scheduled, now));
+    const events = useMemo(() => scheduled.filter((event) => liveIds.split(",").includes(event.id)), [scheduled, liveIds]);
+    const active = useMemo(() => scheduled.filter((event) => activeIds.split(",").includes(event.id)), [scheduled, activeIds]);
+
+    const reroute = useCallback((eventId: string) => {
+        setAvoided((previous) => new Set(previous).add(eventId));
+        console.log(`useCityEvents: Rerouting around ${eventId}`);
+    }, []);
+
+    const ignore = useCallback((eventId: string) => {
+        setAvoided((previous) => {
+            const next = new Set(previous);
+            next.delete(eventId);
+            return next;
+        });
+        console.log(`useCityEvents: Driving through ${eventId}`);
+    }, []);
+
+    /**
+     * Announces each event once as it starts.
+     */
+    useEffect(() => {
+        if (!enabled) return;
+        active
+            .filter((event) => !announced.current.has(event.id))
+            .forEach((event) => {
+                announced.current.add(event.id);
+                if (event.kind === "rush_hour") {
+                    NotificationService.notify(
+                        `Rush hour: ${event.area}`,
+                        `Trips there take ${percent(RUSH_ROUTE_TIME)}% longer and wear +${percent(RUSH_WEAR)}% until ${timeOf(event.endsAt)}.`,
+                        "fa-car"
+                    );
+                    return;
+                }
+                NotificationService.notify(
+                    `Protest at ${event.area}—reroute?`,
+                    `Streets blocked until ${timeOf(event.endsAt)}. Taxis caught in it crawl at ${Math.round(PROTEST_SPEED * 100)}% speed with +${percent(PROTEST_WEAR)}% wear.`,
+                    "fa-bullhorn",
+                    [
+                        { label: "Reroute", run: () => reroute(event.id) },
+                        { label: "Keep driving", run: () => ignore(event.id) },
+                    ]
+                );
+            });
+    }, [enabled, active, reroute, ignore]);
+
+    return { events, active, avoided, reroute, ignore };
+};
@@ -0,0 +1,211 @@
+// src/components/mapping/usePlayerLicenses.ts
+/**
+ * @file usePlayerLicenses.ts
+ * @description React hook for the player's Austin operating license: its tier, the vehicle cap and each vehicle's taxi permit.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.1
+ * @note Fetches GET /api/licenses and acts through the other license routes (server/routes/licenses/licenses.js).
+ *       Called from CyberMain so the City Hall page, the Tesla page's purchase checks and the fare simulation share one
+ *       license. Permits themselves are issued by the server with every purchase.
+ * @detail The permits reload whenever the fleet gains or loses a vehicle. Permit states (domain/Licensing.ts
+ *         permitState) are rechecked every CHECK_MS; unlicensed lists the vehicles whose permit has expired or is
+ *         missing, which the fare simulation keeps off fares. Each permit that falls due, expires or is missing is
+ *         announced once through NotificationService.
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ApiClient } from "../../services/ApiClient";
+import type { ApiPermit } from "../../services/apiTypes";
+import { NotificationService } from "../../services/NotificationService";
+import { useCyber } from "../../context/CyberContext";
+import { ApiError } from "../../utils/errorhandling/ApiError";
+import { CyberError } from "../../utils/errorhandling/CyberError";
+import { FREE_VEHICLE_CAP, PERMIT_FEE, daysUntil, hasRoom, isLicensed, permitState } from "../../domain/Licensing";
+import type { LicenseTier } from "../../domain/Licensing";
+import type { Vehicle } from "../../domain/Vehicle";
+
+/**
+ * License, permits and their controls.
+ * @interface LicenseState
+ */
+export interface LicenseState {
+    tier: LicenseTier;
+    vehicleCap: number | null; // Null for unlimited
+    vehicleCount: number; // Vehicles held, ordered ones included
+    canAddVehicle: boolean; // False once a free license is at its cap
+    permits: ApiPermit[]; // Every vehicle held; without a permit first, then soonest expiry
+    unlicensed: ReadonlySet<string>; // Vehicles that may not take fares now
+    errorMessage: string | null;
+    reload: () => void;
+    /** Adds a year to a vehicle's permit (or issues one), paying PERMIT_FEE; resolves to the new expiry. */
+    renew: (vehicleId: string) => Promise<string>;
+    /** Returns to the free license; the Taxi License is a subscription not sold in game. */
+    setTier: (tier: LicenseTier) => Promise<void>;
+}
+
+const CHECK_MS = 60000; // How often permit expiries are rechecked
+
+/**
+ * Custom hook to fetch and manage the player's license and permits.
+ * @param isLoggedIn - Whether the user is logged in.
+ * @param fleet - The player's vehicles (usePlayerVehicles); a purchase, delivery or sale reloads the permits.
+ * @returns {LicenseState} License, permits and actions.
+ */
+export const usePlayerLicenses = (isLoggedIn: boolean, fleet: Vehicle[]): LicenseState => {
+    const { playerId, bankBalance, refreshStats } = useCyber();
+    const [tier, setTierState] = useState<LicenseTier>("free");
+    const [vehicleCap, setVehicleCap] = useState<number | null>(FREE_VEHICLE_CAP);
+    const [vehicleCount, setVehicleCount] = useState(0);
+    const [permits, setPermits] = useState<ApiPermit[]>([]);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [now, setNow] = useState(() => new Date());
+    const [reloads, setReloads] = useState(0);
+    const reload = useCallback(() => setReloads((count) => count + 1), []);
+    const reminded = useRef(new Set<string>()); // vehicle|expiry|state already announced
+    const fleetKey = useMemo(
+        () =>
+            fleet
+                .filter((vehicle) => vehicle.status !== "sold")
+                .map((vehicle) => vehicle.id)
+                .sort()
+                .join(","),
+        [fleet]
+    );
+
+    useEffect(() => {
+        if (!isLoggedIn) {
+            setTierState("free");
+            setVehicleCap(FREE_VEHICLE_CAP);
+            setVehicleCount(0);
+            setPermits([]);
+            setErrorMessage(null);
+            reminded.current.clear();
+            return;
+        }
+        let cancelled = false;
+        ApiClient.getLicenses()
+            .then((data) => {
+                if (cancelled) return;
+                console.log(`usePlayerLicenses: Fetched ${data.permits.length} permits, ${data.tier} license`);
+                setTierState(data.tier);
+                setVehicleCap(data.vehicle_cap);
+                setVehicleCount(data.vehicles);
+                setPermits(data.permits);
+                setErrorMessage(null);
+            })
+            .catch((error) => {
+                if (cancelled) return;
+                const errorMsg = error instanceof Error ? error.message : "Unknown error";
+                console.error("usePlayerLicenses: Failed to fetch licenses:", errorMsg);
+                setErrorMessage(
+                    error instanceof ApiError && error.status === 404
+                        ? "License data not available yet."
+                        : `Failed to fetch licenses: ${errorMsg}`
+                );
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [isLoggedIn, reloads, fleetKey]);
+
+    /**
+     * Moves the expiry clock every minute.
+     */
+    useEffect(() => {
+        if (!isLoggedIn) return;
+        const interval = window.setInterval(() => setNow(new Date()), CHECK_MS);
+        return () => window.clearInterval(interval);
+    }, [isLoggedIn]);
+
+    /**
+     * Reminds the player of permits due for renewal, expired or missing, once each.
+     */
+    useEffect(() => {
+        permits.forEach((permit) => {
+            const state = permitState(permit.expires_at, now);
+            if (state === "valid" || permit.vehicle_status === "ordered" || permit.vehicle_status === "delivering") return;
+            const key = `${permit.vehicle_id}|${permit.expires_at}|${state}`;
+            if (reminded.current.has(key)) return;
+            reminded.current.add(key);
+            if (state === "due" && permit.expires_at) {
+                NotificationService.notify(
+                    "Permit Renewal Due",
+                    `${permit.vehicle_id}'s taxi permit expires in ${daysUntil(permit.expires_at, now)} days. Renew it at City Hall.`,
+                    "fa-id-card"
+                );
+            } else {
+                NotificationService.notify(
+                    state === "expired" ? "Permit Expired" : "No Taxi Permit",
+                    `${permit.vehicle_id} cannot take fares until its permit is renewed at City Hall.`,
+                    "fa-id-card"
+                );
+            }
+        });
+    }, [permits, now]);
+
+    const unlicensed = useMemo(
+        () => new Set(permits.filter((permit) => !isLicensed(permit.expires_at, now)).map((permit) => permit.vehicle_id)),
+        [permits, now]
+    );
+
+    /**
+     * Renews a vehicle's permit.
+     * @throws {CyberError} 401 when logged out, 400 when the balance is short; ApiError from the server.
+     */
+    const renew = useCallback(
+        async (vehicleId: string): Promise<string> => {
+            if (playerId === null) {
+                throw new CyberError("Log in to renew permits", 401);
+            }
+            if (bankBalance < PERMIT_FEE) {
+                throw new CyberError(`Insufficient funds: $${PERMIT_FEE.toLocaleString()} needed`, 400);
+            }
+            const response = await ApiClient.renewPermit(vehicleId);
+            console.log(`usePlayerLicenses: Renewed ${vehicleId} to ${response.permit.expires_at}, charged $${response.charged}`);
+            setPermits((current) => current.map((permit) => (permit.vehicle_id === vehicleId ? response.permit : permit)));
+            await refreshStats();
+            return response.permit.expires_at ?? "";
+        },
+        [playerId, bankBalance, refreshStats]
+    );
+
+    /**
+     * Switches the license tier; only the free license can be taken in game.
+     * @throws {CyberError} 401 when logged out, 403 for the Taxi License, 409 when the fleet is too large for the free
+     *         license; ApiError from the server.
+     */
+    const setTier = useCallback(
+        async (next: LicenseTier): Promise<void> => {
+            if (playerId === null) {
+                throw new CyberError("Log in to change your license", 401);
+            }
+            if (next === "taxi_license") {
+                throw new CyberError("The Taxi License is a subscription and cannot be bought in game", 403);
+            }
+            if (next === "free" && vehicleCount > FREE_VEHICLE_CAP) {
+                throw new CyberError(
+                    `The free license covers ${FREE_VEHICLE_CAP} vehicles; sell ${vehicleCount - FREE_VEHICLE_CAP} first`,
+                    409
+                );
+            }
+            const response = await ApiClient.setLicenseTier({ tier: next });
+            console.log(`usePlayerLicenses: License set to ${response.tier}`);
+            setTierState(response.tier);
+            setVehicleCap(response.vehicle_cap);
+            setVehicleCount(response.vehicles);
+        },
+        [playerId, vehicleCount]
+    );
+
+    return {
+        tier,
+        vehicleCap,
+        vehicleCount,
+        canAddVehicle: hasRoom(vehicleCap, vehicleCount),
+        permits,
+        unlicensed,
+        errorMessage,
+        reload,
+        renew,
+        setTier,
+    };
+};
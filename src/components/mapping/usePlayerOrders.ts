@@ -0,0 +1,164 @@
+// src/components/mapping/usePlayerOrders.ts
+/**
+ * @file usePlayerOrders.ts
+ * @description React hook for the player's new vehicle orders and the Tesla Service Center's stock.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.2
+ * @note Fetches GET /api/orders and /api/orders/stock and orders through POST /api/orders
+ *       (server/routes/orders/orders.js). Called from CyberMain so the Tesla page in CyberBrowser and the arrival
+ *       notifications share one list.
+ * @detail While an order is undelivered the list is polled every POLL_MS, and once more when its next ships_at or
+ *         deliver_at passes; the server moves due orders along on each fetch. Whenever a vehicle's order changes state
+ *         onVehiclesChanged runs (CyberMain reloads the fleet, so a delivered vehicle appears as a new marker) and each
+ *         delivery is announced through NotificationService. Orders already delivered on the first load are not
+ *         announced again.
+ */
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ApiClient } from "../../services/ApiClient";
+import type { ApiGarage, ApiOrder, StockResponse } from "../../services/apiTypes";
+import { NotificationService } from "../../services/NotificationService";
+import { useCyber } from "../../context/CyberContext";
+import { ApiError } from "../../utils/errorhandling/ApiError";
+import { CyberError } from "../../utils/errorhandling/CyberError";
+import { PERMIT_FEE } from "../../domain/Licensing";
+import { isOrderable } from "../../domain/VehicleCatalog";
+import type { VehicleModel } from "../../domain/VehicleCatalog";
+
+/**
+ * Orders and their controls.
+ * @interface OrderState
+ */
+export interface OrderState {
+    orders: ApiOrder[]; // Newest first
+    stock: StockResponse | null; // Service center stock when last fetched
+    errorMessage: string | null;
+    reload: () => void;
+    /** Orders a catalog model for delivery to one of the player's garages, paying its price and first permit. */
+    placeOrder: (model: VehicleModel, garage: ApiGarage) => Promise<ApiOrder>;
+}
+
+const POLL_MS = 30000; // Order refresh while a delivery is pending
+
+/**
+ * Custom hook to fetch and manage the player's vehicle orders.
+ * @param isLoggedIn - Whether the user is logged in.
+ * @param onVehiclesChanged - Called when an order creates, ships or delivers a vehicle.
+ * @returns {OrderState} Orders, stock and actions.
+ */
+export const usePlayerOrders = (isLoggedIn: boolean, onVehiclesChanged: () => void): OrderState => {
+    const { playerId, bankBalance, refreshStats } = useCyber();
+    const [orders, setOrders] = useState<ApiOrder[]>([]);
+    const [stock, setStock] = useState<StockResponse | null>(null);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [reloads, setReloads] = useState(0);
+    const reload = useCallback(() => setReloads((count) => count + 1), []);
+    const knownStatuses = useRef<Map<number, ApiOrder["status"]> | null>(null); // Null until the first load
+    const vehiclesChanged = useRef(onVehiclesChanged);
+    vehiclesChanged.current = onVehiclesChanged;
+
+    useEffect(() => {
+        if (!isLoggedIn) {
+            setOrders([]);
+            setStock(null);
+            setErrorMessage(null);
+            knownStatuses.current = null;
+            return;
+        }
+        let cancelled = false;
+        ApiClient.getOrders()
+            .then((data) => {
+                if (cancelled) return;
+                console.log(`usePlayerOrders: Fetched ${data.orders.length} orders`);
+                const previous = knownStatuses.current;
+                if (previous) {
+                    const changed = data.orders.filter((order) => previous.has(order.id) && previous.get(order.id) !== order.status);
+                    changed
+                        .filter((order) => order.status === "delivered")
+                        .forEach((order) =>
+                            NotificationService.notify(
+                                "Vehicle Delivered",
+                                `Your ${order.type} has arrived at ${order.garage_name ?? "your garage"}!`,
+                                "fa-car"
+                            )
+                        );
+                    if (changed.length > 0) {
+                        vehiclesChanged.current();
+                    }
+                }
+                knownStatuses.current = new Map(data.orders.map((order) => [order.id, order.status]));
+                setOrders(data.orders);
+                setErrorMessage(null);
+            })
+            .catch((error) => {
+                if (cancelled) return;
+                const errorMsg = error instanceof Error ? error.message : "Unknown error";
+                console.error("usePlayerOrders: Failed to fetch orders:", errorMsg);
+                setErrorMessage(
+                    error instanceof ApiError && error.status === 404 ? "Order data not available yet." : `Failed to fetch orders: ${errorMsg}`
+                );
+            });
+        ApiClient.getStock()
+            .then((data) => {
+                if (!cancelled) setStock(data);
+            })
+            .catch((error) => {
+                console.warn("usePlayerOrders: Failed to fetch stock:", error);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [isLoggedIn, reloads]);
+
+    /**
+     * Polls while deliveries are pending, and reloads as soon as the next one is due to change.
+     */
+    useEffect(() => {
+        const pending = orders.filter((order) => order.status !== "delivered");
+        if (!isLoggedIn || pending.length === 0) return;
+        const now = Date.now();
+        const nextChange = Math.min(
+            ...pending.map((order) => {
+                const shipsAt = new Date(order.ships_at).getTime();
+                return shipsAt > now ? shipsAt : new Date(order.deliver_at).getTime();
+            })
+        );
+        const delay = Math.max(1000, Math.min(POLL_MS, nextChange - now + 1000));
+        const timeout = window.setTimeout(reload, delay);
+        return () => window.clearTimeout(timeout);
+    }, [isLoggedIn, orders, reload]);
+
+    /**
+     * Orders a vehicle.
+     * @throws {CyberError} 401 when logged out, 400 for a model not sold new, a lot, or a short balance; ApiError from the
+     *         server (409 when every slot is taken or the license is at its cap).
+     */
+    const placeOrder = useCallback(
+        async (model: VehicleModel, garage: ApiGarage): Promise<ApiOrder> => {
+            if (playerId === null) {
+                throw new CyberError("Log in to order vehicles", 401);
+            }
+            if (!isOrderable(model)) {
+                throw new CyberError(`${model.name} cannot be ordered new`, 400);
+            }
+            const { id: type, price } = model;
+            if (garage.type !== "garage") {
+                throw new CyberError("Vehicles are delivered only to garages, not lots", 400);
+            }
+            if (bankBalance < price + PERMIT_FEE) {
+                throw new CyberError(`Insufficient funds: $${(price + PERMIT_FEE).toLocaleString()} needed with the permit`, 400);
+            }
+            NotificationService.requestPermission(); // Lets the arrival reach a background tab
+            const response = await ApiClient.placeOrder({ type, garage_id: garage.id });
+            console.log(`usePlayerOrders: Ordered ${type} as ${response.order.vehicle_id}, charged $${response.charged}`);
+            knownStatuses.current?.set(response.order.id, response.order.status);
+            setOrders((current) => [response.order, ...current]);
+            reload(); // Stock changed
+            vehiclesChanged.current();
+            await refreshStats();
+            return response.order;
+        },
+        [playerId, bankBalance, refreshStats, reload]
+    );
+
+    return { orders, stock, errorMessage, reload, placeOrder };
+};
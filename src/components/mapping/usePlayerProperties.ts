@@ -0,0 +1,151 @@
+// src/components/mapping/usePlayerProperties.ts
+/**
+ * @file usePlayerProperties.ts
+ * @description React hook for the player's leased and owned garages and lots, with lease, buy and sell actions.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.3
+ * @note Fetches /api/player/:username/garages (which renews lapsed leases) and the listings held by anyone
+ *       (/api/garages/listings); leasing or buying a listing (domain/Properties.ts) goes through POST /api/garages,
+ *       selling through POST /api/garages/:garage_id/sell. Called from CyberMain so MapArea's property layer, the
+ *       property window and the Realtor page in CyberBrowser share one list.
+ * @detail Prices come from the listing (demand-based rent, term discounts); the server prices the listing id it is
+ *         sent the same way. Actions check the bank balance first, then reload the list and refresh the balance; each
+ *         property's capacity adds to the slots TeslaPage checks before a purchase.
+ */
+import { useCallback, useEffect, useState } from "react";
+import { ApiClient } from "../../services/ApiClient";
+import type { ApiGarage } from "../../services/apiTypes";
+import { useCyber } from "../../context/CyberContext";
+import { ApiError } from "../../utils/errorhandling/ApiError";
+import { CyberError } from "../../utils/errorhandling/CyberError";
+import { leaseCost, purchasePrice } from "../../domain/Properties";
+import type { LeaseTerm, PropertyListing, PropertyTenure } from "../../domain/Properties";
+
+/**
+ * Properties and their controls.
+ * @interface PropertyState
+ */
+export interface PropertyState {
+    properties: ApiGarage[]; // Leased and owned garages/lots
+    takenListingIds: string[]; // Listings held by any player, this one included
+    errorMessage: string | null;
+    reload: () => void;
+    /** Leases a listing for a term, paid up front. */
+    lease: (listing: PropertyListing, term: LeaseTerm) => Promise<void>;
+    /** Buys a listing outright. */
+    buy: (listing: PropertyListing) => Promise<void>;
+    /** Sells an owned property or ends a lease; resolves to the amount credited. */
+    sell: (garageId: number) => Promise<number>;
+}
+
+/**
+ * Custom hook to fetch and manage the player's properties.
+ * @param isLoggedIn - Whether the user is logged in.
+ * @param username - Current player's username.
+ * @returns {PropertyState} Properties and actions.
+ */
+export const usePlayerProperties = (isLoggedIn: boolean, username: string | null): PropertyState => {
+    const { playerId, bankBalance, refreshStats } = useCyber();
+    const [properties, setProperties] = useState<ApiGarage[]>([]);
+    const [takenListingIds, setTakenListingIds] = useState<string[]>([]);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [reloads, setReloads] = useState(0);
+    const reload = useCallback(() => setReloads((count) => count + 1), []);
+
+    useEffect(() => {
+        if (!isLoggedIn || !username) {
+            setProperties([]);
+            setTakenListingIds([]);
+            setErrorMessage(null);
+            return;
+        }
+        let cancelled = false;
+        ApiClient.getPlayerGarages(username)
+            .then((data) => {
+                if (cancelled) return;
+                console.log(`usePlayerProperties: Fetched ${data.garages.length} properties`);
+                setProperties(data.garages);
+                setErrorMessage(null);
+                if (data.lease_charged || data.leases_ended?.length) {
+                    // The fetch renewed lapsed leases, or ended those the bank could not pay
+                    console.log(`usePlayerProperties: Leases renewed for $${data.lease_charged ?? 0}, ${data.leases_ended?.length ?? 0} ended unpaid`);
+                    refreshStats().catch((error) => console.warn("usePlayerProperties: Failed to refresh the balance:", error));
+                }
+            })
+            .catch((error) => {
+                if (cancelled) return;
+                const errorMsg = error instanceof Error ? error.message : "Unknown error";
+                console.error("usePlayerProperties: Failed to fetch properties:", errorMsg);
+                setErrorMessage(
+                    error instanceof ApiError && error.status === 404
+                        ? "Property data not available yet."
+                        : `Failed to fetch properties: ${errorMsg}`
+                );
+            });
+        ApiClient.getTakenListings()
+            .then((data) => {
+                if (!cancelled) setTakenListingIds(data.listing_ids);
+            })
+            .catch((error) => {
+                // Not fatal: the server still refuses a taken listing with 409
+                if (!cancelled) console.warn("usePlayerProperties: Failed to fetch taken listings:", error);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [isLoggedIn, username, reloads, refreshStats]);
+
+    /**
+     * Takes a listing on a lease or as owner.
+     * @throws {CyberError} 401 when logged out, 409 when already held by anyone, 400 when the balance is short; ApiError
+     *         from the server.
+     */
+    const acquire = useCallback(
+        async (listing: PropertyListing, tenure: PropertyTenure, term: LeaseTerm, cost: number): Promise<void> => {
+            if (playerId === null) {
+                throw new CyberError("Log in to lease or buy property", 401);
+            }
+            if (properties.some((property) => property.listing_id === listing.id)) {
+                throw new CyberError(`${listing.name} is already yours`, 409);
+            }
+            if (takenListingIds.includes(listing.id)) {
+                throw new CyberError(`${listing.name} is held by another player`, 409);
+            }
+            if (bankBalance < cost) {
+                throw new CyberError(`Insufficient funds: $${cost.toLocaleString()} needed`, 400);
+            }
+            const response = await ApiClient.createGarage({
+                player_id: playerId,
+                listing_id: listing.id,
+                tenure,
+                lease_term: term,
+            });
+            console.log(
+                `usePlayerProperties: ${tenure === "own" ? "Bought" : `Leased (${term})`} ${listing.id} as garage ${response.garage_id}`
+            );
+            reload();
+            await refreshStats();
+        },
+        [playerId, properties, takenListingIds, bankBalance, reload, refreshStats]
+    );
+
+    const lease = useCallback(
+        (listing: PropertyListing, term: LeaseTerm) => acquire(listing, "lease", term, leaseCost(listing, term)),
+        [acquire]
+    );
+
+    const buy = useCallback((listing: PropertyListing) => acquire(listing, "own", "monthly", purchasePrice(listing)), [acquire]);
+
+    const sell = useCallback(
+        async (garageId: number): Promise<number> => {
+            const response = await ApiClient.sellGarage(garageId);
+            console.log(`usePlayerProperties: Released garage ${garageId} for $${response.sale_price}`);
+            reload();
+            await refreshStats();
+            return response.sale_price;
+        },
+        [reload, refreshStats]
+    );
+
+    return { properties, takenListingIds, errorMessage, reload, lease, buy, sell };
+};
@@ -0,0 +1,215 @@
+// src/components/mapping/usePlayerStaff.ts
+/**
+ * @file usePlayerStaff.ts
+ * @description React hook for the player's garage staff: hiring, shifts, firing, payroll and who is on shift now.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.1
+ * @note Fetches GET /api/staff and acts through the other staff routes (server/routes/staff/staff.js). Called from
+ *       CyberMain so the Employment Agency page in CyberBrowser and the fare simulation share one roster.
+ * @detail Payroll runs when the roster loads and whenever a member's paid_until passes: the server bills the months due
+ *         and staff the bank cannot pay leave, which is reported in notice. staffing lists the player's garages with
+ *         the paid-up staff on shift there (domain/Staff.ts isOnShift, on the wall clock, checked every minute) for
+ *         useFareSimulation; recordWork adds the jobs the simulation reports to each member's count, which sets their
+ *         level.
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ApiClient } from "../../services/ApiClient";
+import type { ApiGarage, ApiStaff } from "../../services/apiTypes";
+import { useCyber } from "../../context/CyberContext";
+import { ApiError } from "../../utils/errorhandling/ApiError";
+import { CyberError } from "../../utils/errorhandling/CyberError";
+import { applicantSalary, isOnShift, staffLevel } from "../../domain/Staff";
+import type { StaffApplicant, WeeklySchedule } from "../../domain/Staff";
+import type { StaffedGarage, StaffWork } from "../../simulation/Staffing";
+
+/**
+ * Staff and their controls.
+ * @interface StaffState
+ */
+export interface StaffState {
+    staff: ApiStaff[];
+    staffing: StaffedGarage[]; // The player's garages with staff on shift now
+    payrollMonthly: number; // Sum of salaries
+    errorMessage: string | null;
+    notice: string | null; // Last payroll result worth telling the player
+    reload: () => void;
+    /** Hires an applicant at a garage, paying the first month. */
+    hire: (applicant: StaffApplicant, garageId: number | null, schedule: WeeklySchedule) => Promise<void>;
+    /** Moves a member to another garage and/or replaces their schedule. */
+    update: (staffId: number, changes: { garageId?: number | null; schedule?: WeeklySchedule }) => Promise<void>;
+    /** Lets a member go. */
+    fire: (staffId: number) => Promise<void>;
+    /** Adds jobs finished in the simulation to each member's count. */
+    recordWork: (work: readonly StaffWork[]) => void;
+}
+
+const SHIFT_CHECK_MS = 60000; // How often on-shift staff are recomputed
+
+/**
+ * Custom hook to fetch and manage the player's staff.
+ * @param isLoggedIn - Whether the user is logged in.
+ * @param properties - The player's garages and lots (usePlayerProperties), where staff work.
+ * @returns {StaffState} Staff and actions.
+ */
+export const usePlayerStaff = (isLoggedIn: boolean, properties: ApiGarage[]): StaffState => {
+    const { playerId, bankBalance, refreshStats } = useCyber();
+    const [staff, setStaff] = useState<ApiStaff[]>([]);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [now, setNow] = useState(() => new Date());
+    const [reloads, setReloads] = useState(0);
+    const reload = useCallback(() => setReloads((count) => count + 1), []);
+    const payrollRunning = useRef(false);
+
+    useEffect(() => {
+        if (!isLoggedIn) {
+            setStaff([]);
+            setErrorMessage(null);
+            setNotice(null);
+            return;
+        }
+        let cancelled = false;
+        ApiClient.getStaff()
+            .then((data) => {
+                if (cancelled) return;
+                console.log(`usePlayerStaff: Fetched ${data.staff.length} staff`);
+                setStaff(data.staff);
+                setErrorMessage(null);
+            })
+            .catch((error) => {
+                if (cancelled) return;
+                const errorMsg = error instanceof Error ? error.message : "Unknown error";
+                console.error("usePlayerStaff: Failed to fetch staff:", errorMsg);
+                setErrorMessage(
+                    error instanceof ApiError && error.status === 404 ? "Staff data not available yet." : `Failed to fetch staff: ${errorMsg}`
+                );
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [isLoggedIn, reloads]);
+
+    /**
+     * Moves the shift clock every minute.
+     */
+    useEffect(() => {
+        if (!isLoggedIn) return;
+        const interval = window.setInterval(() => setNow(new Date()), SHIFT_CHECK_MS);
+        return () => window.clearInterval(interval);
+    }, [isLoggedIn]);
+
+    /**
+     * Bills salaries once a member's paid_until has passed.
+     */
+    useEffect(() => {
+        if (!isLoggedIn || payrollRunning.current) return;
+        if (!staff.some((member) => new Date(member.paid_until) <= now)) return;
+        payrollRunning.current = true;
+        ApiClient.runPayroll()
+            .then(async (data) => {
+                const departed = staff.filter((member) => data.departed.includes(member.id)).map((member) => member.name);
+                console.log(`usePlayerStaff: Payroll charged $${data.charged}, ${departed.length} left unpaid`);
+                setNotice(
+                    departed.length > 0
+                        ? `${departed.join(", ")} left: payroll could not be paid`
+                        : `Payroll paid: $${data.charged.toLocaleString()}`
+                );
+                reload();
+                await refreshStats();
+            })
+            .catch((error) => {
+                console.error("usePlayerStaff: Payroll failed:", error);
+            })
+            .finally(() => {
+                payrollRunning.current = false;
+            });
+    }, [isLoggedIn, staff, now, reload, refreshStats]);
+
+    const staffing = useMemo(
+        () =>
+            properties
+                .map((property) => ({
+                    garageId: property.id,
+                    coords: property.coords,
+                    onShift: staff
+                        // A member owed salary stops working until payroll pays them, as the server refuses their jobs
+                        .filter(
+                            (member) =>
+                                member.garage_id === property.id && new Date(member.paid_until) > now && isOnShift(member.schedule, now)
+                        )
+                        .map((member) => ({ staffId: member.id, role: member.role, level: staffLevel(member.jobs_done) })),
+                }))
+                .filter((garage) => garage.onShift.length > 0),
+        [properties, staff, now]
+    );
+
+    const payrollMonthly = useMemo(() => staff.reduce((sum, member) => sum + member.salary_monthly, 0), [staff]);
+
+    /**
+     * Hires an applicant.
+     * @throws {CyberError} 401 when logged out, 409 when already hired, 400 when the balance is short; ApiError from the
+     *         server.
+     */
+    const hire = useCallback(
+        async (applicant: StaffApplicant, garageId: number | null, schedule: WeeklySchedule): Promise<void> => {
+            if (playerId === null) {
+                throw new CyberError("Log in to hire staff", 401);
+            }
+            if (staff.some((member) => member.applicant_id === applicant.id)) {
+                throw new CyberError(`${applicant.name} already works for you`, 409);
+            }
+            const salary = applicantSalary(applicant);
+            if (bankBalance < salary) {
+                throw new CyberError(`Insufficient funds: $${salary.toLocaleString()} needed for the first month`, 400);
+            }
+            const response = await ApiClient.hireStaff({
+                applicant_id: applicant.id,
+                name: applicant.name,
+                role: applicant.role,
+                level: applicant.level,
+                garage_id: garageId,
+                schedule,
+            });
+            console.log(`usePlayerStaff: Hired ${applicant.name} as staff ${response.staff.id}, charged $${response.charged}`);
+            setStaff((current) => [...current, response.staff]);
+            await refreshStats();
+        },
+        [playerId, staff, bankBalance, refreshStats]
+    );
+
+    const update = useCallback(
+        async (staffId: number, changes: { garageId?: number | null; schedule?: WeeklySchedule }): Promise<void> => {
+            const response = await ApiClient.updateStaff(staffId, { garage_id: changes.garageId, schedule: changes.schedule });
+            console.log(`usePlayerStaff: Updated staff ${staffId}`);
+            setStaff((current) => current.map((member) => (member.id === staffId ? response.staff : member)));
+        },
+        []
+    );
+
+    const fire = useCallback(async (staffId: number): Promise<void> => {
+        await ApiClient.fireStaff(staffId);
+        console.log(`usePlayerStaff: Let staff ${staffId} go`);
+        setStaff((current) => current.filter((member) => member.id !== staffId));
+    }, []);
+
+    const recordWork = useCallback((work: readonly StaffWork[]) => {
+        const counts = new Map<number, number>();
+        work.forEach((item) => counts.set(item.staffId, (counts.get(item.staffId) ?? 0) + 1));
+        if (counts.size === 0) return;
+        // Count the jobs now so levels move with the simulation; the server's total replaces it when it answers
+        setStaff((current) =>
+            current.map((member) => (counts.has(member.id) ? { ...member, jobs_done: member.jobs_done + (counts.get(member.id) ?? 0) } : member))
+        );
+        counts.forEach((count, staffId) => {
+            ApiClient.recordStaffJobs(staffId, count)
+                .then((data) => {
+                    setStaff((current) => current.map((member) => (member.id === staffId ? { ...member, jobs_done: data.jobs_done } : member)));
+                })
+                .catch((error) => {
+                    console.warn(`usePlayerStaff: Failed to record ${count} jobs for staff ${staffId}:`, error);
+                });
+        });
+    }, []);
+
+    return { staff, staffing, payrollMonthly, errorMessage, notice, reload, hire, update, fire, recordWork };
+};
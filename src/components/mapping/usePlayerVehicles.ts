@@ -3,110 +3,67 @@
  * @file usePlayerVehicles.ts
  * @description React hook for managing player vehicle data in CyberTaxi.
  * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
- * @version 0.1.5
- * @note Fetches player vehicles from /api/player/:username/vehicles, maps statuses, handles errors, per GDD v1.1.
- * @detail Uses LoginService for token refresh, aligns with PlayerService pattern.
+ * @version 0.2.0
+ * @note Fetches player vehicles from /api/player/:username/vehicles, exposing the whole fleet and the subset placed on the map, handles errors, per GDD v1.1.
+ * @detail Uses ApiClient for requests, token refresh and schema validation; login state and username come from CyberContext via CyberMain,
+ *         which shares the result between MapArea and FleetWindow.
+ *         Realtime deltas are merged via useRealtimeVehicles, which also triggers a full reload after reconnects.
  */
-import { useState, useEffect } from "react";
-import { API_CONFIG } from "../../config/apiConfig";
-import { LoginService } from "../../services/LoginService";
-import type { Vehicle } from "./VehicleMarkers";
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { ApiClient } from "../../services/ApiClient";
+import { useRealtimeVehicles } from "./useRealtimeVehicles";
+import type { VehiclesResponse } from "../../services/apiTypes";
+import { ApiError } from "../../utils/errorhandling/ApiError";
+import { isPlaced } from "../../domain/Vehicle";
+import type { PlacedVehicle, Vehicle } from "../../domain/Vehicle";
 
 /**
  * Interface for vehicle state.
  * @interface VehicleState
  */
-interface VehicleState {
-    vehicles: Vehicle[]; // Player vehicles
+export interface VehicleState {
+    vehicles: PlacedVehicle[]; // Player vehicles on the map
+    fleet: Vehicle[]; // Every player vehicle, including ordered/delivering ones
     errorMessage: string | null; // Error message for UI
     isLoadingVehicles: boolean; // Loading state
+    reload: () => void; // Refetch the full list, e.g. after bulk actions
 }
 
-/**
- * Maps backend status to marker style.
- * @param status - Backend vehicle status.
- * @returns {string} Mapped status for marker style.
- */
-const mapVehicleStatus = (status: string): Vehicle["status"] => {
-    switch (status.toLowerCase()) {
-        case "active":
-        case "fare":
-            return "active";
-        case "parked":
-        case "maintenance":
-        case "cleaning":
-            return "parked";
-        case "new":
-            return "new";
-        default:
-            console.warn(`usePlayerVehicles: Unknown vehicle status: ${status}, defaulting to parked`);
-            return "parked";
-    }
-};
-
 /**
  * Custom hook to fetch and manage player vehicle data.
  * @param isLoggedIn - Whether the user is logged in.
+ * @param username - Current player's username.
  * @returns {VehicleState} Vehicle state and status.
  */
-export const usePlayerVehicles = (isLoggedIn: boolean): VehicleState => {
-    const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+export const usePlayerVehicles = (isLoggedIn: boolean, username: string | null): VehicleState => {
+    const [fleet, setFleet] = useState<Vehicle[]>([]);
     const [errorMessage, setErrorMessage] = useState<string | null>(null);
     const [isLoadingVehicles, setIsLoadingVehicles] = useState(true);
+    const [manualReloads, setManualReloads] = useState(0);
+    const reloadKey = useRealtimeVehicles(setFleet);
+    const vehicles = useMemo(() => fleet.filter(isPlaced), [fleet]);
+    const reload = useCallback(() => setManualReloads((count) => count + 1), []);
 
     /**
-     * Fetches player vehicles with retries and token refresh.
+     * Fetches player vehicles through ApiClient (retries and token refresh included).
      * @returns {Promise<Vehicle[]>} Array of validated vehicles.
      */
     const fetchVehicles = async (): Promise<Vehicle[]> => {
-        const token = localStorage.getItem("jwt_token");
-        const username = localStorage.getItem("username");
-        if (!token || !username) {
-            console.error("usePlayerVehicles: Missing JWT token or username");
+        if (!username) {
+            console.error("usePlayerVehicles: Missing username");
             setErrorMessage("Authentication required. Please log in.");
             return [];
         }
         console.log("usePlayerVehicles: Fetching vehicles for", username);
         try {
-            let response = await fetch(`${API_CONFIG.BASE_URL}/player/${username}/vehicles`, {
-                method: "GET",
-                headers: {
-                    Authorization: `Bearer ${token}`,
-                    "Content-Type": "application/json",
-                },
-            });
-            if (response.status === 403) {
-                console.log("usePlayerVehicles: 403 on vehicles, refreshing token");
-                const loginResponse = await LoginService.login(username, "newpass123");
-                if (!loginResponse || !loginResponse.token || !loginResponse.player_id) {
-                    setErrorMessage("Failed to refresh session. Please log in again.");
-                    localStorage.removeItem("jwt_token");
-                    localStorage.removeItem("username");
-                    localStorage.removeItem("player_id");
-                    return [];
-                }
-                localStorage.setItem("jwt_token", loginResponse.token);
-                localStorage.setItem("player_id", loginResponse.player_id.toString());
-                console.log(`usePlayerVehicles: Token refreshed: ${loginResponse.token.slice(0, 10)}...`);
-                response = await fetch(`${API_CONFIG.BASE_URL}/player/${username}/vehicles`, {
-                    method: "GET",
-                    headers: {
-                        Authorization: `Bearer ${loginResponse.token}`,
-                        "Content-Type": "application/json",
-                    },
-                });
-            }
-            if (response.status === 404) {
+            const data = await ApiClient.getPlayerVehicles(username);
+            return processVehicleResponse(data);
+        } catch (error) {
+            if (error instanceof ApiError && error.status === 404) {
                 console.warn("usePlayerVehicles: Vehicle endpoint not found");
                 setErrorMessage("Vehicle data not available yet. Contact support.");
                 return [];
             }
-            if (!response.ok) {
-                const errorText = await response.text();
-                throw new Error(`HTTP ${response.status}: ${errorText}`);
-            }
-            return await processVehicleResponse(response);
-        } catch (error) {
             const errorMsg = error instanceof Error ? error.message : "Unknown error";
             console.error(`usePlayerVehicles: Failed to fetch vehicles:`, errorMsg);
             setErrorMessage(`Failed to fetch vehicles: ${errorMsg}`);
@@ -115,63 +72,20 @@ export const usePlayerVehicles = (isLoggedIn: boolean): VehicleState => {
     };
 
     /**
-     * Processes API response and validates vehicle data.
-     * @param response - Fetch response.
-     * @returns {Promise<Vehicle[]>} Validated vehicles.
+     * Unwraps the schema-validated API response.
+     * @param data - Response parsed by ApiClient (invalid records already dropped and reported).
+     * @returns {Vehicle[]} Fleet vehicles.
      */
-    const processVehicleResponse = async (response: Response): Promise<Vehicle[]> => {
-        const data = await response.json();
-        console.log("usePlayerVehicles: API response:", JSON.stringify(data, null, 2));
-        if (!Array.isArray(data.vehicles)) {
-            console.warn("usePlayerVehicles: Invalid vehicles array:", data);
-            setErrorMessage("No vehicles found in database");
-            return [];
-        }
-        const validVehicles = data.vehicles
-            .filter((v: any) => {
-                const isValid =
-                    v.id &&
-                    v.player_id &&
-                    v.type &&
-                    v.status &&
-                    ["active", "fare", "parked", "maintenance", "cleaning", "new"].includes(v.status.toLowerCase()) &&
-                    Array.isArray(v.coords) &&
-                    v.coords.length === 2 &&
-                    typeof v.coords[0] === "number" &&
-                    typeof v.coords[1] === "number" &&
-                    v.coords[0] >= -90 &&
-                    v.coords[0] <= 90 &&
-                    v.coords[1] >= -180 &&
-                    v.coords[1] <= 180;
-                if (!isValid) console.warn("usePlayerVehicles: Invalid vehicle data:", v);
-                return isValid;
-            })
-            .map((v: any) => ({
-                id: v.id.toString(),
-                player_id: v.player_id,
-                type: v.type,
-                status: mapVehicleStatus(v.status),
-                coords: [v.coords[0], v.coords[1]] as [number, number],
-                dest: v.dest ? ([v.dest[0], v.dest[1]] as [number, number]) : null,
-                wear: v.wear,
-                battery: v.battery,
-                mileage: v.mileage,
-                tire_mileage: v.tire_mileage,
-                purchase_date: v.purchase_date,
-                delivery_timestamp: v.delivery_timestamp,
-                cost: v.cost,
-                created_at: v.created_at,
-                updated_at: v.updated_at,
-            }));
-        console.log(`usePlayerVehicles: Fetched ${validVehicles.length} valid vehicles`);
-        if (validVehicles.length === 0) setErrorMessage("No vehicles found in database");
-        return validVehicles;
+    const processVehicleResponse = (data: VehiclesResponse): Vehicle[] => {
+        console.log(`usePlayerVehicles: Fetched ${data.vehicles.length} vehicles`);
+        if (data.vehicles.length === 0) setErrorMessage("No vehicles found in database");
+        return data.vehicles;
     };
 
     useEffect(() => {
         if (!isLoggedIn) {
             console.log("usePlayerVehicles: Clearing vehicles pre-login");
-            setVehicles([]);
+            setFleet([]);
             setIsLoadingVehicles(false);
             setErrorMessage(null);
             return;
@@ -180,12 +94,12 @@ export const usePlayerVehicles = (isLoggedIn: boolean): VehicleState => {
             setIsLoadingVehicles(true);
             console.log("usePlayerVehicles: Triggering vehicle fetch");
             const playerVehicles = await fetchVehicles();
-            setVehicles(playerVehicles);
+            setFleet(playerVehicles);
             setIsLoadingVehicles(false);
             console.log(`usePlayerVehicles: Loaded ${playerVehicles.length} player vehicles`);
         };
         loadVehicles();
-    }, [isLoggedIn]);
+    }, [isLoggedIn, username, reloadKey, manualReloads]);
 
-    return { vehicles, errorMessage, isLoadingVehicles };
+    return { vehicles, fleet, errorMessage, isLoadingVehicles, reload };
 };
\ No newline at end of file
@@ -0,0 +1,51 @@
+// src/components/mapping/useRealtimeVehicles.ts
+/**
+ * @file useRealtimeVehicles.ts
+ * @description React hook merging RealtimeService vehicle deltas into a mapping hook's vehicle state.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.1
+ * @note Shared by usePlayerVehicles and useOtherPlayerVehicles so both lists stay live without refetching.
+ * @detail Deltas for vehicles not in the list are ignored; an optional keep predicate drops vehicles that no longer
+ *         belong in the list (e.g. isPlaced for map-only lists). Returns a reload counter that increments on every
+ *         RealtimeService resync, for use as an effect dependency that refetches the full list.
+ */
+import { useEffect, useState } from "react";
+import type { Dispatch, SetStateAction } from "react";
+import { RealtimeService } from "../../services/RealtimeService";
+import { applyVehicleDeltas } from "../../domain/Vehicle";
+import type { Vehicle } from "../../domain/Vehicle";
+
+/**
+ * Subscribes a vehicle list to realtime deltas and resyncs.
+ * @param setVehicles - State setter of the owning hook.
+ * @param keep - Optional predicate; vehicles failing it after a delta are removed.
+ * @returns {number} Reload counter, bumped after each reconnect.
+ */
+export const useRealtimeVehicles = <T extends Vehicle>(
+    setVehicles: Dispatch<SetStateAction<T[]>>,
+    keep?: (vehicle: Vehicle) => vehicle is T
+): number => {
+    const [reloadKey, setReloadKey] = useState(0);
+
+    useEffect(
+        () =>
+            RealtimeService.onDeltas((deltas) => {
+                setVehicles((current) => {
+                    const next = applyVehicleDeltas(current, deltas);
+                    return next === current || !keep ? next : next.filter(keep);
+                });
+            }),
+        [setVehicles, keep]
+    );
+
+    useEffect(
+        () =>
+            RealtimeService.onResync(() => {
+                console.log("useRealtimeVehicles: Resync requested, reloading vehicles");
+                setReloadKey((key) => key + 1);
+            }),
+        []
+    );
+
+    return reloadKey;
+};
@@ -0,0 +1,149 @@
+// src/components/mapping/useUsedMarket.ts
+/**
+ * @file useUsedMarket.ts
+ * @description React hook for the used vehicle market: the listings for sale, buying one and selling the player's own.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.2
+ * @note Fetches GET /api/market/used and buys through POST /api/market/used/:listing_id/buy
+ *       (server/routes/market/market.js); selling saves the simulation's wear (POST /api/vehicles/:vehicle_id/wear), then
+ *       goes through POST /api/vehicles/:vehicle_id/status, which prices the sale from the stored wear with the same
+ *       rule as domain/UsedMarket.ts usedPrice. Used by the Tesla page.
+ * @detail The listings reload when the stock rotates (rotates_at). Buying and selling check the balance or the
+ *         lifecycle first, then refresh the balance and run onVehiclesChanged so the fleet and map pick the vehicle up
+ *         or drop it.
+ */
+import { useCallback, useEffect, useState } from "react";
+import { ApiClient } from "../../services/ApiClient";
+import type { ApiGarage, ApiUsedListing } from "../../services/apiTypes";
+import { useCyber } from "../../context/CyberContext";
+import { ApiError } from "../../utils/errorhandling/ApiError";
+import { CyberError } from "../../utils/errorhandling/CyberError";
+import { PERMIT_FEE } from "../../domain/Licensing";
+import { canTransition } from "../../domain/Vehicle";
+import type { Vehicle } from "../../domain/Vehicle";
+import { wearFields } from "../../simulation/Wear";
+import type { WearState } from "../../simulation/Wear";
+
+/**
+ * Used market listings and their controls.
+ * @interface UsedMarketState
+ */
+export interface UsedMarketState {
+    listings: ApiUsedListing[];
+    rotatesAt: string | null; // ISO timestamp the stock is replaced
+    errorMessage: string | null;
+    reload: () => void;
+    /** Buys a listing with its first permit, handed over at one of the player's garages or lots; resolves to the new vehicle id. */
+    buy: (listing: ApiUsedListing, garage: ApiGarage) => Promise<string>;
+    /** Sells one of the player's vehicles at its current wear (simulated, when given); resolves to the amount credited. */
+    sell: (vehicle: Vehicle, wear: WearState | null) => Promise<number>;
+}
+
+/**
+ * Custom hook to fetch and trade on the used vehicle market.
+ * @param isLoggedIn - Whether the user is logged in.
+ * @param onVehiclesChanged - Called after a purchase or sale changes the fleet.
+ * @returns {UsedMarketState} Listings and actions.
+ */
+export const useUsedMarket = (isLoggedIn: boolean, onVehiclesChanged: () => void): UsedMarketState => {
+    const { playerId, bankBalance, refreshStats } = useCyber();
+    const [listings, setListings] = useState<ApiUsedListing[]>([]);
+    const [rotatesAt, setRotatesAt] = useState<string | null>(null);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [reloads, setReloads] = useState(0);
+    const reload = useCallback(() => setReloads((count) => count + 1), []);
+
+    useEffect(() => {
+        if (!isLoggedIn) {
+            setListings([]);
+            setRotatesAt(null);
+            setErrorMessage(null);
+            return;
+        }
+        let cancelled = false;
+        ApiClient.getUsedListings()
+            .then((data) => {
+                if (cancelled) return;
+                console.log(`useUsedMarket: Fetched ${data.listings.length} used listings`);
+                setListings(data.listings);
+                setRotatesAt(data.rotates_at);
+                setErrorMessage(null);
+            })
+            .catch((error) => {
+                if (cancelled) return;
+                const errorMsg = error instanceof Error ? error.message : "Unknown error";
+                console.error("useUsedMarket: Failed to fetch used listings:", errorMsg);
+                setErrorMessage(
+                    error instanceof ApiError && error.status === 404
+                        ? "Used market not available yet."
+                        : `Failed to fetch used vehicles: ${errorMsg}`
+                );
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [isLoggedIn, reloads]);
+
+    /**
+     * Reloads when the stock rotates.
+     */
+    useEffect(() => {
+        if (!isLoggedIn || !rotatesAt) return;
+        const timeout = window.setTimeout(reload, Math.max(1000, new Date(rotatesAt).getTime() - Date.now() + 1000));
+        return () => window.clearTimeout(timeout);
+    }, [isLoggedIn, rotatesAt, reload]);
+
+    /**
+     * Buys a listing.
+     * @throws {CyberError} 401 when logged out, 400 when the balance is short; ApiError from the server (404 once the
+     *         stock rotated, 409 when someone was faster, every slot is taken or the license is at its cap).
+     */
+    const buy = useCallback(
+        async (listing: ApiUsedListing, garage: ApiGarage): Promise<string> => {
+            if (playerId === null) {
+                throw new CyberError("Log in to buy vehicles", 401);
+            }
+            if (bankBalance < listing.price + PERMIT_FEE) {
+                throw new CyberError(`Insufficient funds: $${(listing.price + PERMIT_FEE).toLocaleString()} needed with the permit`, 400);
+            }
+            try {
+                const response = await ApiClient.buyUsedVehicle(listing.listing_id, garage.id);
+                console.log(`useUsedMarket: Bought ${listing.listing_id} as ${response.vehicle_id}, charged $${response.charged}`);
+                setListings((current) => current.filter((item) => item.listing_id !== listing.listing_id));
+                onVehiclesChanged();
+                await refreshStats();
+                return response.vehicle_id;
+            } catch (error) {
+                if (error instanceof ApiError && (error.status === 404 || error.status === 409)) {
+                    reload(); // Sold or rotated out; show what is left
+                }
+                throw error;
+            }
+        },
+        [playerId, bankBalance, refreshStats, onVehiclesChanged, reload]
+    );
+
+    /**
+     * Sells a vehicle.
+     * @throws {CyberError} 409 when its status cannot go to sold; ApiError from the server.
+     */
+    const sell = useCallback(
+        async (vehicle: Vehicle, wear: WearState | null): Promise<number> => {
+            if (!canTransition(vehicle.status, "sold")) {
+                throw new CyberError(`${vehicle.id} cannot be sold while ${vehicle.status}; park it first`, 409);
+            }
+            if (wear) {
+                await ApiClient.saveVehicleWear(vehicle.id, wearFields(wear));
+            }
+            const response = await ApiClient.updateVehicleStatus(vehicle.id, "sold");
+            const salePrice = response.sale_price ?? 0;
+            console.log(`useUsedMarket: Sold ${vehicle.id} for $${salePrice}`);
+            onVehiclesChanged();
+            await refreshStats();
+            return salePrice;
+        },
+        [refreshStats, onVehiclesChanged]
+    );
+
+    return { listings, rotatesAt, errorMessage, reload, buy, sell };
+};
@@ -0,0 +1,64 @@
+// src/components/mapping/useVehicleCatalog.ts
+/**
+ * @file useVehicleCatalog.ts
+ * @description React hook for the vehicle catalog: every model with its price, specs and availability.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Fetches GET /api/catalog/vehicles (server/routes/catalog/catalog.js, from server/data/vehicle-catalog.json).
+ *       Called from CyberMain so the Tesla page, the Vehicle Details window and the fare simulation read one catalog.
+ * @detail The catalog holds no player data, so it is kept across logouts; it is fetched once when enabled and again on
+ *         reload. Until it arrives models is empty and domain/VehicleCatalog.ts modelFor falls back to Model Y specs.
+ */
+import { useCallback, useEffect, useState } from "react";
+import { ApiClient } from "../../services/ApiClient";
+import { ApiError } from "../../utils/errorhandling/ApiError";
+import type { VehicleModel } from "../../domain/VehicleCatalog";
+
+/**
+ * Vehicle catalog and its reload.
+ * @interface VehicleCatalogState
+ */
+export interface VehicleCatalogState {
+    models: VehicleModel[]; // Catalog order
+    errorMessage: string | null;
+    reload: () => void;
+}
+
+/**
+ * Custom hook to fetch the vehicle catalog.
+ * @param enabled - Whether to fetch (CyberMain passes isLoggedIn).
+ * @returns {VehicleCatalogState} Models and reload.
+ */
+export const useVehicleCatalog = (enabled: boolean): VehicleCatalogState => {
+    const [models, setModels] = useState<VehicleModel[]>([]);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [reloads, setReloads] = useState(0);
+    const reload = useCallback(() => setReloads((count) => count + 1), []);
+
+    useEffect(() => {
+        if (!enabled) return;
+        let cancelled = false;
+        ApiClient.getVehicleCatalog()
+            .then((data) => {
+                if (cancelled) return;
+                console.log(`useVehicleCatalog: Fetched ${data.models.length} vehicle models`);
+                setModels(data.models);
+                setErrorMessage(null);
+            })
+            .catch((error) => {
+                if (cancelled) return;
+                const errorMsg = error instanceof Error ? error.message : "Unknown error";
+                console.error("useVehicleCatalog: Failed to fetch the vehicle catalog:", errorMsg);
+                setErrorMessage(
+                    error instanceof ApiError && error.status === 404
+                        ? "Vehicle catalog not available yet."
+                        : `Failed to fetch vehicle models: ${errorMsg}`
+                );
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [enabled, reloads]);
+
+    return { models, errorMessage, reload };
+};
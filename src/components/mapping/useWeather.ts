@@ -0,0 +1,97 @@
+// src/components/mapping/useWeather.ts
+/**
+ * @file useWeather.ts
+ * @description React hook for Austin's weather: current conditions, the next 24 hours and their effect on trips.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.1
+ * @note Reads services/WeatherService.ts, which caches the provider's forecast. Called from CyberMain so the map's
+ *       weather layer, the Weather Forecast page and the fare simulation share one forecast.
+ * @detail Refreshes every API_CONFIG.WEATHER_REFRESH_MS while enabled; reload() skips the cache. modifiers
+ *         (domain/Weather.ts weatherModifiers) is CALM_WEATHER until a forecast arrives. When rain starts, the player
+ *         is told once through NotificationService with what it does to trips.
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { API_CONFIG } from "../../config/apiConfig";
+import { NotificationService } from "../../services/NotificationService";
+import { WeatherService } from "../../services/WeatherService";
+import { WEATHER_KINDS, weatherModifiers } from "../../domain/Weather";
+import type { WeatherForecast, WeatherModifiers, WeatherSample } from "../../domain/Weather";
+
+/**
+ * Forecast and its effect on trips.
+ * @interface WeatherState
+ */
+export interface WeatherState {
+    forecast: WeatherForecast | null;
+    current: WeatherSample | null;
+    modifiers: WeatherModifiers; // For the fare simulation
+    errorMessage: string | null;
+    reload: () => void;
+}
+
+/**
+ * Percentage change a multiplier makes, for messages.
+ * @returns {number} Whole percent; negative for a reduction.
+ */
+const percent = (multiplier: number): number => Math.round((multiplier - 1) * 100);
+
+/**
+ * Custom hook to fetch and refresh the weather.
+ * @param enabled - Whether to fetch (CyberMain passes isLoggedIn).
+ * @returns {WeatherState} Forecast, modifiers and reload.
+ */
+export const useWeather = (enabled: boolean): WeatherState => {
+    const [forecast, setForecast] = useState<WeatherForecast | null>(() => WeatherService.getCached());
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [reloads, setReloads] = useState(0);
+    const reload = useCallback(() => setReloads((count) => count + 1), []);
+    const wasWet = useRef(false);
+
+    useEffect(() => {
+        if (!enabled) {
+            wasWet.current = false;
+            return;
+        }
+        let cancelled = false;
+        const load = (force: boolean) => {
+            WeatherService.forecast(force)
+                .then((data) => {
+                    if (cancelled) return;
+                    setForecast(data);
+                    setErrorMessage(null);
+                })
+                .catch((error) => {
+                    if (cancelled) return;
+                    const errorMsg = error instanceof Error ? error.message : "Unknown error";
+                    console.error("useWeather: Failed to fetch the forecast:", errorMsg);
+                    setErrorMessage(`Failed to fetch the forecast: ${errorMsg}`);
+                });
+        };
+        load(reloads > 0);
+        const interval = window.setInterval(() => load(false), API_CONFIG.WEATHER_REFRESH_MS);
+        return () => {
+            cancelled = true;
+            window.clearInterval(interval);
+        };
+    }, [enabled, reloads]);
+
+    const current = forecast?.current ?? null;
+    const modifiers = useMemo(() => weatherModifiers(current), [current]);
+
+    /**
+     * Announces the start of rain once per spell.
+     */
+    useEffect(() => {
+        if (!enabled || !current) return;
+        if (modifiers.wet && !wasWet.current) {
+            NotificationService.notify(
+                `${WEATHER_KINDS[current.kind].label} in Austin`,
+                `Trips run ${-percent(modifiers.speed)}% slower, wear +${percent(modifiers.wear)}%, ride demand +${percent(modifiers.demand)}%.`,
+                WEATHER_KINDS[current.kind].icon
+            );
+        }
+        wasWet.current = modifiers.wet;
+    }, [enabled, current, modifiers]);
+
+    return { forecast, current, modifiers, errorMessage, reload };
+};
@@ -1,13 +1,15 @@
 /**
  * register-form.tsx - Renders a non-resizable, draggable login/registration form for CyberTaxi onboarding.
- * Handles user signup via POST /api/auth/signup and login via POST /api/auth/login/username, stores JWT, and saves form data to localStorage.
+ * Handles user signup via POST /api/auth/signup and login via POST /api/auth/login/username through CyberContext actions.
  * Uses username for UI, maps to player_id internally, per GDD v1.1.
  * @module RegisterForm
- * @version 0.2.46
+ * @version 0.2.49
  */
 import React, { useState, useEffect, useRef } from "react";
 import type { FormEvent } from "react";
 import { CyberWindow } from "../ui/CyberWindow";
+import { useCyber } from "../../context/CyberContext";
+import { ApiError } from "../../utils/errorhandling/ApiError";
 import "../../styles/windows.css";
 import "../../styles/global.css";
 
@@ -29,13 +31,12 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({
     onClose,
     mode = "login",
 }) => {
+    const { username, email, login, signup } = useCyber();
     const [formMode, setFormMode] = useState<"login" | "register">(mode);
     const [formData, setFormData] = useState({
-        username: localStorage.getItem("username") || "",
-        email: localStorage.getItem("registerData")
-            ? JSON.parse(localStorage.getItem("registerData")!).email
-            : "test@example.com",
-        password: "test123",
+        username: username || "",
+        email: email || "test@example.com",
+        password: "",
     });
     const [formError, setFormError] = useState<string>("");
     const [isSubmitting, setIsSubmitting] = useState(false);
@@ -50,34 +51,6 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({
     const emailRef = useRef<HTMLInputElement>(null);
     const passwordRef = useRef<HTMLInputElement>(null);
 
-    /**
-     * Pre-fills form with stored credentials from localStorage.
-     */
-    useEffect(() => {
-        console.log("Checking localStorage for username pre-fill");
-        const savedData = localStorage.getItem("registerData");
-        const token = localStorage.getItem("jwt_token");
-        if (token) {
-            console.log("Token found, setting username from localStorage");
-            setFormData((prev) => ({
-                ...prev,
-                username: localStorage.getItem("username") || "",
-            }));
-        } else if (savedData) {
-            try {
-                const parsedData = JSON.parse(savedData);
-                console.log("Parsed registerData:", parsedData);
-                setFormData((prev) => ({
-                    ...prev,
-                    username: parsedData.username || "",
-                    email: parsedData.email || "test@example.com",
-                }));
-            } catch (error) {
-                console.error("Failed to parse registerData:", error);
-            }
-        }
-    }, []);
-
     /**
      * Syncs form mode and resets state when mode prop changes.
      */
@@ -143,42 +116,10 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({
     const attemptLogin = async (username: string, password: string) => {
         try {
             console.log(`Attempting login with username: ${username}`);
-            const response = await fetch(
-                "http://localhost:3000/api/auth/login/username",
-                {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({ username, password }),
-                }
-            );
-            if (!response.ok) {
-                const errorText = await response.text();
-                throw new Error(`Login failed: ${errorText}`);
-            }
-            const result = await response.json();
-            console.log("Login response:", result);
-            if (result.status === "Success" && result.token) {
-                localStorage.setItem("jwt_token", result.token);
-                localStorage.setItem("username", username);
-                if (result.player_id) {
-                    localStorage.setItem(
-                        "player_id",
-                        result.player_id.toString()
-                    );
-                }
-                localStorage.setItem(
-                    "registerData",
-                    JSON.stringify({
-                        username,
-                        email: formData.email,
-                    })
-                );
-                console.log("Login successful, token stored:", result.token);
-                console.log("Calling onClose for successful login");
-                onClose();
-                return true;
-            }
-            return false;
+            await login(username, password);
+            console.log("Login successful, calling onClose");
+            onClose();
+            return true;
         } catch (error) {
             console.error("Login error:", error);
             return false;
@@ -230,26 +171,25 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({
         }
         setIsSubmitting(true);
         try {
-            const payload = {
-                username: formData.username,
-                password: formData.password,
-                ...(formMode === "register" ? { email: formData.email } : {}),
-            };
-            const endpoint =
-                formMode === "login"
-                    ? "/api/auth/login/username"
-                    : "/api/auth/signup";
             console.log(
-                `Sending POST ${endpoint} with username: ${formData.username}`
+                `Sending ${formMode === "login" ? "login" : "signup"} request with username: ${formData.username}`
             );
-            const response = await fetch(`http://localhost:3000${endpoint}`, {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify(payload),
-            });
-            if (!response.ok) {
-                const errorText = await response.text();
-                if (response.status === 409 && formMode === "register") {
+            try {
+                if (formMode === "login") {
+                    await login(formData.username, formData.password);
+                } else {
+                    await signup(
+                        formData.username,
+                        formData.email,
+                        formData.password
+                    );
+                }
+            } catch (error) {
+                if (
+                    error instanceof ApiError &&
+                    error.status === 409 &&
+                    formMode === "register"
+                ) {
                     const loginSuccess = await attemptLogin(
                         formData.username,
                         formData.password
@@ -261,46 +201,16 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({
                         "Username or email already exists. Try different credentials or log in."
                     );
                 }
-                throw new Error(
-                    `HTTP error! Status: ${response.status}, Details: ${errorText}`
-                );
+                throw error;
             }
-            const result = await response.json();
             console.log(
-                `${formMode === "login" ? "Login" : "Signup"} response:`,
-                result
+                `${
+                    formMode === "login" ? "Login" : "Signup"
+                } successful, session started for`,
+                formData.username
             );
-            if (result.status === "Success" && result.token) {
-                localStorage.setItem("jwt_token", result.token);
-                localStorage.setItem("username", formData.username);
-                if (result.player_id) {
-                    localStorage.setItem(
-                        "player_id",
-                        result.player_id.toString()
-                    );
-                }
-                localStorage.setItem(
-                    "registerData",
-                    JSON.stringify({
-                        username: formData.username,
-                        email: formData.email,
-                    })
-                );
-                console.log(
-                    `${
-                        formMode === "login" ? "Login" : "Signup"
-                    } successful, token stored:`,
-                    result.token
-                );
-                console.log("Calling onClose for successful submission");
-                onClose();
-            } else {
-                setFormError(result.message || "Unknown server error");
-                console.log(
-                    "Form error set:",
-                    result.message || "Unknown server error"
-                );
-            }
+            console.log("Calling onClose for successful submission");
+            onClose();
         } catch (error) {
             const errorMessage =
                 error instanceof Error
@@ -329,11 +239,9 @@ export const RegisterForm: React.FC<RegisterFormProps> = ({
         setIsSubmitted(false);
         setValidationMessages({});
         setFormData({
-            username: localStorage.getItem("username") || "",
-            email: localStorage.getItem("registerData")
-                ? JSON.parse(localStorage.getItem("registerData")!).email
-                : "test@example.com",
-            password: "test123",
+            username: username || "",
+            email: email || "test@example.com",
+            password: "",
         });
         [usernameRef, emailRef, passwordRef].forEach((ref) => {
             ref.current?.setCustomValidity("");
@@ -1,14 +1,31 @@
 /**
  * CyberBrowser.tsx - Renders a resizable, draggable browser window for CyberTaxi.
- * Includes a menu bar with Tesla, Realtor, and Employment Agency options, a rounded URL dropdown, and dynamic content area, per GDD v1.1.
+ * Includes a menu bar with Tesla, Realtor, Employment Agency, City Hall and Weather options, a rounded URL dropdown, and dynamic content area, per GDD v1.1.
+ * The Realtor page gets the caller's property state, when given, so it shares the map's garages and lots; the
+ * Employment Agency page gets it and the caller's staff state, so hires work in the fare simulation. The Tesla page
+ * gets it and the caller's order state, so deliveries reach the fleet with an arrival notification, and the caller's
+ * fleet and simulated wear, so used purchases and sales update the map and sales are priced at the current wear, and
+ * the caller's vehicle catalog, which its showroom renders, and the caller's license state, which caps its purchases.
+ * The City Hall page gets the license state too, so renewed permits put vehicles back on fares. The Weather page gets
+ * the caller's weather state, so it shows the forecast the map and fare simulation use.
  * @module CyberBrowser
- * @version 0.3.25
+ * @version 0.3.32
  */
 import React, { Component, useEffect, useState } from "react";
 import { CyberWindow } from "./CyberWindow";
 import { TeslaPage } from "../browser/TeslaPage";
 import { RealtorPage } from "../browser/RealtorPage";
 import { EmploymentAgencyPage } from "../browser/EmploymentAgencyPage";
+import { CityHallPage } from "../browser/CityHallPage";
+import { WeatherPage } from "../browser/WeatherPage";
+import type { LicenseState } from "../mapping/usePlayerLicenses";
+import type { OrderState } from "../mapping/usePlayerOrders";
+import type { PropertyState } from "../mapping/usePlayerProperties";
+import type { StaffState } from "../mapping/usePlayerStaff";
+import type { WeatherState } from "../mapping/useWeather";
+import type { Vehicle } from "../../domain/Vehicle";
+import type { VehicleModel } from "../../domain/VehicleCatalog";
+import type { WearState } from "../../simulation/Wear";
 import "../../styles/browser.css";
 
 /**
@@ -18,8 +35,17 @@ import "../../styles/browser.css";
 interface CyberBrowserProps {
     onClose: () => void; // Callback to close the browser
     username: string; // Player username for API calls
-    activePage?: "tesla" | "realtor" | "agency"; // Initial page to display
+    activePage?: "tesla" | "realtor" | "agency" | "cityhall" | "weather"; // Initial page to display
     style?: React.CSSProperties; // Custom styles for the window
+    propertyState?: PropertyState; // Player properties shared with the map (CyberMain)
+    staffState?: StaffState; // Garage staff shared with the fare simulation (CyberMain)
+    orderState?: OrderState; // Vehicle orders shared with the fleet (CyberMain)
+    licenseState?: LicenseState; // Operating license and permits shared with the fare simulation (CyberMain)
+    weatherState?: WeatherState; // Forecast shared with the map and fare simulation (CyberMain)
+    catalog?: VehicleModel[]; // Vehicle models shared with the simulation (CyberMain)
+    fleet?: Vehicle[]; // The player's vehicles, for the Tesla page's Sell tab (CyberMain)
+    wearStates?: readonly WearState[]; // Simulated wear, which prices a sale (CyberMain)
+    onFleetChanged?: () => void; // Reloads the fleet after a used purchase or sale (CyberMain)
 }
 
 /**
@@ -76,7 +102,7 @@ class CyberBrowserErrorBoundary extends Component<
 }
 
 /**
- * Error boundary for child page components (TeslaPage, RealtorPage, EmploymentAgencyPage).
+ * Error boundary for child page components (TeslaPage, RealtorPage, EmploymentAgencyPage, CityHallPage, WeatherPage).
  */
 class PageErrorBoundary extends Component<
     { children: React.ReactNode; pageName: string },
@@ -133,9 +159,18 @@ export const CyberBrowser: React.FC<CyberBrowserProps> = ({
     username,
     activePage = "tesla",
     style,
+    propertyState,
+    staffState,
+    orderState,
+    licenseState,
+    weatherState,
+    catalog,
+    fleet,
+    wearStates,
+    onFleetChanged,
 }) => {
     const [currentPage, setCurrentPage] = useState<
-        "tesla" | "realtor" | "agency"
+        "tesla" | "realtor" | "agency" | "cityhall" | "weather"
     >(activePage);
     const [url, setUrl] = useState<string>(
         `https://${activePage.charAt(0).toUpperCase() + activePage.slice(1)}.ct`
@@ -189,7 +224,7 @@ export const CyberBrowser: React.FC<CyberBrowserProps> = ({
      */
     useEffect(() => {
         (window as any).toggleCyberBrowser = (
-            page: "tesla" | "realtor" | "agency" | undefined
+            page: "tesla" | "realtor" | "agency" | "cityhall" | "weather" | undefined
         ) => {
             setCurrentPage(page || "tesla");
             console.log(`CyberBrowser toggled to page: ${page || "tesla"}`);
@@ -203,7 +238,7 @@ export const CyberBrowser: React.FC<CyberBrowserProps> = ({
      * Handles menu button clicks to switch pages.
      * @param page - Page to switch to.
      */
-    const handleMenuClick = (page: "tesla" | "realtor" | "agency") => {
+    const handleMenuClick = (page: "tesla" | "realtor" | "agency" | "cityhall" | "weather") => {
         setCurrentPage(page);
         console.log(`Menu button clicked: ${page}`);
     };
@@ -217,7 +252,7 @@ export const CyberBrowser: React.FC<CyberBrowserProps> = ({
         const page = selected
             .replace("https://", "")
             .replace(".ct", "")
-            .toLowerCase() as "tesla" | "realtor" | "agency";
+            .toLowerCase() as "tesla" | "realtor" | "agency" | "cityhall" | "weather";
         setCurrentPage(page);
         console.log(`URL dropdown changed to: ${selected}`);
     };
@@ -289,6 +324,32 @@ export const CyberBrowser: React.FC<CyberBrowserProps> = ({
                             ></i>{" "}
                             Employment Agency
                         </button>
+                        <button
+                            className={`menu-btn ${
+                                currentPage === "cityhall" ? "active" : ""
+                            }`}
+                            onClick={() => handleMenuClick("cityhall")}
+                            aria-label="City Hall page"
+                        >
+                            <i
+                                className="fas fa-landmark"
+                                aria-hidden="true"
+                            ></i>{" "}
+                            City Hall
+                        </button>
+                        <button
+                            className={`menu-btn ${
+                                currentPage === "weather" ? "active" : ""
+                            }`}
+                            onClick={() => handleMenuClick("weather")}
+                            aria-label="Weather page"
+                        >
+                            <i
+                                className="fas fa-cloud-sun"
+                                aria-hidden="true"
+                            ></i>{" "}
+                            Weather
+                        </button>
                     </div>
                     <div className="url-bar">
                         <select
@@ -305,6 +366,12 @@ export const CyberBrowser: React.FC<CyberBrowserProps> = ({
                             <option value="https://EmploymentAgency.ct">
                                 https://EmploymentAgency.ct
                             </option>
+                            <option value="https://CityHall.ct">
+                                https://CityHall.ct
+                            </option>
+                            <option value="https://Weather.ct">
+                                https://Weather.ct
+                            </option>
                         </select>
                     </div>
                     <div
@@ -316,17 +383,36 @@ export const CyberBrowser: React.FC<CyberBrowserProps> = ({
                             <>
                                 {currentPage === "tesla" && (
                                     <PageErrorBoundary pageName="TeslaPage">
-                                        <TeslaPage username={username} />
+                                        <TeslaPage
+                                            username={username}
+                                            catalog={catalog}
+                                            orderState={orderState}
+                                            licenseState={licenseState}
+                                            propertyState={propertyState}
+                                            fleet={fleet}
+                                            wearStates={wearStates}
+                                            onFleetChanged={onFleetChanged}
+                                        />
                                     </PageErrorBoundary>
                                 )}
                                 {currentPage === "realtor" && (
                                     <PageErrorBoundary pageName="RealtorPage">
-                                        <RealtorPage />
+                                        <RealtorPage username={username} propertyState={propertyState} />
                                     </PageErrorBoundary>
                                 )}
                                 {currentPage === "agency" && (
                                     <PageErrorBoundary pageName="EmploymentAgencyPage">
-                                        <EmploymentAgencyPage />
+                                        <EmploymentAgencyPage username={username} staffState={staffState} propertyState={propertyState} />
+                                    </PageErrorBoundary>
+                                )}
+                                {currentPage === "cityhall" && (
+                                    <PageErrorBoundary pageName="CityHallPage">
+                                        <CityHallPage username={username} licenseState={licenseState} />
+                                    </PageErrorBoundary>
+                                )}
+                                {currentPage === "weather" && (
+                                    <PageErrorBoundary pageName="WeatherPage">
+                                        <WeatherPage weatherState={weatherState} />
                                     </PageErrorBoundary>
                                 )}
                             </>
@@ -0,0 +1,73 @@
+// src/components/ui/Windows/DiagnosticsWindow.tsx
+/**
+ * @file DiagnosticsWindow.tsx
+ * @description Developer window listing backend records rejected by the response schemas.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Opened from TaxiMenu > Settings > Diagnostics, which is only shown in development builds (import.meta.env.DEV).
+ * @detail Subscribes to ValidationDiagnostics; each entry shows the request, the issue paths/messages and the raw value.
+ */
+import React, { useEffect, useState } from "react";
+import { BaseWindow } from "./baseWindow";
+import type { BaseWindowProps } from "./baseWindow"; // Type-only import for verbatimModuleSyntax
+import { ValidationDiagnostics } from "../../../utils/validation/ValidationDiagnostics";
+import type { DiagnosticsEntry } from "../../../utils/validation/ValidationDiagnostics";
+import "../../../styles/ui/Diagnostics.css";
+
+/**
+ * Props for DiagnosticsWindow component.
+ * @interface DiagnosticsWindowProps
+ * @extends {Omit<BaseWindowProps, "children">}
+ */
+interface DiagnosticsWindowProps extends Omit<BaseWindowProps, "children"> {}
+
+/**
+ * Formats a raw value for display, truncating large records.
+ * @param value - Raw value from the response.
+ * @returns {string} Compact JSON.
+ */
+const formatValue = (value: unknown): string => {
+    const text = value === undefined ? "undefined" : JSON.stringify(value);
+    return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+};
+
+/**
+ * Renders validation issues reported by ApiClient.
+ * @param {DiagnosticsWindowProps} props - Component props.
+ * @returns {JSX.Element} Resizable window with the diagnostics log.
+ */
+export const DiagnosticsWindow: React.FC<DiagnosticsWindowProps> = (props) => {
+    const [entries, setEntries] = useState<DiagnosticsEntry[]>(ValidationDiagnostics.getEntries());
+
+    useEffect(() => ValidationDiagnostics.subscribe(setEntries), []);
+
+    return (
+        <BaseWindow {...props} isResizable={true} isDraggable={true} zIndexBase={2000}>
+            <div className="diagnostics-content">
+                <div className="diagnostics-toolbar">
+                    <span>{entries.length === 0 ? "No invalid records" : `${entries.length} report(s)`}</span>
+                    <button onClick={() => ValidationDiagnostics.clear()} disabled={entries.length === 0}>
+                        Clear
+                    </button>
+                </div>
+                {entries.map((entry) => (
+                    <div key={entry.id} className="diagnostics-entry">
+                        <div className="diagnostics-source">
+                            {entry.timestamp.toLocaleTimeString()} {entry.source}
+                        </div>
+                        <ul>
+                            {entry.issues.map((issue, index) => (
+                                <li key={index}>
+                                    <span className="diagnostics-path">{issue.path}</span>: {issue.message}
+                                    {"value" in issue && (
+                                        <code className="diagnostics-value">{formatValue(issue.value)}</code>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                ))}
+            </div>
+        </BaseWindow>
+    );
+};
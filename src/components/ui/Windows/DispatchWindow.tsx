@@ -0,0 +1,144 @@
+// src/components/ui/Windows/DispatchWindow.tsx
+/**
+ * @file DispatchWindow.tsx
+ * @description Dispatch window for CyberTaxi: assignment strategy, battery floor and the live dispatcher event log.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Opened from TaxiMenu > Dispatch. Settings are held by CyberMain and passed to useFareSimulation, so changes
+ *       apply to the running simulation from its next step.
+ * @detail Subscribes to DispatchLog; events can be filtered by kind and limited to the player's own vehicles.
+ */
+import React, { useEffect, useState } from "react";
+import { BaseWindow } from "./baseWindow";
+import type { BaseWindowProps } from "./baseWindow"; // Type-only import for verbatimModuleSyntax
+import { DispatchLog } from "../../../simulation/DispatchLog";
+import type { DispatchLogEntry } from "../../../simulation/DispatchLog";
+import { DISPATCH_STRATEGIES } from "../../../simulation/Dispatcher";
+import type { DispatchEventKind, DispatchSettings, DispatchStrategyId } from "../../../simulation/Dispatcher";
+import "../../../styles/ui/Dispatch.css";
+
+/**
+ * Props for DispatchWindow component.
+ * @interface DispatchWindowProps
+ * @extends {Omit<BaseWindowProps, "children" | "title">}
+ */
+interface DispatchWindowProps extends Omit<BaseWindowProps, "children" | "title"> {
+    settings: DispatchSettings;
+    onSettingsChange: (settings: DispatchSettings) => void;
+}
+
+const KIND_LABELS: Record<DispatchEventKind, string> = {
+    assigned: "Assigned",
+    rejected: "Rejected",
+    expired: "Expired",
+    cancelled: "Cancelled",
+};
+
+/**
+ * Formats simulated time as minutes and seconds since the simulation started.
+ * @param ms - Simulated milliseconds.
+ * @returns {string} e.g. "t+12:05".
+ */
+const formatSimTime = (ms: number): string => {
+    const seconds = Math.floor(ms / 1000);
+    return `t+${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+/**
+ * Renders dispatcher settings and events.
+ * @param {DispatchWindowProps} props - Component props.
+ * @returns {JSX.Element} Resizable window with settings and the event log.
+ */
+export const DispatchWindow: React.FC<DispatchWindowProps> = ({ settings, onSettingsChange, ...props }) => {
+    const [entries, setEntries] = useState<DispatchLogEntry[]>(DispatchLog.getEntries());
+    const [kindFilter, setKindFilter] = useState<DispatchEventKind | "all">("all");
+    const [mineOnly, setMineOnly] = useState(false);
+
+    useEffect(() => DispatchLog.subscribe(setEntries), []);
+
+    const visible = entries.filter(
+        (entry) => (kindFilter === "all" || entry.kind === kindFilter) && (!mineOnly || entry.owner === "player")
+    );
+
+    return (
+        <BaseWindow {...props} title="Dispatch" isResizable={true} isDraggable={true} zIndexBase={1400}>
+            <div className="dispatch">
+                <div className="dispatch-settings">
+                    <label>
+                        Strategy
+                        <select
+                            value={settings.strategy}
+                            onChange={(e) =>
+                                onSettingsChange({ ...settings, strategy: e.target.value as DispatchStrategyId })
+                            }
+                        >
+                            {Object.values(DISPATCH_STRATEGIES).map((strategy) => (
+                                <option key={strategy.id} value={strategy.id}>
+                                    {strategy.label}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label>
+                        Min battery
+                        <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            step={5}
+                            value={settings.minBattery}
+                            onChange={(e) =>
+                                onSettingsChange({
+                                    ...settings,
+                                    minBattery: Math.min(Math.max(Number(e.target.value) || 0, 0), 100),
+                                })
+                            }
+                        />
+                        %
+                    </label>
+                </div>
+
+                <div className="dispatch-toolbar">
+                    <select
+                        value={kindFilter}
+                        onChange={(e) => setKindFilter(e.target.value as DispatchEventKind | "all")}
+                        aria-label="Event kind"
+                    >
+                        <option value="all">All events</option>
+                        {Object.entries(KIND_LABELS).map(([kind, label]) => (
+                            <option key={kind} value={kind}>
+                                {label}
+                            </option>
+                        ))}
+                    </select>
+                    <label>
+                        <input type="checkbox" checked={mineOnly} onChange={(e) => setMineOnly(e.target.checked)} />
+                        My vehicles
+                    </label>
+                    <button onClick={() => DispatchLog.clear()} disabled={entries.length === 0}>
+                        Clear
+                    </button>
+                </div>
+
+                {visible.length === 0 ? (
+                    <p className="dispatch-empty">No dispatch events yet</p>
+                ) : (
+                    <ul className="dispatch-log">
+                        {visible.map((entry) => (
+                            <li key={entry.id} className={`dispatch-event kind-${entry.kind}`}>
+                                <span className="dispatch-time">{formatSimTime(entry.at)}</span>
+                                <span className="dispatch-kind">{KIND_LABELS[entry.kind]}</span>
+                                <span>
+                                    {entry.requestId}
+                                    {entry.vehicleId && ` → ${entry.vehicleId}`}
+                                    {entry.owner === "other" && " (rival)"}
+                                </span>
+                                <span className="dispatch-message">{entry.message}</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </BaseWindow>
+    );
+};
@@ -0,0 +1,337 @@
+// src/components/ui/Windows/FleetWindow.tsx
+/**
+ * @file FleetWindow.tsx
+ * @description Fleet window for CyberTaxi: sortable, filterable table of every player vehicle with bulk actions.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.1
+ * @note Opened from TaxiMenu > Fleet. The fleet comes from usePlayerVehicles in CyberMain, so rows update live with
+ *       realtime deltas and after reloads.
+ * @detail Bulk actions (Send to Garage, Charge, Dispatch to zone) run per vehicle with Promise.allSettled, skip
+ *         vehicles whose status does not allow the action, and report how many succeeded before reloading the fleet.
+ *         Clicking a row focuses the vehicle on the map; double-clicking opens VehicleDetailsWindow. A wrench next to
+ *         the wear marks vehicles with maintenance due (simulation/Wear.ts).
+ */
+import React, { useMemo, useState } from "react";
+import { BaseWindow } from "./baseWindow";
+import type { BaseWindowProps } from "./baseWindow"; // Type-only import for verbatimModuleSyntax
+import { ApiClient } from "../../../services/ApiClient";
+import { canDispatch, canTransition, VEHICLE_STATUSES, VEHICLE_STATUS_LABELS } from "../../../domain/Vehicle";
+import type { Vehicle, VehicleStatus } from "../../../domain/Vehicle";
+import { DISPATCH_ZONES, nearestZone, randomPointInZone } from "../../../domain/Zones";
+import { maintenanceDue } from "../../../simulation/Wear";
+import type { WearState } from "../../../simulation/Wear";
+import "../../../styles/ui/Fleet.css";
+
+/**
+ * Props for FleetWindow component.
+ * @interface FleetWindowProps
+ * @extends {Omit<BaseWindowProps, "children" | "title">}
+ */
+interface FleetWindowProps extends Omit<BaseWindowProps, "children" | "title"> {
+    fleet: Vehicle[]; // Every player vehicle (usePlayerVehicles)
+    onReload: () => void; // Refetch the fleet after bulk actions
+    onFocusVehicle: (vehicleId: string) => boolean; // MapArea.focusVehicle; false if not on the map
+    onOpenDetails: (vehicle: Vehicle) => void;
+    wearStates?: readonly WearState[]; // Simulated wear, for maintenance-due markers
+}
+
+const NO_WEAR: readonly WearState[] = []; // Stable default for the dueById memo
+
+type SortKey = "id" | "status" | "battery" | "wear" | "mileage" | "earnings" | "location";
+type BulkAction = "garage" | "charge" | "dispatch";
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+    { key: "id", label: "Vehicle" },
+    { key: "status", label: "Status" },
+    { key: "battery", label: "Battery" },
+    { key: "wear", label: "Wear" },
+    { key: "mileage", label: "Mileage" },
+    { key: "earnings", label: "Earnings" },
+    { key: "location", label: "Location" },
+];
+
+/**
+ * Human-readable location: nearest zone and distance to its center.
+ * @param vehicle - Vehicle to describe.
+ * @returns {string} e.g. "Downtown · 0.8 km", or "—" when off the map.
+ */
+const locationLabel = (vehicle: Vehicle): string => {
+    if (!vehicle.coords) {
+        return "—";
+    }
+    const { zone, distanceKm } = nearestZone(vehicle.coords);
+    return `${zone.name} · ${distanceKm.toFixed(1)} km`;
+};
+
+/**
+ * Compares two vehicles on a column; vehicles without a position sort last by location.
+ * @returns {number} Negative, zero or positive, ascending.
+ */
+const compareBy = (key: SortKey, a: Vehicle, b: Vehicle): number => {
+    switch (key) {
+        case "id":
+            return a.id.localeCompare(b.id, undefined, { numeric: true });
+        case "status":
+            return VEHICLE_STATUSES.indexOf(a.status) - VEHICLE_STATUSES.indexOf(b.status);
+        case "earnings":
+            return (a.earnings ?? 0) - (b.earnings ?? 0);
+        case "location": {
+            if (!a.coords || !b.coords) {
+                return (a.coords ? 0 : 1) - (b.coords ? 0 : 1);
+            }
+            const nearA = nearestZone(a.coords);
+            const nearB = nearestZone(b.coords);
+            return nearA.zone.name.localeCompare(nearB.zone.name) || nearA.distanceKm - nearB.distanceKm;
+        }
+        default:
+            return a[key] - b[key];
+    }
+};
+
+/**
+ * Whether a bulk action applies to a vehicle in its current status.
+ * @returns {boolean} True if the request would be accepted by the server.
+ */
+const isEligible = (action: BulkAction, status: VehicleStatus): boolean =>
+    action === "dispatch" ? canDispatch(status) : canTransition(status, action === "garage" ? "parked" : "charging");
+
+/**
+ * Renders the player's fleet with sorting, filters and bulk actions.
+ * @param {FleetWindowProps} props - Component props.
+ * @returns {JSX.Element} Draggable, resizable window with the fleet table.
+ */
+export const FleetWindow: React.FC<FleetWindowProps> = ({ fleet, onReload, onFocusVehicle, onOpenDetails, wearStates = NO_WEAR, ...props }) => {
+    const [sortKey, setSortKey] = useState<SortKey>("id");
+    const [ascending, setAscending] = useState(true);
+    const [statusFilter, setStatusFilter] = useState<VehicleStatus | "all">("all");
+    const [typeFilter, setTypeFilter] = useState<string>("all");
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [zoneId, setZoneId] = useState(DISPATCH_ZONES[0].id);
+    const [pending, setPending] = useState<BulkAction | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const types = useMemo(() => [...new Set(fleet.map((vehicle) => vehicle.type))].sort(), [fleet]);
+
+    const rows = useMemo(() => {
+        const filtered = fleet.filter(
+            (vehicle) =>
+                (statusFilter === "all" || vehicle.status === statusFilter) &&
+                (typeFilter === "all" || vehicle.type === typeFilter)
+        );
+        const direction = ascending ? 1 : -1;
+        return filtered.sort((a, b) => compareBy(sortKey, a, b) * direction);
+    }, [fleet, statusFilter, typeFilter, sortKey, ascending]);
+
+    const dueById = useMemo(
+        () =>
+            new Map(
+                wearStates
+                    .map((state) => [state.vehicleId, maintenanceDue(state)] as const)
+                    .filter(([, due]) => due.length > 0)
+            ),
+        [wearStates]
+    );
+
+    // Selection only counts rows that are still visible (sold/filtered vehicles drop out)
+    const selectedRows = rows.filter((vehicle) => selected.has(vehicle.id));
+    const allSelected = rows.length > 0 && selectedRows.length === rows.length;
+
+    const handleSort = (key: SortKey) => {
+        if (key === sortKey) {
+            setAscending((current) => !current);
+        } else {
+            setSortKey(key);
+            setAscending(true);
+        }
+    };
+
+    const toggleSelected = (vehicleId: string) => {
+        setSelected((current) => {
+            const next = new Set(current);
+            if (!next.delete(vehicleId)) {
+                next.add(vehicleId);
+            }
+            return next;
+        });
+    };
+
+    const toggleAll = () => {
+        setSelected(allSelected ? new Set() : new Set(rows.map((vehicle) => vehicle.id)));
+    };
+
+    const handleFocus = (vehicle: Vehicle) => {
+        if (!onFocusVehicle(vehicle.id)) {
+            setMessage(`${vehicle.id} is not on the map`);
+        }
+    };
+
+    const handleBulk = async (action: BulkAction) => {
+        const targets = selectedRows.filter((vehicle) => isEligible(action, vehicle.status));
+        const skipped = selectedRows.length - targets.length;
+        if (targets.length === 0) {
+            setMessage("No selected vehicle can do that right now");
+            return;
+        }
+        const zone = DISPATCH_ZONES.find((candidate) => candidate.id === zoneId) ?? DISPATCH_ZONES[0];
+        setPending(action);
+        setMessage(null);
+        const results = await Promise.allSettled(
+            targets.map((vehicle) =>
+                action === "dispatch"
+                    ? ApiClient.dispatchVehicle(vehicle.id, randomPointInZone(zone))
+                    : ApiClient.updateVehicleStatus(vehicle.id, action === "garage" ? "parked" : "charging")
+            )
+        );
+        const failed = results.filter((result) => result.status === "rejected").length;
+        results.forEach((result, index) => {
+            if (result.status === "rejected") {
+                console.error(`FleetWindow: ${action} failed for ${targets[index].id}:`, result.reason);
+            }
+        });
+        console.log(`FleetWindow: ${action} done, ${targets.length - failed} ok, ${failed} failed, ${skipped} skipped`);
+        setMessage(
+            `${targets.length - failed} updated` +
+                (failed > 0 ? `, ${failed} failed` : "") +
+                (skipped > 0 ? `, ${skipped} skipped` : "")
+        );
+        setPending(null);
+        onReload();
+    };
+
+    return (
+        <BaseWindow {...props} title="Fleet" isResizable={true} isDraggable={true} zIndexBase={1400}>
+            <div className="fleet">
+                <div className="fleet-toolbar">
+                    <label>
+                        Status
+                        <select
+                            value={statusFilter}
+                            onChange={(e) => setStatusFilter(e.target.value as VehicleStatus | "all")}
+                        >
+                            <option value="all">All</option>
+                            {VEHICLE_STATUSES.map((status) => (
+                                <option key={status} value={status}>
+                                    {VEHICLE_STATUS_LABELS[status]}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label>
+                        Type
+                        <select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value)}>
+                            <option value="all">All</option>
+                            {types.map((type) => (
+                                <option key={type} value={type}>
+                                    {type}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <span className="fleet-count">
+                        {rows.length} / {fleet.length}
+                    </span>
+                </div>
+
+                <div className="fleet-table-wrap">
+                    <table className="fleet-table">
+                        <thead>
+                            <tr>
+                                <th>
+                                    <input
+                                        type="checkbox"
+                                        checked={allSelected}
+                                        onChange={toggleAll}
+                                        aria-label="Select all vehicles"
+                                    />
+                                </th>
+                                {COLUMNS.map((column) => (
+                                    <th
+                                        key={column.key}
+                                        onClick={() => handleSort(column.key)}
+                                        className={column.key === sortKey ? "sorted" : ""}
+                                        aria-sort={
+                                            column.key === sortKey ? (ascending ? "ascending" : "descending") : "none"
+                                        }
+                                    >
+                                        {column.label}
+                                        {column.key === sortKey && (
+                                            <i className={`fas ${ascending ? "fa-caret-up" : "fa-caret-down"}`} />
+                                        )}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map((vehicle) => (
+                                <tr
+                                    key={vehicle.id}
+                                    className={selected.has(vehicle.id) ? "selected" : ""}
+                                    onClick={() => handleFocus(vehicle)}
+                                    onDoubleClick={() => onOpenDetails(vehicle)}
+                                    title="Click to show on map, double-click for details"
+                                >
+                                    <td onClick={(e) => e.stopPropagation()}>
+                                        <input
+                                            type="checkbox"
+                                            checked={selected.has(vehicle.id)}
+                                            onChange={() => toggleSelected(vehicle.id)}
+                                            aria-label={`Select ${vehicle.id}`}
+                                        />
+                                    </td>
+                                    <td>
+                                        {vehicle.id}
+                                        <span className="fleet-type">{vehicle.type}</span>
+                                    </td>
+                                    <td>
+                                        <span className={`fleet-status status-${vehicle.status}`}>
+                                            {VEHICLE_STATUS_LABELS[vehicle.status]}
+                                        </span>
+                                    </td>
+                                    <td className={vehicle.battery < 20 ? "fleet-low" : ""}>{vehicle.battery.toFixed(0)}%</td>
+                                    <td className={vehicle.wear > 80 ? "fleet-low" : ""}>
+                                        {vehicle.wear.toFixed(1)}%
+                                        {dueById.has(vehicle.id) && (
+                                            <i
+                                                className="fas fa-wrench fleet-due"
+                                                title={`Maintenance due: ${dueById.get(vehicle.id)?.join(", ")}`}
+                                                aria-label="Maintenance due"
+                                            />
+                                        )}
+                                    </td>
+                                    <td>{vehicle.mileage.toLocaleString()} mi</td>
+                                    <td>${(vehicle.earnings ?? 0).toLocaleString()}</td>
+                                    <td>{locationLabel(vehicle)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {rows.length === 0 && <p className="fleet-empty">No vehicles match the filters</p>}
+                </div>
+
+                <div className="fleet-actions">
+                    <span>{selectedRows.length} selected</span>
+                    <button onClick={() => handleBulk("garage")} disabled={pending !== null || selectedRows.length === 0}>
+                        <i className="fas fa-warehouse" />
+                        Send to Garage
+                    </button>
+                    <button onClick={() => handleBulk("charge")} disabled={pending !== null || selectedRows.length === 0}>
+                        <i className="fas fa-bolt" />
+                        Charge
+                    </button>
+                    <select value={zoneId} onChange={(e) => setZoneId(e.target.value)} aria-label="Dispatch zone">
+                        {DISPATCH_ZONES.map((zone) => (
+                            <option key={zone.id} value={zone.id}>
+                                {zone.name}
+                            </option>
+                        ))}
+                    </select>
+                    <button onClick={() => handleBulk("dispatch")} disabled={pending !== null || selectedRows.length === 0}>
+                        <i className="fas fa-location-arrow" />
+                        Dispatch
+                    </button>
+                </div>
+                {message && <p className="fleet-message">{message}</p>}
+            </div>
+        </BaseWindow>
+    );
+};
@@ -3,16 +3,19 @@
  * @file LoginForm.tsx
  * @description Login/registration/reset form component for CyberTaxi onboarding, focusing on username-based login.
  * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
- * @version 0.2.39
+ * @version 0.2.43
  * @note Renders a non-resizable, draggable form with toggleable login/register/reset modes, including API calls.
- * @detail Handles user signup via POST /api/auth/signup, login via POST /api/auth/login/username, and placeholder reset logic.
- * Stores JWT and form data in localStorage. Uses 'newpass123' for testing.
+ * @detail Handles user signup via POST /api/auth/signup, login via POST /api/auth/login/username, and a two-step reset
+ * (request a code by email, then set a new password with it) via LoginService, validated by passwordPolicy.
+ * Login and signup go through CyberContext actions (backed by LoginService); the form never reads or writes localStorage.
  */
 import React, { useState, useEffect, useRef } from "react";
 import { BaseWindow } from "./baseWindow";
 import type { BaseWindowProps } from "./baseWindow";
 import type { FormEvent } from "react"; // Type-only import for verbatimModuleSyntax
-import { LoginService } from "../../../services/LoginService"; // Service import
+import { useCyber } from "../../../context/CyberContext";
+import { LoginService } from "../../../services/LoginService";
+import { validateNewPassword } from "../../../utils/validation/passwordPolicy";
 import "../../../styles/ui/LoginForm.css"; // Unique styles only
 
 /**
@@ -35,64 +38,47 @@ interface LoginFormProps extends Omit<BaseWindowProps, "children"> {
  * @returns {JSX.Element} The rendered form window.
  */
 export const LoginForm: React.FC<LoginFormProps> = ({ onClose, mode = "login", onLoginSuccess }) => {
+    const { username, email, login, signup } = useCyber();
     const [formMode, setFormMode] = useState<"login" | "register" | "reset">(mode);
+    const [resetStep, setResetStep] = useState<"request" | "confirm">("request");
     const [formData, setFormData] = useState({
-        username: localStorage.getItem("username") || "",
-        email: localStorage.getItem("registerData")
-            ? JSON.parse(localStorage.getItem("registerData")!).email
-            : "test@example.com",
-        password: "newpass123", // Consistent password for testing
-        new_password: "", // For reset mode
+        username: username || "",
+        email: email || "test@example.com",
+        password: "", // Never pre-filled or persisted
+        reset_code: "", // For reset confirm step
+        new_password: "", // For reset confirm step
+        confirm_password: "", // For reset confirm step
     });
     const [formError, setFormError] = useState<string>("");
+    const [formNotice, setFormNotice] = useState<string>("");
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [isSubmitted, setIsSubmitted] = useState(false);
     const [validationMessages, setValidationMessages] = useState<{
         username?: string;
         email?: string;
         password?: string;
+        reset_code?: string;
         new_password?: string;
+        confirm_password?: string;
     }>({});
     const formRef = useRef<HTMLFormElement>(null);
     const usernameRef = useRef<HTMLInputElement>(null);
     const emailRef = useRef<HTMLInputElement>(null);
     const passwordRef = useRef<HTMLInputElement>(null);
+    const resetCodeRef = useRef<HTMLInputElement>(null);
     const newPasswordRef = useRef<HTMLInputElement>(null);
-
-    useEffect(() => {
-        console.log("Checking localStorage for username pre-fill");
-        const savedData = localStorage.getItem("registerData");
-        const token = localStorage.getItem("jwt_token");
-        if (token) {
-            console.log("Token found, setting username from localStorage");
-            setFormData((prev) => ({
-                ...prev,
-                username: localStorage.getItem("username") || "",
-                password: "newpass123",
-            }));
-        } else if (savedData) {
-            try {
-                const parsedData = JSON.parse(savedData);
-                console.log("Parsed registerData:", parsedData);
-                setFormData((prev) => ({
-                    ...prev,
-                    username: parsedData.username || "",
-                    email: parsedData.email || "test@example.com",
-                    password: "newpass123",
-                }));
-            } catch (error) {
-                console.error("Failed to parse registerData:", error);
-            }
-        }
-    }, []);
+    const confirmPasswordRef = useRef<HTMLInputElement>(null);
+    const fieldRefs = [usernameRef, emailRef, passwordRef, resetCodeRef, newPasswordRef, confirmPasswordRef];
 
     useEffect(() => {
         setFormMode(mode);
+        setResetStep("request");
         setFormError("");
+        setFormNotice("");
         setIsSubmitted(false);
         setValidationMessages({});
         console.log(`Form mode set to: ${mode}`);
-        [usernameRef, emailRef, passwordRef, newPasswordRef].forEach((ref) => {
+        fieldRefs.forEach((ref) => {
             ref.current?.setCustomValidity("");
         });
     }, [mode]);
@@ -117,7 +103,7 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onClose, mode = "login", o
         console.log(`Invalid event triggered for ${name}`);
         let message = "";
         if (input.validity.valueMissing) {
-            message = `Please enter a ${name}`;
+            message = `Please enter a ${name.replace(/_/g, " ")}`;
         } else if (name === "email") {
             const emailRegex = /^[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}$/i;
             if (!input.value.match(emailRegex)) {
@@ -135,11 +121,15 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onClose, mode = "login", o
             setFormError("Password must be at least 6 characters");
             return;
         }
-        if (formMode === "reset" && formData.new_password.length < 6) {
-            setFormError("New password must be at least 6 characters");
-            return;
+        if (formMode === "reset" && resetStep === "confirm") {
+            const passwordError = validateNewPassword(formData.new_password, formData.confirm_password);
+            if (passwordError) {
+                setFormError(passwordError);
+                return;
+            }
         }
         setFormError("");
+        setFormNotice("");
         setIsSubmitted(true);
         setValidationMessages({});
         const form = formRef.current;
@@ -147,12 +137,12 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onClose, mode = "login", o
             console.log("Form ref not found");
             return;
         }
-        [usernameRef, emailRef, passwordRef, newPasswordRef].forEach((ref) => {
+        fieldRefs.forEach((ref) => {
             if (ref.current && !ref.current.validity.valid && ref.current.name) {
                 const name = ref.current.name as string;
                 let message = "";
                 if (ref.current.validity.valueMissing) {
-                    message = `Please enter a ${name}`;
+                    message = `Please enter a ${name.replace(/_/g, " ")}`;
                 } else if (name === "email") {
                     const emailRegex = /^[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}$/i;
                     if (!ref.current.value.match(emailRegex)) {
@@ -169,39 +159,31 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onClose, mode = "login", o
         }
         setIsSubmitting(true);
         try {
-            let result: { token: string; player_id?: number } | { status: string; message: string } | null = null;
             if (formMode === "login") {
-                result = await LoginService.login(formData.username, formData.password);
+                await login(formData.username, formData.password);
+                console.log("Login successful for", formData.username);
+                onLoginSuccess?.();
             } else if (formMode === "register") {
-                result = await LoginService.signup(formData.username, formData.email, formData.password);
-            } else {
-                // Placeholder for reset password logic (pending LoginService.resetPassword)
-                console.log("Reset password attempted, username:", formData.username, "new_password:", formData.new_password);
-                result = { status: "Success", message: "Password reset successful (placeholder)" };
-            }
-            if (result && ("token" in result || result.status === "Success")) {
-                if ("token" in result) {
-                    localStorage.setItem("jwt_token", result.token);
-                    localStorage.setItem("username", formData.username);
-                    if (result.player_id) {
-                        localStorage.setItem("player_id", result.player_id.toString());
-                    }
-                    localStorage.setItem("registerData", JSON.stringify({
-                        username: formData.username,
-                        email: formData.email,
-                    }));
-                    console.log(`${formMode === "login" ? "Login" : "Signup"} successful, token stored:`, result.token);
-                    if (formMode === "login" && onLoginSuccess) {
-                        onLoginSuccess();
-                    }
-                } else {
-                    console.log("Password reset successful:", result.message);
-                }
-                onClose();
+                await signup(formData.username, formData.email, formData.password);
+                console.log("Signup successful for", formData.username);
+            } else if (resetStep === "request") {
+                const message = await LoginService.requestPasswordReset(formData.email);
+                console.log("Reset code requested for", formData.email);
+                setFormNotice(`${message}. Enter the code below.`);
+                setResetStep("confirm");
+                setIsSubmitted(false);
+                return;
             } else {
-                setFormError("Operation failed");
-                console.log("Form error set: Operation failed");
+                const message = await LoginService.confirmPasswordReset(formData.email, formData.reset_code, formData.new_password);
+                console.log("Password reset confirmed");
+                setFormData((prev) => ({ ...prev, password: "", reset_code: "", new_password: "", confirm_password: "" }));
+                setFormNotice(`${message}. Please log in.`);
+                setResetStep("request");
+                setFormMode("login");
+                setIsSubmitted(false);
+                return;
             }
+            onClose();
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : "Network issue, please try again";
             setFormError(errorMessage);
@@ -226,10 +208,10 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onClose, mode = "login", o
             style={{ zIndex: 1000 }}
             initialPosition={{ top: 200, left: 200 }}
             defaultWidth={250} // Per README
-            defaultHeight={formMode === "login" ? 270 : 330} // Per README: 270px login, 330px register/reset
+            defaultHeight={formMode === "login" ? 270 : formMode === "reset" && resetStep === "confirm" ? 390 : 330} // Per README: 270px login, 330px register/reset request, 390px reset confirm
         >
             <form
-                className={`login-form ${formMode} ${isSubmitted ? "submitted" : ""}`}
+                className={`login-form ${formMode} ${formMode === "reset" ? resetStep : ""} ${isSubmitted ? "submitted" : ""}`}
                 ref={formRef}
                 onSubmit={handleSubmit}
                 noValidate
@@ -254,28 +236,35 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onClose, mode = "login", o
                         )}
                     </p>
                 )}
-                <div className="form-group">
-                    <label htmlFor="username">Username</label>
-                    <input
-                        type="text"
-                        id="username"
-                        name="username"
-                        value={formData.username}
-                        onChange={handleInputChange}
-                        onInvalid={handleInvalid}
-                        placeholder="Enter Username"
-                        required
-                        ref={usernameRef}
-                        aria-required="true"
-                        autoComplete="username"
-                    />
-                    {validationMessages.username && (
-                        <span className="error-fallback" role="alert" aria-live="polite">
-                            {validationMessages.username}
-                        </span>
-                    )}
-                </div>
-                {formMode === "register" && (
+                {formNotice && (
+                    <p className="form-notice" role="status" aria-live="polite">
+                        {formNotice}
+                    </p>
+                )}
+                {formMode !== "reset" && (
+                    <div className="form-group">
+                        <label htmlFor="username">Username</label>
+                        <input
+                            type="text"
+                            id="username"
+                            name="username"
+                            value={formData.username}
+                            onChange={handleInputChange}
+                            onInvalid={handleInvalid}
+                            placeholder="Enter Username"
+                            required
+                            ref={usernameRef}
+                            aria-required="true"
+                            autoComplete="username"
+                        />
+                        {validationMessages.username && (
+                            <span className="error-fallback" role="alert" aria-live="polite">
+                                {validationMessages.username}
+                            </span>
+                        )}
+                    </div>
+                )}
+                {(formMode === "register" || (formMode === "reset" && resetStep === "request")) && (
                     <div className="form-group">
                         <label htmlFor="email">Email</label>
                         <input
@@ -322,38 +311,92 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onClose, mode = "login", o
                         )}
                     </div>
                 )}
-                {formMode === "reset" && (
-                    <div className="form-group">
-                        <label htmlFor="new_password">New Password</label>
-                        <input
-                            type="password"
-                            id="new_password"
-                            name="new_password"
-                            value={formData.new_password}
-                            onChange={handleInputChange}
-                            onInvalid={handleInvalid}
-                            placeholder="Enter New Password"
-                            required
-                            ref={newPasswordRef}
-                            aria-required="true"
-                            autoComplete="new-password"
-                        />
-                        {validationMessages.new_password && (
-                            <span className="error-fallback" role="alert" aria-live="polite">
-                                {validationMessages.new_password}
-                            </span>
-                        )}
-                    </div>
+                {formMode === "reset" && resetStep === "confirm" && (
+                    <>
+                        <div className="form-group">
+                            <label htmlFor="reset_code">Reset Code</label>
+                            <input
+                                type="text"
+                                id="reset_code"
+                                name="reset_code"
+                                value={formData.reset_code}
+                                onChange={handleInputChange}
+                                onInvalid={handleInvalid}
+                                placeholder="Enter Code from Email"
+                                required
+                                ref={resetCodeRef}
+                                aria-required="true"
+                                autoComplete="one-time-code"
+                            />
+                            {validationMessages.reset_code && (
+                                <span className="error-fallback" role="alert" aria-live="polite">
+                                    {validationMessages.reset_code}
+                                </span>
+                            )}
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="new_password">New Password</label>
+                            <input
+                                type="password"
+                                id="new_password"
+                                name="new_password"
+                                value={formData.new_password}
+                                onChange={handleInputChange}
+                                onInvalid={handleInvalid}
+                                placeholder="8+ chars, letter and number"
+                                required
+                                ref={newPasswordRef}
+                                aria-required="true"
+                                autoComplete="new-password"
+                            />
+                            {validationMessages.new_password && (
+                                <span className="error-fallback" role="alert" aria-live="polite">
+                                    {validationMessages.new_password}
+                                </span>
+                            )}
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="confirm_password">Confirm Password</label>
+                            <input
+                                type="password"
+                                id="confirm_password"
+                                name="confirm_password"
+                                value={formData.confirm_password}
+                                onChange={handleInputChange}
+                                onInvalid={handleInvalid}
+                                placeholder="Re-enter New Password"
+                                required
+                                ref={confirmPasswordRef}
+                                aria-required="true"
+                                autoComplete="new-password"
+                            />
+                            {validationMessages.confirm_password && (
+                                <span className="error-fallback" role="alert" aria-live="polite">
+                                    {validationMessages.confirm_password}
+                                </span>
+                            )}
+                        </div>
+                    </>
                 )}
                 <div className="form-actions">
                     <button
                         type="submit"
                         className="submit-btn"
                         disabled={isSubmitting}
-                        aria-label={formMode === "login" ? "Submit login" : formMode === "register" ? "Submit registration" : "Submit password reset"}
+                        aria-label={formMode === "login" ? "Submit login" : formMode === "register" ? "Submit registration" : resetStep === "request" ? "Request reset code" : "Submit password reset"}
                     >
-                        {isSubmitting ? "Submitting..." : formMode === "login" ? "Login" : formMode === "register" ? "Register" : "Reset Password"}
+                        {isSubmitting ? "Submitting..." : formMode === "login" ? "Login" : formMode === "register" ? "Register" : resetStep === "request" ? "Send Reset Code" : "Reset Password"}
                     </button>
+                    {formMode === "reset" && resetStep === "confirm" && (
+                        <button
+                            type="button"
+                            className="toggle-btn"
+                            onClick={() => setResetStep("request")}
+                            aria-label="Request a new reset code"
+                        >
+                            Resend Code
+                        </button>
+                    )}
                     <button
                         type="button"
                         className="toggle-btn"
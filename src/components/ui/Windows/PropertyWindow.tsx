@@ -0,0 +1,231 @@
+// src/components/ui/Windows/PropertyWindow.tsx
+/**
+ * @file PropertyWindow.tsx
+ * @description Property window for CyberTaxi: details of a garage or lot listing, with lease, buy and sell actions.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.1
+ * @note Opened by clicking a listing on MapArea's property layer. Actions come from usePlayerProperties (through
+ *       CyberMain), which calls POST /api/garages and POST /api/garages/:garage_id/sell and refreshes the balance.
+ * @detail A listing on the market shows its demand-based rent and the up-front cost of each lease term or of buying it;
+ *         one the player holds shows the tenure, what was paid and, for leases, the paid-up date. Buying, selling and
+ *         ending a lease ask for confirmation first.
+ */
+import React, { useState } from "react";
+import { BaseWindow } from "./baseWindow";
+import type { BaseWindowProps } from "./baseWindow"; // Type-only import for verbatimModuleSyntax
+import { useCyber } from "../../../context/CyberContext";
+import {
+    LEASE_TERMS,
+    demandLevel,
+    formatDollars,
+    leaseCost,
+    monthlyRent,
+    propertyDemand,
+    purchasePrice,
+    resaleValue,
+} from "../../../domain/Properties";
+import type { LeaseTerm, PropertyListing } from "../../../domain/Properties";
+import type { ApiGarage } from "../../../services/apiTypes";
+import "../../../styles/ui/Property.css";
+
+/**
+ * Props for PropertyWindow component.
+ * @interface PropertyWindowProps
+ * @extends {Omit<BaseWindowProps, "children" | "title">}
+ */
+interface PropertyWindowProps extends Omit<BaseWindowProps, "children" | "title"> {
+    listing: PropertyListing;
+    held: ApiGarage | null; // The player's lease or ownership of this listing
+    onLease: (listing: PropertyListing, term: LeaseTerm) => Promise<void>;
+    onBuy: (listing: PropertyListing) => Promise<void>;
+    onSell: (garageId: number) => Promise<number>;
+}
+
+type PendingAction = "lease" | "buy" | "sell";
+
+/**
+ * Renders a listing and the player's options for it.
+ * @param {PropertyWindowProps} props - Component props.
+ * @returns {JSX.Element} Draggable window with details and actions.
+ */
+export const PropertyWindow: React.FC<PropertyWindowProps> = ({ listing, held, onLease, onBuy, onSell, ...props }) => {
+    const { bankBalance } = useCyber();
+    const [term, setTerm] = useState<LeaseTerm>("monthly");
+    const [confirming, setConfirming] = useState<PendingAction | null>(null);
+    const [pending, setPending] = useState<PendingAction | null>(null);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const demand = propertyDemand(listing.coords);
+    const level = demandLevel(demand);
+    const rent = monthlyRent(listing);
+    const price = purchasePrice(listing);
+
+    /**
+     * Runs an action, asking for confirmation first when the action needs it.
+     * @param action - Lease, buy or sell.
+     * @param run - The call; resolves to the notice to show.
+     */
+    const handleAction = async (action: PendingAction, run: () => Promise<string>) => {
+        if (action !== "lease" && confirming !== action) {
+            setConfirming(action);
+            return;
+        }
+        setConfirming(null);
+        setPending(action);
+        setErrorMessage(null);
+        setNotice(null);
+        try {
+            setNotice(await run());
+        } catch (error) {
+            const message = error instanceof Error ? error.message : "Unknown error";
+            console.error(`PropertyWindow: Failed to ${action} ${listing.id}:`, message);
+            setErrorMessage(message);
+        } finally {
+            setPending(null);
+        }
+    };
+
+    return (
+        <BaseWindow {...props} title={listing.name} isResizable={true} isDraggable={true} zIndexBase={1500}>
+            <div className="property-details">
+                <div className={`property-details-tenure${held ? " held" : ""}`}>
+                    {held ? (held.tenure === "own" ? "Owned" : `Leased (${LEASE_TERMS[held.lease_term ?? "monthly"].label})`) : "For lease or sale"}
+                </div>
+
+                <section className="property-details-section">
+                    <h4>Property</h4>
+                    <div className="property-details-row">
+                        <span>Address</span>
+                        <span>{listing.address}</span>
+                    </div>
+                    <div className="property-details-row">
+                        <span>Area</span>
+                        <span>{listing.area}</span>
+                    </div>
+                    <div className="property-details-row">
+                        <span>Type</span>
+                        <span>{listing.type === "garage" ? "Garage" : "Lot"}, {listing.sizeSqft.toLocaleString()} sq ft</span>
+                    </div>
+                    <div className="property-details-row">
+                        <span>Fleet slots</span>
+                        <span>{listing.slots}</span>
+                    </div>
+                    <div className="property-details-row">
+                        <span>Parking spaces</span>
+                        <span>{listing.parkingSpaces}</span>
+                    </div>
+                    <div className="property-details-row">
+                        <span>Chargers</span>
+                        <span>{listing.chargers === 0 ? "None" : `${listing.chargers} Wall Connectors`}</span>
+                    </div>
+                    <div className="property-details-row">
+                        <span>Demand</span>
+                        <span className={`property-demand demand-${level}`}>
+                            {level} ({Math.round(demand * 100)}%)
+                        </span>
+                    </div>
+                </section>
+
+                {held ? (
+                    <section className="property-details-section">
+                        <h4>Your {held.tenure === "own" ? "Property" : "Lease"}</h4>
+                        <div className="property-details-row">
+                            <span>Paid</span>
+                            <span>{formatDollars(held.price_paid)}</span>
+                        </div>
+                        {held.lease_ends_at && (
+                            <div className="property-details-row">
+                                <span>Paid up to</span>
+                                <span>{new Date(held.lease_ends_at).toLocaleDateString()}</span>
+                            </div>
+                        )}
+                        <div className="property-details-row">
+                            <span>{held.tenure === "own" ? "Sale value" : "Refund on ending"}</span>
+                            <span>{formatDollars(held.tenure === "own" ? resaleValue(held.price_paid) : 0)}</span>
+                        </div>
+                    </section>
+                ) : (
+                    <section className="property-details-section">
+                        <h4>Lease or Buy</h4>
+                        <div className="property-details-row">
+                            <span>Rent</span>
+                            <span>{formatDollars(rent)}/month</span>
+                        </div>
+                        {Object.values(LEASE_TERMS).map((spec) => (
+                            <label key={spec.id} className="property-details-row">
+                                <span>
+                                    <input
+                                        type="radio"
+                                        name="property-term"
+                                        checked={term === spec.id}
+                                        onChange={() => setTerm(spec.id)}
+                                    />{" "}
+                                    {spec.label}
+                                    {spec.discount > 0 && ` (−${Math.round(spec.discount * 100)}%)`}
+                                </span>
+                                <span>{formatDollars(leaseCost(listing, spec.id))}</span>
+                            </label>
+                        ))}
+                        <div className="property-details-row">
+                            <span>Buy outright</span>
+                            <span>{formatDollars(price)}</span>
+                        </div>
+                        <div className="property-details-row">
+                            <span>Balance</span>
+                            <span>{formatDollars(bankBalance)}</span>
+                        </div>
+                    </section>
+                )}
+
+                {errorMessage && <p className="property-details-error">{errorMessage}</p>}
+                {notice && <p className="property-details-notice">{notice}</p>}
+
+                <div className="property-details-actions">
+                    {held ? (
+                        <button
+                            onClick={() =>
+                                handleAction("sell", async () => {
+                                    const credited = await onSell(held.id);
+                                    return held.tenure === "own" ? `Sold for ${formatDollars(credited)}` : "Lease ended";
+                                })
+                            }
+                            disabled={pending !== null}
+                            className={confirming === "sell" ? "confirm" : ""}
+                        >
+                            <i className="fas fa-sign-out-alt" />
+                            {confirming === "sell" ? "Confirm" : held.tenure === "own" ? "Sell" : "End Lease"}
+                        </button>
+                    ) : (
+                        <>
+                            <button
+                                onClick={() =>
+                                    handleAction("lease", async () => {
+                                        await onLease(listing, term);
+                                        return `Leased ${LEASE_TERMS[term].label.toLowerCase()} for ${formatDollars(leaseCost(listing, term))}`;
+                                    })
+                                }
+                                disabled={pending !== null || bankBalance < leaseCost(listing, term)}
+                            >
+                                <i className="fas fa-file-signature" />
+                                Lease
+                            </button>
+                            <button
+                                onClick={() =>
+                                    handleAction("buy", async () => {
+                                        await onBuy(listing);
+                                        return `Bought for ${formatDollars(price)}`;
+                                    })
+                                }
+                                disabled={pending !== null || bankBalance < price}
+                                className={confirming === "buy" ? "confirm" : ""}
+                            >
+                                <i className="fas fa-key" />
+                                {confirming === "buy" ? "Confirm Purchase" : "Buy"}
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </BaseWindow>
+    );
+};
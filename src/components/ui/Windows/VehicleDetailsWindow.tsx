@@ -0,0 +1,667 @@
+// src/components/ui/Windows/VehicleDetailsWindow.tsx
+/**
+ * @file VehicleDetailsWindow.tsx
+ * @description Vehicle Details window for CyberTaxi: telemetry, wear, purchase info, trip history and owner actions.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.2.6
+ * @note Opened by clicking one of the player's markers in MapArea, per the GDD's "Monitor via Vehicle Details" section.
+ * @detail Starts from the clicked vehicle and stays live by merging RealtimeService deltas. Trips are fare periods
+ *         derived from GET /api/vehicles/:vehicle_id/history; actions go through POST /api/vehicles/:vehicle_id/status
+ *         and are only enabled when the lifecycle allows the transition. Charge opens the GDD's manual charging panel
+ *         (charger type, 80%/100% target, estimated time and cost); while plugged in the battery bar shows progress
+ *         towards the target and Disconnect ends the session early, billed for the power used. Nearest SuperCharger
+ *         drives the vehicle to the closest site by road, where it queues if every stall is taken. Maintenance opens a
+ *         panel of jobs (service, tires, battery) with their cost ranges, preselecting what the wear model says is due;
+ *         the vehicle stays in maintenance until the job is done and its cost is deducted from the bank; a job an
+ *         in-house mechanic took (Staffing.ts) says so. Clean sets the vehicle to cleaning, where cleaning staff on
+ *         shift at its garage pick it up. Sell asks for confirmation with the used-market quote (UsedMarket.ts) at the
+ *         simulated wear, which is saved first (POST /api/vehicles/:vehicle_id/wear) so the server prices the sale the
+ *         same way. Charge estimates use the
+ *         pack of the vehicle's catalog model (model prop), and the Purchase section lists the model's specs.
+ */
+import React, { useCallback, useEffect, useState } from "react";
+import { BaseWindow } from "./baseWindow";
+import type { BaseWindowProps } from "./baseWindow"; // Type-only import for verbatimModuleSyntax
+import { ApiClient } from "../../../services/ApiClient";
+import { RealtimeService } from "../../../services/RealtimeService";
+import type { VehicleEvent } from "../../../services/apiTypes";
+import { useCyber } from "../../../context/CyberContext";
+import { applyVehicleDeltas, canTransition, tireLifeMiles, VEHICLE_STATUS_LABELS } from "../../../domain/Vehicle";
+import type { Vehicle, VehicleStatus } from "../../../domain/Vehicle";
+import { findChargingSite } from "../../../domain/ChargingSites";
+import { usedPrice } from "../../../domain/UsedMarket";
+import type { VehicleModel } from "../../../domain/VehicleCatalog";
+import { CHARGERS, estimateChargeMinutes } from "../../../simulation/Charging";
+import type { ChargerType, ChargeReceipt, ChargeSession, ChargeTarget, ChargingSiteStatus } from "../../../simulation/Charging";
+import type { ChargerTrip } from "../../../simulation/FareEngine";
+import { jobsFor, MAINTENANCE, maintenanceDue, wearFields } from "../../../simulation/Wear";
+import type { MaintenanceAlertKind, MaintenanceJob, MaintenanceKind, WearState } from "../../../simulation/Wear";
+import "../../../styles/ui/VehicleDetails.css";
+
+/**
+ * Props for VehicleDetailsWindow component.
+ * @interface VehicleDetailsWindowProps
+ * @extends {Omit<BaseWindowProps, "children" | "title">}
+ */
+interface VehicleDetailsWindowProps extends Omit<BaseWindowProps, "children" | "title"> {
+    vehicle: Vehicle; // Snapshot at the time the window opened
+    model: VehicleModel; // Catalog model of the vehicle's type
+    chargeSession: ChargeSession | null; // Live session from the simulation, if plugged in
+    onStartCharging: (vehicleId: string, charger: ChargerType, target: ChargeTarget) => Promise<void>;
+    onStopCharging: (vehicleId: string) => Promise<ChargeReceipt | null>;
+    chargerTrip: ChargerTrip | null; // Drive to a SuperCharger in progress
+    chargingSites: readonly ChargingSiteStatus[]; // For the vehicle's place in a site queue
+    onSendToCharger: (vehicleId: string, target: ChargeTarget) => Promise<ChargerTrip>;
+    maintenanceJob: MaintenanceJob | null; // Job in progress, if in maintenance
+    wearState: WearState | null; // Simulated wear, once the vehicle has driven in the simulation
+    onStartMaintenance: (vehicleId: string, kinds: MaintenanceKind[]) => Promise<void>;
+    onCancelMaintenance: (vehicleId: string) => Promise<void>;
+}
+
+/**
+ * A fare period reconstructed from the status history.
+ * @interface Trip
+ */
+interface Trip {
+    start: string;
+    end: string | null; // Null while the fare is in progress
+}
+
+/** Owner actions and the status each one requests. */
+const ACTIONS: { label: string; status: VehicleStatus; icon: string }[] = [
+    { label: "Send to Garage", status: "parked", icon: "fa-warehouse" },
+    { label: "Charge", status: "charging", icon: "fa-bolt" },
+    { label: "Maintenance", status: "maintenance", icon: "fa-wrench" },
+    { label: "Clean", status: "cleaning", icon: "fa-broom" },
+    { label: "Sell", status: "sold", icon: "fa-dollar-sign" },
+];
+
+const MAX_TRIPS = 10;
+
+/** Labels for due maintenance items. */
+const DUE_LABELS: Readonly<Record<MaintenanceAlertKind, string>> = {
+    service: "Service due",
+    rotation: "Tire rotation due",
+    tires: "Tires nearly worn out",
+    battery: "Battery degraded",
+};
+
+/**
+ * Formats a simulated duration.
+ * @param ms - Duration in simulated milliseconds.
+ * @returns {string} Hours, e.g. "2 h".
+ */
+const formatHours = (ms: number): string => `${Math.round((ms / 3600000) * 10) / 10} h`;
+
+/**
+ * Pairs fare start/end events into trips.
+ * @param events - Status history, newest first.
+ * @returns {Trip[]} Trips, newest first.
+ */
+const tripsFromEvents = (events: VehicleEvent[]): Trip[] => {
+    const trips: Trip[] = [];
+    let end: string | null = null;
+    events.forEach((event) => {
+        if (event.from_status === "fare") {
+            end = event.created_at;
+        } else if (event.to_status === "fare") {
+            trips.push({ start: event.created_at, end });
+            end = null;
+        }
+    });
+    return trips.slice(0, MAX_TRIPS);
+};
+
+/**
+ * Formats a backend timestamp for display.
+ * @param value - ISO or MySQL timestamp.
+ * @returns {string} Localized date/time, or "—" if missing.
+ */
+const formatDate = (value: string | null | undefined): string =>
+    value ? new Date(value).toLocaleString() : "—";
+
+/**
+ * Formats the length of a trip.
+ * @param trip - Trip to measure.
+ * @returns {string} Minutes, or "in progress".
+ */
+const formatDuration = (trip: Trip): string => {
+    if (!trip.end) {
+        return "in progress";
+    }
+    const minutes = Math.round((new Date(trip.end).getTime() - new Date(trip.start).getTime()) / 60000);
+    return `${minutes} min`;
+};
+
+/**
+ * Horizontal gauge with the value shown on hover.
+ * @returns {JSX.Element} Labelled meter, with an optional target tick.
+ */
+const Gauge: React.FC<{ label: string; percent: number; className: string; detail: string; target?: number }> = ({
+    label,
+    percent,
+    className,
+    detail,
+    target,
+}) => {
+    const clamped = Math.min(Math.max(percent, 0), 100);
+    return (
+        <div className="vehicle-gauge" title={detail}>
+            <span className="vehicle-gauge-label">{label}</span>
+            <div
+                className={`vehicle-gauge-bar ${className}`}
+                role="meter"
+                aria-label={label}
+                aria-valuenow={Math.round(clamped)}
+                aria-valuemin={0}
+                aria-valuemax={100}
+            >
+                <div className="vehicle-gauge-fill" style={{ width: `${clamped}%` }} />
+                {target !== undefined && <div className="vehicle-gauge-target" style={{ left: `${target}%` }} />}
+                <span className="vehicle-gauge-value">{detail}</span>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Renders live details and actions for one of the player's vehicles.
+ * @param {VehicleDetailsWindowProps} props - Component props.
+ * @returns {JSX.Element} Draggable window with vehicle details.
+ */
+export const VehicleDetailsWindow: React.FC<VehicleDetailsWindowProps> = ({
+    vehicle: initial,
+    model,
+    chargeSession,
+    onStartCharging,
+    onStopCharging,
+    chargerTrip,
+    chargingSites,
+    onSendToCharger,
+    maintenanceJob,
+    wearState,
+    onStartMaintenance,
+    onCancelMaintenance,
+    ...props
+}) => {
+    const { refreshStats } = useCyber();
+    const [vehicle, setVehicle] = useState<Vehicle>(initial);
+    const [events, setEvents] = useState<VehicleEvent[]>([]);
+    const [pending, setPending] = useState<VehicleStatus | null>(null);
+    const [confirmSell, setConfirmSell] = useState(false);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [showCharge, setShowCharge] = useState(false);
+    const [charger, setCharger] = useState<ChargerType>("home");
+    const [chargeTarget, setChargeTarget] = useState<ChargeTarget>(80);
+    const [receipt, setReceipt] = useState<ChargeReceipt | null>(null);
+    const [showMaintenance, setShowMaintenance] = useState(false);
+    const due = wearState ? maintenanceDue(wearState) : [];
+    const saleWear = wearState?.wear ?? vehicle.wear; // Simulated wear, saved before a sale
+    const [maintenanceKinds, setMaintenanceKinds] = useState<MaintenanceKind[]>(() => {
+        const kinds = jobsFor(due);
+        return kinds.length > 0 ? kinds : ["service"];
+    });
+
+    const loadHistory = useCallback(async () => {
+        try {
+            const data = await ApiClient.getVehicleHistory(initial.id);
+            setEvents(data.events);
+        } catch (error) {
+            console.error("VehicleDetailsWindow: Failed to fetch history:", error);
+            setErrorMessage("Trip history unavailable");
+        }
+    }, [initial.id]);
+
+    useEffect(() => {
+        loadHistory();
+    }, [loadHistory]);
+
+    // Keep telemetry live while the window is open
+    useEffect(
+        () => RealtimeService.onDeltas((deltas) => setVehicle((current) => applyVehicleDeltas([current], deltas)[0])),
+        []
+    );
+
+    const queuedAt = chargingSites.find((site) => site.queue.includes(vehicle.id)) ?? null;
+    const tripSite = chargerTrip ? findChargingSite(chargerTrip.siteId) : null;
+    const canDriveToCharger = vehicle.coords !== null && vehicle.status !== "fare" && canTransition(vehicle.status, "active");
+
+    const handleStartCharging = async () => {
+        setPending("charging");
+        setErrorMessage(null);
+        setReceipt(null);
+        try {
+            await onStartCharging(vehicle.id, charger, chargeTarget);
+            setVehicle((current) => ({ ...current, status: "charging" }));
+            setShowCharge(false);
+            await loadHistory();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : "Unknown error";
+            console.error(`VehicleDetailsWindow: Failed to start charging ${vehicle.id}:`, message);
+            setErrorMessage(message);
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const handleStopCharging = async () => {
+        setPending("parked");
+        setErrorMessage(null);
+        try {
+            setReceipt(await onStopCharging(vehicle.id));
+            setVehicle((current) => ({ ...current, status: "parked" }));
+            await loadHistory();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : "Unknown error";
+            console.error(`VehicleDetailsWindow: Failed to disconnect ${vehicle.id}:`, message);
+            setErrorMessage(message);
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const handleSendToCharger = async () => {
+        setPending("active");
+        setErrorMessage(null);
+        setReceipt(null);
+        try {
+            await onSendToCharger(vehicle.id, chargeTarget);
+            setVehicle((current) => ({ ...current, status: "active" }));
+            setShowCharge(false);
+            await loadHistory();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : "Unknown error";
+            console.error(`VehicleDetailsWindow: Failed to send ${vehicle.id} to a SuperCharger:`, message);
+            setErrorMessage(message);
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const handleStartMaintenance = async () => {
+        setPending("maintenance");
+        setErrorMessage(null);
+        try {
+            await onStartMaintenance(vehicle.id, maintenanceKinds);
+            setVehicle((current) => ({ ...current, status: "maintenance" }));
+            setShowMaintenance(false);
+            await loadHistory();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : "Unknown error";
+            console.error(`VehicleDetailsWindow: Failed to start maintenance on ${vehicle.id}:`, message);
+            setErrorMessage(message);
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const handleCancelMaintenance = async () => {
+        setPending("parked");
+        setErrorMessage(null);
+        try {
+            await onCancelMaintenance(vehicle.id);
+            setVehicle((current) => ({ ...current, status: "parked" }));
+            await loadHistory();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : "Unknown error";
+            console.error(`VehicleDetailsWindow: Failed to end maintenance on ${vehicle.id}:`, message);
+            setErrorMessage(message);
+        } finally {
+            setPending(null);
+        }
+    };
+
+    // Keeps the picked jobs in MAINTENANCE order
+    const toggleMaintenanceKind = (kind: MaintenanceKind) =>
+        setMaintenanceKinds((current) =>
+            (Object.keys(MAINTENANCE) as MaintenanceKind[]).filter((item) => (item === kind ? !current.includes(item) : current.includes(item)))
+        );
+
+    const handleAction = async (status: VehicleStatus) => {
+        if (status === "charging") {
+            setShowCharge((open) => !open);
+            setShowMaintenance(false);
+            return;
+        }
+        if (status === "maintenance") {
+            setShowMaintenance((open) => !open);
+            setShowCharge(false);
+            return;
+        }
+        if (status === "parked" && maintenanceJob) {
+            await handleCancelMaintenance(); // Nothing is billed for an unfinished job
+            return;
+        }
+        if (status === "parked" && (chargeSession || chargerTrip || queuedAt)) {
+            await handleStopCharging(); // Unplugging bills the session before parking
+            return;
+        }
+        if (status === "sold" && !confirmSell) {
+            setConfirmSell(true);
+            return;
+        }
+        setConfirmSell(false);
+        setPending(status);
+        setErrorMessage(null);
+        try {
+            if (status === "sold" && wearState) {
+                await ApiClient.saveVehicleWear(vehicle.id, wearFields(wearState));
+            }
+            const result = await ApiClient.updateVehicleStatus(vehicle.id, status);
+            setVehicle((current) => ({ ...current, status: result.vehicle_status }));
+            console.log(`VehicleDetailsWindow: ${vehicle.id} is now ${result.vehicle_status}`);
+            if (result.sale_price !== undefined) {
+                await refreshStats();
+            }
+            await loadHistory();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : "Unknown error";
+            console.error(`VehicleDetailsWindow: Failed to set ${vehicle.id} to ${status}:`, message);
+            setErrorMessage(message);
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const tireLife = wearState?.tireLifeMiles ?? tireLifeMiles(vehicle.id);
+    const tirePercent = (vehicle.tire_mileage / tireLife) * 100;
+    const trips = tripsFromEvents(events);
+    const estimateKwh = Math.max(0, ((chargeTarget - vehicle.battery) / 100) * model.battery_kwh);
+
+    return (
+        <BaseWindow
+            {...props}
+            title={`${vehicle.type} ${vehicle.id}`}
+            isResizable={true}
+            isDraggable={true}
+            zIndexBase={1500}
+        >
+            <div className="vehicle-details">
+                <div className={`vehicle-details-status status-${vehicle.status}`}>
+                    {VEHICLE_STATUS_LABELS[vehicle.status]}
+                </div>
+
+                <section className="vehicle-details-section">
+                    <h4>Telemetry</h4>
+                    <Gauge
+                        label="Battery"
+                        percent={vehicle.battery}
+                        className={chargeSession ? "gauge-charging" : vehicle.battery < 20 ? "gauge-low" : "gauge-battery"}
+                        detail={
+                            chargeSession
+                                ? `${vehicle.battery.toFixed(0)}% → ${chargeSession.target}%`
+                                : `${vehicle.battery.toFixed(0)}%`
+                        }
+                        target={chargeSession?.target}
+                    />
+                    <Gauge
+                        label="Wear"
+                        percent={vehicle.wear}
+                        className={vehicle.wear > 80 ? "gauge-low" : "gauge-wear"}
+                        detail={`${vehicle.wear.toFixed(1)}%`}
+                    />
+                    <Gauge
+                        label="Tires"
+                        percent={tirePercent}
+                        className={tirePercent > 80 ? "gauge-low" : "gauge-wear"}
+                        detail={`${vehicle.tire_mileage.toLocaleString()} / ${tireLife.toLocaleString()} mi`}
+                    />
+                    {wearState && (
+                        <Gauge
+                            label="Battery health"
+                            percent={wearState.batteryHealth}
+                            className={due.includes("battery") ? "gauge-low" : "gauge-battery"}
+                            detail={`${wearState.batteryHealth.toFixed(1)}%`}
+                        />
+                    )}
+                    <div className="vehicle-details-row">
+                        <span>Mileage</span>
+                        <span>{vehicle.mileage.toLocaleString()} mi</span>
+                    </div>
+                </section>
+
+                {chargeSession && (
+                    <section className="vehicle-details-section">
+                        <h4>Charging</h4>
+                        <div className="vehicle-details-row">
+                            <span>Charger</span>
+                            <span>{CHARGERS[chargeSession.charger].label}</span>
+                        </div>
+                        <div className="vehicle-details-row">
+                            <span>Delivered</span>
+                            <span>
+                                {chargeSession.energyKwh.toFixed(1)} kWh · ${chargeSession.cost.toFixed(2)}
+                            </span>
+                        </div>
+                        <div className="vehicle-details-row">
+                            <span>Time left</span>
+                            <span>
+                                ~{Math.ceil(estimateChargeMinutes(chargeSession.charger, chargeSession.battery, chargeSession.target, chargeSession.capacityKwh))} min
+                            </span>
+                        </div>
+                        <div className="vehicle-details-charge-actions">
+                            <button onClick={handleStopCharging} disabled={pending !== null}>
+                                <i className="fas fa-plug" />
+                                Disconnect
+                            </button>
+                        </div>
+                    </section>
+                )}
+
+                {due.length > 0 && !maintenanceJob && (
+                    <ul className="vehicle-details-alerts">
+                        {due.map((kind) => (
+                            <li key={kind}>
+                                <i className="fas fa-triangle-exclamation" />
+                                {DUE_LABELS[kind]}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {maintenanceJob && (
+                    <section className="vehicle-details-section">
+                        <h4>Maintenance</h4>
+                        <div className="vehicle-details-row">
+                            <span>Work</span>
+                            <span>{maintenanceJob.kinds.map((kind) => MAINTENANCE[kind].label).join(", ")}</span>
+                        </div>
+                        <div className="vehicle-details-row">
+                            <span>Cost</span>
+                            <span>${maintenanceJob.cost.toFixed(2)}</span>
+                        </div>
+                        <div className="vehicle-details-row">
+                            <span>Takes</span>
+                            <span>{formatHours(maintenanceJob.readyAt - maintenanceJob.startedAt)}</span>
+                        </div>
+                        {maintenanceJob.staffId !== undefined && (
+                            <div className="vehicle-details-row">
+                                <span>By</span>
+                                <span>In-house mechanic</span>
+                            </div>
+                        )}
+                        <div className="vehicle-details-charge-actions">
+                            <button onClick={handleCancelMaintenance} disabled={pending !== null}>
+                                <i className="fas fa-ban" />
+                                Cancel
+                            </button>
+                        </div>
+                    </section>
+                )}
+
+                {showMaintenance && !maintenanceJob && (
+                    <section className="vehicle-details-section vehicle-details-charge">
+                        <h4>Maintenance</h4>
+                        {Object.values(MAINTENANCE).map((spec) => (
+                            <label key={spec.id} className="vehicle-details-row">
+                                <span>
+                                    <input
+                                        type="checkbox"
+                                        checked={maintenanceKinds.includes(spec.id)}
+                                        onChange={() => toggleMaintenanceKind(spec.id)}
+                                    />
+                                    {spec.label}
+                                </span>
+                                <span>
+                                    ${spec.costRange[0].toLocaleString()}–${spec.costRange[1].toLocaleString()} · {formatHours(spec.durationMs)}
+                                </span>
+                            </label>
+                        ))}
+                        <div className="vehicle-details-charge-actions">
+                            <button onClick={handleStartMaintenance} disabled={pending !== null || maintenanceKinds.length === 0}>
+                                <i className="fas fa-wrench" />
+                                Start Maintenance
+                            </button>
+                        </div>
+                    </section>
+                )}
+
+                {(chargerTrip || queuedAt) && (
+                    <section className="vehicle-details-section">
+                        <h4>SuperCharger</h4>
+                        {chargerTrip && (
+                            <div className="vehicle-details-row">
+                                <span>Driving to</span>
+                                <span>
+                                    {tripSite?.name ?? chargerTrip.siteId} · {chargerTrip.miles.toFixed(1)} mi
+                                </span>
+                            </div>
+                        )}
+                        {queuedAt && (
+                            <div className="vehicle-details-row">
+                                <span>Waiting at</span>
+                                <span>
+                                    {findChargingSite(queuedAt.siteId)?.name ?? queuedAt.siteId} · #{queuedAt.queue.indexOf(vehicle.id) + 1} in line
+                                </span>
+                            </div>
+                        )}
+                        <div className="vehicle-details-charge-actions">
+                            <button onClick={handleStopCharging} disabled={pending !== null}>
+                                <i className="fas fa-ban" />
+                                Cancel
+                            </button>
+                        </div>
+                    </section>
+                )}
+
+                {showCharge && !chargeSession && !chargerTrip && !queuedAt && (
+                    <section className="vehicle-details-section vehicle-details-charge">
+                        <h4>Charge</h4>
+                        <label className="vehicle-details-row">
+                            <span>Charger</span>
+                            <select value={charger} onChange={(e) => setCharger(e.target.value as ChargerType)}>
+                                {Object.values(CHARGERS).map((spec) => (
+                                    <option key={spec.id} value={spec.id}>
+                                        {spec.label} · ${spec.pricePerKwh.toFixed(2)}/kWh
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <div className="vehicle-details-row">
+                            <span>Target</span>
+                            <span>
+                                {([80, 100] as const).map((target) => (
+                                    <label key={target} className="vehicle-details-target">
+                                        <input
+                                            type="radio"
+                                            name="charge-target"
+                                            checked={chargeTarget === target}
+                                            onChange={() => setChargeTarget(target)}
+                                        />
+                                        {target}%
+                                    </label>
+                                ))}
+                            </span>
+                        </div>
+                        <div className="vehicle-details-row">
+                            <span>Estimate</span>
+                            <span>
+                                ~{Math.ceil(estimateChargeMinutes(charger, vehicle.battery, chargeTarget, model.battery_kwh))} min · $
+                                {(estimateKwh * CHARGERS[charger].pricePerKwh).toFixed(2)}
+                            </span>
+                        </div>
+                        <div className="vehicle-details-charge-actions">
+                            <button onClick={handleStartCharging} disabled={pending !== null || estimateKwh === 0}>
+                                <i className="fas fa-bolt" />
+                                Start Charging
+                            </button>
+                            <button
+                                onClick={handleSendToCharger}
+                                disabled={pending !== null || !canDriveToCharger}
+                                title="Drive to the nearest SuperCharger by road and charge there"
+                            >
+                                <i className="fas fa-charging-station" />
+                                Nearest SuperCharger
+                            </button>
+                        </div>
+                    </section>
+                )}
+
+                {receipt && (
+                    <p className="vehicle-details-receipt">
+                        Charged {receipt.energyKwh.toFixed(1)} kWh to {receipt.battery.toFixed(0)}% for ${receipt.cost.toFixed(2)}
+                        {receipt.reason === "disconnected" && " (disconnected early)"}
+                    </p>
+                )}
+
+                <section className="vehicle-details-section">
+                    <h4>Purchase</h4>
+                    <div className="vehicle-details-row">
+                        <span>Model</span>
+                        <span title={`${model.seats} seats, ${model.range_miles} mi range, ${model.kwh_per_mile} kWh/mi`}>
+                            {model.name} ({model.battery_kwh} kWh)
+                        </span>
+                    </div>
+                    <div className="vehicle-details-row">
+                        <span>Price</span>
+                        <span>${vehicle.cost.toLocaleString()}</span>
+                    </div>
+                    <div className="vehicle-details-row">
+                        <span>Purchased</span>
+                        <span>{formatDate(vehicle.purchase_date)}</span>
+                    </div>
+                    {vehicle.delivery_timestamp && (
+                        <div className="vehicle-details-row">
+                            <span>Delivery</span>
+                            <span>{formatDate(vehicle.delivery_timestamp)}</span>
+                        </div>
+                    )}
+                </section>
+
+                <section className="vehicle-details-section">
+                    <h4>Trip History</h4>
+                    {trips.length === 0 ? (
+                        <p className="vehicle-details-empty">No trips yet</p>
+                    ) : (
+                        <ul className="vehicle-details-trips">
+                            {trips.map((trip) => (
+                                <li key={trip.start}>
+                                    <span>{formatDate(trip.start)}</span>
+                                    <span>{formatDuration(trip)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </section>
+
+                {errorMessage && <p className="vehicle-details-error">{errorMessage}</p>}
+
+                <div className="vehicle-details-actions">
+                    {ACTIONS.map((action) => (
+                        <button
+                            key={action.status}
+                            onClick={() => handleAction(action.status)}
+                            disabled={pending !== null || !canTransition(vehicle.status, action.status)}
+                            className={action.status === "sold" && confirmSell ? "confirm" : ""}
+                        >
+                            <i className={`fas ${action.icon}`} />
+                            {action.status === "sold" && confirmSell
+                                ? `Confirm Sale ($${usedPrice(vehicle.cost, saleWear).toLocaleString()})`
+                                : action.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </BaseWindow>
+    );
+};
@@ -3,56 +3,45 @@
  * @file MenuBar.tsx
  * @description Top navigation bar component for CyberTaxi UI.
  * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
- * @version 0.1.11
- * @note Provides a fixed header with logo, stats (Bank before Score), energy bar, and help button.
- * @detail Fetches bankBalance and score from PlayerService, displays energy percentage, toggles AboutPortal.
+ * @version 0.1.13
+ * @note Provides a fixed header with logo, stats (Bank before Score), live-connection indicator, energy bar, and help button.
+ * @detail Reads bankBalance, score and realtimeStatus from CyberContext, displays energy percentage, toggles AboutPortal.
  */
-import React, { useState, useEffect } from "react";
-import { PlayerService } from "../../../services/PlayerService";
+import React from "react";
+import { useCyber } from "../../../context/CyberContext";
+import type { RealtimeStatus } from "../../../services/RealtimeService";
 import "../../../styles/ui/MenuBar.css";
 
+/** Indicator labels for each connection state. */
+const CONNECTION_LABELS: Record<RealtimeStatus["connection"], string> = {
+    offline: "Offline",
+    connecting: "Connecting",
+    live: "Live",
+    reconnecting: "Reconnecting",
+};
+
+/** Display names for each transport. */
+const TRANSPORT_LABELS: Record<NonNullable<RealtimeStatus["transport"]>, string> = {
+    websocket: "WebSocket",
+    sse: "event stream",
+    poll: "polling",
+};
+
 /**
  * MenuBar component rendering the top navigation.
  * @param {Object} props - Component props.
  * @param {function} props.onTaxiClick - Handler for taxi icon click to open TaxiMenu.
- * @param {boolean} props.isLoggedIn - Login state from CyberMain.
  * @returns {JSX.Element} The rendered menu bar.
  * @description Uses a grid layout for logo, stats, and energy/help sections.
  */
-const MenuBar = ({
-    onTaxiClick,
-    isLoggedIn,
-}: {
-    onTaxiClick: (e: React.MouseEvent) => void;
-    isLoggedIn: boolean;
-}) => {
-    const [bankBalance, setBankBalance] = useState(50000); // Default placeholder
-    const [score, setScore] = useState(1000); // Default placeholder
+const MenuBar = ({ onTaxiClick }: { onTaxiClick: (e: React.MouseEvent) => void }) => {
+    const { bankBalance, score, realtimeStatus } = useCyber(); // Fetched by CyberProvider on login
+    const { connection, transport } = realtimeStatus;
+    const connectionTitle = transport
+        ? `Vehicle updates: ${CONNECTION_LABELS[connection]} (${TRANSPORT_LABELS[transport]})`
+        : `Vehicle updates: ${CONNECTION_LABELS[connection]}`;
     const energy = 75; // Static placeholder energy percentage
 
-    // Fetch player stats on mount and isLoggedIn change
-    useEffect(() => {
-        const fetchPlayerStats = async () => {
-            if (!isLoggedIn || !localStorage.getItem("username")) {
-                console.log("MenuBar: Skipping stats fetch, not logged in or no username");
-                setBankBalance(50000);
-                setScore(1000);
-                return;
-            }
-            try {
-                const stats = await PlayerService.getPlayerStats();
-                setBankBalance(stats.bankBalance);
-                setScore(stats.score);
-                console.log("MenuBar: Fetched player stats:", stats);
-            } catch (error) {
-                console.error("MenuBar: Error fetching player stats:", error);
-                setBankBalance(50000);
-                setScore(1000);
-            }
-        };
-        fetchPlayerStats();
-    }, [isLoggedIn]);
-
     const handleHelpClick = (e: React.MouseEvent) => {
         e.stopPropagation();
         if ((window as any).toggleAboutWindow) {
@@ -79,6 +68,10 @@ const MenuBar = ({
                 </div>
             </div>
             <div className="energy-help">
+                <div className={`connection-indicator connection-${connection}`} title={connectionTitle} role="status" aria-label={connectionTitle}>
+                    <span className="connection-dot" />
+                    <span>{CONNECTION_LABELS[connection]}</span>
+                </div>
                 <div className="energy">
                     <span>Energy</span>
                     <div className="energy-bar" role="progressbar" aria-valuenow={energy} aria-valuemin={0} aria-valuemax={100} aria-label="Energy level">
@@ -0,0 +1,61 @@
+// src/components/ui/controls/NotificationToasts.tsx
+/**
+ * @file NotificationToasts.tsx
+ * @description Toast stack for CyberTaxi in-game notifications (vehicle deliveries and other events).
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.2.0
+ * @note Subscribes to NotificationService; mounted once in CyberMain above the map.
+ * @detail Newest first in the top-right corner under MenuBar; a toast closes on its button or by itself after a while.
+ *         A toast with actions shows them as buttons under its message and stays until one is picked or it is closed.
+ */
+import React, { useEffect, useState } from "react";
+import { NotificationService } from "../../../services/NotificationService";
+import type { GameNotification } from "../../../services/NotificationService";
+import "../../../styles/ui/Notifications.css";
+
+/**
+ * Renders the active notifications.
+ * @returns {JSX.Element | null} The toast stack, or null when there is nothing to show.
+ */
+export const NotificationToasts: React.FC = () => {
+    const [notifications, setNotifications] = useState<GameNotification[]>(NotificationService.getActive());
+
+    useEffect(() => NotificationService.subscribe(setNotifications), []);
+
+    if (notifications.length === 0) {
+        return null;
+    }
+    return (
+        <div className="notification-toasts" role="status" aria-live="polite" onClick={(e) => e.stopPropagation()}>
+            {notifications.map((notification) => (
+                <div key={notification.id} className="notification-toast">
+                    <i className={`fas ${notification.icon}`} aria-hidden="true"></i>
+                    <div className="notification-body">
+                        <strong>{notification.title}</strong>
+                        <span>{notification.message}</span>
+                        {notification.actions.length > 0 && (
+                            <div className="notification-actions">
+                                {notification.actions.map((action, index) => (
+                                    <button
+                                        key={action.label}
+                                        className="notification-action"
+                                        onClick={() => NotificationService.act(notification.id, index)}
+                                    >
+                                        {action.label}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                    <button
+                        className="notification-close"
+                        onClick={() => NotificationService.dismiss(notification.id)}
+                        aria-label="Dismiss notification"
+                    >
+                        ×
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -3,11 +3,13 @@
  * @file TaxiMenu.tsx
  * @description Context menu component for CyberTaxi top menu (TaxiMenu) interactions.
   * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
- * @version 0.2.20
+ * @version 0.2.29
  * @note Replaces PopupMenu with a top-menu-specific menu, supporting Login/Logout, Register, and Settings based on login state.
- * @detail Displays 'Logout, Settings' when logged in, 'Login, Register, Settings' when not. Includes Settings sub-menu with Reset Password on hover.
+ * @detail Displays 'Fleet, Dispatch, Tesla, Realtor, Staff, City Hall, Weather, Logout, Settings' when logged in, 'Login, Register, Settings' when not. Includes Settings sub-menu with Reset Password on hover,
+ *         plus Diagnostics in development builds.
  */
 import React, { useEffect, useRef, useState } from "react";
+import { useCyber } from "../../../context/CyberContext";
 import "../../../styles/ui/PopupMenu.css"; // Corrected path
 
 /**
@@ -27,7 +29,6 @@ interface TaxiMenuProps {
     isOpen: boolean;
     onClose: () => void;
     position: { x: number; y: number };
-    isLoggedIn: boolean; // Determines menu items
     onItemSelect: (action: string) => void;
 }
 
@@ -35,26 +36,18 @@ interface TaxiMenuProps {
  * Renders the TaxiMenu with context-sensitive items for the top menu.
  * @param props - Component props.
  * @returns {JSX.Element} The rendered TaxiMenu UI.
- * @description Displays Login, Register, Settings when logged out; Logout, Settings when logged in, with Reset Password sub-menu.
+ * @description Displays Login, Register, Settings when logged out; Fleet, Dispatch, Logout, Settings when logged in, with Reset Password sub-menu.
  */
 export const TaxiMenu: React.FC<TaxiMenuProps> = ({
     isOpen,
     onClose,
     position,
-    isLoggedIn,
     onItemSelect,
 }) => {
+    const { isLoggedIn } = useCyber(); // Determines menu items
     const menuRef = useRef<HTMLDivElement>(null);
     const [showSettingsSubMenu, setShowSettingsSubMenu] = useState(false);
 
-    // Sync isLoggedIn with localStorage on mount
-    useEffect(() => {
-        const token = localStorage.getItem("jwt_token");
-        if (token !== isLoggedIn.toString()) {
-            console.log("TaxiMenu: Syncing isLoggedIn with localStorage, token:", !!token);
-        }
-    }, [isLoggedIn]);
-
     // Handle outside click to close menu
     useEffect(() => {
         const handleOutsideClick = (e: MouseEvent) => {
@@ -77,6 +70,13 @@ export const TaxiMenu: React.FC<TaxiMenuProps> = ({
     // Dynamic items based on login state
     const menuItems: MenuItem[] = isLoggedIn
         ? [
+              { label: "Fleet", action: "fleet" },
+              { label: "Dispatch", action: "dispatch" },
+              { label: "Tesla", action: "tesla" },
+              { label: "Realtor", action: "realtor" },
+              { label: "Staff", action: "agency" },
+              { label: "City Hall", action: "cityhall" },
+              { label: "Weather", action: "weather" },
               { label: "Logout", action: "logout" },
               { label: "Settings", action: "settings" },
           ]
@@ -85,7 +85,10 @@ export const TaxiMenu: React.FC<TaxiMenuProps> = ({
               { label: "Register", action: "register" },
               { label: "Settings", action: "settings" },
           ];
-    const settingsSubMenuItems: MenuItem[] = [{ label: "Reset Password", action: "reset-password" }];
+    const settingsSubMenuItems: MenuItem[] = [
+        { label: "Reset Password", action: "reset-password" },
+        ...(import.meta.env.DEV ? [{ label: "Diagnostics", action: "diagnostics" }] : []),
+    ];
 
     return (
         <div
@@ -3,9 +3,27 @@
  * @file apiConfig.ts
  * @description Configuration file for CyberTaxi API endpoints.
  * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
- * @version 0.1.0
+ * @version 0.1.5
  * @note Centralizes the base URL for easy updates (e.g., localhost to production).
+ * @detail MOCK_PASSWORD_RESET (VITE_MOCK_PASSWORD_RESET=true) routes the reset flow to MockPasswordResetBackend for offline testing.
+ *         REALTIME_WS_URL (VITE_REALTIME_WS_URL) enables the WebSocket transport in RealtimeService; without it the
+ *         service streams over SSE from BASE_URL and falls back to polling every REALTIME_POLL_MS.
+ *         FARE_SIMULATION (VITE_FARE_SIMULATION=false to disable) runs the client-side fare engine while logged in;
+ *         FARE_SEED (VITE_FARE_SEED) replays a fixed run, otherwise every session gets a fresh seed.
+ *         ROAD_GRAPH_URL is the offline road graph loaded by RoutingService's worker, served from public/data.
+ *         WEATHER_PROVIDER (VITE_WEATHER_PROVIDER=fixture for offline runs) picks WeatherService's source: Open-Meteo at
+ *         WEATHER_URL by default, or the deterministic fixture, seeded by FARE_SEED when set. Forecasts are cached for
+ *         WEATHER_REFRESH_MS, the GDD's 15 minutes.
  */
 export const API_CONFIG = {
     BASE_URL: "http://localhost:3000/api",
+    MOCK_PASSWORD_RESET: import.meta.env.VITE_MOCK_PASSWORD_RESET === "true",
+    REALTIME_WS_URL: (import.meta.env.VITE_REALTIME_WS_URL as string | undefined) || null,
+    REALTIME_POLL_MS: 5000,
+    FARE_SIMULATION: import.meta.env.VITE_FARE_SIMULATION !== "false",
+    FARE_SEED: Number.parseInt(import.meta.env.VITE_FARE_SEED ?? "", 10) || null,
+    ROAD_GRAPH_URL: `${import.meta.env.BASE_URL}data/austin-roads.json`,
+    WEATHER_PROVIDER: (import.meta.env.VITE_WEATHER_PROVIDER === "fixture" ? "fixture" : "open-meteo") as "fixture" | "open-meteo",
+    WEATHER_URL: "https://api.open-meteo.com/v1/forecast",
+    WEATHER_REFRESH_MS: 15 * 60 * 1000,
 };
@@ -1,18 +1,47 @@
 // src/context/CyberContext.ts
 /**
  * @file CyberContext.ts
- * @description Context for managing global state in CyberTaxi (e.g., login status, username).
+ * @description Context for managing global state in CyberTaxi (auth session, player identity, bank balance and score).
  * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
- * @version 0.1.11
+ * @version 0.2.7
  * @note Provides a centralized state provider and custom hook, using React.createElement as a workaround for JSX parsing issues.
+ * @detail Single source of truth for login state: owns token, player_id, username and stats, exposes login/signup/logout
+ *         actions backed by LoginService, resumes the SessionService session on mount, and syncs across tabs via the storage event.
+ *         Runs RealtimeService while logged in and exposes its connection state as realtimeStatus.
+ *         Fares, charges and maintenance the simulation completes are reported through LedgerService, and bankBalance
+ *         and score follow the server's answer, so every purchase check reads the balance the server holds; the queue
+ *         is flushed at login.
  */
-import React, { createContext, useContext, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
 import type { ReactNode } from 'react'; // Type-only import
+import { LedgerService } from '../services/LedgerService';
+import { LoginService } from '../services/LoginService';
+import { PlayerService } from '../services/PlayerService';
+import { RealtimeService } from '../services/RealtimeService';
+import type { RealtimeStatus } from '../services/RealtimeService';
+import { SessionService } from '../services/SessionService';
+
+/** Placeholder stats shown while logged out or when the stats request fails. */
+const DEFAULT_BANK_BALANCE = 50000;
+const DEFAULT_SCORE = 1000;
+
+/** localStorage keys that, when changed in another tab, require a resync. */
+const SYNC_KEYS = ['jwt_token', 'username', 'player_id'];
 
 // Define the state interface
 interface CyberState {
     isLoggedIn: boolean;
+    token: string | null;
+    playerId: number | null;
     username: string | null;
+    email: string | null; // Last email used to register, for form pre-fill
+    bankBalance: number;
+    score: number;
+    realtimeStatus: RealtimeStatus;
+    login: (username: string, password: string) => Promise<void>;
+    signup: (username: string, email: string, password: string) => Promise<void>;
+    logout: () => void;
+    refreshStats: () => Promise<void>;
     setAuth: (loggedIn: boolean, username?: string) => void;
 }
 
@@ -27,33 +56,223 @@ interface CyberProviderProps {
     children: ReactNode;
 }
 
+/**
+ * Reads the stored player_id.
+ * @returns {number | null} Parsed player_id, or null if absent or malformed.
+ */
+const readPlayerId = (): number | null => {
+    const stored = parseInt(localStorage.getItem('player_id') || '', 10);
+    return Number.isNaN(stored) ? null : stored;
+};
+
+/**
+ * Reads the email saved in registerData.
+ * @returns {string | null} Stored email, or null if absent or malformed.
+ */
+const readEmail = (): string | null => {
+    try {
+        const saved = localStorage.getItem('registerData');
+        return saved ? JSON.parse(saved).email || null : null;
+    } catch {
+        return null;
+    }
+};
+
 /**
  * Provider component for CyberTaxi global state.
  * @param {CyberProviderProps} props - Component props.
  * @returns {JSX.Element} The context provider with children.
- * @description Manages isLoggedIn and username, syncing with localStorage, using React.createElement.
+ * @description Only this provider and SessionService touch auth keys in localStorage; components consume useCyber().
  */
 export const CyberProvider = ({ children }: CyberProviderProps) => {
     console.log('CyberProvider initializing'); // Debug: Check initialization
-    const [isLoggedIn, setIsLoggedIn] = useState(!!localStorage.getItem('jwt_token'));
-    const [username, setUsername] = useState(localStorage.getItem('username') || null);
+    const [token, setToken] = useState<string | null>(SessionService.getToken());
+    const [playerId, setPlayerId] = useState<number | null>(readPlayerId());
+    const [username, setUsername] = useState<string | null>(localStorage.getItem('username') || null);
+    const [email, setEmail] = useState<string | null>(readEmail());
+    const [bankBalance, setBankBalance] = useState(DEFAULT_BANK_BALANCE);
+    const [score, setScore] = useState(DEFAULT_SCORE);
+    const [realtimeStatus, setRealtimeStatus] = useState<RealtimeStatus>(RealtimeService.getStatus());
+    const isLoggedIn = !!token && !!username;
 
-    const setAuth = (loggedIn: boolean, username?: string) => {
-        console.log(`Setting auth: loggedIn=${loggedIn}, username=${username}`); // Debug: Track auth
-        setIsLoggedIn(loggedIn);
-        setUsername(username || null);
+    /**
+     * Low-level auth setter. setAuth(false) ends the session; setAuth(true, username) adopts the session
+     * SessionService already holds (token storage belongs to SessionService).
+     */
+    const setAuth = useCallback((loggedIn: boolean, name?: string) => {
+        console.log(`Setting auth: loggedIn=${loggedIn}, username=${name}`); // Debug: Track auth
         if (!loggedIn) {
-            localStorage.removeItem('jwt_token');
+            SessionService.clear();
             localStorage.removeItem('username');
-        } else if (username) {
-            localStorage.setItem('username', username);
-            localStorage.setItem('jwt_token', 'dummy_token'); // Placeholder
+            localStorage.removeItem('player_id');
+            localStorage.removeItem('registerData');
+            setToken(null);
+            setPlayerId(null);
+            setUsername(null);
+            setEmail(null);
+            setBankBalance(DEFAULT_BANK_BALANCE);
+            setScore(DEFAULT_SCORE);
+            LedgerService.stop();
+            return;
+        }
+        if (name) {
+            localStorage.setItem('username', name);
+            setUsername(name);
+        }
+        setToken(SessionService.getToken());
+        setPlayerId(readPlayerId());
+    }, []);
+
+    /**
+     * Stores identity after a successful login or signup.
+     * @param name - Username.
+     * @param result - LoginService result.
+     * @param registerEmail - Email to remember for form pre-fill.
+     */
+    const adopt = (name: string, result: { token: string; player_id?: number }, registerEmail: string | null) => {
+        if (result.player_id) {
+            localStorage.setItem('player_id', result.player_id.toString());
+        }
+        if (registerEmail) {
+            localStorage.setItem('registerData', JSON.stringify({ username: name, email: registerEmail }));
+            setEmail(registerEmail);
         }
+        setAuth(true, name);
     };
 
+    const login = useCallback(async (name: string, password: string) => {
+        const result = await LoginService.login(name, password);
+        if (!result) {
+            throw new Error('Login failed');
+        }
+        adopt(name, result, readEmail());
+        console.log('CyberProvider: Logged in as', name);
+    }, [setAuth]);
+
+    const signup = useCallback(async (name: string, registerEmail: string, password: string) => {
+        const result = await LoginService.signup(name, registerEmail, password);
+        if (!result) {
+            throw new Error('Signup failed');
+        }
+        adopt(name, result, registerEmail);
+        console.log('CyberProvider: Signed up as', name);
+    }, [setAuth]);
+
+    const logout = useCallback(() => {
+        SessionService.revoke();
+        setAuth(false);
+        console.log('CyberProvider: Logged out');
+    }, [setAuth]);
+
+    const refreshStats = useCallback(async () => {
+        if (!isLoggedIn || !username) {
+            setBankBalance(DEFAULT_BANK_BALANCE);
+            setScore(DEFAULT_SCORE);
+            return;
+        }
+        const stats = await PlayerService.getPlayerStats(username);
+        setBankBalance(stats.bankBalance);
+        setScore(stats.score);
+        console.log('CyberProvider: Fetched player stats:', stats);
+    }, [isLoggedIn, username]);
+
+    // The server's balance and score after every ledger report
+    useEffect(
+        () =>
+            LedgerService.onStats((stats) => {
+                setBankBalance(stats.bankBalance);
+                setScore(stats.score);
+            }),
+        []
+    );
+
+    // Force a clean logout when SessionService cannot refresh the token; track rotated tokens
+    useEffect(() => {
+        const unsubscribeExpired = SessionService.onExpired(() => {
+            console.log('CyberProvider: Session expired, logging out');
+            setAuth(false);
+        });
+        const unsubscribeRefreshed = SessionService.onRefreshed((next) => {
+            setToken(next);
+            setPlayerId(readPlayerId());
+        });
+        SessionService.resume().then((active) => {
+            if (!active && localStorage.getItem('username')) {
+                setAuth(false);
+            }
+        });
+        return () => {
+            unsubscribeExpired();
+            unsubscribeRefreshed();
+        };
+    }, [setAuth]);
+
+    // Cross-tab sync: another tab logged in, out, or refreshed the token
+    useEffect(() => {
+        const handleStorage = (e: StorageEvent) => {
+            if (e.key !== null && !SYNC_KEYS.includes(e.key)) {
+                return;
+            }
+            const nextToken = SessionService.getToken();
+            const nextUsername = localStorage.getItem('username');
+            console.log('CyberProvider: Syncing from storage, username:', nextUsername || 'none');
+            if (!nextToken || !nextUsername) {
+                setAuth(false);
+                return;
+            }
+            void SessionService.resume(); // Re-arm this tab's refresh timer for the new expiry
+            setAuth(true, nextUsername);
+            setEmail(readEmail());
+        };
+        window.addEventListener('storage', handleStorage);
+        return () => {
+            window.removeEventListener('storage', handleStorage);
+        };
+    }, [setAuth]);
+
+    // Live vehicle updates for the logged-in session
+    useEffect(() => RealtimeService.onStatus(setRealtimeStatus), []);
+    useEffect(() => {
+        if (!isLoggedIn) {
+            return;
+        }
+        RealtimeService.start();
+        return () => {
+            RealtimeService.stop();
+        };
+    }, [isLoggedIn]);
+
+    // Fetch balance/score whenever the logged-in player changes
+    useEffect(() => {
+        refreshStats();
+    }, [refreshStats]);
+
+    // Report fares left queued by an earlier session or outage
+    useEffect(() => {
+        if (isLoggedIn) {
+            void LedgerService.flush();
+        }
+    }, [isLoggedIn]);
+
     return React.createElement(
         CyberContext.Provider,
-        { value: { isLoggedIn, username, setAuth } },
+        {
+            value: {
+                isLoggedIn,
+                token,
+                playerId,
+                username,
+                email,
+                bankBalance,
+                score,
+                realtimeStatus,
+                login,
+                signup,
+                logout,
+                refreshStats,
+                setAuth,
+            },
+        },
         children
     );
 };
@@ -68,4 +287,4 @@ export const useCyber = (): CyberState => {
     const context = useContext(CyberContext);
     if (!context) throw new Error('useCyber must be used within CyberProvider');
     return context;
-};
\ No newline at end of file
+};
@@ -0,0 +1,101 @@
+// src/domain/ChargingSites.ts
+/**
+ * @file ChargingSites.ts
+ * @description Public Tesla SuperCharger sites in Austin that CyberTaxi vehicles can charge at.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note The GDD ties charging to six real SuperCharger sites in Austin; coordinates are approximate (parking lot
+ *       centroids) and stall counts and prices are game values within the GDD's $0.25–$0.50/kWh range.
+ * @detail Used by the charger map layer (components/mapping/ChargerMarkers.ts) and by FareEngine, which tracks stall
+ *         occupancy and queues per site.
+ */
+import { distanceKm } from "./Zones";
+
+export type SuperchargerType = "v2" | "v3" | "v4";
+
+/**
+ * A SuperCharger site.
+ * @interface ChargingSite
+ */
+export interface ChargingSite {
+    id: string;
+    name: string;
+    address: string;
+    coords: [number, number]; // [lat, lng]
+    charger: SuperchargerType;
+    stalls: number;
+    pricePerKwh: number;
+}
+
+export const CHARGING_SITES: readonly ChargingSite[] = [
+    {
+        id: "SC-DOMAIN",
+        name: "The Domain",
+        address: "11410 Century Oaks Terrace",
+        coords: [30.4019, -97.7249],
+        charger: "v3",
+        stalls: 12,
+        pricePerKwh: 0.38,
+    },
+    {
+        id: "SC-ANDERSON",
+        name: "Anderson Lane",
+        address: "2525 W Anderson Ln",
+        coords: [30.3566, -97.7316],
+        charger: "v2",
+        stalls: 8,
+        pricePerKwh: 0.28,
+    },
+    {
+        id: "SC-MUELLER",
+        name: "Mueller",
+        address: "1801 E 51st St",
+        coords: [30.3013, -97.7046],
+        charger: "v3",
+        stalls: 8,
+        pricePerKwh: 0.36,
+    },
+    {
+        id: "SC-BARTON",
+        name: "Barton Creek Square",
+        address: "2901 S Capital of Texas Hwy",
+        coords: [30.2576, -97.8071],
+        charger: "v3",
+        stalls: 10,
+        pricePerKwh: 0.4,
+    },
+    {
+        id: "SC-SOUTHPARK",
+        name: "Southpark Meadows",
+        address: "9500 S IH-35 Frontage Rd",
+        coords: [30.1631, -97.7894],
+        charger: "v2",
+        stalls: 8,
+        pricePerKwh: 0.25,
+    },
+    {
+        id: "SC-GIGA",
+        name: "Gigafactory Texas",
+        address: "1 Tesla Rd",
+        coords: [30.2216, -97.6172],
+        charger: "v4",
+        stalls: 16,
+        pricePerKwh: 0.48,
+    },
+];
+
+/**
+ * Looks up a site.
+ * @param {string} id - Site id.
+ * @returns {ChargingSite | null} Site, or null if unknown.
+ */
+export const findChargingSite = (id: string): ChargingSite | null => CHARGING_SITES.find((site) => site.id === id) ?? null;
+
+/**
+ * Sites ordered by straight-line distance from a point.
+ * @param {[number, number]} coords - [lat, lng].
+ * @param {readonly ChargingSite[]} [sites] - Sites to order; CHARGING_SITES by default.
+ * @returns {ChargingSite[]} Nearest first.
+ */
+export const sitesByDistance = (coords: [number, number], sites: readonly ChargingSite[] = CHARGING_SITES): ChargingSite[] =>
+    [...sites].sort((a, b) => distanceKm(coords, a.coords) - distanceKm(coords, b.coords));
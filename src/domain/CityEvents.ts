@@ -0,0 +1,131 @@
+// src/domain/CityEvents.ts
+/**
+ * @file CityEvents.ts
+ * @description Austin traffic and protest events for CyberTaxi: where they happen, when, and what they do to trips.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.1
+ * @note Figures from the GDD ("Environmental Factors and Events"): rush hour (7–9 AM and 4–6 PM) adds 15% route time and
+ *       5% wear; protests (5% chance a week) block an area for 1–2 hours and add 20% wear to vehicles caught in them.
+ *       Events are scheduled by simulation/CityEventScheduler.ts and drawn by components/mapping/CityEventOverlay.ts.
+ * @detail Every event covers a polygon ([lat, lng] vertices, not closed) between startsAt and endsAt (epoch ms, wall
+ *         clock). Rush hour covers RUSH_CORRIDOR, downtown and I-35; a protest covers a ring of PROTEST_RADIUS_KM around
+ *         one of PROTEST_SITES. Vehicles inside a protest crawl at PROTEST_SPEED. RUSH_WEAR and PROTEST_WEAR are read
+ *         from simulation/Wear.ts, which applies them, so messages always quote the wear the simulation charges.
+ */
+import { CALM_CONDITIONS, PROTEST_MULTIPLIER, wearMultiplier } from "../simulation/Wear";
+
+export type CityEventKind = "rush_hour" | "protest";
+
+/**
+ * A time-windowed event over an area.
+ * @interface CityEvent
+ */
+export interface CityEvent {
+    id: string; // Stable for the same seed and window, e.g. "protest-2912-capitol"
+    kind: CityEventKind;
+    area: string; // Where, for messages ("Downtown and I-35", "the Capitol")
+    polygon: [number, number][]; // [lat, lng]
+    startsAt: number; // Epoch ms
+    endsAt: number;
+}
+
+/**
+ * A place protests gather.
+ * @interface ProtestSite
+ */
+export interface ProtestSite {
+    id: string;
+    name: string;
+    coords: [number, number];
+}
+
+export const RUSH_HOURS: readonly (readonly [number, number])[] = [
+    [7, 9],
+    [16, 18],
+]; // Local hours, weekdays
+export const RUSH_ROUTE_TIME = 1.15; // Route time multiplier
+export const RUSH_TRAFFIC = 0.1; // Congestion for simulation/Wear.ts
+export const RUSH_WEAR = wearMultiplier({ ...CALM_CONDITIONS, traffic: RUSH_TRAFFIC }); // What RUSH_TRAFFIC does to wear, for messages
+export const PROTEST_CHANCE_PER_WEEK = 0.05;
+export const PROTEST_HOURS: readonly [number, number] = [1, 2];
+export const PROTEST_RADIUS_KM = 0.6;
+export const PROTEST_SPEED = 0.25; // Speed multiplier inside a protest
+export const PROTEST_WEAR = PROTEST_MULTIPLIER; // Wear multiplier inside a protest, for messages
+
+export const CITY_EVENT_LABELS: Readonly<Record<CityEventKind, { label: string; icon: string }>> = {
+    rush_hour: { label: "Rush Hour", icon: "fa-car" },
+    protest: { label: "Protest", icon: "fa-bullhorn" },
+};
+
+/** Downtown and the I-35 corridor from Hyde Park to Oltorf. */
+export const RUSH_CORRIDOR: readonly [number, number][] = [
+    [30.3095, -97.7185],
+    [30.3095, -97.7045],
+    [30.279, -97.7235],
+    [30.2335, -97.7385],
+    [30.2335, -97.7545],
+    [30.2585, -97.7565],
+    [30.2615, -97.7565],
+    [30.2795, -97.7545],
+    [30.2845, -97.7295],
+];
+
+export const PROTEST_SITES: readonly ProtestSite[] = [
+    { id: "capitol", name: "the Capitol", coords: [30.2747, -97.7404] },
+    { id: "city-hall", name: "City Hall", coords: [30.2649, -97.7471] },
+    { id: "ut-tower", name: "the UT Tower", coords: [30.2862, -97.7394] },
+    { id: "congress-bridge", name: "the Congress Avenue Bridge", coords: [30.2617, -97.7451] },
+];
+
+const KM_PER_DEGREE_LAT = 110.574;
+
+/**
+ * Ring of points around a site.
+ * @param {[number, number]} center - [lat, lng].
+ * @param {number} radiusKm - Radius.
+ * @param {number} [sides=8] - Vertices.
+ * @returns {[number, number][]} Polygon.
+ */
+export const ringAround = (center: [number, number], radiusKm: number, sides: number = 8): [number, number][] => {
+    const kmPerDegreeLng = KM_PER_DEGREE_LAT * Math.cos((center[0] * Math.PI) / 180);
+    return Array.from({ length: sides }, (_, index) => {
+        const angle = (index / sides) * 2 * Math.PI;
+        return [center[0] + (radiusKm * Math.cos(angle)) / KM_PER_DEGREE_LAT, center[1] + (radiusKm * Math.sin(angle)) / kmPerDegreeLng];
+    });
+};
+
+/**
+ * Whether a point lies inside a polygon (ray casting).
+ * @param {[number, number]} point - [lat, lng].
+ * @param {readonly [number, number][]} polygon - Vertices.
+ * @returns {boolean} True inside; points on an edge may go either way.
+ */
+export const insidePolygon = (point: [number, number], polygon: readonly [number, number][]): boolean => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const [latI, lngI] = polygon[i];
+        const [latJ, lngJ] = polygon[j];
+        if (latI > point[0] !== latJ > point[0] && point[1] < ((lngJ - lngI) * (point[0] - latI)) / (latJ - latI) + lngI) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+/**
+ * Events under way at a moment.
+ * @param {readonly CityEvent[]} events - Scheduled events.
+ * @param {number} at - Epoch ms.
+ * @returns {CityEvent[]} Events with startsAt <= at < endsAt.
+ */
+export const activeCityEvents = (events: readonly CityEvent[], at: number): CityEvent[] =>
+    events.filter((event) => event.startsAt <= at && at < event.endsAt);
+
+/**
+ * Events covering a point.
+ * @param {readonly CityEvent[]} events - Events, usually the active ones.
+ * @param {[number, number]} point - [lat, lng].
+ * @returns {CityEvent[]} Events whose polygon contains the point.
+ */
+export const cityEventsAt = (events: readonly CityEvent[], point: [number, number]): CityEvent[] =>
+    events.filter((event) => insidePolygon(point, event.polygon));
@@ -0,0 +1,80 @@
+// src/domain/Licensing.ts
+/**
+ * @file Licensing.ts
+ * @description Austin operating license for CyberTaxi: license tiers, the free tier's vehicle cap and yearly taxi permits.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Rules from the GDD ("License System"): every vehicle needs a permit at PERMIT_FEE a year, auto-applied on
+ *       purchase or delivery; the free City of Austin license covers FREE_VEHICLE_CAP vehicles, the subscriber "Taxi
+ *       License" any number. The server applies the same rules (server/utils/license-utils.js); keep them in sync.
+ * @detail A vehicle whose permit has expired, or that never had one, is unlicensed and may not take fares; the fare
+ *         simulation leaves it out of dispatch. Permits within REMINDER_DAYS of expiry are due for renewal.
+ */
+
+export type LicenseTier = "free" | "taxi_license";
+export type PermitState = "valid" | "due" | "expired" | "missing";
+
+export const PERMIT_FEE = 1000; // Dollars per vehicle per year
+export const PERMIT_TERM_DAYS = 365;
+export const FREE_VEHICLE_CAP = 10; // Vehicles the free license covers
+export const REMINDER_DAYS = 30; // Renewal reminders start this long before expiry
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const LICENSE_TIER_LABELS: Readonly<Record<LicenseTier, string>> = {
+    free: "City of Austin Taxi Permit (free)",
+    taxi_license: "Taxi License (subscriber)",
+};
+
+export const PERMIT_STATE_LABELS: Readonly<Record<PermitState, string>> = {
+    valid: "Valid",
+    due: "Renewal Due",
+    expired: "Expired",
+    missing: "No Permit",
+};
+
+/**
+ * Vehicles a license tier allows.
+ * @param {LicenseTier} tier - License tier.
+ * @returns {number | null} The cap, or null for unlimited.
+ */
+export const vehicleCap = (tier: LicenseTier): number | null => (tier === "taxi_license" ? null : FREE_VEHICLE_CAP);
+
+/**
+ * Whether a license has room for one more vehicle.
+ * @param {number | null} cap - From vehicleCap.
+ * @param {number} vehicles - Vehicles held, ordered ones included.
+ * @returns {boolean} True when unlimited or under the cap.
+ */
+export const hasRoom = (cap: number | null, vehicles: number): boolean => cap === null || vehicles < cap;
+
+/**
+ * State of a permit at a moment.
+ * @param {string | null} expiresAt - ISO expiry, or null for a vehicle without a permit.
+ * @param {Date} now - Current time.
+ * @returns {PermitState} missing, expired, due (within REMINDER_DAYS) or valid.
+ */
+export const permitState = (expiresAt: string | null, now: Date): PermitState => {
+    if (expiresAt === null) return "missing";
+    const remaining = new Date(expiresAt).getTime() - now.getTime();
+    if (remaining <= 0) return "expired";
+    return remaining <= REMINDER_DAYS * DAY_MS ? "due" : "valid";
+};
+
+/**
+ * Whether a permit lets its vehicle take fares.
+ * @param {string | null} expiresAt - ISO expiry, or null without a permit.
+ * @param {Date} now - Current time.
+ * @returns {boolean} True until the expiry passes.
+ */
+export const isLicensed = (expiresAt: string | null, now: Date): boolean => {
+    const state = permitState(expiresAt, now);
+    return state === "valid" || state === "due";
+};
+
+/**
+ * Whole days until a permit expires.
+ * @param {string} expiresAt - ISO expiry.
+ * @param {Date} now - Current time.
+ * @returns {number} Days left, rounded up; 0 or less once expired.
+ */
+export const daysUntil = (expiresAt: string, now: Date): number => Math.ceil((new Date(expiresAt).getTime() - now.getTime()) / DAY_MS);
@@ -0,0 +1,42 @@
+// src/domain/LocalTime.test.ts
+/**
+ * @file LocalTime.test.ts
+ * @description Unit tests for Austin wall-clock time across the daylight saving changes.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note 2025 clock changes in Austin: 9 March 2:00 AM CST to 3:00 AM CDT, 2 November 2:00 AM CDT back to 1:00 AM CST.
+ */
+import { describe, expect, it } from "vitest";
+import { austinUtcOffsetHours, fromAustinWallClock, toAustinWallClock } from "./LocalTime";
+
+describe("austinUtcOffsetHours", () => {
+    it("is UTC-6 in winter and UTC-5 in summer", () => {
+        expect(austinUtcOffsetHours(Date.UTC(2025, 0, 15, 12))).toBe(-6);
+        expect(austinUtcOffsetHours(Date.UTC(2025, 6, 15, 12))).toBe(-5);
+    });
+
+    it("changes at 2:00 AM local on the transition days", () => {
+        expect(austinUtcOffsetHours(Date.UTC(2025, 2, 9, 7, 59))).toBe(-6);
+        expect(austinUtcOffsetHours(Date.UTC(2025, 2, 9, 8))).toBe(-5);
+        expect(austinUtcOffsetHours(Date.UTC(2025, 10, 2, 6, 59))).toBe(-5);
+        expect(austinUtcOffsetHours(Date.UTC(2025, 10, 2, 7))).toBe(-6);
+    });
+});
+
+describe("toAustinWallClock and fromAustinWallClock", () => {
+    it("read an instant as Austin's clock", () => {
+        expect(new Date(toAustinWallClock(Date.UTC(2025, 0, 15, 14))).toISOString()).toBe("2025-01-15T08:00:00.000Z");
+        expect(new Date(toAustinWallClock(Date.UTC(2025, 6, 15, 14))).toISOString()).toBe("2025-07-15T09:00:00.000Z");
+    });
+
+    it("round-trip outside the clock changes", () => {
+        [Date.UTC(2025, 0, 15, 7), Date.UTC(2025, 6, 15, 7), Date.UTC(2025, 11, 31, 23, 30)].forEach((wall) => {
+            expect(toAustinWallClock(fromAustinWallClock(wall))).toBe(wall);
+        });
+    });
+
+    it("resolve 7:00 AM to the right instant in both seasons", () => {
+        expect(fromAustinWallClock(Date.UTC(2025, 0, 15, 7))).toBe(Date.UTC(2025, 0, 15, 13));
+        expect(fromAustinWallClock(Date.UTC(2025, 6, 15, 7))).toBe(Date.UTC(2025, 6, 15, 12));
+    });
+});
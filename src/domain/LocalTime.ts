@@ -0,0 +1,62 @@
+// src/domain/LocalTime.ts
+/**
+ * @file LocalTime.ts
+ * @description Austin wall-clock time for CyberTaxi, with daylight saving.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Austin keeps Central time (America/Chicago): UTC-6 in winter (CST) and UTC-5 from March to November (CDT).
+ *       The offset comes from Intl for the instant asked about, so schedules and the weather fixture follow the
+ *       clock change on their own.
+ * @detail A wall-clock value is epoch ms shifted by the offset, so its UTC fields read as Austin's clock:
+ *         Math.floor(toAustinWallClock(at) / DAY_MS) is the local day and the remainder the local time of day.
+ *         fromAustinWallClock turns one back; a time skipped in spring resolves to the hour before, and a time repeated
+ *         in the autumn to its first occurrence.
+ */
+
+export const AUSTIN_TIME_ZONE = "America/Chicago";
+
+const HOUR_MS = 3600000;
+const MINUTE_MS = 60000;
+
+const wallClockFormat = new Intl.DateTimeFormat("en-US", {
+    timeZone: AUSTIN_TIME_ZONE,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+});
+
+/**
+ * Austin's UTC offset at an instant.
+ * @param {number} at - Epoch ms.
+ * @returns {number} Hours: -6 in CST, -5 in CDT.
+ */
+export const austinUtcOffsetHours = (at: number): number => {
+    const parts: Record<string, number> = {};
+    wallClockFormat.formatToParts(at).forEach((part) => {
+        parts[part.type] = Number(part.value);
+    });
+    const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    const second = Math.floor(at / 1000) * 1000;
+    return Math.round((wall - second) / MINUTE_MS) / 60;
+};
+
+/**
+ * Shifts an instant to Austin's wall clock.
+ * @param {number} at - Epoch ms.
+ * @returns {number} Ms whose UTC fields read as the time in Austin.
+ */
+export const toAustinWallClock = (at: number): number => at + austinUtcOffsetHours(at) * HOUR_MS;
+
+/**
+ * Instant at which Austin's clock shows a wall-clock time.
+ * @param {number} wall - Ms whose UTC fields read as the time in Austin.
+ * @returns {number} Epoch ms.
+ */
+export const fromAustinWallClock = (wall: number): number => {
+    const guess = wall - austinUtcOffsetHours(wall) * HOUR_MS;
+    return wall - austinUtcOffsetHours(guess) * HOUR_MS;
+};
@@ -0,0 +1,67 @@
+// src/domain/Orders.ts
+/**
+ * @file Orders.ts
+ * @description New vehicle orders for CyberTaxi: order states and delivery times from the Tesla Service Center.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.2.0
+ * @note Figures from the GDD ("Buying Vehicles"): the service center receives 3–8 vehicles a day at random times; a
+ *       vehicle in stock is handed over the same day, otherwise it arrives in 2–3 days. Vehicles are delivered only to
+ *       garages, never to lots. Models and prices are in the vehicle catalog (VehicleCatalog.ts).
+ * @detail An order moves placed (or awaiting_stock when nothing was in stock) → in_transit → delivered by its ships_at
+ *         and deliver_at times, which the server sets when the order is placed; orderStatus derives the state for a
+ *         live countdown between polls. Keep PREP_MS, TRANSIT_MS and BACKORDER_DAYS in sync with
+ *         server/routes/orders/orders.js, which owns the stock and the order rows.
+ */
+
+export type OrderStatus = "placed" | "awaiting_stock" | "in_transit" | "delivered";
+
+export const DAILY_STOCK_RANGE: readonly [number, number] = [3, 8]; // Vehicles the service center receives per day
+export const PREP_MS = 60 * 60 * 1000; // An in-stock vehicle is prepared for handover
+export const TRANSIT_MS = 2 * 60 * 60 * 1000; // Drive from the service center to the garage
+export const BACKORDER_DAYS: readonly [number, number] = [2, 3]; // Delivery when nothing is in stock
+
+export const ORDER_STATUS_LABELS: Readonly<Record<OrderStatus, string>> = {
+    placed: "Preparing",
+    awaiting_stock: "Awaiting Stock",
+    in_transit: "In Transit",
+    delivered: "Delivered",
+};
+
+/**
+ * The times that decide an order's state.
+ * @interface OrderTimes
+ */
+export interface OrderTimes {
+    from_stock: boolean;
+    ships_at: string; // ISO
+    deliver_at: string; // ISO
+}
+
+/**
+ * An order's state at a moment.
+ * @param order - from_stock, ships_at and deliver_at.
+ * @param now - Current time.
+ * @returns {OrderStatus} The state; the server confirms delivered when orders are fetched.
+ */
+export const orderStatus = (order: OrderTimes, now: Date): OrderStatus => {
+    if (now.getTime() >= new Date(order.deliver_at).getTime()) return "delivered";
+    if (now.getTime() >= new Date(order.ships_at).getTime()) return "in_transit";
+    return order.from_stock ? "placed" : "awaiting_stock";
+};
+
+/**
+ * Time left until a moment, for the delivery countdown.
+ * @param until - ISO time.
+ * @param now - Current time.
+ * @returns {string} "2d 4h", "3h 12m", "5m 09s" or "Arriving".
+ */
+export const formatCountdown = (until: string, now: Date): string => {
+    const seconds = Math.floor((new Date(until).getTime() - now.getTime()) / 1000);
+    if (seconds <= 0) return "Arriving";
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    return `${minutes}m ${String(seconds % 60).padStart(2, "0")}s`;
+};
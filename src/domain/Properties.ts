@@ -0,0 +1,251 @@
+// src/domain/Properties.ts
+/**
+ * @file Properties.ts
+ * @description Garage and lot listings across Austin that players can lease or buy, with demand-based pricing.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.3
+ * @note The GDD's garages and lots: a garage stores and charges vehicles indoors, a lot is cheaper open parking. A
+ *       property's slots are what it adds to the player's fleet capacity (/api/player/:username/slots); its other
+ *       parking spaces are for staff and visitors. Addresses are real streets; sizes and prices are game values.
+ * @detail Rent follows demand: propertyDemand falls off with the distance to the busiest dispatch zones (Zones.ts), and
+ *         the monthly rent scales from DEMAND_FLOOR to DEMAND_FLOOR + DEMAND_SPAN of the base rate. Leases are paid up
+ *         front per term (quarterly 5% off, yearly 10% off); buying costs PURCHASE_MONTHS of rent. Keep LEASE_TERMS,
+ *         PURCHASE_MONTHS and PROPERTY_RESALE_RATE, the listings and the rent rules in sync with server/utils/property-utils.js, which bills them.
+ */
+import { DISPATCH_ZONES, distanceKm } from "./Zones";
+import { toCents } from "../utils/money";
+
+export type PropertyType = "garage" | "lot";
+export type LeaseTerm = "monthly" | "quarterly" | "yearly";
+export type PropertyTenure = "lease" | "own";
+export type DemandLevel = "low" | "medium" | "high";
+
+/**
+ * A garage or lot on the market.
+ * @interface PropertyListing
+ */
+export interface PropertyListing {
+    id: string;
+    name: string;
+    address: string;
+    area: string; // Neighbourhood, for filters
+    coords: [number, number]; // [lat, lng]
+    type: PropertyType;
+    sizeSqft: number;
+    slots: number; // Fleet vehicles it holds
+    parkingSpaces: number; // Staff and visitor spaces, not fleet slots
+    chargers: number; // Home Wall Connectors
+}
+
+/**
+ * A lease length and its discount.
+ * @interface LeaseTermSpec
+ */
+export interface LeaseTermSpec {
+    id: LeaseTerm;
+    label: string;
+    months: number;
+    discount: number; // Share off the monthly rent
+}
+
+export const LEASE_TERMS: Readonly<Record<LeaseTerm, LeaseTermSpec>> = {
+    monthly: { id: "monthly", label: "Monthly", months: 1, discount: 0 },
+    quarterly: { id: "quarterly", label: "Quarterly", months: 3, discount: 0.05 },
+    yearly: { id: "yearly", label: "Yearly", months: 12, discount: 0.1 },
+};
+
+export const PURCHASE_MONTHS = 100; // Purchase price in months of rent
+export const PROPERTY_RESALE_RATE = 0.9; // Share of the purchase price refunded on sale
+const SLOT_RATE: Readonly<Record<PropertyType, number>> = { garage: 260, lot: 120 }; // Dollars per slot per month
+const SPACE_RATE = 40; // Per staff/visitor space
+const CHARGER_RATE = 30; // Per Home Wall Connector
+const DEMAND_FLOOR = 0.7;
+const DEMAND_SPAN = 0.8;
+const DEMAND_FALLOFF_KM = 2; // Demand falls to 37% this far from a zone center
+
+export const PROPERTY_LISTINGS: readonly PropertyListing[] = [
+    {
+        id: "P-CONGRESS",
+        name: "Congress Avenue Garage",
+        address: "601 Congress Ave",
+        area: "Downtown",
+        coords: [30.2682, -97.7427],
+        type: "garage",
+        sizeSqft: 4200,
+        slots: 5,
+        parkingSpaces: 4,
+        chargers: 5,
+    },
+    {
+        id: "P-RAINEY",
+        name: "Rainey Street Lot",
+        address: "70 Rainey St",
+        area: "Downtown",
+        coords: [30.2586, -97.7387],
+        type: "lot",
+        sizeSqft: 6500,
+        slots: 12,
+        parkingSpaces: 6,
+        chargers: 0,
+    },
+    {
+        id: "P-DRAG",
+        name: "The Drag Garage",
+        address: "2222 Guadalupe St",
+        area: "University",
+        coords: [30.2866, -97.7421],
+        type: "garage",
+        sizeSqft: 3600,
+        slots: 4,
+        parkingSpaces: 2,
+        chargers: 4,
+    },
+    {
+        id: "P-SOCO",
+        name: "South Congress Garage",
+        address: "1500 S Congress Ave",
+        area: "South Congress",
+        coords: [30.2494, -97.7497],
+        type: "garage",
+        sizeSqft: 5000,
+        slots: 6,
+        parkingSpaces: 4,
+        chargers: 4,
+    },
+    {
+        id: "P-EAST6",
+        name: "East Sixth Lot",
+        address: "1900 E 6th St",
+        area: "East Austin",
+        coords: [30.2627, -97.7227],
+        type: "lot",
+        sizeSqft: 8000,
+        slots: 15,
+        parkingSpaces: 5,
+        chargers: 2,
+    },
+    {
+        id: "P-MUELLER",
+        name: "Mueller Depot",
+        address: "4500 Mueller Blvd",
+        area: "East Austin",
+        coords: [30.2985, -97.7068],
+        type: "garage",
+        sizeSqft: 9000,
+        slots: 10,
+        parkingSpaces: 8,
+        chargers: 10,
+    },
+    {
+        id: "P-DOMAIN",
+        name: "Domain Parking Deck",
+        address: "11601 Alterra Pkwy",
+        area: "North Austin",
+        coords: [30.4036, -97.7223],
+        type: "garage",
+        sizeSqft: 7500,
+        slots: 8,
+        parkingSpaces: 6,
+        chargers: 8,
+    },
+    {
+        id: "P-LAMAR",
+        name: "North Lamar Lot",
+        address: "8000 N Lamar Blvd",
+        area: "North Austin",
+        coords: [30.3521, -97.7131],
+        type: "lot",
+        sizeSqft: 10000,
+        slots: 20,
+        parkingSpaces: 6,
+        chargers: 0,
+    },
+    {
+        id: "P-AIRPORT",
+        name: "Airport Boulevard Lot",
+        address: "3600 Presidential Blvd",
+        area: "Airport",
+        coords: [30.2041, -97.6712],
+        type: "lot",
+        sizeSqft: 12000,
+        slots: 24,
+        parkingSpaces: 8,
+        chargers: 4,
+    },
+    {
+        id: "P-SOUTHPARK",
+        name: "Slaughter Lane Garage",
+        address: "9900 S IH-35 Frontage Rd",
+        area: "South Austin",
+        coords: [30.1652, -97.7872],
+        type: "garage",
+        sizeSqft: 6000,
+        slots: 8,
+        parkingSpaces: 4,
+        chargers: 6,
+    },
+];
+
+/**
+ * Looks up a listing.
+ * @param {string} id - Listing id.
+ * @returns {PropertyListing | null} Listing, or null if unknown.
+ */
+export const findListing = (id: string): PropertyListing | null => PROPERTY_LISTINGS.find((listing) => listing.id === id) ?? null;
+
+/**
+ * Ride demand around a point.
+ * @param {[number, number]} coords - [lat, lng].
+ * @returns {number} 0 (far from every dispatch zone) to 1 (at a zone's center).
+ */
+export const propertyDemand = (coords: [number, number]): number =>
+    DISPATCH_ZONES.reduce((best, zone) => Math.max(best, Math.exp(-distanceKm(coords, zone.center) / DEMAND_FALLOFF_KM)), 0);
+
+/**
+ * Monthly rent before any term discount.
+ * @param {PropertyListing} listing - Listing.
+ * @returns {number} Dollars, rounded to $10.
+ */
+export const monthlyRent = (listing: PropertyListing): number => {
+    const base = listing.slots * SLOT_RATE[listing.type] + listing.parkingSpaces * SPACE_RATE + listing.chargers * CHARGER_RATE;
+    return Math.round((base * (DEMAND_FLOOR + DEMAND_SPAN * propertyDemand(listing.coords))) / 10) * 10;
+};
+
+/**
+ * Up-front cost of a lease.
+ * @param {PropertyListing} listing - Listing.
+ * @param {LeaseTerm} term - Lease length.
+ * @returns {number} Dollars for the whole term, discounted.
+ */
+export const leaseCost = (listing: PropertyListing, term: LeaseTerm): number => {
+    const { months, discount } = LEASE_TERMS[term];
+    return toCents(monthlyRent(listing) * months * (1 - discount));
+};
+
+/**
+ * Price to buy a listing outright.
+ * @param {PropertyListing} listing - Listing.
+ * @returns {number} Dollars.
+ */
+export const purchasePrice = (listing: PropertyListing): number => monthlyRent(listing) * PURCHASE_MONTHS;
+
+/**
+ * Refund for selling an owned property.
+ * @param {number} pricePaid - What the player paid for it.
+ * @returns {number} Dollars.
+ */
+export const resaleValue = (pricePaid: number): number => toCents(pricePaid * PROPERTY_RESALE_RATE);
+
+/**
+ * Coarse demand band for display.
+ * @param {number} demand - From propertyDemand.
+ * @returns {DemandLevel} "high" from 0.66, "medium" from 0.33, "low" below.
+ */
+export const demandLevel = (demand: number): DemandLevel => (demand >= 0.66 ? "high" : demand >= 0.33 ? "medium" : "low");
+
+/**
+ * Formats a property price for display.
+ * @param {number} value - Dollars.
+ * @returns {string} e.g. "$2,340" or "$5,614.5".
+ */
+export const formatDollars = (value: number): string => `$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
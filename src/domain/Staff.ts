@@ -0,0 +1,172 @@
+// src/domain/Staff.ts
+/**
+ * @file Staff.ts
+ * @description Garage staff for CyberTaxi: mechanics and cleaning staff, their pay, levels and weekly shifts.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Figures from the GDD ("Staff for Repairs/Cleaning"): a mechanic costs $4,000/month and cuts maintenance cost
+ *       and time by half, cleaning staff cost $2,500/month and clean vehicles automatically during their shifts, which
+ *       run 8–12 hours a day as the player schedules them. Staff level up with the jobs they do.
+ * @detail Staff are hired from STAFF_APPLICANTS through the Employment Agency page and work at one of the player's
+ *         garages; simulation/Staffing.ts applies them to vehicles there. Each level past 1 works LEVEL_SPEEDUP faster
+ *         and an experienced hire asks LEVEL_RAISE more per level. Keep STAFF_ROLES' salaries, LEVEL_RAISE, LEVEL_JOBS
+ *         and the schedule rules in sync with server/routes/staff/staff.js, which bills payroll.
+ */
+
+export type StaffRole = "mechanic" | "cleaner";
+
+/**
+ * A job staff can be hired for.
+ * @interface StaffRoleSpec
+ */
+export interface StaffRoleSpec {
+    id: StaffRole;
+    label: string;
+    salaryMonthly: number; // Dollars at level 1
+    duty: string; // What they do, for the hiring page
+    icon: string; // Font Awesome class
+}
+
+/**
+ * One day's shift.
+ * @interface DayShift
+ */
+export interface DayShift {
+    start: number; // Hour, 0–23
+    hours: number; // SHIFT_HOURS_RANGE
+}
+
+/** A shift or a day off for each day of the week, indexed like Date.getDay() (0 = Sunday). */
+export type WeeklySchedule = (DayShift | null)[];
+
+/**
+ * Someone looking for work at the agency.
+ * @interface StaffApplicant
+ */
+export interface StaffApplicant {
+    id: string;
+    name: string;
+    role: StaffRole;
+    level: number; // Starting level; hires start with LEVEL_JOBS[level - 1] jobs done
+}
+
+export const STAFF_ROLES: Readonly<Record<StaffRole, StaffRoleSpec>> = {
+    mechanic: {
+        id: "mechanic",
+        label: "Mechanic",
+        salaryMonthly: 4000,
+        duty: "Halves maintenance cost and time at their garage",
+        icon: "fa-wrench",
+    },
+    cleaner: {
+        id: "cleaner",
+        label: "Cleaning Staff",
+        salaryMonthly: 2500,
+        duty: "Cleans vehicles at their garage automatically",
+        icon: "fa-broom",
+    },
+};
+
+export const MECHANIC_SAVING = 0.5; // Share of maintenance cost and time a mechanic saves
+export const CLEANING_DURATION_MS = 45 * 60000; // Simulated, at level 1
+export const SHIFT_HOURS_RANGE: readonly [number, number] = [8, 12];
+export const LEVEL_JOBS: readonly number[] = [0, 10, 25, 50, 100]; // Jobs done to reach levels 1–5
+export const MAX_STAFF_LEVEL = LEVEL_JOBS.length;
+const LEVEL_SPEEDUP = 0.1; // Faster per level past 1
+const LEVEL_RAISE = 0.1; // Higher salary per starting level past 1
+export const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"] as const;
+
+/** Monday to Friday, 08:00 for 8 hours. */
+export const DEFAULT_SCHEDULE: WeeklySchedule = [null, ...Array.from({ length: 5 }, () => ({ start: 8, hours: 8 })), null];
+
+export const STAFF_APPLICANTS: readonly StaffApplicant[] = [
+    { id: "A-MARISOL", name: "Marisol Vega", role: "mechanic", level: 1 },
+    { id: "A-DERRICK", name: "Derrick Okafor", role: "mechanic", level: 2 },
+    { id: "A-HANNAH", name: "Hannah Lindqvist", role: "mechanic", level: 3 },
+    { id: "A-TOMAS", name: "Tomás Reyes", role: "mechanic", level: 1 },
+    { id: "A-JUNE", name: "June Park", role: "cleaner", level: 1 },
+    { id: "A-ANDRE", name: "André Fontaine", role: "cleaner", level: 2 },
+    { id: "A-PRIYA", name: "Priya Natarajan", role: "cleaner", level: 1 },
+    { id: "A-COLE", name: "Cole Whitaker", role: "cleaner", level: 3 },
+];
+
+/**
+ * Level reached after a number of jobs.
+ * @param {number} jobsDone - Jobs done so far.
+ * @returns {number} 1 to MAX_STAFF_LEVEL.
+ */
+export const staffLevel = (jobsDone: number): number => LEVEL_JOBS.filter((threshold) => jobsDone >= threshold).length || 1;
+
+/**
+ * Jobs done at which the next level is reached.
+ * @param {number} jobsDone - Jobs done so far.
+ * @returns {number | null} Threshold, or null at MAX_STAFF_LEVEL.
+ */
+export const nextLevelJobs = (jobsDone: number): number | null => LEVEL_JOBS.find((threshold) => threshold > jobsDone) ?? null;
+
+/**
+ * Work speed at a level.
+ * @param {number} level - Staff level.
+ * @returns {number} 1 at level 1, LEVEL_SPEEDUP more per level past it.
+ */
+export const workSpeed = (level: number): number => 1 + LEVEL_SPEEDUP * (Math.min(Math.max(level, 1), MAX_STAFF_LEVEL) - 1);
+
+/**
+ * Monthly salary an applicant asks.
+ * @param {StaffApplicant} applicant - Applicant.
+ * @returns {number} Dollars; the role's salary plus LEVEL_RAISE per level past 1.
+ */
+export const applicantSalary = (applicant: StaffApplicant): number =>
+    Math.round(STAFF_ROLES[applicant.role].salaryMonthly * (1 + LEVEL_RAISE * (applicant.level - 1)));
+
+/**
+ * Whether a schedule has someone at work at a moment; a shift may run past midnight into the next day.
+ * @param {WeeklySchedule} schedule - Weekly shifts.
+ * @param {Date} at - Moment, local time.
+ * @returns {boolean} True during a shift.
+ */
+export const isOnShift = (schedule: WeeklySchedule, at: Date): boolean => {
+    const day = at.getDay();
+    const hour = at.getHours() + at.getMinutes() / 60;
+    const today = schedule[day];
+    const yesterday = schedule[(day + 6) % 7];
+    return (
+        (today != null && hour >= today.start && hour < today.start + today.hours) ||
+        (yesterday != null && hour + 24 < yesterday.start + yesterday.hours)
+    );
+};
+
+/**
+ * Hours scheduled in a week.
+ * @param {WeeklySchedule} schedule - Weekly shifts.
+ * @returns {number} Total hours.
+ */
+export const weeklyHours = (schedule: WeeklySchedule): number => schedule.reduce((sum, shift) => sum + (shift?.hours ?? 0), 0);
+
+/**
+ * Reads a schedule from untrusted input (API responses, form state).
+ * @param {unknown} input - Candidate schedule.
+ * @returns {WeeklySchedule | null} Seven days of whole-hour shifts within SHIFT_HOURS_RANGE, or null if invalid.
+ */
+export const parseSchedule = (input: unknown): WeeklySchedule | null => {
+    if (!Array.isArray(input) || input.length !== DAY_LABELS.length) {
+        return null;
+    }
+    const [minHours, maxHours] = SHIFT_HOURS_RANGE;
+    const schedule: WeeklySchedule = [];
+    for (const day of input) {
+        if (day === null) {
+            schedule.push(null);
+            continue;
+        }
+        const { start, hours } = (day ?? {}) as Partial<DayShift>;
+        if (typeof start !== "number" || typeof hours !== "number" || !Number.isInteger(start) || !Number.isInteger(hours)) {
+            return null;
+        }
+        if (start < 0 || start > 23 || hours < minHours || hours > maxHours) {
+            return null;
+        }
+        schedule.push({ start, hours });
+    }
+    return schedule;
+};
@@ -0,0 +1,54 @@
+// src/domain/UsedMarket.ts
+/**
+ * @file UsedMarket.ts
+ * @description Used vehicle pricing for CyberTaxi: what a used vehicle costs, what one of the player's vehicles sells
+ *              for, and whether servicing it first pays off.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.1
+ * @note Rule from the GDD ("Used Market"): the price is the purchase price minus 10% minus the wear percentage, and a
+ *       repair before the sale raises the value. cost is what the player paid (a used vehicle's listing price), so no
+ *       sale returns more than 90% of it. Pure functions; the Tesla page's Used tab and the Vehicle Details sale quote
+ *       both use them.
+ * @detail The server prices listings and sales with the same rule (server/utils/pricing-utils.js); keep USED_DISCOUNT
+ *         and SCRAP_RATE in sync. The inventory itself is drawn on the server and replaced every USED_ROTATION_MS.
+ */
+
+export const USED_DISCOUNT = 0.1; // A used vehicle is worth 10% less than new before wear
+export const SCRAP_RATE = 0.05; // Floor: share of the purchase price a worn-out vehicle still fetches
+export const USED_ROTATION_MS = 6 * 60 * 60 * 1000; // Used stock is replaced every 6 hours
+
+/**
+ * Used-market value of a vehicle.
+ * @param cost - Purchase price in dollars.
+ * @param wear - Wear percentage; clamped to 0–100.
+ * @returns {number} Whole dollars, never below cost × SCRAP_RATE.
+ */
+export const usedPrice = (cost: number, wear: number): number => {
+    const clampedWear = Math.min(Math.max(wear, 0), 100);
+    return Math.round(cost * Math.max(SCRAP_RATE, 1 - USED_DISCOUNT - clampedWear / 100));
+};
+
+/**
+ * What a service (which takes wear down to simulation/Wear.ts wearAfterService) adds to a sale.
+ * @interface RepairQuote
+ */
+export interface RepairQuote {
+    asIs: number; // Sale price now
+    repaired: number; // Sale price at the wear a service leaves
+    serviceCost: number; // Expected cost of the service
+    gain: number; // repaired − serviceCost − asIs; positive when servicing first pays off
+}
+
+/**
+ * Compares selling now with servicing first.
+ * @param cost - Purchase price in dollars.
+ * @param wear - Current wear percentage.
+ * @param serviceCost - Expected service cost (e.g. the middle of Wear.ts MAINTENANCE.service.costRange).
+ * @param repairedWear - Wear after the service (Wear.ts wearAfterService).
+ * @returns {RepairQuote} Both prices and the gain from servicing.
+ */
+export const repairQuote = (cost: number, wear: number, serviceCost: number, repairedWear: number): RepairQuote => {
+    const asIs = usedPrice(cost, wear);
+    const repaired = usedPrice(cost, repairedWear);
+    return { asIs, repaired, serviceCost, gain: repaired - serviceCost - asIs };
+};
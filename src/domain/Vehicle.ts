@@ -0,0 +1,201 @@
+// src/domain/Vehicle.ts
+/**
+ * @file Vehicle.ts
+ * @description Canonical Vehicle domain type and status lifecycle for CyberTaxi.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.4
+ * @note Single definition shared by the API layer, map markers, hooks and UI; replaces the per-layer Vehicle interfaces
+ *       in components/map and components/mapping.
+ * @detail Lifecycle: ordered → delivering → new → parked ⇄ active ⇄ fare, with charging/maintenance/cleaning as service
+ *         states off parked/active, and sold as the terminal state. Changes go through transitionVehicle(); realtime
+ *         deltas from the server are authoritative and merged with applyVehicleDeltas().
+ */
+import { VehicleTransitionError } from "../utils/errorhandling/VehicleTransitionError";
+
+/** Every status a vehicle can be in, in lifecycle order. */
+export const VEHICLE_STATUSES = [
+    "ordered",
+    "delivering",
+    "new",
+    "parked",
+    "active",
+    "fare",
+    "charging",
+    "maintenance",
+    "cleaning",
+    "sold",
+] as const;
+
+export type VehicleStatus = (typeof VEHICLE_STATUSES)[number];
+
+/**
+ * Vehicle record (as parsed from the vehicle routes; coords/dest as [lat, lng]).
+ * @interface Vehicle
+ */
+export interface Vehicle {
+    id: string;
+    player_id?: number; // Absent for other players' vehicles (GET /api/vehicles/others)
+    type: string;
+    status: VehicleStatus;
+    wear: number;
+    battery: number;
+    mileage: number;
+    tire_mileage: number;
+    purchase_date?: string;
+    delivery_timestamp?: string | null;
+    cost: number;
+    earnings?: number; // Lifetime fare revenue; only sent for the player's own vehicles
+    created_at?: string;
+    updated_at?: string;
+    coords: [number, number] | null; // Null while ordered or otherwise off the map
+    dest: [number, number] | null;
+}
+
+/** A vehicle with a known position, ready for a map marker. */
+export type PlacedVehicle = Vehicle & { coords: [number, number] };
+
+/** Range a set of tires lasts, in tire miles (GDD: 30,000–50,000). */
+export const TIRE_LIFE_RANGE_MILES: readonly [number, number] = [30000, 50000];
+
+/**
+ * Tire mileage at which a vehicle's tires are worn out; fixed per vehicle so replacement sets last as long.
+ * Drives the tire gauge in the Vehicle Details window and tire alerts in simulation/Wear.ts.
+ * @param {string} vehicleId - Vehicle id.
+ * @returns {number} Miles within TIRE_LIFE_RANGE_MILES, rounded to 500.
+ */
+export const tireLifeMiles = (vehicleId: string): number => {
+    let hash = 0x811c9dc5; // FNV-1a
+    for (let i = 0; i < vehicleId.length; i++) {
+        hash = Math.imul(hash ^ vehicleId.charCodeAt(i), 0x01000193);
+    }
+    const [min, max] = TIRE_LIFE_RANGE_MILES;
+    return Math.round((min + ((hash >>> 0) / 4294967296) * (max - min)) / 500) * 500;
+};
+
+/**
+ * Realtime change pushed by the server (or published locally by the fare simulation, which also sends wear and
+ * mileage); only id is guaranteed, other fields are present when they changed.
+ */
+export type VehicleDelta = Pick<Vehicle, "id"> &
+    Partial<Pick<Vehicle, "status" | "battery" | "coords" | "dest" | "updated_at" | "wear" | "mileage" | "tire_mileage">>;
+
+/** Allowed next statuses for each status. */
+export const VEHICLE_TRANSITIONS: Readonly<Record<VehicleStatus, readonly VehicleStatus[]>> = {
+    ordered: ["delivering"],
+    delivering: ["new"],
+    new: ["parked", "active", "sold"],
+    parked: ["active", "charging", "maintenance", "cleaning", "sold"],
+    active: ["fare", "parked", "charging", "maintenance", "cleaning"],
+    fare: ["active"],
+    charging: ["parked", "active"],
+    maintenance: ["parked", "active"],
+    cleaning: ["parked", "active"],
+    sold: [],
+};
+
+/** Display labels for each status. */
+export const VEHICLE_STATUS_LABELS: Readonly<Record<VehicleStatus, string>> = {
+    ordered: "Ordered",
+    delivering: "Delivering",
+    new: "New",
+    parked: "Parked",
+    active: "Active",
+    fare: "On Fare",
+    charging: "Charging",
+    maintenance: "Maintenance",
+    cleaning: "Cleaning",
+    sold: "Sold",
+};
+
+/**
+ * Older backend statuses mapped onto the lifecycle. The vehicles table's "garage" predates the lifecycle and means
+ * parked in a garage.
+ */
+const LEGACY_STATUS_ALIASES: Readonly<Record<string, VehicleStatus>> = {
+    garage: "parked",
+};
+
+/**
+ * Parses a backend status string.
+ * @param {string} raw - Status as sent by the server (case-insensitive).
+ * @returns {VehicleStatus | null} Lifecycle status, or null if unknown.
+ */
+export const parseVehicleStatus = (raw: string): VehicleStatus | null => {
+    const status = raw.trim().toLowerCase();
+    return VEHICLE_STATUSES.find((s) => s === status) ?? LEGACY_STATUS_ALIASES[status] ?? null;
+};
+
+/**
+ * Whether a vehicle may move from one status to another.
+ * @param {VehicleStatus} from - Current status.
+ * @param {VehicleStatus} to - Requested status.
+ * @returns {boolean} True if the transition is allowed.
+ */
+export const canTransition = (from: VehicleStatus, to: VehicleStatus): boolean =>
+    VEHICLE_TRANSITIONS[from].includes(to);
+
+/**
+ * Applies a status change.
+ * @param {T} vehicle - Vehicle to update (not mutated).
+ * @param {VehicleStatus} to - Requested status.
+ * @returns {T} Copy of the vehicle with the new status.
+ * @throws {VehicleTransitionError} If the transition is not allowed.
+ */
+export const transitionVehicle = <T extends Vehicle>(vehicle: T, to: VehicleStatus): T => {
+    if (!canTransition(vehicle.status, to)) {
+        throw new VehicleTransitionError(vehicle.id, vehicle.status, to);
+    }
+    return { ...vehicle, status: to };
+};
+
+/**
+ * Whether the vehicle is earning money (serving or looking for fares).
+ * @param {VehicleStatus} status - Vehicle status.
+ * @returns {boolean} True for active and fare.
+ */
+export const isEarning = (status: VehicleStatus): boolean => status === "active" || status === "fare";
+
+/**
+ * Whether the vehicle may be sent to a new destination (POST /api/vehicles/:vehicle_id/dispatch).
+ * @param {VehicleStatus} status - Vehicle status.
+ * @returns {boolean} True if already active or able to go active; fares in progress cannot be redirected.
+ */
+export const canDispatch = (status: VehicleStatus): boolean =>
+    status === "active" || (status !== "fare" && canTransition(status, "active"));
+
+/**
+ * Whether the vehicle is out of service for upkeep.
+ * @param {VehicleStatus} status - Vehicle status.
+ * @returns {boolean} True for charging, maintenance and cleaning.
+ */
+export const isInService = (status: VehicleStatus): boolean =>
+    status === "charging" || status === "maintenance" || status === "cleaning";
+
+/**
+ * Whether the vehicle belongs on the map: it has a position and is neither awaiting shipment nor sold.
+ * @param {Vehicle} vehicle - Vehicle to check.
+ * @returns {boolean} True if a marker should be drawn.
+ */
+export const isPlaced = (vehicle: Vehicle): vehicle is PlacedVehicle =>
+    vehicle.coords !== null && vehicle.status !== "ordered" && vehicle.status !== "sold";
+
+/**
+ * Merges realtime deltas into a vehicle list. Deltas for unknown ids are ignored.
+ * @param {T[]} vehicles - Current vehicles (not mutated).
+ * @param {VehicleDelta[]} deltas - Changes to apply, oldest first.
+ * @returns {T[]} Updated list, or the same array if nothing matched.
+ */
+export const applyVehicleDeltas = <T extends Vehicle>(vehicles: T[], deltas: VehicleDelta[]): T[] => {
+    const byId = new Map<string, VehicleDelta>();
+    deltas.forEach((delta) => byId.set(delta.id, { ...byId.get(delta.id), ...delta }));
+    let changed = false;
+    const next = vehicles.map((vehicle) => {
+        const delta = byId.get(vehicle.id);
+        if (!delta) {
+            return vehicle;
+        }
+        changed = true;
+        return { ...vehicle, ...delta };
+    });
+    return changed ? next : vehicles;
+};
@@ -0,0 +1,80 @@
+// src/domain/VehicleCatalog.ts
+/**
+ * @file VehicleCatalog.ts
+ * @description Vehicle models for CyberTaxi: price, battery, efficiency, seats, range, wear and availability of each.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note The catalog itself is data, not code: server/data/vehicle-catalog.json, served by GET /api/catalog/vehicles
+ *       and loaded by useVehicleCatalog. The Tesla page renders whatever it holds, and the fare simulation reads each
+ *       vehicle's battery, efficiency and wear factor from it, so a new model needs only a new entry and its image.
+ * @detail A model's id is the type stored on vehicles (e.g. "Model Y"). modelFor never fails: a type missing from the
+ *         catalog (or a catalog not loaded yet) gets FALLBACK_MODEL's specs under its own name, so the simulation keeps
+ *         running on Model Y figures.
+ */
+
+export type ModelAvailability = "available" | "coming_soon" | "discontinued";
+
+/**
+ * A vehicle model.
+ * @interface VehicleModel
+ */
+export interface VehicleModel {
+    id: string; // Vehicle type as stored by the server
+    name: string; // Display name
+    description: string;
+    price: number; // Dollars, new
+    battery_kwh: number; // Usable pack capacity
+    kwh_per_mile: number; // Energy use
+    seats: number;
+    range_miles: number; // Rated range on a full charge
+    wear_factor: number; // Multiplies the wear per mile; 1 for the Model Y
+    image: string; // Showroom picture
+    availability: ModelAvailability;
+}
+
+export const AVAILABILITY_LABELS: Readonly<Record<ModelAvailability, string>> = {
+    available: "Available",
+    coming_soon: "Coming Soon",
+    discontinued: "Discontinued",
+};
+
+/** Specs used for a vehicle type the catalog does not list: a Model Y Long Range, as the GDD assumes. */
+export const FALLBACK_MODEL: VehicleModel = {
+    id: "Model Y",
+    name: "Tesla Model Y",
+    description: "",
+    price: 50000,
+    battery_kwh: 75,
+    kwh_per_mile: 0.26,
+    seats: 5,
+    range_miles: 288,
+    wear_factor: 1,
+    image: "vehicle-placeholder.png",
+    availability: "discontinued",
+};
+
+/**
+ * The model of a vehicle type.
+ * @param {readonly VehicleModel[]} models - Catalog.
+ * @param {string} type - Vehicle type (model id).
+ * @returns {VehicleModel} The catalog entry, or FALLBACK_MODEL's specs named after the type.
+ */
+export const modelFor = (models: readonly VehicleModel[], type: string): VehicleModel =>
+    models.find((model) => model.id === type) ?? { ...FALLBACK_MODEL, id: type, name: type };
+
+/**
+ * Whether the service center sells a model new.
+ * @param {VehicleModel} model - Model to check.
+ * @returns {boolean} True when it is available.
+ */
+export const isOrderable = (model: VehicleModel): boolean => model.availability === "available";
+
+/**
+ * Models shown in the showroom: everything still or soon sold new, orderable ones first.
+ * @param {readonly VehicleModel[]} models - Catalog.
+ * @returns {VehicleModel[]} Available models, then coming-soon ones, each in catalog order.
+ */
+export const showroomModels = (models: readonly VehicleModel[]): VehicleModel[] => [
+    ...models.filter((model) => model.availability === "available"),
+    ...models.filter((model) => model.availability === "coming_soon"),
+];
@@ -0,0 +1,114 @@
+// src/domain/Weather.ts
+/**
+ * @file Weather.ts
+ * @description Austin weather for CyberTaxi: conditions, forecasts and their effect on trips.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.1
+ * @note Figures from the GDD ("Environmental Factors and Events"): rain slows trips by 10–20%, adds 10% wear and 20%
+ *       ride demand. Forecasts come from a WeatherProvider (src/weather) through services/WeatherService.ts.
+ * @detail Conditions are classified from WMO weather codes, as Open-Meteo reports them. Every wet kind (drizzle, rain,
+ *         storms, snow) applies the rain modifiers; the slowdown grows with the precipitation rate up to
+ *         HEAVY_RAIN_MM per hour, and storms always count as heavy. Snow uses the rain figures until winter tires come
+ *         in v2. The extra wear is simulation/Wear.ts's RAIN_MULTIPLIER, applied by FareEngine while wet is set.
+ */
+import { RAIN_MULTIPLIER } from "../simulation/Wear";
+
+export type WeatherKind = "clear" | "cloudy" | "fog" | "drizzle" | "rain" | "storm" | "snow";
+
+/**
+ * Weather at one moment.
+ * @interface WeatherSample
+ */
+export interface WeatherSample {
+    time: string; // ISO
+    kind: WeatherKind;
+    code: number; // WMO weather code
+    temperatureC: number;
+    precipitationMm: number; // Over the hour
+    precipitationChance: number | null; // Percent; null where the provider does not give one (current conditions)
+    windKph: number;
+}
+
+/**
+ * Current conditions and the hours ahead.
+ * @interface WeatherForecast
+ */
+export interface WeatherForecast {
+    source: string; // Provider name
+    fetchedAt: string; // ISO
+    current: WeatherSample;
+    hourly: WeatherSample[]; // From the current hour on
+}
+
+/**
+ * Multipliers weather applies to the fare simulation; 1 leaves a figure unchanged.
+ * @interface WeatherModifiers
+ */
+export interface WeatherModifiers {
+    speed: number; // Driving speed
+    wear: number; // Wear per mile, for display; FareEngine applies it through wet
+    demand: number; // Ride requests per minute
+    wet: boolean;
+}
+
+export const WEATHER_COORDS: [number, number] = [30.2672, -97.7431]; // Downtown Austin, where forecasts are taken
+export const FORECAST_HOURS = 24;
+export const RAIN_SLOWDOWN: readonly [number, number] = [0.1, 0.2]; // Light to heavy rain
+export const RAIN_DEMAND = 1.2;
+export const HEAVY_RAIN_MM = 4; // Per hour; the full slowdown applies from here
+
+export const CALM_WEATHER: WeatherModifiers = { speed: 1, wear: 1, demand: 1, wet: false };
+
+export const WEATHER_KINDS: Readonly<Record<WeatherKind, { label: string; icon: string }>> = {
+    clear: { label: "Clear", icon: "fa-sun" },
+    cloudy: { label: "Cloudy", icon: "fa-cloud" },
+    fog: { label: "Fog", icon: "fa-smog" },
+    drizzle: { label: "Drizzle", icon: "fa-cloud-rain" },
+    rain: { label: "Rain", icon: "fa-cloud-showers-heavy" },
+    storm: { label: "Thunderstorm", icon: "fa-bolt" },
+    snow: { label: "Snow", icon: "fa-snowflake" },
+};
+
+const WET_KINDS: readonly WeatherKind[] = ["drizzle", "rain", "storm", "snow"];
+
+/**
+ * Classifies a WMO weather code.
+ * @param {number} code - WMO code (0 clear sky … 99 thunderstorm with hail).
+ * @returns {WeatherKind} Kind; unknown codes count as cloudy.
+ */
+export const weatherKind = (code: number): WeatherKind => {
+    if (code <= 1) return "clear";
+    if (code <= 3) return "cloudy";
+    if (code === 45 || code === 48) return "fog";
+    if (code >= 51 && code <= 57) return "drizzle";
+    if ((code >= 61 && code <= 67) || (code >= 80 && code <= 82)) return "rain";
+    if ((code >= 71 && code <= 77) || code === 85 || code === 86) return "snow";
+    if (code >= 95) return "storm";
+    return "cloudy";
+};
+
+/**
+ * Whether a kind of weather wets the roads.
+ * @param {WeatherKind} kind - Weather kind.
+ * @returns {boolean} True for drizzle, rain, storms and snow.
+ */
+export const isWet = (kind: WeatherKind): boolean => WET_KINDS.includes(kind);
+
+/**
+ * Effect of the weather on trips.
+ * @param {WeatherSample | null} sample - Conditions, or null when unknown.
+ * @returns {WeatherModifiers} CALM_WEATHER when dry or unknown; the rain modifiers otherwise.
+ */
+export const weatherModifiers = (sample: WeatherSample | null): WeatherModifiers => {
+    if (!sample || !isWet(sample.kind)) return CALM_WEATHER;
+    const heaviness = sample.kind === "storm" ? 1 : Math.min(Math.max(sample.precipitationMm, 0) / HEAVY_RAIN_MM, 1);
+    const slowdown = RAIN_SLOWDOWN[0] + (RAIN_SLOWDOWN[1] - RAIN_SLOWDOWN[0]) * heaviness;
+    return { speed: Math.round((1 - slowdown) * 100) / 100, wear: RAIN_MULTIPLIER, demand: RAIN_DEMAND, wet: true };
+};
+
+/**
+ * Converts a temperature for display.
+ * @param {number} celsius - Degrees Celsius.
+ * @returns {number} Whole degrees Fahrenheit.
+ */
+export const toFahrenheit = (celsius: number): number => Math.round((celsius * 9) / 5 + 32);
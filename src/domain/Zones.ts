@@ -0,0 +1,72 @@
+// src/domain/Zones.ts
+/**
+ * @file Zones.ts
+ * @description Named Austin service zones vehicles can be dispatched to.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Used by the Fleet window's "Dispatch to zone" bulk action and its location column.
+ * @detail Dispatched vehicles get a random point inside the zone so a batch does not stack on one coordinate.
+ */
+
+/**
+ * A circular service area.
+ * @interface DispatchZone
+ */
+export interface DispatchZone {
+    id: string;
+    name: string;
+    center: [number, number]; // [lat, lng]
+    radiusKm: number;
+}
+
+export const DISPATCH_ZONES: readonly DispatchZone[] = [
+    { id: "downtown", name: "Downtown", center: [30.2672, -97.7431], radiusKm: 1.5 },
+    { id: "university", name: "University", center: [30.2849, -97.7341], radiusKm: 1.2 },
+    { id: "soco", name: "South Congress", center: [30.2497, -97.7494], radiusKm: 1.2 },
+    { id: "domain", name: "The Domain", center: [30.4021, -97.7253], radiusKm: 1.5 },
+    { id: "airport", name: "Airport", center: [30.1975, -97.6664], radiusKm: 2 },
+];
+
+const KM_PER_DEGREE_LAT = 110.574;
+
+/**
+ * Picks a uniformly distributed point inside a zone.
+ * @param {DispatchZone} zone - Target zone.
+ * @param {() => number} [random] - Source of [0, 1) values; Math.random by default.
+ * @returns {[number, number]} [lat, lng] inside the zone.
+ */
+export const randomPointInZone = (zone: DispatchZone, random: () => number = Math.random): [number, number] => {
+    const distanceKm = zone.radiusKm * Math.sqrt(random());
+    const angle = random() * 2 * Math.PI;
+    const [lat, lng] = zone.center;
+    const kmPerDegreeLng = 111.32 * Math.cos((lat * Math.PI) / 180);
+    return [lat + (distanceKm * Math.cos(angle)) / KM_PER_DEGREE_LAT, lng + (distanceKm * Math.sin(angle)) / kmPerDegreeLng];
+};
+
+/**
+ * Great-circle distance between two points.
+ * @param {[number, number]} a - [lat, lng].
+ * @param {[number, number]} b - [lat, lng].
+ * @returns {number} Distance in kilometres.
+ */
+export const distanceKm = (a: [number, number], b: [number, number]): number => {
+    const toRad = Math.PI / 180;
+    const dLat = (b[0] - a[0]) * toRad;
+    const dLng = (b[1] - a[1]) * toRad;
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(a[0] * toRad) * Math.cos(b[0] * toRad) * Math.sin(dLng / 2) ** 2;
+    return 2 * 6371 * Math.asin(Math.sqrt(h));
+};
+
+/**
+ * Finds the zone whose center is closest to a point.
+ * @param {[number, number]} coords - [lat, lng].
+ * @returns {{ zone: DispatchZone; distanceKm: number }} Nearest zone and the distance to its center.
+ */
+export const nearestZone = (coords: [number, number]): { zone: DispatchZone; distanceKm: number } =>
+    DISPATCH_ZONES.reduce<{ zone: DispatchZone; distanceKm: number }>(
+        (best, zone) => {
+            const distance = distanceKm(coords, zone.center);
+            return distance < best.distanceKm ? { zone, distanceKm: distance } : best;
+        },
+        { zone: DISPATCH_ZONES[0], distanceKm: Infinity }
+    );
@@ -1,9 +1,9 @@
 /**
  * main.tsx - Main entry point for CyberTaxi game.
  * Renders map, top menu, registration form, footer, browser, and context menu, per GDD v1.1.
- * Initializes Leaflet map, manages auth/vehicle logic via useAuth and useVehicles hooks, and handles auto-login.
+ * Initializes Leaflet map, manages auth/vehicle logic via useAuth (CyberContext) and useVehicles hooks; CyberProvider resumes the session.
  * @module Main
- * @version 0.3.48 (rolled back for stability, debug added)
+ * @version 0.3.51
  */
 import React, { useEffect, useRef, useState } from "react";
 import ReactDOM from "react-dom/client";
@@ -22,6 +22,7 @@ import "leaflet.markercluster"; // Marker clustering plugin
 import { createTileLayer } from "./components/map/map-tiles"; // Custom tile layer function
 import { useAuth } from "./components/auth/useAuth"; // Authentication hook
 import { useVehicles } from "./components/vehicles/useVehicles"; // Vehicle management hook (pre-export type)
+import { CyberProvider } from "./context/CyberContext"; // Global auth and player state
 import "./styles/global.css"; // Global CSS styles
 
 /**
@@ -138,7 +139,7 @@ class CyberBrowserBoundary extends React.Component<
  * @returns {JSX.Element} - Main game interface.
  */
 const App: React.FC = () => {
-    const { isLoggedIn, handleClose, username, handleLogin } = useAuth(); // Authentication state and actions
+    const { isLoggedIn, handleClose, handleLogout, username } = useAuth(); // Authentication state and actions
     const { vehicles, errorMessage, isLoadingVehicles } =
         useVehicles(isLoggedIn); // Vehicle data and status
     const topMenuRef = useRef<HTMLDivElement>(null); // Reference for top menu DOM element
@@ -159,83 +160,14 @@ const App: React.FC = () => {
     const [mapKey, setMapKey] = useState(0); // Key to force MapManager re-render
 
     useEffect(() => {
-        // Auto-login logic using stored credentials
-        console.log("Main.tsx: Starting auto-login check"); // Debug: Start of auto-login
-        const token = localStorage.getItem("jwt_token");
-        const savedUsername = localStorage.getItem("username");
-        const savedData = localStorage.getItem("registerData");
+        // Auto-login is handled by CyberProvider resuming the stored session
         console.log(
-            `Main.tsx: Checking auto-login, token: ${!!token}, username: ${
-                savedUsername || "none"
+            `Main.tsx: Starting auto-login check, isLoggedIn: ${isLoggedIn}, username: ${
+                username || "none"
             }`
         );
-        if (token && savedUsername && savedData) {
-            console.log(
-                "Main.tsx: Attempting auto-login with stored credentials"
-            );
-            fetch("http://localhost:3000/api/auth/login/username", {
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                    Authorization: `Bearer ${token}`,
-                },
-                body: JSON.stringify({
-                    username: savedUsername,
-                    password: "test123",
-                }),
-            })
-                .then((response) => {
-                    console.log(
-                        `Main.tsx: Auto-login response status: ${response.status}`
-                    );
-                    if (!response.ok)
-                        throw new Error(
-                            `Auto-login failed: ${response.statusText}`
-                        );
-                    return response.json();
-                })
-                .then((result) => {
-                    console.log("Main.tsx: Auto-login response:", result);
-                    if (result.status === "Success" && result.token) {
-                        console.log(
-                            "Main.tsx: Auto-login successful, token refreshed:",
-                            result.token.slice(0, 10) + "..."
-                        );
-                        localStorage.setItem("jwt_token", result.token);
-                        if (result.player_id) {
-                            localStorage.setItem(
-                                "player_id",
-                                result.player_id.toString()
-                            );
-                        }
-                        localStorage.setItem(
-                            "username",
-                            result.username || savedUsername
-                        );
-                        handleLogin(
-                            result.token,
-                            result.username || savedUsername
-                        );
-                        console.log(
-                            "Main.tsx: Vehicles after auto-login:",
-                            vehicles
-                        ); // Debug: Check vehicles state
-                        setMapKey((prev) => prev + 1); // Force re-render on login
-                    } else {
-                        throw new Error("Main.tsx: Invalid login response");
-                    }
-                })
-                .catch((error) => {
-                    console.error("Main.tsx: Auto-login error:", error);
-                    localStorage.removeItem("jwt_token");
-                    localStorage.removeItem("username");
-                    localStorage.removeItem("registerData");
-                    setIsFormOpen(true);
-                    setRegisterMode("login");
-                    setErrorMessage("Auto-login failed: " + error.message);
-                });
-        } else {
-            console.log("Main.tsx: No valid credentials, opening login form");
+        if (!isLoggedIn) {
+            console.log("Main.tsx: No valid session, opening login form");
             setIsFormOpen(true);
             setRegisterMode("login");
         }
@@ -304,17 +236,14 @@ const App: React.FC = () => {
             setIsFormOpen(true);
             setIsPopupOpen(false);
         } else if (action === "logout") {
-            localStorage.removeItem("jwt_token");
-            localStorage.removeItem("registerData");
-            localStorage.removeItem("username");
-            localStorage.removeItem("player_id");
+            handleLogout();
             setIsPopupOpen(false);
             setIsFormOpen(true);
             setRegisterMode("login");
             setBrowserPage(null);
             handleClose();
             console.log(
-                "Main.tsx: Logged out, jwt_token, registerData, username, and player_id cleared"
+                "Main.tsx: Logged out via CyberContext"
             );
         } else if (action === "settings") {
             console.log("Main.tsx: Settings action triggered (placeholder)");
@@ -509,4 +438,8 @@ const App: React.FC = () => {
     );
 };
 
-ReactDOM.createRoot(document.getElementById("app")!).render(<App />);
+ReactDOM.createRoot(document.getElementById("app")!).render(
+    <CyberProvider>
+        <App />
+    </CyberProvider>
+);
@@ -0,0 +1,100 @@
+// src/routing/RoadGraph.test.ts
+/**
+ * @file RoadGraph.test.ts
+ * @description Unit tests for CyberTaxi road routing and the hazards routes steer around.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Runs on a small hand-made graph: a fast north road and a slower detour through the east, so the tests can tell
+ *       which one a route took.
+ */
+import { describe, expect, it } from "vitest";
+import { createGraphRouter, createRoadGraph, findRoute } from "./RoadGraph";
+import type { RoadGraphData, RouteHazard } from "./RoadGraph";
+
+// 0 ─ 1 ─ 2 along the north road at 40 mph, 0 ─ 3 ─ 2 through the east at 30 mph
+const DATA: RoadGraphData = {
+    version: 1,
+    name: "test",
+    nodes: [
+        [30.26, -97.76],
+        [30.28, -97.74],
+        [30.26, -97.72],
+        [30.24, -97.74],
+    ],
+    edges: [
+        [0, 1, 40],
+        [1, 2, 40],
+        [0, 3, 30],
+        [3, 2, 30],
+    ],
+};
+const FROM: [number, number] = [30.2601, -97.7601];
+const TO: [number, number] = [30.2601, -97.7199];
+const NORTH = DATA.nodes[1];
+const EAST = DATA.nodes[3];
+
+/** A square hazard around a point. */
+const hazardAround = (center: [number, number], overrides: Partial<RouteHazard> = {}): RouteHazard => ({
+    id: "hazard",
+    polygon: [
+        [center[0] - 0.005, center[1] - 0.005],
+        [center[0] - 0.005, center[1] + 0.005],
+        [center[0] + 0.005, center[1] + 0.005],
+        [center[0] + 0.005, center[1] - 0.005],
+    ],
+    slowdown: 4,
+    blocked: false,
+    ...overrides,
+});
+
+describe("findRoute", () => {
+    const graph = createRoadGraph(DATA);
+
+    it("takes the fastest road", () => {
+        const route = findRoute(graph, FROM, TO);
+        expect(route.approximate).toBe(false);
+        expect(route.geometry).toContainEqual(NORTH);
+        expect(route.geometry[0]).toEqual(FROM);
+        expect(route.geometry[route.geometry.length - 1]).toEqual(TO);
+    });
+
+    it("goes around a slow hazard when the detour is faster, and keeps the ETA at road speeds", () => {
+        const clear = findRoute(graph, FROM, TO);
+        const route = findRoute(graph, FROM, TO, [hazardAround(NORTH)]);
+        expect(route.geometry).toContainEqual(EAST);
+        expect(route.geometry).not.toContainEqual(NORTH);
+        expect(route.minutes).toBeGreaterThan(clear.minutes);
+        expect(route.minutes).toBeLessThan(clear.minutes * 4);
+    });
+
+    it("drives through a mild hazard when the detour is slower", () => {
+        const route = findRoute(graph, FROM, TO, [hazardAround(NORTH, { slowdown: 1.15 })]);
+        expect(route.geometry).toContainEqual(NORTH);
+    });
+
+    it("never drives through a blocked hazard while there is a way around", () => {
+        const route = findRoute(graph, FROM, TO, [hazardAround(NORTH, { slowdown: 1, blocked: true })]);
+        expect(route.geometry).toContainEqual(EAST);
+        expect(route.geometry).not.toContainEqual(NORTH);
+    });
+
+    it("drives through blocked hazards when there is no other way", () => {
+        const route = findRoute(graph, FROM, TO, [hazardAround(NORTH, { blocked: true }), hazardAround(EAST, { id: "other", blocked: true })]);
+        expect(route.approximate).toBe(false);
+        expect(route.geometry.length).toBeGreaterThan(2);
+    });
+});
+
+describe("createGraphRouter", () => {
+    it("passes hazards to the search", async () => {
+        const router = createGraphRouter(createRoadGraph(DATA));
+        const route = await router.route(FROM, TO, [hazardAround(NORTH, { blocked: true })]);
+        expect(route.geometry).toContainEqual(EAST);
+    });
+
+    it("routes in straight lines without a graph", async () => {
+        const route = await createGraphRouter(null).route(FROM, TO, [hazardAround(NORTH, { blocked: true })]);
+        expect(route.approximate).toBe(true);
+        expect(route.geometry).toEqual([FROM, TO]);
+    });
+});
@@ -0,0 +1,280 @@
+// src/routing/RoadGraph.ts
+/**
+ * @file RoadGraph.ts
+ * @description Offline road graph and A* shortest-time routing for CyberTaxi.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.2.0
+ * @note Pure TypeScript with no DOM or network use: the routing worker runs it off the main thread, and headless code
+ *       (the fare engine in tests) can use createGraphRouter directly.
+ * @detail Graph data is compact JSON (public/data/austin-roads.json): nodes as [lat, lng] and two-way edges as
+ *         [from, to, speedMph]. Routes snap both ends to the nearest node, add straight connector legs at
+ *         CONNECTOR_SPEED_MPH, and search by travel time with a great-circle / top-speed heuristic (admissible, so A*
+ *         returns the fastest path). Disconnected or empty graphs fall back to a straight line, flagged approximate.
+ *         Hazards (rush hours and protests, simulation/CityEventScheduler.ts routeHazards) steer the search: an edge with
+ *         an end or its middle inside one costs its slowdown times longer, and a blocked one BLOCKED_PENALTY times
+ *         longer, so it is only taken when there is no way around. Route minutes stay at edge speeds; FareEngine slows
+ *         vehicles inside events as they drive.
+ */
+import { insidePolygon } from "../domain/CityEvents";
+import { distanceKm } from "../domain/Zones";
+
+/**
+ * Road graph as shipped in the static asset.
+ * @interface RoadGraphData
+ */
+export interface RoadGraphData {
+    version: number;
+    name: string;
+    nodes: [number, number][]; // [lat, lng]
+    edges: [number, number, number][]; // [from, to, speedMph], two-way
+}
+
+/**
+ * A computed route.
+ * @interface Route
+ */
+export interface Route {
+    geometry: [number, number][]; // [lat, lng] from origin to destination
+    miles: number;
+    minutes: number; // ETA at edge speeds
+    approximate: boolean; // True when no road path was found and the route is a straight line
+}
+
+/**
+ * An area routes should go slow through or around.
+ * @interface RouteHazard
+ */
+export interface RouteHazard {
+    id: string; // Event id, e.g. "protest-2912-capitol"
+    polygon: [number, number][]; // [lat, lng]
+    slowdown: number; // Travel time multiplier inside, at least 1
+    blocked: boolean; // Only driven through when there is no way around
+}
+
+/**
+ * Anything that can route between two points: the worker-backed RoutingService or an in-thread graph.
+ * @interface Router
+ */
+export interface Router {
+    route(from: [number, number], to: [number, number], hazards?: readonly RouteHazard[]): Promise<Route>;
+}
+
+/**
+ * Graph prepared for searching.
+ * @interface RoadGraph
+ */
+export interface RoadGraph {
+    nodes: [number, number][];
+    adjacency: { to: number; minutes: number; miles: number }[][];
+    maxSpeedMph: number;
+}
+
+const KM_TO_MILES = 0.621371;
+const CONNECTOR_SPEED_MPH = 15; // Driveways and side streets to the nearest graph node
+const STRAIGHT_LINE_SPEED_MPH = 20;
+const BLOCKED_PENALTY = 100; // Search cost multiplier on blocked edges
+
+/** Great-circle miles. */
+const miles = (a: [number, number], b: [number, number]): number => distanceKm(a, b) * KM_TO_MILES;
+
+/** Minutes to cover a distance at a speed. */
+const minutesFor = (distanceMiles: number, speedMph: number): number => (distanceMiles / speedMph) * 60;
+
+/**
+ * Builds adjacency lists from graph data.
+ * @param {RoadGraphData} data - Parsed asset.
+ * @returns {RoadGraph} Searchable graph.
+ */
+export const createRoadGraph = (data: RoadGraphData): RoadGraph => {
+    const adjacency: RoadGraph["adjacency"] = data.nodes.map(() => []);
+    let maxSpeedMph = CONNECTOR_SPEED_MPH;
+    data.edges.forEach(([from, to, speedMph]) => {
+        const length = miles(data.nodes[from], data.nodes[to]);
+        const minutes = minutesFor(length, speedMph);
+        adjacency[from].push({ to, minutes, miles: length });
+        adjacency[to].push({ to: from, minutes, miles: length });
+        maxSpeedMph = Math.max(maxSpeedMph, speedMph);
+    });
+    return { nodes: data.nodes, adjacency, maxSpeedMph };
+};
+
+/**
+ * Straight-line route, used when there is no graph or no path.
+ * @returns {Route} Two-point route flagged approximate.
+ */
+export const straightLineRoute = (from: [number, number], to: [number, number]): Route => {
+    const distance = miles(from, to);
+    return { geometry: [from, to], miles: distance, minutes: minutesFor(distance, STRAIGHT_LINE_SPEED_MPH), approximate: true };
+};
+
+/**
+ * Index of the graph node closest to a point.
+ * @returns {number} Node index, or -1 for an empty graph.
+ */
+const nearestNode = (graph: RoadGraph, point: [number, number]): number => {
+    let best = -1;
+    let bestMiles = Infinity;
+    graph.nodes.forEach((node, index) => {
+        const distance = miles(node, point);
+        if (distance < bestMiles && graph.adjacency[index].length > 0) {
+            best = index;
+            bestMiles = distance;
+        }
+    });
+    return best;
+};
+
+/**
+ * Search cost multiplier of an edge under the hazards.
+ * @returns {number} 1 clear of hazards, the largest slowdown among those covering it, BLOCKED_PENALTY more if blocked.
+ */
+const hazardFactor = (hazards: readonly RouteHazard[], a: [number, number], b: [number, number]): number => {
+    const middle: [number, number] = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+    return hazards.reduce((factor, hazard) => {
+        if (![a, middle, b].some((point) => insidePolygon(point, hazard.polygon))) {
+            return factor;
+        }
+        return Math.max(factor, Math.max(hazard.slowdown, 1) * (hazard.blocked ? BLOCKED_PENALTY : 1));
+    }, 1);
+};
+
+/**
+ * Binary min-heap of [priority, node] pairs for the A* open set.
+ */
+class MinHeap {
+    private items: [number, number][] = [];
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    push(item: [number, number]): void {
+        const items = this.items;
+        items.push(item);
+        let i = items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (items[parent][0] <= items[i][0]) {
+                break;
+            }
+            [items[parent], items[i]] = [items[i], items[parent]];
+            i = parent;
+        }
+    }
+
+    pop(): [number, number] | undefined {
+        const items = this.items;
+        const top = items[0];
+        const last = items.pop();
+        if (items.length > 0 && last) {
+            items[0] = last;
+            let i = 0;
+            for (;;) {
+                const left = 2 * i + 1;
+                const right = left + 1;
+                let smallest = i;
+                if (left < items.length && items[left][0] < items[smallest][0]) smallest = left;
+                if (right < items.length && items[right][0] < items[smallest][0]) smallest = right;
+                if (smallest === i) {
+                    break;
+                }
+                [items[smallest], items[i]] = [items[i], items[smallest]];
+                i = smallest;
+            }
+        }
+        return top;
+    }
+}
+
+/**
+ * Fastest route between two points over the graph.
+ * @param {RoadGraph} graph - Prepared graph.
+ * @param {[number, number]} from - Origin [lat, lng].
+ * @param {[number, number]} to - Destination [lat, lng].
+ * @param {readonly RouteHazard[]} [hazards] - Areas to go slow through or around; none by default.
+ * @returns {Route} Road route, or a straight line if the ends cannot be connected.
+ */
+export const findRoute = (
+    graph: RoadGraph,
+    from: [number, number],
+    to: [number, number],
+    hazards: readonly RouteHazard[] = []
+): Route => {
+    const start = nearestNode(graph, from);
+    const goal = nearestNode(graph, to);
+    if (start === -1 || goal === -1) {
+        return straightLineRoute(from, to);
+    }
+    const connectorMiles = miles(from, graph.nodes[start]) + miles(graph.nodes[goal], to);
+    // Walking to the graph and back costs more than driving straight there: skip the graph for short hops
+    if (start === goal || connectorMiles >= miles(from, to)) {
+        const distance = miles(from, to);
+        return { geometry: [from, to], miles: distance, minutes: minutesFor(distance, CONNECTOR_SPEED_MPH), approximate: false };
+    }
+
+    const heuristic = (node: number) => minutesFor(miles(graph.nodes[node], graph.nodes[goal]), graph.maxSpeedMph);
+    // Factors are at least 1, so the heuristic stays admissible
+    const factors = new Map<string, number>();
+    const factorOf = (node: number, next: number): number => {
+        if (hazards.length === 0) {
+            return 1;
+        }
+        const key = node < next ? `${node}-${next}` : `${next}-${node}`;
+        let factor = factors.get(key);
+        if (factor === undefined) {
+            factor = hazardFactor(hazards, graph.nodes[node], graph.nodes[next]);
+            factors.set(key, factor);
+        }
+        return factor;
+    };
+    const cost = new Map<number, number>([[start, 0]]);
+    const previous = new Map<number, number>();
+    const open = new MinHeap();
+    open.push([heuristic(start), start]);
+    while (open.size > 0) {
+        const [, node] = open.pop() as [number, number];
+        if (node === goal) {
+            break;
+        }
+        const base = cost.get(node) as number;
+        graph.adjacency[node].forEach((edge) => {
+            const next = base + edge.minutes * factorOf(node, edge.to);
+            if (next < (cost.get(edge.to) ?? Infinity)) {
+                cost.set(edge.to, next);
+                previous.set(edge.to, node);
+                open.push([next + heuristic(edge.to), edge.to]);
+            }
+        });
+    }
+    if (!cost.has(goal)) {
+        return straightLineRoute(from, to);
+    }
+
+    const path: number[] = [goal];
+    while (path[0] !== start) {
+        path.unshift(previous.get(path[0]) as number);
+    }
+    const geometry: [number, number][] = [from, ...path.map((node) => graph.nodes[node]), to];
+    let roadMiles = 0;
+    let roadMinutes = 0;
+    for (let i = 1; i < path.length; i++) {
+        roadMiles += miles(graph.nodes[path[i - 1]], graph.nodes[path[i]]);
+        // Search cost includes the hazards; the ETA is at edge speeds (fastest of parallel edges)
+        roadMinutes += Math.min(...graph.adjacency[path[i - 1]].filter((edge) => edge.to === path[i]).map((edge) => edge.minutes));
+    }
+    return {
+        geometry,
+        miles: roadMiles + connectorMiles,
+        minutes: roadMinutes + minutesFor(connectorMiles, CONNECTOR_SPEED_MPH),
+        approximate: false,
+    };
+};
+
+/**
+ * In-thread router over a graph, for headless use (the browser goes through RoutingService's worker).
+ * @param {RoadGraph | null} graph - Prepared graph, or null for straight lines.
+ * @returns {Router} Router resolving immediately.
+ */
+export const createGraphRouter = (graph: RoadGraph | null): Router => ({
+    route: async (from, to, hazards) => (graph ? findRoute(graph, from, to, hazards) : straightLineRoute(from, to)),
+});
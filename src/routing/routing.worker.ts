@@ -0,0 +1,68 @@
+// src/routing/routing.worker.ts
+/**
+ * @file routing.worker.ts
+ * @description Web Worker answering CyberTaxi route queries over the offline road graph.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.1
+ * @note Started by RoutingService; never imported directly. Keeps A* searches off the main thread so the map and the
+ *       fare simulation tick stay smooth.
+ * @detail The first message is init with the absolute graph URL; the graph is fetched once and later route messages
+ *         wait for it. If the graph cannot be loaded every route is answered with a straight line (approximate) and
+ *         the failure is reported once, so callers keep working without roads. Route messages may carry
+ *         hazards for findRoute to steer around.
+ */
+import { createRoadGraph, findRoute, straightLineRoute } from "./RoadGraph";
+import type { RoadGraph, RoadGraphData, Route, RouteHazard } from "./RoadGraph";
+
+/** Messages RoutingService sends. */
+export type RoutingWorkerRequest =
+    | { type: "init"; url: string }
+    | { type: "route"; id: number; from: [number, number]; to: [number, number]; hazards: RouteHazard[] };
+
+/** Messages the worker answers with. */
+export type RoutingWorkerResponse =
+    | { type: "ready"; nodes: number; edges: number }
+    | { type: "route"; id: number; route: Route }
+    | { type: "error"; id: number | null; message: string };
+
+let graph: Promise<RoadGraph | null> = Promise.resolve(null);
+
+const reply = (message: RoutingWorkerResponse): void => {
+    self.postMessage(message);
+};
+
+/**
+ * Fetches and prepares the graph.
+ * @param {string} url - Absolute asset URL.
+ * @returns {Promise<RoadGraph | null>} Graph, or null if it could not be loaded.
+ */
+const loadGraph = async (url: string): Promise<RoadGraph | null> => {
+    try {
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+        }
+        const data = (await response.json()) as RoadGraphData;
+        reply({ type: "ready", nodes: data.nodes.length, edges: data.edges.length });
+        return createRoadGraph(data);
+    } catch (err: unknown) {
+        reply({ type: "error", id: null, message: `Road graph unavailable: ${err instanceof Error ? err.message : String(err)}` });
+        return null;
+    }
+};
+
+self.onmessage = (event: MessageEvent<RoutingWorkerRequest>) => {
+    const message = event.data;
+    if (message.type === "init") {
+        graph = loadGraph(message.url);
+        return;
+    }
+    graph
+        .then((loaded) => {
+            const route = loaded ? findRoute(loaded, message.from, message.to, message.hazards) : straightLineRoute(message.from, message.to);
+            reply({ type: "route", id: message.id, route });
+        })
+        .catch((err: unknown) => {
+            reply({ type: "error", id: message.id, message: err instanceof Error ? err.message : String(err) });
+        });
+};
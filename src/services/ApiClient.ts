@@ -0,0 +1,494 @@
+// src/services/ApiClient.ts
+/**
+ * @file ApiClient.ts
+ * @description Single typed client for every CyberTaxi backend endpoint.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.17
+ * @note Owns the request pipeline: Bearer header injection, SessionService refresh before expiry and on 401/403,
+ *       retry with exponential backoff for network/5xx failures, and parsing of the {status, message, details} envelope.
+ * @detail All URLs are built from API_CONFIG.BASE_URL; services and hooks call the typed methods instead of fetch.
+ *         Every typed method passes its apiSchemas.ts schema, so responses are validated before they reach callers.
+ */
+import { API_CONFIG } from "../config/apiConfig";
+import { ApiError } from "../utils/errorhandling/ApiError";
+import { ResponseValidationError } from "../utils/errorhandling/ResponseValidationError";
+import { ValidationDiagnostics } from "../utils/validation/ValidationDiagnostics";
+import type { Schema } from "../utils/validation/schema";
+import type { VehicleStatus } from "../domain/Vehicle";
+import { SessionService } from "./SessionService";
+import {
+    authResponseSchema,
+    balanceResponseSchema,
+    buyUsedVehicleResponseSchema,
+    createGarageResponseSchema,
+    dispatchVehicleResponseSchema,
+    envelopeSchema,
+    fireStaffResponseSchema,
+    garagesResponseSchema,
+    healthResponseSchema,
+    hireStaffResponseSchema,
+    ledgerResponseSchema,
+    licenseResponseSchema,
+    licensesResponseSchema,
+    ordersResponseSchema,
+    payrollResponseSchema,
+    placeOrderResponseSchema,
+    playerResponseSchema,
+    purchaseVehicleResponseSchema,
+    renewPermitResponseSchema,
+    saveWearResponseSchema,
+    scoreResponseSchema,
+    sellGarageResponseSchema,
+    slotsResponseSchema,
+    staffJobsResponseSchema,
+    staffResponseSchema,
+    stockResponseSchema,
+    takenListingsResponseSchema,
+    updateStaffResponseSchema,
+    updateVehicleStatusResponseSchema,
+    usedListingsResponseSchema,
+    vehicleCatalogResponseSchema,
+    vehicleHistoryResponseSchema,
+    vehiclesResponseSchema,
+    vehicleUpdatesResponseSchema,
+} from "./apiSchemas";
+import type {
+    AuthResponse,
+    BalanceResponse,
+    BuyUsedVehicleResponse,
+    CreateGarageRequest,
+    ApiEnvelope,
+    CreateGarageResponse,
+    DispatchVehicleResponse,
+    FireStaffResponse,
+    GaragesResponse,
+    HealthResponse,
+    HireStaffRequest,
+    HireStaffResponse,
+    LedgerRequest,
+    LedgerResponse,
+    LicenseResponse,
+    LicensesResponse,
+    LicenseTierRequest,
+    LoginRequest,
+    OrdersResponse,
+    PasswordResetConfirmRequest,
+    PasswordResetRequest,
+    PayrollResponse,
+    PlaceOrderRequest,
+    PlaceOrderResponse,
+    PlayerResponse,
+    PurchaseVehicleRequest,
+    PurchaseVehicleResponse,
+    RefreshRequest,
+    RenewPermitResponse,
+    ResetPasswordRequest,
+    SaveWearRequest,
+    SaveWearResponse,
+    ScoreResponse,
+    SignupRequest,
+    SellGarageResponse,
+    SlotsResponse,
+    StaffJobsResponse,
+    StaffResponse,
+    StockResponse,
+    TakenListingsResponse,
+    UpdateStaffRequest,
+    UpdateStaffResponse,
+    UpdateVehicleStatusResponse,
+    UsedListingsResponse,
+    UsernameLoginRequest,
+    VehicleCatalogResponse,
+    VehicleHistoryResponse,
+    VehiclesResponse,
+    VehicleUpdatesResponse,
+} from "./apiTypes";
+
+/**
+ * Options for a single API request.
+ * @interface RequestOptions
+ */
+export interface RequestOptions<T = unknown> {
+    method?: "GET" | "POST";
+    body?: unknown; // Serialized as JSON
+    auth?: boolean; // Attach Bearer token and refresh on 401/403 (default: true)
+    retries?: number; // Retries on network/5xx errors (default: 2 for GET, 0 otherwise)
+    retryDelay?: number; // Initial backoff in ms, doubled per retry (default: 500)
+    schema?: Schema<T>; // Validates the parsed body; omitted only for untyped callers
+}
+
+const DEFAULT_RETRY_DELAY = 500;
+
+/**
+ * Waits for the given number of milliseconds.
+ * @param ms - Delay in milliseconds.
+ * @returns {Promise<void>} Resolves after the delay.
+ */
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class ApiClient {
+    /**
+     * Sends a request through the shared pipeline and returns the parsed JSON body.
+     * @param {string} path - Path relative to API_CONFIG.BASE_URL (e.g., "/player/Kevin-Dean/balance").
+     * @param {RequestOptions<T>} [options] - Method, body, auth, retry settings, and response schema.
+     * @returns {Promise<T>} Parsed (and, with a schema, validated) response body.
+     * @throws {ApiError} On HTTP errors, "Error" envelopes, network failure after retries, or failed refresh.
+     * @throws {ResponseValidationError} If the body does not match options.schema.
+     */
+    static async request<T>(path: string, options: RequestOptions<T> = {}): Promise<T> {
+        const method = options.method ?? "GET";
+        const auth = options.auth ?? true;
+        const maxRetries = options.retries ?? (method === "GET" ? 2 : 0);
+        let delay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+        let token = auth ? SessionService.getToken() : null;
+        if (auth && token && SessionService.isExpired()) {
+            token = await SessionService.refresh();
+        }
+        if (auth && !token) {
+            throw new ApiError("Authentication required. Please log in.", 401);
+        }
+        let refreshed = false;
+        let attempt = 0;
+        while (true) {
+            let response: Response;
+            try {
+                response = await this.send(path, method, options.body, token);
+            } catch (error) {
+                if (attempt < maxRetries) {
+                    attempt++;
+                    console.warn(`ApiClient: Network error on ${method} ${path}, retry ${attempt}/${maxRetries} in ${delay}ms`);
+                    await sleep(delay);
+                    delay *= 2;
+                    continue;
+                }
+                const message = error instanceof Error ? error.message : "Network issue";
+                throw new ApiError(`Network error: ${message}`, 0);
+            }
+            if (response.status >= 500 && attempt < maxRetries) {
+                attempt++;
+                console.warn(`ApiClient: HTTP ${response.status} on ${method} ${path}, retry ${attempt}/${maxRetries} in ${delay}ms`);
+                await sleep(delay);
+                delay *= 2;
+                continue;
+            }
+            if (auth && !refreshed && (response.status === 401 || response.status === 403)) {
+                console.log(`ApiClient: ${response.status} on ${method} ${path}, refreshing token`);
+                refreshed = true;
+                token = await SessionService.refresh();
+                if (!token) {
+                    throw new ApiError("Session expired. Please log in again.", response.status);
+                }
+                continue;
+            }
+            return this.parse<T>(response, method, path, options.schema);
+        }
+    }
+
+    /**
+     * Issues the raw fetch call.
+     * @param path - Path relative to API_CONFIG.BASE_URL.
+     * @param method - HTTP method.
+     * @param body - Optional JSON body.
+     * @param token - Optional JWT for the Authorization header.
+     * @returns {Promise<Response>} Raw fetch response.
+     */
+    private static send(path: string, method: string, body: unknown, token: string | null): Promise<Response> {
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        if (token) {
+            headers.Authorization = `Bearer ${token}`;
+        }
+        return fetch(`${API_CONFIG.BASE_URL}${path}`, {
+            method,
+            headers,
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+    }
+
+    /**
+     * Parses the JSON envelope, converting HTTP errors and "Error" statuses to ApiError.
+     * @param response - Fetch response.
+     * @param method - HTTP method, for logging.
+     * @param path - Request path, for logging.
+     * @param schema - Optional schema the body must satisfy.
+     * @returns {Promise<T>} Parsed body.
+     * @throws {ApiError} If the response is not OK or reports status "Error".
+     * @throws {ResponseValidationError} If the body does not match the schema.
+     */
+    private static async parse<T>(response: Response, method: string, path: string, schema?: Schema<T>): Promise<T> {
+        const text = await response.text();
+        let body: any = null;
+        if (text) {
+            try {
+                body = JSON.parse(text);
+            } catch {
+                body = null;
+            }
+        }
+        if (!response.ok || body?.status === "Error") {
+            const message = body?.message || body?.error || text || `HTTP ${response.status}`;
+            console.error(`ApiClient: ${method} ${path} failed [${response.status}]: ${message}`);
+            throw new ApiError(message, response.status, body?.details ?? null);
+        }
+        if (body === null) {
+            throw new ApiError(`Invalid JSON response from ${path}`, response.status);
+        }
+        if (!schema) {
+            return body as T;
+        }
+        const source = `${method} ${path}`;
+        const result = schema.parse(body);
+        ValidationDiagnostics.report(source, result.issues);
+        if (!result.ok) {
+            throw new ResponseValidationError(source, result.issues, response.status);
+        }
+        return result.value;
+    }
+
+    // Auth
+
+    /** POST /api/auth/signup */
+    static signup(body: SignupRequest): Promise<AuthResponse> {
+        return this.request<AuthResponse>("/auth/signup", { method: "POST", body, auth: false, schema: authResponseSchema });
+    }
+
+    /** POST /api/auth/login */
+    static login(body: LoginRequest): Promise<AuthResponse> {
+        return this.request<AuthResponse>("/auth/login", { method: "POST", body, auth: false, schema: authResponseSchema });
+    }
+
+    /** POST /api/auth/login/username */
+    static loginUsername(body: UsernameLoginRequest): Promise<AuthResponse> {
+        return this.request<AuthResponse>("/auth/login/username", { method: "POST", body, auth: false, schema: authResponseSchema });
+    }
+
+    /** POST /api/auth/refresh */
+    static refreshSession(body: RefreshRequest): Promise<AuthResponse> {
+        return this.request<AuthResponse>("/auth/refresh", { method: "POST", body, auth: false, schema: authResponseSchema });
+    }
+
+    /** POST /api/auth/logout (revokes the refresh token) */
+    static logout(body: RefreshRequest): Promise<ApiEnvelope> {
+        return this.request<ApiEnvelope>("/auth/logout", { method: "POST", body, auth: false, schema: envelopeSchema });
+    }
+
+    /** POST /api/auth/reset-password */
+    static resetPassword(body: ResetPasswordRequest): Promise<ApiEnvelope> {
+        return this.request<ApiEnvelope>("/auth/reset-password", { method: "POST", body, schema: envelopeSchema });
+    }
+
+    /** POST /api/auth/reset-password/request */
+    static requestPasswordReset(body: PasswordResetRequest): Promise<ApiEnvelope> {
+        return this.request<ApiEnvelope>("/auth/reset-password/request", { method: "POST", body, auth: false, schema: envelopeSchema });
+    }
+
+    /** POST /api/auth/reset-password/confirm */
+    static confirmPasswordReset(body: PasswordResetConfirmRequest): Promise<ApiEnvelope> {
+        return this.request<ApiEnvelope>("/auth/reset-password/confirm", { method: "POST", body, auth: false, schema: envelopeSchema });
+    }
+
+    // Health
+
+    /** GET /api/health */
+    static getHealth(): Promise<HealthResponse> {
+        return this.request<HealthResponse>("/health", { auth: false, schema: healthResponseSchema });
+    }
+
+    // Player
+
+    /** GET /api/player/:player_id */
+    static getPlayer(playerId: number): Promise<PlayerResponse> {
+        return this.request<PlayerResponse>(`/player/${playerId}`, { schema: playerResponseSchema });
+    }
+
+    /** GET /api/player/:username/balance (also accepts player_id) */
+    static getBalance(player: string | number): Promise<BalanceResponse> {
+        return this.request<BalanceResponse>(`/player/${encodeURIComponent(player)}/balance`, { schema: balanceResponseSchema });
+    }
+
+    /** GET /api/player/:username/score */
+    static getScore(player: string | number): Promise<ScoreResponse> {
+        return this.request<ScoreResponse>(`/player/${encodeURIComponent(player)}/score`, { schema: scoreResponseSchema });
+    }
+
+    /** GET /api/player/:username/slots (also accepts player_id) */
+    static getSlots(player: string | number): Promise<SlotsResponse> {
+        return this.request<SlotsResponse>(`/player/${encodeURIComponent(player)}/slots`, { schema: slotsResponseSchema });
+    }
+
+    // Vehicles
+
+    /** POST /api/vehicles/purchase */
+    static purchaseVehicle(body: PurchaseVehicleRequest): Promise<PurchaseVehicleResponse> {
+        return this.request<PurchaseVehicleResponse>("/vehicles/purchase", { method: "POST", body, schema: purchaseVehicleResponseSchema });
+    }
+
+    /** GET /api/vehicles/:player_id */
+    static getVehiclesByPlayerId(playerId: number, status?: string): Promise<VehiclesResponse> {
+        const query = status ? `?status=${encodeURIComponent(status)}` : "";
+        return this.request<VehiclesResponse>(`/vehicles/${playerId}${query}`, { schema: vehiclesResponseSchema });
+    }
+
+    /** GET /api/player/:username/vehicles */
+    static getPlayerVehicles(username: string, status?: string): Promise<VehiclesResponse> {
+        const query = status ? `?status=${encodeURIComponent(status)}` : "";
+        return this.request<VehiclesResponse>(`/player/${encodeURIComponent(username)}/vehicles${query}`, { schema: vehiclesResponseSchema });
+    }
+
+    /** GET /api/vehicles/others */
+    static getOtherVehicles(status?: string): Promise<VehiclesResponse> {
+        const query = status ? `?status=${encodeURIComponent(status)}` : "";
+        return this.request<VehiclesResponse>(`/vehicles/others${query}`, { schema: vehiclesResponseSchema });
+    }
+
+    /** POST /api/vehicles/:vehicle_id/status (a sale is priced from the stored wear; save it first with saveVehicleWear) */
+    static updateVehicleStatus(vehicleId: string, status: VehicleStatus): Promise<UpdateVehicleStatusResponse> {
+        return this.request<UpdateVehicleStatusResponse>(`/vehicles/${encodeURIComponent(vehicleId)}/status`, {
+            method: "POST",
+            body: { status },
+            schema: updateVehicleStatusResponseSchema,
+        });
+    }
+
+    /** POST /api/vehicles/:vehicle_id/wear */
+    static saveVehicleWear(vehicleId: string, body: SaveWearRequest): Promise<SaveWearResponse> {
+        return this.request<SaveWearResponse>(`/vehicles/${encodeURIComponent(vehicleId)}/wear`, {
+            method: "POST",
+            body,
+            schema: saveWearResponseSchema,
+        });
+    }
+
+    /** POST /api/vehicles/:vehicle_id/dispatch */
+    static dispatchVehicle(vehicleId: string, dest: [number, number]): Promise<DispatchVehicleResponse> {
+        return this.request<DispatchVehicleResponse>(`/vehicles/${encodeURIComponent(vehicleId)}/dispatch`, {
+            method: "POST",
+            body: { dest },
+            schema: dispatchVehicleResponseSchema,
+        });
+    }
+
+    /** GET /api/vehicles/:vehicle_id/history */
+    static getVehicleHistory(vehicleId: string): Promise<VehicleHistoryResponse> {
+        return this.request<VehicleHistoryResponse>(`/vehicles/${encodeURIComponent(vehicleId)}/history`, { schema: vehicleHistoryResponseSchema });
+    }
+
+    /** GET /api/vehicles/updates?since= (polling fallback for RealtimeService) */
+    static getVehicleUpdates(since?: string): Promise<ApiEnvelope & VehicleUpdatesResponse> {
+        const query = since ? `?since=${encodeURIComponent(since)}` : "";
+        return this.request<ApiEnvelope & VehicleUpdatesResponse>(`/vehicles/updates${query}`, { schema: vehicleUpdatesResponseSchema });
+    }
+
+    // Garages
+
+    /** GET /api/garages/:player_id */
+    static getGaragesByPlayerId(playerId: number): Promise<GaragesResponse> {
+        return this.request<GaragesResponse>(`/garages/${playerId}`, { schema: garagesResponseSchema });
+    }
+
+    /** GET /api/player/:username/garages */
+    static getPlayerGarages(username: string): Promise<GaragesResponse> {
+        return this.request<GaragesResponse>(`/player/${encodeURIComponent(username)}/garages`, { schema: garagesResponseSchema });
+    }
+
+    /** POST /api/garages */
+    static createGarage(body: CreateGarageRequest): Promise<CreateGarageResponse> {
+        return this.request<CreateGarageResponse>("/garages", { method: "POST", body, schema: createGarageResponseSchema });
+    }
+
+    /** POST /api/garages/:garage_id/sell (sells an owned property, ends a lease) */
+    static sellGarage(garageId: number): Promise<SellGarageResponse> {
+        return this.request<SellGarageResponse>(`/garages/${garageId}/sell`, { method: "POST", schema: sellGarageResponseSchema });
+    }
+
+    /** GET /api/garages/listings (listings held by any player) */
+    static getTakenListings(): Promise<TakenListingsResponse> {
+        return this.request<TakenListingsResponse>("/garages/listings", { schema: takenListingsResponseSchema });
+    }
+
+    /** GET /api/staff (the player's garage staff) */
+    static getStaff(): Promise<StaffResponse> {
+        return this.request<StaffResponse>("/staff", { schema: staffResponseSchema });
+    }
+
+    /** POST /api/staff (hires an applicant, charges the first month) */
+    static hireStaff(body: HireStaffRequest): Promise<HireStaffResponse> {
+        return this.request<HireStaffResponse>("/staff", { method: "POST", body, schema: hireStaffResponseSchema });
+    }
+
+    /** POST /api/staff/:staff_id/update (reassigns a garage, replaces the schedule) */
+    static updateStaff(staffId: number, body: UpdateStaffRequest): Promise<UpdateStaffResponse> {
+        return this.request<UpdateStaffResponse>(`/staff/${staffId}/update`, { method: "POST", body, schema: updateStaffResponseSchema });
+    }
+
+    /** POST /api/staff/:staff_id/jobs (adds finished jobs toward the next level) */
+    static recordStaffJobs(staffId: number, count: number): Promise<StaffJobsResponse> {
+        return this.request<StaffJobsResponse>(`/staff/${staffId}/jobs`, { method: "POST", body: { count }, schema: staffJobsResponseSchema });
+    }
+
+    /** POST /api/staff/:staff_id/fire */
+    static fireStaff(staffId: number): Promise<FireStaffResponse> {
+        return this.request<FireStaffResponse>(`/staff/${staffId}/fire`, { method: "POST", schema: fireStaffResponseSchema });
+    }
+
+    /** POST /api/staff/payroll (bills salaries due; unpaid staff leave) */
+    static runPayroll(): Promise<PayrollResponse> {
+        return this.request<PayrollResponse>("/staff/payroll", { method: "POST", schema: payrollResponseSchema });
+    }
+
+    /** GET /api/orders (the player's orders; delivers those that are due) */
+    static getOrders(): Promise<OrdersResponse> {
+        return this.request<OrdersResponse>("/orders", { schema: ordersResponseSchema });
+    }
+
+    /** POST /api/orders (orders a vehicle for a garage, charges the price) */
+    static placeOrder(body: PlaceOrderRequest): Promise<PlaceOrderResponse> {
+        return this.request<PlaceOrderResponse>("/orders", { method: "POST", body, schema: placeOrderResponseSchema });
+    }
+
+    /** GET /api/catalog/vehicles (every model with its price, specs and availability; public) */
+    static getVehicleCatalog(): Promise<VehicleCatalogResponse> {
+        return this.request<VehicleCatalogResponse>("/catalog/vehicles", { auth: false, schema: vehicleCatalogResponseSchema });
+    }
+
+    /** GET /api/market/used (used vehicles for sale until the stock rotates) */
+    static getUsedListings(): Promise<UsedListingsResponse> {
+        return this.request<UsedListingsResponse>("/market/used", { schema: usedListingsResponseSchema });
+    }
+
+    /** POST /api/market/used/:listing_id/buy (hands the vehicle over at a garage or lot, charges the price) */
+    static buyUsedVehicle(listingId: string, garageId: number): Promise<BuyUsedVehicleResponse> {
+        return this.request<BuyUsedVehicleResponse>(`/market/used/${encodeURIComponent(listingId)}/buy`, {
+            method: "POST",
+            body: { garage_id: garageId },
+            schema: buyUsedVehicleResponseSchema,
+        });
+    }
+
+    /** GET /api/orders/stock (the service center's stock today) */
+    static getStock(): Promise<StockResponse> {
+        return this.request<StockResponse>("/orders/stock", { schema: stockResponseSchema });
+    }
+
+    /** GET /api/licenses (license tier, vehicle cap and every vehicle's taxi permit) */
+    static getLicenses(): Promise<LicensesResponse> {
+        return this.request<LicensesResponse>("/licenses", { schema: licensesResponseSchema });
+    }
+
+    /** POST /api/licenses/tier (returns to the free license; the Taxi License is refused with 403) */
+    static setLicenseTier(body: LicenseTierRequest): Promise<LicenseResponse> {
+        return this.request<LicenseResponse>("/licenses/tier", { method: "POST", body, schema: licenseResponseSchema });
+    }
+
+    /** POST /api/licenses/permits/:vehicle_id/renew (adds a year to a vehicle's permit, charges the fee) */
+    static renewPermit(vehicleId: string): Promise<RenewPermitResponse> {
+        return this.request<RenewPermitResponse>(`/licenses/permits/${encodeURIComponent(vehicleId)}/renew`, {
+            method: "POST",
+            schema: renewPermitResponseSchema,
+        });
+    }
+
+    /** POST /api/ledger (reports what the fare simulation earned; the server prices it and returns the new balance) */
+    static recordLedger(body: LedgerRequest): Promise<LedgerResponse> {
+        return this.request<LedgerResponse>("/ledger", { method: "POST", body, schema: ledgerResponseSchema });
+    }
+}
@@ -0,0 +1,171 @@
+// src/services/LedgerService.ts
+/**
+ * @file LedgerService.ts
+ * @description Reports what the CyberTaxi fare simulation earns and spends to the server, which prices it and keeps the balance.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.2
+ * @note Entries go to POST /api/ledger (ApiClient.recordLedger) in batches of up to MAX_BATCH. Every answer carries the
+ *       server's new bank_balance and score, which onStats listeners (CyberContext) show, so the MenuBar and every
+ *       purchase check read the balance the server will charge against.
+ * @detail Entries wait in a queue kept in localStorage per player, so earnings survive a reload or an outage. A report
+ *         that fails on the network or with a 5xx stays queued and is retried after RETRY_MS; without a session it waits
+ *         for CyberContext to flush again at the next login. Entries the server rejects, and reports it refuses outright
+ *         (any other 4xx), are logged and dropped. Each entry's ref makes a retry safe: the server records it once.
+ */
+import { ApiError } from "../utils/errorhandling/ApiError";
+import { ApiClient } from "./ApiClient";
+import type { LedgerEntry } from "./apiTypes";
+
+const QUEUE_KEY = "ledger_queue"; // Suffixed with the player_id
+const MAX_BATCH = 50; // Most entries the server takes in one report
+const RETRY_MS = 30000;
+
+/**
+ * The player's balance and score as the server has them after a report.
+ * @interface LedgerStats
+ */
+export interface LedgerStats {
+    bankBalance: number;
+    score: number;
+}
+
+export class LedgerService {
+    /** In-flight flush shared by every caller. */
+    private static flushing: Promise<void> | null = null;
+    private static retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private static statsListeners = new Set<(stats: LedgerStats) => void>();
+
+    /**
+     * Queues entries and reports them.
+     * @param {LedgerEntry[]} entries - Fares, charges and maintenance jobs, each with a ref unique for its kind.
+     */
+    static record(entries: LedgerEntry[]): void {
+        if (entries.length === 0) {
+            return;
+        }
+        this.write([...this.read(), ...entries]);
+        void this.flush();
+    }
+
+    /**
+     * Reports the queued entries, one batch at a time, until the queue is empty or a report fails.
+     * @returns {Promise<void>} Resolves when done; never rejects.
+     */
+    static flush(): Promise<void> {
+        if (!this.flushing) {
+            this.flushing = this.send().finally(() => {
+                this.flushing = null;
+            });
+        }
+        return this.flushing;
+    }
+
+    /**
+     * Entries waiting to be reported for the current player.
+     * @returns {number} Queue length.
+     */
+    static pending(): number {
+        return this.read().length;
+    }
+
+    /**
+     * Registers a listener called with the server's balance and score after every report.
+     * @param {(stats: LedgerStats) => void} listener - Callback, typically CyberProvider's stats setters.
+     * @returns {() => void} Unsubscribe function.
+     */
+    static onStats(listener: (stats: LedgerStats) => void): () => void {
+        this.statsListeners.add(listener);
+        return () => {
+            this.statsListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Cancels a scheduled retry (on logout). The queue stays stored for the player's next session.
+     */
+    static stop(): void {
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+    }
+
+    /**
+     * Sends batches until the queue is empty, dropping what the server answered for.
+     */
+    private static async send(): Promise<void> {
+        this.stop();
+        while (true) {
+            const batch = this.read().slice(0, MAX_BATCH);
+            if (batch.length === 0) {
+                return;
+            }
+            try {
+                const result = await ApiClient.recordLedger({ entries: batch });
+                result.rejected.forEach((rejection) => console.error(`LedgerService: ${rejection.ref} rejected: ${rejection.message}`));
+                this.drop(batch);
+                console.log(`LedgerService: Reported ${result.recorded.length} entries, bank $${result.bank_balance.toFixed(2)}`);
+                const stats: LedgerStats = { bankBalance: result.bank_balance, score: result.score };
+                this.statsListeners.forEach((listener) => listener(stats));
+            } catch (error) {
+                if (error instanceof ApiError && error.isAuthError()) {
+                    console.warn(`LedgerService: No session, ${batch.length}+ entries wait for the next login`);
+                    return;
+                }
+                if (error instanceof ApiError && error.status >= 400 && error.status < 500) {
+                    console.error(`LedgerService: Report refused, dropping ${batch.length} entries:`, error);
+                    this.drop(batch);
+                    continue;
+                }
+                console.warn(`LedgerService: Report failed, retrying in ${RETRY_MS / 1000}s:`, error);
+                this.retryTimer = setTimeout(() => {
+                    this.retryTimer = null;
+                    void this.flush();
+                }, RETRY_MS);
+                return;
+            }
+        }
+    }
+
+    /**
+     * Removes answered entries; entries queued while the report was out stay.
+     * @param {LedgerEntry[]} answered - Entries of the report.
+     */
+    private static drop(answered: LedgerEntry[]): void {
+        const keys = new Set(answered.map((entry) => `${entry.kind}:${entry.ref}`));
+        this.write(this.read().filter((entry) => !keys.has(`${entry.kind}:${entry.ref}`)));
+    }
+
+    /**
+     * Storage key of the current player's queue.
+     * @returns {string} QUEUE_KEY with the stored player_id.
+     */
+    private static key(): string {
+        return `${QUEUE_KEY}_${localStorage.getItem("player_id") ?? "guest"}`;
+    }
+
+    /**
+     * Reads the queue.
+     * @returns {LedgerEntry[]} Stored entries, or none if absent or malformed.
+     */
+    private static read(): LedgerEntry[] {
+        try {
+            const stored = JSON.parse(localStorage.getItem(this.key()) || "[]");
+            return Array.isArray(stored) ? stored : [];
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Stores the queue, removing the key when it is empty.
+     * @param {LedgerEntry[]} entries - Queue.
+     */
+    private static write(entries: LedgerEntry[]): void {
+        if (entries.length === 0) {
+            localStorage.removeItem(this.key());
+            return;
+        }
+        localStorage.setItem(this.key(), JSON.stringify(entries));
+    }
+}
@@ -3,11 +3,15 @@
  * @file LoginService.ts
  * @description Service class for handling login and signup API calls in CyberTaxi.
  * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
- * @version 0.1.7
+ * @version 0.2.1
  * @note Manages authentication requests to the backend, isolating API logic from UI components.
- * @detail Uses API_CONFIG.BASE_URL for dynamic endpoint configuration, aligned with API documentation, with debug logging.
+ * @detail Delegates HTTP, envelope parsing, and error mapping to ApiClient; successful logins start a SessionService session.
+ *         Password reset uses MockPasswordResetBackend instead of the server when API_CONFIG.MOCK_PASSWORD_RESET is set.
  */
 import { API_CONFIG } from "../config/apiConfig";
+import { ApiClient } from "./ApiClient";
+import { MockPasswordResetBackend } from "./MockPasswordResetBackend";
+import { SessionService } from "./SessionService";
 
 export class LoginService {
     /**
@@ -15,30 +19,18 @@ export class LoginService {
      * @param {string} username - User’s username.
      * @param {string} password - User’s password.
      * @returns {Promise<{ token: string; player_id?: number } | null>} Login result or null on failure.
-     * @throws {Error} If the HTTP request fails or the response is invalid.
+     * @throws {ApiError} If the HTTP request fails or the response is invalid.
      */
     static async login(username: string, password: string): Promise<{ token: string; player_id?: number } | null> {
         try {
             console.log(`Attempting login with username: ${username}, password: [provided]`);
-            const requestBody = { username, password };
-            console.log("Login request body:", requestBody); // Debug request payload
-            const response = await fetch(`${API_CONFIG.BASE_URL}/auth/login/username`, {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify(requestBody),
-            });
-            console.log(`Login response status: ${response.status}`); // Debug status
-            if (!response.ok) {
-                const errorText = await response.text();
-                console.error("Login response error:", errorText); // Debug full error
-                throw new Error(`Login failed: ${errorText}`);
+            const result = await ApiClient.loginUsername({ username, password });
+            console.log("Login response status:", result.status);
+            if (!result.token) {
+                return null;
             }
-            const result = await response.json();
-            console.log("Login response:", result);
-            if (result.status === "Success" && result.token) {
-                return result;
-            }
-            return null;
+            SessionService.start(result.token, result.refresh_token);
+            return { token: result.token, player_id: result.player_id };
         } catch (error) {
             console.error("Login error:", error);
             throw error instanceof Error ? error : new Error("Network issue during login");
@@ -51,33 +43,51 @@ export class LoginService {
      * @param {string} email - User’s email.
      * @param {string} password - User’s password.
      * @returns {Promise<{ token: string; player_id?: number } | null>} Signup result or null on failure.
-     * @throws {Error} If the HTTP request fails or the response is invalid.
+     * @throws {ApiError} If the HTTP request fails or the response is invalid.
      */
     static async signup(username: string, email: string, password: string): Promise<{ token: string; player_id?: number } | null> {
         try {
             console.log(`Attempting signup with username: ${username}`);
-            const requestBody = { username, email, password };
-            console.log("Signup request body:", requestBody); // Debug request payload
-            const response = await fetch(`${API_CONFIG.BASE_URL}/auth/signup`, {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify(requestBody),
-            });
-            console.log(`Signup response status: ${response.status}`); // Debug status
-            if (!response.ok) {
-                const errorText = await response.text();
-                console.error("Signup response error:", errorText); // Debug full error
-                throw new Error(`Signup failed: ${errorText}`);
-            }
-            const result = await response.json();
-            console.log("Signup response:", result);
-            if (result.status === "Success" && result.token) {
-                return result;
+            const result = await ApiClient.signup({ username, email, password });
+            console.log("Signup response status:", result.status);
+            if (!result.token) {
+                return null;
             }
-            return null;
+            SessionService.start(result.token, result.refresh_token);
+            return { token: result.token, player_id: result.player_id };
         } catch (error) {
             console.error("Signup error:", error);
             throw error instanceof Error ? error : new Error("Network issue during signup");
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Requests a password reset code for the account with the given email.
+     * @param {string} email - Account email.
+     * @returns {Promise<string>} Message to show the user (does not reveal whether the email exists).
+     * @throws {ApiError} If the request fails.
+     */
+    static async requestPasswordReset(email: string): Promise<string> {
+        console.log(`Requesting password reset for email: ${email}${API_CONFIG.MOCK_PASSWORD_RESET ? " (mock)" : ""}`);
+        const result = API_CONFIG.MOCK_PASSWORD_RESET
+            ? await MockPasswordResetBackend.requestReset(email)
+            : await ApiClient.requestPasswordReset({ email });
+        return result.message || "Reset code sent";
+    }
+
+    /**
+     * Sets a new password using a reset code.
+     * @param {string} email - Account email the code was sent to.
+     * @param {string} token - Reset code from the email.
+     * @param {string} newPassword - New password (must satisfy passwordPolicy).
+     * @returns {Promise<string>} Confirmation message.
+     * @throws {ApiError} If the code is invalid, expired or out of attempts, or the password is rejected.
+     */
+    static async confirmPasswordReset(email: string, token: string, newPassword: string): Promise<string> {
+        console.log(`Confirming password reset${API_CONFIG.MOCK_PASSWORD_RESET ? " (mock)" : ""}`);
+        const result = API_CONFIG.MOCK_PASSWORD_RESET
+            ? await MockPasswordResetBackend.confirmReset(email, token, newPassword)
+            : await ApiClient.confirmPasswordReset({ email, token: token.trim(), new_password: newPassword });
+        return result.message || "Password updated";
+    }
+}
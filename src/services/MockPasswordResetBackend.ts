@@ -0,0 +1,90 @@
+// src/services/MockPasswordResetBackend.ts
+/**
+ * @file MockPasswordResetBackend.ts
+ * @description In-browser stand-in for the password reset endpoints, used when API_CONFIG.MOCK_PASSWORD_RESET is set.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.1
+ * @note Lets the two-step reset flow in LoginForm run offline: codes are "emailed" to the console and kept in memory.
+ * @detail Mirrors the server contract (15-minute codes of 16 hex characters, matched to the email, five wrong tries
+ *         per code, all of an email's codes ended by one use, same strength policy and error messages) but cannot
+ *         change a real account's password.
+ */
+import { ApiError } from "../utils/errorhandling/ApiError";
+import { checkPasswordStrength } from "../utils/validation/passwordPolicy";
+import type { ApiEnvelope } from "./apiTypes";
+
+const CODE_TTL_MS = 15 * 60 * 1000;
+const CODE_BYTES = 8;
+const MAX_ATTEMPTS = 5;
+
+/**
+ * Pending reset code.
+ * @interface MockResetEntry
+ */
+interface MockResetEntry {
+    email: string;
+    expiresAt: number;
+    attempts: number;
+}
+
+export class MockPasswordResetBackend {
+    private static codes = new Map<string, MockResetEntry>();
+    private static outbox: { email: string; code: string }[] = [];
+
+    /**
+     * Issues a reset code and "emails" it by logging to the console.
+     * @param {string} email - Account email.
+     * @returns {Promise<ApiEnvelope>} Generic success envelope, as the server returns.
+     */
+    static async requestReset(email: string): Promise<ApiEnvelope> {
+        const code = Array.from(crypto.getRandomValues(new Uint8Array(CODE_BYTES)))
+            .map((b) => b.toString(16).padStart(2, "0"))
+            .join("")
+            .toUpperCase();
+        this.codes.set(code, { email, expiresAt: Date.now() + CODE_TTL_MS, attempts: 0 });
+        this.outbox.push({ email, code });
+        console.log(`MockPasswordResetBackend: [mock email] To: ${email} - your CyberTaxi reset code is ${code}`);
+        return { status: "Success", message: "If that email is registered, a reset code has been sent" };
+    }
+
+    /**
+     * Consumes a reset code.
+     * @param {string} email - Account email the code was sent to.
+     * @param {string} token - Reset code.
+     * @param {string} newPassword - New password.
+     * @returns {Promise<ApiEnvelope>} Success envelope.
+     * @throws {ApiError} 400 if the password is weak or the code is unknown, another email's, used, expired or out of
+     *         attempts.
+     */
+    static async confirmReset(email: string, token: string, newPassword: string): Promise<ApiEnvelope> {
+        const weakness = checkPasswordStrength(newPassword);
+        if (weakness) {
+            throw new ApiError("Password too weak", 400, weakness);
+        }
+        const outstanding = [...this.codes].filter(
+            ([, entry]) => entry.email === email && entry.expiresAt > Date.now() && entry.attempts < MAX_ATTEMPTS
+        );
+        const key = token.trim().toUpperCase();
+        if (!outstanding.some(([code]) => code === key)) {
+            outstanding.forEach(([, entry]) => entry.attempts++);
+            throw new ApiError("Invalid or expired reset code", 400, "Request a new code and try again");
+        }
+        [...this.codes].filter(([, entry]) => entry.email === email).forEach(([code]) => this.codes.delete(code));
+        console.log(`MockPasswordResetBackend: Password reset accepted for ${email}`);
+        return { status: "Success", message: "Password updated" };
+    }
+
+    /**
+     * Returns the most recent code sent to an email, for manual or automated testing.
+     * @param {string} email - Account email.
+     * @returns {string | null} Latest code, or null if none was sent.
+     */
+    static lastCodeFor(email: string): string | null {
+        for (let i = this.outbox.length - 1; i >= 0; i--) {
+            if (this.outbox[i].email === email) {
+                return this.outbox[i].code;
+            }
+        }
+        return null;
+    }
+}
@@ -0,0 +1,137 @@
+// src/services/NotificationService.ts
+/**
+ * @file NotificationService.ts
+ * @description In-game notifications for CyberTaxi (deliveries and other events the player should not miss).
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.2.0
+ * @note Hooks call NotificationService.notify; NotificationToasts (components/ui/controls) subscribes and shows them
+ *       over the map until dismissed or MAX_AGE_MS passes.
+ * @detail Keeps the newest MAX_ACTIVE notifications; listeners are notified synchronously on every change. When the
+ *         browser's Notification permission has been granted (requestPermission) and the tab is hidden, a system
+ *         notification is shown as well, so a delivery is not missed while the game is in the background.
+ *         A notification may offer actions (e.g. "Reroute" for a protest); it stays until the player picks one or
+ *         dismisses it, and picking one runs it and dismisses the notification.
+ */
+
+const MAX_ACTIVE = 5;
+const MAX_AGE_MS = 12000; // Toasts dismiss themselves after this long
+
+/**
+ * A choice offered on a notification.
+ * @interface NotificationAction
+ */
+export interface NotificationAction {
+    label: string;
+    run: () => void;
+}
+
+/**
+ * A notification shown to the player.
+ * @interface GameNotification
+ */
+export interface GameNotification {
+    id: number;
+    title: string;
+    message: string;
+    icon: string; // Font Awesome class
+    timestamp: Date;
+    actions: NotificationAction[]; // Buttons; empty for information only
+}
+
+export class NotificationService {
+    private static active: GameNotification[] = [];
+    private static listeners = new Set<(notifications: GameNotification[]) => void>();
+    private static nextId = 1;
+
+    /**
+     * Shows a notification.
+     * @param {string} title - Short heading.
+     * @param {string} message - One line of detail.
+     * @param {string} [icon="fa-bell"] - Font Awesome class.
+     * @param {NotificationAction[]} [actions=[]] - Choices for the player; the notification then waits for one.
+     * @returns {number} Notification id, for dismiss.
+     */
+    static notify(title: string, message: string, icon: string = "fa-bell", actions: NotificationAction[] = []): number {
+        const notification: GameNotification = { id: this.nextId++, title, message, icon, timestamp: new Date(), actions };
+        this.active = [notification, ...this.active].slice(0, MAX_ACTIVE);
+        console.log(`NotificationService: ${title}: ${message}`);
+        this.notifyListeners();
+        if (actions.length === 0) {
+            window.setTimeout(() => this.dismiss(notification.id), MAX_AGE_MS);
+        }
+        if (typeof Notification !== "undefined" && Notification.permission === "granted" && document.hidden) {
+            try {
+                new Notification(title, { body: message, tag: `cybertaxi-${notification.id}` });
+            } catch (error) {
+                console.warn("NotificationService: System notification failed:", error);
+            }
+        }
+        return notification.id;
+    }
+
+    /**
+     * Removes a notification; ignored if already gone.
+     * @param {number} id - Notification id.
+     */
+    static dismiss(id: number): void {
+        if (!this.active.some((notification) => notification.id === id)) {
+            return;
+        }
+        this.active = this.active.filter((notification) => notification.id !== id);
+        this.notifyListeners();
+    }
+
+    /**
+     * Runs one of a notification's actions and dismisses it; ignored if the notification is already gone.
+     * @param {number} id - Notification id.
+     * @param {number} index - Index into its actions.
+     */
+    static act(id: number, index: number): void {
+        const action = this.active.find((notification) => notification.id === id)?.actions[index];
+        if (!action) {
+            return;
+        }
+        this.dismiss(id);
+        try {
+            action.run();
+        } catch (error) {
+            console.error(`NotificationService: Action ${action.label} failed:`, error);
+        }
+    }
+
+    /**
+     * Current notifications, newest first.
+     * @returns {GameNotification[]} Notifications.
+     */
+    static getActive(): GameNotification[] {
+        return this.active;
+    }
+
+    /**
+     * Asks the browser for system notifications; does nothing once answered or where unsupported.
+     */
+    static requestPermission(): void {
+        if (typeof Notification === "undefined" || Notification.permission !== "default") {
+            return;
+        }
+        Notification.requestPermission().catch((error) => {
+            console.warn("NotificationService: Permission request failed:", error);
+        });
+    }
+
+    /**
+     * Subscribes to notification changes.
+     * @param {(notifications: GameNotification[]) => void} listener - Called with the new notification list.
+     * @returns {() => void} Unsubscribe function.
+     */
+    static subscribe(listener: (notifications: GameNotification[]) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private static notifyListeners(): void {
+        this.listeners.forEach((listener) => listener(this.active));
+    }
+}
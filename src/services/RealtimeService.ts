@@ -0,0 +1,411 @@
+// src/services/RealtimeService.ts
+/**
+ * @file RealtimeService.ts
+ * @description Realtime channel pushing vehicle position/status/battery deltas to the CyberTaxi client.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.2
+ * @note Started and stopped by CyberContext with the login state; mapping hooks subscribe through onDeltas/onResync and
+ *       MenuBar shows getStatus() as the connection indicator. The client-side fare simulation publishes its own
+ *       deltas through publishLocal() so every subscriber sees simulated moves the same way as server ones.
+ * @detail Transports are tried in order: WebSocket (only when API_CONFIG.REALTIME_WS_URL is set), Server-Sent Events
+ *         (GET /api/vehicles/stream), then polling GET /api/vehicles/updates. A transport that fails before it ever
+ *         opens falls through to the next one; once open, drops reconnect with exponential backoff (1s up to 30s).
+ *         The last server_time is kept as the cursor and sent as since on reconnect; the server sends the cursor's
+ *         second again (updated_at has one-second precision), so deltas already applied for it are dropped here.
+ *         Listeners are still asked to resync after every reconnect.
+ */
+import { API_CONFIG } from "../config/apiConfig";
+import type { VehicleDelta } from "../domain/Vehicle";
+import { ValidationDiagnostics } from "../utils/validation/ValidationDiagnostics";
+import { ApiClient } from "./ApiClient";
+import { SessionService } from "./SessionService";
+import { vehicleUpdatesSchema } from "./apiSchemas";
+import type { VehicleUpdatesResponse } from "./apiTypes";
+
+export type RealtimeTransport = "websocket" | "sse" | "poll";
+export type RealtimeConnection = "offline" | "connecting" | "live" | "reconnecting";
+
+/**
+ * Current state of the realtime channel.
+ * @interface RealtimeStatus
+ */
+export interface RealtimeStatus {
+    connection: RealtimeConnection;
+    transport: RealtimeTransport | null; // Null while offline
+}
+
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30000;
+
+/**
+ * Lists the transports this browser and build can use, preferred first.
+ * @returns {RealtimeTransport[]} Candidate transports; polling is always last.
+ */
+const availableTransports = (): RealtimeTransport[] => {
+    const transports: RealtimeTransport[] = [];
+    if (API_CONFIG.REALTIME_WS_URL && typeof WebSocket !== "undefined") {
+        transports.push("websocket");
+    }
+    if (typeof EventSource !== "undefined") {
+        transports.push("sse");
+    }
+    transports.push("poll");
+    return transports;
+};
+
+export class RealtimeService {
+    private static status: RealtimeStatus = { connection: "offline", transport: null };
+    private static running = false;
+    private static transports: RealtimeTransport[] = [];
+    private static transportIndex = 0;
+    private static attempt = 0; // Consecutive failed reconnects, drives the backoff
+    private static opened = false; // Current connection has opened
+    private static everOpened = false; // Any connection has opened since start(); later opens trigger a resync
+    private static generation = 0; // Bumped on teardown so late callbacks from closed connections are ignored
+    private static cursor: string | null = null;
+    private static cursorSeen = new Set<string>(); // Deltas already applied for the cursor's second, as JSON
+    private static socket: WebSocket | null = null;
+    private static source: EventSource | null = null;
+    private static pollTimer: ReturnType<typeof setTimeout> | null = null;
+    private static reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private static unsubscribeRefreshed: (() => void) | null = null;
+    private static deltaListeners = new Set<(deltas: VehicleDelta[]) => void>();
+    private static resyncListeners = new Set<() => void>();
+    private static statusListeners = new Set<(status: RealtimeStatus) => void>();
+
+    /**
+     * Opens the channel for the current session. No-op if already running.
+     */
+    static start(): void {
+        if (this.running) {
+            return;
+        }
+        this.running = true;
+        this.transports = availableTransports();
+        this.transportIndex = 0;
+        this.attempt = 0;
+        this.everOpened = false;
+        this.cursor = null;
+        this.cursorSeen.clear();
+        // WebSocket and SSE carry the access token in the URL, so reconnect with each rotated token
+        this.unsubscribeRefreshed = SessionService.onRefreshed(() => this.restart());
+        console.log(`RealtimeService: Starting, transports: ${this.transports.join(", ")}`);
+        this.connect();
+    }
+
+    /**
+     * Closes the channel and forgets the cursor, typically on logout.
+     */
+    static stop(): void {
+        if (!this.running) {
+            return;
+        }
+        this.running = false;
+        this.teardown();
+        this.unsubscribeRefreshed?.();
+        this.unsubscribeRefreshed = null;
+        this.cursor = null;
+        this.cursorSeen.clear();
+        this.setStatus({ connection: "offline", transport: null });
+        console.log("RealtimeService: Stopped");
+    }
+
+    /**
+     * Reconnects the current transport immediately, keeping the cursor.
+     */
+    static restart(): void {
+        if (!this.running || this.transports[this.transportIndex] === "poll") {
+            return; // Polling goes through ApiClient, which picks up new tokens itself
+        }
+        this.teardown();
+        this.attempt = 0;
+        this.connect();
+    }
+
+    /**
+     * Gets the current connection state.
+     * @returns {RealtimeStatus} Connection and transport.
+     */
+    static getStatus(): RealtimeStatus {
+        return this.status;
+    }
+
+    /**
+     * Delivers deltas produced in the client (fare simulation) to every delta listener.
+     * @param {VehicleDelta[]} deltas - Changes to apply, oldest first.
+     */
+    static publishLocal(deltas: VehicleDelta[]): void {
+        if (deltas.length === 0) {
+            return;
+        }
+        this.deltaListeners.forEach((listener) => listener(deltas));
+    }
+
+    /**
+     * Registers a listener for validated vehicle deltas.
+     * @param {(deltas: VehicleDelta[]) => void} listener - Callback, typically a mapping hook merging into its state.
+     * @returns {() => void} Unsubscribe function.
+     */
+    static onDeltas(listener: (deltas: VehicleDelta[]) => void): () => void {
+        this.deltaListeners.add(listener);
+        return () => {
+            this.deltaListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Registers a listener called after a reconnect, when updates may have been missed and lists should be refetched.
+     * @param {() => void} listener - Callback.
+     * @returns {() => void} Unsubscribe function.
+     */
+    static onResync(listener: () => void): () => void {
+        this.resyncListeners.add(listener);
+        return () => {
+            this.resyncListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Registers a listener for connection state changes.
+     * @param {(status: RealtimeStatus) => void} listener - Callback, typically CyberContext's state setter.
+     * @returns {() => void} Unsubscribe function.
+     */
+    static onStatus(listener: (status: RealtimeStatus) => void): () => void {
+        this.statusListeners.add(listener);
+        return () => {
+            this.statusListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Connects the current transport.
+     */
+    private static connect(): void {
+        const transport = this.transports[this.transportIndex];
+        const token = SessionService.getToken();
+        this.opened = false;
+        this.setStatus({ connection: this.everOpened ? "reconnecting" : "connecting", transport });
+        if (!token) {
+            console.warn("RealtimeService: No access token, waiting to reconnect");
+            this.scheduleReconnect();
+            return;
+        }
+        const generation = this.generation;
+        console.log(`RealtimeService: Connecting via ${transport}`);
+        switch (transport) {
+            case "websocket":
+                this.connectSocket(token, generation);
+                break;
+            case "sse":
+                this.connectStream(token, generation);
+                break;
+            case "poll":
+                this.poll(generation);
+                break;
+        }
+    }
+
+    /**
+     * Opens a WebSocket to REALTIME_WS_URL. Messages are { type: "vehicles", server_time, updates }.
+     */
+    private static connectSocket(token: string, generation: number): void {
+        const socket = new WebSocket(`${API_CONFIG.REALTIME_WS_URL}${this.query(token)}`);
+        this.socket = socket;
+        socket.onopen = () => {
+            if (generation === this.generation) this.handleOpen();
+        };
+        socket.onmessage = (event) => {
+            if (generation !== this.generation) return;
+            const message = this.decode(event.data, "websocket");
+            if (message && (message as { type?: unknown }).type === "vehicles") {
+                this.handlePayload(message, "WS vehicles");
+            }
+        };
+        socket.onclose = () => {
+            if (generation === this.generation) this.handleFailure("WebSocket closed");
+        };
+    }
+
+    /**
+     * Opens the SSE stream. "ready" marks the connection open; "vehicles" carries deltas.
+     */
+    private static connectStream(token: string, generation: number): void {
+        const source = new EventSource(`${API_CONFIG.BASE_URL}/vehicles/stream${this.query(token)}`);
+        this.source = source;
+        source.addEventListener("ready", (event) => {
+            if (generation !== this.generation) return;
+            const ready = this.decode((event as MessageEvent).data, "sse");
+            const serverTime = (ready as { server_time?: unknown } | null)?.server_time;
+            if (!this.cursor && typeof serverTime === "string") {
+                this.cursor = serverTime;
+            }
+            this.handleOpen();
+        });
+        source.addEventListener("vehicles", (event) => {
+            if (generation !== this.generation) return;
+            const message = this.decode((event as MessageEvent).data, "sse");
+            if (message) {
+                this.handlePayload(message, "SSE vehicles");
+            }
+        });
+        // EventSource retries on its own; close it so reconnects follow our backoff and transport fallback
+        source.onerror = () => {
+            if (generation === this.generation) this.handleFailure("Event stream error");
+        };
+    }
+
+    /**
+     * Polls GET /api/vehicles/updates, scheduling the next poll after each response.
+     */
+    private static poll(generation: number): void {
+        ApiClient.getVehicleUpdates(this.cursor ?? undefined)
+            .then((response) => {
+                if (generation !== this.generation) return;
+                if (!this.opened) {
+                    this.handleOpen();
+                }
+                this.applyUpdates(response); // Already validated by ApiClient
+                this.pollTimer = setTimeout(() => this.poll(generation), API_CONFIG.REALTIME_POLL_MS);
+            })
+            .catch((error) => {
+                if (generation !== this.generation) return;
+                this.handleFailure(error instanceof Error ? error.message : "Poll failed");
+            });
+    }
+
+    /**
+     * Builds the ?token=&since= query for URL-authenticated transports.
+     */
+    private static query(token: string): string {
+        const since = this.cursor ? `&since=${encodeURIComponent(this.cursor)}` : "";
+        return `?token=${encodeURIComponent(token)}${since}`;
+    }
+
+    /**
+     * Parses a JSON message, reporting malformed payloads to ValidationDiagnostics.
+     */
+    private static decode(data: unknown, transport: RealtimeTransport): unknown {
+        try {
+            return JSON.parse(String(data));
+        } catch {
+            ValidationDiagnostics.report(`${transport} message`, [
+                { path: "(root)", message: "Malformed JSON", value: data },
+            ]);
+            return null;
+        }
+    }
+
+    /**
+     * Validates a pushed payload and applies it.
+     */
+    private static handlePayload(payload: unknown, source: string): void {
+        const result = vehicleUpdatesSchema.parse(payload);
+        if (result.issues.length > 0) {
+            ValidationDiagnostics.report(source, result.issues);
+        }
+        if (!result.ok) {
+            console.warn(`RealtimeService: Dropped invalid ${source} payload`);
+            return;
+        }
+        this.applyUpdates(result.value);
+    }
+
+    /**
+     * Advances the cursor and notifies delta listeners of the deltas not already applied for the cursor's second.
+     */
+    private static applyUpdates(updates: VehicleUpdatesResponse): void {
+        if (updates.server_time !== this.cursor) {
+            this.cursorSeen.clear();
+        }
+        const fresh = updates.updates.filter((delta) => !this.cursorSeen.has(JSON.stringify(delta)));
+        fresh
+            .filter((delta) => delta.updated_at === updates.server_time)
+            .forEach((delta) => this.cursorSeen.add(JSON.stringify(delta)));
+        this.cursor = updates.server_time;
+        if (fresh.length === 0) {
+            return;
+        }
+        this.deltaListeners.forEach((listener) => listener(fresh));
+    }
+
+    /**
+     * Marks the current connection live; after a reconnect, asks listeners to resync.
+     */
+    private static handleOpen(): void {
+        const reconnected = this.everOpened;
+        this.opened = true;
+        this.everOpened = true;
+        this.attempt = 0;
+        this.setStatus({ connection: "live", transport: this.transports[this.transportIndex] });
+        console.log(`RealtimeService: Live via ${this.transports[this.transportIndex]}`);
+        if (reconnected) {
+            this.resyncListeners.forEach((listener) => listener());
+        }
+    }
+
+    /**
+     * Handles a dropped or failed connection: falls through to the next transport if this one never opened,
+     * otherwise reconnects with backoff.
+     */
+    private static handleFailure(reason: string): void {
+        const opened = this.opened;
+        this.teardown();
+        if (!this.running) {
+            return;
+        }
+        if (!opened && this.transportIndex < this.transports.length - 1) {
+            this.transportIndex++;
+            console.warn(`RealtimeService: ${reason}, falling back to ${this.transports[this.transportIndex]}`);
+            this.connect();
+            return;
+        }
+        console.warn(`RealtimeService: ${reason}`);
+        this.scheduleReconnect();
+    }
+
+    /**
+     * Schedules connect() after an exponential backoff delay.
+     */
+    private static scheduleReconnect(): void {
+        const delay = Math.min(BACKOFF_BASE_MS * 2 ** this.attempt, BACKOFF_MAX_MS);
+        this.attempt++;
+        this.setStatus({ connection: "reconnecting", transport: this.transports[this.transportIndex] });
+        console.log(`RealtimeService: Reconnecting in ${delay}ms`);
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.connect();
+        }, delay);
+    }
+
+    /**
+     * Closes any open connection and cancels pending timers.
+     */
+    private static teardown(): void {
+        this.generation++;
+        if (this.socket) {
+            this.socket.onclose = null;
+            this.socket.close();
+            this.socket = null;
+        }
+        if (this.source) {
+            this.source.close();
+            this.source = null;
+        }
+        if (this.pollTimer) {
+            clearTimeout(this.pollTimer);
+            this.pollTimer = null;
+        }
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+    }
+
+    private static setStatus(status: RealtimeStatus): void {
+        if (status.connection === this.status.connection && status.transport === this.status.transport) {
+            return;
+        }
+        this.status = status;
+        this.statusListeners.forEach((listener) => listener(status));
+    }
+}
@@ -0,0 +1,128 @@
+// src/services/RoutingService.ts
+/**
+ * @file RoutingService.ts
+ * @description Offline road routing for CyberTaxi: trip distance, ETA and route geometry from the bundled road graph.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.1
+ * @note Implements the Router interface (src/routing/RoadGraph.ts), so the fare engine, dispatcher and VehicleAnimator
+ *       take RoutingService itself as their router. No network dependency beyond the static asset, which the PWA
+ *       service worker caches with the rest of the build.
+ * @detail The routing worker (src/routing/routing.worker.ts) is started on the first route() call and loads
+ *         API_CONFIG.ROAD_GRAPH_URL. Answers are cached per coordinate pair and set of hazards (coordinates rounded to about
+ *         10 m, least recently used evicted after CACHE_SIZE). Without Worker support, or after the worker crashes, routes are straight lines
+ *         flagged approximate; route() never rejects.
+ */
+import { API_CONFIG } from "../config/apiConfig";
+import { straightLineRoute } from "../routing/RoadGraph";
+import type { Route, RouteHazard } from "../routing/RoadGraph";
+import type { RoutingWorkerRequest, RoutingWorkerResponse } from "../routing/routing.worker";
+
+const CACHE_SIZE = 500;
+
+/**
+ * Cache key for a coordinate pair and the hazards routed around.
+ * @returns {string} Key with coordinates rounded to 4 decimals, then each hazard's id, slowdown and whether it is blocked.
+ */
+const cacheKey = (from: [number, number], to: [number, number], hazards: readonly RouteHazard[]): string =>
+    [
+        [...from, ...to].map((value) => value.toFixed(4)).join(","),
+        ...hazards.map((hazard) => `${hazard.id}:${hazard.slowdown}${hazard.blocked ? ":blocked" : ""}`),
+    ].join("|");
+
+export class RoutingService {
+    private static worker: Worker | null = null;
+    private static unavailable = false; // No Worker support or the worker crashed: straight lines only
+    private static nextId = 1;
+    private static pending = new Map<
+        number,
+        { key: string; from: [number, number]; to: [number, number]; resolve: (route: Route) => void }
+    >();
+    private static cache = new Map<string, Route>(); // Insertion order doubles as recency
+
+    /**
+     * Fastest road route between two points.
+     * @param {[number, number]} from - Origin [lat, lng].
+     * @param {[number, number]} to - Destination [lat, lng].
+     * @param {readonly RouteHazard[]} [hazards] - Areas to go slow through or around; none by default.
+     * @returns {Promise<Route>} Route with geometry, miles and minutes; a straight line if routing is unavailable.
+     */
+    static route(from: [number, number], to: [number, number], hazards: readonly RouteHazard[] = []): Promise<Route> {
+        const key = cacheKey(from, to, hazards);
+        const cached = this.cache.get(key);
+        if (cached) {
+            this.cache.delete(key);
+            this.cache.set(key, cached);
+            return Promise.resolve(cached);
+        }
+        const worker = this.getWorker();
+        if (!worker) {
+            return Promise.resolve(straightLineRoute(from, to));
+        }
+        return new Promise((resolve) => {
+            const id = this.nextId++;
+            this.pending.set(id, { key, from, to, resolve });
+            const message: RoutingWorkerRequest = { type: "route", id, from, to, hazards: [...hazards] };
+            worker.postMessage(message);
+        });
+    }
+
+    /**
+     * Starts the worker on first use.
+     * @returns {Worker | null} Worker, or null if routing is unavailable.
+     */
+    private static getWorker(): Worker | null {
+        if (this.worker || this.unavailable) {
+            return this.worker;
+        }
+        if (typeof Worker === "undefined") {
+            console.warn("RoutingService: Web Workers unavailable, using straight lines");
+            this.unavailable = true;
+            return null;
+        }
+        const worker = new Worker(new URL("../routing/routing.worker.ts", import.meta.url), { type: "module" });
+        worker.onmessage = (event: MessageEvent<RoutingWorkerResponse>) => this.handleMessage(event.data);
+        worker.onerror = (event) => {
+            console.error("RoutingService: Worker failed, using straight lines", event.message);
+            event.preventDefault();
+            worker.terminate();
+            this.worker = null;
+            this.unavailable = true;
+            this.pending.forEach(({ from, to, resolve }) => resolve(straightLineRoute(from, to)));
+            this.pending.clear();
+        };
+        const init: RoutingWorkerRequest = { type: "init", url: new URL(API_CONFIG.ROAD_GRAPH_URL, window.location.href).href };
+        worker.postMessage(init);
+        this.worker = worker;
+        return worker;
+    }
+
+    /**
+     * Resolves a pending route from a worker reply.
+     * @param {RoutingWorkerResponse} message - Worker reply.
+     */
+    private static handleMessage(message: RoutingWorkerResponse): void {
+        if (message.type === "ready") {
+            console.log(`RoutingService: Road graph loaded (${message.nodes} nodes, ${message.edges} edges)`);
+            return;
+        }
+        if (message.type === "error" && message.id === null) {
+            console.warn(`RoutingService: ${message.message}, using straight lines`);
+            return;
+        }
+        const request = this.pending.get(message.id as number);
+        if (!request) {
+            return;
+        }
+        this.pending.delete(message.id as number);
+        if (message.type === "error") {
+            console.warn(`RoutingService: Route failed, ${message.message}`);
+            request.resolve(straightLineRoute(request.from, request.to));
+            return;
+        }
+        this.cache.set(request.key, message.route);
+        if (this.cache.size > CACHE_SIZE) {
+            this.cache.delete(this.cache.keys().next().value as string);
+        }
+        request.resolve(message.route);
+    }
+}
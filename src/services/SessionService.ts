@@ -0,0 +1,271 @@
+// src/services/SessionService.ts
+/**
+ * @file SessionService.ts
+ * @description Owns the client-side JWT session for CyberTaxi: token storage, expiry tracking, and refresh.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.3
+ * @note Stores jwt_token, jwt_expires_at (decoded from the token's exp claim) and refresh_token in localStorage.
+ *       Passwords are never persisted; renewal goes through POST /api/auth/refresh.
+ * @detail Schedules a proactive refresh shortly before the 1-hour access token expires. When /auth/refresh rejects the
+ *         refresh token (400 or 401) the session is cleared and onExpired listeners are notified so CyberContext can
+ *         log out via setAuth(false), unless another tab rotated the stored pair first (each refresh token works
+ *         once), in which case that pair is adopted. revoke() asks the server to revoke the refresh token on logout.
+ *         Any other failure (offline, 5xx, a malformed reply) keeps the session and retries
+ *         after RETRY_DELAY_MS, doubling up to MAX_RETRY_DELAY_MS; callers keep the current token while it is valid.
+ */
+import { ApiError } from "../utils/errorhandling/ApiError";
+import { ApiClient } from "./ApiClient";
+
+const TOKEN_KEY = "jwt_token";
+const EXPIRY_KEY = "jwt_expires_at";
+const REFRESH_KEY = "refresh_token";
+const LEGACY_PASSWORD_KEY = "password"; // Written by older builds; purged on every session start
+
+/** Refresh this long before the access token expires (ms). */
+const REFRESH_LEAD_MS = 5 * 60 * 1000;
+
+/** First wait before retrying a refresh that failed without rejecting the token (ms); doubles on each failure. */
+const RETRY_DELAY_MS = 15 * 1000;
+const MAX_RETRY_DELAY_MS = 2 * 60 * 1000;
+
+/**
+ * Decodes the payload of a JWT without verifying it.
+ * @param token - Encoded JWT.
+ * @returns {Record<string, unknown> | null} Claims, or null if the token is malformed.
+ */
+const decodeClaims = (token: string): Record<string, unknown> | null => {
+    const parts = token.split(".");
+    if (parts.length !== 3) {
+        return null;
+    }
+    try {
+        const base64 = parts[1].replace(/-/g, "+").replace(/_/g, "/");
+        const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+        return JSON.parse(atob(padded));
+    } catch {
+        return null;
+    }
+};
+
+export class SessionService {
+    /** In-flight refresh shared by every caller that needs a new token at the same time. */
+    private static refreshPromise: Promise<string | null> | null = null;
+    private static refreshTimer: ReturnType<typeof setTimeout> | null = null;
+    private static retryDelay = RETRY_DELAY_MS;
+    private static expiredListeners = new Set<() => void>();
+    private static refreshedListeners = new Set<(token: string) => void>();
+
+    /**
+     * Starts a session from a freshly issued token pair.
+     * @param {string} token - Access JWT.
+     * @param {string} [refreshToken] - Refresh JWT; keeps the stored one if omitted.
+     */
+    static start(token: string, refreshToken?: string): void {
+        const exp = decodeClaims(token)?.exp;
+        localStorage.setItem(TOKEN_KEY, token);
+        if (typeof exp === "number") {
+            localStorage.setItem(EXPIRY_KEY, String(exp * 1000));
+        } else {
+            localStorage.removeItem(EXPIRY_KEY);
+        }
+        if (refreshToken) {
+            localStorage.setItem(REFRESH_KEY, refreshToken);
+        }
+        localStorage.removeItem(LEGACY_PASSWORD_KEY);
+        console.log("SessionService: Session started, expires at", this.getExpiry()?.toISOString() ?? "unknown");
+        this.schedule();
+    }
+
+    /**
+     * Re-arms the proactive refresh for a session restored from localStorage (e.g., after a page reload).
+     * @returns {Promise<boolean>} True if a usable session exists after resuming.
+     */
+    static async resume(): Promise<boolean> {
+        localStorage.removeItem(LEGACY_PASSWORD_KEY);
+        if (!this.getToken()) {
+            return false;
+        }
+        if (this.isExpired()) {
+            console.log("SessionService: Stored token expired, refreshing");
+            return (await this.refresh()) !== null;
+        }
+        this.schedule();
+        return true;
+    }
+
+    /**
+     * Current access token.
+     * @returns {string | null} The JWT, or null when logged out.
+     */
+    static getToken(): string | null {
+        return localStorage.getItem(TOKEN_KEY);
+    }
+
+    /**
+     * Expiry of the current access token.
+     * @returns {Date | null} Expiry time, or null if unknown.
+     */
+    static getExpiry(): Date | null {
+        const stored = Number(localStorage.getItem(EXPIRY_KEY));
+        return stored ? new Date(stored) : null;
+    }
+
+    /**
+     * Whether the access token is past (or within the refresh lead of) its expiry.
+     * @returns {boolean} True if the token should be refreshed before use.
+     */
+    static isExpired(): boolean {
+        const expiry = this.getExpiry();
+        return expiry !== null && expiry.getTime() - Date.now() <= REFRESH_LEAD_MS;
+    }
+
+    /**
+     * Exchanges the refresh token for a new token pair, once for all concurrent callers.
+     * @returns {Promise<string | null>} New access token; the current one if the refresh failed but it has not expired
+     *          yet; null if the session ended or the token expired while the refresh keeps failing.
+     */
+    static refresh(): Promise<string | null> {
+        if (!this.refreshPromise) {
+            this.refreshPromise = this.exchange().finally(() => {
+                this.refreshPromise = null;
+            });
+        }
+        return this.refreshPromise;
+    }
+
+    /**
+     * Revokes the stored refresh token on the server, for logout. Fire-and-forget: call clear() afterwards as usual; an
+     * offline logout leaves the token to expire.
+     */
+    static revoke(): void {
+        const refreshToken = localStorage.getItem(REFRESH_KEY);
+        if (!refreshToken) {
+            return;
+        }
+        ApiClient.logout({ refresh_token: refreshToken }).catch((error) => {
+            console.warn("SessionService: Could not revoke the refresh token:", error);
+        });
+    }
+
+    /**
+     * Clears all session data and cancels the scheduled refresh. Does not notify listeners.
+     */
+    static clear(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+            this.refreshTimer = null;
+        }
+        this.retryDelay = RETRY_DELAY_MS;
+        localStorage.removeItem(TOKEN_KEY);
+        localStorage.removeItem(EXPIRY_KEY);
+        localStorage.removeItem(REFRESH_KEY);
+        localStorage.removeItem(LEGACY_PASSWORD_KEY);
+    }
+
+    /**
+     * Registers a listener called when the session ends because refresh failed.
+     * @param {() => void} listener - Callback, typically CyberContext's setAuth(false).
+     * @returns {() => void} Unsubscribe function.
+     */
+    static onExpired(listener: () => void): () => void {
+        this.expiredListeners.add(listener);
+        return () => {
+            this.expiredListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Registers a listener called with the new access token after every successful refresh.
+     * @param {(token: string) => void} listener - Callback, typically CyberProvider's token state setter.
+     * @returns {() => void} Unsubscribe function.
+     */
+    static onRefreshed(listener: (token: string) => void): () => void {
+        this.refreshedListeners.add(listener);
+        return () => {
+            this.refreshedListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Calls POST /api/auth/refresh and stores the rotated token pair.
+     * @returns {Promise<string | null>} New access token, the still-valid current one while retrying, or null.
+     */
+    private static async exchange(): Promise<string | null> {
+        const refreshToken = localStorage.getItem(REFRESH_KEY);
+        if (!refreshToken) {
+            console.warn("SessionService: No refresh token, ending session");
+            this.expire();
+            return null;
+        }
+        try {
+            const result = await ApiClient.refreshSession({ refresh_token: refreshToken });
+            this.start(result.token, result.refresh_token);
+            if (result.player_id) {
+                localStorage.setItem("player_id", result.player_id.toString());
+            }
+            this.retryDelay = RETRY_DELAY_MS;
+            console.log("SessionService: Token refreshed");
+            this.refreshedListeners.forEach((listener) => listener(result.token));
+            return result.token;
+        } catch (error) {
+            if (error instanceof ApiError && (error.status === 400 || error.status === 401)) {
+                const stored = localStorage.getItem(REFRESH_KEY);
+                if (stored && stored !== refreshToken && this.getToken()) {
+                    console.log("SessionService: Another tab refreshed the session, adopting its tokens");
+                    this.schedule();
+                    const token = this.getToken() as string;
+                    this.refreshedListeners.forEach((listener) => listener(token));
+                    return token;
+                }
+                console.error("SessionService: Refresh token rejected, ending session:", error.message);
+                this.expire();
+                return null;
+            }
+            console.warn(`SessionService: Token refresh failed, retrying in ${Math.round(this.retryDelay / 1000)} s:`, error);
+            this.scheduleRetry();
+            const expiry = this.getExpiry();
+            return expiry === null || expiry.getTime() > Date.now() ? this.getToken() : null;
+        }
+    }
+
+    /**
+     * Arms a timer that retries a failed refresh, backing off up to MAX_RETRY_DELAY_MS.
+     */
+    private static scheduleRetry(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = null;
+            void this.refresh();
+        }, this.retryDelay);
+        this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY_MS);
+    }
+
+    /**
+     * Arms a timer that refreshes the token REFRESH_LEAD_MS before it expires.
+     */
+    private static schedule(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+            this.refreshTimer = null;
+        }
+        const expiry = this.getExpiry();
+        if (!expiry) {
+            return;
+        }
+        const delay = Math.max(expiry.getTime() - Date.now() - REFRESH_LEAD_MS, 0);
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = null;
+            void this.refresh();
+        }, delay);
+    }
+
+    /**
+     * Clears the session and notifies onExpired listeners.
+     */
+    private static expire(): void {
+        this.clear();
+        this.expiredListeners.forEach((listener) => listener());
+    }
+}
@@ -0,0 +1,96 @@
+// src/services/WeatherService.ts
+/**
+ * @file WeatherService.ts
+ * @description Austin weather for CyberTaxi: cached forecasts from the configured weather provider.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note The provider is picked by API_CONFIG.WEATHER_PROVIDER: Open-Meteo (src/weather/OpenMeteoProvider.ts) by
+ *       default, or the deterministic fixture (src/weather/WeatherProvider.ts) for offline runs. setProvider() swaps it,
+ *       e.g. for a test.
+ * @detail Forecasts are taken at WEATHER_COORDS and cached for API_CONFIG.WEATHER_REFRESH_MS (15 minutes, per the GDD);
+ *         concurrent callers share one request. When a refresh fails, the last forecast is kept and returned until a
+ *         later refresh succeeds; with nothing cached the error is thrown.
+ */
+import { API_CONFIG } from "../config/apiConfig";
+import { FORECAST_HOURS, WEATHER_COORDS } from "../domain/Weather";
+import type { WeatherForecast } from "../domain/Weather";
+import { createOpenMeteoProvider } from "../weather/OpenMeteoProvider";
+import { createFixtureProvider } from "../weather/WeatherProvider";
+import type { WeatherProvider } from "../weather/WeatherProvider";
+
+const FIXTURE_SEED = 512; // Used when VITE_FARE_SEED is not set
+
+export class WeatherService {
+    private static provider: WeatherProvider | null = null;
+    private static cached: WeatherForecast | null = null;
+    private static cachedAt = 0; // Epoch ms
+    private static inflight: Promise<WeatherForecast> | null = null;
+
+    /**
+     * Forecast for Austin, from the cache while it is fresh.
+     * @param {boolean} [force=false] - Skip the cache.
+     * @returns {Promise<WeatherForecast>} Current conditions and the next FORECAST_HOURS hours.
+     * @throws {ApiError} If the provider fails and nothing is cached.
+     */
+    static forecast(force: boolean = false): Promise<WeatherForecast> {
+        if (!force && this.cached && Date.now() - this.cachedAt < API_CONFIG.WEATHER_REFRESH_MS) {
+            return Promise.resolve(this.cached);
+        }
+        if (this.inflight) {
+            return this.inflight;
+        }
+        const provider = this.getProvider();
+        this.inflight = provider
+            .forecast(WEATHER_COORDS, FORECAST_HOURS)
+            .then((forecast) => {
+                console.log(`WeatherService: ${provider.name} reports ${forecast.current.kind}, ${forecast.current.temperatureC} °C`);
+                this.cached = forecast;
+                this.cachedAt = Date.now();
+                return forecast;
+            })
+            .catch((error) => {
+                if (!this.cached) {
+                    throw error;
+                }
+                console.warn(`WeatherService: ${provider.name} failed, keeping the forecast from ${this.cached.fetchedAt}:`, error);
+                return this.cached;
+            })
+            .finally(() => {
+                this.inflight = null;
+            });
+        return this.inflight;
+    }
+
+    /**
+     * Last forecast fetched, however old.
+     * @returns {WeatherForecast | null} Forecast, or null before the first success.
+     */
+    static getCached(): WeatherForecast | null {
+        return this.cached;
+    }
+
+    /**
+     * Replaces the provider and clears the cache.
+     * @param {WeatherProvider} provider - New provider.
+     */
+    static setProvider(provider: WeatherProvider): void {
+        this.provider = provider;
+        this.cached = null;
+        this.cachedAt = 0;
+        console.log(`WeatherService: Using ${provider.name}`);
+    }
+
+    /**
+     * Configured provider, created on first use.
+     * @returns {WeatherProvider} Provider.
+     */
+    private static getProvider(): WeatherProvider {
+        if (!this.provider) {
+            this.provider =
+                API_CONFIG.WEATHER_PROVIDER === "fixture"
+                    ? createFixtureProvider(API_CONFIG.FARE_SEED ?? FIXTURE_SEED)
+                    : createOpenMeteoProvider(API_CONFIG.WEATHER_URL);
+        }
+        return this.provider;
+    }
+}
@@ -0,0 +1,435 @@
+// src/services/apiSchemas.ts
+/**
+ * @file apiSchemas.ts
+ * @description Runtime schemas for every CyberTaxi backend response, mirroring the interfaces in apiTypes.ts.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.15
+ * @note ApiClient parses each response through its schema, so hooks and services receive typed, range-checked data.
+ * @detail Invalid records inside lists (vehicles, garages) are dropped and reported to ValidationDiagnostics; an invalid
+ *         top-level field fails the whole response with a ResponseValidationError. Vehicle statuses are normalized to
+ *         the domain lifecycle (domain/Vehicle.ts); unknown statuses reject the record. Staff schedules are read with
+ *         domain/Staff.ts's parseSchedule, so a staff record with an invalid schedule is dropped.
+ */
+import { parseVehicleStatus } from "../domain/Vehicle";
+import type { VehicleDelta, VehicleStatus } from "../domain/Vehicle";
+import { parseSchedule } from "../domain/Staff";
+import type { WeeklySchedule } from "../domain/Staff";
+import type { VehicleModel } from "../domain/VehicleCatalog";
+import {
+    boolean,
+    id,
+    latLng,
+    listOf,
+    nullable,
+    number,
+    object,
+    oneOf,
+    optional,
+    string,
+} from "../utils/validation/schema";
+import type { Schema } from "../utils/validation/schema";
+import type {
+    ApiEnvelope,
+    ApiGarage,
+    ApiOrder,
+    ApiPermit,
+    ApiStaff,
+    ApiUsedListing,
+    ApiVehicle,
+    AuthResponse,
+    BalanceResponse,
+    BuyUsedVehicleResponse,
+    CreateGarageResponse,
+    DispatchVehicleResponse,
+    FireStaffResponse,
+    GaragesResponse,
+    HealthResponse,
+    HireStaffResponse,
+    LedgerResponse,
+    LicenseResponse,
+    LicensesResponse,
+    OrdersResponse,
+    PayrollResponse,
+    PlaceOrderResponse,
+    PlayerResponse,
+    PurchaseVehicleResponse,
+    RenewPermitResponse,
+    SaveWearResponse,
+    ScoreResponse,
+    SellGarageResponse,
+    SlotsResponse,
+    StaffJobsResponse,
+    StaffResponse,
+    StockResponse,
+    TakenListingsResponse,
+    UpdateStaffResponse,
+    UpdateVehicleStatusResponse,
+    UsedListingsResponse,
+    VehicleCatalogResponse,
+    VehicleEvent,
+    VehicleHistoryResponse,
+    VehiclesResponse,
+    VehicleUpdatesResponse,
+} from "./apiTypes";
+
+/** Fields shared by every { status, message, details } response. */
+const envelope = {
+    status: oneOf(["Success", "Error"] as const),
+    message: optional(string()),
+    details: optional(string()),
+};
+
+/** Vehicle status, including legacy aliases such as "garage". */
+const vehicleStatus = (): Schema<VehicleStatus> => ({
+    parse: (input, path = "") => {
+        const status = typeof input === "string" ? parseVehicleStatus(input) : null;
+        return status
+            ? { ok: true, value: status, issues: [] }
+            : { ok: false, issues: [{ path: path || "(root)", message: "Unknown vehicle status", value: input }] };
+    },
+});
+
+/** Seven days of shifts or days off, checked against the shift rules. */
+const weeklySchedule = (): Schema<WeeklySchedule> => ({
+    parse: (input, path = "") => {
+        const schedule = parseSchedule(input);
+        return schedule
+            ? { ok: true, value: schedule, issues: [] }
+            : { ok: false, issues: [{ path: path || "(root)", message: "Invalid weekly schedule", value: input }] };
+    },
+});
+
+export const envelopeSchema: Schema<ApiEnvelope> = object<ApiEnvelope>(envelope);
+
+export const vehicleSchema: Schema<ApiVehicle> = object<ApiVehicle>({
+    id: id(),
+    player_id: optional(number({ integer: true })),
+    type: string({ nonEmpty: true }),
+    status: vehicleStatus(),
+    wear: number({ min: 0 }),
+    battery: number({ min: 0, max: 100 }),
+    mileage: number({ min: 0 }),
+    tire_mileage: number({ min: 0 }),
+    purchase_date: optional(string()),
+    delivery_timestamp: optional(nullable(string())),
+    cost: number({ min: 0 }),
+    earnings: optional(number({ min: 0 })),
+    created_at: optional(string()),
+    updated_at: optional(string()),
+    coords: nullable(latLng()),
+    dest: nullable(latLng()),
+});
+
+export const vehicleDeltaSchema: Schema<VehicleDelta> = object<VehicleDelta>({
+    id: id(),
+    status: optional(vehicleStatus()),
+    battery: optional(number({ min: 0, max: 100 })),
+    coords: optional(nullable(latLng())),
+    dest: optional(nullable(latLng())),
+    updated_at: optional(string()),
+    wear: optional(number({ min: 0 })),
+    mileage: optional(number({ min: 0 })),
+    tire_mileage: optional(number({ min: 0 })),
+});
+
+/** Shared by GET /vehicles/updates (inside the envelope) and "vehicles" stream events. */
+export const vehicleUpdatesSchema: Schema<VehicleUpdatesResponse> = object<VehicleUpdatesResponse>({
+    server_time: string({ nonEmpty: true }),
+    updates: listOf(vehicleDeltaSchema),
+});
+
+export const garageSchema: Schema<ApiGarage> = object<ApiGarage>({
+    id: number({ integer: true }),
+    player_id: number({ integer: true }),
+    name: string(),
+    coords: latLng(),
+    capacity: number({ integer: true, min: 0 }),
+    type: oneOf(["garage", "lot"] as const),
+    cost_monthly: number({ min: 0 }),
+    listing_id: nullable(string({ nonEmpty: true })),
+    tenure: oneOf(["lease", "own"] as const),
+    lease_term: nullable(oneOf(["monthly", "quarterly", "yearly"] as const)),
+    lease_ends_at: nullable(string({ nonEmpty: true })),
+    price_paid: number({ min: 0 }),
+});
+
+export const staffSchema: Schema<ApiStaff> = object<ApiStaff>({
+    id: number({ integer: true }),
+    garage_id: nullable(number({ integer: true })),
+    applicant_id: string({ nonEmpty: true }),
+    name: string(),
+    role: oneOf(["mechanic", "cleaner"] as const),
+    salary_monthly: number({ min: 0 }),
+    jobs_done: number({ integer: true, min: 0 }),
+    schedule: weeklySchedule(),
+    paid_until: string({ nonEmpty: true }),
+    hired_at: string({ nonEmpty: true }),
+});
+
+export const orderSchema: Schema<ApiOrder> = object<ApiOrder>({
+    id: number({ integer: true }),
+    vehicle_id: id(),
+    type: string({ nonEmpty: true }),
+    cost: number({ min: 0 }),
+    garage_id: nullable(number({ integer: true })),
+    garage_name: nullable(string()),
+    from_stock: boolean(),
+    status: oneOf(["placed", "awaiting_stock", "in_transit", "delivered"] as const),
+    placed_at: string({ nonEmpty: true }),
+    ships_at: string({ nonEmpty: true }),
+    deliver_at: string({ nonEmpty: true }),
+    delivered_at: nullable(string({ nonEmpty: true })),
+});
+
+export const usedListingSchema: Schema<ApiUsedListing> = object<ApiUsedListing>({
+    listing_id: string({ nonEmpty: true }),
+    type: string({ nonEmpty: true }),
+    wear: number({ min: 0, max: 100 }),
+    mileage: number({ min: 0 }),
+    tire_mileage: number({ min: 0 }),
+    battery: number({ min: 0, max: 100 }),
+    new_price: number({ min: 0 }),
+    price: number({ min: 0 }),
+});
+
+export const authResponseSchema: Schema<AuthResponse> = object<AuthResponse>({
+    ...envelope,
+    token: string({ nonEmpty: true }),
+    refresh_token: optional(string({ nonEmpty: true })),
+    player_id: optional(number({ integer: true })),
+});
+
+export const playerResponseSchema: Schema<PlayerResponse> = object<PlayerResponse>({
+    ...envelope,
+    player: object<PlayerResponse["player"]>({
+        username: string({ nonEmpty: true }),
+        email: string(),
+        bank_balance: number(),
+        score: number(),
+    }),
+});
+
+export const balanceResponseSchema: Schema<BalanceResponse> = object<BalanceResponse>({
+    ...envelope,
+    bank_balance: number(),
+});
+
+export const scoreResponseSchema: Schema<ScoreResponse> = object<ScoreResponse>({
+    ...envelope,
+    score: number(),
+});
+
+export const slotsResponseSchema: Schema<SlotsResponse> = object<SlotsResponse>({
+    ...envelope,
+    total_slots: number({ integer: true, min: 0 }),
+    used_slots: number({ integer: true, min: 0 }),
+    available_slots: number({ integer: true }),
+});
+
+export const vehiclesResponseSchema: Schema<VehiclesResponse> = object<VehiclesResponse>({
+    ...envelope,
+    vehicles: listOf(vehicleSchema),
+});
+
+export const vehicleUpdatesResponseSchema: Schema<ApiEnvelope & VehicleUpdatesResponse> = object<
+    ApiEnvelope & VehicleUpdatesResponse
+>({
+    ...envelope,
+    server_time: string({ nonEmpty: true }),
+    updates: listOf(vehicleDeltaSchema),
+});
+
+export const purchaseVehicleResponseSchema: Schema<PurchaseVehicleResponse> = object<PurchaseVehicleResponse>({
+    success: boolean(),
+    vehicle_id: id(),
+    message: optional(string()),
+});
+
+export const updateVehicleStatusResponseSchema: Schema<UpdateVehicleStatusResponse> = object<UpdateVehicleStatusResponse>({
+    ...envelope,
+    vehicle_id: id(),
+    vehicle_status: vehicleStatus(),
+    sale_price: optional(number({ min: 0 })),
+});
+
+export const saveWearResponseSchema: Schema<SaveWearResponse> = object<SaveWearResponse>({
+    ...envelope,
+    vehicle_id: id(),
+    wear: number({ min: 0, max: 100 }),
+    mileage: number({ min: 0 }),
+    tire_mileage: number({ min: 0 }),
+});
+
+export const dispatchVehicleResponseSchema: Schema<DispatchVehicleResponse> = object<DispatchVehicleResponse>({
+    ...envelope,
+    vehicle_id: id(),
+    vehicle_status: vehicleStatus(),
+    dest: latLng(),
+});
+
+export const vehicleEventSchema: Schema<VehicleEvent> = object<VehicleEvent>({
+    from_status: vehicleStatus(),
+    to_status: vehicleStatus(),
+    coords: nullable(latLng()),
+    created_at: string({ nonEmpty: true }),
+});
+
+export const vehicleHistoryResponseSchema: Schema<VehicleHistoryResponse> = object<VehicleHistoryResponse>({
+    ...envelope,
+    events: listOf(vehicleEventSchema),
+});
+
+export const garagesResponseSchema: Schema<GaragesResponse> = object<GaragesResponse>({
+    ...envelope,
+    garages: listOf(garageSchema),
+    lease_charged: optional(number({ min: 0 })),
+    leases_ended: optional(listOf(number({ integer: true }))),
+});
+
+export const createGarageResponseSchema: Schema<CreateGarageResponse> = object<CreateGarageResponse>({
+    ...envelope,
+    garage_id: number({ integer: true }),
+    charged: optional(number({ min: 0 })),
+    lease_ends_at: optional(nullable(string({ nonEmpty: true }))),
+});
+
+export const sellGarageResponseSchema: Schema<SellGarageResponse> = object<SellGarageResponse>({
+    ...envelope,
+    garage_id: number({ integer: true }),
+    sale_price: number({ min: 0 }),
+});
+
+export const takenListingsResponseSchema: Schema<TakenListingsResponse> = object<TakenListingsResponse>({
+    ...envelope,
+    listing_ids: listOf(string({ nonEmpty: true })),
+});
+
+export const staffResponseSchema: Schema<StaffResponse> = object<StaffResponse>({
+    ...envelope,
+    staff: listOf(staffSchema),
+});
+
+export const hireStaffResponseSchema: Schema<HireStaffResponse> = object<HireStaffResponse>({
+    ...envelope,
+    staff: staffSchema,
+    charged: number({ min: 0 }),
+});
+
+export const updateStaffResponseSchema: Schema<UpdateStaffResponse> = object<UpdateStaffResponse>({
+    ...envelope,
+    staff: staffSchema,
+});
+
+export const staffJobsResponseSchema: Schema<StaffJobsResponse> = object<StaffJobsResponse>({
+    ...envelope,
+    staff_id: number({ integer: true }),
+    jobs_done: number({ integer: true, min: 0 }),
+});
+
+export const fireStaffResponseSchema: Schema<FireStaffResponse> = object<FireStaffResponse>({
+    ...envelope,
+    staff_id: number({ integer: true }),
+});
+
+export const payrollResponseSchema: Schema<PayrollResponse> = object<PayrollResponse>({
+    ...envelope,
+    charged: number({ min: 0 }),
+    departed: listOf(number({ integer: true })),
+});
+
+export const ordersResponseSchema: Schema<OrdersResponse> = object<OrdersResponse>({
+    ...envelope,
+    orders: listOf(orderSchema),
+});
+
+export const placeOrderResponseSchema: Schema<PlaceOrderResponse> = object<PlaceOrderResponse>({
+    ...envelope,
+    order: orderSchema,
+    charged: number({ min: 0 }),
+});
+
+export const stockResponseSchema: Schema<StockResponse> = object<StockResponse>({
+    ...envelope,
+    daily_limit: number({ integer: true, min: 0 }),
+    arrived: number({ integer: true, min: 0 }),
+    taken: number({ integer: true, min: 0 }),
+    in_stock: number({ integer: true, min: 0 }),
+    next_arrival: nullable(string({ nonEmpty: true })),
+});
+
+export const usedListingsResponseSchema: Schema<UsedListingsResponse> = object<UsedListingsResponse>({
+    ...envelope,
+    listings: listOf(usedListingSchema),
+    rotates_at: string({ nonEmpty: true }),
+});
+
+export const buyUsedVehicleResponseSchema: Schema<BuyUsedVehicleResponse> = object<BuyUsedVehicleResponse>({
+    ...envelope,
+    vehicle_id: id(),
+    charged: number({ min: 0 }),
+});
+
+export const vehicleModelSchema: Schema<VehicleModel> = object<VehicleModel>({
+    id: string({ nonEmpty: true }),
+    name: string({ nonEmpty: true }),
+    description: string(),
+    price: number({ min: 0 }),
+    battery_kwh: number({ min: 1 }),
+    kwh_per_mile: number({ min: 0.01 }),
+    seats: number({ integer: true, min: 1 }),
+    range_miles: number({ min: 0 }),
+    wear_factor: number({ min: 0 }),
+    image: string(),
+    availability: oneOf(["available", "coming_soon", "discontinued"] as const),
+});
+
+export const vehicleCatalogResponseSchema: Schema<VehicleCatalogResponse> = object<VehicleCatalogResponse>({
+    ...envelope,
+    models: listOf(vehicleModelSchema),
+});
+
+export const permitSchema: Schema<ApiPermit> = object<ApiPermit>({
+    vehicle_id: id(),
+    type: string({ nonEmpty: true }),
+    vehicle_status: vehicleStatus(),
+    fee: nullable(number({ min: 0 })),
+    issued_at: nullable(string({ nonEmpty: true })),
+    expires_at: nullable(string({ nonEmpty: true })),
+    renewed_at: nullable(string({ nonEmpty: true })),
+});
+
+const license = {
+    ...envelope,
+    tier: oneOf(["free", "taxi_license"] as const),
+    vehicle_cap: nullable(number({ integer: true, min: 0 })),
+    vehicles: number({ integer: true, min: 0 }),
+};
+
+export const licenseResponseSchema: Schema<LicenseResponse> = object<LicenseResponse>(license);
+
+export const licensesResponseSchema: Schema<LicensesResponse> = object<LicensesResponse>({
+    ...license,
+    permit_fee: number({ min: 0 }),
+    term_days: number({ integer: true, min: 1 }),
+    permits: listOf(permitSchema),
+});
+
+export const renewPermitResponseSchema: Schema<RenewPermitResponse> = object<RenewPermitResponse>({
+    ...envelope,
+    permit: permitSchema,
+    charged: number({ min: 0 }),
+});
+
+export const ledgerResponseSchema: Schema<LedgerResponse> = object<LedgerResponse>({
+    ...envelope,
+    recorded: listOf(string({ nonEmpty: true })),
+    rejected: listOf(object({ ref: string({ nonEmpty: true }), message: string() })),
+    bank_balance: number(),
+    score: number(),
+});
+
+export const healthResponseSchema: Schema<HealthResponse> = object<HealthResponse>({
+    status: oneOf(["OK", "Error"] as const),
+    message: optional(string()),
+    details: optional(string()),
+});
@@ -0,0 +1,427 @@
+// src/services/apiTypes.ts
+/**
+ * @file apiTypes.ts
+ * @description Request and response types for the CyberTaxi backend API.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.20
+ * @note Mirrors public/Docs/api.md and server/docs/api.md; field names match the backend JSON exactly.
+ */
+import type { SuperchargerType } from "../domain/ChargingSites";
+import type { OrderStatus } from "../domain/Orders";
+import type { LicenseTier } from "../domain/Licensing";
+import type { LeaseTerm, PropertyTenure, PropertyType } from "../domain/Properties";
+import type { StaffRole, WeeklySchedule } from "../domain/Staff";
+import type { Vehicle, VehicleDelta, VehicleStatus } from "../domain/Vehicle";
+import type { VehicleModel } from "../domain/VehicleCatalog";
+import type { MaintenanceKind } from "../simulation/Wear";
+
+/**
+ * Common envelope returned by every JSON endpoint.
+ * @interface ApiEnvelope
+ */
+export interface ApiEnvelope {
+    status: "Success" | "Error";
+    message?: string;
+    details?: string;
+}
+
+/**
+ * Vehicle record as serialized by the vehicle routes; parsed straight into the domain type (status normalized).
+ */
+export type ApiVehicle = Vehicle;
+
+/**
+ * Garage or lot record as serialized by the garage routes.
+ * @interface ApiGarage
+ */
+export interface ApiGarage {
+    id: number;
+    player_id: number;
+    name: string;
+    coords: [number, number];
+    capacity: number;
+    type: PropertyType;
+    cost_monthly: number;
+    listing_id: string | null; // Listing in domain/Properties.ts; null for garages created before listings
+    tenure: PropertyTenure;
+    lease_term: LeaseTerm | null; // Null when owned
+    lease_ends_at: string | null; // ISO timestamp the lease is paid up to; null when owned
+    price_paid: number; // Up-front payment: the lease term, or the purchase price
+}
+
+/**
+ * Staff member as serialized by the staff routes.
+ * @interface ApiStaff
+ */
+export interface ApiStaff {
+    id: number;
+    garage_id: number | null; // Null once their garage is sold, until reassigned
+    applicant_id: string; // Applicant in domain/Staff.ts
+    name: string;
+    role: StaffRole;
+    salary_monthly: number;
+    jobs_done: number; // Sets the level (staffLevel)
+    schedule: WeeklySchedule;
+    paid_until: string; // ISO timestamp salary is paid up to
+    hired_at: string;
+}
+
+/**
+ * Vehicle order as serialized by the order routes.
+ * @interface ApiOrder
+ */
+export interface ApiOrder {
+    id: number;
+    vehicle_id: string; // Created as 'ordered' when the order is placed
+    type: string;
+    cost: number;
+    garage_id: number | null; // Destination garage; null if it was sold and none was left
+    garage_name: string | null;
+    from_stock: boolean; // False when it waits for the service center's stock
+    status: OrderStatus;
+    placed_at: string;
+    ships_at: string; // ISO timestamp it leaves the service center
+    deliver_at: string; // ISO timestamp it arrives at the garage
+    delivered_at: string | null;
+}
+
+/**
+ * Used vehicle for sale as serialized by the market routes.
+ * @interface ApiUsedListing
+ */
+export interface ApiUsedListing {
+    listing_id: string; // Valid until the stock rotates
+    type: string;
+    wear: number; // Percent
+    mileage: number;
+    tire_mileage: number;
+    battery: number; // Charge, percent
+    new_price: number; // Service center price
+    price: number; // domain/UsedMarket.ts usedPrice(new_price, wear)
+}
+
+/**
+ * Taxi permit of one of the player's vehicles as serialized by the license routes.
+ * @interface ApiPermit
+ */
+export interface ApiPermit {
+    vehicle_id: string;
+    type: string;
+    vehicle_status: VehicleStatus;
+    fee: number | null; // Last yearly fee paid; null without a permit
+    issued_at: string | null;
+    expires_at: string | null; // ISO; null for a vehicle that never had a permit
+    renewed_at: string | null;
+}
+
+// Auth
+export interface SignupRequest {
+    username: string;
+    email: string;
+    password: string;
+    bank_balance?: number;
+}
+export interface LoginRequest {
+    player_id: number;
+    password: string;
+}
+export interface UsernameLoginRequest {
+    username: string;
+    password: string;
+}
+export interface ResetPasswordRequest {
+    username: string;
+    new_password: string;
+}
+export interface PasswordResetRequest {
+    email: string;
+}
+export interface PasswordResetConfirmRequest {
+    email: string;
+    token: string;
+    new_password: string;
+}
+export interface RefreshRequest {
+    refresh_token: string;
+}
+export interface AuthResponse extends ApiEnvelope {
+    token: string;
+    refresh_token?: string;
+    player_id?: number;
+}
+
+// Player
+export interface PlayerResponse extends ApiEnvelope {
+    player: {
+        username: string;
+        email: string;
+        bank_balance: number;
+        score: number;
+    };
+}
+export interface BalanceResponse extends ApiEnvelope {
+    bank_balance: number;
+}
+export interface ScoreResponse extends ApiEnvelope {
+    score: number;
+}
+export interface SlotsResponse extends ApiEnvelope {
+    total_slots: number;
+    used_slots: number;
+    available_slots: number;
+}
+
+// Vehicles
+export interface VehiclesResponse extends ApiEnvelope {
+    vehicles: ApiVehicle[];
+}
+/**
+ * Vehicle deltas since a cursor; also the payload of "vehicles" stream events.
+ * @interface VehicleUpdatesResponse
+ */
+export interface VehicleUpdatesResponse {
+    server_time: string; // Cursor to pass as since on the next request
+    updates: VehicleDelta[];
+}
+export interface PurchaseVehicleRequest {
+    player_id: number;
+    type: string;
+    cost: number;
+    status: string;
+    coords: [number, number];
+    wear?: number;
+    battery?: number;
+    mileage?: number;
+}
+/**
+ * Purchase responds with { success, vehicle_id } rather than the usual status envelope.
+ * @interface PurchaseVehicleResponse
+ */
+export interface PurchaseVehicleResponse {
+    success: boolean;
+    vehicle_id: string;
+    message?: string;
+}
+
+/**
+ * Result of POST /api/vehicles/:vehicle_id/status.
+ * @interface UpdateVehicleStatusResponse
+ */
+export interface UpdateVehicleStatusResponse extends ApiEnvelope {
+    vehicle_id: string;
+    vehicle_status: VehicleStatus;
+    sale_price?: number; // Credited to the bank when the vehicle was sold
+}
+
+/**
+ * Body of POST /api/vehicles/:vehicle_id/wear.
+ * @interface SaveWearRequest
+ */
+export interface SaveWearRequest {
+    wear: number; // Percent, 0–100
+    mileage: number; // May not go back
+    tire_mileage: number;
+}
+
+/**
+ * Result of POST /api/vehicles/:vehicle_id/wear: what the server stored.
+ * @interface SaveWearResponse
+ */
+export interface SaveWearResponse extends ApiEnvelope, SaveWearRequest {
+    vehicle_id: string;
+}
+
+/**
+ * Result of POST /api/vehicles/:vehicle_id/dispatch.
+ * @interface DispatchVehicleResponse
+ */
+export interface DispatchVehicleResponse extends ApiEnvelope {
+    vehicle_id: string;
+    vehicle_status: VehicleStatus; // Always active after a dispatch
+    dest: [number, number];
+}
+
+/**
+ * One status change from GET /api/vehicles/:vehicle_id/history.
+ * @interface VehicleEvent
+ */
+export interface VehicleEvent {
+    from_status: VehicleStatus;
+    to_status: VehicleStatus;
+    coords: [number, number] | null; // Position at the time of the change
+    created_at: string;
+}
+export interface VehicleHistoryResponse extends ApiEnvelope {
+    events: VehicleEvent[]; // Newest first
+}
+
+// Garages
+export interface GaragesResponse extends ApiEnvelope {
+    garages: ApiGarage[];
+    lease_charged?: number; // Charged for lapsed leases renewed by this fetch
+    leases_ended?: number[]; // Garage ids of lapsed leases the bank could not renew
+}
+export interface CreateGarageRequest {
+    player_id: number;
+    listing_id: string; // The server takes the name, coords, capacity, type and rent from the listing
+    tenure?: PropertyTenure; // Default lease
+    lease_term?: LeaseTerm; // Default monthly; ignored when buying
+}
+export interface CreateGarageResponse extends ApiEnvelope {
+    garage_id: number;
+    charged?: number; // Debited from the bank
+    lease_ends_at?: string | null;
+}
+export interface SellGarageResponse extends ApiEnvelope {
+    garage_id: number;
+    sale_price: number; // Credited to the bank; 0 when ending a lease
+}
+export interface TakenListingsResponse extends ApiEnvelope {
+    listing_ids: string[]; // Listings held by any player, including the caller
+}
+
+// Staff
+export interface StaffResponse extends ApiEnvelope {
+    staff: ApiStaff[];
+}
+export interface HireStaffRequest {
+    applicant_id: string;
+    name: string;
+    role: StaffRole;
+    level: number; // Starting level; sets the salary and starting job count
+    garage_id: number | null;
+    schedule: WeeklySchedule;
+}
+export interface HireStaffResponse extends ApiEnvelope {
+    staff: ApiStaff;
+    charged: number; // First month's salary, debited from the bank
+}
+export interface UpdateStaffRequest {
+    garage_id?: number | null;
+    schedule?: WeeklySchedule;
+}
+export interface UpdateStaffResponse extends ApiEnvelope {
+    staff: ApiStaff;
+}
+export interface StaffJobsResponse extends ApiEnvelope {
+    staff_id: number;
+    jobs_done: number;
+}
+export interface FireStaffResponse extends ApiEnvelope {
+    staff_id: number;
+}
+export interface PayrollResponse extends ApiEnvelope {
+    charged: number; // Debited from the bank
+    departed: number[]; // Staff ids who left unpaid
+}
+
+// Orders
+export interface OrdersResponse extends ApiEnvelope {
+    orders: ApiOrder[]; // Newest first
+}
+export interface PlaceOrderRequest {
+    type: string;
+    garage_id: number;
+}
+export interface PlaceOrderResponse extends ApiEnvelope {
+    order: ApiOrder;
+    charged: number; // Debited from the bank
+}
+export interface StockResponse extends ApiEnvelope {
+    daily_limit: number; // Vehicles arriving today
+    arrived: number;
+    taken: number;
+    in_stock: number;
+    next_arrival: string | null; // ISO; null when today's vehicles have all arrived
+}
+
+// Used market
+export interface UsedListingsResponse extends ApiEnvelope {
+    listings: ApiUsedListing[]; // Unsold listings of the current rotation
+    rotates_at: string; // ISO timestamp the stock is replaced
+}
+export interface BuyUsedVehicleResponse extends ApiEnvelope {
+    vehicle_id: string;
+    charged: number; // Debited from the bank
+}
+
+// Vehicle catalog
+export interface VehicleCatalogResponse extends ApiEnvelope {
+    models: VehicleModel[]; // Parsed straight into the domain type
+}
+
+// Licenses
+export interface LicenseResponse extends ApiEnvelope {
+    tier: LicenseTier;
+    vehicle_cap: number | null; // Null for unlimited
+    vehicles: number; // Vehicles held, ordered ones included
+}
+export interface LicensesResponse extends LicenseResponse {
+    permit_fee: number; // Dollars per vehicle per year
+    term_days: number;
+    permits: ApiPermit[]; // Every vehicle held; without a permit first, then soonest expiry
+}
+export interface LicenseTierRequest {
+    tier: LicenseTier;
+}
+export interface RenewPermitResponse extends ApiEnvelope {
+    permit: ApiPermit;
+    charged: number; // Debited from the bank
+}
+
+// Ledger
+/**
+ * A completed ride; the server prices the fare (POST /api/ledger).
+ * @interface FareLedgerEntry
+ */
+export interface FareLedgerEntry {
+    kind: "fare";
+    ref: string; // Unique per player and kind; a retried report is recorded once
+    vehicle_id: string;
+    miles: number; // Road trip length
+}
+/**
+ * A finished charge; the server prices the energy at the site's or charger's rate (POST /api/ledger).
+ * @interface ChargeLedgerEntry
+ */
+export interface ChargeLedgerEntry {
+    kind: "charge";
+    ref: string;
+    vehicle_id: string;
+    charger: "home" | SuperchargerType; // "home" is the garage charger
+    site_id: string | null; // SuperCharger site, or null when charged where the vehicle stood
+    kwh: number; // Energy delivered
+}
+/**
+ * A finished maintenance job; the server checks its cost against the job's range and repairs the vehicle (POST /api/ledger).
+ * @interface MaintenanceLedgerEntry
+ */
+export interface MaintenanceLedgerEntry {
+    kind: "maintenance";
+    ref: string;
+    vehicle_id: string;
+    kinds: MaintenanceKind[];
+    cost: number; // Drawn when the job started
+    staff_id: number | null; // The player's mechanic who did it, or null for a service center
+}
+export type LedgerEntry = FareLedgerEntry | ChargeLedgerEntry | MaintenanceLedgerEntry;
+export interface LedgerRequest {
+    entries: LedgerEntry[]; // 1–50
+}
+export interface LedgerRejection {
+    ref: string;
+    message: string;
+}
+export interface LedgerResponse extends ApiEnvelope {
+    recorded: string[]; // Refs recorded, now or by an earlier report
+    rejected: LedgerRejection[]; // Refs the server refused, with why
+    bank_balance: number;
+    score: number;
+}
+
+// Health
+export interface HealthResponse {
+    status: "OK" | "Error";
+    message?: string;
+    details?: string;
+}
@@ -0,0 +1,223 @@
+// src/simulation/Charging.ts
+/**
+ * @file Charging.ts
+ * @description Battery and charging model for CyberTaxi: energy use, charger types, charge sessions and their cost.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.3.1
+ * @note Figures from the GDD ("SuperCharger Setup" and "Charging Costs"): Model Y use of 0.25–0.3 kWh/mile, Home Wall
+ *       Connector 11.5 kW (44 miles per hour of charging), V2 150 kW, V3 250 kW, V4 325 kW, $0.12/kWh in a garage and
+ *       $0.25–$0.50/kWh at a SuperCharger. Pure functions; FareEngine owns the sessions.
+ * @detail A session charges towards an 80% or 100% target. Below 80% a charger delivers bulkShare of its rated power;
+ *         above it the pack tapers to taperShare, so 80→100% is slow on every charger (V3 0–80% takes about 20 minutes,
+ *         as in the GDD). Cost is prorated on the energy delivered, so disconnecting early pays for the power used.
+ *         SuperCharger sites (domain/ChargingSites.ts) are shared with the public: publicStallsInUse gives a smooth,
+ *         deterministic load per site that swings between PUBLIC_LOAD_MIN and full over PUBLIC_LOAD_PERIOD_MS.
+ *         Battery capacity and energy use are per model (domain/VehicleCatalog.ts); BATTERY_CAPACITY_KWH and
+ *         KWH_PER_MILE are the Model Y defaults used when the caller has no model.
+ */
+import type { ChargingSite, SuperchargerType } from "../domain/ChargingSites";
+import { toCents } from "../utils/money";
+
+export type ChargerType = "home" | SuperchargerType;
+export type ChargeTarget = 80 | 100;
+
+/**
+ * A charger model.
+ * @interface ChargerSpec
+ */
+export interface ChargerSpec {
+    id: ChargerType;
+    label: string;
+    powerKw: number; // Rated power
+    pricePerKwh: number; // Default price; garages pay GARAGE_PRICE_PER_KWH
+    bulkShare: number; // Share of rated power delivered below TAPER_FROM_PERCENT
+    taperShare: number; // Share of rated power delivered from TAPER_FROM_PERCENT up
+}
+
+/**
+ * A charge in progress.
+ * @interface ChargeSession
+ */
+export interface ChargeSession {
+    vehicleId: string;
+    charger: ChargerType;
+    pricePerKwh: number;
+    target: ChargeTarget;
+    startBattery: number; // Percent
+    battery: number; // Percent, current
+    energyKwh: number; // Delivered so far
+    cost: number; // Dollars so far, unrounded
+    startedAt: number; // Simulated ms
+    siteId: string | null; // SuperCharger site, or null for the garage charger
+    capacityKwh: number; // Usable pack of the vehicle's model
+}
+
+/**
+ * A finished charge and its bill.
+ * @interface ChargeReceipt
+ */
+export interface ChargeReceipt extends ChargeSession {
+    endedAt: number;
+    reason: "complete" | "disconnected"; // Disconnected: stopped before the target
+}
+
+/**
+ * Occupancy of a SuperCharger site.
+ * @interface ChargingSiteStatus
+ */
+export interface ChargingSiteStatus {
+    siteId: string;
+    stalls: number;
+    publicInUse: number; // Stalls used by the public
+    playerInUse: string[]; // Player vehicles plugged in
+    queue: string[]; // Player vehicles waiting for a stall, first in line first
+}
+
+export const BATTERY_CAPACITY_KWH = 75; // Model Y Long Range usable pack
+export const KWH_PER_MILE = 0.26; // Within the GDD's 0.25–0.3 and matching its 44 miles per hour at 11.5 kW
+export const FULL_RANGE_MILES = BATTERY_CAPACITY_KWH / KWH_PER_MILE;
+export const GARAGE_PRICE_PER_KWH = 0.12;
+export const SUPERCHARGER_PRICE_RANGE: readonly [number, number] = [0.25, 0.5];
+export const TAPER_FROM_PERCENT = 80;
+const PUBLIC_LOAD_MIN = 0.1;
+const PUBLIC_LOAD_PERIOD_MS = 2 * 3600000;
+
+export const CHARGERS: Readonly<Record<ChargerType, ChargerSpec>> = {
+    home: { id: "home", label: "Home Wall Connector (11.5 kW)", powerKw: 11.5, pricePerKwh: GARAGE_PRICE_PER_KWH, bulkShare: 1, taperShare: 0.8 },
+    v2: { id: "v2", label: "V2 SuperCharger (150 kW)", powerKw: 150, pricePerKwh: 0.25, bulkShare: 0.6, taperShare: 0.2 },
+    v3: { id: "v3", label: "V3 SuperCharger (250 kW)", powerKw: 250, pricePerKwh: 0.35, bulkShare: 0.7, taperShare: 0.2 },
+    v4: { id: "v4", label: "V4 SuperCharger (325 kW)", powerKw: 325, pricePerKwh: 0.5, bulkShare: 0.7, taperShare: 0.2 },
+};
+
+/**
+ * Battery used to drive a distance.
+ * @param {number} miles - Distance driven.
+ * @param {number} [kwhPerMile] - The model's energy use.
+ * @param {number} [capacityKwh] - The model's usable pack.
+ * @returns {number} Percentage points of battery.
+ */
+export const batteryForMiles = (
+    miles: number,
+    kwhPerMile: number = KWH_PER_MILE,
+    capacityKwh: number = BATTERY_CAPACITY_KWH
+): number => ((miles * kwhPerMile) / capacityKwh) * 100;
+
+/**
+ * Power a charger delivers at a state of charge.
+ * @param {ChargerType} charger - Charger model.
+ * @param {number} battery - Current percent.
+ * @returns {number} kW.
+ */
+export const chargeRateKw = (charger: ChargerType, battery: number): number => {
+    const spec = CHARGERS[charger];
+    return spec.powerKw * (battery < TAPER_FROM_PERCENT ? spec.bulkShare : spec.taperShare);
+};
+
+/**
+ * Time to charge from one level to a target.
+ * @param {number} [capacityKwh] - The model's usable pack.
+ * @returns {number} Minutes (0 if already at or above the target).
+ */
+export const estimateChargeMinutes = (
+    charger: ChargerType,
+    battery: number,
+    target: ChargeTarget,
+    capacityKwh: number = BATTERY_CAPACITY_KWH
+): number => {
+    const kwhPerPercent = capacityKwh / 100;
+    const bulk = Math.max(0, Math.min(target, TAPER_FROM_PERCENT) - battery);
+    const taper = Math.max(0, target - Math.max(battery, TAPER_FROM_PERCENT));
+    const hours =
+        (bulk * kwhPerPercent) / chargeRateKw(charger, 0) + (taper * kwhPerPercent) / chargeRateKw(charger, TAPER_FROM_PERCENT);
+    return hours * 60;
+};
+
+/**
+ * Stalls the public occupies at a site, never more than the player leaves free.
+ * @param {ChargingSite} site - Site.
+ * @param {number} index - Site position in its list; staggers the peaks.
+ * @param {number} now - Simulated ms.
+ * @param {number} playerInUse - Stalls held by player vehicles.
+ * @returns {number} Public stalls in use.
+ */
+export const publicStallsInUse = (site: ChargingSite, index: number, now: number, playerInUse: number): number => {
+    const phase = now / PUBLIC_LOAD_PERIOD_MS + index / 6;
+    const load = PUBLIC_LOAD_MIN + ((1 - PUBLIC_LOAD_MIN) * (1 + Math.sin(2 * Math.PI * phase))) / 2;
+    return Math.max(0, Math.min(Math.floor(site.stalls * load), site.stalls - playerInUse));
+};
+
+/**
+ * Opens a charge session.
+ * @param {string} vehicleId - Vehicle plugged in.
+ * @param {number} battery - Current percent.
+ * @param {ChargerType} charger - Charger model.
+ * @param {ChargeTarget} target - Stop at 80% or 100%.
+ * @param {number} now - Simulated ms.
+ * @param {number} [pricePerKwh] - Site price; the charger's default otherwise.
+ * @param {string | null} [siteId] - SuperCharger site, null for the garage charger.
+ * @param {number} [capacityKwh] - The model's usable pack.
+ * @returns {ChargeSession} New session.
+ */
+export const startChargeSession = (
+    vehicleId: string,
+    battery: number,
+    charger: ChargerType,
+    target: ChargeTarget,
+    now: number,
+    pricePerKwh: number = CHARGERS[charger].pricePerKwh,
+    siteId: string | null = null,
+    capacityKwh: number = BATTERY_CAPACITY_KWH
+): ChargeSession => ({
+    vehicleId,
+    charger,
+    pricePerKwh,
+    target,
+    startBattery: battery,
+    battery,
+    energyKwh: 0,
+    cost: 0,
+    startedAt: now,
+    siteId,
+    capacityKwh,
+});
+
+/**
+ * Charges for a period, switching to the taper rate when crossing TAPER_FROM_PERCENT.
+ * @param {ChargeSession} session - Session (not mutated).
+ * @param {number} dtMs - Simulated time plugged in.
+ * @returns {ChargeSession} Updated session; battery never exceeds the target.
+ */
+export const advanceCharge = (session: ChargeSession, dtMs: number): ChargeSession => {
+    const kwhPerPercent = session.capacityKwh / 100;
+    let hours = dtMs / 3600000;
+    let battery = session.battery;
+    let energy = 0;
+    while (hours > 0 && battery < session.target) {
+        const rate = chargeRateKw(session.charger, battery);
+        const limit = battery < TAPER_FROM_PERCENT ? Math.min(TAPER_FROM_PERCENT, session.target) : session.target;
+        const needed = ((limit - battery) * kwhPerPercent) / rate;
+        const used = Math.min(hours, needed);
+        energy += rate * used;
+        battery = used === needed ? limit : battery + (rate * used) / kwhPerPercent;
+        hours -= used;
+    }
+    return {
+        ...session,
+        battery,
+        energyKwh: session.energyKwh + energy,
+        cost: session.cost + energy * session.pricePerKwh,
+    };
+};
+
+/**
+ * Closes a session and bills it.
+ * @param {ChargeSession} session - Session to close.
+ * @param {number} now - Simulated ms.
+ * @returns {ChargeReceipt} Receipt with cost rounded to cents.
+ */
+export const closeChargeSession = (session: ChargeSession, now: number): ChargeReceipt => ({
+    ...session,
+    cost: toCents(session.cost),
+    endedAt: now,
+    reason: session.battery >= session.target ? "complete" : "disconnected",
+});
@@ -0,0 +1,79 @@
+// src/simulation/CityEventScheduler.test.ts
+/**
+ * @file CityEventScheduler.test.ts
+ * @description Unit tests for the CyberTaxi rush hour and protest schedule and the hazards it puts on routes.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Windows are picked on both sides of the 2025 daylight saving change (9 March), so local hours are checked in
+ *       CST and CDT.
+ */
+import { describe, expect, it } from "vitest";
+import { PROTEST_SPEED, PROTEST_WEAR, RUSH_ROUTE_TIME, RUSH_WEAR } from "../domain/CityEvents";
+import type { CityEvent } from "../domain/CityEvents";
+import { toAustinWallClock } from "../domain/LocalTime";
+import { routeHazards, scheduleCityEvents } from "./CityEventScheduler";
+import { CALM_CONDITIONS, wearMultiplier } from "./Wear";
+
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+/** Austin's hour of day at an instant. */
+const localHour = (at: number): number => new Date(toAustinWallClock(at)).getUTCHours();
+
+describe("scheduleCityEvents", () => {
+    it("runs rush hour 7–9 AM and 4–6 PM Austin time in winter and summer", () => {
+        // Monday 3 March 2025 (CST) and Monday 10 March 2025 (CDT)
+        [Date.UTC(2025, 2, 3, 12), Date.UTC(2025, 2, 10, 12)].forEach((noon) => {
+            const rush = scheduleCityEvents(1, noon - 12 * HOUR_MS, noon + 12 * HOUR_MS, 0).filter((event) => event.kind === "rush_hour");
+            expect(rush.map((event) => [localHour(event.startsAt), localHour(event.endsAt)])).toEqual([
+                [7, 9],
+                [16, 18],
+            ]);
+        });
+    });
+
+    it("has no rush hour at weekends", () => {
+        const saturday = Date.UTC(2025, 2, 8, 12);
+        expect(scheduleCityEvents(1, saturday, saturday + DAY_MS, 0)).toEqual([]);
+    });
+
+    it("gives the same calendar for the same seed, whatever window is asked for", () => {
+        const from = Date.UTC(2025, 0, 6);
+        const year = scheduleCityEvents(9, from, from + 52 * WEEK_MS, 1);
+        const spring = scheduleCityEvents(9, from + 9 * WEEK_MS, from + 10 * WEEK_MS, 1);
+        expect(spring.length).toBeGreaterThan(0);
+        spring.forEach((event) => expect(year).toContainEqual(event));
+        expect(scheduleCityEvents(10, from, from + 52 * WEEK_MS, 1)).not.toEqual(year);
+    });
+
+    it("starts protests between 9 AM and 7 PM Austin time and runs them 1 to 2 hours", () => {
+        const from = Date.UTC(2025, 0, 6);
+        const protests = scheduleCityEvents(3, from, from + 52 * WEEK_MS, 1).filter((event) => event.kind === "protest");
+        expect(protests.length).toBeGreaterThan(40);
+        protests.forEach((event) => {
+            expect(localHour(event.startsAt)).toBeGreaterThanOrEqual(9);
+            expect(localHour(event.startsAt)).toBeLessThanOrEqual(19);
+            expect(event.endsAt - event.startsAt).toBeGreaterThanOrEqual(HOUR_MS);
+            expect(event.endsAt - event.startsAt).toBeLessThanOrEqual(2 * HOUR_MS);
+        });
+    });
+});
+
+describe("routeHazards", () => {
+    const rush: CityEvent = { id: "rush-1", kind: "rush_hour", area: "Downtown", polygon: [], startsAt: 0, endsAt: 1 };
+    const protest: CityEvent = { id: "protest-1", kind: "protest", area: "the Capitol", polygon: [], startsAt: 0, endsAt: 1 };
+
+    it("slows routes through every event and blocks only avoided protests", () => {
+        expect(routeHazards([rush, protest])).toEqual([
+            { id: "rush-1", polygon: [], slowdown: RUSH_ROUTE_TIME, blocked: false },
+            { id: "protest-1", polygon: [], slowdown: 1 / PROTEST_SPEED, blocked: false },
+        ]);
+        expect(routeHazards([rush, protest], new Set(["rush-1", "protest-1"])).map((hazard) => hazard.blocked)).toEqual([false, true]);
+    });
+
+    it("quotes the wear the simulation charges", () => {
+        expect(RUSH_WEAR).toBeCloseTo(1.05);
+        expect(PROTEST_WEAR).toBe(wearMultiplier({ ...CALM_CONDITIONS, protest: true }));
+    });
+});
@@ -0,0 +1,191 @@
+// src/simulation/CityEventScheduler.ts
+/**
+ * @file CityEventScheduler.ts
+ * @description Seeded scheduler for CyberTaxi's rush hours and protests, and what they do to driving.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.2.0
+ * @note Event kinds, areas and GDD figures live in domain/CityEvents.ts; useCityEvents schedules them in the browser and
+ *       FareEngine.setCityEvents applies the active ones. Headless and pure, like the rest of the simulation.
+ * @detail Times are wall clock in Austin (domain/LocalTime.ts, with daylight saving). Rush hour runs in every
+ *         RUSH_HOURS window on weekdays. Each week (Monday to Sunday) draws from its own generator, seeded from the seed
+ *         and the week number, whether a protest happens (PROTEST_CHANCE_PER_WEEK), where, on which day, from when
+ *         (9 AM–7 PM) and for how long (PROTEST_HOURS); the same seed always yields the same calendar, whatever window
+ *         is asked for. Inside an event vehicles slow down (rush hour: RUSH_ROUTE_TIME longer, a protest: PROTEST_SPEED)
+ *         and wear faster (RUSH_TRAFFIC congestion, the protest multiplier in Wear.ts). routeHazards turns the events into
+ *         RouteHazards so routes avoid them: the player's vehicles never drive through a protest they rerouted around
+ *         unless there is no other way.
+ */
+import {
+    cityEventsAt,
+    insidePolygon,
+    PROTEST_CHANCE_PER_WEEK,
+    PROTEST_HOURS,
+    PROTEST_RADIUS_KM,
+    PROTEST_SITES,
+    PROTEST_SPEED,
+    ringAround,
+    RUSH_CORRIDOR,
+    RUSH_HOURS,
+    RUSH_ROUTE_TIME,
+    RUSH_TRAFFIC,
+} from "../domain/CityEvents";
+import type { CityEvent } from "../domain/CityEvents";
+import { fromAustinWallClock, toAustinWallClock } from "../domain/LocalTime";
+import type { RouteHazard } from "../routing/RoadGraph";
+import { createRandom } from "./random";
+import type { WearConditions } from "./Wear";
+
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+const EPOCH_WEEKDAY = 4; // 1 January 1970 was a Thursday
+const PROTEST_START_HOURS: readonly [number, number] = [9, 19]; // Earliest and latest start, local
+
+/** Local day number (days since 1 January 1970, Austin time) of an instant. */
+const localDay = (at: number): number => Math.floor(toAustinWallClock(at) / DAY_MS);
+
+/** Instant a local day and hour begin. */
+const localTime = (day: number, hours: number): number => fromAustinWallClock(day * DAY_MS + hours * HOUR_MS);
+
+/** Day of the week, 0 = Monday. */
+const weekday = (day: number): number => (day + EPOCH_WEEKDAY + 6) % 7;
+
+/**
+ * Rush hours of one local day.
+ * @param {number} day - Local day number.
+ * @returns {CityEvent[]} RUSH_HOURS windows over RUSH_CORRIDOR; none at weekends.
+ */
+const rushHours = (day: number): CityEvent[] =>
+    weekday(day) >= 5
+        ? []
+        : RUSH_HOURS.map(([start, end]) => ({
+              id: `rush-${day}-${start}`,
+              kind: "rush_hour",
+              area: "Downtown and I-35",
+              polygon: RUSH_CORRIDOR.map((vertex): [number, number] => [vertex[0], vertex[1]]),
+              startsAt: localTime(day, start),
+              endsAt: localTime(day, end),
+          }));
+
+/**
+ * The protest of one week, if any.
+ * @param {number} seed - Scheduler seed.
+ * @param {number} week - Week number; week w starts on local day 7w - 3 (a Monday).
+ * @param {number} chance - Chance of a protest that week.
+ * @returns {CityEvent | null} Protest, or null for a quiet week.
+ */
+const weeklyProtest = (seed: number, week: number, chance: number): CityEvent | null => {
+    const random = createRandom(seed ^ Math.imul(week, 0x9e3779b1));
+    if (random() >= chance) {
+        return null;
+    }
+    const site = PROTEST_SITES[Math.floor(random() * PROTEST_SITES.length)];
+    const day = week * 7 - 3 + Math.floor(random() * 7);
+    const [earliest, latest] = PROTEST_START_HOURS;
+    const [shortest, longest] = PROTEST_HOURS;
+    const startsAt = localTime(day, earliest + Math.floor(random() * (latest - earliest + 1)));
+    const minutes = Math.round((shortest + random() * (longest - shortest)) * 60);
+    return {
+        id: `protest-${week}-${site.id}`,
+        kind: "protest",
+        area: site.name,
+        polygon: ringAround(site.coords, PROTEST_RADIUS_KM),
+        startsAt,
+        endsAt: startsAt + minutes * 60000,
+    };
+};
+
+/**
+ * Schedules the events overlapping a window.
+ * @param {number} seed - Any integer; the same seed yields the same calendar.
+ * @param {number} from - Window start, epoch ms.
+ * @param {number} to - Window end, epoch ms.
+ * @param {number} [protestChance] - Chance of a protest per week; PROTEST_CHANCE_PER_WEEK by default.
+ * @returns {CityEvent[]} Events ending after from and starting before to, by start time.
+ */
+export const scheduleCityEvents = (
+    seed: number,
+    from: number,
+    to: number,
+    protestChance: number = PROTEST_CHANCE_PER_WEEK
+): CityEvent[] => {
+    const events: CityEvent[] = [];
+    const firstDay = localDay(from);
+    const lastDay = localDay(to);
+    for (let day = firstDay; day <= lastDay; day += 1) {
+        events.push(...rushHours(day));
+    }
+    // Protests last under a day, so the week before the window may still reach into it
+    for (let week = Math.floor((firstDay + 3) / 7) - 1; week <= Math.floor((lastDay + 3) / 7); week += 1) {
+        const protest = weeklyProtest(seed, week, protestChance);
+        if (protest) {
+            events.push(protest);
+        }
+    }
+    return events.filter((event) => event.endsAt > from && event.startsAt < to).sort((a, b) => a.startsAt - b.startsAt);
+};
+
+/**
+ * Driving conditions the events cause at a point.
+ * @param {readonly CityEvent[]} events - Active events.
+ * @param {[number, number]} coords - [lat, lng].
+ * @returns {WearConditions} RUSH_TRAFFIC congestion in rush hour, protest inside one; never rain.
+ */
+export const cityEventConditions = (events: readonly CityEvent[], coords: [number, number]): WearConditions => {
+    const here = cityEventsAt(events, coords);
+    return {
+        traffic: here.some((event) => event.kind === "rush_hour") ? RUSH_TRAFFIC : 0,
+        rain: false,
+        protest: here.some((event) => event.kind === "protest"),
+    };
+};
+
+/**
+ * Combines two sets of conditions.
+ * @returns {WearConditions} The heavier traffic, and rain or a protest if either has it.
+ */
+export const mergeConditions = (a: WearConditions, b: WearConditions): WearConditions => ({
+    traffic: Math.max(a.traffic, b.traffic),
+    rain: a.rain || b.rain,
+    protest: a.protest || b.protest,
+});
+
+/**
+ * Speed multiplier the events impose at a point.
+ * @param {readonly CityEvent[]} events - Active events.
+ * @param {[number, number]} coords - [lat, lng].
+ * @returns {number} 1 outside events, 1 / RUSH_ROUTE_TIME in rush hour, PROTEST_SPEED in a protest; the slowest wins.
+ */
+export const cityEventSpeed = (events: readonly CityEvent[], coords: [number, number]): number =>
+    cityEventsAt(events, coords).reduce(
+        (speed, event) => Math.min(speed, event.kind === "protest" ? PROTEST_SPEED : 1 / RUSH_ROUTE_TIME),
+        1
+    );
+
+/**
+ * Hazards the events put on routes.
+ * @param {readonly CityEvent[]} events - Active events.
+ * @param {ReadonlySet<string>} [avoided] - Ids of the protests to route around; none by default.
+ * @returns {RouteHazard[]} Rush hour slows routes by RUSH_ROUTE_TIME and a protest by 1 / PROTEST_SPEED; avoided
+ *          protests are blocked.
+ */
+export const routeHazards = (events: readonly CityEvent[], avoided: ReadonlySet<string> = new Set()): RouteHazard[] =>
+    events.map((event) => ({
+        id: event.id,
+        polygon: event.polygon,
+        slowdown: event.kind === "protest" ? 1 / PROTEST_SPEED : RUSH_ROUTE_TIME,
+        blocked: event.kind === "protest" && avoided.has(event.id),
+    }));
+
+/**
+ * Whether a path enters a polygon; each leg is checked at its ends and middle.
+ * @param {readonly [number, number][]} path - Route geometry, [lat, lng].
+ * @param {readonly [number, number][]} polygon - Area.
+ * @returns {boolean} True if any checked point is inside.
+ */
+export const pathCrosses = (path: readonly [number, number][], polygon: readonly [number, number][]): boolean =>
+    path.some(
+        (point, index) =>
+            insidePolygon(point, polygon) ||
+            (index > 0 &&
+                insidePolygon([(point[0] + path[index - 1][0]) / 2, (point[1] + path[index - 1][1]) / 2], polygon))
+    );
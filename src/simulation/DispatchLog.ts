@@ -0,0 +1,73 @@
+// src/simulation/DispatchLog.ts
+/**
+ * @file DispatchLog.ts
+ * @description In-memory log of dispatcher events (assignments, rejections, expiries, cancellations) for the UI.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note useFareSimulation records each step's events here; DispatchWindow subscribes for display.
+ * @detail Keeps the most recent MAX_ENTRIES events; listeners are notified synchronously on every change.
+ */
+import type { DispatchEvent } from "./Dispatcher";
+
+const MAX_ENTRIES = 200;
+
+/**
+ * A dispatcher event with its wall-clock time.
+ * @interface DispatchLogEntry
+ */
+export interface DispatchLogEntry extends DispatchEvent {
+    id: number;
+    timestamp: Date;
+}
+
+export class DispatchLog {
+    private static entries: DispatchLogEntry[] = [];
+    private static listeners = new Set<(entries: DispatchLogEntry[]) => void>();
+    private static nextId = 1;
+
+    /**
+     * Records dispatcher events.
+     * @param {DispatchEvent[]} events - Events from one simulation step, oldest first; ignored if empty.
+     */
+    static record(events: DispatchEvent[]): void {
+        if (events.length === 0) {
+            return;
+        }
+        const timestamp = new Date();
+        const added = events.map((event) => ({ ...event, id: this.nextId++, timestamp })).reverse();
+        this.entries = [...added, ...this.entries].slice(0, MAX_ENTRIES);
+        this.notify();
+    }
+
+    /**
+     * Current entries, newest first.
+     * @returns {DispatchLogEntry[]} Entries.
+     */
+    static getEntries(): DispatchLogEntry[] {
+        return this.entries;
+    }
+
+    /**
+     * Removes all entries.
+     */
+    static clear(): void {
+        this.entries = [];
+        this.notify();
+    }
+
+    /**
+     * Subscribes to entry changes.
+     * @param {(entries: DispatchLogEntry[]) => void} listener - Called with the new entry list.
+     * @returns {() => void} Unsubscribe function.
+     */
+    static subscribe(listener: (entries: DispatchLogEntry[]) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private static notify(): void {
+        this.listeners.forEach((listener) => listener(this.entries));
+    }
+}
@@ -0,0 +1,297 @@
+// src/simulation/Dispatcher.ts
+/**
+ * @file Dispatcher.ts
+ * @description Ride dispatcher for CyberTaxi with pluggable assignment strategies and an eligibility filter.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.2.4
+ * @note Used by FareEngine to match pending ride requests to vehicles; headless like the engine.
+ * @detail Vehicles are eligible when they are placed, active, not already on a ride and at or above minBattery. Each
+ *         strategy scores a (request, vehicle, approach route) triple, lower is better, knowing the range of the
+ *         vehicle's model on a full charge (the candidate's fullRangeMiles, from the catalog); requests are served oldest
+ *         first and take the best-scoring eligible vehicle. Road routes are only computed for a shortlist: every free
+ *         vehicle is scored against a straight-line approach first, and the SHORTLIST_SIZE best are routed and scored
+ *         again, with approaches routed around the candidate's hazards (FareEngine: the rush hours and protests under
+ *         way). A candidate with an avoids test (the protests the player rerouted around) is not offered the requests it
+ *         avoids. Every assignment, and the first time a request finds no eligible vehicle, is returned as a
+ *         DispatchEvent for DispatchLog and the Dispatch window.
+ */
+import { isPlaced } from "../domain/Vehicle";
+import type { PlacedVehicle, Vehicle } from "../domain/Vehicle";
+import { distanceKm, nearestZone } from "../domain/Zones";
+import { createGraphRouter, straightLineRoute } from "../routing/RoadGraph";
+import type { Route, RouteHazard, Router } from "../routing/RoadGraph";
+import { FULL_RANGE_MILES } from "./Charging";
+import type { RideRequest, VehicleOwner } from "./FareEngine";
+
+export type DispatchStrategyId = "straight-line" | "road-time" | "battery-aware" | "wear-aware" | "zone-priority";
+
+/**
+ * An assignment policy.
+ * @interface DispatchStrategy
+ */
+export interface DispatchStrategy {
+    id: DispatchStrategyId;
+    label: string;
+    /** Cost of sending the vehicle to the request along the approach route; lower wins. */
+    score(request: RideRequest, vehicle: PlacedVehicle, approach: Route, fullRangeMiles: number): number;
+}
+
+/**
+ * Dispatcher settings the player can change while the simulation runs.
+ * @interface DispatchSettings
+ */
+export interface DispatchSettings {
+    strategy: DispatchStrategyId;
+    minBattery: number; // Percent; vehicles below it are not offered rides
+}
+
+/**
+ * A vehicle the dispatcher may consider.
+ * @interface DispatchCandidate
+ */
+export interface DispatchCandidate {
+    vehicle: Vehicle;
+    owner: VehicleOwner;
+    busy: boolean; // Already on a ride or plugged in
+    fullRangeMiles?: number; // Range of its model on a full charge; FULL_RANGE_MILES (Model Y) by default
+    avoids?: (request: RideRequest) => boolean; // Requests it must not take, e.g. through an avoided protest
+    hazards?: readonly RouteHazard[]; // Areas its approach routes go slow through or around
+}
+
+/**
+ * A request matched to a vehicle.
+ * @interface Assignment
+ */
+export interface Assignment {
+    request: RideRequest;
+    vehicle: PlacedVehicle;
+    owner: VehicleOwner;
+    score: number;
+    approach: Route; // Vehicle to pickup
+}
+
+export type DispatchEventKind = "assigned" | "rejected" | "expired" | "cancelled";
+
+/**
+ * Something the dispatcher (or the engine around it) decided.
+ * @interface DispatchEvent
+ */
+export interface DispatchEvent {
+    kind: DispatchEventKind;
+    at: number; // Simulated ms
+    requestId: string;
+    vehicleId: string | null;
+    owner: VehicleOwner | null;
+    message: string;
+}
+
+/**
+ * Dispatcher instance.
+ * @interface Dispatcher
+ */
+export interface Dispatcher {
+    /** Matches requests, oldest first, to eligible candidates. */
+    assign(
+        requests: readonly RideRequest[],
+        candidates: readonly DispatchCandidate[],
+        now: number
+    ): Promise<{ assignments: Assignment[]; unassigned: RideRequest[]; events: DispatchEvent[] }>;
+    configure(settings: Partial<DispatchSettings>): void;
+    getSettings(): DispatchSettings;
+    /** Forgets a request (assigned elsewhere or expired) so a new rejection would be logged again. */
+    forget(requestId: string): void;
+}
+
+export const DEFAULT_DISPATCH_SETTINGS: DispatchSettings = { strategy: "straight-line", minBattery: 20 };
+
+const KM_TO_MILES = 0.621371;
+const ZONE_MISS_PENALTY_MILES = 5;
+const SHORTLIST_SIZE = 8; // Vehicles routed per request
+
+/** Straight-line miles. */
+const miles = (a: [number, number], b: [number, number]): number => distanceKm(a, b) * KM_TO_MILES;
+
+/** Whether a point lies inside its nearest zone. */
+const zoneOf = (point: [number, number]): string | null => {
+    const { zone, distanceKm: fromCenter } = nearestZone(point);
+    return fromCenter <= zone.radiusKm ? zone.id : null;
+};
+
+export const DISPATCH_STRATEGIES: Readonly<Record<DispatchStrategyId, DispatchStrategy>> = {
+    "straight-line": {
+        id: "straight-line",
+        label: "Nearest (straight line)",
+        score: (request, vehicle) => miles(vehicle.coords, request.pickup),
+    },
+    "road-time": {
+        id: "road-time",
+        label: "Nearest (road time)",
+        score: (_request, _vehicle, approach) => approach.minutes,
+    },
+    "battery-aware": {
+        id: "battery-aware",
+        label: "Battery-aware",
+        // Prefer charged vehicles; a vehicle that cannot drive to the pickup and finish the trip is a last resort
+        score: (request, vehicle, approach, fullRangeMiles) => {
+            const distance = approach.miles;
+            const range = (vehicle.battery / 100) * fullRangeMiles;
+            return (range < distance + request.miles ? 1000 : 0) + distance * (2 - vehicle.battery / 100);
+        },
+    },
+    "wear-aware": {
+        id: "wear-aware",
+        label: "Wear-aware",
+        score: (request, vehicle) => miles(vehicle.coords, request.pickup) * (1 + (2 * vehicle.wear) / 100),
+    },
+    "zone-priority": {
+        id: "zone-priority",
+        label: "Zone priority",
+        // Vehicles already in the pickup's zone go first, then the nearest
+        score: (request, vehicle) => {
+            const distance = miles(vehicle.coords, request.pickup);
+            const pickupZone = zoneOf(request.pickup);
+            return pickupZone !== null && zoneOf(vehicle.coords) === pickupZone ? distance : distance + ZONE_MISS_PENALTY_MILES;
+        },
+    },
+};
+
+/**
+ * Why a candidate cannot take a ride.
+ * @param {DispatchCandidate} candidate - Vehicle to check.
+ * @param {DispatchSettings} settings - Current rules.
+ * @returns {string | null} Reason, or null if eligible.
+ */
+export const ineligibility = (candidate: DispatchCandidate, settings: DispatchSettings): string | null => {
+    if (!isPlaced(candidate.vehicle)) {
+        return "off map";
+    }
+    if (candidate.busy) {
+        return "busy";
+    }
+    if (candidate.vehicle.status !== "active") {
+        return "not active";
+    }
+    if (candidate.vehicle.battery < settings.minBattery) {
+        return "low battery";
+    }
+    return null;
+};
+
+/**
+ * Creates a dispatcher.
+ * @param {Partial<DispatchSettings>} [settings] - Initial strategy and battery floor.
+ * @param {Router} [router] - Approach routes; straight lines by default.
+ * @returns {Dispatcher} Dispatcher with its own rejection memory.
+ */
+export const createDispatcher = (
+    settings: Partial<DispatchSettings> = {},
+    router: Router = createGraphRouter(null)
+): Dispatcher => {
+    let current: DispatchSettings = { ...DEFAULT_DISPATCH_SETTINGS, ...settings };
+    const rejected = new Set<string>(); // Requests already logged as rejected
+
+    return {
+        async assign(requests, candidates, now) {
+            const events: DispatchEvent[] = [];
+            const assignments: Assignment[] = [];
+            const unassigned: RideRequest[] = [];
+            const strategy = DISPATCH_STRATEGIES[current.strategy];
+            const reasons = new Map<string, number>();
+            const free: {
+                vehicle: PlacedVehicle;
+                owner: VehicleOwner;
+                fullRangeMiles: number;
+                avoids?: (request: RideRequest) => boolean;
+                hazards?: readonly RouteHazard[];
+            }[] = [];
+            candidates.forEach((candidate) => {
+                const reason = ineligibility(candidate, current);
+                if (reason === null) {
+                    free.push({
+                        vehicle: candidate.vehicle as PlacedVehicle,
+                        owner: candidate.owner,
+                        fullRangeMiles: candidate.fullRangeMiles ?? FULL_RANGE_MILES,
+                        avoids: candidate.avoids,
+                        hazards: candidate.hazards,
+                    });
+                } else {
+                    reasons.set(reason, (reasons.get(reason) ?? 0) + 1);
+                }
+            });
+
+            for (const request of requests) {
+                const shortlist = free
+                    .filter((entry) => !entry.avoids?.(request))
+                    .map((entry) => ({
+                        entry,
+                        estimate: strategy.score(
+                            request,
+                            entry.vehicle,
+                            straightLineRoute(entry.vehicle.coords, request.pickup),
+                            entry.fullRangeMiles
+                        ),
+                    }))
+                    .sort((a, b) => a.estimate - b.estimate)
+                    .slice(0, SHORTLIST_SIZE)
+                    .map(({ entry }) => entry);
+                const approaches = await Promise.all(
+                    shortlist.map((entry) => router.route(entry.vehicle.coords, request.pickup, entry.hazards))
+                );
+                let bestIndex = -1;
+                let bestScore = Infinity;
+                shortlist.forEach((entry, index) => {
+                    const score = strategy.score(request, entry.vehicle, approaches[index], entry.fullRangeMiles);
+                    if (score < bestScore) {
+                        bestIndex = index;
+                        bestScore = score;
+                    }
+                });
+                if (bestIndex === -1) {
+                    unassigned.push(request);
+                    if (!rejected.has(request.id)) {
+                        rejected.add(request.id);
+                        const detail = [...reasons].map(([reason, count]) => `${count} ${reason}`).join(", ");
+                        events.push({
+                            kind: "rejected",
+                            at: now,
+                            requestId: request.id,
+                            vehicleId: null,
+                            owner: null,
+                            message: `No eligible vehicle${detail ? ` (${detail})` : ""}`,
+                        });
+                    }
+                    continue;
+                }
+                const chosen = shortlist[bestIndex];
+                const approach = approaches[bestIndex];
+                free.splice(free.indexOf(chosen), 1);
+                rejected.delete(request.id);
+                assignments.push({ request, vehicle: chosen.vehicle, owner: chosen.owner, score: bestScore, approach });
+                events.push({
+                    kind: "assigned",
+                    at: now,
+                    requestId: request.id,
+                    vehicleId: chosen.vehicle.id,
+                    owner: chosen.owner,
+                    message: `${strategy.label}, score ${bestScore.toFixed(2)}, ETA ${Math.ceil(approach.minutes)} min`,
+                });
+                reasons.set("busy", (reasons.get("busy") ?? 0) + 1);
+            }
+
+            return { assignments, unassigned, events };
+        },
+
+        configure(settings) {
+            current = { ...current, ...settings };
+            console.log(`Dispatcher: Strategy ${current.strategy}, min battery ${current.minBattery}%`);
+        },
+
+        getSettings() {
+            return current;
+        },
+
+        forget(requestId) {
+            rejected.delete(requestId);
+        },
+    };
+};
@@ -0,0 +1,169 @@
+// src/simulation/FareEngine.test.ts
+/**
+ * @file FareEngine.test.ts
+ * @description Unit tests for the CyberTaxi fare formula and FareEngine stepping.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.1
+ * @note Runs headless on straight-line routes (no router given), with the engine's logging silenced; the reroute test
+ *       drives a small hand-made road graph.
+ */
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ChargingSite } from "../domain/ChargingSites";
+import { ringAround } from "../domain/CityEvents";
+import type { Vehicle } from "../domain/Vehicle";
+import { DISPATCH_ZONES } from "../domain/Zones";
+import { createGraphRouter, createRoadGraph } from "../routing/RoadGraph";
+import { computeFare, createFareEngine } from "./FareEngine";
+import type { CompletedRide, FareEngine } from "./FareEngine";
+
+const STEP_MS = 60000;
+const MAX_STEPS = 240; // Four simulated hours
+
+/** An active player vehicle parked at a zone centre. */
+const playerVehicle = (id: string, zoneIndex = 0): Vehicle => ({
+    id,
+    player_id: 1,
+    type: "Model Y",
+    status: "active",
+    wear: 0,
+    battery: 100,
+    mileage: 0,
+    tire_mileage: 0,
+    cost: 0,
+    coords: [...DISPATCH_ZONES[zoneIndex].center],
+    dest: null,
+});
+
+/** Steps until a player ride completes or MAX_STEPS run out. */
+const firstPlayerRide = async (engine: FareEngine): Promise<CompletedRide | null> => {
+    for (let step = 0; step < MAX_STEPS; step++) {
+        const result = await engine.step(STEP_MS);
+        const ride = result.completed.find((completed) => completed.owner === "player");
+        if (ride) {
+            return ride;
+        }
+    }
+    return null;
+};
+
+beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+});
+
+describe("computeFare", () => {
+    it("charges $4.20 plus $0.69 a mile and leaves the owner 70%", () => {
+        expect(computeFare(10)).toEqual({ miles: 10, gross: 11.1, teslaCut: 3.33, net: 7.77 });
+    });
+
+    it("charges the flag fall on a zero-mile trip", () => {
+        expect(computeFare(0)).toEqual({ miles: 0, gross: 4.2, teslaCut: 1.26, net: 2.94 });
+    });
+
+    it("takes the formula parameters from the config", () => {
+        const fare = computeFare(2, { baseFare: 5, perMile: 1, teslaShare: 0.5, scorePerRide: 10 });
+        expect(fare).toEqual({ miles: 2, gross: 7, teslaCut: 3.5, net: 3.5 });
+    });
+});
+
+describe("createFareEngine", () => {
+    it("replays the same requests for the same seed", async () => {
+        const run = async (seed: number) => {
+            const engine = createFareEngine({ seed });
+            engine.setVehicles([], []);
+            const result = await engine.step(10 * STEP_MS);
+            return result.requested.map((request) => ({ id: request.id, pickup: request.pickup, dropoff: request.dropoff }));
+        };
+        const first = await run(42);
+        expect(first.length).toBeGreaterThan(0);
+        expect(await run(42)).toEqual(first);
+        expect(await run(43)).not.toEqual(first);
+    });
+
+    it("advances its clock by each step", async () => {
+        const engine = createFareEngine({ seed: 1 });
+        engine.setVehicles([], []);
+        await engine.step(STEP_MS);
+        const result = await engine.step(STEP_MS);
+        expect(result.now).toBe(2 * STEP_MS);
+        expect(engine.now()).toBe(2 * STEP_MS);
+    });
+
+    it("drives a player vehicle through a ride and pays the fare formula", async () => {
+        const engine = createFareEngine({ seed: 7 });
+        engine.setVehicles([playerVehicle("CT-001")], []);
+        const ride = await firstPlayerRide(engine);
+        expect(ride).not.toBeNull();
+        const { fare, score, vehicleId } = ride as CompletedRide;
+        expect(vehicleId).toBe("CT-001");
+        expect(fare).toEqual(computeFare(fare.miles));
+        expect(score).toBe(10);
+    });
+
+    it("drains the battery and wears the vehicle while it drives", async () => {
+        const engine = createFareEngine({ seed: 7 });
+        engine.setVehicles([playerVehicle("CT-001")], []);
+        await firstPlayerRide(engine);
+        const [wear] = engine.getWear();
+        expect(wear.vehicleId).toBe("CT-001");
+        expect(wear.mileage).toBeGreaterThan(0);
+        expect(wear.wear).toBeGreaterThan(0);
+        const session = engine.startCharging("CT-001", "home", 80);
+        expect(session.startBattery).toBeLessThan(100);
+    });
+
+    it("gives other players' vehicles no wear", async () => {
+        const engine = createFareEngine({ seed: 7 });
+        engine.setVehicles([], [{ ...playerVehicle("XX-001"), player_id: undefined }]);
+        for (let step = 0; step < 30; step++) {
+            await engine.step(STEP_MS);
+        }
+        expect(engine.getWear()).toEqual([]);
+    });
+
+    it("re-plans a trip around a protest the player reroutes around", async () => {
+        // A fast road through the north and a slower one through the east, from FROM to a site at TO
+        const north: [number, number] = [30.28, -97.74];
+        const east: [number, number] = [30.24, -97.74];
+        const graph = createRoadGraph({
+            version: 1,
+            name: "test",
+            nodes: [[30.26, -97.76], north, [30.26, -97.72], east],
+            edges: [
+                [0, 1, 40],
+                [1, 2, 40],
+                [0, 3, 30],
+                [3, 2, 30],
+            ],
+        });
+        const site: ChargingSite = {
+            id: "SC-TEST",
+            name: "Test",
+            address: "",
+            coords: [30.2601, -97.7199],
+            charger: "v3",
+            stalls: 4,
+            pricePerKwh: 0.3,
+        };
+        const engine = createFareEngine({ seed: 7, router: createGraphRouter(graph), sites: [site], requestsPerMinute: 0.001 });
+        engine.setVehicles([{ ...playerVehicle("CT-001"), coords: [30.2601, -97.7601] }], []);
+        const trip = await engine.sendToCharger("CT-001", "SC-TEST", 80);
+        expect(trip.path).toContainEqual(north);
+        await engine.step(1000);
+
+        const protest = { id: "protest-1", kind: "protest" as const, area: "the north", polygon: ringAround(north, 0.5), startsAt: 0, endsAt: 1e9 };
+        engine.setCityEvents([protest], new Set(["protest-1"]));
+        await engine.step(1000);
+        const [rerouted] = engine.getChargerTrips();
+        expect(rerouted.path).toContainEqual(east);
+        expect(rerouted.path).not.toContainEqual(north);
+    });
+
+    it("refuses to charge a vehicle in maintenance and keeps the job", async () => {
+        const engine = createFareEngine({ seed: 7 });
+        engine.setVehicles([playerVehicle("CT-001")], []);
+        engine.startMaintenance("CT-001", ["service"]);
+        expect(() => engine.startCharging("CT-001", "home", 80)).toThrow(/in maintenance/);
+        expect(engine.getChargeSessions()).toEqual([]);
+        expect(engine.getMaintenanceJobs().map((job) => job.vehicleId)).toEqual(["CT-001"]);
+    });
+});
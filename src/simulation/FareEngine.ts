@@ -0,0 +1,1024 @@
+// src/simulation/FareEngine.ts
+/**
+ * @file FareEngine.ts
+ * @description Deterministic fare simulation for CyberTaxi: ride requests, assignment, pickup/drop-off and fare payout.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.12.2
+ * @note Implements the GDD earnings formula ($4.20 + $0.69/mile, minus the Tesla share) and "the closest free
+ *       CyberTaxi gets the ride". Headless (no timers, DOM or React): the caller feeds snapshots with setVehicles() and
+ *       advances simulated time with step(), and the same seed and inputs always produce the same run. Batteries,
+ *       maintenance, staff, permits, weather and city events are described on the FareEngine methods that drive them.
+ */
+import { CHARGING_SITES, sitesByDistance } from "../domain/ChargingSites";
+import type { ChargingSite } from "../domain/ChargingSites";
+import { insidePolygon } from "../domain/CityEvents";
+import type { CityEvent } from "../domain/CityEvents";
+import { isEarning, isPlaced } from "../domain/Vehicle";
+import type { Vehicle, VehicleDelta, VehicleStatus } from "../domain/Vehicle";
+import { modelFor } from "../domain/VehicleCatalog";
+import type { VehicleModel } from "../domain/VehicleCatalog";
+import { CALM_WEATHER } from "../domain/Weather";
+import type { WeatherModifiers } from "../domain/Weather";
+import { DISPATCH_ZONES, distanceKm, randomPointInZone } from "../domain/Zones";
+import type { DispatchZone } from "../domain/Zones";
+import { createGraphRouter } from "../routing/RoadGraph";
+import { CyberError } from "../utils/errorhandling/CyberError";
+import { toCents } from "../utils/money";
+import type { Route, RouteHazard, Router } from "../routing/RoadGraph";
+import { advanceCharge, batteryForMiles, closeChargeSession, publicStallsInUse, startChargeSession } from "./Charging";
+import type { ChargerType, ChargeReceipt, ChargeSession, ChargeTarget, ChargingSiteStatus } from "./Charging";
+import { cityEventConditions, cityEventSpeed, mergeConditions, pathCrosses, routeHazards } from "./CityEventScheduler";
+import { createDispatcher } from "./Dispatcher";
+import type { DispatchEvent, DispatchSettings } from "./Dispatcher";
+import { createRandom, nextArrivalMs } from "./random";
+import { crewFor, startCleaningJob, withMechanic } from "./Staffing";
+import type { CleaningJob, StaffedGarage, StaffWork } from "./Staffing";
+import { accrueWear, applyMaintenance, CALM_CONDITIONS, jobsFor, maintenanceDue, startMaintenanceJob, wearFromVehicle } from "./Wear";
+import type { MaintenanceAlert, MaintenanceJob, MaintenanceKind, MaintenanceReceipt, WearConditions, WearState } from "./Wear";
+
+/**
+ * Fare formula parameters.
+ * @interface FareConfig
+ */
+export interface FareConfig {
+    baseFare: number; // Flag fall, dollars
+    perMile: number; // Dollars per trip mile
+    teslaShare: number; // Fraction of the gross kept by Tesla
+    scorePerRide: number; // Score awarded per completed ride
+}
+
+export const DEFAULT_FARE_CONFIG: FareConfig = {
+    baseFare: 4.2,
+    perMile: 0.69,
+    teslaShare: 0.3, // The GDD does not fix the rate yet
+    scorePerRide: 10,
+};
+
+/**
+ * Money from one ride.
+ * @interface FareBreakdown
+ */
+export interface FareBreakdown {
+    miles: number;
+    gross: number;
+    teslaCut: number;
+    net: number; // Credited to the owner's bank
+}
+
+export type VehicleOwner = "player" | "other";
+
+/**
+ * A passenger waiting for a taxi.
+ * @interface RideRequest
+ */
+export interface RideRequest {
+    id: string;
+    pickup: [number, number];
+    dropoff: [number, number];
+    miles: number; // Road trip length, charged by computeFare
+    route: Route; // Pickup to drop-off
+    requestedAt: number; // Simulated ms
+}
+
+/**
+ * A request assigned to a vehicle.
+ * @interface Ride
+ */
+export interface Ride {
+    request: RideRequest;
+    vehicleId: string;
+    owner: VehicleOwner;
+    phase: "pickup" | "dropoff";
+    assignedAt: number;
+    path: [number, number][]; // Waypoints still ahead in the current phase, ending at its target
+    milesPerMs: number; // Average speed of the current phase's route
+}
+
+/**
+ * A finished ride and what it paid.
+ * @interface CompletedRide
+ */
+export interface CompletedRide {
+    request: RideRequest;
+    vehicleId: string;
+    owner: VehicleOwner;
+    fare: FareBreakdown;
+    score: number;
+    completedAt: number;
+}
+
+/**
+ * A player vehicle driving to a SuperCharger.
+ * @interface ChargerTrip
+ */
+export interface ChargerTrip {
+    vehicleId: string;
+    siteId: string;
+    target: ChargeTarget;
+    miles: number; // Road miles from departure
+    path: [number, number][]; // Waypoints still ahead, ending at the site
+    milesPerMs: number;
+    departedAt: number; // Simulated ms
+}
+
+/**
+ * Everything that happened during one step.
+ * @interface FareStepResult
+ */
+export interface FareStepResult {
+    now: number;
+    requested: RideRequest[];
+    assigned: Ride[];
+    completed: CompletedRide[];
+    expired: RideRequest[]; // Waited longer than requestTimeoutMs without a taxi
+    deltas: VehicleDelta[]; // One per moved or restyled vehicle
+    events: DispatchEvent[]; // Assignments, rejections, expiries and cancellations, for DispatchLog
+    charging: ChargeSession[]; // Sessions still plugged in after the step
+    charged: ChargeReceipt[]; // Sessions that reached their target or were unplugged by a status change
+    arrivals: ChargerTrip[]; // Trips that reached their site; the vehicle now waits or charges there
+    sites: ChargingSiteStatus[]; // Occupancy of every site after the step
+    alerts: MaintenanceAlert[]; // Maintenance thresholds crossed while driving
+    serviced: MaintenanceReceipt[]; // Jobs finished or cancelled by a status change
+    cleaned: CleaningJob[]; // Vehicles staff finished cleaning; now parked
+    staffWork: StaffWork[]; // Jobs finished by garage staff
+}
+
+/**
+ * Options for createFareEngine.
+ * @interface FareEngineOptions
+ */
+export interface FareEngineOptions {
+    seed: number;
+    requestsPerMinute?: number; // Mean arrival rate, simulated time
+    speedMph?: number; // Used on straight-line fallback routes; road routes carry their own speeds
+    requestTimeoutMs?: number;
+    fare?: Partial<FareConfig>;
+    zones?: readonly DispatchZone[]; // Where passengers appear; DISPATCH_ZONES by default
+    dispatch?: Partial<DispatchSettings>;
+    router?: Router; // Straight lines by default
+    sites?: readonly ChargingSite[]; // SuperCharger sites; CHARGING_SITES by default
+    conditions?: (coords: [number, number]) => WearConditions; // Traffic, rain and protests; calm by default
+}
+
+/**
+ * Fare simulation instance.
+ * @interface FareEngine
+ */
+export interface FareEngine {
+    /**
+     * Replaces the vehicle snapshots; positions of vehicles on a ride stay owned by the engine, and simulated battery
+     * levels win until the snapshots catch up (rival batteries stay server-owned). A player vehicle reported charging
+     * without a session (Fleet bulk Charge, a reload) goes on the garage charger to 80%; one reported in maintenance
+     * without a job gets the items due (a service if nothing is).
+     */
+    setVehicles(player: readonly Vehicle[], others: readonly Vehicle[]): void;
+    /**
+     * Advances simulated time; wait for the result before the next step. Requests arrive as a Poisson process between
+     * random points in the dispatch zones and the Dispatcher matches them with the configured strategy. Trips are
+     * routed with options.router (straight lines by default) and charged on road miles: a vehicle drives to the
+     * pickup (active, dest = pickup), turns to fare for the trip and back to active at the drop-off, using energy
+     * (Charging.ts) and, for player vehicles, picking up wear (Wear.ts) under options.conditions. Status changes the
+     * engine asks for are held until the snapshots confirm them, so a lagging snapshot does not end a trip.
+     */
+    step(dtMs: number): Promise<FareStepResult>;
+    /** Plugs a player vehicle in from the next step on; an assigned ride is cancelled. Throws if already charging. */
+    startCharging(vehicleId: string, charger: ChargerType, target: ChargeTarget, pricePerKwh?: number): ChargeSession;
+    /** Unplugs a vehicle early and bills the power used; also takes it out of a site queue or off a charger trip. */
+    stopCharging(vehicleId: string): ChargeReceipt | null;
+    getChargeSessions(): readonly ChargeSession[];
+    /** Site with the shortest drive from a player vehicle, among the NEAREST_SITES_ROUTED closest by straight line. */
+    nearestChargingSite(vehicleId: string): Promise<ChargingSite | null>;
+    /**
+     * Drives a player vehicle to a site to charge there; an assigned ride is cancelled. On arrival it joins the site's
+     * queue and plugs in once a stall is free of the public load (publicStallsInUse) and other player vehicles. Throws
+     * if it is busy charging.
+     */
+    sendToCharger(vehicleId: string, siteId: string, target: ChargeTarget): Promise<ChargerTrip>;
+    getChargerTrips(): readonly ChargerTrip[];
+    getChargingSites(): ChargingSiteStatus[];
+    /** Takes a player vehicle in for maintenance; an assigned ride is cancelled. Throws if it is charging or already in. */
+    startMaintenance(vehicleId: string, kinds: MaintenanceKind[]): MaintenanceJob;
+    /** Ends a job early; nothing is done and nothing billed. */
+    cancelMaintenance(vehicleId: string): MaintenanceReceipt | null;
+    getMaintenanceJobs(): readonly MaintenanceJob[];
+    /**
+     * Replaces the player's garages and who is on shift there (Staffing.ts); applies to jobs started from the next step
+     * on. A mechanic takes new maintenance jobs at half the cost and time; cleaning staff pick up vehicles in cleaning
+     * and park them when done, and without them a vehicle stays in cleaning until the player moves it. Finished staff
+     * jobs come back as staffWork for leveling.
+     */
+    setStaffing(garages: readonly StaffedGarage[]): void;
+    /**
+     * Replaces the vehicle models (VehicleCatalog.ts); from the next step on each player vehicle's battery capacity,
+     * energy use, wear factor and the full-charge range the dispatcher checks come from its model. Model Y figures
+     * until a catalog is set.
+     */
+    setCatalog(models: readonly VehicleModel[]): void;
+    /**
+     * Replaces the player vehicles without a valid taxi permit (Licensing.ts); from the next step on they get no new
+     * rides, though one under way is finished.
+     */
+    setUnlicensed(vehicleIds: ReadonlySet<string>): void;
+    /**
+     * Replaces the weather's modifiers (domain/Weather.ts) from the next step on: every vehicle drives slower, player
+     * vehicles wear as in rain and requests arrive more often while it is wet. Calm weather applies until it is set.
+     */
+    setWeather(modifiers: WeatherModifiers): void;
+    /**
+     * Replaces the rush hours and protests under way (CityEventScheduler.ts) and the protests player vehicles avoid.
+     * Vehicles inside an event drive slower and player vehicles wear faster; no passenger is picked up or dropped off
+     * inside a protest. Routes are planned around the events (routeHazards) and never cross an avoided protest unless
+     * there is no way around; player vehicles get no rides through one, and trips already heading through a newly
+     * avoided one re-plan on the next step, still paying the fare quoted on the original route.
+     */
+    setCityEvents(events: readonly CityEvent[], avoided: ReadonlySet<string>): void;
+    getCleaningJobs(): readonly CleaningJob[];
+    /** Simulated wear of the player vehicles that have driven or been serviced. */
+    getWear(): readonly WearState[];
+    /** Changes the dispatch strategy or battery floor from the next step on. */
+    configureDispatch(settings: Partial<DispatchSettings>): void;
+    getDispatchSettings(): DispatchSettings;
+    getPending(): readonly RideRequest[];
+    getRides(): readonly Ride[];
+    now(): number;
+}
+
+const KM_TO_MILES = 0.621371;
+const DEFAULT_REQUESTS_PER_MINUTE = 6;
+const DEFAULT_SPEED_MPH = 25;
+const DEFAULT_REQUEST_TIMEOUT_MS = 120000;
+const RESUME_CHARGER: ChargerType = "home";
+const RESUME_TARGET: ChargeTarget = 80;
+const NEAREST_SITES_ROUTED = 3;
+
+/** Rounds a battery level for deltas. */
+const toBattery = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Straight-line distance in miles.
+ * @returns {number} Miles between two [lat, lng] points.
+ */
+const miles = (a: [number, number], b: [number, number]): number => distanceKm(a, b) * KM_TO_MILES;
+
+/**
+ * Applies the GDD fare formula.
+ * @param {number} tripMiles - Trip length.
+ * @param {FareConfig} [config] - Formula parameters.
+ * @returns {FareBreakdown} Gross fare, Tesla's cut and the owner's net, in dollars.
+ */
+export const computeFare = (tripMiles: number, config: FareConfig = DEFAULT_FARE_CONFIG): FareBreakdown => {
+    const gross = toCents(config.baseFare + config.perMile * tripMiles);
+    const teslaCut = toCents(gross * config.teslaShare);
+    return { miles: tripMiles, gross, teslaCut, net: toCents(gross - teslaCut) };
+};
+
+/**
+ * Creates a seeded fare simulation.
+ * @param {FareEngineOptions} options - Seed and tuning.
+ * @returns {FareEngine} Engine; call setVehicles() before the first step().
+ */
+export const createFareEngine = (options: FareEngineOptions): FareEngine => {
+    const random = createRandom(options.seed);
+    const fareConfig: FareConfig = { ...DEFAULT_FARE_CONFIG, ...options.fare };
+    const ratePerMs = (options.requestsPerMinute ?? DEFAULT_REQUESTS_PER_MINUTE) / 60000;
+    const milesPerMs = (options.speedMph ?? DEFAULT_SPEED_MPH) / 3600000;
+    const requestTimeoutMs = options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    const zones = options.zones ?? DISPATCH_ZONES;
+    const router = options.router ?? createGraphRouter(null);
+    const dispatcher = createDispatcher(options.dispatch, router);
+    const sites = options.sites ?? CHARGING_SITES;
+    const conditionsAt = options.conditions ?? (() => CALM_CONDITIONS);
+    const serviceRandom = createRandom(options.seed + 1); // Separate stream, so repairs do not shift the requests
+
+    const fleet = new Map<string, { vehicle: Vehicle; owner: VehicleOwner }>();
+    const rides = new Map<string, Ride>(); // Keyed by vehicle id
+    const positions = new Map<string, [number, number]>(); // Vehicles on a ride or a charger trip
+    const batteries = new Map<string, number>(); // Simulated battery of player vehicles
+    const sessions = new Map<string, ChargeSession>(); // Keyed by vehicle id
+    const trips = new Map<string, ChargerTrip>(); // Keyed by vehicle id
+    const waiting = new Map<string, { siteId: string; target: ChargeTarget }>(); // Site queues; insertion order is the line
+    const awaiting = new Map<string, VehicleStatus>(); // Status set by the engine that the snapshot does not show yet
+    const released = new Map<string, VehicleStatus>(); // Unplugged or serviced, snapshot may still show that status
+    const wearStates = new Map<string, WearState>(); // Simulated wear of player vehicles
+    const jobs = new Map<string, MaintenanceJob>(); // Keyed by vehicle id
+    const cleanings = new Map<string, CleaningJob>(); // Keyed by vehicle id
+    let staffing: readonly StaffedGarage[] = [];
+    let catalog: readonly VehicleModel[] = [];
+    let unlicensed: ReadonlySet<string> = new Set();
+    let weather: WeatherModifiers = CALM_WEATHER;
+    let cityEvents: readonly CityEvent[] = [];
+    let avoided: ReadonlySet<string> = new Set();
+    let hazards: RouteHazard[] = []; // Every event slows routes
+    let playerHazards: RouteHazard[] = []; // Avoided protests are blocked too
+    let rerouting: string[] = []; // Protests avoided since the last step
+    let queuedEvents: DispatchEvent[] = []; // From startCharging between steps
+    let queuedDeltas: VehicleDelta[] = [];
+    let pending: RideRequest[] = [];
+    let clock = 0;
+    let nextRequestAt = nextArrivalMs(random, ratePerMs);
+    let requestCount = 0;
+
+    const pickZone = (): DispatchZone => zones[Math.floor(random() * zones.length)];
+
+    const createRequest = (at: number): Omit<RideRequest, "miles" | "route"> => {
+        const pickup = randomPointInZone(pickZone(), random);
+        const dropoff = randomPointInZone(pickZone(), random);
+        requestCount += 1;
+        return { id: `R-${requestCount}`, pickup, dropoff, requestedAt: at };
+    };
+
+    /** Average speed of a route; straight-line fallbacks drive at speedMph. */
+    const speedOf = (route: Route): number =>
+        route.approximate || route.minutes <= 0 ? milesPerMs : route.miles / (route.minutes * 60000);
+
+    /** Whether a vehicle is in a status, counting one the engine set that the snapshot has not caught up with. */
+    const holds = (vehicleId: string, status: VehicleStatus): boolean => {
+        if (fleet.get(vehicleId)?.vehicle.status === status) {
+            if (awaiting.get(vehicleId) === status) {
+                awaiting.delete(vehicleId);
+            }
+            return true;
+        }
+        return awaiting.get(vehicleId) === status;
+    };
+
+    /** Catalog model of a vehicle; Model Y figures for a type the catalog does not list. */
+    const modelOf = (vehicle: Vehicle): VehicleModel => modelFor(catalog, vehicle.type);
+
+    /** Current battery: simulated if the engine has touched it, otherwise the snapshot's. */
+    const batteryOf = (vehicle: Vehicle): number => batteries.get(vehicle.id) ?? vehicle.battery;
+
+    /** Current wear: simulated if the engine has touched it, otherwise from the snapshot. */
+    const wearOf = (vehicle: Vehicle): WearState => wearStates.get(vehicle.id) ?? wearFromVehicle(vehicle);
+
+    /** Vehicle fields mirroring a wear state, rounded for deltas. */
+    const wearDelta = (state: WearState): VehicleDelta => ({
+        id: state.vehicleId,
+        wear: Math.round(state.wear * 100) / 100,
+        mileage: Math.round(state.mileage * 10) / 10,
+        tire_mileage: Math.round(state.tireMileage * 10) / 10,
+    });
+
+    /** Opens a maintenance job; an on-shift mechanic at the vehicle's garage takes it at a discount. */
+    const openJob = (vehicle: Vehicle, kinds: MaintenanceKind[]): MaintenanceJob => {
+        const job = startMaintenanceJob(vehicle.id, kinds, clock, serviceRandom);
+        const crew = crewFor(positions.get(vehicle.id) ?? vehicle.coords, staffing, "mechanic");
+        return crew ? withMechanic(job, crew.member) : job;
+    };
+
+    /** Ends a ride early; a passenger not yet picked up waits again. */
+    const cancelRide = (ride: Ride, message: string): DispatchEvent => {
+        rides.delete(ride.vehicleId);
+        positions.delete(ride.vehicleId);
+        if (ride.phase === "pickup") {
+            pending.push(ride.request);
+        }
+        console.log(`FareEngine: Ride ${ride.request.id} cancelled, ${message}`);
+        return {
+            kind: "cancelled",
+            at: clock,
+            requestId: ride.request.id,
+            vehicleId: ride.vehicleId,
+            owner: ride.owner,
+            message,
+        };
+    };
+
+    /** Unplugs a vehicle and bills the session. */
+    const endSession = (session: ChargeSession): ChargeReceipt => {
+        const receipt = closeChargeSession(session, clock);
+        sessions.delete(session.vehicleId);
+        awaiting.delete(session.vehicleId);
+        released.set(session.vehicleId, "charging");
+        console.log(
+            `FareEngine: ${session.vehicleId} unplugged at ${receipt.battery.toFixed(0)}% (${receipt.reason}), ${receipt.energyKwh.toFixed(1)} kWh, $${receipt.cost.toFixed(2)}`
+        );
+        return receipt;
+    };
+
+    const plugIn = (
+        vehicle: Vehicle,
+        charger: ChargerType,
+        target: ChargeTarget,
+        pricePerKwh?: number,
+        siteId: string | null = null
+    ): ChargeSession => {
+        const session = startChargeSession(
+            vehicle.id,
+            batteryOf(vehicle),
+            charger,
+            target,
+            clock,
+            pricePerKwh,
+            siteId,
+            modelOf(vehicle).battery_kwh
+        );
+        sessions.set(vehicle.id, session);
+        released.delete(vehicle.id);
+        console.log(
+            `FareEngine: ${vehicle.id} charging on ${charger}${siteId ? ` at ${siteId}` : ""} to ${target}% from ${session.battery.toFixed(0)}%`
+        );
+        return session;
+    };
+
+    /** Occupancy of every site right now. */
+    const siteStatuses = (): ChargingSiteStatus[] =>
+        sites.map((site, index) => {
+            const playerInUse = [...sessions.values()].filter((session) => session.siteId === site.id).map((session) => session.vehicleId);
+            return {
+                siteId: site.id,
+                stalls: site.stalls,
+                publicInUse: publicStallsInUse(site, index, clock, playerInUse.length),
+                playerInUse,
+                queue: [...waiting].filter(([, spot]) => spot.siteId === site.id).map(([vehicleId]) => vehicleId),
+            };
+        });
+
+    /** Plugs in the head of each site queue while stalls are free. */
+    const serveQueues = (): void => {
+        siteStatuses().forEach((status) => {
+            const site = sites.find((candidate) => candidate.id === status.siteId) as ChargingSite;
+            let free = status.stalls - status.publicInUse - status.playerInUse.length;
+            status.queue.forEach((vehicleId) => {
+                const entry = fleet.get(vehicleId);
+                const spot = waiting.get(vehicleId);
+                if (free <= 0 || !entry || !spot) {
+                    return;
+                }
+                waiting.delete(vehicleId);
+                plugIn(entry.vehicle, site.charger, spot.target, site.pricePerKwh, site.id);
+                free -= 1;
+            });
+        });
+    };
+
+    /**
+     * Drives a vehicle along its path for one step; player vehicles pay for the miles in battery and wear.
+     * @param {FareStepResult} result - Step's result, for maintenance alerts.
+     * @param {(delta: VehicleDelta) => void} emit - Step's delta sink, for battery and wear.
+     * @returns {[number, number]} Position after the step; path loses the waypoints reached.
+     */
+    const drive = (
+        vehicleId: string,
+        owner: VehicleOwner,
+        path: [number, number][],
+        speed: number,
+        dtMs: number,
+        result: FareStepResult,
+        emit: (delta: VehicleDelta) => void
+    ): [number, number] => {
+        // Drive along the route's waypoints until this step's distance runs out
+        let position = positions.get(vehicleId) as [number, number];
+        let travel = speed * weather.speed * cityEventSpeed(cityEvents, position) * dtMs;
+        let driven = 0;
+        while (path.length > 0) {
+            const waypoint = path[0];
+            const remaining = miles(position, waypoint);
+            if (travel < remaining) {
+                const k = travel / remaining;
+                position = [position[0] + (waypoint[0] - position[0]) * k, position[1] + (waypoint[1] - position[1]) * k];
+                driven += travel;
+                break;
+            }
+            travel -= remaining;
+            driven += remaining;
+            position = waypoint;
+            path.shift();
+        }
+        positions.set(vehicleId, position);
+        const entry = fleet.get(vehicleId);
+        if (owner === "player" && entry) {
+            const model = modelOf(entry.vehicle);
+            const here = conditionsAt(position);
+            const conditions = mergeConditions({ ...here, rain: here.rain || weather.wet }, cityEventConditions(cityEvents, position));
+            const worn = accrueWear(wearOf(entry.vehicle), driven, conditions, clock, model.wear_factor);
+            wearStates.set(vehicleId, worn.state);
+            result.alerts.push(...worn.alerts);
+            worn.alerts.forEach((alert) => console.log(`FareEngine: ${vehicleId} ${alert.message}`));
+            // A worn pack holds less, so the same miles take a larger share of it
+            const used = batteryForMiles(driven, model.kwh_per_mile, model.battery_kwh);
+            const battery = Math.max(0, batteryOf(entry.vehicle) - (used * 100) / Math.max(worn.state.batteryHealth, 1));
+            batteries.set(vehicleId, battery);
+            emit({ ...wearDelta(worn.state), battery: toBattery(battery) });
+        }
+        return position;
+    };
+
+    return {
+        setVehicles(player, others) {
+            fleet.clear();
+            others.forEach((vehicle) => fleet.set(vehicle.id, { vehicle, owner: "other" }));
+            player.forEach((vehicle) => fleet.set(vehicle.id, { vehicle, owner: "player" }));
+        },
+
+        async step(dtMs) {
+            clock += dtMs;
+            const result: FareStepResult = {
+                now: clock,
+                requested: [],
+                assigned: [],
+                completed: [],
+                expired: [],
+                deltas: [],
+                events: queuedEvents,
+                charging: [],
+                charged: [],
+                arrivals: [],
+                sites: [],
+                alerts: [],
+                serviced: [],
+                cleaned: [],
+                staffWork: [],
+            };
+            const deltas = new Map<string, VehicleDelta>();
+            const emit = (delta: VehicleDelta) => deltas.set(delta.id, { ...deltas.get(delta.id), ...delta });
+            queuedDeltas.forEach(emit);
+            queuedEvents = [];
+            queuedDeltas = [];
+
+            // Drop rides whose vehicle was sold or taken out of service; passengers not yet picked up wait again
+            rides.forEach((ride, vehicleId) => {
+                const entry = fleet.get(vehicleId);
+                if (entry && isEarning(entry.vehicle.status)) {
+                    return;
+                }
+                result.events.push(
+                    cancelRide(ride, ride.phase === "pickup" ? "Vehicle left service, passenger waits again" : "Vehicle left service mid-trip")
+                );
+            });
+
+            // Charger trips and site queues end when the vehicle is sold or moved to another status
+            trips.forEach((trip, vehicleId) => {
+                if (!holds(vehicleId, "active")) {
+                    trips.delete(vehicleId);
+                    positions.delete(vehicleId);
+                    console.log(`FareEngine: ${vehicleId} turned back from ${trip.siteId}`);
+                }
+            });
+            waiting.forEach((spot, vehicleId) => {
+                if (!holds(vehicleId, "charging")) {
+                    waiting.delete(vehicleId);
+                    console.log(`FareEngine: ${vehicleId} left the queue at ${spot.siteId}`);
+                }
+            });
+
+            // Charging: pick up vehicles left charging, unplug ones moved to another status, charge the rest
+            fleet.forEach(({ vehicle, owner }, vehicleId) => {
+                if (owner !== "player") {
+                    return;
+                }
+                if (released.has(vehicleId) && released.get(vehicleId) !== vehicle.status) {
+                    released.delete(vehicleId);
+                }
+                if (vehicle.status === "charging" && !sessions.has(vehicleId) && !waiting.has(vehicleId) && !released.has(vehicleId) && isPlaced(vehicle)) {
+                    plugIn(vehicle, RESUME_CHARGER, RESUME_TARGET);
+                }
+                if (vehicle.status === "maintenance" && !jobs.has(vehicleId) && !released.has(vehicleId)) {
+                    const kinds = jobsFor(maintenanceDue(wearOf(vehicle)));
+                    const job = openJob(vehicle, kinds.length > 0 ? kinds : ["service"]);
+                    jobs.set(vehicleId, job);
+                    console.log(
+                        `FareEngine: ${vehicleId} picked up in maintenance, ${job.kinds.join(" + ")}${job.staffId !== undefined ? ` by staff ${job.staffId}` : ""}`
+                    );
+                }
+                if (vehicle.status === "cleaning" && !cleanings.has(vehicleId) && !released.has(vehicleId)) {
+                    const crew = crewFor(vehicle.coords, staffing, "cleaner");
+                    if (crew) {
+                        cleanings.set(vehicleId, startCleaningJob(vehicleId, crew.garage, crew.member, clock));
+                        console.log(`FareEngine: ${vehicleId} being cleaned by staff ${crew.member.staffId} at garage ${crew.garage.garageId}`);
+                    }
+                }
+                // Snapshot is behind the simulation
+                if (batteries.has(vehicleId) && vehicle.battery !== toBattery(batteryOf(vehicle))) {
+                    emit({ id: vehicleId, battery: toBattery(batteryOf(vehicle)) });
+                }
+                const worn = wearStates.get(vehicleId);
+                if (worn) {
+                    const expected = wearDelta(worn);
+                    if (vehicle.wear !== expected.wear || vehicle.mileage !== expected.mileage || vehicle.tire_mileage !== expected.tire_mileage) {
+                        emit(expected);
+                    }
+                }
+            });
+            sessions.forEach((session, vehicleId) => {
+                if (!holds(vehicleId, "charging")) {
+                    result.charged.push(endSession(session));
+                    return;
+                }
+                const next = advanceCharge(session, dtMs);
+                batteries.set(vehicleId, next.battery);
+                emit({ id: vehicleId, battery: toBattery(next.battery) });
+                if (next.battery >= next.target) {
+                    result.charged.push(endSession(next));
+                    emit({ id: vehicleId, status: "parked" });
+                    return;
+                }
+                sessions.set(vehicleId, next);
+            });
+
+            // Maintenance: finish jobs that are due, drop ones taken out of maintenance
+            jobs.forEach((job, vehicleId) => {
+                const entry = fleet.get(vehicleId);
+                if (!entry || !holds(vehicleId, "maintenance")) {
+                    jobs.delete(vehicleId);
+                    result.serviced.push({ ...job, cost: 0, endedAt: clock, reason: "cancelled" });
+                    console.log(`FareEngine: ${vehicleId} taken out of maintenance before ${job.kinds.join(" + ")} was done`);
+                    return;
+                }
+                if (clock < job.readyAt) {
+                    return;
+                }
+                const serviced = applyMaintenance(wearOf(entry.vehicle), job.kinds);
+                wearStates.set(vehicleId, serviced);
+                jobs.delete(vehicleId);
+                awaiting.delete(vehicleId);
+                released.set(vehicleId, "maintenance");
+                result.serviced.push({ ...job, endedAt: clock, reason: "complete" });
+                if (job.staffId !== undefined) {
+                    result.staffWork.push({ staffId: job.staffId, vehicleId, kind: "maintenance", at: clock });
+                }
+                emit({ ...wearDelta(serviced), status: "parked" });
+                console.log(`FareEngine: ${vehicleId} finished ${job.kinds.join(" + ")}, $${job.cost.toFixed(2)}`);
+            });
+
+            // Cleaning: finish jobs that are due, drop ones taken out of cleaning
+            cleanings.forEach((job, vehicleId) => {
+                if (!fleet.has(vehicleId) || !holds(vehicleId, "cleaning")) {
+                    cleanings.delete(vehicleId);
+                    console.log(`FareEngine: ${vehicleId} taken out of cleaning before staff finished`);
+                    return;
+                }
+                if (clock < job.readyAt) {
+                    return;
+                }
+                cleanings.delete(vehicleId);
+                released.set(vehicleId, "cleaning");
+                result.cleaned.push(job);
+                result.staffWork.push({ staffId: job.staffId, vehicleId, kind: "cleaning", at: clock });
+                emit({ id: vehicleId, status: "parked" });
+                console.log(`FareEngine: ${vehicleId} cleaned by staff ${job.staffId}`);
+            });
+
+            // Passengers inside a protest cannot get to or from a taxi; they are drawn anyway to keep the run seeded
+            const protests = cityEvents.filter((event) => event.kind === "protest");
+            const blocked = (point: [number, number]): boolean => protests.some((event) => insidePolygon(point, event.polygon));
+            const arrivals: Omit<RideRequest, "miles" | "route">[] = [];
+            while (nextRequestAt <= clock) {
+                const arrival = createRequest(nextRequestAt);
+                if (!blocked(arrival.pickup) && !blocked(arrival.dropoff)) {
+                    arrivals.push(arrival);
+                }
+                nextRequestAt += nextArrivalMs(random, ratePerMs * weather.demand);
+            }
+            const routes = await Promise.all(arrivals.map((arrival) => router.route(arrival.pickup, arrival.dropoff, hazards)));
+            arrivals.forEach((arrival, index) => {
+                const request: RideRequest = { ...arrival, miles: routes[index].miles, route: routes[index] };
+                pending.push(request);
+                result.requested.push(request);
+            });
+
+            pending = pending.filter((request) => {
+                if (clock - request.requestedAt <= requestTimeoutMs) {
+                    return true;
+                }
+                result.expired.push(request);
+                result.events.push({
+                    kind: "expired",
+                    at: clock,
+                    requestId: request.id,
+                    vehicleId: null,
+                    owner: null,
+                    message: `Waited over ${Math.round(requestTimeoutMs / 1000)} s`,
+                });
+                dispatcher.forget(request.id);
+                return false;
+            });
+
+            // Player vehicles heading through a protest the player just rerouted around take a new route
+            const rerouted = protests.filter((event) => rerouting.includes(event.id)).map((event) => event.polygon);
+            rerouting = [];
+            const crosses = (from: [number, number], path: readonly [number, number][]): boolean =>
+                rerouted.some((area) => pathCrosses([from, ...path], area));
+            if (rerouted.length > 0) {
+                await Promise.all(
+                    [...rides.values()]
+                        .filter((ride) => ride.owner === "player")
+                        .map(async (ride) => {
+                            const position = positions.get(ride.vehicleId) as [number, number];
+                            if (crosses(position, ride.path)) {
+                                const target = ride.phase === "pickup" ? ride.request.pickup : ride.request.dropoff;
+                                const route = await router.route(position, target, playerHazards);
+                                ride.path = route.geometry.slice(1);
+                                ride.milesPerMs = speedOf(route);
+                                console.log(`FareEngine: ${ride.vehicleId} rerouted to its ${ride.phase}`);
+                            }
+                            if (ride.phase === "pickup" && crosses(ride.request.pickup, ride.request.route.geometry)) {
+                                const route = await router.route(ride.request.pickup, ride.request.dropoff, playerHazards);
+                                ride.request = { ...ride.request, route }; // The fare stays as quoted
+                            }
+                        })
+                );
+                await Promise.all(
+                    [...trips.values()]
+                        .filter((trip) => crosses(positions.get(trip.vehicleId) as [number, number], trip.path))
+                        .map(async (trip) => {
+                            const site = sites.find((candidate) => candidate.id === trip.siteId) as ChargingSite;
+                            const route = await router.route(positions.get(trip.vehicleId) as [number, number], site.coords, playerHazards);
+                            trip.path = route.geometry.slice(1);
+                            trip.milesPerMs = speedOf(route);
+                            console.log(`FareEngine: ${trip.vehicleId} rerouted to ${trip.siteId}`);
+                        })
+                );
+            }
+
+            const avoidedAreas = protests.filter((event) => avoided.has(event.id)).map((event) => event.polygon);
+            const avoids = (request: RideRequest): boolean => avoidedAreas.some((area) => pathCrosses(request.route.geometry, area));
+            const candidates = [...fleet.values()]
+                .filter((entry) => entry.owner !== "player" || !unlicensed.has(entry.vehicle.id))
+                .map((entry) => ({
+                    ...entry,
+                    vehicle: { ...entry.vehicle, battery: batteryOf(entry.vehicle) },
+                    busy: [rides, sessions, trips, waiting, jobs, cleanings].some((owned) => owned.has(entry.vehicle.id)),
+                    fullRangeMiles: modelOf(entry.vehicle).battery_kwh / modelOf(entry.vehicle).kwh_per_mile,
+                    avoids: entry.owner === "player" && avoidedAreas.length > 0 ? avoids : undefined,
+                    hazards: entry.owner === "player" ? playerHazards : hazards,
+                }));
+            const dispatched = await dispatcher.assign(pending, candidates, clock);
+            pending = dispatched.unassigned;
+            result.events.push(...dispatched.events);
+            dispatched.assignments.forEach(({ request, vehicle, owner, approach }) => {
+                const ride: Ride = {
+                    request,
+                    vehicleId: vehicle.id,
+                    owner,
+                    phase: "pickup",
+                    assignedAt: clock,
+                    path: approach.geometry.slice(1),
+                    milesPerMs: speedOf(approach),
+                };
+                rides.set(ride.vehicleId, ride);
+                positions.set(ride.vehicleId, vehicle.coords);
+                result.assigned.push(ride);
+                emit({ id: ride.vehicleId, dest: request.pickup });
+            });
+
+            rides.forEach((ride, vehicleId) => {
+                const position = drive(vehicleId, ride.owner, ride.path, ride.milesPerMs, dtMs, result, emit);
+                if (ride.path.length > 0) {
+                    emit({ id: vehicleId, coords: position });
+                    return;
+                }
+                if (ride.phase === "pickup") {
+                    ride.phase = "dropoff";
+                    ride.path = ride.request.route.geometry.slice(1);
+                    ride.milesPerMs = speedOf(ride.request.route);
+                    emit({ id: vehicleId, coords: position, status: "fare", dest: ride.request.dropoff });
+                    return;
+                }
+                rides.delete(vehicleId);
+                positions.delete(vehicleId);
+                emit({ id: vehicleId, coords: position, status: "active", dest: null });
+                result.completed.push({
+                    request: ride.request,
+                    vehicleId,
+                    owner: ride.owner,
+                    fare: computeFare(ride.request.miles, fareConfig),
+                    score: fareConfig.scorePerRide,
+                    completedAt: clock,
+                });
+            });
+
+            trips.forEach((trip, vehicleId) => {
+                const position = drive(vehicleId, "player", trip.path, trip.milesPerMs, dtMs, result, emit);
+                if (trip.path.length > 0) {
+                    emit({ id: vehicleId, coords: position });
+                    return;
+                }
+                trips.delete(vehicleId);
+                positions.delete(vehicleId);
+                waiting.set(vehicleId, { siteId: trip.siteId, target: trip.target });
+                awaiting.set(vehicleId, "charging");
+                emit({ id: vehicleId, coords: position, status: "charging", dest: null });
+                result.arrivals.push(trip);
+                console.log(`FareEngine: ${vehicleId} arrived at ${trip.siteId}`);
+            });
+
+            serveQueues();
+            result.charging = [...sessions.values()];
+            result.sites = siteStatuses();
+            result.deltas = [...deltas.values()];
+            return result;
+        },
+
+        startCharging(vehicleId, charger, target, pricePerKwh) {
+            const entry = fleet.get(vehicleId);
+            if (!entry || entry.owner !== "player") {
+                throw new CyberError(`Vehicle ${vehicleId} is not one of the player's vehicles`, 404);
+            }
+            if (sessions.has(vehicleId)) {
+                throw new CyberError(`Vehicle ${vehicleId} is already charging`, 409);
+            }
+            if (trips.has(vehicleId) || waiting.has(vehicleId)) {
+                throw new CyberError(`Vehicle ${vehicleId} is on its way to or waiting at a SuperCharger`, 409);
+            }
+            if (jobs.has(vehicleId)) {
+                throw new CyberError(`Vehicle ${vehicleId} is in maintenance`, 409);
+            }
+            const ride = rides.get(vehicleId); // Cancelled only once the charge can start
+            if (ride) {
+                queuedEvents.push(cancelRide(ride, "Vehicle sent to charge"));
+            }
+            const session = plugIn(entry.vehicle, charger, target, pricePerKwh);
+            if (entry.vehicle.status !== "charging") {
+                awaiting.set(vehicleId, "charging");
+            }
+            queuedDeltas.push({ id: vehicleId, status: "charging", dest: null });
+            return session;
+        },
+
+        stopCharging(vehicleId) {
+            const session = sessions.get(vehicleId);
+            if (!session) {
+                if (trips.has(vehicleId) || waiting.has(vehicleId)) {
+                    trips.delete(vehicleId);
+                    waiting.delete(vehicleId);
+                    positions.delete(vehicleId);
+                    awaiting.delete(vehicleId);
+                    queuedDeltas.push({ id: vehicleId, status: "parked", dest: null });
+                }
+                return null;
+            }
+            queuedDeltas.push({ id: vehicleId, status: "parked" });
+            return endSession(session);
+        },
+
+        getChargeSessions() {
+            return [...sessions.values()];
+        },
+
+        async nearestChargingSite(vehicleId) {
+            const entry = fleet.get(vehicleId);
+            const from = positions.get(vehicleId) ?? entry?.vehicle.coords;
+            if (!entry || entry.owner !== "player" || !from) {
+                return null;
+            }
+            const shortlist = sitesByDistance(from, sites).slice(0, NEAREST_SITES_ROUTED);
+            const routes = await Promise.all(shortlist.map((site) => router.route(from, site.coords, playerHazards)));
+            let bestIndex = 0;
+            routes.forEach((route, index) => {
+                if (route.minutes < routes[bestIndex].minutes) {
+                    bestIndex = index;
+                }
+            });
+            return shortlist[bestIndex] ?? null;
+        },
+
+        async sendToCharger(vehicleId, siteId, target) {
+            const entry = fleet.get(vehicleId);
+            if (!entry || entry.owner !== "player") {
+                throw new CyberError(`Vehicle ${vehicleId} is not one of the player's vehicles`, 404);
+            }
+            const site = sites.find((candidate) => candidate.id === siteId);
+            if (!site) {
+                throw new CyberError(`Unknown charging site ${siteId}`, 404);
+            }
+            if (sessions.has(vehicleId) || trips.has(vehicleId) || waiting.has(vehicleId)) {
+                throw new CyberError(`Vehicle ${vehicleId} is already charging or on its way to charge`, 409);
+            }
+            if (jobs.has(vehicleId)) {
+                throw new CyberError(`Vehicle ${vehicleId} is in maintenance`, 409);
+            }
+            const from = positions.get(vehicleId) ?? entry.vehicle.coords;
+            if (!from) {
+                throw new CyberError(`Vehicle ${vehicleId} is not on the map`, 409);
+            }
+            const route = await router.route(from, site.coords, playerHazards);
+            const ride = rides.get(vehicleId);
+            if (ride) {
+                queuedEvents.push(cancelRide(ride, "Vehicle sent to a SuperCharger"));
+            }
+            const trip: ChargerTrip = {
+                vehicleId,
+                siteId,
+                target,
+                miles: route.miles,
+                path: route.geometry.slice(1),
+                milesPerMs: speedOf(route),
+                departedAt: clock,
+            };
+            trips.set(vehicleId, trip);
+            positions.set(vehicleId, from);
+            if (entry.vehicle.status !== "active") {
+                awaiting.set(vehicleId, "active");
+            }
+            queuedDeltas.push({ id: vehicleId, status: "active", dest: site.coords });
+            console.log(`FareEngine: ${vehicleId} driving to ${siteId}, ${route.miles.toFixed(1)} mi`);
+            return trip;
+        },
+
+        getChargerTrips() {
+            return [...trips.values()];
+        },
+
+        getChargingSites() {
+            return siteStatuses();
+        },
+
+        startMaintenance(vehicleId, kinds) {
+            const entry = fleet.get(vehicleId);
+            if (!entry || entry.owner !== "player") {
+                throw new CyberError(`Vehicle ${vehicleId} is not one of the player's vehicles`, 404);
+            }
+            if (kinds.length === 0) {
+                throw new CyberError("Pick at least one maintenance item", 400);
+            }
+            if (jobs.has(vehicleId)) {
+                throw new CyberError(`Vehicle ${vehicleId} is already in maintenance`, 409);
+            }
+            if (sessions.has(vehicleId) || trips.has(vehicleId) || waiting.has(vehicleId)) {
+                throw new CyberError(`Vehicle ${vehicleId} is charging; disconnect it first`, 409);
+            }
+            const ride = rides.get(vehicleId);
+            if (ride) {
+                queuedEvents.push(cancelRide(ride, "Vehicle sent to maintenance"));
+            }
+            const job = openJob(entry.vehicle, kinds);
+            jobs.set(vehicleId, job);
+            released.delete(vehicleId);
+            if (entry.vehicle.status !== "maintenance") {
+                awaiting.set(vehicleId, "maintenance");
+            }
+            queuedDeltas.push({ id: vehicleId, status: "maintenance", dest: null });
+            console.log(`FareEngine: ${vehicleId} in maintenance for ${kinds.join(" + ")}, $${job.cost.toFixed(2)}`);
+            return job;
+        },
+
+        cancelMaintenance(vehicleId) {
+            const job = jobs.get(vehicleId);
+            if (!job) {
+                return null;
+            }
+            jobs.delete(vehicleId);
+            awaiting.delete(vehicleId);
+            released.set(vehicleId, "maintenance");
+            queuedDeltas.push({ id: vehicleId, status: "parked" });
+            return { ...job, cost: 0, endedAt: clock, reason: "cancelled" };
+        },
+
+        getMaintenanceJobs() {
+            return [...jobs.values()];
+        },
+
+        setStaffing(garages) {
+            staffing = garages;
+        },
+
+        setCatalog(models) {
+            catalog = models;
+        },
+
+        setUnlicensed(vehicleIds) {
+            unlicensed = vehicleIds;
+        },
+
+        setWeather(modifiers) {
+            weather = modifiers;
+        },
+
+        setCityEvents(events, avoidedIds) {
+            rerouting = [...rerouting, ...[...avoidedIds].filter((id) => !avoided.has(id))];
+            cityEvents = events;
+            avoided = avoidedIds;
+            hazards = routeHazards(events);
+            playerHazards = routeHazards(events, avoidedIds);
+        },
+
+        getCleaningJobs() {
+            return [...cleanings.values()];
+        },
+
+        getWear() {
+            return [...wearStates.values()];
+        },
+
+        configureDispatch(settings) {
+            dispatcher.configure(settings);
+        },
+
+        getDispatchSettings() {
+            return dispatcher.getSettings();
+        },
+
+        getPending() {
+            return pending;
+        },
+
+        getRides() {
+            return [...rides.values()];
+        },
+
+        now() {
+            return clock;
+        },
+    };
+};
@@ -0,0 +1,121 @@
+// src/simulation/Staffing.ts
+/**
+ * @file Staffing.ts
+ * @description Garage staff in the CyberTaxi simulation: which vehicles a crew on shift works on, and what it changes.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Rules from domain/Staff.ts: a mechanic halves a maintenance job's cost and time, cleaning staff clean vehicles
+ *       in cleaning automatically. Pure functions; FareEngine owns the jobs, and the caller (usePlayerStaff through
+ *       useFareSimulation) decides who is on shift.
+ * @detail A vehicle counts as at a garage within STAFFED_GARAGE_RADIUS_KM of it. The best-levelled member on shift
+ *         takes the job, and a higher level works faster (workSpeed). Every finished job is reported as StaffWork so
+ *         the staff member's job count, and with it their level, goes up.
+ */
+import { CLEANING_DURATION_MS, MECHANIC_SAVING, workSpeed } from "../domain/Staff";
+import type { StaffRole } from "../domain/Staff";
+import { distanceKm } from "../domain/Zones";
+import type { MaintenanceJob } from "./Wear";
+
+/**
+ * A staff member at work.
+ * @interface OnShiftStaff
+ */
+export interface OnShiftStaff {
+    staffId: number;
+    role: StaffRole;
+    level: number;
+}
+
+/**
+ * One of the player's garages and who is on shift there now.
+ * @interface StaffedGarage
+ */
+export interface StaffedGarage {
+    garageId: number;
+    coords: [number, number];
+    onShift: OnShiftStaff[];
+}
+
+/**
+ * A vehicle being cleaned by staff; it is in cleaning until readyAt.
+ * @interface CleaningJob
+ */
+export interface CleaningJob {
+    vehicleId: string;
+    garageId: number;
+    staffId: number;
+    startedAt: number; // Simulated ms
+    readyAt: number;
+}
+
+/**
+ * A job a staff member finished, for their job count.
+ * @interface StaffWork
+ */
+export interface StaffWork {
+    staffId: number;
+    vehicleId: string;
+    kind: "maintenance" | "cleaning";
+    at: number; // Simulated ms
+}
+
+export const STAFFED_GARAGE_RADIUS_KM = 0.5;
+
+/**
+ * Finds the crew member who would work on a vehicle.
+ * @param {[number, number] | null} coords - Vehicle position.
+ * @param {readonly StaffedGarage[]} garages - Garages with their staff on shift.
+ * @param {StaffRole} role - Mechanic for maintenance, cleaner for cleaning.
+ * @returns {{ garage: StaffedGarage; member: OnShiftStaff } | null} Nearest garage in range with that role on shift and
+ *          its best-levelled member, or null.
+ */
+export const crewFor = (
+    coords: [number, number] | null,
+    garages: readonly StaffedGarage[],
+    role: StaffRole
+): { garage: StaffedGarage; member: OnShiftStaff } | null => {
+    if (!coords) {
+        return null;
+    }
+    let best: { garage: StaffedGarage; member: OnShiftStaff } | null = null;
+    let bestKm = STAFFED_GARAGE_RADIUS_KM;
+    for (const garage of garages) {
+        const km = distanceKm(coords, garage.coords);
+        const crew = garage.onShift.filter((member) => member.role === role);
+        if (km > bestKm || crew.length === 0) {
+            continue;
+        }
+        best = { garage, member: crew.reduce((top, candidate) => (candidate.level > top.level ? candidate : top)) };
+        bestKm = km;
+    }
+    return best;
+};
+
+/**
+ * Hands a maintenance job to a mechanic.
+ * @param {MaintenanceJob} job - Job as priced by a service center.
+ * @param {OnShiftStaff} mechanic - Mechanic taking it.
+ * @returns {MaintenanceJob} Job at MECHANIC_SAVING off the cost and time, sped up further by the mechanic's level.
+ */
+export const withMechanic = (job: MaintenanceJob, mechanic: OnShiftStaff): MaintenanceJob => ({
+    ...job,
+    cost: Math.round(job.cost * (1 - MECHANIC_SAVING) * 100) / 100,
+    readyAt: job.startedAt + ((job.readyAt - job.startedAt) * (1 - MECHANIC_SAVING)) / workSpeed(mechanic.level),
+    staffId: mechanic.staffId,
+});
+
+/**
+ * Starts cleaning a vehicle.
+ * @param {string} vehicleId - Vehicle in cleaning.
+ * @param {StaffedGarage} garage - Garage it is at.
+ * @param {OnShiftStaff} cleaner - Cleaning staff taking it.
+ * @param {number} now - Simulated ms.
+ * @returns {CleaningJob} Job lasting CLEANING_DURATION_MS, shorter at higher levels.
+ */
+export const startCleaningJob = (vehicleId: string, garage: StaffedGarage, cleaner: OnShiftStaff, now: number): CleaningJob => ({
+    vehicleId,
+    garageId: garage.garageId,
+    staffId: cleaner.staffId,
+    startedAt: now,
+    readyAt: now + CLEANING_DURATION_MS / workSpeed(cleaner.level),
+});
@@ -0,0 +1,269 @@
+// src/simulation/Wear.ts
+/**
+ * @file Wear.ts
+ * @description Wear, tire and battery-health model for CyberTaxi, with maintenance alerts and service jobs.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.8
+ * @note Figures from the GDD ("Maintenance"): tires last 30,000–50,000 miles with a rotation every 6,250 miles, a service
+ *       costs $400–$600, a set of tires $800–$1,200 and a battery $10,000–$20,000; "Environmental Factors and Events"
+ *       adds 10% wear in rain and 20% in a protest. Pure functions; FareEngine owns the
+ *       state and the jobs.
+ * @detail Every mile driven adds WEAR_PER_MILE of wear, scaled by the model's wear factor (VehicleCatalog.ts) and
+ *         multiplied by the conditions where the vehicle drives (congestion, rain, protests). Tire miles count ROTATION_PENALTY extra while a rotation is overdue. Battery
+ *         health falls with mileage; a worn pack holds less, so the same trip uses more of it. Crossing a threshold in
+ *         ALERT_THRESHOLDS raises one alert; a job clears what it fixes, so the alert can fire again next time.
+ */
+import { tireLifeMiles } from "../domain/Vehicle";
+import type { Vehicle } from "../domain/Vehicle";
+import type { RandomSource } from "./random";
+import { toCents } from "../utils/money";
+
+export type MaintenanceKind = "service" | "tires" | "battery";
+export type MaintenanceAlertKind = MaintenanceKind | "rotation";
+
+/**
+ * Driving conditions at a point; fed to FareEngine through options.conditions.
+ * @interface WearConditions
+ */
+export interface WearConditions {
+    traffic: number; // Congestion, 0 (free flow) to 1 (gridlock)
+    rain: boolean;
+    protest: boolean;
+}
+
+/**
+ * Simulated wear of one vehicle.
+ * @interface WearState
+ */
+export interface WearState {
+    vehicleId: string;
+    wear: number; // Percent, 0–100
+    mileage: number; // Odometer
+    tireMileage: number; // Tire miles on the current set
+    tireLifeMiles: number;
+    sinceRotation: number; // Miles since the last rotation
+    batteryHealth: number; // Percent of the original capacity
+}
+
+/**
+ * A threshold crossed while driving.
+ * @interface MaintenanceAlert
+ */
+export interface MaintenanceAlert {
+    vehicleId: string;
+    kind: MaintenanceAlertKind;
+    message: string;
+    at: number; // Simulated ms
+}
+
+/**
+ * A maintenance job in progress; the vehicle is in maintenance until readyAt.
+ * @interface MaintenanceJob
+ */
+export interface MaintenanceJob {
+    vehicleId: string;
+    kinds: MaintenanceKind[];
+    cost: number; // Dollars, drawn when the job starts
+    startedAt: number; // Simulated ms
+    readyAt: number;
+    staffId?: number; // In-house mechanic doing it (Staffing.ts); a service center otherwise
+}
+
+/**
+ * A finished job and its bill.
+ * @interface MaintenanceReceipt
+ */
+export interface MaintenanceReceipt extends MaintenanceJob {
+    endedAt: number;
+    reason: "complete" | "cancelled"; // Cancelled: taken out early, nothing done and nothing billed
+}
+
+/**
+ * A kind of job.
+ * @interface MaintenanceSpec
+ */
+export interface MaintenanceSpec {
+    id: MaintenanceKind;
+    label: string;
+    costRange: readonly [number, number]; // Dollars
+    durationMs: number; // Simulated
+}
+
+export const WEAR_PER_MILE = 0.01; // 100% after 10,000 calm miles
+export const ROTATION_INTERVAL_MILES = 6250;
+export const ROTATION_PENALTY = 0.25;
+export const BATTERY_HEALTH_LOSS_PER_MILE = 0.00006; // Percentage points; about 12% after 200,000 miles
+const TRAFFIC_MULTIPLIER = 0.5; // At full congestion
+export const RAIN_MULTIPLIER = 1.1; // GDD: +10% wear in rain; domain/Weather.ts shows it while it is wet
+export const PROTEST_MULTIPLIER = 1.2; // GDD: +20% wear if caught in one; domain/CityEvents.ts shows it
+
+export const CALM_CONDITIONS: WearConditions = { traffic: 0, rain: false, protest: false };
+
+export const MAINTENANCE: Readonly<Record<MaintenanceKind, MaintenanceSpec>> = {
+    service: { id: "service", label: "Service & tire rotation", costRange: [400, 600], durationMs: 2 * 3600000 },
+    tires: { id: "tires", label: "New tires", costRange: [800, 1200], durationMs: 3 * 3600000 },
+    battery: { id: "battery", label: "Battery replacement", costRange: [10000, 20000], durationMs: 8 * 3600000 },
+};
+
+export const SERVICE_WEAR_KEPT = 0.25; // Share of the wear a service leaves: what the miles have done for good
+
+/** Alert thresholds: service at 60% wear, tires at 90% of their life, the battery at 85% health. */
+export const ALERT_THRESHOLDS = {
+    serviceWear: 60,
+    tireLifeShare: 0.9,
+    batteryHealth: 85,
+} as const;
+
+/**
+ * Wear multiplier for driving conditions.
+ * @param {WearConditions} conditions - Where the vehicle drives.
+ * @returns {number} 1 in calm conditions, higher in traffic, rain or protests.
+ */
+export const wearMultiplier = (conditions: WearConditions): number =>
+    (1 + TRAFFIC_MULTIPLIER * Math.min(Math.max(conditions.traffic, 0), 1)) *
+    (conditions.rain ? RAIN_MULTIPLIER : 1) *
+    (conditions.protest ? PROTEST_MULTIPLIER : 1);
+
+/**
+ * Starting state from a vehicle snapshot; battery health is estimated from the odometer.
+ * @param {Vehicle} vehicle - Snapshot.
+ * @returns {WearState} State.
+ */
+export const wearFromVehicle = (vehicle: Vehicle): WearState => ({
+    vehicleId: vehicle.id,
+    wear: vehicle.wear,
+    mileage: vehicle.mileage,
+    tireMileage: vehicle.tire_mileage,
+    tireLifeMiles: tireLifeMiles(vehicle.id),
+    sinceRotation: vehicle.tire_mileage % ROTATION_INTERVAL_MILES,
+    batteryHealth: Math.max(0, 100 - vehicle.mileage * BATTERY_HEALTH_LOSS_PER_MILE),
+});
+
+/**
+ * Vehicle fields mirroring a wear state, to the cent as the server stores them (POST /api/vehicles/:vehicle_id/wear).
+ * @param {WearState} state - Simulated wear.
+ * @returns {Pick<Vehicle, "wear" | "mileage" | "tire_mileage">} Fields to save.
+ */
+export const wearFields = (state: WearState): Pick<Vehicle, "wear" | "mileage" | "tire_mileage"> => ({
+    wear: toCents(state.wear),
+    mileage: toCents(state.mileage),
+    tire_mileage: toCents(state.tireMileage),
+});
+
+/**
+ * Items due on a vehicle.
+ * @param {WearState} state - Current wear.
+ * @returns {MaintenanceAlertKind[]} Due items, in MAINTENANCE order with rotation after service.
+ */
+export const maintenanceDue = (state: WearState): MaintenanceAlertKind[] => {
+    const due: MaintenanceAlertKind[] = [];
+    if (state.wear >= ALERT_THRESHOLDS.serviceWear) {
+        due.push("service");
+    }
+    if (state.sinceRotation >= ROTATION_INTERVAL_MILES) {
+        due.push("rotation");
+    }
+    if (state.tireMileage >= state.tireLifeMiles * ALERT_THRESHOLDS.tireLifeShare) {
+        due.push("tires");
+    }
+    if (state.batteryHealth <= ALERT_THRESHOLDS.batteryHealth) {
+        due.push("battery");
+    }
+    return due;
+};
+
+/** Jobs that fix a set of due items; a rotation is part of the service. */
+export const jobsFor = (due: readonly MaintenanceAlertKind[]): MaintenanceKind[] => {
+    const kinds = new Set<MaintenanceKind>(due.map((kind) => (kind === "rotation" ? "service" : kind)));
+    return (Object.keys(MAINTENANCE) as MaintenanceKind[]).filter((kind) => kinds.has(kind));
+};
+
+/** Alert text for an item. */
+const alertMessage = (state: WearState, kind: MaintenanceAlertKind): string => {
+    switch (kind) {
+        case "service":
+            return `Service due, wear at ${state.wear.toFixed(0)}%`;
+        case "rotation":
+            return `Tire rotation due, ${Math.round(state.sinceRotation).toLocaleString()} mi since the last one`;
+        case "tires":
+            return `Tires nearly worn out, ${Math.round(state.tireMileage).toLocaleString()} of ${state.tireLifeMiles.toLocaleString()} mi`;
+        case "battery":
+            return `Battery health down to ${state.batteryHealth.toFixed(1)}%`;
+    }
+};
+
+/**
+ * Wears a vehicle for a distance.
+ * @param {WearState} state - State (not mutated).
+ * @param {number} miles - Miles driven.
+ * @param {WearConditions} conditions - Where they were driven.
+ * @param {number} now - Simulated ms, for alerts.
+ * @param {number} [wearFactor] - The model's wear factor (VehicleCatalog.ts); 1 for the Model Y.
+ * @returns {{ state: WearState; alerts: MaintenanceAlert[] }} New state and the thresholds crossed.
+ */
+export const accrueWear = (
+    state: WearState,
+    miles: number,
+    conditions: WearConditions,
+    now: number,
+    wearFactor: number = 1
+): { state: WearState; alerts: MaintenanceAlert[] } => {
+    const overdue = state.sinceRotation >= ROTATION_INTERVAL_MILES;
+    const next: WearState = {
+        ...state,
+        wear: Math.min(100, state.wear + miles * WEAR_PER_MILE * wearFactor * wearMultiplier(conditions)),
+        mileage: state.mileage + miles,
+        tireMileage: state.tireMileage + miles * (overdue ? 1 + ROTATION_PENALTY : 1),
+        sinceRotation: state.sinceRotation + miles,
+        batteryHealth: Math.max(0, state.batteryHealth - miles * BATTERY_HEALTH_LOSS_PER_MILE),
+    };
+    const before = new Set(maintenanceDue(state));
+    const alerts = maintenanceDue(next)
+        .filter((kind) => !before.has(kind))
+        .map((kind) => ({ vehicleId: state.vehicleId, kind, message: alertMessage(next, kind), at: now }));
+    return { state: next, alerts };
+};
+
+/**
+ * Opens a maintenance job.
+ * @param {string} vehicleId - Vehicle taken in.
+ * @param {MaintenanceKind[]} kinds - Work to do.
+ * @param {number} now - Simulated ms.
+ * @param {RandomSource} random - Draws each item's cost within its range.
+ * @returns {MaintenanceJob} Job; the durations add up.
+ */
+export const startMaintenanceJob = (vehicleId: string, kinds: MaintenanceKind[], now: number, random: RandomSource): MaintenanceJob => ({
+    vehicleId,
+    kinds,
+    cost: toCents(
+        kinds.reduce((sum, kind) => {
+            const [min, max] = MAINTENANCE[kind].costRange;
+            return sum + min + random() * (max - min);
+        }, 0)
+    ),
+    startedAt: now,
+    readyAt: now + kinds.reduce((sum, kind) => sum + MAINTENANCE[kind].durationMs, 0),
+});
+
+/**
+ * Wear left after a service.
+ * @param {number} wear - Wear percentage before it.
+ * @returns {number} SERVICE_WEAR_KEPT of it, to two decimals like vehicles.wear; a heavily worn vehicle keeps more, so a
+ *          service restores less of its sale value than it clears.
+ */
+export const wearAfterService = (wear: number): number => Math.round(wear * SERVICE_WEAR_KEPT * 100) / 100;
+
+/**
+ * Applies a finished job.
+ * @param {WearState} state - State before the work.
+ * @param {MaintenanceKind[]} kinds - Work done.
+ * @returns {WearState} Service takes wear down to wearAfterService and clears the rotation count, tires reset the tire
+ *          miles, a battery restores health.
+ */
+export const applyMaintenance = (state: WearState, kinds: readonly MaintenanceKind[]): WearState => ({
+    ...state,
+    wear: kinds.includes("service") ? wearAfterService(state.wear) : state.wear,
+    sinceRotation: kinds.includes("service") || kinds.includes("tires") ? 0 : state.sinceRotation,
+    tireMileage: kinds.includes("tires") ? 0 : state.tireMileage,
+    batteryHealth: kinds.includes("battery") ? 100 : state.batteryHealth,
+});
@@ -0,0 +1,37 @@
+// src/simulation/random.ts
+/**
+ * @file random.ts
+ * @description Seedable pseudo-random number generator for CyberTaxi simulations.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Math.random cannot be seeded; simulations take a generator from here so a seed replays the same run.
+ * @detail mulberry32: 32-bit state, fast and well distributed enough for gameplay (not for cryptography).
+ */
+
+/** Returns values in [0, 1), like Math.random. */
+export type RandomSource = () => number;
+
+/**
+ * Creates a deterministic generator.
+ * @param {number} seed - Any integer; the same seed yields the same sequence.
+ * @returns {RandomSource} Generator of values in [0, 1).
+ */
+export const createRandom = (seed: number): RandomSource => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/**
+ * Draws the wait until the next event of a Poisson process.
+ * @param {RandomSource} random - Generator.
+ * @param {number} ratePerMs - Mean events per millisecond.
+ * @returns {number} Milliseconds until the next event.
+ */
+export const nextArrivalMs = (random: RandomSource, ratePerMs: number): number =>
+    -Math.log(1 - random()) / ratePerMs;
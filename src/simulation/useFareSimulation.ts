@@ -0,0 +1,381 @@
+// src/simulation/useFareSimulation.ts
+/**
+ * @file useFareSimulation.ts
+ * @description React hook running the CyberTaxi FareEngine in the browser.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.11.5
+ * @note Called from CyberMain while logged in and API_CONFIG.FARE_SIMULATION is on. Steps the engine every TICK_MS,
+ *       publishes its vehicle deltas through RealtimeService.publishLocal so the map and windows follow simulated
+ *       rides, and reports fares, charges and maintenance to the server through LedgerService, which prices them and
+ *       updates the MenuBar Bank and Score. Inputs and controls are described on useFareSimulation and its controls.
+ */
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ApiClient } from "../services/ApiClient";
+import { LedgerService } from "../services/LedgerService";
+import { RealtimeService } from "../services/RealtimeService";
+import { RoutingService } from "../services/RoutingService";
+import type { ChargeLedgerEntry, MaintenanceLedgerEntry } from "../services/apiTypes";
+import type { CityEvent } from "../domain/CityEvents";
+import type { Vehicle } from "../domain/Vehicle";
+import type { VehicleModel } from "../domain/VehicleCatalog";
+import type { WeatherModifiers } from "../domain/Weather";
+import { CyberError } from "../utils/errorhandling/CyberError";
+import type { ChargerType, ChargeReceipt, ChargeSession, ChargeTarget, ChargingSiteStatus } from "./Charging";
+import { DispatchLog } from "./DispatchLog";
+import type { DispatchSettings } from "./Dispatcher";
+import { createFareEngine } from "./FareEngine";
+import type { ChargerTrip, FareEngine } from "./FareEngine";
+import type { CleaningJob, StaffedGarage, StaffWork } from "./Staffing";
+import { wearFields } from "./Wear";
+import type { MaintenanceAlert, MaintenanceJob, MaintenanceKind, MaintenanceReceipt, WearState } from "./Wear";
+
+const TICK_MS = 2000; // Matches the VehicleAnimator tween so simulated moves glide
+const TIME_SCALE = 5; // Simulated seconds per real second
+const MAX_ALERTS = 20;
+const WEAR_SAVE_MS = 60000; // Real ms between saves of changed wear (POST /api/vehicles/:vehicle_id/wear)
+
+/**
+ * Ledger entry for a finished charge; the server prices it.
+ * @param {string} run - Engine run prefix of the refs.
+ * @param {ChargeReceipt} receipt - Finished session.
+ * @returns {ChargeLedgerEntry | null} Entry, or null if no energy was delivered.
+ */
+const chargeEntry = (run: string, receipt: ChargeReceipt): ChargeLedgerEntry | null => {
+    const kwh = Math.round(receipt.energyKwh * 100) / 100;
+    if (kwh <= 0) {
+        return null;
+    }
+    return {
+        kind: "charge",
+        ref: `${run}-${receipt.vehicleId}-${receipt.startedAt.toString(36)}`,
+        vehicle_id: receipt.vehicleId,
+        charger: receipt.charger,
+        site_id: receipt.siteId,
+        kwh,
+    };
+};
+
+/**
+ * Ledger entry for a finished maintenance job; the server charges it and repairs the vehicle.
+ * @param {string} run - Engine run prefix of the refs.
+ * @param {MaintenanceReceipt} receipt - Completed job.
+ * @returns {MaintenanceLedgerEntry} Entry.
+ */
+const maintenanceEntry = (run: string, receipt: MaintenanceReceipt): MaintenanceLedgerEntry => ({
+    kind: "maintenance",
+    ref: `${run}-${receipt.vehicleId}-${receipt.startedAt.toString(36)}`,
+    vehicle_id: receipt.vehicleId,
+    kinds: receipt.kinds,
+    cost: receipt.cost,
+    staff_id: receipt.staffId ?? null,
+});
+
+/**
+ * Charging and maintenance controls returned by useFareSimulation.
+ * @interface FareSimulationControls
+ */
+export interface FareSimulationControls {
+    chargeSessions: readonly ChargeSession[]; // Updated every tick
+    chargerTrips: readonly ChargerTrip[]; // Vehicles driving to a SuperCharger
+    chargingSites: readonly ChargingSiteStatus[]; // Stall occupancy and queues; empty while the simulation is off
+    /**
+     * Sets the vehicle to charging (POST /api/vehicles/:vehicle_id/status) and plugs it in; the finished session's
+     * energy goes to the ledger, which bills it. With the simulation off only the status is set.
+     */
+    startCharging(vehicleId: string, charger: ChargerType, target: ChargeTarget): Promise<void>;
+    /** Unplugs early (or leaves a SuperCharger queue or trip), bills the power used and parks the vehicle. */
+    stopCharging(vehicleId: string): Promise<ChargeReceipt | null>;
+    /**
+     * Drives the vehicle to the SuperCharger with the shortest drive (POST /api/vehicles/:vehicle_id/dispatch), where
+     * it charges or queues for a stall; it is set charging on the server when it arrives.
+     */
+    sendToNearestCharger(vehicleId: string, target: ChargeTarget): Promise<ChargerTrip>;
+    maintenanceJobs: readonly MaintenanceJob[];
+    maintenanceAlerts: readonly MaintenanceAlert[]; // Newest first, at most MAX_ALERTS
+    wearStates: readonly WearState[]; // Vehicles the simulation has worn or serviced
+    /**
+     * Sets the vehicle to maintenance and starts the job; the finished job goes to the ledger, which charges it and
+     * repairs the vehicle on the server.
+     */
+    startMaintenance(vehicleId: string, kinds: MaintenanceKind[]): Promise<void>;
+    /** Ends a job early without billing it and parks the vehicle. */
+    cancelMaintenance(vehicleId: string): Promise<void>;
+    cleaningJobs: readonly CleaningJob[]; // Vehicles staff are cleaning
+}
+
+/**
+ * Runs the fare simulation while enabled.
+ * Trips are routed by RoutingService, and a tick is skipped while the previous step still waits for routes, so steps
+ * never overlap. Dispatch settings, staffing, catalog, permits, weather and city events reach the running engine as
+ * they change, without restarting it. Dispatch events go to DispatchLog; vehicles staff finish cleaning are parked
+ * through the status route.
+ * @param enabled - Whether the simulation should run (logged in and enabled in config).
+ * @param playerVehicles - Every player vehicle (usePlayerVehicles fleet).
+ * @param otherVehicles - Other players' vehicles (useOtherPlayerVehicles).
+ * @param seed - Engine seed; a new engine starts whenever it changes.
+ * @param dispatch - Dispatcher strategy and battery floor (DispatchWindow).
+ * @param staffing - The player's garages with staff on shift (usePlayerStaff).
+ * @param catalog - Vehicle models (useVehicleCatalog).
+ * @param unlicensed - Player vehicles without a valid taxi permit (usePlayerLicenses).
+ * @param weather - Speed, wear and demand multipliers for the current weather (useWeather).
+ * @param cityEvents - Rush hours and protests under way (useCityEvents active).
+ * @param avoided - Ids of the protests player vehicles avoid (useCityEvents avoided).
+ * @param onStaffWork - Receives the jobs staff finish each tick.
+ * @returns {FareSimulationControls} Charging and maintenance state and actions.
+ */
+export const useFareSimulation = (
+    enabled: boolean,
+    playerVehicles: readonly Vehicle[],
+    otherVehicles: readonly Vehicle[],
+    seed: number,
+    dispatch: DispatchSettings,
+    staffing: readonly StaffedGarage[],
+    catalog: readonly VehicleModel[],
+    unlicensed: ReadonlySet<string>,
+    weather: WeatherModifiers,
+    cityEvents: readonly CityEvent[],
+    avoided: ReadonlySet<string>,
+    onStaffWork: (work: readonly StaffWork[]) => void
+): FareSimulationControls => {
+    const engineRef = useRef<FareEngine | null>(null);
+    const runRef = useRef(""); // Prefix of the running engine's ledger refs
+    const [chargeSessions, setChargeSessions] = useState<readonly ChargeSession[]>([]);
+    const [chargerTrips, setChargerTrips] = useState<readonly ChargerTrip[]>([]);
+    const [chargingSites, setChargingSites] = useState<readonly ChargingSiteStatus[]>([]);
+    const [maintenanceJobs, setMaintenanceJobs] = useState<readonly MaintenanceJob[]>([]);
+    const [maintenanceAlerts, setMaintenanceAlerts] = useState<readonly MaintenanceAlert[]>([]);
+    const [wearStates, setWearStates] = useState<readonly WearState[]>([]);
+    const [cleaningJobs, setCleaningJobs] = useState<readonly CleaningJob[]>([]);
+    const vehiclesRef = useRef({ playerVehicles, otherVehicles }); // Latest lists for a freshly created engine
+    vehiclesRef.current = { playerVehicles, otherVehicles };
+    const dispatchRef = useRef(dispatch);
+    dispatchRef.current = dispatch;
+    const staffingRef = useRef(staffing);
+    staffingRef.current = staffing;
+    const catalogRef = useRef(catalog);
+    catalogRef.current = catalog;
+    const unlicensedRef = useRef(unlicensed);
+    unlicensedRef.current = unlicensed;
+    const weatherRef = useRef(weather);
+    weatherRef.current = weather;
+    const cityEventsRef = useRef({ cityEvents, avoided });
+    cityEventsRef.current = { cityEvents, avoided };
+    const onStaffWorkRef = useRef(onStaffWork); // Called from the tick without restarting the engine
+    onStaffWorkRef.current = onStaffWork;
+
+    useEffect(() => {
+        engineRef.current?.setVehicles(playerVehicles, otherVehicles);
+    }, [playerVehicles, otherVehicles]);
+
+    useEffect(() => {
+        engineRef.current?.configureDispatch(dispatch);
+    }, [dispatch]);
+
+    useEffect(() => {
+        engineRef.current?.setStaffing(staffing);
+    }, [staffing]);
+
+    useEffect(() => {
+        engineRef.current?.setCatalog(catalog);
+    }, [catalog]);
+
+    useEffect(() => {
+        engineRef.current?.setUnlicensed(unlicensed);
+    }, [unlicensed]);
+
+    useEffect(() => {
+        engineRef.current?.setWeather(weather);
+    }, [weather]);
+
+    useEffect(() => {
+        engineRef.current?.setCityEvents(cityEvents, avoided);
+    }, [cityEvents, avoided]);
+
+    useEffect(() => {
+        if (!enabled) {
+            return;
+        }
+        const engine = createFareEngine({ seed, dispatch: dispatchRef.current, router: RoutingService });
+        engine.setVehicles(vehiclesRef.current.playerVehicles, vehiclesRef.current.otherVehicles);
+        engine.setStaffing(staffingRef.current);
+        engine.setCatalog(catalogRef.current);
+        engine.setUnlicensed(unlicensedRef.current);
+        engine.setWeather(weatherRef.current);
+        engine.setCityEvents(cityEventsRef.current.cityEvents, cityEventsRef.current.avoided);
+        engineRef.current = engine;
+        setChargingSites(engine.getChargingSites());
+        const run = `${seed.toString(36)}${Date.now().toString(36)}`; // Prefixes ledger refs; ride ids restart with the engine
+        runRef.current = run;
+        console.log(`useFareSimulation: Started with seed ${seed}`);
+
+        let stepping = false;
+        let stopped = false;
+        let wearSavedAt = Date.now();
+        const savedWear = new Map<string, string>(); // Vehicle id -> fields last saved, as JSON
+        const timer = setInterval(async () => {
+            if (stepping) {
+                return;
+            }
+            stepping = true;
+            const result = await engine.step(TICK_MS * TIME_SCALE);
+            stepping = false;
+            if (stopped) {
+                return;
+            }
+            RealtimeService.publishLocal(result.deltas);
+            DispatchLog.record(result.events);
+            const earned = result.completed.filter((ride) => ride.owner === "player");
+            if (earned.length > 0) {
+                const amount = earned.reduce((sum, ride) => sum + ride.fare.net, 0);
+                LedgerService.record(
+                    earned.map((ride) => ({ kind: "fare", ref: `${run}-${ride.request.id}`, vehicle_id: ride.vehicleId, miles: ride.fare.miles }))
+                );
+                console.log(`useFareSimulation: ${earned.length} fare(s) completed, +$${amount.toFixed(2)} reported`);
+            }
+            const sessions = engine.getChargeSessions(); // Not result.charging: a session may have been unplugged mid-step
+            setChargeSessions((current) => (current.length === 0 && sessions.length === 0 ? current : sessions));
+            const trips = engine.getChargerTrips();
+            setChargerTrips((current) => (current.length === 0 && trips.length === 0 ? current : trips));
+            setChargingSites(result.sites);
+            const jobs = engine.getMaintenanceJobs();
+            setMaintenanceJobs((current) => (current.length === 0 && jobs.length === 0 ? current : jobs));
+            const wear = engine.getWear();
+            setWearStates((current) => (current.length === 0 && wear.length === 0 ? current : wear));
+            if (Date.now() - wearSavedAt >= WEAR_SAVE_MS) {
+                wearSavedAt = Date.now();
+                const owned = new Set(vehiclesRef.current.playerVehicles.map((vehicle) => vehicle.id));
+                wear.filter((state) => owned.has(state.vehicleId)).forEach((state) => {
+                    const fields = wearFields(state);
+                    const key = JSON.stringify(fields);
+                    if (savedWear.get(state.vehicleId) === key) {
+                        return;
+                    }
+                    savedWear.set(state.vehicleId, key);
+                    ApiClient.saveVehicleWear(state.vehicleId, fields).catch((error) => {
+                        savedWear.delete(state.vehicleId); // Try again next time
+                        console.error(`useFareSimulation: Failed to save wear of ${state.vehicleId}:`, error);
+                    });
+                });
+            }
+            if (result.alerts.length > 0) {
+                setMaintenanceAlerts((current) => [...[...result.alerts].reverse(), ...current].slice(0, MAX_ALERTS));
+                result.alerts.forEach((alert) => console.log(`useFareSimulation: ${alert.vehicleId} ${alert.message}`));
+            }
+            const serviced = result.serviced.filter((receipt) => receipt.reason === "complete");
+            LedgerService.record(serviced.map((receipt) => maintenanceEntry(run, receipt)));
+            serviced.forEach((receipt) => {
+                console.log(`useFareSimulation: ${receipt.vehicleId} serviced (${receipt.kinds.join(", ")}), -$${receipt.cost.toFixed(2)} reported`);
+                setMaintenanceAlerts((current) => current.filter((alert) => alert.vehicleId !== receipt.vehicleId));
+                ApiClient.updateVehicleStatus(receipt.vehicleId, "parked").catch((error) =>
+                    console.error(`useFareSimulation: Failed to park ${receipt.vehicleId} after maintenance:`, error)
+                );
+            });
+            const cleanings = engine.getCleaningJobs();
+            setCleaningJobs((current) => (current.length === 0 && cleanings.length === 0 ? current : cleanings));
+            result.cleaned.forEach((job) => {
+                console.log(`useFareSimulation: ${job.vehicleId} cleaned by staff ${job.staffId}`);
+                ApiClient.updateVehicleStatus(job.vehicleId, "parked").catch((error) =>
+                    console.error(`useFareSimulation: Failed to park ${job.vehicleId} after cleaning:`, error)
+                );
+            });
+            if (result.staffWork.length > 0) {
+                onStaffWorkRef.current(result.staffWork);
+            }
+            result.arrivals.forEach((trip) => {
+                ApiClient.updateVehicleStatus(trip.vehicleId, "charging").catch((error) =>
+                    console.error(`useFareSimulation: Failed to set ${trip.vehicleId} charging at ${trip.siteId}:`, error)
+                );
+            });
+            LedgerService.record(
+                result.charged.map((receipt) => chargeEntry(run, receipt)).filter((entry): entry is ChargeLedgerEntry => entry !== null)
+            );
+            result.charged.forEach((receipt) => {
+                console.log(`useFareSimulation: ${receipt.vehicleId} charged ${receipt.energyKwh.toFixed(1)} kWh, -$${receipt.cost.toFixed(2)} reported`);
+                if (receipt.reason === "complete") {
+                    ApiClient.updateVehicleStatus(receipt.vehicleId, "parked").catch((error) =>
+                        console.error(`useFareSimulation: Failed to park ${receipt.vehicleId} after charging:`, error)
+                    );
+                }
+            });
+        }, TICK_MS);
+
+        return () => {
+            clearInterval(timer);
+            stopped = true;
+            engineRef.current = null;
+            setChargeSessions([]);
+            setChargerTrips([]);
+            setChargingSites([]);
+            setMaintenanceJobs([]);
+            setWearStates([]);
+            setCleaningJobs([]);
+            console.log("useFareSimulation: Stopped");
+        };
+    }, [enabled, seed]);
+
+    const startCharging = useCallback(async (vehicleId: string, charger: ChargerType, target: ChargeTarget) => {
+        await ApiClient.updateVehicleStatus(vehicleId, "charging");
+        const session = engineRef.current?.startCharging(vehicleId, charger, target);
+        if (session) {
+            setChargeSessions((current) => [...current, session]);
+        }
+    }, []);
+
+    const stopCharging = useCallback(async (vehicleId: string) => {
+        const receipt = engineRef.current?.stopCharging(vehicleId) ?? null;
+        if (receipt) {
+            const entry = chargeEntry(runRef.current, receipt);
+            if (entry) {
+                LedgerService.record([entry]);
+            }
+            setChargeSessions((current) => current.filter((session) => session.vehicleId !== vehicleId));
+        }
+        setChargerTrips((current) => current.filter((trip) => trip.vehicleId !== vehicleId));
+        await ApiClient.updateVehicleStatus(vehicleId, "parked");
+        return receipt;
+    }, []);
+
+    const sendToNearestCharger = useCallback(async (vehicleId: string, target: ChargeTarget) => {
+        const engine = engineRef.current;
+        if (!engine) {
+            throw new CyberError("SuperCharger trips need the fare simulation", 503);
+        }
+        const site = await engine.nearestChargingSite(vehicleId);
+        if (!site) {
+            throw new CyberError(`Vehicle ${vehicleId} is not on the map`, 409);
+        }
+        await ApiClient.dispatchVehicle(vehicleId, site.coords);
+        const trip = await engine.sendToCharger(vehicleId, site.id, target);
+        setChargerTrips((current) => [...current, trip]);
+        return trip;
+    }, []);
+
+    const startMaintenance = useCallback(async (vehicleId: string, kinds: MaintenanceKind[]) => {
+        await ApiClient.updateVehicleStatus(vehicleId, "maintenance");
+        const job = engineRef.current?.startMaintenance(vehicleId, kinds);
+        if (job) {
+            setMaintenanceJobs((current) => [...current, job]);
+        }
+    }, []);
+
+    const cancelMaintenance = useCallback(async (vehicleId: string) => {
+        engineRef.current?.cancelMaintenance(vehicleId);
+        setMaintenanceJobs((current) => current.filter((job) => job.vehicleId !== vehicleId));
+        await ApiClient.updateVehicleStatus(vehicleId, "parked");
+    }, []);
+
+    return {
+        chargeSessions,
+        chargerTrips,
+        chargingSites,
+        startCharging,
+        stopCharging,
+        sendToNearestCharger,
+        maintenanceJobs,
+        maintenanceAlerts,
+        wearStates,
+        startMaintenance,
+        cancelMaintenance,
+        cleaningJobs,
+    };
+};
@@ -0,0 +1,33 @@
+// src/utils/errorhandling/ApiError.ts
+/**
+ * @file ApiError.ts
+ * @description Error class for failed CyberTaxi API requests, carrying the backend's error envelope.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Extends CyberError with the optional details string the backend returns alongside status and message.
+ */
+import { CyberError } from "./CyberError";
+
+export class ApiError extends CyberError {
+    details: string | null;
+
+    /**
+     * Constructs a new ApiError instance.
+     * @param {string} message - The backend message (or a client-side description for network failures).
+     * @param {number} [status=500] - The HTTP status code, or 0 when the request never reached the server.
+     * @param {string | null} [details=null] - The backend details field, if any.
+     */
+    constructor(message: string, status: number = 500, details: string | null = null) {
+        super(message, status);
+        this.name = "ApiError";
+        this.details = details;
+    }
+
+    /**
+     * Whether the error means the JWT was missing, expired, or rejected.
+     * @returns {boolean} True for 401 and 403 responses.
+     */
+    isAuthError(): boolean {
+        return this.status === 401 || this.status === 403;
+    }
+}
@@ -0,0 +1,31 @@
+// src/utils/errorhandling/ResponseValidationError.ts
+/**
+ * @file ResponseValidationError.ts
+ * @description Error class for backend responses that do not match their schema.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Thrown by ApiClient after the issues have been reported to ValidationDiagnostics; carries them for callers.
+ */
+import { ApiError } from "./ApiError";
+import type { ValidationIssue } from "../validation/schema";
+
+export class ResponseValidationError extends ApiError {
+    issues: ValidationIssue[];
+
+    /**
+     * Constructs a new ResponseValidationError instance.
+     * @param {string} source - Request that produced the response (e.g., "GET /player/Kevin-Dean/balance").
+     * @param {ValidationIssue[]} issues - Schema issues found in the response.
+     * @param {number} [status=200] - HTTP status of the otherwise successful response.
+     */
+    constructor(source: string, issues: ValidationIssue[], status: number = 200) {
+        const first = issues[0];
+        super(
+            `Unexpected response from ${source}`,
+            status,
+            first ? `${first.path}: ${first.message}` : null
+        );
+        this.name = "ResponseValidationError";
+        this.issues = issues;
+    }
+}
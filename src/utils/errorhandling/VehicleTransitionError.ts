@@ -0,0 +1,29 @@
+// src/utils/errorhandling/VehicleTransitionError.ts
+/**
+ * @file VehicleTransitionError.ts
+ * @description Error class for vehicle status changes the lifecycle does not allow.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Thrown by transitionVehicle() in domain/Vehicle.ts; status 409 mirrors an HTTP conflict.
+ */
+import { CyberError } from "./CyberError";
+
+export class VehicleTransitionError extends CyberError {
+    vehicleId: string;
+    from: string;
+    to: string;
+
+    /**
+     * Constructs a new VehicleTransitionError instance.
+     * @param {string} vehicleId - Vehicle that was asked to change.
+     * @param {string} from - Current status.
+     * @param {string} to - Requested status.
+     */
+    constructor(vehicleId: string, from: string, to: string) {
+        super(`Vehicle ${vehicleId} cannot go from ${from} to ${to}`, 409);
+        this.name = "VehicleTransitionError";
+        this.vehicleId = vehicleId;
+        this.from = from;
+        this.to = to;
+    }
+}
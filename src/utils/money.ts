@@ -0,0 +1,15 @@
+// src/utils/money.ts
+/**
+ * @file money.ts
+ * @description Money rounding shared by the CyberTaxi simulation and domain prices.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note The server rounds the same way (toCents in server/utils/ledger-utils.js).
+ */
+
+/**
+ * Rounds a dollar amount to cents.
+ * @param {number} value - Dollars.
+ * @returns {number} Dollars to two decimals.
+ */
+export const toCents = (value: number): number => Math.round(value * 100) / 100;
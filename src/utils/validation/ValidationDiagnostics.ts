@@ -0,0 +1,75 @@
+// src/utils/validation/ValidationDiagnostics.ts
+/**
+ * @file ValidationDiagnostics.ts
+ * @description In-memory log of schema validation issues for the developer diagnostics panel.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Replaces scattered console.warn calls: validators report here and DiagnosticsWindow subscribes for display.
+ * @detail Keeps the most recent MAX_ENTRIES reports; listeners are notified synchronously on every change.
+ */
+import type { ValidationIssue } from "./schema";
+
+const MAX_ENTRIES = 100;
+
+/**
+ * One validation report (typically one API response).
+ * @interface DiagnosticsEntry
+ */
+export interface DiagnosticsEntry {
+    id: number;
+    source: string; // e.g. "GET /vehicles/others"
+    timestamp: Date;
+    issues: ValidationIssue[];
+}
+
+export class ValidationDiagnostics {
+    private static entries: DiagnosticsEntry[] = [];
+    private static listeners = new Set<(entries: DiagnosticsEntry[]) => void>();
+    private static nextId = 1;
+
+    /**
+     * Records validation issues from a source.
+     * @param {string} source - Where the data came from.
+     * @param {ValidationIssue[]} issues - Issues found; ignored if empty.
+     */
+    static report(source: string, issues: ValidationIssue[]): void {
+        if (issues.length === 0) {
+            return;
+        }
+        this.entries = [{ id: this.nextId++, source, timestamp: new Date(), issues }, ...this.entries].slice(0, MAX_ENTRIES);
+        console.warn(`ValidationDiagnostics: ${issues.length} issue(s) from ${source}`);
+        this.notify();
+    }
+
+    /**
+     * Current entries, newest first.
+     * @returns {DiagnosticsEntry[]} Entries.
+     */
+    static getEntries(): DiagnosticsEntry[] {
+        return this.entries;
+    }
+
+    /**
+     * Removes all entries.
+     */
+    static clear(): void {
+        this.entries = [];
+        this.notify();
+    }
+
+    /**
+     * Subscribes to entry changes.
+     * @param {(entries: DiagnosticsEntry[]) => void} listener - Called with the new entry list.
+     * @returns {() => void} Unsubscribe function.
+     */
+    static subscribe(listener: (entries: DiagnosticsEntry[]) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private static notify(): void {
+        this.listeners.forEach((listener) => listener(this.entries));
+    }
+}
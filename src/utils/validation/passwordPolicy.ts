@@ -0,0 +1,45 @@
+// src/utils/validation/passwordPolicy.ts
+/**
+ * @file passwordPolicy.ts
+ * @description Password strength rules for CyberTaxi password resets.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Mirrors checkPasswordStrength in server/routes/auth/authRoutes.js; keep both in sync.
+ */
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+/**
+ * Checks a password against the strength policy.
+ * @param {string} password - Candidate password.
+ * @returns {string | null} Reason the password is too weak, or null if it passes.
+ */
+export const checkPasswordStrength = (password: string): string | null => {
+    if (password.length < PASSWORD_MIN_LENGTH) {
+        return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+    }
+    if (!/[A-Za-z]/.test(password)) {
+        return "Password must contain a letter";
+    }
+    if (!/[0-9]/.test(password)) {
+        return "Password must contain a number";
+    }
+    return null;
+};
+
+/**
+ * Validates a new password and its confirmation.
+ * @param {string} password - New password.
+ * @param {string} confirmation - Re-typed password.
+ * @returns {string | null} First validation error, or null if both are acceptable.
+ */
+export const validateNewPassword = (password: string, confirmation: string): string | null => {
+    const weakness = checkPasswordStrength(password);
+    if (weakness) {
+        return weakness;
+    }
+    if (password !== confirmation) {
+        return "Passwords do not match";
+    }
+    return null;
+};
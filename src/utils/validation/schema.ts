@@ -0,0 +1,197 @@
+// src/utils/validation/schema.ts
+/**
+ * @file schema.ts
+ * @description Minimal runtime schema combinators for parsing untrusted JSON into CyberTaxi TypeScript types.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Every parser returns structured ValidationIssues (path + message) instead of logging, so callers decide
+ *       whether to throw, drop, or surface them (see ValidationDiagnostics).
+ * @detail listOf() keeps valid items and reports each rejected item with its raw value; all other schemas fail fast.
+ */
+
+/**
+ * A single validation problem.
+ * @interface ValidationIssue
+ */
+export interface ValidationIssue {
+    path: string; // Dotted path to the offending value, e.g. "vehicles[3].coords"
+    message: string;
+    value?: unknown; // Raw value (the whole record when a list item is dropped)
+}
+
+export type ParseResult<T> =
+    | { ok: true; value: T; issues: ValidationIssue[] }
+    | { ok: false; issues: ValidationIssue[] };
+
+/**
+ * Runtime parser producing a value of type T.
+ * @interface Schema
+ */
+export interface Schema<T> {
+    parse(input: unknown, path?: string): ParseResult<T>;
+}
+
+/** Maps each property of T to the schema that produces it. */
+export type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+const ok = <T>(value: T, issues: ValidationIssue[] = []): ParseResult<T> => ({ ok: true, value, issues });
+const fail = <T>(path: string, message: string, value?: unknown): ParseResult<T> => ({
+    ok: false,
+    issues: [{ path: path || "(root)", message, value }],
+});
+const join = (path: string, key: string | number): string =>
+    typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+/**
+ * Non-empty-aware string schema.
+ * @param {{ nonEmpty?: boolean }} [options] - Reject "" when nonEmpty is true.
+ * @returns {Schema<string>} String schema.
+ */
+export const string = (options: { nonEmpty?: boolean } = {}): Schema<string> => ({
+    parse: (input, path = "") => {
+        if (typeof input !== "string") return fail(path, "Expected string", input);
+        if (options.nonEmpty && input.trim() === "") return fail(path, "Expected non-empty string", input);
+        return ok(input);
+    },
+});
+
+/**
+ * Number schema. Numeric strings are accepted because MySQL DECIMAL columns serialize as strings.
+ * @param {{ min?: number; max?: number; integer?: boolean }} [options] - Bounds and integer check.
+ * @returns {Schema<number>} Number schema.
+ */
+export const number = (options: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> => ({
+    parse: (input, path = "") => {
+        const value = typeof input === "string" && input.trim() !== "" ? Number(input) : input;
+        if (typeof value !== "number" || !Number.isFinite(value)) return fail(path, "Expected number", input);
+        if (options.integer && !Number.isInteger(value)) return fail(path, "Expected integer", input);
+        if (options.min !== undefined && value < options.min) return fail(path, `Expected >= ${options.min}`, input);
+        if (options.max !== undefined && value > options.max) return fail(path, `Expected <= ${options.max}`, input);
+        return ok(value);
+    },
+});
+
+/**
+ * Boolean schema.
+ * @returns {Schema<boolean>} Boolean schema.
+ */
+export const boolean = (): Schema<boolean> => ({
+    parse: (input, path = "") => (typeof input === "boolean" ? ok(input) : fail(path, "Expected boolean", input)),
+});
+
+/**
+ * Identifier schema accepting numbers or non-empty strings, normalized to string.
+ * @returns {Schema<string>} Id schema.
+ */
+export const id = (): Schema<string> => ({
+    parse: (input, path = "") => {
+        if (typeof input === "number" && Number.isFinite(input)) return ok(String(input));
+        if (typeof input === "string" && input.trim() !== "") return ok(input);
+        return fail(path, "Expected id (number or non-empty string)", input);
+    },
+});
+
+/**
+ * Enumeration schema, matched case-insensitively and normalized to the canonical spelling.
+ * @param {readonly T[]} values - Allowed values.
+ * @returns {Schema<T>} Enum schema.
+ */
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => ({
+    parse: (input, path = "") => {
+        if (typeof input === "string") {
+            const match = values.find((v) => v.toLowerCase() === input.toLowerCase());
+            if (match !== undefined) return ok(match);
+        }
+        return fail(path, `Expected one of: ${values.join(", ")}`, input);
+    },
+});
+
+/**
+ * [lat, lng] tuple schema with range checks.
+ * @returns {Schema<[number, number]>} Coordinate schema.
+ */
+export const latLng = (): Schema<[number, number]> => ({
+    parse: (input, path = "") => {
+        if (!Array.isArray(input) || input.length !== 2) return fail(path, "Expected [lat, lng]", input);
+        const lat = number({ min: -90, max: 90 }).parse(input[0], join(path, 0));
+        const lng = number({ min: -180, max: 180 }).parse(input[1], join(path, 1));
+        if (!lat.ok || !lng.ok) return { ok: false, issues: [...lat.issues, ...lng.issues] };
+        return ok([lat.value, lng.value]);
+    },
+});
+
+/**
+ * Allows null (and treats undefined as null).
+ * @param {Schema<T>} schema - Inner schema.
+ * @returns {Schema<T | null>} Nullable schema.
+ */
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+    parse: (input, path = "") => (input === null || input === undefined ? ok(null) : schema.parse(input, path)),
+});
+
+/**
+ * Allows the value to be absent.
+ * @param {Schema<T>} schema - Inner schema.
+ * @returns {Schema<T | undefined>} Optional schema.
+ */
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+    parse: (input, path = "") => (input === undefined || input === null ? ok(undefined) : schema.parse(input, path)),
+});
+
+/**
+ * Object schema. Unknown keys are stripped; absent optional keys are omitted from the result.
+ * @param {Shape<T>} shape - Schema per property.
+ * @returns {Schema<T>} Object schema.
+ */
+export const object = <T>(shape: Shape<T>): Schema<T> => ({
+    parse: (input, path = "") => {
+        if (typeof input !== "object" || input === null || Array.isArray(input)) {
+            return fail(path, "Expected object", input);
+        }
+        const record = input as Record<string, unknown>;
+        const result: Partial<T> = {};
+        const issues: ValidationIssue[] = [];
+        let valid = true;
+        for (const key of Object.keys(shape) as (keyof T & string)[]) {
+            const parsed = shape[key].parse(record[key], join(path, key));
+            issues.push(...parsed.issues);
+            if (!parsed.ok) {
+                valid = false;
+            } else if (parsed.value !== undefined) {
+                result[key] = parsed.value;
+            }
+        }
+        return valid ? ok(result as T, issues) : { ok: false, issues };
+    },
+});
+
+/**
+ * Lenient array schema: invalid items are dropped and reported (with the raw item) rather than failing the list.
+ * @param {Schema<T>} schema - Item schema.
+ * @returns {Schema<T[]>} List schema; fails only if the input is not an array.
+ */
+export const listOf = <T>(schema: Schema<T>): Schema<T[]> => ({
+    parse: (input, path = "") => {
+        if (!Array.isArray(input)) return fail(path, "Expected array", input);
+        const items: T[] = [];
+        const issues: ValidationIssue[] = [];
+        input.forEach((item, index) => {
+            const parsed = schema.parse(item, join(path, index));
+            if (parsed.ok) {
+                items.push(parsed.value);
+                issues.push(...parsed.issues);
+            } else {
+                issues.push(...parsed.issues, { path: join(path, index), message: "Record dropped", value: item });
+            }
+        });
+        return ok(items, issues);
+    },
+});
+
+/**
+ * Checks a value against a schema without collecting issues.
+ * @param {Schema<T>} schema - Schema to test.
+ * @param {unknown} input - Candidate value.
+ * @returns {boolean} True if the value parses.
+ */
+export const matches = <T>(schema: Schema<T>, input: unknown): input is T => schema.parse(input).ok;
@@ -0,0 +1,140 @@
+// src/weather/OpenMeteoProvider.ts
+/**
+ * @file OpenMeteoProvider.ts
+ * @description Live weather for CyberTaxi from the Open-Meteo forecast API.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note Open-Meteo is free and needs no key, per the GDD ("Integration"). The endpoint comes from
+ *       API_CONFIG.WEATHER_URL through WeatherService, which also caches the answers; call it through WeatherService.
+ * @detail Asks for the current temperature, precipitation, WMO weather code and wind, and the same per hour with the
+ *         precipitation probability, in Unix time so no time zone is involved. The body is checked with the
+ *         utils/validation schemas: issues go to ValidationDiagnostics and a malformed body throws
+ *         ResponseValidationError. Hours with missing values are skipped.
+ */
+import { weatherKind } from "../domain/Weather";
+import type { WeatherSample } from "../domain/Weather";
+import { ApiError } from "../utils/errorhandling/ApiError";
+import { ResponseValidationError } from "../utils/errorhandling/ResponseValidationError";
+import { listOf, nullable, number, object } from "../utils/validation/schema";
+import type { Schema } from "../utils/validation/schema";
+import { ValidationDiagnostics } from "../utils/validation/ValidationDiagnostics";
+import type { WeatherProvider } from "./WeatherProvider";
+
+/**
+ * The parts of an Open-Meteo forecast response CyberTaxi reads.
+ * @interface OpenMeteoResponse
+ */
+interface OpenMeteoResponse {
+    current: {
+        time: number; // Unix seconds
+        temperature_2m: number;
+        precipitation: number;
+        weather_code: number;
+        wind_speed_10m: number;
+    };
+    hourly: {
+        time: number[];
+        temperature_2m: (number | null)[];
+        precipitation_probability: (number | null)[];
+        precipitation: (number | null)[];
+        weather_code: (number | null)[];
+        wind_speed_10m: (number | null)[];
+    };
+}
+
+const CURRENT_FIELDS = "temperature_2m,precipitation,weather_code,wind_speed_10m";
+const HOURLY_FIELDS = "temperature_2m,precipitation_probability,precipitation,weather_code,wind_speed_10m";
+
+const openMeteoSchema: Schema<OpenMeteoResponse> = object<OpenMeteoResponse>({
+    current: object<OpenMeteoResponse["current"]>({
+        time: number({ integer: true }),
+        temperature_2m: number(),
+        precipitation: number({ min: 0 }),
+        weather_code: number({ integer: true, min: 0 }),
+        wind_speed_10m: number({ min: 0 }),
+    }),
+    hourly: object<OpenMeteoResponse["hourly"]>({
+        time: listOf(number({ integer: true })),
+        temperature_2m: listOf(nullable(number())),
+        precipitation_probability: listOf(nullable(number({ min: 0, max: 100 }))),
+        precipitation: listOf(nullable(number({ min: 0 }))),
+        weather_code: listOf(nullable(number({ integer: true, min: 0 }))),
+        wind_speed_10m: listOf(nullable(number({ min: 0 }))),
+    }),
+});
+
+/**
+ * Reads one hour of the hourly arrays.
+ * @param {OpenMeteoResponse["hourly"]} hourly - Hourly arrays.
+ * @param {number} index - Hour.
+ * @returns {WeatherSample | null} Sample, or null when a value is missing.
+ */
+const hourlySample = (hourly: OpenMeteoResponse["hourly"], index: number): WeatherSample | null => {
+    const code = hourly.weather_code[index];
+    const temperatureC = hourly.temperature_2m[index];
+    const precipitationMm = hourly.precipitation[index];
+    const windKph = hourly.wind_speed_10m[index];
+    if (code == null || temperatureC == null || precipitationMm == null || windKph == null) {
+        return null;
+    }
+    return {
+        time: new Date(hourly.time[index] * 1000).toISOString(),
+        kind: weatherKind(code),
+        code,
+        temperatureC,
+        precipitationMm,
+        precipitationChance: hourly.precipitation_probability[index] ?? null,
+        windKph,
+    };
+};
+
+/**
+ * Creates the Open-Meteo provider.
+ * @param {string} url - Forecast endpoint (API_CONFIG.WEATHER_URL).
+ * @returns {WeatherProvider} Provider; forecast() rejects with ApiError on HTTP or network failures.
+ */
+export const createOpenMeteoProvider = (url: string): WeatherProvider => ({
+    name: "Open-Meteo",
+    forecast: async ([lat, lng], hours) => {
+        const query = new URLSearchParams({
+            latitude: lat.toFixed(4),
+            longitude: lng.toFixed(4),
+            current: CURRENT_FIELDS,
+            hourly: HOURLY_FIELDS,
+            forecast_hours: String(hours),
+            timeformat: "unixtime",
+        });
+        const source = `GET ${url}`;
+        let response: Response;
+        try {
+            response = await fetch(`${url}?${query}`);
+        } catch (error) {
+            throw new ApiError("Open-Meteo unreachable", 0, error instanceof Error ? error.message : null);
+        }
+        if (!response.ok) {
+            throw new ApiError(`Open-Meteo request failed (HTTP ${response.status})`, response.status, await response.text());
+        }
+        const result = openMeteoSchema.parse(await response.json());
+        ValidationDiagnostics.report(source, result.issues);
+        if (!result.ok) {
+            throw new ResponseValidationError(source, result.issues, response.status);
+        }
+        const { current, hourly } = result.value;
+        return {
+            source: "Open-Meteo",
+            fetchedAt: new Date().toISOString(),
+            current: {
+                time: new Date(current.time * 1000).toISOString(),
+                kind: weatherKind(current.weather_code),
+                code: current.weather_code,
+                temperatureC: current.temperature_2m,
+                precipitationMm: current.precipitation,
+                precipitationChance: null,
+                windKph: current.wind_speed_10m,
+            },
+            hourly: hourly.time
+                .map((_, index) => hourlySample(hourly, index))
+                .filter((sample): sample is WeatherSample => sample !== null),
+        };
+    },
+});
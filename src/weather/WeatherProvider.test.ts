@@ -0,0 +1,146 @@
+// src/weather/WeatherProvider.test.ts
+/**
+ * @file WeatherProvider.test.ts
+ * @description Unit tests for the CyberTaxi fixture weather provider and the weather classification it feeds.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.0
+ * @note The fixture is pinned with its clock argument; no network is involved.
+ */
+import { describe, expect, it } from "vitest";
+import { toAustinWallClock } from "../domain/LocalTime";
+import { CALM_WEATHER, isWet, weatherKind, weatherModifiers } from "../domain/Weather";
+import type { WeatherSample } from "../domain/Weather";
+import { RAIN_MULTIPLIER } from "../simulation/Wear";
+import { createFixtureProvider } from "./WeatherProvider";
+
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+const JULY_1_2025 = Date.UTC(2025, 6, 1, 5); // Midnight in Austin (CDT)
+const JANUARY_1_2025 = Date.UTC(2025, 0, 1, 6); // Midnight in Austin (CST)
+const DAYS = 120;
+
+/** Every hour of the fixture's weather for DAYS days from a local midnight. */
+const hoursFrom = async (seed: number, midnight: number): Promise<WeatherSample[]> => {
+    const forecast = await createFixtureProvider(seed, () => midnight).forecast([30.2672, -97.7431], DAYS * 24);
+    return forecast.hourly;
+};
+
+/** Samples of one local day, keyed by the day number. */
+const byLocalDay = (samples: readonly WeatherSample[]): Map<number, WeatherSample[]> => {
+    const days = new Map<number, WeatherSample[]>();
+    samples.forEach((sample) => {
+        const day = Math.floor(toAustinWallClock(Date.parse(sample.time)) / DAY_MS);
+        days.set(day, [...(days.get(day) ?? []), sample]);
+    });
+    return days;
+};
+
+describe("weatherKind", () => {
+    it("classifies WMO codes", () => {
+        expect([0, 1, 2, 3, 45, 48, 51, 55, 61, 65, 81, 71, 86, 95, 99].map(weatherKind)).toEqual([
+            "clear",
+            "clear",
+            "cloudy",
+            "cloudy",
+            "fog",
+            "fog",
+            "drizzle",
+            "drizzle",
+            "rain",
+            "rain",
+            "rain",
+            "snow",
+            "snow",
+            "storm",
+            "storm",
+        ]);
+    });
+
+    it("counts unknown codes as cloudy", () => {
+        expect(weatherKind(20)).toBe("cloudy");
+    });
+});
+
+describe("weatherModifiers", () => {
+    it("leaves trips alone when dry or unknown", () => {
+        expect(weatherModifiers(null)).toBe(CALM_WEATHER);
+        expect(weatherModifiers({ time: "", kind: "fog", code: 45, temperatureC: 20, precipitationMm: 0, precipitationChance: 0, windKph: 5 })).toBe(
+            CALM_WEATHER
+        );
+    });
+
+    it("slows trips by 10% in light rain and 20% in a storm, with the simulation's rain wear", () => {
+        const light = weatherModifiers({ time: "", kind: "drizzle", code: 51, temperatureC: 20, precipitationMm: 0, precipitationChance: 80, windKph: 5 });
+        const storm = weatherModifiers({ time: "", kind: "storm", code: 95, temperatureC: 20, precipitationMm: 1, precipitationChance: 90, windKph: 30 });
+        expect(light).toEqual({ speed: 0.9, wear: RAIN_MULTIPLIER, demand: 1.2, wet: true });
+        expect(storm.speed).toBe(0.8);
+    });
+});
+
+describe("createFixtureProvider", () => {
+    it("gives the same weather for the same seed and time", async () => {
+        const first = await hoursFrom(3, JULY_1_2025);
+        expect(await hoursFrom(3, JULY_1_2025)).toEqual(first);
+        expect(await hoursFrom(4, JULY_1_2025)).not.toEqual(first);
+    });
+
+    it("forecasts whole hours from the current one", async () => {
+        const now = JULY_1_2025 + 30 * 60000;
+        const forecast = await createFixtureProvider(1, () => now).forecast([0, 0], 24);
+        expect(forecast.source).toBe("Fixture");
+        expect(forecast.current.time).toBe(new Date(now).toISOString());
+        expect(forecast.hourly).toHaveLength(24);
+        expect(forecast.hourly.map((sample) => Date.parse(sample.time))).toEqual(
+            Array.from({ length: 24 }, (_, index) => JULY_1_2025 + index * HOUR_MS)
+        );
+    });
+
+    it("classifies every hour from its own WMO code, with rain only while wet", async () => {
+        const samples = await hoursFrom(5, JULY_1_2025);
+        samples.forEach((sample) => {
+            expect(sample.kind).toBe(weatherKind(sample.code));
+            expect(["clear", "cloudy", "drizzle", "rain", "storm"]).toContain(sample.kind);
+            if (isWet(sample.kind)) {
+                expect(sample.precipitationMm).toBeGreaterThan(0);
+                expect(sample.precipitationChance).toBeGreaterThanOrEqual(70);
+            } else {
+                expect(sample.precipitationMm).toBe(0);
+            }
+        });
+    });
+
+    it("rains on about 15% of days, in one spell of 1 to 4 hours", async () => {
+        for (const midnight of [JULY_1_2025, JANUARY_1_2025]) {
+            const days = byLocalDay(await hoursFrom(6, midnight));
+            expect(days.size).toBeGreaterThanOrEqual(DAYS); // A clock change leaves one hour on an extra day
+            let rainyDays = 0;
+            days.forEach((hours) => {
+                const wet = hours.map((sample) => isWet(sample.kind));
+                const first = wet.indexOf(true);
+                if (first < 0) {
+                    return;
+                }
+                rainyDays++;
+                const spell = wet.lastIndexOf(true) - first + 1;
+                expect(spell).toBeGreaterThanOrEqual(1);
+                expect(spell).toBeLessThanOrEqual(4);
+                expect(wet.slice(first, first + spell).every(Boolean)).toBe(true);
+            });
+            expect(rainyDays / DAYS).toBeGreaterThan(0.05);
+            expect(rainyDays / DAYS).toBeLessThan(0.3);
+        }
+    });
+
+    it("is coolest before dawn and warmest in the afternoon, Austin time", async () => {
+        for (const midnight of [JULY_1_2025, JANUARY_1_2025]) {
+            const forecast = await createFixtureProvider(7, () => midnight).forecast([0, 0], 24);
+            const dry = forecast.hourly.every((sample) => !isWet(sample.kind));
+            if (!dry) {
+                continue;
+            }
+            const temperatures = forecast.hourly.map((sample) => sample.temperatureC);
+            expect(temperatures.indexOf(Math.min(...temperatures))).toBe(4);
+            expect(temperatures.indexOf(Math.max(...temperatures))).toBe(16);
+        }
+    });
+});
@@ -0,0 +1,122 @@
+// src/weather/WeatherProvider.ts
+/**
+ * @file WeatherProvider.ts
+ * @description Weather provider interface for CyberTaxi and a deterministic fixture provider for offline runs.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.1
+ * @note WeatherService (src/services) takes any WeatherProvider: createOpenMeteoProvider (OpenMeteoProvider.ts) for
+ *       live Austin weather, or createFixtureProvider when there is no network or a run must be repeatable.
+ * @detail The fixture draws each day from the seed and the day number alone, so the same seed gives the same weather
+ *         at the same time on any machine: a day is rainy with FIXTURE_RAIN_CHANCE (the GDD's 10–20% a day), with one
+ *         spell of 1–4 hours whose intensity runs from drizzle to a thunderstorm. Temperatures follow an Austin summer
+ *         day. It ignores the coordinates asked for; days and hours are Austin's, daylight saving included
+ *         (domain/LocalTime.ts).
+ */
+import { toAustinWallClock } from "../domain/LocalTime";
+import { weatherKind } from "../domain/Weather";
+import type { WeatherForecast, WeatherSample } from "../domain/Weather";
+import { createRandom } from "../simulation/random";
+
+/**
+ * Anything that can forecast the weather at a point.
+ * @interface WeatherProvider
+ */
+export interface WeatherProvider {
+    readonly name: string; // Shown as the forecast's source
+    /** Current conditions and the next hours at coords ([lat, lng]). */
+    forecast(coords: [number, number], hours: number): Promise<WeatherForecast>;
+}
+
+const HOUR_MS = 3600000;
+const FIXTURE_RAIN_CHANCE = 0.15;
+
+/**
+ * One day of fixture weather.
+ * @interface FixtureDay
+ */
+interface FixtureDay {
+    rainFrom: number; // Local hour the spell starts; -1 on a dry day
+    rainHours: number;
+    intensity: number; // 0 (drizzle) to 1 (thunderstorm)
+    cloudiness: number; // 0–1, for the dry hours
+}
+
+/**
+ * Draws a day of fixture weather.
+ * @param {number} seed - Fixture seed.
+ * @param {number} day - Days since the epoch, local time.
+ * @returns {FixtureDay} The day's rain spell and cloud cover.
+ */
+const fixtureDay = (seed: number, day: number): FixtureDay => {
+    const random = createRandom(seed ^ Math.imul(day, 0x9e3779b1));
+    const rainy = random() < FIXTURE_RAIN_CHANCE;
+    const rainFrom = Math.floor(random() * 21);
+    const rainHours = 1 + Math.floor(random() * 4);
+    const intensity = random();
+    const cloudiness = random();
+    return { rainFrom: rainy ? rainFrom : -1, rainHours, intensity, cloudiness };
+};
+
+/**
+ * WMO code for a fixture hour.
+ * @param {boolean} raining - Whether the day's spell is on.
+ * @param {number} intensity - Spell intensity, 0–1.
+ * @param {number} cloudiness - Cloud cover, 0–1.
+ * @returns {number} Drizzle, rain, heavy rain or thunderstorm while raining; clear to overcast otherwise.
+ */
+const fixtureCode = (raining: boolean, intensity: number, cloudiness: number): number => {
+    if (raining) {
+        if (intensity > 0.85) return 95;
+        if (intensity > 0.5) return 65;
+        return intensity > 0.2 ? 61 : 53;
+    }
+    if (cloudiness > 0.7) return 3;
+    return cloudiness > 0.4 ? 2 : 0;
+};
+
+/**
+ * Fixture weather for the hour containing a moment.
+ * @param {number} seed - Fixture seed.
+ * @param {number} at - Epoch ms.
+ * @returns {WeatherSample} Sample timed at `at`.
+ */
+const fixtureSample = (seed: number, at: number): WeatherSample => {
+    const localHours = Math.floor(toAustinWallClock(at) / HOUR_MS);
+    const day = Math.floor(localHours / 24);
+    const hour = localHours - day * 24;
+    const { rainFrom, rainHours, intensity, cloudiness } = fixtureDay(seed, day);
+    const raining = rainFrom >= 0 && hour >= rainFrom && hour < rainFrom + rainHours;
+    const precipitationMm = raining ? Math.round((0.3 + intensity * 6) * 10) / 10 : 0;
+    const code = fixtureCode(raining, intensity, cloudiness);
+    // Coolest around 4 AM, warmest around 4 PM
+    const temperatureC = 27 + 7 * Math.sin(((hour - 10) / 24) * 2 * Math.PI) - (raining ? 4 : 0);
+    return {
+        time: new Date(at).toISOString(),
+        kind: weatherKind(code),
+        code,
+        temperatureC: Math.round(temperatureC * 10) / 10,
+        precipitationMm,
+        precipitationChance: raining ? 70 + Math.round(intensity * 30) : rainFrom >= 0 ? 30 : 5,
+        windKph: Math.round((8 + cloudiness * 10 + (raining ? intensity * 25 : 0)) * 10) / 10,
+    };
+};
+
+/**
+ * Creates the deterministic fixture provider.
+ * @param {number} seed - Any integer; the same seed gives the same weather at the same time.
+ * @param {() => number} [now=Date.now] - Clock, so tests can pin the current hour.
+ * @returns {WeatherProvider} Provider that never touches the network.
+ */
+export const createFixtureProvider = (seed: number, now: () => number = Date.now): WeatherProvider => ({
+    name: "Fixture",
+    forecast: async (_coords, hours) => {
+        const at = now();
+        const hourStart = Math.floor(at / HOUR_MS) * HOUR_MS;
+        return {
+            source: "Fixture",
+            fetchedAt: new Date(at).toISOString(),
+            current: fixtureSample(seed, at),
+            hourly: Array.from({ length: hours }, (_, index) => fixtureSample(seed, hourStart + index * HOUR_MS)),
+        };
+    },
+});
@@ -3,9 +3,10 @@
  * @file vite.config.ts
  * @description Vite configuration for CyberTaxi frontend, orchestrating development server, plugins, and API proxying.
  * @author Kevin-Dean Livingstone & CyberTaxi Team - Grok, created by xAI
- * @version 0.2.4
+ * @version 0.2.5
  * @note Configures a seamless dev experience with PWA support and Backend API connectivity per GDD v1.1.
  *       Sets base path for deployment, enables modern JSX transform, and proxies /api using apiConfig.ts.
+ *       The service worker precaches JSON too, so the offline road graph (public/data) works without a network.
  */
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
@@ -48,7 +49,7 @@ export default defineConfig({
                 ],
             },
             workbox: {
-                globPatterns: ["**/*.{js,css,html,ico,png,svg,woff2}"], // Files to cache for offline use
+                globPatterns: ["**/*.{js,css,html,ico,png,svg,woff2,json}"], // Files to cache for offline use, incl. the road graph
             },
         }),
     ],
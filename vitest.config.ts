@@ -0,0 +1,18 @@
+// vitest.config.ts
+/**
+ * @file vitest.config.ts
+ * @description Vitest configuration for the CyberTaxi frontend unit tests.
+ * @author Kevin-Dean Livingstone & CyberTaxi Team
+ * @version 0.1.1
+ * @note Kept apart from vite.config.ts so tests do not load the React and PWA plugins or the dev server proxy.
+ * @detail Tests sit next to the module they cover as <Module>.test.ts and only exercise headless code (simulation,
+ *         domain, routing, weather), so they run under Node without a DOM. `npm test` runs them once.
+ */
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+    test: {
+        include: ["src/**/*.test.ts"],
+        environment: "node",
+    },
+});